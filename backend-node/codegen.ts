@@ -0,0 +1,48 @@
+import type { CodegenConfig } from '@graphql-codegen/cli';
+
+/**
+ * Resolver types from the GraphQL schema (src/schema.ts) - run `npm run codegen`
+ * after changing the schema and commit src/generated/graphql.ts with it.
+ */
+const config: CodegenConfig = {
+  schema: 'src/schema.ts',
+  generates: {
+    'src/generated/graphql.ts': {
+      plugins: ['typescript', 'typescript-resolvers'],
+      config: {
+        contextType: '../resolvers#Context',
+        // Types backed by a table: resolvers hand back the Prisma row (Date fields,
+        // Prisma enums) and the type resolvers turn it into the schema's fields.
+        // The *Parent types in resolvers.ts add relations a query may include.
+        mappers: {
+          AccessControlLog: '../resolvers#AccessControlLogParent',
+          AccessLog: '@prisma/client#AccessLog as PrismaAccessLog',
+          ApiKey: '../resolvers#ApiKeyParent',
+          ApprovalDelegation: '../resolvers#ApprovalDelegationParent',
+          Employee: '@prisma/client#Employee as PrismaEmployee',
+          ImpersonationSession: '../resolvers#ImpersonationSessionParent',
+          Invitation: '../resolvers#InvitationParent',
+          LeaveRequest: '../resolvers#LeaveRequestParent',
+          Message: '@prisma/client#Message as PrismaMessage',
+          Note: '@prisma/client#Note as PrismaNote',
+          Notification: '@prisma/client#Notification as PrismaNotification',
+          Permission: '@prisma/client#Permission as PrismaPermission',
+          ReviewRequest: '../resolvers#ReviewRequestParent',
+          Role: '../resolvers#RoleParent',
+          Session: '@prisma/client#Session as PrismaSession',
+          Thread: '../resolvers#ThreadParent',
+          ThreadMessage: '@prisma/client#ThreadMessage as PrismaThreadMessage',
+          User: '@prisma/client#User as PrismaUser',
+          UserStatistics: '@prisma/client#UserStatistics as PrismaUserStatistics',
+        },
+        // The rest are built in the resolvers and may leave fields to the type resolvers
+        defaultMapper: 'Partial<{T}>',
+        enumsAsTypes: true,
+        useIndexSignature: true,
+        useTypeImports: true,
+      },
+    },
+  },
+};
+
+export default config;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "twoFARecoveryCodes" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "RefreshToken" ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "revokedAt" TIMESTAMP(3);
+
+-- Existing tokens each become their own family
+UPDATE "RefreshToken" SET "familyId" = 'legacy-' || "id" WHERE "familyId" IS NULL;
+
+ALTER TABLE "RefreshToken" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "RefreshToken_familyId_idx" ON "RefreshToken"("familyId");
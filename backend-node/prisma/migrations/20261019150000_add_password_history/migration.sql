@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "passwordHistory" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "mustChangePassword" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "passwordChangedAt" TIMESTAMP(3);
+
+-- Existing passwords count as set when the account was created
+UPDATE "User" SET "passwordChangedAt" = "createdAt" WHERE "passwordHash" <> '';
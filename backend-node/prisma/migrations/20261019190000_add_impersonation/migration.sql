@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "AccessLog" ADD COLUMN     "impersonatorEmail" TEXT,
+ADD COLUMN     "impersonatorId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ImpersonationSession" (
+    "id" SERIAL NOT NULL,
+    "actorId" INTEGER NOT NULL,
+    "targetUserId" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "readOnly" BOOLEAN NOT NULL DEFAULT true,
+    "ipAddress" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ImpersonationSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImpersonationSession_actorId_idx" ON "ImpersonationSession"("actorId");
+
+-- AddForeignKey
+ALTER TABLE "ImpersonationSession" ADD CONSTRAINT "ImpersonationSession_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ImpersonationSession" ADD CONSTRAINT "ImpersonationSession_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
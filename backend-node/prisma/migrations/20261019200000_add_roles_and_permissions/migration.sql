@@ -0,0 +1,125 @@
+-- CreateTable
+CREATE TABLE "Permission" (
+    "key" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isSystem" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RolePermission" (
+    "roleId" INTEGER NOT NULL,
+    "permissionKey" TEXT NOT NULL,
+    "scope" TEXT NOT NULL DEFAULT 'all',
+
+    CONSTRAINT "RolePermission_pkey" PRIMARY KEY ("roleId","permissionKey")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_key_key" ON "Role"("key");
+
+-- Permission catalog (kept in step with utils/permissions.ts at startup)
+INSERT INTO "Permission" ("key", "category", "description") VALUES
+    ('employee.read', 'Employees', 'View employee records (own: self, manager and teammates)'),
+    ('employee.create', 'Employees', 'Add employee records'),
+    ('employee.update', 'Employees', 'Edit employee records'),
+    ('employee.delete', 'Employees', 'Delete employee records'),
+    ('employee.terminate', 'Employees', 'Terminate employees'),
+    ('employee.flag', 'Employees', 'Flag employees for review'),
+    ('employee.stats', 'Employees', 'View performance and attendance reports'),
+    ('employee.generateLogins', 'Employees', 'Create logins for employees without one'),
+    ('team.manage', 'Employees', 'Have direct reports (can be picked as a manager)'),
+    ('user.read', 'Users', 'View user accounts (team: own team and managers)'),
+    ('user.invite', 'Users', 'Invite new users (team: employees onto own team)'),
+    ('user.manageAccess', 'Users', 'Block and unblock user access'),
+    ('user.delete', 'Users', 'Delete user accounts'),
+    ('user.changeRole', 'Users', 'Change a user''s role'),
+    ('user.reset2FA', 'Users', 'Reset two-factor authentication'),
+    ('user.sessions', 'Users', 'View and revoke other users'' sessions'),
+    ('user.impersonate', 'Users', 'View the app as another user'),
+    ('leave.read', 'Leave', 'View leave requests'),
+    ('leave.approve', 'Leave', 'Approve or reject leave (team: long/special leave goes to a director)'),
+    ('review.create', 'Reviews', 'Ask for an employee review'),
+    ('review.decide', 'Reviews', 'See and decide review requests'),
+    ('note.read', 'Communication', 'Read the notes log'),
+    ('note.send', 'Communication', 'Send notes (team: to directors and own team)'),
+    ('message.send', 'Communication', 'Send messages (all: anyone and broadcasts, team: directors and own team, own: managers)'),
+    ('message.moderate', 'Communication', 'Delete other people''s messages and read every thread'),
+    ('notification.create', 'Communication', 'Create notifications'),
+    ('audit.read', 'Administration', 'View access logs'),
+    ('dashboard.view', 'Administration', 'View company dashboard and user statistics'),
+    ('apiKey.manage', 'Administration', 'Create and revoke API keys'),
+    ('role.manage', 'Administration', 'Create and edit roles and permissions'),
+    ('integration.slack', 'Administration', 'Send Slack notifications');
+
+-- System roles
+INSERT INTO "Role" ("key", "name", "description", "isSystem", "updatedAt") VALUES
+    ('director', 'Director', 'Full access to everything', true, CURRENT_TIMESTAMP),
+    ('manager', 'Manager', 'Runs a team: approves leave, flags and reviews their employees', true, CURRENT_TIMESTAMP),
+    ('employee', 'Employee', 'Own profile, leave requests and messages', true, CURRENT_TIMESTAMP);
+
+-- Director gets every permission company-wide
+INSERT INTO "RolePermission" ("roleId", "permissionKey", "scope")
+SELECT "Role"."id", "Permission"."key", 'all'
+FROM "Role", "Permission"
+WHERE "Role"."key" = 'director';
+
+-- Manager: what the old requireManagerOrAbove/requireAdmin guards allowed, limited to their team
+INSERT INTO "RolePermission" ("roleId", "permissionKey", "scope")
+SELECT "Role"."id", "grant"."permissionKey", "grant"."scope"
+FROM "Role", (VALUES
+    ('employee.read', 'team'),
+    ('employee.update', 'team'),
+    ('employee.flag', 'team'),
+    ('employee.stats', 'team'),
+    ('team.manage', 'all'),
+    ('user.read', 'team'),
+    ('user.invite', 'team'),
+    ('leave.read', 'team'),
+    ('leave.approve', 'team'),
+    ('review.create', 'team'),
+    ('note.read', 'all'),
+    ('note.send', 'team'),
+    ('message.send', 'team'),
+    ('notification.create', 'all'),
+    ('audit.read', 'all'),
+    ('integration.slack', 'all')
+) AS "grant"("permissionKey", "scope")
+WHERE "Role"."key" = 'manager';
+
+-- Employee: own records, messages to managers
+INSERT INTO "RolePermission" ("roleId", "permissionKey", "scope")
+SELECT "Role"."id", "grant"."permissionKey", "grant"."scope"
+FROM "Role", (VALUES
+    ('employee.read', 'own'),
+    ('message.send', 'own')
+) AS "grant"("permissionKey", "scope")
+WHERE "Role"."key" = 'employee';
+
+-- The legacy "admin" role was always treated as director; anything else unknown becomes employee
+UPDATE "User" SET "role" = 'director' WHERE "role" = 'admin';
+UPDATE "User" SET "role" = 'employee' WHERE "role" NOT IN ('director', 'manager', 'employee');
+UPDATE "Invitation" SET "role" = 'director' WHERE "role" = 'admin';
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_role_fkey" FOREIGN KEY ("role") REFERENCES "Role"("key") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RolePermission" ADD CONSTRAINT "RolePermission_permissionKey_fkey" FOREIGN KEY ("permissionKey") REFERENCES "Permission"("key") ON DELETE CASCADE ON UPDATE CASCADE;
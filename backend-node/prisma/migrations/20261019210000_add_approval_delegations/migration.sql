@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ApprovalDelegation" (
+    "id" SERIAL NOT NULL,
+    "managerId" INTEGER NOT NULL,
+    "delegateId" INTEGER NOT NULL,
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "reason" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApprovalDelegation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_delegateId_idx" ON "ApprovalDelegation"("delegateId");
+
+-- CreateIndex
+CREATE INDEX "ApprovalDelegation_managerId_idx" ON "ApprovalDelegation"("managerId");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_managerId_fkey" FOREIGN KEY ("managerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ApprovalDelegation" ADD CONSTRAINT "ApprovalDelegation_delegateId_fkey" FOREIGN KEY ("delegateId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
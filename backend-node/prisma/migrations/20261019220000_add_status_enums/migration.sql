@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "EmployeeStatus" AS ENUM ('ACTIVE', 'ON_LEAVE', 'UNDER_REVIEW', 'TERMINATION_REQUESTED', 'FLAGGED', 'TERMINATED');
+
+-- CreateEnum
+CREATE TYPE "LeaveStatus" AS ENUM ('PENDING', 'PENDING_DIRECTOR', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "LeaveType" AS ENUM ('ANNUAL', 'SICK', 'SPECIAL', 'SABBATICAL', 'MATERNITY', 'PATERNITY', 'MEDICAL_EXTENDED');
+
+-- CreateEnum
+CREATE TYPE "ReviewType" AS ENUM ('FLAG', 'TERMINATE');
+
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('INFO', 'WARNING', 'CRITICAL', 'APPROVAL', 'MESSAGE', 'LEAVE');
+
+-- CreateEnum
+CREATE TYPE "MessagePriority" AS ENUM ('LOW', 'NORMAL', 'HIGH', 'URGENT');
+
+-- Existing rows mix casings ("active", "ACTIVE", "on-leave"): upper case, dashes and
+-- spaces to underscores, then anything still unknown gets a safe value
+UPDATE "Employee" SET "status" = UPPER(REGEXP_REPLACE(TRIM("status"), '[- ]+', '_', 'g'));
+UPDATE "Employee" SET "status" = 'ACTIVE'
+WHERE "status" NOT IN ('ACTIVE', 'ON_LEAVE', 'UNDER_REVIEW', 'TERMINATION_REQUESTED', 'FLAGGED', 'TERMINATED');
+
+UPDATE "LeaveRequest" SET "status" = UPPER(REGEXP_REPLACE(TRIM("status"), '[- ]+', '_', 'g'));
+UPDATE "LeaveRequest" SET "status" = 'PENDING'
+WHERE "status" NOT IN ('PENDING', 'PENDING_DIRECTOR', 'APPROVED', 'REJECTED');
+
+-- An unknown leave type is treated as special leave, so it still goes past a director
+UPDATE "LeaveRequest" SET "type" = UPPER(REGEXP_REPLACE(TRIM("type"), '[- ]+', '_', 'g'));
+UPDATE "LeaveRequest" SET "type" = 'SPECIAL'
+WHERE "type" NOT IN ('ANNUAL', 'SICK', 'SPECIAL', 'SABBATICAL', 'MATERNITY', 'PATERNITY', 'MEDICAL_EXTENDED');
+
+UPDATE "ReviewRequest" SET "type" = UPPER(TRIM("type"));
+UPDATE "ReviewRequest" SET "type" = 'FLAG' WHERE "type" NOT IN ('FLAG', 'TERMINATE');
+
+UPDATE "ReviewRequest" SET "status" = UPPER(TRIM("status"));
+UPDATE "ReviewRequest" SET "status" = 'PENDING' WHERE "status" NOT IN ('PENDING', 'APPROVED', 'REJECTED');
+
+UPDATE "Notification" SET "type" = UPPER(TRIM("type"));
+UPDATE "Notification" SET "type" = 'INFO'
+WHERE "type" NOT IN ('INFO', 'WARNING', 'CRITICAL', 'APPROVAL', 'MESSAGE', 'LEAVE');
+
+UPDATE "Message" SET "priority" = UPPER(TRIM("priority"));
+UPDATE "Message" SET "priority" = 'NORMAL' WHERE "priority" NOT IN ('LOW', 'NORMAL', 'HIGH', 'URGENT');
+
+-- AlterTable
+ALTER TABLE "Employee" ALTER COLUMN "status" TYPE "EmployeeStatus" USING ("status"::"EmployeeStatus"),
+ALTER COLUMN "status" SET DEFAULT 'ACTIVE';
+
+-- AlterTable
+ALTER TABLE "LeaveRequest" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "LeaveRequest" ALTER COLUMN "type" TYPE "LeaveType" USING ("type"::"LeaveType"),
+ALTER COLUMN "type" SET DEFAULT 'ANNUAL',
+ALTER COLUMN "status" TYPE "LeaveStatus" USING ("status"::"LeaveStatus"),
+ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- AlterTable
+ALTER TABLE "ReviewRequest" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "ReviewRequest" ALTER COLUMN "type" TYPE "ReviewType" USING ("type"::"ReviewType"),
+ALTER COLUMN "status" TYPE "ReviewStatus" USING ("status"::"ReviewStatus"),
+ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- AlterTable
+ALTER TABLE "Notification" ALTER COLUMN "type" DROP DEFAULT;
+ALTER TABLE "Notification" ALTER COLUMN "type" TYPE "NotificationType" USING ("type"::"NotificationType"),
+ALTER COLUMN "type" SET DEFAULT 'INFO';
+
+-- AlterTable
+ALTER TABLE "Message" ALTER COLUMN "priority" DROP DEFAULT;
+ALTER TABLE "Message" ALTER COLUMN "priority" TYPE "MessagePriority" USING ("priority"::"MessagePriority"),
+ALTER COLUMN "priority" SET DEFAULT 'NORMAL';
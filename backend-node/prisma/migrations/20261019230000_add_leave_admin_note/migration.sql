@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "LeaveRequest" ADD COLUMN "adminNote" TEXT;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "TwoFARecoveryCode" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TwoFARecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- Carry over the codes users still have
+INSERT INTO "TwoFARecoveryCode" ("userId", "codeHash")
+SELECT "id", UNNEST("twoFARecoveryCodes")
+FROM "User";
+
+-- AlterTable
+ALTER TABLE "User" DROP COLUMN "twoFARecoveryCodes",
+ADD COLUMN     "twoFAChallengeId" TEXT,
+ADD COLUMN     "twoFALastUsedStep" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "TwoFARecoveryCode_userId_idx" ON "TwoFARecoveryCode"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TwoFARecoveryCode" ADD CONSTRAINT "TwoFARecoveryCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -1,8 +1,27 @@
-import { PrismaClient } from '@prisma/client';
+import { EmployeeStatus, PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
 
+// Seed accounts share well-known passwords, so they must be changed at first login.
+// Set SEED_KEEP_DEMO_PASSWORDS=true for a public demo where everyone uses the same logins.
+const mustChangePassword = process.env.SEED_KEEP_DEMO_PASSWORDS !== 'true';
+
+type SeedEmployee = {
+  userId?: number;
+  email: string;
+  name: string;
+  age: number;
+  className: string;
+  subjects: string[];
+  attendance: number;
+  role: string;
+  status: EmployeeStatus;
+  location: string;
+  managerId: number | null;
+  lastLogin: string;
+};
+
 async function main() {
   // Create director user
   const directorPassword = await bcrypt.hash('director123', 10);
@@ -13,11 +32,15 @@ async function main() {
     update: {
       passwordHash: directorPassword,
       role: 'director',
+      mustChangePassword,
+      passwordChangedAt: new Date(),
     },
     create: {
       email: 'director@example.com',
       passwordHash: directorPassword,
       role: 'director',
+      mustChangePassword,
+      passwordChangedAt: new Date(),
     },
   });
 
@@ -33,6 +56,8 @@ async function main() {
       email: 'manager@example.com',
       passwordHash: managerPassword,
       role: 'manager',
+      mustChangePassword,
+      passwordChangedAt: new Date(),
     },
   });
 
@@ -48,13 +73,15 @@ async function main() {
       email: 'employee@example.com',
       passwordHash: employeePassword,
       role: 'employee',
+      mustChangePassword,
+      passwordChangedAt: new Date(),
     },
   });
 
   console.log('[OK] Employee user created:', employee.email);
 
   // Keep employee profiles for auth users human-friendly and linked to User IDs
-  const accountEmployeeProfiles = [
+  const accountEmployeeProfiles: SeedEmployee[] = [
     {
       userId: director.id,
       email: director.email,
@@ -64,9 +91,9 @@ async function main() {
       subjects: ['Operations', 'Leadership'],
       attendance: 100,
       role: 'Director',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Head Office',
-      managerId: null as number | null,
+      managerId: null,
       lastLogin: new Date().toISOString(),
     },
     {
@@ -78,9 +105,9 @@ async function main() {
       subjects: ['Team Leadership', 'Planning'],
       attendance: 99,
       role: 'Manager',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building M',
-      managerId: null as number | null,
+      managerId: null,
       lastLogin: new Date().toISOString(),
     },
     {
@@ -92,7 +119,7 @@ async function main() {
       subjects: ['Support'],
       attendance: 96,
       role: 'Employee',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building E',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -108,7 +135,7 @@ async function main() {
   }
 
   // Create sample employee records
-  const employees = [
+  const employees: SeedEmployee[] = [
     {
       name: 'John Smith',
       email: 'john.smith@school.local',
@@ -117,7 +144,7 @@ async function main() {
       subjects: ['Math', 'Physics'],
       attendance: 95,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building A',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -130,7 +157,7 @@ async function main() {
       subjects: ['English', 'History'],
       attendance: 98,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building B',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -143,7 +170,7 @@ async function main() {
       subjects: ['Management'],
       attendance: 100,
       role: 'Principal',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Main Office',
       managerId: null,
       lastLogin: new Date().toISOString(),
@@ -156,7 +183,7 @@ async function main() {
       subjects: ['Science', 'Biology'],
       attendance: 92,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building A',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -169,7 +196,7 @@ async function main() {
       subjects: ['Computer Science'],
       attendance: 88,
       role: 'Teacher',
-      status: 'on-leave',
+      status: 'ON_LEAVE',
       location: 'Building C',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -183,7 +210,7 @@ async function main() {
       subjects: ['Math', 'English'],
       attendance: 97,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building B',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -196,7 +223,7 @@ async function main() {
       subjects: ['Management'],
       attendance: 100,
       role: 'Vice Principal',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Main Office',
       managerId: null,
       lastLogin: new Date().toISOString(),
@@ -209,7 +236,7 @@ async function main() {
       subjects: ['Chemistry', 'Physics'],
       attendance: 93,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building D',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -222,7 +249,7 @@ async function main() {
       subjects: ['Geography', 'History'],
       attendance: 90,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building E',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -235,7 +262,7 @@ async function main() {
       subjects: ['Spanish', 'Art'],
       attendance: 96,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building F',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -248,7 +275,7 @@ async function main() {
       subjects: ['Mathematics'],
       attendance: 94,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building A',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -261,7 +288,7 @@ async function main() {
       subjects: ['English Literature'],
       attendance: 95,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building B',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -274,7 +301,7 @@ async function main() {
       subjects: ['Physics'],
       attendance: 91,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building C',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -287,7 +314,7 @@ async function main() {
       subjects: ['Biology'],
       attendance: 97,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building D',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -300,7 +327,7 @@ async function main() {
       subjects: ['Computer Science'],
       attendance: 89,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building E',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -313,7 +340,7 @@ async function main() {
       subjects: ['History'],
       attendance: 96,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building F',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -326,7 +353,7 @@ async function main() {
       subjects: ['Chemistry'],
       attendance: 92,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building G',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -339,7 +366,7 @@ async function main() {
       subjects: ['Art', 'Design'],
       attendance: 98,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building H',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -352,7 +379,7 @@ async function main() {
       subjects: ['Geography'],
       attendance: 90,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building I',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -365,7 +392,7 @@ async function main() {
       subjects: ['Language Arts'],
       attendance: 97,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building J',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -378,7 +405,7 @@ async function main() {
       subjects: ['Economics', 'Civics'],
       attendance: 94,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building K',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -391,7 +418,7 @@ async function main() {
       subjects: ['Biology'],
       attendance: 95,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building C',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -404,7 +431,7 @@ async function main() {
       subjects: ['Physics'],
       attendance: 93,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building D',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -417,7 +444,7 @@ async function main() {
       subjects: ['English', 'Debate'],
       attendance: 96,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building B',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -430,7 +457,7 @@ async function main() {
       subjects: ['Mathematics'],
       attendance: 91,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building L',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -443,7 +470,7 @@ async function main() {
       subjects: ['Music'],
       attendance: 98,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building M',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
@@ -456,7 +483,7 @@ async function main() {
       subjects: ['Operations'],
       attendance: 99,
       role: 'Coordinator',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Main Office',
       managerId: null,
       lastLogin: new Date().toISOString(),
@@ -469,7 +496,7 @@ async function main() {
       subjects: ['Computer Science'],
       attendance: 97,
       role: 'Teacher',
-      status: 'active',
+      status: 'ACTIVE',
       location: 'Building N',
       managerId: manager.id,
       lastLogin: new Date().toISOString(),
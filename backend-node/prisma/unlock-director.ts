@@ -6,7 +6,6 @@ async function main() {
     where: { email: 'director@example.com' },
     data: {
       failedLoginAttempts: 0,
-      lockedUntil: null,
     },
   });
   console.log('Director account unlocked.');
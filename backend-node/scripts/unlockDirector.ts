@@ -8,7 +8,6 @@ async function unlockDirector() {
     data: {
       isActive: true,
       failedLoginAttempts: 0,
-      lockedUntil: null,
       accessBlockedUntil: null,
       accessBlockReason: null,
     },
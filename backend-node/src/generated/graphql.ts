@@ -0,0 +1,2094 @@
+import type { GraphQLResolveInfo } from 'graphql';
+import type { AccessControlLogParent, ApiKeyParent, ApprovalDelegationParent, ImpersonationSessionParent, InvitationParent, LeaveRequestParent, ReviewRequestParent, RoleParent, ThreadParent, Context } from '../resolvers';
+import type { AccessLog as PrismaAccessLog, Employee as PrismaEmployee, Message as PrismaMessage, Note as PrismaNote, Notification as PrismaNotification, Permission as PrismaPermission, Session as PrismaSession, ThreadMessage as PrismaThreadMessage, User as PrismaUser, UserStatistics as PrismaUserStatistics } from '@prisma/client';
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
+export type RequireFields<T, K extends keyof T> = Omit<T, K> & { [P in K]-?: NonNullable<T[P]> };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+};
+
+export type AccessControlLog = {
+  __typename?: 'AccessControlLog';
+  action: Scalars['String']['output'];
+  admin: User;
+  adminId: Scalars['Int']['output'];
+  blockedUntil?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  reason?: Maybe<Scalars['String']['output']>;
+  user: User;
+  userId: Scalars['Int']['output'];
+};
+
+export type AccessLog = {
+  __typename?: 'AccessLog';
+  action: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  details?: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  impersonatorEmail?: Maybe<Scalars['String']['output']>;
+  impersonatorId?: Maybe<Scalars['Int']['output']>;
+  ipAddress?: Maybe<Scalars['String']['output']>;
+  userEmail: Scalars['String']['output'];
+  userId: Scalars['Int']['output'];
+};
+
+export type AccessLogConnection = {
+  __typename?: 'AccessLogConnection';
+  edges: Array<AccessLogEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type AccessLogEdge = {
+  __typename?: 'AccessLogEdge';
+  cursor: Scalars['String']['output'];
+  node: AccessLog;
+};
+
+export type ApiKey = {
+  __typename?: 'ApiKey';
+  allowedIps: Array<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  createdByEmail?: Maybe<Scalars['String']['output']>;
+  createdById: Scalars['Int']['output'];
+  expiresAt?: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  lastUsedAt?: Maybe<Scalars['String']['output']>;
+  lastUsedIp?: Maybe<Scalars['String']['output']>;
+  name: Scalars['String']['output'];
+  prefix: Scalars['String']['output'];
+  revokedAt?: Maybe<Scalars['String']['output']>;
+  scopes: Array<Scalars['String']['output']>;
+  status: Scalars['String']['output'];
+};
+
+export type ApiKeyInput = {
+  allowedIps?: InputMaybe<Array<Scalars['String']['input']>>;
+  expiresInDays?: InputMaybe<Scalars['Int']['input']>;
+  name: Scalars['String']['input'];
+  scopes: Array<Scalars['String']['input']>;
+};
+
+export type ApiKeyResult = {
+  __typename?: 'ApiKeyResult';
+  apiKey: ApiKey;
+  key: Scalars['String']['output'];
+};
+
+export type ApprovalDelegation = {
+  __typename?: 'ApprovalDelegation';
+  createdAt: Scalars['String']['output'];
+  delegateEmail?: Maybe<Scalars['String']['output']>;
+  delegateId: Scalars['Int']['output'];
+  endDate?: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  isActive: Scalars['Boolean']['output'];
+  managerEmail?: Maybe<Scalars['String']['output']>;
+  managerId: Scalars['Int']['output'];
+  permissions: Array<Scalars['String']['output']>;
+  reason?: Maybe<Scalars['String']['output']>;
+  revokedAt?: Maybe<Scalars['String']['output']>;
+  startDate?: Maybe<Scalars['String']['output']>;
+  whileOnLeave: Scalars['Boolean']['output'];
+};
+
+export type ApprovalDelegationInput = {
+  delegateId: Scalars['Int']['input'];
+  endDate?: InputMaybe<Scalars['String']['input']>;
+  reason?: InputMaybe<Scalars['String']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type Conversation = {
+  __typename?: 'Conversation';
+  conversationId: Scalars['String']['output'];
+  lastMessage: Scalars['String']['output'];
+  lastMessageTime: Scalars['String']['output'];
+  participant: Scalars['String']['output'];
+  participantRole: Scalars['String']['output'];
+  unreadCount: Scalars['Int']['output'];
+};
+
+export type CreateNotificationInput = {
+  linkTo?: InputMaybe<Scalars['String']['input']>;
+  message: Scalars['String']['input'];
+  recipientRole?: InputMaybe<Scalars['String']['input']>;
+  recipientUserId?: InputMaybe<Scalars['Int']['input']>;
+  title: Scalars['String']['input'];
+  type: NotificationType;
+};
+
+export type CreateReviewRequestInput = {
+  employeeId: Scalars['Int']['input'];
+  managerReasonText: Scalars['String']['input'];
+  managerReasonType: Scalars['String']['input'];
+  type: ReviewType;
+  visibleToEmployee: Scalars['Boolean']['input'];
+};
+
+export type DashboardStats = {
+  __typename?: 'DashboardStats';
+  activeUsers: Scalars['Int']['output'];
+  blockedUsers: Scalars['Int']['output'];
+  recentActions: Array<AccessControlLog>;
+  recentLogins: Scalars['Int']['output'];
+  roleDistribution: RoleDistribution;
+  totalUsers: Scalars['Int']['output'];
+};
+
+export type Employee = {
+  __typename?: 'Employee';
+  age?: Maybe<Scalars['Int']['output']>;
+  attendance?: Maybe<Scalars['Int']['output']>;
+  avatar?: Maybe<Scalars['String']['output']>;
+  className?: Maybe<Scalars['String']['output']>;
+  createdAt?: Maybe<Scalars['String']['output']>;
+  email?: Maybe<Scalars['String']['output']>;
+  flagged?: Maybe<Scalars['Boolean']['output']>;
+  id: Scalars['Int']['output'];
+  lastLogin?: Maybe<Scalars['String']['output']>;
+  location: Scalars['String']['output'];
+  managerId?: Maybe<Scalars['Int']['output']>;
+  name: Scalars['String']['output'];
+  role: Scalars['String']['output'];
+  status?: Maybe<EmployeeStatus>;
+  subjects?: Maybe<Array<Scalars['String']['output']>>;
+  updatedAt?: Maybe<Scalars['String']['output']>;
+  userId?: Maybe<Scalars['Int']['output']>;
+};
+
+export type EmployeeConnection = {
+  __typename?: 'EmployeeConnection';
+  edges: Array<EmployeeEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type EmployeeEdge = {
+  __typename?: 'EmployeeEdge';
+  cursor: Scalars['String']['output'];
+  node: Employee;
+};
+
+export type EmployeeFilter = {
+  attendanceMax?: InputMaybe<Scalars['Int']['input']>;
+  attendanceMin?: InputMaybe<Scalars['Int']['input']>;
+  className?: InputMaybe<Scalars['String']['input']>;
+  emailContains?: InputMaybe<Scalars['String']['input']>;
+  hasLogin?: InputMaybe<Scalars['Boolean']['input']>;
+  location?: InputMaybe<Scalars['String']['input']>;
+  nameContains?: InputMaybe<Scalars['String']['input']>;
+  role?: InputMaybe<Scalars['String']['input']>;
+  roleNot?: InputMaybe<Scalars['String']['input']>;
+  status?: InputMaybe<EmployeeStatus>;
+};
+
+export type EmployeeInput = {
+  age: Scalars['Int']['input'];
+  attendance: Scalars['Int']['input'];
+  avatar?: InputMaybe<Scalars['String']['input']>;
+  className: Scalars['String']['input'];
+  email?: InputMaybe<Scalars['String']['input']>;
+  flagged?: InputMaybe<Scalars['Boolean']['input']>;
+  lastLogin: Scalars['String']['input'];
+  location: Scalars['String']['input'];
+  managerId?: InputMaybe<Scalars['Int']['input']>;
+  name: Scalars['String']['input'];
+  role: Scalars['String']['input'];
+  status: EmployeeStatus;
+  subjects: Array<Scalars['String']['input']>;
+  userId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type EmployeePerformanceStats = {
+  __typename?: 'EmployeePerformanceStats';
+  attendance: Scalars['Int']['output'];
+  employeeId: Scalars['Int']['output'];
+  flagged: Scalars['Boolean']['output'];
+  lastReviewDate?: Maybe<Scalars['String']['output']>;
+  name: Scalars['String']['output'];
+  notesCount: Scalars['Int']['output'];
+  reviewCount: Scalars['Int']['output'];
+  status: EmployeeStatus;
+};
+
+export type EmployeeSortBy =
+  | 'AGE'
+  | 'ATTENDANCE'
+  | 'CREATED_AT'
+  | 'NAME';
+
+export type EmployeeStatus =
+  | 'ACTIVE'
+  | 'FLAGGED'
+  | 'ON_LEAVE'
+  | 'TERMINATED'
+  | 'TERMINATION_REQUESTED'
+  | 'UNDER_REVIEW';
+
+export type FieldError = {
+  __typename?: 'FieldError';
+  code: Scalars['String']['output'];
+  field: Scalars['String']['output'];
+  message: Scalars['String']['output'];
+};
+
+export type GenerateLoginsResult = {
+  __typename?: 'GenerateLoginsResult';
+  created: Scalars['Int']['output'];
+  credentials: Array<GeneratedLogin>;
+  failed: Scalars['Int']['output'];
+  message: Scalars['String']['output'];
+  skipped: Scalars['Int']['output'];
+  success: Scalars['Boolean']['output'];
+};
+
+export type GeneratedLogin = {
+  __typename?: 'GeneratedLogin';
+  email: Scalars['String']['output'];
+  employeeId: Scalars['Int']['output'];
+  temporaryPassword: Scalars['String']['output'];
+};
+
+export type ImpersonationResult = {
+  __typename?: 'ImpersonationResult';
+  accessToken: Scalars['String']['output'];
+  session: ImpersonationSession;
+  user: User;
+};
+
+export type ImpersonationSession = {
+  __typename?: 'ImpersonationSession';
+  actorEmail?: Maybe<Scalars['String']['output']>;
+  actorId: Scalars['Int']['output'];
+  createdAt: Scalars['String']['output'];
+  endedAt?: Maybe<Scalars['String']['output']>;
+  expiresAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  readOnly: Scalars['Boolean']['output'];
+  reason: Scalars['String']['output'];
+  targetEmail?: Maybe<Scalars['String']['output']>;
+  targetUserId: Scalars['Int']['output'];
+};
+
+export type Invitation = {
+  __typename?: 'Invitation';
+  acceptedAt?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  email: Scalars['String']['output'];
+  expiresAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  invitedByEmail?: Maybe<Scalars['String']['output']>;
+  invitedById: Scalars['Int']['output'];
+  managerId?: Maybe<Scalars['Int']['output']>;
+  name?: Maybe<Scalars['String']['output']>;
+  revokedAt?: Maybe<Scalars['String']['output']>;
+  role: Scalars['String']['output'];
+  status: Scalars['String']['output'];
+};
+
+export type InvitationInput = {
+  email: Scalars['String']['input'];
+  expiresInDays?: InputMaybe<Scalars['Int']['input']>;
+  managerId?: InputMaybe<Scalars['Int']['input']>;
+  name?: InputMaybe<Scalars['String']['input']>;
+  role: Scalars['String']['input'];
+};
+
+export type InvitationResult = {
+  __typename?: 'InvitationResult';
+  invitation: Invitation;
+  inviteLink: Scalars['String']['output'];
+};
+
+export type LeaveRequest = {
+  __typename?: 'LeaveRequest';
+  adminNote?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  employeeId: Scalars['Int']['output'];
+  employeeName?: Maybe<Scalars['String']['output']>;
+  endDate: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  reason: Scalars['String']['output'];
+  startDate: Scalars['String']['output'];
+  status: LeaveStatus;
+  type?: Maybe<LeaveType>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type LeaveRequestInput = {
+  endDate: Scalars['String']['input'];
+  reason: Scalars['String']['input'];
+  startDate: Scalars['String']['input'];
+  type?: InputMaybe<LeaveType>;
+};
+
+export type LeaveStatus =
+  | 'APPROVED'
+  | 'PENDING'
+  | 'PENDING_DIRECTOR'
+  | 'REJECTED';
+
+export type LeaveType =
+  | 'ANNUAL'
+  | 'MATERNITY'
+  | 'MEDICAL_EXTENDED'
+  | 'PATERNITY'
+  | 'SABBATICAL'
+  | 'SICK'
+  | 'SPECIAL';
+
+export type Message = {
+  __typename?: 'Message';
+  attachments: Array<Scalars['String']['output']>;
+  conversationId: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  isRead: Scalars['Boolean']['output'];
+  message: Scalars['String']['output'];
+  messageType: Scalars['String']['output'];
+  priority: MessagePriority;
+  readAt?: Maybe<Scalars['String']['output']>;
+  recipientEmail?: Maybe<Scalars['String']['output']>;
+  recipientId?: Maybe<Scalars['Int']['output']>;
+  recipientRole?: Maybe<Scalars['String']['output']>;
+  replyToId?: Maybe<Scalars['Int']['output']>;
+  senderEmail: Scalars['String']['output'];
+  senderId: Scalars['Int']['output'];
+  senderRole: Scalars['String']['output'];
+  subject?: Maybe<Scalars['String']['output']>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type MessageConnection = {
+  __typename?: 'MessageConnection';
+  edges: Array<MessageEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type MessageEdge = {
+  __typename?: 'MessageEdge';
+  cursor: Scalars['String']['output'];
+  node: Message;
+};
+
+export type MessagePriority =
+  | 'HIGH'
+  | 'LOW'
+  | 'NORMAL'
+  | 'URGENT';
+
+export type MessageStats = {
+  __typename?: 'MessageStats';
+  conversations: Scalars['Int']['output'];
+  total: Scalars['Int']['output'];
+  unread: Scalars['Int']['output'];
+};
+
+export type Mutation = {
+  __typename?: 'Mutation';
+  addEmployee: Employee;
+  bulkToggleAccess: Scalars['Boolean']['output'];
+  changePassword: PasswordChangeResult;
+  createApiKey: ApiKeyResult;
+  createDelegation: ApprovalDelegation;
+  createInvitation: InvitationResult;
+  createLeaveRequest: LeaveRequest;
+  createNotification: Notification;
+  createReviewRequest: ReviewRequest;
+  createRole: Role;
+  deleteEmployee: Scalars['Boolean']['output'];
+  deleteMessage: Scalars['Boolean']['output'];
+  deleteNotification: Scalars['Boolean']['output'];
+  deleteRole: Scalars['Boolean']['output'];
+  deleteUser: Scalars['Boolean']['output'];
+  endImpersonation: Scalars['Boolean']['output'];
+  flagEmployee: Employee;
+  generateEmployeeLogins: GenerateLoginsResult;
+  logAccess: AccessLog;
+  markAllNotificationsAsRead: Scalars['Boolean']['output'];
+  markConversationAsRead: Scalars['Boolean']['output'];
+  markMessageAsRead: Message;
+  markNoteAsRead: Note;
+  markNotificationAsRead: Notification;
+  resendInvitation: InvitationResult;
+  reset2FA: Scalars['Boolean']['output'];
+  reviewDecision: ReviewRequest;
+  revokeAllOtherSessions: Scalars['Int']['output'];
+  revokeApiKey: ApiKey;
+  revokeDelegation: ApprovalDelegation;
+  revokeInvitation: Invitation;
+  revokeSession: Scalars['Boolean']['output'];
+  revokeUserSessions: Scalars['Int']['output'];
+  sendMessage: Message;
+  sendNote: Note;
+  sendSlackNotification: SlackNotificationResult;
+  sendThreadMessage: ThreadMessage;
+  setEmployeeManager: Employee;
+  setUserRole: User;
+  setup2FA: TwoFaSetupResult;
+  startImpersonation: ImpersonationResult;
+  terminateEmployee: Employee;
+  toggleUserAccess: Scalars['Boolean']['output'];
+  updateEmailPreferences: User;
+  updateEmployee: Employee;
+  updateLeaveRequestStatus: LeaveRequest;
+  updateMyProfile: Employee;
+  updateRole: Role;
+  verify2FA: Scalars['Boolean']['output'];
+};
+
+
+export type MutationAddEmployeeArgs = {
+  input: EmployeeInput;
+};
+
+
+export type MutationBulkToggleAccessArgs = {
+  isActive: Scalars['Boolean']['input'];
+  reason?: InputMaybe<Scalars['String']['input']>;
+  userIds: Array<Scalars['Int']['input']>;
+};
+
+
+export type MutationChangePasswordArgs = {
+  currentPassword: Scalars['String']['input'];
+  newPassword: Scalars['String']['input'];
+};
+
+
+export type MutationCreateApiKeyArgs = {
+  input: ApiKeyInput;
+};
+
+
+export type MutationCreateDelegationArgs = {
+  input: ApprovalDelegationInput;
+};
+
+
+export type MutationCreateInvitationArgs = {
+  input: InvitationInput;
+};
+
+
+export type MutationCreateLeaveRequestArgs = {
+  input: LeaveRequestInput;
+};
+
+
+export type MutationCreateNotificationArgs = {
+  input: CreateNotificationInput;
+};
+
+
+export type MutationCreateReviewRequestArgs = {
+  input: CreateReviewRequestInput;
+};
+
+
+export type MutationCreateRoleArgs = {
+  input: RoleInput;
+};
+
+
+export type MutationDeleteEmployeeArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteMessageArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteNotificationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteRoleArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteUserArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationFlagEmployeeArgs = {
+  flagged: Scalars['Boolean']['input'];
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationLogAccessArgs = {
+  action: Scalars['String']['input'];
+  details?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type MutationMarkConversationAsReadArgs = {
+  conversationId: Scalars['String']['input'];
+};
+
+
+export type MutationMarkMessageAsReadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationMarkNoteAsReadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationMarkNotificationAsReadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationResendInvitationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationReset2FaArgs = {
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationReviewDecisionArgs = {
+  input: ReviewDecisionInput;
+};
+
+
+export type MutationRevokeApiKeyArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationRevokeDelegationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationRevokeInvitationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationRevokeSessionArgs = {
+  id: Scalars['String']['input'];
+};
+
+
+export type MutationRevokeUserSessionsArgs = {
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationSendMessageArgs = {
+  input: SendMessageInput;
+};
+
+
+export type MutationSendNoteArgs = {
+  input: NoteInput;
+};
+
+
+export type MutationSendSlackNotificationArgs = {
+  text: Scalars['String']['input'];
+  webhookUrl: Scalars['String']['input'];
+};
+
+
+export type MutationSendThreadMessageArgs = {
+  input: SendThreadMessageInput;
+};
+
+
+export type MutationSetEmployeeManagerArgs = {
+  employeeId: Scalars['Int']['input'];
+  managerUserId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type MutationSetUserRoleArgs = {
+  role: Scalars['String']['input'];
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationStartImpersonationArgs = {
+  minutes?: InputMaybe<Scalars['Int']['input']>;
+  readOnly?: InputMaybe<Scalars['Boolean']['input']>;
+  reason: Scalars['String']['input'];
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationTerminateEmployeeArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationToggleUserAccessArgs = {
+  blockedUntil?: InputMaybe<Scalars['String']['input']>;
+  id: Scalars['Int']['input'];
+  isActive: Scalars['Boolean']['input'];
+  reason?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type MutationUpdateEmailPreferencesArgs = {
+  emailNotifications: Scalars['Boolean']['input'];
+};
+
+
+export type MutationUpdateEmployeeArgs = {
+  id: Scalars['Int']['input'];
+  input: EmployeeInput;
+};
+
+
+export type MutationUpdateLeaveRequestStatusArgs = {
+  adminNote?: InputMaybe<Scalars['String']['input']>;
+  id: Scalars['Int']['input'];
+  status: LeaveStatus;
+};
+
+
+export type MutationUpdateMyProfileArgs = {
+  input: ProfileUpdateInput;
+};
+
+
+export type MutationUpdateRoleArgs = {
+  id: Scalars['Int']['input'];
+  input: RoleInput;
+};
+
+
+export type MutationVerify2FaArgs = {
+  code: Scalars['String']['input'];
+};
+
+export type Note = {
+  __typename?: 'Note';
+  createdAt: Scalars['String']['output'];
+  fromUserId: Scalars['Int']['output'];
+  id: Scalars['Int']['output'];
+  isRead: Scalars['Boolean']['output'];
+  message: Scalars['String']['output'];
+  toAll: Scalars['Boolean']['output'];
+  toEmployeeId?: Maybe<Scalars['Int']['output']>;
+};
+
+export type NoteInput = {
+  message: Scalars['String']['input'];
+  toAll?: InputMaybe<Scalars['Boolean']['input']>;
+  toEmployeeId?: InputMaybe<Scalars['Int']['input']>;
+  toUserId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type Notification = {
+  __typename?: 'Notification';
+  actionUrl?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  isRead: Scalars['Boolean']['output'];
+  linkTo?: Maybe<Scalars['String']['output']>;
+  message: Scalars['String']['output'];
+  readAt?: Maybe<Scalars['String']['output']>;
+  title: Scalars['String']['output'];
+  type: NotificationType;
+  updatedAt: Scalars['String']['output'];
+  userEmail: Scalars['String']['output'];
+  userId: Scalars['Int']['output'];
+};
+
+export type NotificationConnection = {
+  __typename?: 'NotificationConnection';
+  edges: Array<NotificationEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type NotificationEdge = {
+  __typename?: 'NotificationEdge';
+  cursor: Scalars['String']['output'];
+  node: Notification;
+};
+
+export type NotificationType =
+  | 'APPROVAL'
+  | 'CRITICAL'
+  | 'INFO'
+  | 'LEAVE'
+  | 'MESSAGE'
+  | 'WARNING';
+
+export type OrgChartNode = {
+  __typename?: 'OrgChartNode';
+  avatar?: Maybe<Scalars['String']['output']>;
+  directReports: Scalars['Int']['output'];
+  employeeId?: Maybe<Scalars['Int']['output']>;
+  headcount: Scalars['Int']['output'];
+  id: Scalars['String']['output'];
+  level: Scalars['Int']['output'];
+  managerId?: Maybe<Scalars['Int']['output']>;
+  name: Scalars['String']['output'];
+  parentId?: Maybe<Scalars['String']['output']>;
+  role: Scalars['String']['output'];
+  userId?: Maybe<Scalars['Int']['output']>;
+};
+
+export type PageInfo = {
+  __typename?: 'PageInfo';
+  endCursor?: Maybe<Scalars['String']['output']>;
+  hasNextPage: Scalars['Boolean']['output'];
+  hasPreviousPage: Scalars['Boolean']['output'];
+  startCursor?: Maybe<Scalars['String']['output']>;
+};
+
+export type PasswordChangeResult = {
+  __typename?: 'PasswordChangeResult';
+  accessToken?: Maybe<Scalars['String']['output']>;
+  fieldErrors?: Maybe<Array<FieldError>>;
+  message: Scalars['String']['output'];
+  success: Scalars['Boolean']['output'];
+};
+
+export type Permission = {
+  __typename?: 'Permission';
+  category: Scalars['String']['output'];
+  description: Scalars['String']['output'];
+  key: Scalars['String']['output'];
+  scopes: Array<Scalars['String']['output']>;
+};
+
+export type ProfileUpdateInput = {
+  age?: InputMaybe<Scalars['Int']['input']>;
+  avatar?: InputMaybe<Scalars['String']['input']>;
+  email?: InputMaybe<Scalars['String']['input']>;
+  location?: InputMaybe<Scalars['String']['input']>;
+  name?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type Query = {
+  __typename?: 'Query';
+  accessControlLogs: Array<AccessControlLog>;
+  accessLogs: AccessLogConnection;
+  adminUsers: Array<User>;
+  allUsers: Array<User>;
+  apiKeyScopes: Array<Scalars['String']['output']>;
+  apiKeys: Array<ApiKey>;
+  dashboardStats: DashboardStats;
+  delegationsToMe: Array<ApprovalDelegation>;
+  employee?: Maybe<Employee>;
+  employeePerformanceStats?: Maybe<EmployeePerformanceStats>;
+  employees: EmployeeConnection;
+  invitations: Array<Invitation>;
+  leaveRequests: Array<LeaveRequest>;
+  me?: Maybe<User>;
+  messageStats: MessageStats;
+  messages: Array<Message>;
+  myConversations: Array<Conversation>;
+  myDelegations: Array<ApprovalDelegation>;
+  myLeaveRequests: Array<LeaveRequest>;
+  myMessages: MessageConnection;
+  myNotes: Array<Note>;
+  myPermissions: Array<RolePermission>;
+  myProfile?: Maybe<Employee>;
+  myReviewRequests: Array<ReviewRequest>;
+  mySessions: Array<Session>;
+  myThreads: ThreadConnection;
+  notes: Array<Note>;
+  notificationCount: Scalars['Int']['output'];
+  notifications: NotificationConnection;
+  orgChart: Array<OrgChartNode>;
+  permissions: Array<Permission>;
+  reportingChain: Array<ReportingChainLink>;
+  reviewRequest?: Maybe<ReviewRequest>;
+  reviewRequests: ReviewRequestConnection;
+  roles: Array<Role>;
+  subordinates: Array<Subordinate>;
+  thread?: Maybe<Thread>;
+  threads: Array<Thread>;
+  unreadNotifications: Array<Notification>;
+  userSessions: Array<Session>;
+  userStatistics: Array<UserStatistics>;
+};
+
+
+export type QueryAccessControlLogsArgs = {
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  userId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryAccessLogsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryAllUsersArgs = {
+  roleFilter?: InputMaybe<Scalars['String']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  statusFilter?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryEmployeeArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type QueryEmployeePerformanceStatsArgs = {
+  employeeId: Scalars['Int']['input'];
+};
+
+
+export type QueryEmployeesArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  filter?: InputMaybe<EmployeeFilter>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  sortBy?: InputMaybe<EmployeeSortBy>;
+  sortOrder?: InputMaybe<SortOrder>;
+};
+
+
+export type QueryInvitationsArgs = {
+  status?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryLeaveRequestsArgs = {
+  status?: InputMaybe<LeaveStatus>;
+};
+
+
+export type QueryMessagesArgs = {
+  conversationId?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryMyMessagesArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryMyThreadsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryNotesArgs = {
+  employeeId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryNotificationsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  isRead?: InputMaybe<Scalars['Boolean']['input']>;
+  type?: InputMaybe<NotificationType>;
+};
+
+
+export type QueryOrgChartArgs = {
+  rootUserId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryReportingChainArgs = {
+  employeeId: Scalars['Int']['input'];
+};
+
+
+export type QueryReviewRequestArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type QueryReviewRequestsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  status?: InputMaybe<ReviewStatus>;
+};
+
+
+export type QuerySubordinatesArgs = {
+  depth?: InputMaybe<Scalars['Int']['input']>;
+  userId: Scalars['Int']['input'];
+};
+
+
+export type QueryThreadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type QueryUserSessionsArgs = {
+  userId: Scalars['Int']['input'];
+};
+
+
+export type QueryUserStatisticsArgs = {
+  days?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type ReportingChainLink = {
+  __typename?: 'ReportingChainLink';
+  email: Scalars['String']['output'];
+  employee?: Maybe<Employee>;
+  level: Scalars['Int']['output'];
+  role: Scalars['String']['output'];
+  userId: Scalars['Int']['output'];
+};
+
+export type ReviewDecision =
+  | 'APPROVED'
+  | 'REJECTED';
+
+export type ReviewDecisionInput = {
+  adminComment: Scalars['String']['input'];
+  decision: ReviewDecision;
+  requestId: Scalars['Int']['input'];
+};
+
+export type ReviewRequest = {
+  __typename?: 'ReviewRequest';
+  adminComment?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  employee: Employee;
+  employeeId: Scalars['Int']['output'];
+  id: Scalars['Int']['output'];
+  managerReasonText: Scalars['String']['output'];
+  managerReasonType: Scalars['String']['output'];
+  requestedByEmail: Scalars['String']['output'];
+  requestedByManagerId: Scalars['Int']['output'];
+  reviewedAt?: Maybe<Scalars['String']['output']>;
+  reviewedByAdminId?: Maybe<Scalars['Int']['output']>;
+  status: ReviewStatus;
+  threadId?: Maybe<Scalars['Int']['output']>;
+  type: ReviewType;
+  updatedAt: Scalars['String']['output'];
+  visibleToEmployee: Scalars['Boolean']['output'];
+};
+
+export type ReviewRequestConnection = {
+  __typename?: 'ReviewRequestConnection';
+  edges: Array<ReviewRequestEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type ReviewRequestEdge = {
+  __typename?: 'ReviewRequestEdge';
+  cursor: Scalars['String']['output'];
+  node: ReviewRequest;
+};
+
+export type ReviewStatus =
+  | 'APPROVED'
+  | 'PENDING'
+  | 'REJECTED';
+
+export type ReviewType =
+  | 'FLAG'
+  | 'TERMINATE';
+
+export type Role = {
+  __typename?: 'Role';
+  createdAt: Scalars['String']['output'];
+  description?: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  isSystem: Scalars['Boolean']['output'];
+  key: Scalars['String']['output'];
+  name: Scalars['String']['output'];
+  permissions: Array<RolePermission>;
+  updatedAt: Scalars['String']['output'];
+  userCount: Scalars['Int']['output'];
+};
+
+export type RoleDistribution = {
+  __typename?: 'RoleDistribution';
+  directors: Scalars['Int']['output'];
+  employees: Scalars['Int']['output'];
+  managers: Scalars['Int']['output'];
+};
+
+export type RoleInput = {
+  description?: InputMaybe<Scalars['String']['input']>;
+  key?: InputMaybe<Scalars['String']['input']>;
+  name: Scalars['String']['input'];
+  permissions: Array<RolePermissionInput>;
+};
+
+export type RolePermission = {
+  __typename?: 'RolePermission';
+  permission: Scalars['String']['output'];
+  scope: Scalars['String']['output'];
+};
+
+export type RolePermissionInput = {
+  permission: Scalars['String']['input'];
+  scope?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type SendMessageInput = {
+  message: Scalars['String']['input'];
+  priority?: InputMaybe<MessagePriority>;
+  recipientId?: InputMaybe<Scalars['Int']['input']>;
+  recipientRole?: InputMaybe<Scalars['String']['input']>;
+  replyToId?: InputMaybe<Scalars['Int']['input']>;
+  subject?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type SendThreadMessageInput = {
+  body: Scalars['String']['input'];
+  linkedEmployeeId?: InputMaybe<Scalars['Int']['input']>;
+  linkedRequestId?: InputMaybe<Scalars['Int']['input']>;
+  recipientUserIds?: InputMaybe<Array<Scalars['Int']['input']>>;
+  threadId?: InputMaybe<Scalars['Int']['input']>;
+  title?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type Session = {
+  __typename?: 'Session';
+  createdAt: Scalars['String']['output'];
+  current: Scalars['Boolean']['output'];
+  id: Scalars['String']['output'];
+  ipAddress?: Maybe<Scalars['String']['output']>;
+  lastUsedAt: Scalars['String']['output'];
+  userAgent?: Maybe<Scalars['String']['output']>;
+};
+
+export type SlackNotificationResult = {
+  __typename?: 'SlackNotificationResult';
+  success: Scalars['Boolean']['output'];
+};
+
+export type SortOrder =
+  | 'ASC'
+  | 'DESC';
+
+export type Subordinate = {
+  __typename?: 'Subordinate';
+  employee: Employee;
+  level: Scalars['Int']['output'];
+};
+
+export type Subscription = {
+  __typename?: 'Subscription';
+  leaveRequestUpdated: LeaveRequest;
+  messageReceived: Message;
+  notificationAdded: Notification;
+  threadMessageAdded: ThreadMessage;
+};
+
+
+export type SubscriptionMessageReceivedArgs = {
+  conversationId?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type SubscriptionThreadMessageAddedArgs = {
+  threadId: Scalars['Int']['input'];
+};
+
+export type Thread = {
+  __typename?: 'Thread';
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  lastMessage?: Maybe<ThreadMessage>;
+  linkedEmployeeId?: Maybe<Scalars['Int']['output']>;
+  linkedRequestId?: Maybe<Scalars['Int']['output']>;
+  messageCount: Scalars['Int']['output'];
+  messages: Array<ThreadMessage>;
+  participants: Array<Scalars['Int']['output']>;
+  title?: Maybe<Scalars['String']['output']>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type ThreadConnection = {
+  __typename?: 'ThreadConnection';
+  edges: Array<ThreadEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type ThreadEdge = {
+  __typename?: 'ThreadEdge';
+  cursor: Scalars['String']['output'];
+  node: Thread;
+};
+
+export type ThreadMessage = {
+  __typename?: 'ThreadMessage';
+  body: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  senderEmail: Scalars['String']['output'];
+  senderId: Scalars['Int']['output'];
+  senderRole: Scalars['String']['output'];
+  threadId: Scalars['Int']['output'];
+  type: Scalars['String']['output'];
+};
+
+export type TwoFaSetupResult = {
+  __typename?: 'TwoFASetupResult';
+  otpauthUrl: Scalars['String']['output'];
+  qrCode: Scalars['String']['output'];
+  recoveryCodes: Array<Scalars['String']['output']>;
+};
+
+export type User = {
+  __typename?: 'User';
+  accessBlockReason?: Maybe<Scalars['String']['output']>;
+  accessBlockedUntil?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  email: Scalars['String']['output'];
+  emailNotifications?: Maybe<Scalars['Boolean']['output']>;
+  failedLoginAttempts?: Maybe<Scalars['Int']['output']>;
+  id: Scalars['Int']['output'];
+  isActive?: Maybe<Scalars['Boolean']['output']>;
+  role: Scalars['String']['output'];
+  twoFAEnabled?: Maybe<Scalars['Boolean']['output']>;
+};
+
+export type UserStatistics = {
+  __typename?: 'UserStatistics';
+  activeUsers: Scalars['Int']['output'];
+  blockedUsers: Scalars['Int']['output'];
+  date: Scalars['String']['output'];
+  directors: Scalars['Int']['output'];
+  employees: Scalars['Int']['output'];
+  failedLoginAttempts: Scalars['Int']['output'];
+  id: Scalars['Int']['output'];
+  loginAttempts: Scalars['Int']['output'];
+  managers: Scalars['Int']['output'];
+  totalUsers: Scalars['Int']['output'];
+};
+
+export type WithIndex<TObject> = TObject & Record<string, any>;
+export type ResolversObject<TObject> = WithIndex<TObject>;
+
+export type ResolverTypeWrapper<T> = Promise<T> | T;
+
+
+export type ResolverWithResolve<TResult, TParent, TContext, TArgs> = {
+  resolve: ResolverFn<TResult, TParent, TContext, TArgs>;
+};
+export type Resolver<TResult, TParent = {}, TContext = {}, TArgs = {}> = ResolverFn<TResult, TParent, TContext, TArgs> | ResolverWithResolve<TResult, TParent, TContext, TArgs>;
+
+export type ResolverFn<TResult, TParent, TContext, TArgs> = (
+  parent: TParent,
+  args: TArgs,
+  context: TContext,
+  info: GraphQLResolveInfo
+) => Promise<TResult> | TResult;
+
+export type SubscriptionSubscribeFn<TResult, TParent, TContext, TArgs> = (
+  parent: TParent,
+  args: TArgs,
+  context: TContext,
+  info: GraphQLResolveInfo
+) => AsyncIterable<TResult> | Promise<AsyncIterable<TResult>>;
+
+export type SubscriptionResolveFn<TResult, TParent, TContext, TArgs> = (
+  parent: TParent,
+  args: TArgs,
+  context: TContext,
+  info: GraphQLResolveInfo
+) => TResult | Promise<TResult>;
+
+export interface SubscriptionSubscriberObject<TResult, TKey extends string, TParent, TContext, TArgs> {
+  subscribe: SubscriptionSubscribeFn<{ [key in TKey]: TResult }, TParent, TContext, TArgs>;
+  resolve?: SubscriptionResolveFn<TResult, { [key in TKey]: TResult }, TContext, TArgs>;
+}
+
+export interface SubscriptionResolverObject<TResult, TParent, TContext, TArgs> {
+  subscribe: SubscriptionSubscribeFn<any, TParent, TContext, TArgs>;
+  resolve: SubscriptionResolveFn<TResult, any, TContext, TArgs>;
+}
+
+export type SubscriptionObject<TResult, TKey extends string, TParent, TContext, TArgs> =
+  | SubscriptionSubscriberObject<TResult, TKey, TParent, TContext, TArgs>
+  | SubscriptionResolverObject<TResult, TParent, TContext, TArgs>;
+
+export type SubscriptionResolver<TResult, TKey extends string, TParent = {}, TContext = {}, TArgs = {}> =
+  | ((...args: any[]) => SubscriptionObject<TResult, TKey, TParent, TContext, TArgs>)
+  | SubscriptionObject<TResult, TKey, TParent, TContext, TArgs>;
+
+export type TypeResolveFn<TTypes, TParent = {}, TContext = {}> = (
+  parent: TParent,
+  context: TContext,
+  info: GraphQLResolveInfo
+) => Maybe<TTypes> | Promise<Maybe<TTypes>>;
+
+export type IsTypeOfResolverFn<T = {}, TContext = {}> = (obj: T, context: TContext, info: GraphQLResolveInfo) => boolean | Promise<boolean>;
+
+export type NextResolverFn<T> = () => Promise<T>;
+
+export type DirectiveResolverFn<TResult = {}, TParent = {}, TContext = {}, TArgs = {}> = (
+  next: NextResolverFn<TResult>,
+  parent: TParent,
+  args: TArgs,
+  context: TContext,
+  info: GraphQLResolveInfo
+) => TResult | Promise<TResult>;
+
+
+
+/** Mapping between all available schema types and the resolvers types */
+export type ResolversTypes = ResolversObject<{
+  AccessControlLog: ResolverTypeWrapper<AccessControlLogParent>;
+  AccessLog: ResolverTypeWrapper<PrismaAccessLog>;
+  AccessLogConnection: ResolverTypeWrapper<Partial<Omit<AccessLogConnection, 'edges'> & { edges: Array<ResolversTypes['AccessLogEdge']> }>>;
+  AccessLogEdge: ResolverTypeWrapper<Partial<Omit<AccessLogEdge, 'node'> & { node: ResolversTypes['AccessLog'] }>>;
+  ApiKey: ResolverTypeWrapper<ApiKeyParent>;
+  ApiKeyInput: ResolverTypeWrapper<Partial<ApiKeyInput>>;
+  ApiKeyResult: ResolverTypeWrapper<Partial<Omit<ApiKeyResult, 'apiKey'> & { apiKey: ResolversTypes['ApiKey'] }>>;
+  ApprovalDelegation: ResolverTypeWrapper<ApprovalDelegationParent>;
+  ApprovalDelegationInput: ResolverTypeWrapper<Partial<ApprovalDelegationInput>>;
+  Boolean: ResolverTypeWrapper<Partial<Scalars['Boolean']['output']>>;
+  Conversation: ResolverTypeWrapper<Partial<Conversation>>;
+  CreateNotificationInput: ResolverTypeWrapper<Partial<CreateNotificationInput>>;
+  CreateReviewRequestInput: ResolverTypeWrapper<Partial<CreateReviewRequestInput>>;
+  DashboardStats: ResolverTypeWrapper<Partial<Omit<DashboardStats, 'recentActions'> & { recentActions: Array<ResolversTypes['AccessControlLog']> }>>;
+  Employee: ResolverTypeWrapper<PrismaEmployee>;
+  EmployeeConnection: ResolverTypeWrapper<Partial<Omit<EmployeeConnection, 'edges'> & { edges: Array<ResolversTypes['EmployeeEdge']> }>>;
+  EmployeeEdge: ResolverTypeWrapper<Partial<Omit<EmployeeEdge, 'node'> & { node: ResolversTypes['Employee'] }>>;
+  EmployeeFilter: ResolverTypeWrapper<Partial<EmployeeFilter>>;
+  EmployeeInput: ResolverTypeWrapper<Partial<EmployeeInput>>;
+  EmployeePerformanceStats: ResolverTypeWrapper<Partial<EmployeePerformanceStats>>;
+  EmployeeSortBy: ResolverTypeWrapper<Partial<EmployeeSortBy>>;
+  EmployeeStatus: ResolverTypeWrapper<Partial<EmployeeStatus>>;
+  FieldError: ResolverTypeWrapper<Partial<FieldError>>;
+  GenerateLoginsResult: ResolverTypeWrapper<Partial<GenerateLoginsResult>>;
+  GeneratedLogin: ResolverTypeWrapper<Partial<GeneratedLogin>>;
+  ImpersonationResult: ResolverTypeWrapper<Partial<Omit<ImpersonationResult, 'session' | 'user'> & { session: ResolversTypes['ImpersonationSession'], user: ResolversTypes['User'] }>>;
+  ImpersonationSession: ResolverTypeWrapper<ImpersonationSessionParent>;
+  Int: ResolverTypeWrapper<Partial<Scalars['Int']['output']>>;
+  Invitation: ResolverTypeWrapper<InvitationParent>;
+  InvitationInput: ResolverTypeWrapper<Partial<InvitationInput>>;
+  InvitationResult: ResolverTypeWrapper<Partial<Omit<InvitationResult, 'invitation'> & { invitation: ResolversTypes['Invitation'] }>>;
+  LeaveRequest: ResolverTypeWrapper<LeaveRequestParent>;
+  LeaveRequestInput: ResolverTypeWrapper<Partial<LeaveRequestInput>>;
+  LeaveStatus: ResolverTypeWrapper<Partial<LeaveStatus>>;
+  LeaveType: ResolverTypeWrapper<Partial<LeaveType>>;
+  Message: ResolverTypeWrapper<PrismaMessage>;
+  MessageConnection: ResolverTypeWrapper<Partial<Omit<MessageConnection, 'edges'> & { edges: Array<ResolversTypes['MessageEdge']> }>>;
+  MessageEdge: ResolverTypeWrapper<Partial<Omit<MessageEdge, 'node'> & { node: ResolversTypes['Message'] }>>;
+  MessagePriority: ResolverTypeWrapper<Partial<MessagePriority>>;
+  MessageStats: ResolverTypeWrapper<Partial<MessageStats>>;
+  Mutation: ResolverTypeWrapper<{}>;
+  Note: ResolverTypeWrapper<PrismaNote>;
+  NoteInput: ResolverTypeWrapper<Partial<NoteInput>>;
+  Notification: ResolverTypeWrapper<PrismaNotification>;
+  NotificationConnection: ResolverTypeWrapper<Partial<Omit<NotificationConnection, 'edges'> & { edges: Array<ResolversTypes['NotificationEdge']> }>>;
+  NotificationEdge: ResolverTypeWrapper<Partial<Omit<NotificationEdge, 'node'> & { node: ResolversTypes['Notification'] }>>;
+  NotificationType: ResolverTypeWrapper<Partial<NotificationType>>;
+  OrgChartNode: ResolverTypeWrapper<Partial<OrgChartNode>>;
+  PageInfo: ResolverTypeWrapper<Partial<PageInfo>>;
+  PasswordChangeResult: ResolverTypeWrapper<Partial<PasswordChangeResult>>;
+  Permission: ResolverTypeWrapper<PrismaPermission>;
+  ProfileUpdateInput: ResolverTypeWrapper<Partial<ProfileUpdateInput>>;
+  Query: ResolverTypeWrapper<{}>;
+  ReportingChainLink: ResolverTypeWrapper<Partial<Omit<ReportingChainLink, 'employee'> & { employee?: Maybe<ResolversTypes['Employee']> }>>;
+  ReviewDecision: ResolverTypeWrapper<Partial<ReviewDecision>>;
+  ReviewDecisionInput: ResolverTypeWrapper<Partial<ReviewDecisionInput>>;
+  ReviewRequest: ResolverTypeWrapper<ReviewRequestParent>;
+  ReviewRequestConnection: ResolverTypeWrapper<Partial<Omit<ReviewRequestConnection, 'edges'> & { edges: Array<ResolversTypes['ReviewRequestEdge']> }>>;
+  ReviewRequestEdge: ResolverTypeWrapper<Partial<Omit<ReviewRequestEdge, 'node'> & { node: ResolversTypes['ReviewRequest'] }>>;
+  ReviewStatus: ResolverTypeWrapper<Partial<ReviewStatus>>;
+  ReviewType: ResolverTypeWrapper<Partial<ReviewType>>;
+  Role: ResolverTypeWrapper<RoleParent>;
+  RoleDistribution: ResolverTypeWrapper<Partial<RoleDistribution>>;
+  RoleInput: ResolverTypeWrapper<Partial<RoleInput>>;
+  RolePermission: ResolverTypeWrapper<Partial<RolePermission>>;
+  RolePermissionInput: ResolverTypeWrapper<Partial<RolePermissionInput>>;
+  SendMessageInput: ResolverTypeWrapper<Partial<SendMessageInput>>;
+  SendThreadMessageInput: ResolverTypeWrapper<Partial<SendThreadMessageInput>>;
+  Session: ResolverTypeWrapper<PrismaSession>;
+  SlackNotificationResult: ResolverTypeWrapper<Partial<SlackNotificationResult>>;
+  SortOrder: ResolverTypeWrapper<Partial<SortOrder>>;
+  String: ResolverTypeWrapper<Partial<Scalars['String']['output']>>;
+  Subordinate: ResolverTypeWrapper<Partial<Omit<Subordinate, 'employee'> & { employee: ResolversTypes['Employee'] }>>;
+  Subscription: ResolverTypeWrapper<{}>;
+  Thread: ResolverTypeWrapper<ThreadParent>;
+  ThreadConnection: ResolverTypeWrapper<Partial<Omit<ThreadConnection, 'edges'> & { edges: Array<ResolversTypes['ThreadEdge']> }>>;
+  ThreadEdge: ResolverTypeWrapper<Partial<Omit<ThreadEdge, 'node'> & { node: ResolversTypes['Thread'] }>>;
+  ThreadMessage: ResolverTypeWrapper<PrismaThreadMessage>;
+  TwoFASetupResult: ResolverTypeWrapper<Partial<TwoFaSetupResult>>;
+  User: ResolverTypeWrapper<PrismaUser>;
+  UserStatistics: ResolverTypeWrapper<PrismaUserStatistics>;
+}>;
+
+/** Mapping between all available schema types and the resolvers parents */
+export type ResolversParentTypes = ResolversObject<{
+  AccessControlLog: AccessControlLogParent;
+  AccessLog: PrismaAccessLog;
+  AccessLogConnection: Partial<Omit<AccessLogConnection, 'edges'> & { edges: Array<ResolversParentTypes['AccessLogEdge']> }>;
+  AccessLogEdge: Partial<Omit<AccessLogEdge, 'node'> & { node: ResolversParentTypes['AccessLog'] }>;
+  ApiKey: ApiKeyParent;
+  ApiKeyInput: Partial<ApiKeyInput>;
+  ApiKeyResult: Partial<Omit<ApiKeyResult, 'apiKey'> & { apiKey: ResolversParentTypes['ApiKey'] }>;
+  ApprovalDelegation: ApprovalDelegationParent;
+  ApprovalDelegationInput: Partial<ApprovalDelegationInput>;
+  Boolean: Partial<Scalars['Boolean']['output']>;
+  Conversation: Partial<Conversation>;
+  CreateNotificationInput: Partial<CreateNotificationInput>;
+  CreateReviewRequestInput: Partial<CreateReviewRequestInput>;
+  DashboardStats: Partial<Omit<DashboardStats, 'recentActions'> & { recentActions: Array<ResolversParentTypes['AccessControlLog']> }>;
+  Employee: PrismaEmployee;
+  EmployeeConnection: Partial<Omit<EmployeeConnection, 'edges'> & { edges: Array<ResolversParentTypes['EmployeeEdge']> }>;
+  EmployeeEdge: Partial<Omit<EmployeeEdge, 'node'> & { node: ResolversParentTypes['Employee'] }>;
+  EmployeeFilter: Partial<EmployeeFilter>;
+  EmployeeInput: Partial<EmployeeInput>;
+  EmployeePerformanceStats: Partial<EmployeePerformanceStats>;
+  FieldError: Partial<FieldError>;
+  GenerateLoginsResult: Partial<GenerateLoginsResult>;
+  GeneratedLogin: Partial<GeneratedLogin>;
+  ImpersonationResult: Partial<Omit<ImpersonationResult, 'session' | 'user'> & { session: ResolversParentTypes['ImpersonationSession'], user: ResolversParentTypes['User'] }>;
+  ImpersonationSession: ImpersonationSessionParent;
+  Int: Partial<Scalars['Int']['output']>;
+  Invitation: InvitationParent;
+  InvitationInput: Partial<InvitationInput>;
+  InvitationResult: Partial<Omit<InvitationResult, 'invitation'> & { invitation: ResolversParentTypes['Invitation'] }>;
+  LeaveRequest: LeaveRequestParent;
+  LeaveRequestInput: Partial<LeaveRequestInput>;
+  Message: PrismaMessage;
+  MessageConnection: Partial<Omit<MessageConnection, 'edges'> & { edges: Array<ResolversParentTypes['MessageEdge']> }>;
+  MessageEdge: Partial<Omit<MessageEdge, 'node'> & { node: ResolversParentTypes['Message'] }>;
+  MessageStats: Partial<MessageStats>;
+  Mutation: {};
+  Note: PrismaNote;
+  NoteInput: Partial<NoteInput>;
+  Notification: PrismaNotification;
+  NotificationConnection: Partial<Omit<NotificationConnection, 'edges'> & { edges: Array<ResolversParentTypes['NotificationEdge']> }>;
+  NotificationEdge: Partial<Omit<NotificationEdge, 'node'> & { node: ResolversParentTypes['Notification'] }>;
+  OrgChartNode: Partial<OrgChartNode>;
+  PageInfo: Partial<PageInfo>;
+  PasswordChangeResult: Partial<PasswordChangeResult>;
+  Permission: PrismaPermission;
+  ProfileUpdateInput: Partial<ProfileUpdateInput>;
+  Query: {};
+  ReportingChainLink: Partial<Omit<ReportingChainLink, 'employee'> & { employee?: Maybe<ResolversParentTypes['Employee']> }>;
+  ReviewDecisionInput: Partial<ReviewDecisionInput>;
+  ReviewRequest: ReviewRequestParent;
+  ReviewRequestConnection: Partial<Omit<ReviewRequestConnection, 'edges'> & { edges: Array<ResolversParentTypes['ReviewRequestEdge']> }>;
+  ReviewRequestEdge: Partial<Omit<ReviewRequestEdge, 'node'> & { node: ResolversParentTypes['ReviewRequest'] }>;
+  Role: RoleParent;
+  RoleDistribution: Partial<RoleDistribution>;
+  RoleInput: Partial<RoleInput>;
+  RolePermission: Partial<RolePermission>;
+  RolePermissionInput: Partial<RolePermissionInput>;
+  SendMessageInput: Partial<SendMessageInput>;
+  SendThreadMessageInput: Partial<SendThreadMessageInput>;
+  Session: PrismaSession;
+  SlackNotificationResult: Partial<SlackNotificationResult>;
+  String: Partial<Scalars['String']['output']>;
+  Subordinate: Partial<Omit<Subordinate, 'employee'> & { employee: ResolversParentTypes['Employee'] }>;
+  Subscription: {};
+  Thread: ThreadParent;
+  ThreadConnection: Partial<Omit<ThreadConnection, 'edges'> & { edges: Array<ResolversParentTypes['ThreadEdge']> }>;
+  ThreadEdge: Partial<Omit<ThreadEdge, 'node'> & { node: ResolversParentTypes['Thread'] }>;
+  ThreadMessage: PrismaThreadMessage;
+  TwoFASetupResult: Partial<TwoFaSetupResult>;
+  User: PrismaUser;
+  UserStatistics: PrismaUserStatistics;
+}>;
+
+export type AccessControlLogResolvers<ContextType = Context, ParentType extends ResolversParentTypes['AccessControlLog'] = ResolversParentTypes['AccessControlLog']> = ResolversObject<{
+  action?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  admin?: Resolver<ResolversTypes['User'], ParentType, ContextType>;
+  adminId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  blockedUntil?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  reason?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  user?: Resolver<ResolversTypes['User'], ParentType, ContextType>;
+  userId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type AccessLogResolvers<ContextType = Context, ParentType extends ResolversParentTypes['AccessLog'] = ResolversParentTypes['AccessLog']> = ResolversObject<{
+  action?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  details?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  impersonatorEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  impersonatorId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  ipAddress?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  userEmail?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type AccessLogConnectionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['AccessLogConnection'] = ResolversParentTypes['AccessLogConnection']> = ResolversObject<{
+  edges?: Resolver<Array<ResolversTypes['AccessLogEdge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type AccessLogEdgeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['AccessLogEdge'] = ResolversParentTypes['AccessLogEdge']> = ResolversObject<{
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['AccessLog'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ApiKeyResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ApiKey'] = ResolversParentTypes['ApiKey']> = ResolversObject<{
+  allowedIps?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdByEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdById?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  expiresAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  lastUsedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  lastUsedIp?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  prefix?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  revokedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  scopes?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ApiKeyResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ApiKeyResult'] = ResolversParentTypes['ApiKeyResult']> = ResolversObject<{
+  apiKey?: Resolver<ResolversTypes['ApiKey'], ParentType, ContextType>;
+  key?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ApprovalDelegationResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ApprovalDelegation'] = ResolversParentTypes['ApprovalDelegation']> = ResolversObject<{
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  delegateEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  delegateId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  endDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  isActive?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  managerEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  managerId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  permissions?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  reason?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  revokedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  startDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  whileOnLeave?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ConversationResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Conversation'] = ResolversParentTypes['Conversation']> = ResolversObject<{
+  conversationId?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  lastMessage?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  lastMessageTime?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  participant?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  participantRole?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  unreadCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type DashboardStatsResolvers<ContextType = Context, ParentType extends ResolversParentTypes['DashboardStats'] = ResolversParentTypes['DashboardStats']> = ResolversObject<{
+  activeUsers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  blockedUsers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  recentActions?: Resolver<Array<ResolversTypes['AccessControlLog']>, ParentType, ContextType>;
+  recentLogins?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  roleDistribution?: Resolver<ResolversTypes['RoleDistribution'], ParentType, ContextType>;
+  totalUsers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type EmployeeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Employee'] = ResolversParentTypes['Employee']> = ResolversObject<{
+  age?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  attendance?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  avatar?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  className?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  email?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  flagged?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  lastLogin?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  location?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  managerId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<Maybe<ResolversTypes['EmployeeStatus']>, ParentType, ContextType>;
+  subjects?: Resolver<Maybe<Array<ResolversTypes['String']>>, ParentType, ContextType>;
+  updatedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  userId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type EmployeeConnectionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['EmployeeConnection'] = ResolversParentTypes['EmployeeConnection']> = ResolversObject<{
+  edges?: Resolver<Array<ResolversTypes['EmployeeEdge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type EmployeeEdgeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['EmployeeEdge'] = ResolversParentTypes['EmployeeEdge']> = ResolversObject<{
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Employee'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type EmployeePerformanceStatsResolvers<ContextType = Context, ParentType extends ResolversParentTypes['EmployeePerformanceStats'] = ResolversParentTypes['EmployeePerformanceStats']> = ResolversObject<{
+  attendance?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  employeeId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  flagged?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  lastReviewDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  notesCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  reviewCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['EmployeeStatus'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type FieldErrorResolvers<ContextType = Context, ParentType extends ResolversParentTypes['FieldError'] = ResolversParentTypes['FieldError']> = ResolversObject<{
+  code?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  field?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type GenerateLoginsResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['GenerateLoginsResult'] = ResolversParentTypes['GenerateLoginsResult']> = ResolversObject<{
+  created?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  credentials?: Resolver<Array<ResolversTypes['GeneratedLogin']>, ParentType, ContextType>;
+  failed?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  skipped?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  success?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type GeneratedLoginResolvers<ContextType = Context, ParentType extends ResolversParentTypes['GeneratedLogin'] = ResolversParentTypes['GeneratedLogin']> = ResolversObject<{
+  email?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  employeeId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  temporaryPassword?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ImpersonationResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ImpersonationResult'] = ResolversParentTypes['ImpersonationResult']> = ResolversObject<{
+  accessToken?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  session?: Resolver<ResolversTypes['ImpersonationSession'], ParentType, ContextType>;
+  user?: Resolver<ResolversTypes['User'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ImpersonationSessionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ImpersonationSession'] = ResolversParentTypes['ImpersonationSession']> = ResolversObject<{
+  actorEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  actorId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  endedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  expiresAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  readOnly?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  reason?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  targetEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  targetUserId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type InvitationResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Invitation'] = ResolversParentTypes['Invitation']> = ResolversObject<{
+  acceptedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  email?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  expiresAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  invitedByEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  invitedById?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  managerId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  name?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  revokedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type InvitationResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['InvitationResult'] = ResolversParentTypes['InvitationResult']> = ResolversObject<{
+  invitation?: Resolver<ResolversTypes['Invitation'], ParentType, ContextType>;
+  inviteLink?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type LeaveRequestResolvers<ContextType = Context, ParentType extends ResolversParentTypes['LeaveRequest'] = ResolversParentTypes['LeaveRequest']> = ResolversObject<{
+  adminNote?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  employeeId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  employeeName?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  endDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  reason?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  startDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['LeaveStatus'], ParentType, ContextType>;
+  type?: Resolver<Maybe<ResolversTypes['LeaveType']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type MessageResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Message'] = ResolversParentTypes['Message']> = ResolversObject<{
+  attachments?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  conversationId?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  isRead?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  messageType?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  priority?: Resolver<ResolversTypes['MessagePriority'], ParentType, ContextType>;
+  readAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  recipientEmail?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  recipientId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  recipientRole?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  replyToId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  senderEmail?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  senderId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  senderRole?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  subject?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type MessageConnectionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['MessageConnection'] = ResolversParentTypes['MessageConnection']> = ResolversObject<{
+  edges?: Resolver<Array<ResolversTypes['MessageEdge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type MessageEdgeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['MessageEdge'] = ResolversParentTypes['MessageEdge']> = ResolversObject<{
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Message'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type MessageStatsResolvers<ContextType = Context, ParentType extends ResolversParentTypes['MessageStats'] = ResolversParentTypes['MessageStats']> = ResolversObject<{
+  conversations?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  total?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  unread?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type MutationResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Mutation'] = ResolversParentTypes['Mutation']> = ResolversObject<{
+  addEmployee?: Resolver<ResolversTypes['Employee'], ParentType, ContextType, RequireFields<MutationAddEmployeeArgs, 'input'>>;
+  bulkToggleAccess?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationBulkToggleAccessArgs, 'isActive' | 'userIds'>>;
+  changePassword?: Resolver<ResolversTypes['PasswordChangeResult'], ParentType, ContextType, RequireFields<MutationChangePasswordArgs, 'currentPassword' | 'newPassword'>>;
+  createApiKey?: Resolver<ResolversTypes['ApiKeyResult'], ParentType, ContextType, RequireFields<MutationCreateApiKeyArgs, 'input'>>;
+  createDelegation?: Resolver<ResolversTypes['ApprovalDelegation'], ParentType, ContextType, RequireFields<MutationCreateDelegationArgs, 'input'>>;
+  createInvitation?: Resolver<ResolversTypes['InvitationResult'], ParentType, ContextType, RequireFields<MutationCreateInvitationArgs, 'input'>>;
+  createLeaveRequest?: Resolver<ResolversTypes['LeaveRequest'], ParentType, ContextType, RequireFields<MutationCreateLeaveRequestArgs, 'input'>>;
+  createNotification?: Resolver<ResolversTypes['Notification'], ParentType, ContextType, RequireFields<MutationCreateNotificationArgs, 'input'>>;
+  createReviewRequest?: Resolver<ResolversTypes['ReviewRequest'], ParentType, ContextType, RequireFields<MutationCreateReviewRequestArgs, 'input'>>;
+  createRole?: Resolver<ResolversTypes['Role'], ParentType, ContextType, RequireFields<MutationCreateRoleArgs, 'input'>>;
+  deleteEmployee?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationDeleteEmployeeArgs, 'id'>>;
+  deleteMessage?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationDeleteMessageArgs, 'id'>>;
+  deleteNotification?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationDeleteNotificationArgs, 'id'>>;
+  deleteRole?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationDeleteRoleArgs, 'id'>>;
+  deleteUser?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationDeleteUserArgs, 'id'>>;
+  endImpersonation?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  flagEmployee?: Resolver<ResolversTypes['Employee'], ParentType, ContextType, RequireFields<MutationFlagEmployeeArgs, 'flagged' | 'id'>>;
+  generateEmployeeLogins?: Resolver<ResolversTypes['GenerateLoginsResult'], ParentType, ContextType>;
+  logAccess?: Resolver<ResolversTypes['AccessLog'], ParentType, ContextType, RequireFields<MutationLogAccessArgs, 'action'>>;
+  markAllNotificationsAsRead?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  markConversationAsRead?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationMarkConversationAsReadArgs, 'conversationId'>>;
+  markMessageAsRead?: Resolver<ResolversTypes['Message'], ParentType, ContextType, RequireFields<MutationMarkMessageAsReadArgs, 'id'>>;
+  markNoteAsRead?: Resolver<ResolversTypes['Note'], ParentType, ContextType, RequireFields<MutationMarkNoteAsReadArgs, 'id'>>;
+  markNotificationAsRead?: Resolver<ResolversTypes['Notification'], ParentType, ContextType, RequireFields<MutationMarkNotificationAsReadArgs, 'id'>>;
+  resendInvitation?: Resolver<ResolversTypes['InvitationResult'], ParentType, ContextType, RequireFields<MutationResendInvitationArgs, 'id'>>;
+  reset2FA?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationReset2FaArgs, 'userId'>>;
+  reviewDecision?: Resolver<ResolversTypes['ReviewRequest'], ParentType, ContextType, RequireFields<MutationReviewDecisionArgs, 'input'>>;
+  revokeAllOtherSessions?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  revokeApiKey?: Resolver<ResolversTypes['ApiKey'], ParentType, ContextType, RequireFields<MutationRevokeApiKeyArgs, 'id'>>;
+  revokeDelegation?: Resolver<ResolversTypes['ApprovalDelegation'], ParentType, ContextType, RequireFields<MutationRevokeDelegationArgs, 'id'>>;
+  revokeInvitation?: Resolver<ResolversTypes['Invitation'], ParentType, ContextType, RequireFields<MutationRevokeInvitationArgs, 'id'>>;
+  revokeSession?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationRevokeSessionArgs, 'id'>>;
+  revokeUserSessions?: Resolver<ResolversTypes['Int'], ParentType, ContextType, RequireFields<MutationRevokeUserSessionsArgs, 'userId'>>;
+  sendMessage?: Resolver<ResolversTypes['Message'], ParentType, ContextType, RequireFields<MutationSendMessageArgs, 'input'>>;
+  sendNote?: Resolver<ResolversTypes['Note'], ParentType, ContextType, RequireFields<MutationSendNoteArgs, 'input'>>;
+  sendSlackNotification?: Resolver<ResolversTypes['SlackNotificationResult'], ParentType, ContextType, RequireFields<MutationSendSlackNotificationArgs, 'text' | 'webhookUrl'>>;
+  sendThreadMessage?: Resolver<ResolversTypes['ThreadMessage'], ParentType, ContextType, RequireFields<MutationSendThreadMessageArgs, 'input'>>;
+  setEmployeeManager?: Resolver<ResolversTypes['Employee'], ParentType, ContextType, RequireFields<MutationSetEmployeeManagerArgs, 'employeeId'>>;
+  setUserRole?: Resolver<ResolversTypes['User'], ParentType, ContextType, RequireFields<MutationSetUserRoleArgs, 'role' | 'userId'>>;
+  setup2FA?: Resolver<ResolversTypes['TwoFASetupResult'], ParentType, ContextType>;
+  startImpersonation?: Resolver<ResolversTypes['ImpersonationResult'], ParentType, ContextType, RequireFields<MutationStartImpersonationArgs, 'readOnly' | 'reason' | 'userId'>>;
+  terminateEmployee?: Resolver<ResolversTypes['Employee'], ParentType, ContextType, RequireFields<MutationTerminateEmployeeArgs, 'id'>>;
+  toggleUserAccess?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationToggleUserAccessArgs, 'id' | 'isActive'>>;
+  updateEmailPreferences?: Resolver<ResolversTypes['User'], ParentType, ContextType, RequireFields<MutationUpdateEmailPreferencesArgs, 'emailNotifications'>>;
+  updateEmployee?: Resolver<ResolversTypes['Employee'], ParentType, ContextType, RequireFields<MutationUpdateEmployeeArgs, 'id' | 'input'>>;
+  updateLeaveRequestStatus?: Resolver<ResolversTypes['LeaveRequest'], ParentType, ContextType, RequireFields<MutationUpdateLeaveRequestStatusArgs, 'id' | 'status'>>;
+  updateMyProfile?: Resolver<ResolversTypes['Employee'], ParentType, ContextType, RequireFields<MutationUpdateMyProfileArgs, 'input'>>;
+  updateRole?: Resolver<ResolversTypes['Role'], ParentType, ContextType, RequireFields<MutationUpdateRoleArgs, 'id' | 'input'>>;
+  verify2FA?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType, RequireFields<MutationVerify2FaArgs, 'code'>>;
+}>;
+
+export type NoteResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Note'] = ResolversParentTypes['Note']> = ResolversObject<{
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  fromUserId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  isRead?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  toAll?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  toEmployeeId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type NotificationResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Notification'] = ResolversParentTypes['Notification']> = ResolversObject<{
+  actionUrl?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  isRead?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  linkTo?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  readAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  title?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  type?: Resolver<ResolversTypes['NotificationType'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userEmail?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type NotificationConnectionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['NotificationConnection'] = ResolversParentTypes['NotificationConnection']> = ResolversObject<{
+  edges?: Resolver<Array<ResolversTypes['NotificationEdge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type NotificationEdgeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['NotificationEdge'] = ResolversParentTypes['NotificationEdge']> = ResolversObject<{
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Notification'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type OrgChartNodeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['OrgChartNode'] = ResolversParentTypes['OrgChartNode']> = ResolversObject<{
+  avatar?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  directReports?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  employeeId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  headcount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  level?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  managerId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  parentId?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type PageInfoResolvers<ContextType = Context, ParentType extends ResolversParentTypes['PageInfo'] = ResolversParentTypes['PageInfo']> = ResolversObject<{
+  endCursor?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  hasNextPage?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  hasPreviousPage?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  startCursor?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type PasswordChangeResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['PasswordChangeResult'] = ResolversParentTypes['PasswordChangeResult']> = ResolversObject<{
+  accessToken?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  fieldErrors?: Resolver<Maybe<Array<ResolversTypes['FieldError']>>, ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  success?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type PermissionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Permission'] = ResolversParentTypes['Permission']> = ResolversObject<{
+  category?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  description?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  key?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  scopes?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type QueryResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Query'] = ResolversParentTypes['Query']> = ResolversObject<{
+  accessControlLogs?: Resolver<Array<ResolversTypes['AccessControlLog']>, ParentType, ContextType, RequireFields<QueryAccessControlLogsArgs, 'limit'>>;
+  accessLogs?: Resolver<ResolversTypes['AccessLogConnection'], ParentType, ContextType, Partial<QueryAccessLogsArgs>>;
+  adminUsers?: Resolver<Array<ResolversTypes['User']>, ParentType, ContextType>;
+  allUsers?: Resolver<Array<ResolversTypes['User']>, ParentType, ContextType, Partial<QueryAllUsersArgs>>;
+  apiKeyScopes?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  apiKeys?: Resolver<Array<ResolversTypes['ApiKey']>, ParentType, ContextType>;
+  dashboardStats?: Resolver<ResolversTypes['DashboardStats'], ParentType, ContextType>;
+  delegationsToMe?: Resolver<Array<ResolversTypes['ApprovalDelegation']>, ParentType, ContextType>;
+  employee?: Resolver<Maybe<ResolversTypes['Employee']>, ParentType, ContextType, RequireFields<QueryEmployeeArgs, 'id'>>;
+  employeePerformanceStats?: Resolver<Maybe<ResolversTypes['EmployeePerformanceStats']>, ParentType, ContextType, RequireFields<QueryEmployeePerformanceStatsArgs, 'employeeId'>>;
+  employees?: Resolver<ResolversTypes['EmployeeConnection'], ParentType, ContextType, RequireFields<QueryEmployeesArgs, 'sortBy' | 'sortOrder'>>;
+  invitations?: Resolver<Array<ResolversTypes['Invitation']>, ParentType, ContextType, Partial<QueryInvitationsArgs>>;
+  leaveRequests?: Resolver<Array<ResolversTypes['LeaveRequest']>, ParentType, ContextType, Partial<QueryLeaveRequestsArgs>>;
+  me?: Resolver<Maybe<ResolversTypes['User']>, ParentType, ContextType>;
+  messageStats?: Resolver<ResolversTypes['MessageStats'], ParentType, ContextType>;
+  messages?: Resolver<Array<ResolversTypes['Message']>, ParentType, ContextType, Partial<QueryMessagesArgs>>;
+  myConversations?: Resolver<Array<ResolversTypes['Conversation']>, ParentType, ContextType>;
+  myDelegations?: Resolver<Array<ResolversTypes['ApprovalDelegation']>, ParentType, ContextType>;
+  myLeaveRequests?: Resolver<Array<ResolversTypes['LeaveRequest']>, ParentType, ContextType>;
+  myMessages?: Resolver<ResolversTypes['MessageConnection'], ParentType, ContextType, Partial<QueryMyMessagesArgs>>;
+  myNotes?: Resolver<Array<ResolversTypes['Note']>, ParentType, ContextType>;
+  myPermissions?: Resolver<Array<ResolversTypes['RolePermission']>, ParentType, ContextType>;
+  myProfile?: Resolver<Maybe<ResolversTypes['Employee']>, ParentType, ContextType>;
+  myReviewRequests?: Resolver<Array<ResolversTypes['ReviewRequest']>, ParentType, ContextType>;
+  mySessions?: Resolver<Array<ResolversTypes['Session']>, ParentType, ContextType>;
+  myThreads?: Resolver<ResolversTypes['ThreadConnection'], ParentType, ContextType, Partial<QueryMyThreadsArgs>>;
+  notes?: Resolver<Array<ResolversTypes['Note']>, ParentType, ContextType, Partial<QueryNotesArgs>>;
+  notificationCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  notifications?: Resolver<ResolversTypes['NotificationConnection'], ParentType, ContextType, Partial<QueryNotificationsArgs>>;
+  orgChart?: Resolver<Array<ResolversTypes['OrgChartNode']>, ParentType, ContextType, Partial<QueryOrgChartArgs>>;
+  permissions?: Resolver<Array<ResolversTypes['Permission']>, ParentType, ContextType>;
+  reportingChain?: Resolver<Array<ResolversTypes['ReportingChainLink']>, ParentType, ContextType, RequireFields<QueryReportingChainArgs, 'employeeId'>>;
+  reviewRequest?: Resolver<Maybe<ResolversTypes['ReviewRequest']>, ParentType, ContextType, RequireFields<QueryReviewRequestArgs, 'id'>>;
+  reviewRequests?: Resolver<ResolversTypes['ReviewRequestConnection'], ParentType, ContextType, Partial<QueryReviewRequestsArgs>>;
+  roles?: Resolver<Array<ResolversTypes['Role']>, ParentType, ContextType>;
+  subordinates?: Resolver<Array<ResolversTypes['Subordinate']>, ParentType, ContextType, RequireFields<QuerySubordinatesArgs, 'userId'>>;
+  thread?: Resolver<Maybe<ResolversTypes['Thread']>, ParentType, ContextType, RequireFields<QueryThreadArgs, 'id'>>;
+  threads?: Resolver<Array<ResolversTypes['Thread']>, ParentType, ContextType>;
+  unreadNotifications?: Resolver<Array<ResolversTypes['Notification']>, ParentType, ContextType>;
+  userSessions?: Resolver<Array<ResolversTypes['Session']>, ParentType, ContextType, RequireFields<QueryUserSessionsArgs, 'userId'>>;
+  userStatistics?: Resolver<Array<ResolversTypes['UserStatistics']>, ParentType, ContextType, RequireFields<QueryUserStatisticsArgs, 'days'>>;
+}>;
+
+export type ReportingChainLinkResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ReportingChainLink'] = ResolversParentTypes['ReportingChainLink']> = ResolversObject<{
+  email?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  employee?: Resolver<Maybe<ResolversTypes['Employee']>, ParentType, ContextType>;
+  level?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReviewRequestResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ReviewRequest'] = ResolversParentTypes['ReviewRequest']> = ResolversObject<{
+  adminComment?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  employee?: Resolver<ResolversTypes['Employee'], ParentType, ContextType>;
+  employeeId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  managerReasonText?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  managerReasonType?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  requestedByEmail?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  requestedByManagerId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  reviewedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  reviewedByAdminId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['ReviewStatus'], ParentType, ContextType>;
+  threadId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  type?: Resolver<ResolversTypes['ReviewType'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  visibleToEmployee?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReviewRequestConnectionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ReviewRequestConnection'] = ResolversParentTypes['ReviewRequestConnection']> = ResolversObject<{
+  edges?: Resolver<Array<ResolversTypes['ReviewRequestEdge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ReviewRequestEdgeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ReviewRequestEdge'] = ResolversParentTypes['ReviewRequestEdge']> = ResolversObject<{
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['ReviewRequest'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type RoleResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Role'] = ResolversParentTypes['Role']> = ResolversObject<{
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  description?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  isSystem?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  key?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  permissions?: Resolver<Array<ResolversTypes['RolePermission']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type RoleDistributionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['RoleDistribution'] = ResolversParentTypes['RoleDistribution']> = ResolversObject<{
+  directors?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  employees?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  managers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type RolePermissionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['RolePermission'] = ResolversParentTypes['RolePermission']> = ResolversObject<{
+  permission?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  scope?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type SessionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Session'] = ResolversParentTypes['Session']> = ResolversObject<{
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  current?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  ipAddress?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  lastUsedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  userAgent?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type SlackNotificationResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['SlackNotificationResult'] = ResolversParentTypes['SlackNotificationResult']> = ResolversObject<{
+  success?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type SubordinateResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Subordinate'] = ResolversParentTypes['Subordinate']> = ResolversObject<{
+  employee?: Resolver<ResolversTypes['Employee'], ParentType, ContextType>;
+  level?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type SubscriptionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Subscription'] = ResolversParentTypes['Subscription']> = ResolversObject<{
+  leaveRequestUpdated?: SubscriptionResolver<ResolversTypes['LeaveRequest'], "leaveRequestUpdated", ParentType, ContextType>;
+  messageReceived?: SubscriptionResolver<ResolversTypes['Message'], "messageReceived", ParentType, ContextType, Partial<SubscriptionMessageReceivedArgs>>;
+  notificationAdded?: SubscriptionResolver<ResolversTypes['Notification'], "notificationAdded", ParentType, ContextType>;
+  threadMessageAdded?: SubscriptionResolver<ResolversTypes['ThreadMessage'], "threadMessageAdded", ParentType, ContextType, RequireFields<SubscriptionThreadMessageAddedArgs, 'threadId'>>;
+}>;
+
+export type ThreadResolvers<ContextType = Context, ParentType extends ResolversParentTypes['Thread'] = ResolversParentTypes['Thread']> = ResolversObject<{
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  lastMessage?: Resolver<Maybe<ResolversTypes['ThreadMessage']>, ParentType, ContextType>;
+  linkedEmployeeId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  linkedRequestId?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  messageCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  messages?: Resolver<Array<ResolversTypes['ThreadMessage']>, ParentType, ContextType>;
+  participants?: Resolver<Array<ResolversTypes['Int']>, ParentType, ContextType>;
+  title?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ThreadConnectionResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ThreadConnection'] = ResolversParentTypes['ThreadConnection']> = ResolversObject<{
+  edges?: Resolver<Array<ResolversTypes['ThreadEdge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ThreadEdgeResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ThreadEdge'] = ResolversParentTypes['ThreadEdge']> = ResolversObject<{
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Thread'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type ThreadMessageResolvers<ContextType = Context, ParentType extends ResolversParentTypes['ThreadMessage'] = ResolversParentTypes['ThreadMessage']> = ResolversObject<{
+  body?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  senderEmail?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  senderId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  senderRole?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  threadId?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  type?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type TwoFaSetupResultResolvers<ContextType = Context, ParentType extends ResolversParentTypes['TwoFASetupResult'] = ResolversParentTypes['TwoFASetupResult']> = ResolversObject<{
+  otpauthUrl?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  qrCode?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  recoveryCodes?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type UserResolvers<ContextType = Context, ParentType extends ResolversParentTypes['User'] = ResolversParentTypes['User']> = ResolversObject<{
+  accessBlockReason?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  accessBlockedUntil?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  email?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  emailNotifications?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
+  failedLoginAttempts?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  isActive?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
+  role?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  twoFAEnabled?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type UserStatisticsResolvers<ContextType = Context, ParentType extends ResolversParentTypes['UserStatistics'] = ResolversParentTypes['UserStatistics']> = ResolversObject<{
+  activeUsers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  blockedUsers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  date?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  directors?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  employees?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  failedLoginAttempts?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  loginAttempts?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  managers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  totalUsers?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+}>;
+
+export type Resolvers<ContextType = Context> = ResolversObject<{
+  AccessControlLog?: AccessControlLogResolvers<ContextType>;
+  AccessLog?: AccessLogResolvers<ContextType>;
+  AccessLogConnection?: AccessLogConnectionResolvers<ContextType>;
+  AccessLogEdge?: AccessLogEdgeResolvers<ContextType>;
+  ApiKey?: ApiKeyResolvers<ContextType>;
+  ApiKeyResult?: ApiKeyResultResolvers<ContextType>;
+  ApprovalDelegation?: ApprovalDelegationResolvers<ContextType>;
+  Conversation?: ConversationResolvers<ContextType>;
+  DashboardStats?: DashboardStatsResolvers<ContextType>;
+  Employee?: EmployeeResolvers<ContextType>;
+  EmployeeConnection?: EmployeeConnectionResolvers<ContextType>;
+  EmployeeEdge?: EmployeeEdgeResolvers<ContextType>;
+  EmployeePerformanceStats?: EmployeePerformanceStatsResolvers<ContextType>;
+  FieldError?: FieldErrorResolvers<ContextType>;
+  GenerateLoginsResult?: GenerateLoginsResultResolvers<ContextType>;
+  GeneratedLogin?: GeneratedLoginResolvers<ContextType>;
+  ImpersonationResult?: ImpersonationResultResolvers<ContextType>;
+  ImpersonationSession?: ImpersonationSessionResolvers<ContextType>;
+  Invitation?: InvitationResolvers<ContextType>;
+  InvitationResult?: InvitationResultResolvers<ContextType>;
+  LeaveRequest?: LeaveRequestResolvers<ContextType>;
+  Message?: MessageResolvers<ContextType>;
+  MessageConnection?: MessageConnectionResolvers<ContextType>;
+  MessageEdge?: MessageEdgeResolvers<ContextType>;
+  MessageStats?: MessageStatsResolvers<ContextType>;
+  Mutation?: MutationResolvers<ContextType>;
+  Note?: NoteResolvers<ContextType>;
+  Notification?: NotificationResolvers<ContextType>;
+  NotificationConnection?: NotificationConnectionResolvers<ContextType>;
+  NotificationEdge?: NotificationEdgeResolvers<ContextType>;
+  OrgChartNode?: OrgChartNodeResolvers<ContextType>;
+  PageInfo?: PageInfoResolvers<ContextType>;
+  PasswordChangeResult?: PasswordChangeResultResolvers<ContextType>;
+  Permission?: PermissionResolvers<ContextType>;
+  Query?: QueryResolvers<ContextType>;
+  ReportingChainLink?: ReportingChainLinkResolvers<ContextType>;
+  ReviewRequest?: ReviewRequestResolvers<ContextType>;
+  ReviewRequestConnection?: ReviewRequestConnectionResolvers<ContextType>;
+  ReviewRequestEdge?: ReviewRequestEdgeResolvers<ContextType>;
+  Role?: RoleResolvers<ContextType>;
+  RoleDistribution?: RoleDistributionResolvers<ContextType>;
+  RolePermission?: RolePermissionResolvers<ContextType>;
+  Session?: SessionResolvers<ContextType>;
+  SlackNotificationResult?: SlackNotificationResultResolvers<ContextType>;
+  Subordinate?: SubordinateResolvers<ContextType>;
+  Subscription?: SubscriptionResolvers<ContextType>;
+  Thread?: ThreadResolvers<ContextType>;
+  ThreadConnection?: ThreadConnectionResolvers<ContextType>;
+  ThreadEdge?: ThreadEdgeResolvers<ContextType>;
+  ThreadMessage?: ThreadMessageResolvers<ContextType>;
+  TwoFASetupResult?: TwoFaSetupResultResolvers<ContextType>;
+  User?: UserResolvers<ContextType>;
+  UserStatistics?: UserStatisticsResolvers<ContextType>;
+}>;
+
@@ -15,18 +15,42 @@
 
 import 'dotenv/config'; // Load environment variables from .env file (keeps secrets safe!)
 import express from 'express'; // Express = web server framework (handles HTTP requests)
+import { createServer, type IncomingMessage } from 'http'; // One HTTP server for Express and the WebSocket upgrade
 import cors from 'cors'; // CORS = lets frontend (different domain) talk to backend
-import { ApolloServer } from 'apollo-server-express'; // GraphQL server for complex queries
-import { PrismaClient } from '@prisma/client'; // Prisma = talks to PostgreSQL database
+import { ApolloError, ApolloServer } from 'apollo-server-express'; // GraphQL server for complex queries
+import type { DocumentNode, FragmentDefinitionNode, OperationDefinitionNode, SelectionSetNode } from 'graphql';
+import { makeExecutableSchema } from '@graphql-tools/schema'; // One schema for HTTP and WebSocket
+import { WebSocketServer } from 'ws'; // WebSocket server for GraphQL subscriptions
+import { useServer } from 'graphql-ws/lib/use/ws'; // graphql-ws protocol on top of it
 import { typeDefs } from './schema'; // GraphQL schema (defines what data we can query)
 import { resolvers } from './resolvers'; // Resolvers (functions that actually fetch the data)
 import { authRouter } from './routes/auth'; // Authentication routes (login/register)
 import jwt from 'jsonwebtoken'; // JWT = creates and verifies user tokens
 import bulkActionsRouter from './routes/bulkActions'; // Bulk actions router
-
-// Initialize database connection - this connects us to PostgreSQL
-const prisma = new PrismaClient();
-const ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'dev-access-secret';
+import { ACCESS_SECRET, PASSWORD_CHANGE_SCOPE } from './utils/tokens'; // Same secret /auth signs access tokens with
+import { startEmailRetryWorker } from './utils/mail'; // Retries emails that failed to send
+import { limitGraphqlByUser } from './utils/rateLimit'; // Per-user request budget on /graphql
+import { authenticateApiKey, isApiKey, type ApiKeyPrincipal } from './utils/apiKeys'; // Keys for scripts/integrations
+import {
+  IMPERSONATION_BLOCKED_FIELDS,
+  IMPERSONATION_READ_ONLY_FIELDS,
+  logImpersonatedRequest,
+  resolveImpersonation,
+  type ImpersonationContext,
+} from './utils/impersonation'; // Directors viewing the app as another user
+import {
+  apiKeyPermissions,
+  loadRolePermissions,
+  syncPermissionCatalog,
+  type PermissionMap,
+} from './utils/permissions'; // What each role may do (Roles page)
+import { loadReportingTeam, type ReportingTeam } from './utils/hierarchy'; // Who is below whom
+import { loadActiveDelegations, type ActiveDelegation } from './utils/delegation'; // Approvals covered for someone away
+import { isSessionLive } from './utils/sessions'; // Signed-out sessions lose their access tokens at once
+import { createLoaders } from './utils/loaders'; // Batched per-request lookups (DataLoader)
+import { currentQueryStats, trackQueries } from './utils/queryCount'; // GRAPHQL_QUERY_DEBUG
+import { prisma } from './utils/prisma'; // Prisma = talks to PostgreSQL (one shared client)
+import { formatGraphqlError } from './utils/errors'; // Error codes for clients, no stack traces in production
 
 // Create Express app - this is our web server
 const app = express();
@@ -43,6 +67,32 @@ app.use(
   }),
 );
 
+// TRUST_PROXY: how many reverse proxies (Render, nginx) sit in front of us - their
+// X-Forwarded-For then gives req.ip, which rate limits, API key allowlists and
+// sessions use. Off by default: without a proxy any client could pick its own address.
+function trustProxySetting(value: string | undefined): boolean | number | string {
+  const setting = String(value || '').trim().toLowerCase();
+  if (!setting || setting === 'false' || setting === '0') return false;
+  if (setting === 'true') return true;
+  return /^\d+$/.test(setting) ? Number(setting) : setting;
+}
+app.set('trust proxy', trustProxySetting(process.env.TRUST_PROXY));
+
+// req.ip for a request Express never sees (the WebSocket upgrade): walk back through
+// X-Forwarded-For only as far as TRUST_PROXY allows
+function clientAddress(request: IncomingMessage): string | null {
+  const trust: (address: string, hop: number) => boolean = app.get('trust proxy fn');
+  const forwarded = String(request.headers['x-forwarded-for'] || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+    .reverse();
+  const addresses = [request.socket.remoteAddress || '', ...forwarded];
+  let hop = 0;
+  while (hop < addresses.length - 1 && trust(addresses[hop], hop)) hop++;
+  return addresses[hop] || null;
+}
+
 // Parse JSON in request bodies - converts JSON to JavaScript objects
 app.use(express.json());
 
@@ -81,47 +131,278 @@ app.use('/bulk-actions', bulkActionsRouter);
  * Context: This runs on every request and extracts the user from the JWT token.
  * If the token is valid, we know who the user is (director/manager/employee).
  * If invalid or missing, user stays null and protected queries will fail.
+ * A valid signature is not enough: the token's tokenVersion must match the user's
+ * current one (bumped on block/role change/password change) and the user must be active.
+ *
+ * Users who still have to change their password get a restricted token
+ * (scope "password-change") - the plugin below only lets it run changePassword.
+ *
+ * Integrations send an API key ("Bearer pdk_...") instead of a JWT. That makes the
+ * request a service principal: ctx.apiKey holds the key's scopes, which are turned
+ * into the permissions the key may use.
+ *
+ * ctx.permissions holds what the caller may do - their role's grants from the
+ * database - and every resolver checks it with can()/authorize() (utils/permissions.ts).
+ * Callers holding any "team" scope also get ctx.team: everyone below them in the
+ * reporting tree (utils/hierarchy.ts), which is what "team" covers. ctx.delegations
+ * lists the managers whose approvals the caller is covering today (utils/delegation.ts).
+ *
+ * A director "viewing as" another user sends an impersonation token: user is the
+ * impersonated user and ctx.impersonation names the director. The plugin below logs
+ * every such request with both identities and refuses writes in read-only sessions.
+ *
+ * Subscriptions (utils/realtime.ts) run over a WebSocket on the same /graphql path
+ * (graphql-ws protocol). The client sends { authorization: "Bearer <jwt>" } as
+ * connection params; each subscription gets a context built the same way. Only
+ * signed-in users get in - no API keys, no password-change tokens - and the socket
+ * is closed when the token expires, so the client reconnects with a fresh one.
  */
-async function start() {
-  const server = new ApolloServer({
-    typeDefs, // Schema = what queries and mutations are available
-    resolvers, // Resolvers = functions that execute those queries
-    context: async ({ req }) => {
-      // Extract JWT token from Authorization header
-      const authHeader = req.headers.authorization || '';
-      let user = null; // Will stay null if token is invalid
-
-      if (authHeader.startsWith('Bearer ')) {
-        // Token format: "Bearer eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
-        const token = authHeader.replace('Bearer ', '');
-        try {
-          // Verify token signature and decode payload
-          const decoded: any = jwt.verify(token, ACCESS_SECRET);
-          // Token is valid! Fetch full user from database
-          user = await prisma.user.findUnique({ where: { id: decoded.userId } });
-        } catch (err) {
-          // Token is invalid/expired - keep user null
-          // This is fine, just means they're not logged in
+const PASSWORD_CHANGE_ALLOWED_FIELDS = ['changePassword', '__typename'];
+
+/**
+ * Who is calling, from the Authorization header - shared by HTTP requests and
+ * WebSocket subscriptions (which send the header in their connection params).
+ */
+async function buildContext(authHeader: string, ipAddress: string | null) {
+  let user = null; // Will stay null if token is invalid
+  let sessionId: string | null = null; // Which login session issued the token
+  let passwordChangeOnly = false; // Restricted token - see PASSWORD_CHANGE_SCOPE
+  let apiKey: ApiKeyPrincipal | null = null; // Set when an integration calls with an API key
+  let impersonation: ImpersonationContext | null = null; // Set while a director is viewing as this user
+  let permissions: PermissionMap = {}; // What the caller may do - see utils/permissions.ts
+  let team: ReportingTeam | null = null; // Caller's subtree, for "team" scoped permissions
+  let delegations: ActiveDelegation[] = []; // Managers whose approvals the caller is covering today
+
+  if (authHeader.startsWith('Bearer ')) {
+    // Token format: "Bearer eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+    const token = authHeader.replace('Bearer ', '');
+    if (isApiKey(token)) {
+      // Integration key - unknown/revoked/expired keys or a wrong IP leave user null
+      const principal = await authenticateApiKey(token, ipAddress);
+      if (principal) {
+        user = principal.user;
+        apiKey = principal.apiKey;
+        permissions = apiKeyPermissions(principal.apiKey.scopes);
+      }
+    } else {
+      try {
+        // Verify token signature and decode payload
+        const decoded: any = jwt.verify(token, ACCESS_SECRET);
+        // Token is valid! Fetch full user from database
+        const found = await prisma.user.findUnique({ where: { id: decoded.userId } });
+        // Tokens signed before tokenVersion existed carry no tv - treat as version 0
+        const tokenVersionMatches = found && (decoded.tv ?? 0) === found.tokenVersion;
+        // Blocked users are cut off here too, not just at /auth/login
+        if (found && tokenVersionMatches && found.isActive !== false) {
+          if (decoded.imp) {
+            // "View as" token - only valid while its impersonation session is
+            impersonation = await resolveImpersonation(decoded);
+            if (impersonation) user = found;
+          } else if (!decoded.sid || (await isSessionLive(decoded.sid))) {
+            // A signed-out session's access tokens stop working now, not when they expire
+            user = found;
+            sessionId = decoded.sid || null;
+            passwordChangeOnly = decoded.scope === PASSWORD_CHANGE_SCOPE;
+          }
+          if (user) permissions = await loadRolePermissions(found.role);
+          if (user && Object.values(permissions).includes('team')) team = await loadReportingTeam(found.id);
+          if (user) delegations = await loadActiveDelegations(found.id);
         }
+      } catch (err) {
+        // Token is invalid/expired - keep user null
+        // This is fine, just means they're not logged in
       }
+    }
+  }
+
+  // Return context object - available in all resolvers
+  // Every query/mutation can access { prisma, loaders, user, permissions, team, delegations, sessionId, passwordChangeOnly, apiKey, impersonation, ipAddress }
+  // loaders are new per request, so nothing they cache outlives it
+  const loaders = createLoaders(prisma);
+  return { prisma, loaders, user, permissions, team, delegations, sessionId, passwordChangeOnly, apiKey, impersonation, ipAddress };
+}
 
-      // Return context object - available in all resolvers
-      // Every query/mutation can access { prisma, user }
-      return { prisma, user };
+// Root field names of an operation, e.g. ["employees"] - for the checks below.
+// Fragments at the root are followed: `... on Mutation { changePassword }` counts too.
+function rootFieldNames(operation: OperationDefinitionNode, document: DocumentNode) {
+  const fragments = new Map(
+    document.definitions
+      .filter((definition): definition is FragmentDefinitionNode => definition.kind === 'FragmentDefinition')
+      .map((fragment) => [fragment.name.value, fragment]),
+  );
+  const names: string[] = [];
+  const visited = new Set<string>();
+  const collect = (selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === 'Field') {
+        names.push(selection.name.value);
+      } else if (selection.kind === 'InlineFragment') {
+        collect(selection.selectionSet);
+      } else if (!visited.has(selection.name.value)) {
+        visited.add(selection.name.value);
+        const fragment = fragments.get(selection.name.value);
+        if (fragment) collect(fragment.selectionSet);
+      }
+    }
+  };
+  collect(operation.selectionSet);
+  return names;
+}
+
+// Closes a subscription socket when its token runs out - the client reconnects with a new one
+const TOKEN_EXPIRED_CLOSE_CODE = 4403;
+
+async function start() {
+  // Schema = what queries, mutations and subscriptions are available; resolvers fetch the data
+  const schema = makeExecutableSchema({ typeDefs, resolvers });
+
+  const httpServer = createServer(app);
+  const wsServer = new WebSocketServer({ server: httpServer, path: '/graphql' });
+  const wsCleanup = useServer(
+    {
+      schema,
+      // Refuses the connection (4403) unless the token belongs to a signed-in user
+      onConnect: async ({ connectionParams, extra }) => {
+        const authHeader = String(connectionParams?.authorization || '');
+        const context = await buildContext(authHeader, clientAddress(extra.request));
+        if (!context.user || context.apiKey || context.passwordChangeOnly) return false;
+
+        const decoded: any = jwt.decode(authHeader.replace('Bearer ', ''));
+        if (decoded?.exp) {
+          const timer = setTimeout(
+            () => extra.socket.close(TOKEN_EXPIRED_CLOSE_CODE, 'Token expired'),
+            Math.max(decoded.exp * 1000 - Date.now(), 0),
+          );
+          extra.socket.once('close', () => clearTimeout(timer));
+        }
+        return true;
+      },
+      // Fresh per subscription, like an HTTP request
+      context: async ({ connectionParams, extra }, _message, args) => {
+        const context = await buildContext(
+          String(connectionParams?.authorization || ''),
+          clientAddress(extra.request),
+        );
+        const operation = args.document.definitions.find(
+          (definition): definition is OperationDefinitionNode => definition.kind === 'OperationDefinition',
+        );
+        if (context.user && context.impersonation && operation) {
+          await logImpersonatedRequest({
+            user: context.user,
+            impersonation: context.impersonation,
+            operation: operation.operation,
+            operationName: args.operationName ?? null,
+            fields: rootFieldNames(operation, args.document),
+            blocked: false,
+            ipAddress: context.ipAddress,
+          });
+        }
+        return context;
+      },
     },
+    wsServer,
+  );
+
+  const server = new ApolloServer({
+    schema,
+    // Stack traces in error responses only outside production (utils/errors.ts)
+    debug: process.env.NODE_ENV !== 'production',
+    formatError: formatGraphqlError,
+    plugins: [
+      {
+        // Stop taking subscriptions when the server shuts down
+        async serverWillStart() {
+          return {
+            async drainServer() {
+              await wsCleanup.dispose();
+            },
+          };
+        },
+      },
+      {
+        // Runs once the query is parsed - before any resolver touches data
+        async requestDidStart() {
+          return {
+            async didResolveOperation({ context, document, operation, operationName }) {
+              const rootFields = rootFieldNames(operation, document);
+
+              if (context.impersonation) {
+                const forbidden = rootFields.some((field) => IMPERSONATION_BLOCKED_FIELDS.includes(field));
+                const writeInReadOnly =
+                  context.impersonation.readOnly &&
+                  operation.operation === 'mutation' &&
+                  !rootFields.every((field) => IMPERSONATION_READ_ONLY_FIELDS.includes(field));
+                // Written before the request runs - if the audit row can't be stored, nothing runs
+                await logImpersonatedRequest({
+                  user: context.user,
+                  impersonation: context.impersonation,
+                  operation: operation.operation,
+                  operationName: operationName ?? null,
+                  fields: rootFields,
+                  blocked: forbidden || writeInReadOnly,
+                  ipAddress: context.ipAddress,
+                });
+                if (forbidden) {
+                  throw new ApolloError('Not available while viewing as another user', 'IMPERSONATION_FORBIDDEN');
+                }
+                if (writeInReadOnly) {
+                  throw new ApolloError('This view-as session is read-only', 'IMPERSONATION_READ_ONLY');
+                }
+              }
+
+              if (!context.passwordChangeOnly) return;
+              const onlyChangePassword =
+                operation.operation === 'mutation' &&
+                rootFields.every((field) => PASSWORD_CHANGE_ALLOWED_FIELDS.includes(field));
+              if (!onlyChangePassword) {
+                throw new ApolloError('Password change required', 'PASSWORD_CHANGE_REQUIRED');
+              }
+            },
+          };
+        },
+      },
+      {
+        // GRAPHQL_QUERY_DEBUG: how many database queries each operation ran (utils/queryCount.ts)
+        async requestDidStart() {
+          return {
+            async willSendResponse({ operationName, response }) {
+              const stats = currentQueryStats();
+              if (!stats) return;
+              console.log(`[query-debug] ${operationName || 'anonymous'}: ${stats.count} queries in ${stats.durationMs}ms`);
+              response.extensions = { ...response.extensions, queryCount: stats.count };
+            },
+          };
+        },
+      },
+    ],
+    context: ({ req }) => buildContext(req.headers.authorization || '', req.ip || null),
+  });
+
+  // Add permissions introduced since the last deploy (director gets them all)
+  await syncPermissionCatalog().catch((err) => {
+    console.error('Failed to sync the permission catalog:', err);
   });
 
   // Start Apollo server (async initialization)
   await server.start();
 
+  // Per-user request budget - answers 429 before Apollo does any work
+  app.use('/graphql', limitGraphqlByUser);
+
+  // Per-request query counter (only does anything with GRAPHQL_QUERY_DEBUG on)
+  app.use('/graphql', trackQueries);
+
   // Connect Apollo to Express at /graphql endpoint
   server.applyMiddleware({ app, path: '/graphql' });
 
-  // Start listening for HTTP requests
+  // Start listening for HTTP requests (and WebSocket upgrades for subscriptions)
   const PORT = process.env.PORT || 4000;
-  app.listen(PORT, () => {
+  httpServer.listen(PORT, () => {
     console.log(`🚀 Backend running at http://localhost:${PORT}${server.graphqlPath}`);
   });
+
+  // Keep retrying emails whose first delivery attempt failed
+  startEmailRetryWorker();
 }
 
 // Start the server! If anything crashes, log error and exit
@@ -9,71 +9,153 @@
  * - Mutation resolvers: Modify data (POST/PUT/DELETE requests)
  * - Type resolvers: Calculate fields on existing objects
  *
- * Permission Levels:
- * 1. Director: Supreme admin - can do EVERYTHING
- * 2. Manager: Can manage teams, approve leaves, flag employees
- * 3. Employee: Can view own data, request leaves, send messages
+ * Permissions:
+ * Roles live in the database (Roles page) and grant named permissions like
+ * employee.update or leave.approve, each for all records, the user's team or only
+ * their own (see utils/permissions.ts). Resolvers never compare role names - they
+ * ask can(ctx, permission, resource?) or authorize(), which throws.
+ * System roles: Director (everything), Manager (their team), Employee (themselves).
  *
  * Every resolver has access to:
  * - ctx.prisma: Database client to query PostgreSQL
+ * - ctx.loaders: Batched lookups by id (utils/loaders.ts) - type resolvers use
+ *   these so a list of N rows costs one query, not N
  * - ctx.user: Current logged-in user (or null if not logged in)
+ * - ctx.permissions: What that user (or API key) may do
  */
 
-import { PrismaClient, Employee } from '@prisma/client';
+import { PrismaClient, Prisma, Employee, LeaveStatus } from '@prisma/client';
+import type {
+  AccessControlLog,
+  ApiKey,
+  ApprovalDelegation,
+  ImpersonationSession,
+  Invitation,
+  LeaveRequest,
+  ReviewRequest,
+  Role,
+  RolePermission,
+  Thread,
+  ThreadMessage,
+  User,
+} from '@prisma/client';
 import * as bcrypt from 'bcryptjs';
 import { sendSlackMessage } from './utils/slack';
-import { generate2FASecret, verify2FACode } from './utils/twofa';
+import { consume2FACode, generate2FASecret, generateRecoveryCodes } from './utils/twofa';
+import { listActiveSessions, revokeSession, revokeUserSessions } from './utils/sessions';
+import { signAccessToken, signImpersonationToken } from './utils/tokens';
+import { appLink, sendEmail } from './utils/mail';
+import {
+  PasswordPolicyError,
+  assertPasswordAllowed,
+  generateCompliantPassword,
+  nextPasswordHistory,
+  type FieldError,
+} from './utils/passwordPolicy';
+import { AuthenticationError, ConflictError, ForbiddenError, NotFoundError, ValidationError } from './utils/errors';
+import {
+  INVITATION_TTL_DAYS,
+  buildInvitationLink,
+  createInvitationToken,
+  deliverInvitation,
+  getInvitationStatus,
+  invitationExpiry,
+} from './utils/invitations';
+import { API_KEY_SCOPES, createApiKeySecret, getApiKeyStatus, normalizeAllowedIps } from './utils/apiKeys';
+import type { ApiKeyPrincipal } from './utils/apiKeys';
+import {
+  IMPERSONATION_DEFAULT_MINUTES,
+  IMPERSONATION_MAX_MINUTES,
+  canBeImpersonated,
+} from './utils/impersonation';
+import type { ImpersonationContext } from './utils/impersonation';
+import {
+  DEFAULT_ROLE,
+  DIRECTOR_ROLE,
+  PERMISSIONS,
+  SYSTEM_ROLES,
+  authorize,
+  can,
+  findUsersWithPermission,
+  invalidateRolePermissions,
+  loadRolePermissions,
+  normalizePermissionGrants,
+  permissionScope,
+} from './utils/permissions';
+import type { PermissionMap } from './utils/permissions';
+import { canFilterEmployeeField, restrictEmployeeFields, typeFieldNames } from './utils/fieldVisibility';
+import { typeDefs } from './schema';
+import {
+  MAX_HIERARCHY_DEPTH,
+  buildOrgChart,
+  createsReportingLoop,
+  findReportingChain,
+  findSubordinates,
+  loadReportingTeam,
+} from './utils/hierarchy';
+import type { ReportingTeam } from './utils/hierarchy';
+import {
+  DELEGABLE_PERMISSIONS,
+  delegablePermissions,
+  findActiveDelegates,
+  findDelegation,
+  findManagersOnLeave,
+  isDelegationActive,
+  onBehalfOf,
+} from './utils/delegation';
+import type { ActiveDelegation } from './utils/delegation';
+import { withFilter } from 'graphql-subscriptions';
+import { REALTIME_EVENTS, pubsub } from './utils/realtime';
+import type { Loaders } from './utils/loaders';
+import { paginate } from './utils/pagination';
+import type {
+  Resolvers,
+  SubscriptionMessageReceivedArgs,
+  SubscriptionSubscribeFn,
+  SubscriptionThreadMessageAddedArgs,
+} from './generated/graphql';
 
 // Context type = what every resolver receives
-type Context = {
+export type Context = {
   prisma: PrismaClient; // Database client
+  loaders: Loaders; // Batched lookups for type resolvers - use these instead of a query per row
   user: { id: number; role: string; email: string } | null; // Current user (from JWT)
+  permissions: PermissionMap; // What the caller may do - check with can()/authorize()
+  team?: ReportingTeam | null; // Everyone below the caller - what "team" scopes cover
+  delegations?: ActiveDelegation[]; // Managers whose approvals the caller is covering today
+  sessionId?: string | null; // Login session that issued the JWT (refresh token family)
+  passwordChangeOnly?: boolean; // Restricted token: only changePassword is allowed (see index.ts)
+  apiKey?: ApiKeyPrincipal | null; // Set when the caller is an integration using an API key
+  impersonation?: ImpersonationContext | null; // Set while a director is viewing as ctx.user
+  ipAddress?: string | null; // Caller's address (req.ip)
 };
 
+// Parent rows for the type resolvers below (codegen.ts maps the GraphQL types to
+// these): the Prisma row plus any relation the query already included
+export type ThreadParent = Thread & { messages?: ThreadMessage[] };
+export type ReviewRequestParent = ReviewRequest & { employee?: Employee };
+export type LeaveRequestParent = LeaveRequest & { employee?: Employee; employeeName?: string | null };
+export type AccessControlLogParent = AccessControlLog & { user?: User; admin?: User };
+export type InvitationParent = Invitation & { invitedBy?: User };
+export type ApiKeyParent = ApiKey & { createdBy?: User };
+export type ImpersonationSessionParent = ImpersonationSession & { actor?: User; targetUser?: User };
+export type ApprovalDelegationParent = ApprovalDelegation & { manager?: User; delegate?: User };
+export type RoleParent = Role & { permissions?: RolePermission[]; _count?: { users: number } };
+
 /**
  * PERMISSION GUARD: Require Authentication
  * Throws error if user is not logged in (no JWT token)
- * Use this for any operation that requires login
+ * Use this for operations on the caller's own data (profile, messages, leave)
+ *
+ * API keys (service principals) are refused here - a key only gets in where the
+ * resolver checks a permission the key holds (authorize in utils/permissions.ts).
  */
 function requireAuth(ctx: Context) {
   if (!ctx.user) {
-    throw new Error('Not authenticated');
-  }
-}
-
-/**
- * PERMISSION GUARD: Require Director Role
- * Only the supreme admin (Director) can perform this action
- * Examples: Delete users, approve terminations, view all logs
- */
-function requireDirector(ctx: Context) {
-  requireAuth(ctx); // Must be logged in
-  if (ctx.user!.role !== 'director') {
-    throw new Error('Director only - highest level access required');
-  }
-}
-
-/**
- * PERMISSION GUARD: Require Manager or Director
- * Mid-level and high-level admins can perform this action
- * Examples: Send notes, create review requests, approve leaves
- */
-function requireManagerOrAbove(ctx: Context) {
-  requireAuth(ctx);
-  if (!['director', 'manager'].includes(ctx.user!.role)) {
-    throw new Error('Manager or Director access required');
+    throw new AuthenticationError();
   }
-}
-
-/**
- * PERMISSION GUARD: Require Admin (Director, Manager, or legacy Admin role)
- * Most administrative actions require this level
- * Examples: Add employees, view access logs, manage leave requests
- */
-function requireAdmin(ctx: Context) {
-  requireAuth(ctx);
-  if (!['director', 'manager', 'admin'].includes(ctx.user!.role)) {
-    throw new Error('Admin access required');
+  if (ctx.apiKey) {
+    throw new ForbiddenError('This operation is not available to API keys');
   }
 }
 
@@ -87,6 +169,14 @@ function getMessageVisibilityFilter(userId: number, role: string) {
   ];
 }
 
+// 'PENDING_DIRECTOR' -> 'pending director', for notifications and emails people read
+function enumLabel(value: string) {
+  return value.toLowerCase().replace(/_/g, ' ');
+}
+
+// Leave a team approver (manager) may grant alone - up to 5 days; the rest needs a director
+const TEAM_APPROVABLE_LEAVE_TYPES = ['ANNUAL', 'SICK'];
+
 function stringifyAuditDetails(details: Record<string, unknown>): string {
   try {
     return JSON.stringify(details);
@@ -95,6 +185,17 @@ function stringifyAuditDetails(details: Record<string, unknown>): string {
   }
 }
 
+/**
+ * user.invite at "all" manages every invitation; at "team" only the ones for your own team.
+ */
+async function findManageableInvitation(ctx: Context, id: number) {
+  const invitation = await ctx.prisma.invitation.findUnique({ where: { id } });
+  if (!invitation || !can(ctx, 'user.invite', { managerId: invitation.managerId })) {
+    throw new NotFoundError('Invitation not found');
+  }
+  return invitation;
+}
+
 async function findEmployeeByUser(ctx: Context, userId: number, email: string): Promise<Employee | null> {
   return ctx.prisma.employee.findFirst({
     where: {
@@ -103,27 +204,108 @@ async function findEmployeeByUser(ctx: Context, userId: number, email: string):
   });
 }
 
-async function getManagerTeamEmployeeIds(ctx: Context, managerUserId: number): Promise<number[]> {
-  const teamMembers = await ctx.prisma.employee.findMany({
-    where: { managerId: managerUserId },
-    select: { id: true },
-  });
+/**
+ * Row visibility of one employee record (employee.read): "all" sees everyone,
+ * "team" everyone below them, "own" themselves, their manager and teammates.
+ */
+async function assertEmployeeReadable(ctx: Context, employee: { id: number; userId: number | null; managerId: number | null }) {
+  const readScope = permissionScope(ctx, 'employee.read');
+  if (readScope === 'team' && !can(ctx, 'employee.read', employee)) {
+    throw new ForbiddenError('You can only access your team\'s employee records');
+  }
 
-  return teamMembers.map((member) => member.id);
+  if (readScope === 'own') {
+    const me = await findEmployeeByUser(ctx, ctx.user!.id, ctx.user!.email);
+    if (!me) {
+      if (employee.userId !== ctx.user!.id) {
+        throw new ForbiddenError('Employees can only access their own/team records');
+      }
+    } else {
+      const sameManager = me.managerId && employee.managerId === me.managerId;
+      const isManagerRecord = me.managerId && employee.userId === me.managerId;
+      if (employee.id !== me.id && !sameManager && !isManagerRecord) {
+        throw new ForbiddenError('Employees can only access their own/team records');
+      }
+    }
+  }
 }
 
-async function getManagerTeamUserIds(ctx: Context, managerUserId: number): Promise<number[]> {
-  const teamMembers = await ctx.prisma.employee.findMany({
-    where: {
-      managerId: managerUserId,
-      userId: { not: null },
+/**
+ * Moves a login to another role (user.changeRole, checked by the caller). setUserRole
+ * and updateEmployee both come through here so the director rules can't be skipped.
+ * Bumps tokenVersion: access tokens still carrying the old role stop working.
+ */
+async function changeUserRole(ctx: Context, target: User, role: string) {
+  if (target.id === ctx.user!.id) {
+    throw new ForbiddenError('You cannot change your own role');
+  }
+  if (target.role === role) {
+    return target;
+  }
+  if ((role === DIRECTOR_ROLE || target.role === DIRECTOR_ROLE) && !can(ctx, 'role.manage')) {
+    throw new ForbiddenError('Only someone who manages roles can make or unmake a director');
+  }
+  if (target.role === DIRECTOR_ROLE) {
+    const directors = await ctx.prisma.user.count({ where: { role: DIRECTOR_ROLE, isActive: true } });
+    if (directors <= 1) {
+      throw new ConflictError('There must always be at least one active director');
+    }
+  }
+
+  const updated = await ctx.prisma.user.update({
+    where: { id: target.id },
+    data: { role, tokenVersion: { increment: 1 } },
+  });
+  await ctx.prisma.accessLog.create({
+    data: {
+      userId: ctx.user!.id,
+      userEmail: ctx.user!.email,
+      action: 'CHANGE_USER_ROLE',
+      details: stringifyAuditDetails({
+        targetUserId: target.id,
+        targetEmail: target.email,
+        previousRole: target.role,
+        newRole: role,
+      }),
     },
-    select: { userId: true },
   });
+  return updated;
+}
+
+// Everyone below the caller in the reporting tree (index.ts loads it for "team" scopes)
+async function getReportingTeam(ctx: Context): Promise<ReportingTeam> {
+  if (!ctx.team) {
+    ctx.team = await loadReportingTeam(ctx.user!.id);
+  }
+  return ctx.team;
+}
+
+// One create per row rather than createMany, so each one is pushed to its recipient live (utils/realtime.ts)
+async function createNotifications(prisma: PrismaClient, rows: Prisma.NotificationCreateManyInput[]) {
+  return prisma.$transaction(rows.map((data) => prisma.notification.create({ data })));
+}
 
-  return teamMembers
-    .map((member) => member.userId)
-    .filter((userId): userId is number => typeof userId === 'number');
+// authorize() that also lets in someone covering for a manager who holds the permission
+function authorizeOrDelegated(ctx: Context, permission: string) {
+  if (!can(ctx, permission) && findDelegation(ctx, permission)) return;
+  authorize(ctx, permission);
+}
+
+// Delegation rows with what the GraphQL type adds: isActive and the handed-over permissions
+async function describeDelegations(delegations: (ApprovalDelegation & { manager: User; delegate: User })[]) {
+  const managersOnLeave = await findManagersOnLeave(
+    Array.from(new Set(delegations.map((delegation) => delegation.managerId))),
+  );
+  const described = [];
+  for (const delegation of delegations) {
+    const permissions = await delegablePermissions(delegation.manager.role);
+    described.push({
+      ...delegation,
+      isActive: delegation.manager.isActive !== false && isDelegationActive(delegation, managersOnLeave),
+      permissions: Object.keys(permissions),
+    });
+  }
+  return described;
 }
 
 function formatEmailLocalPartAsName(email: string): string {
@@ -165,29 +347,81 @@ function getSafeEmployeeName(name: string | null | undefined, email?: string | n
   return typeof id === 'number' ? `Employee ${id}` : 'Employee';
 }
 
+/**
+ * Field checks for EmployeeInput (add and update). Every problem comes back at once,
+ * as VALIDATION_FAILED field errors, so the form can mark all of them.
+ */
+function assertValidEmployeeInput(input: Record<string, any>) {
+  const has = (field: string) => Object.prototype.hasOwnProperty.call(input, field);
+  const errors: FieldError[] = [];
+  const requireText = (field: string, label: string) => {
+    if (has(field) && !String(input[field] ?? '').trim()) {
+      errors.push({ field, code: 'REQUIRED', message: `${label} is required` });
+    }
+  };
+
+  requireText('name', 'Name');
+  requireText('className', 'Class');
+  requireText('location', 'Location');
+  if (has('email') && input.email && !String(input.email).includes('@')) {
+    errors.push({ field: 'email', code: 'INVALID', message: 'Enter a valid email address' });
+  }
+  if (has('age') && (!Number.isInteger(input.age) || input.age < 18 || input.age > 100)) {
+    errors.push({ field: 'age', code: 'OUT_OF_RANGE', message: 'Age must be between 18 and 100' });
+  }
+  if (has('attendance') && (!Number.isInteger(input.attendance) || input.attendance < 0 || input.attendance > 100)) {
+    errors.push({ field: 'attendance', code: 'OUT_OF_RANGE', message: 'Attendance must be between 0 and 100' });
+  }
+  if (has('subjects') && !(input.subjects || []).some((subject: string) => subject.trim())) {
+    errors.push({ field: 'subjects', code: 'REQUIRED', message: 'Add at least one subject' });
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Please fix the highlighted fields', errors);
+  }
+}
+
+/**
+ * withFilter() for the Subscription resolvers. It hands back an AsyncIterator, which
+ * is all graphql-ws needs, while the generated types ask for an AsyncIterable.
+ */
+function subscribeWithFilter<TArgs = {}>(
+  subscribe: (parent: unknown, args: TArgs, ctx: Context) => AsyncIterator<unknown>,
+  filter: (payload: any, args: TArgs, ctx: Context) => boolean,
+) {
+  return withFilter(subscribe, filter) as unknown as SubscriptionSubscribeFn<any, {}, Context, TArgs>;
+}
+
 /**
  * RESOLVERS EXPORT
  * This object contains all our GraphQL resolvers organized by type
  */
-export const resolvers = {
+export const resolvers: Resolvers = {
   /**
    * THREAD TYPE RESOLVER
    * Adds computed fields to Thread objects
+   * messages: All messages, oldest first
    * lastMessage: Returns the most recent message in a thread (for preview)
+   * messageCount: How many messages the thread has
+   * All three are batched across the threads in a list (ctx.loaders)
    */
   Thread: {
-    lastMessage: async (parent: any) => {
+    messages: async (parent, _, ctx: Context) => {
       // If messages were already loaded (from include), use them
-      if (parent.messages && parent.messages.length > 0) {
-        return parent.messages[0]; // Already sorted desc, so first = latest
-      }
-      return null;
+      if (parent.messages) return parent.messages;
+      return ctx.loaders.threadMessages.load(parent.id);
     },
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    lastMessage: async (parent, _, ctx: Context) => {
+      return ctx.loaders.threadLastMessage.load(parent.id);
     },
-    updatedAt: (parent: any) => {
-      return parent.updatedAt ? parent.updatedAt.toISOString() : null;
+    messageCount: async (parent, _, ctx: Context) => {
+      return ctx.loaders.threadMessageCount.load(parent.id);
+    },
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+    updatedAt: (parent) => {
+      return parent.updatedAt.toISOString();
     },
   },
 
@@ -197,23 +431,25 @@ export const resolvers = {
    * employee: Returns the full employee object being reviewed
    */
   ReviewRequest: {
-    employee: async (parent: any, _: any, ctx: Context) => {
+    employee: async (parent, _, ctx: Context) => {
       // If employee was already loaded (from include), return it
       if (parent.employee) {
         return parent.employee;
       }
-      // Otherwise fetch it from database
-      return ctx.prisma.employee.findUnique({
-        where: { id: parent.employeeId },
-      });
+      // Otherwise fetch it (batched with the rest of the list)
+      const employee = await ctx.loaders.employee.load(parent.employeeId);
+      if (!employee) {
+        throw new NotFoundError('Employee not found');
+      }
+      return employee;
     },
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
     },
-    updatedAt: (parent: any) => {
-      return parent.updatedAt ? parent.updatedAt.toISOString() : null;
+    updatedAt: (parent) => {
+      return parent.updatedAt.toISOString();
     },
-    reviewedAt: (parent: any) => {
+    reviewedAt: (parent) => {
       return parent.reviewedAt ? parent.reviewedAt.toISOString() : null;
     },
   },
@@ -224,42 +460,44 @@ export const resolvers = {
    * createdAt, updatedAt, readAt: Properly serialize dates
    */
   Message: {
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
     },
-    updatedAt: (parent: any) => {
-      return parent.updatedAt ? parent.updatedAt.toISOString() : null;
+    updatedAt: (parent) => {
+      return parent.updatedAt.toISOString();
     },
-    readAt: (parent: any) => {
+    readAt: (parent) => {
       return parent.readAt ? parent.readAt.toISOString() : null;
     },
   },
 
   /**
    * EMPLOYEE TYPE RESOLVER
+   * Every field goes through the visibility rules (utils/fieldVisibility.ts) -
+   * fields the viewer may not see come back as null.
    * Converts DateTime fields to ISO strings for GraphQL
    */
-  Employee: {
-    createdAt: (parent: any) => {
+  Employee: restrictEmployeeFields(typeFieldNames(typeDefs, 'Employee'), {
+    createdAt: (parent) => {
       return parent.createdAt ? parent.createdAt.toISOString() : null;
     },
-    updatedAt: (parent: any) => {
+    updatedAt: (parent) => {
       return parent.updatedAt ? parent.updatedAt.toISOString() : null;
     },
-  },
+  }),
 
   /**
    * NOTIFICATION TYPE RESOLVER
    * Converts DateTime fields to ISO strings for GraphQL
    */
   Notification: {
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
     },
-    updatedAt: (parent: any) => {
-      return parent.updatedAt ? parent.updatedAt.toISOString() : null;
+    updatedAt: (parent) => {
+      return parent.updatedAt.toISOString();
     },
-    readAt: (parent: any) => {
+    readAt: (parent) => {
       return parent.readAt ? parent.readAt.toISOString() : null;
     },
   },
@@ -269,8 +507,8 @@ export const resolvers = {
    * Converts DateTime fields to ISO strings for GraphQL
    */
   Note: {
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
     },
   },
 
@@ -279,21 +517,28 @@ export const resolvers = {
    * Converts DateTime fields to ISO strings for GraphQL
    */
   ThreadMessage: {
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
     },
   },
 
   /**
    * LEAVE REQUEST TYPE RESOLVER
+   * employeeName: the requester's name (batched across the list)
    * Converts DateTime fields to ISO strings for GraphQL
    */
   LeaveRequest: {
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    employeeName: async (parent, _, ctx: Context) => {
+      if (parent.employeeName !== undefined) return parent.employeeName;
+      if (parent.employee) return parent.employee.name;
+      const employee = await ctx.loaders.employee.load(parent.employeeId);
+      return employee?.name ?? null;
     },
-    updatedAt: (parent: any) => {
-      return parent.updatedAt ? parent.updatedAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+    updatedAt: (parent) => {
+      return parent.updatedAt.toISOString();
     },
   },
 
@@ -302,8 +547,163 @@ export const resolvers = {
    * Converts DateTime fields to ISO strings for GraphQL
    */
   AccessLog: {
-    createdAt: (parent: any) => {
-      return parent.createdAt ? parent.createdAt.toISOString() : null;
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+  },
+
+  /**
+   * ACCESS CONTROL LOG TYPE RESOLVER
+   * user/admin: who was blocked or unblocked, and by whom (batched across the list)
+   */
+  AccessControlLog: {
+    user: async (parent, _, ctx: Context) => {
+      const user = parent.user ?? (await ctx.loaders.user.load(parent.userId));
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+      return user;
+    },
+    admin: async (parent, _, ctx: Context) => {
+      const admin = parent.admin ?? (await ctx.loaders.user.load(parent.adminId));
+      if (!admin) {
+        throw new NotFoundError('User not found');
+      }
+      return admin;
+    },
+  },
+
+  /**
+   * SESSION TYPE RESOLVER
+   * current: true for the session that issued the caller's own access token
+   */
+  Session: {
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+    lastUsedAt: (parent) => {
+      return parent.lastUsedAt.toISOString();
+    },
+    current: (parent, _, ctx: Context) => {
+      return Boolean(ctx.sessionId) && parent.id === ctx.sessionId;
+    },
+  },
+
+  /**
+   * INVITATION TYPE RESOLVER
+   * status is derived from the timestamps so an invitation "expires" without a job
+   */
+  Invitation: {
+    status: (parent) => getInvitationStatus(parent),
+    invitedByEmail: async (parent, _, ctx: Context) => {
+      if (parent.invitedBy) return parent.invitedBy.email;
+      const inviter = await ctx.loaders.user.load(parent.invitedById);
+      return inviter?.email ?? null;
+    },
+    expiresAt: (parent) => {
+      return parent.expiresAt.toISOString();
+    },
+    acceptedAt: (parent) => {
+      return parent.acceptedAt ? parent.acceptedAt.toISOString() : null;
+    },
+    revokedAt: (parent) => {
+      return parent.revokedAt ? parent.revokedAt.toISOString() : null;
+    },
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+  },
+
+  /**
+   * API KEY TYPE RESOLVER
+   * Like invitations, status comes from the timestamps
+   */
+  ApiKey: {
+    status: (parent) => getApiKeyStatus(parent),
+    createdByEmail: async (parent, _, ctx: Context) => {
+      if (parent.createdBy) return parent.createdBy.email;
+      const creator = await ctx.loaders.user.load(parent.createdById);
+      return creator?.email ?? null;
+    },
+    expiresAt: (parent) => {
+      return parent.expiresAt ? parent.expiresAt.toISOString() : null;
+    },
+    lastUsedAt: (parent) => {
+      return parent.lastUsedAt ? parent.lastUsedAt.toISOString() : null;
+    },
+    revokedAt: (parent) => {
+      return parent.revokedAt ? parent.revokedAt.toISOString() : null;
+    },
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+  },
+
+  /**
+   * IMPERSONATION SESSION TYPE RESOLVER
+   */
+  ImpersonationSession: {
+    actorEmail: async (parent, _, ctx: Context) => {
+      if (parent.actor) return parent.actor.email;
+      const actor = await ctx.loaders.user.load(parent.actorId);
+      return actor?.email ?? null;
+    },
+    targetEmail: async (parent, _, ctx: Context) => {
+      if (parent.targetUser) return parent.targetUser.email;
+      const target = await ctx.loaders.user.load(parent.targetUserId);
+      return target?.email ?? null;
+    },
+    expiresAt: (parent) => {
+      return parent.expiresAt.toISOString();
+    },
+    endedAt: (parent) => {
+      return parent.endedAt ? parent.endedAt.toISOString() : null;
+    },
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+  },
+
+  /**
+   * APPROVAL DELEGATION TYPE RESOLVER
+   * Loaded with manager and delegate; isActive/permissions come from describeDelegations
+   */
+  ApprovalDelegation: {
+    managerEmail: (parent) => parent.manager?.email ?? null,
+    delegateEmail: (parent) => parent.delegate?.email ?? null,
+    whileOnLeave: (parent) => !parent.startDate || !parent.endDate,
+    startDate: (parent) => {
+      return parent.startDate ? parent.startDate.toISOString() : null;
+    },
+    endDate: (parent) => {
+      return parent.endDate ? parent.endDate.toISOString() : null;
+    },
+    revokedAt: (parent) => {
+      return parent.revokedAt ? parent.revokedAt.toISOString() : null;
+    },
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+  },
+
+  /**
+   * ROLE TYPE RESOLVER
+   * permissions: the role's grants as { permission, scope }
+   */
+  Role: {
+    permissions: async (parent, _, ctx: Context) => {
+      const grants = parent.permissions ?? (await ctx.loaders.rolePermissions.load(parent.id));
+      return grants.map((grant) => ({ permission: grant.permissionKey, scope: grant.scope }));
+    },
+    userCount: async (parent, _, ctx: Context) => {
+      if (parent._count) return parent._count.users;
+      return ctx.loaders.roleUserCount.load(parent.key);
+    },
+    createdAt: (parent) => {
+      return parent.createdAt.toISOString();
+    },
+    updatedAt: (parent) => {
+      return parent.updatedAt.toISOString();
     },
   },
 
@@ -328,10 +728,26 @@ export const resolvers = {
      *
      * Returns: { items: [], total, page, pageSize }
      */
-    employees: async (_: any, args: any, ctx: Context) => {
-      requireAuth(ctx); // Must be logged in to view employees
+    employees: async (_, args, ctx: Context) => {
+      authorize(ctx, 'employee.read'); // Must be logged in (or a key) and allowed to view employees
       const { prisma, user } = ctx;
-      const { filter, page = 1, pageSize = 10, sortBy = 'CREATED_AT', sortOrder = 'DESC' } = args;
+      const readScope = permissionScope(ctx, 'employee.read');
+      const { filter, first, after, sortBy = 'CREATED_AT', sortOrder = 'DESC' } = args;
+
+      // Filtering or sorting by a hidden field would reveal it
+      const queriedFields = [
+        filter?.className && 'className',
+        filter?.status && 'status',
+        filter?.emailContains && 'email',
+        (filter?.attendanceMin != null || filter?.attendanceMax != null) && 'attendance',
+        sortBy === 'AGE' && 'age',
+        sortBy === 'ATTENDANCE' && 'attendance',
+      ].filter(Boolean) as string[];
+      for (const field of queriedFields) {
+        if (!canFilterEmployeeField(ctx, field)) {
+          throw new ForbiddenError(`Not allowed to filter or sort employees by ${field}`);
+        }
+      }
 
       const where: any = {};
       if (filter?.nameContains) {
@@ -343,35 +759,38 @@ export const resolvers = {
       if (filter?.status) {
         where.status = filter.status;
       }
+      if (filter?.role) {
+        where.role = { equals: filter.role };
+      }
       if (filter?.roleNot) {
-        where.role = { not: filter.roleNot };
+        where.role = { ...where.role, not: filter.roleNot };
       }
       if (filter?.emailContains) {
         where.email = { contains: filter.emailContains, mode: 'insensitive' };
       }
-      if (filter?.role) {
-        where.role = filter.role;
-      }
       if (filter?.location) {
         where.location = { contains: filter.location, mode: 'insensitive' };
       }
-      if (filter?.attendanceMin !== undefined) {
+      if (filter?.attendanceMin != null) {
         where.attendance = { gte: filter.attendanceMin };
       }
-      if (filter?.attendanceMax !== undefined) {
-        where.attendance = { lte: filter.attendanceMax };
+      if (filter?.attendanceMax != null) {
+        where.attendance = { ...where.attendance, lte: filter.attendanceMax };
+      }
+      if (typeof filter?.hasLogin === 'boolean') {
+        where.userId = filter.hasLogin ? { not: null } : null;
       }
 
-      // Enforce role-scoped employee visibility.
-      if (user!.role === 'manager') {
-        const teamEmployeeIds = await getManagerTeamEmployeeIds(ctx, user!.id);
+      // Enforce scoped employee visibility: team = my reports and me, own = me, my manager and teammates.
+      if (readScope === 'team') {
+        const { employeeIds: teamEmployeeIds } = await getReportingTeam(ctx);
         where.AND = [
           ...(where.AND || []),
           {
             OR: [{ id: { in: teamEmployeeIds.length > 0 ? teamEmployeeIds : [-1] } }, { userId: user!.id }],
           },
         ];
-      } else if (user!.role === 'employee') {
+      } else if (readScope === 'own') {
         const myEmployee = await findEmployeeByUser(ctx, user!.id, user!.email);
         if (!myEmployee) {
           where.AND = [...(where.AND || []), { userId: user!.id }];
@@ -385,78 +804,117 @@ export const resolvers = {
         }
       }
 
-      const orderBy: any = {};
-      if (sortBy === 'NAME') orderBy.name = sortOrder.toLowerCase();
-      else if (sortBy === 'AGE') orderBy.age = sortOrder.toLowerCase();
-      else if (sortBy === 'ATTENDANCE') orderBy.attendance = sortOrder.toLowerCase();
-      else orderBy.createdAt = sortOrder.toLowerCase();
+      let sortField: keyof Employee = 'createdAt';
+      if (sortBy === 'NAME') sortField = 'name';
+      else if (sortBy === 'AGE') sortField = 'age';
+      else if (sortBy === 'ATTENDANCE') sortField = 'attendance';
 
-      const [items, total] = await Promise.all([
-        prisma.employee.findMany({
-          where,
-          orderBy,
-          skip: (page - 1) * pageSize,
-          take: pageSize,
+      return paginate(prisma.employee, { first, after }, {
+        where,
+        sortField,
+        direction: sortOrder === 'ASC' ? 'asc' : 'desc',
+        toNode: (employee) => ({
+          ...employee,
+          name: getSafeEmployeeName(employee.name, employee.email, employee.id),
         }),
-        prisma.employee.count({ where }),
-      ]);
+      });
+    },
 
-      const normalizedItems = items.map((employee) => ({
-        ...employee,
-        name: getSafeEmployeeName(employee.name, employee.email, employee.id),
-      }));
+    employee: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'employee.read');
+      const employee = await ctx.prisma.employee.findUnique({ where: { id } });
+      if (!employee) {
+        return null;
+      }
 
+      await assertEmployeeReadable(ctx, employee);
       return {
-        items: normalizedItems,
-        total,
-        page,
-        pageSize,
+        ...employee,
+        name: getSafeEmployeeName(employee.name, employee.email, employee.id),
       };
     },
 
-    employee: async (_: any, { id }: any, ctx: Context) => {
-      requireAuth(ctx);
-      const employee = await ctx.prisma.employee.findUnique({ where: { id } });
+    // Managers above an employee, nearest first
+    reportingChain: async (_, { employeeId }, ctx: Context) => {
+      authorize(ctx, 'employee.read');
+      const employee = await ctx.prisma.employee.findUnique({ where: { id: employeeId } });
       if (!employee) {
-        return null;
+        throw new NotFoundError('Employee not found');
+      }
+      await assertEmployeeReadable(ctx, employee);
+
+      const chain = await findReportingChain(employee);
+      return chain.map(({ level, user, employee: managerEmployee }) => ({
+        level,
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        employee: managerEmployee
+          ? { ...managerEmployee, name: getSafeEmployeeName(managerEmployee.name, managerEmployee.email, managerEmployee.id) }
+          : null,
+      }));
+    },
+
+    // Everyone below a manager (by User id), optionally only `depth` levels down
+    subordinates: async (_, { userId, depth }, ctx: Context) => {
+      authorize(ctx, 'employee.read');
+      if (depth != null && (!Number.isInteger(depth) || depth < 1 || depth > MAX_HIERARCHY_DEPTH)) {
+        throw ValidationError.forField('depth', `Depth must be between 1 and ${MAX_HIERARCHY_DEPTH}`, 'OUT_OF_RANGE');
       }
 
-      if (ctx.user!.role === 'manager') {
-        const isSelf = employee.userId === ctx.user!.id;
-        const isTeamMember = employee.managerId === ctx.user!.id;
-        if (!isSelf && !isTeamMember) {
-          throw new Error('Managers can only access team employee records');
-        }
+      const subordinates = (await findSubordinates(userId, depth ?? MAX_HIERARCHY_DEPTH)).map(({ level, employee }) => ({
+        level,
+        employee: { ...employee, name: getSafeEmployeeName(employee.name, employee.email, employee.id) },
+      }));
+      if (permissionScope(ctx, 'employee.read') === 'all') {
+        return subordinates;
       }
+      // Only the part of that subtree the caller could see anyway
+      return subordinates.filter(({ employee }) => can(ctx, 'employee.read', employee));
+    },
 
-      if (ctx.user!.role === 'employee') {
-        const me = await findEmployeeByUser(ctx, ctx.user!.id, ctx.user!.email);
-        if (!me) {
-          if (employee.userId !== ctx.user!.id) {
-            throw new Error('Employees can only access their own/team records');
-          }
-        } else {
-          const sameManager = me.managerId && employee.managerId === me.managerId;
-          const isManagerRecord = me.managerId && employee.userId === me.managerId;
-          if (employee.id !== me.id && !sameManager && !isManagerRecord) {
-            throw new Error('Employees can only access their own/team records');
-          }
+    /**
+     * ORG CHART
+     * Flat list of nodes (parentId links them up) below rootUserId, or the whole
+     * company. Team readers get their own subtree - root defaults to themselves.
+     */
+    orgChart: async (_, { rootUserId }, ctx: Context) => {
+      authorize(ctx, 'employee.read');
+      const readScope = permissionScope(ctx, 'employee.read');
+      if (readScope === 'own') {
+        throw new ForbiddenError('Not allowed - the org chart needs employee.read for your team or everyone');
+      }
+
+      let root: number | null = rootUserId ?? null;
+      if (readScope === 'team') {
+        root = root ?? ctx.user!.id;
+        const team = await getReportingTeam(ctx);
+        if (root !== ctx.user!.id && !team.userIds.has(root)) {
+          throw new ForbiddenError('You can only view the org chart of your own team');
         }
       }
 
-      return {
-        ...employee,
-        name: getSafeEmployeeName(employee.name, employee.email, employee.id),
-      };
+      const nodes = await buildOrgChart(root);
+      if (!nodes) {
+        throw new NotFoundError('User not found');
+      }
+      const visible =
+        readScope === 'all'
+          ? nodes
+          : nodes.filter((node) => node.parentId === null || can(ctx, 'employee.read', node));
+      return visible.map((node) => ({
+        ...node,
+        name: getSafeEmployeeName(node.name, node.email, node.employeeId ?? undefined),
+      }));
     },
 
-    myProfile: async (_: any, __: any, ctx: Context) => {
+    myProfile: async (_, __, ctx: Context) => {
       requireAuth(ctx);
 
       const user = await ctx.prisma.user.findUnique({
         where: { id: ctx.user!.id },
       });
-      if (!user) throw new Error('User not found');
+      if (!user) throw new NotFoundError('User not found');
 
       // Find or create employee record
       let employee = await ctx.prisma.employee.findFirst({
@@ -477,7 +935,7 @@ export const resolvers = {
             subjects: [],
             attendance: 100,
             role: user.role,
-            status: 'active',
+            status: 'ACTIVE',
             location: 'N/A',
             lastLogin: new Date().toISOString(),
           },
@@ -487,13 +945,13 @@ export const resolvers = {
       return employee;
     },
 
-    notes: async (_: any, { employeeId }: any, ctx: Context) => {
-      requireAdmin(ctx);
+    notes: async (_, { employeeId }, ctx: Context) => {
+      authorize(ctx, 'note.read');
       const where: any = employeeId ? { toEmployeeId: employeeId } : {};
       return ctx.prisma.note.findMany({ where, orderBy: { createdAt: 'desc' } });
     },
 
-    myNotes: async (_: any, __: any, ctx: Context) => {
+    myNotes: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       // Get current user email
       const user = await ctx.prisma.user.findUnique({
@@ -517,27 +975,32 @@ export const resolvers = {
       });
     },
 
-    leaveRequests: async (_: any, { status }: any, ctx: Context) => {
-      requireAdmin(ctx);
+    leaveRequests: async (_, { status }, ctx: Context) => {
+      authorizeOrDelegated(ctx, 'leave.read');
       const where: any = status ? { status } : {};
 
-      if (ctx.user!.role === 'manager') {
-        const teamEmployeeIds = await getManagerTeamEmployeeIds(ctx, ctx.user!.id);
-        where.employeeId = { in: teamEmployeeIds.length > 0 ? teamEmployeeIds : [-1] };
+      // Own team plus the teams of managers the caller is covering for
+      const delegated = (ctx.delegations || []).filter((delegation) => delegation.permissions['leave.read']);
+      const readScope = permissionScope(ctx, 'leave.read');
+      if (readScope !== 'all' && !delegated.some((delegation) => delegation.permissions['leave.read'] === 'all')) {
+        const visibleEmployeeIds = new Set<number>();
+        if (readScope === 'team') {
+          (await getReportingTeam(ctx)).employeeIds.forEach((employeeId) => visibleEmployeeIds.add(employeeId));
+        }
+        for (const delegation of delegated) {
+          delegation.team?.employeeIds.forEach((employeeId) => visibleEmployeeIds.add(employeeId));
+        }
+        where.employeeId = { in: visibleEmployeeIds.size > 0 ? Array.from(visibleEmployeeIds) : [-1] };
       }
 
-      const requests = await ctx.prisma.leaveRequest.findMany({
+      // employeeName comes from the LeaveRequest type resolver
+      return ctx.prisma.leaveRequest.findMany({
         where,
         orderBy: { createdAt: 'desc' },
-        include: { employee: true },
       });
-      return requests.map((r: any) => ({
-        ...r,
-        employeeName: r.employee.name,
-      }));
     },
 
-    myLeaveRequests: async (_: any, __: any, ctx: Context) => {
+    myLeaveRequests: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       // Get current user email
       const user = await ctx.prisma.user.findUnique({
@@ -559,29 +1022,49 @@ export const resolvers = {
       });
     },
 
-    accessLogs: async (_: any, { page = 1, pageSize = 50 }: any, ctx: Context) => {
-      requireAdmin(ctx);
-      return ctx.prisma.accessLog.findMany({
+    /**
+     * APPROVAL DELEGATIONS
+     * Both lists include revoked and past delegations - isActive says which apply today.
+     */
+    myDelegations: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      const delegations = await ctx.prisma.approvalDelegation.findMany({
+        where: { managerId: ctx.user!.id },
+        include: { manager: true, delegate: true },
+        orderBy: { createdAt: 'desc' },
+      });
+      return describeDelegations(delegations);
+    },
+
+    delegationsToMe: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      const delegations = await ctx.prisma.approvalDelegation.findMany({
+        where: { delegateId: ctx.user!.id },
+        include: { manager: true, delegate: true },
         orderBy: { createdAt: 'desc' },
-        skip: (page - 1) * pageSize,
-        take: pageSize,
       });
+      return describeDelegations(delegations);
     },
 
-    adminUsers: async (_: any, __: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
-      // Directors see all users, Managers see only managers and employees
+    accessLogs: async (_, { first, after }, ctx: Context) => {
+      authorize(ctx, 'audit.read');
+      return paginate(ctx.prisma.accessLog, { first, after });
+    },
+
+    adminUsers: async (_, __, ctx: Context) => {
+      authorize(ctx, 'user.read');
+      // "all" sees everyone including directors; "team" sees everyone but directors
       const where: any =
-        ctx.user!.role === 'manager' ? { role: { in: ['manager', 'employee'] } } : {}; // Directors see everyone including other directors
+        permissionScope(ctx, 'user.read') === 'team' ? { role: { not: DIRECTOR_ROLE } } : {};
       return ctx.prisma.user.findMany({
         where,
         orderBy: { createdAt: 'desc' },
       });
     },
 
-    allUsers: async (_: any, { searchTerm, roleFilter, statusFilter }: any, ctx: Context) => {
+    allUsers: async (_, { searchTerm, roleFilter, statusFilter }, ctx: Context) => {
       requireAuth(ctx);
-      const requesterRole = ctx.user!.role;
+      const readScope = permissionScope(ctx, 'user.read');
       const where: any = {};
 
       if (searchTerm) {
@@ -601,33 +1084,32 @@ export const resolvers = {
         where.role = roleFilter;
       };
 
-      if (requesterRole === 'director') {
+      if (readScope === 'all') {
         applyRequestedRoleFilter();
-      } else if (requesterRole === 'manager') {
-        const teamUserIds = await getManagerTeamUserIds(ctx, ctx.user!.id);
-        const visibleUserIds = [ctx.user!.id, ...teamUserIds];
+      } else if (readScope === 'team') {
+        // Directors, me and everyone below me
+        const team = await getReportingTeam(ctx);
+        const visibleUserIds = [ctx.user!.id, ...team.userIds];
 
         if (roleFilter && roleFilter !== 'all') {
-          if (roleFilter === 'director') {
-            where.role = 'director';
-          } else if (roleFilter === 'employee') {
-            where.role = 'employee';
-            where.id = { in: teamUserIds.length > 0 ? teamUserIds : [-1] };
-          } else if (roleFilter === 'manager') {
-            where.role = 'manager';
-            where.id = ctx.user!.id;
-          } else {
-            return [];
+          where.role = roleFilter;
+          if (roleFilter !== DIRECTOR_ROLE) {
+            where.id = { in: visibleUserIds };
           }
         } else {
-          where.OR = [{ role: 'director' }, { id: { in: visibleUserIds } }];
+          where.OR = [{ role: DIRECTOR_ROLE }, { id: { in: visibleUserIds } }];
         }
       } else {
-        // Employees can only load managers for messaging.
-        if (roleFilter && roleFilter !== 'all' && roleFilter !== 'manager') {
+        // Without user.read you can only load managers (roles with team.manage) for messaging.
+        const managerRoles = await ctx.prisma.role.findMany({
+          where: { key: { not: DIRECTOR_ROLE }, permissions: { some: { permissionKey: 'team.manage' } } },
+          select: { key: true },
+        });
+        const managerRoleKeys = managerRoles.map((role: { key: string }) => role.key);
+        if (roleFilter && roleFilter !== 'all' && !managerRoleKeys.includes(roleFilter)) {
           return [];
         }
-        where.role = 'manager';
+        where.role = roleFilter && roleFilter !== 'all' ? roleFilter : { in: managerRoleKeys };
       }
 
       return ctx.prisma.user.findMany({
@@ -636,31 +1118,90 @@ export const resolvers = {
       });
     },
 
-    me: async (_: any, __: any, ctx: Context) => {
+    me: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       return ctx.prisma.user.findUnique({ where: { id: ctx.user!.id } });
     },
 
+    // Devices/browsers currently logged in as me
+    mySessions: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      return listActiveSessions(ctx.user!.id);
+    },
+
+    // user.sessions: devices/browsers currently logged in as any user
+    userSessions: async (_, { userId }, ctx: Context) => {
+      authorize(ctx, 'user.sessions');
+      return listActiveSessions(userId);
+    },
+
+    // Invitations I can manage: all of them with user.invite at "all", my team's at "team"
+    invitations: async (_, { status }, ctx: Context) => {
+      authorize(ctx, 'user.invite');
+      const invitations = await ctx.prisma.invitation.findMany({
+        where: permissionScope(ctx, 'user.invite') === 'all' ? {} : { managerId: ctx.user!.id },
+        include: { invitedBy: true },
+        orderBy: { createdAt: 'desc' },
+      });
+      return status
+        ? invitations.filter((invitation) => getInvitationStatus(invitation) === status)
+        : invitations;
+    },
+
+    // Every API key, newest first (revoked ones stay listed for the record)
+    apiKeys: async (_, __, ctx: Context) => {
+      authorize(ctx, 'apiKey.manage');
+      return ctx.prisma.apiKey.findMany({
+        include: { createdBy: true },
+        orderBy: { createdAt: 'desc' },
+      });
+    },
+
+    apiKeyScopes: async (_, __, ctx: Context) => {
+      authorize(ctx, 'apiKey.manage');
+      return [...API_KEY_SCOPES];
+    },
+
+    // Every role with its grants - for the Roles page and anywhere a role is picked
+    roles: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      if (!can(ctx, 'role.manage') && !can(ctx, 'user.changeRole') && !can(ctx, 'user.invite')) {
+        throw new ForbiddenError('Not allowed - requires the role.manage permission');
+      }
+      return ctx.prisma.role.findMany({
+        include: { permissions: true, _count: { select: { users: true } } },
+        orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+      });
+    },
+
+    // The permission catalog (utils/permissions.ts)
+    permissions: async (_, __, ctx: Context) => {
+      authorize(ctx, 'role.manage');
+      return PERMISSIONS;
+    },
+
+    myPermissions: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      return Object.entries(ctx.permissions).map(([permission, scope]) => ({ permission, scope }));
+    },
+
     // New: Access Control Logs query
-    accessControlLogs: async (_: any, { userId, limit = 50 }: any, ctx: Context) => {
-      requireDirector(ctx);
+    accessControlLogs: async (_, { userId, limit = 50 }, ctx: Context) => {
+      authorize(ctx, 'user.manageAccess');
 
       const where = userId ? { userId } : {};
 
+      // user/admin come from the AccessControlLog type resolver
       return ctx.prisma.accessControlLog.findMany({
         where,
-        include: {
-          user: true,
-          admin: true,
-        },
         orderBy: { createdAt: 'desc' },
         take: limit,
       });
     },
 
     // New: Dashboard Statistics
-    dashboardStats: async (_: any, __: any, ctx: Context) => {
-      requireDirector(ctx);
+    dashboardStats: async (_, __, ctx: Context) => {
+      authorize(ctx, 'dashboard.view');
 
       const totalUsers = await ctx.prisma.user.count();
       const activeUsers = await ctx.prisma.user.count({ where: { isActive: true } });
@@ -671,10 +1212,6 @@ export const resolvers = {
       const employees = await ctx.prisma.user.count({ where: { role: 'employee' } });
 
       const recentActions = await ctx.prisma.accessControlLog.findMany({
-        include: {
-          user: true,
-          admin: true,
-        },
         orderBy: { createdAt: 'desc' },
         take: 10,
       });
@@ -704,8 +1241,8 @@ export const resolvers = {
     },
 
     // New: User Statistics over time
-    userStatistics: async (_: any, { days = 7 }: any, ctx: Context) => {
-      requireDirector(ctx);
+    userStatistics: async (_, { days = 7 }, ctx: Context) => {
+      authorize(ctx, 'dashboard.view');
 
       return ctx.prisma.userStatistics.findMany({
         orderBy: { date: 'desc' },
@@ -714,7 +1251,7 @@ export const resolvers = {
     },
 
     // Messaging System
-    messages: async (_: any, { conversationId }: any, ctx: Context) => {
+    messages: async (_, { conversationId }, ctx: Context) => {
       requireAuth(ctx);
       const { prisma, user } = ctx;
       const visibilityFilter = getMessageVisibilityFilter(user!.id, user!.role);
@@ -738,20 +1275,18 @@ export const resolvers = {
       });
     },
 
-    myMessages: async (_: any, __: any, ctx: Context) => {
+    myMessages: async (_, { first, after }, ctx: Context) => {
       requireAuth(ctx);
       const { prisma, user } = ctx;
 
-      return prisma.message.findMany({
+      return paginate(prisma.message, { first, after }, {
         where: {
           OR: getMessageVisibilityFilter(user!.id, user!.role),
         },
-        orderBy: { createdAt: 'desc' },
-        take: 100,
       });
     },
 
-    myConversations: async (_: any, __: any, ctx: Context) => {
+    myConversations: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       const { prisma, user } = ctx;
 
@@ -803,7 +1338,7 @@ export const resolvers = {
       return Array.from(conversationMap.values());
     },
 
-    messageStats: async (_: any, __: any, ctx: Context) => {
+    messageStats: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       const { prisma, user } = ctx;
 
@@ -841,23 +1376,19 @@ export const resolvers = {
     },
 
     // Notifications
-    notifications: async (_: any, { type, isRead }: any, ctx: Context) => {
+    notifications: async (_, { type, isRead, first, after }, ctx: Context) => {
       requireAuth(ctx);
-      const where: any = { userId: ctx.user!.id };
+      const where: Prisma.NotificationWhereInput = { userId: ctx.user!.id };
       if (type) {
-        where.type = { equals: String(type), mode: 'insensitive' };
+        where.type = type;
       }
       if (typeof isRead === 'boolean') {
         where.isRead = isRead;
       }
-      return ctx.prisma.notification.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        take: 100,
-      });
+      return paginate(ctx.prisma.notification, { first, after }, { where });
     },
 
-    unreadNotifications: async (_: any, __: any, ctx: Context) => {
+    unreadNotifications: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       return ctx.prisma.notification.findMany({
         where: {
@@ -868,7 +1399,7 @@ export const resolvers = {
       });
     },
 
-    notificationCount: async (_: any, __: any, ctx: Context) => {
+    notificationCount: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       return ctx.prisma.notification.count({
         where: {
@@ -879,20 +1410,14 @@ export const resolvers = {
     },
 
     // Thread queries
-    threads: async (_: any, __: any, ctx: Context) => {
-      requireDirector(ctx);
+    threads: async (_, __, ctx: Context) => {
+      authorize(ctx, 'message.moderate');
       return ctx.prisma.thread.findMany({
         orderBy: { updatedAt: 'desc' },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'desc' },
-            take: 1,
-          },
-        },
       });
     },
 
-    thread: async (_: any, { id }: any, ctx: Context) => {
+    thread: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
       const thread = await ctx.prisma.thread.findUnique({
         where: { id },
@@ -904,47 +1429,46 @@ export const resolvers = {
       });
 
       // Check if user is participant
-      if (thread && !thread.participants.includes(ctx.user!.id) && ctx.user!.role !== 'director') {
-        throw new Error('Access denied to this thread');
+      if (thread && !thread.participants.includes(ctx.user!.id) && !can(ctx, 'message.moderate')) {
+        throw new ForbiddenError('Access denied to this thread');
       }
 
       return thread;
     },
 
-    myThreads: async (_: any, __: any, ctx: Context) => {
+    myThreads: async (_, { first, after }, ctx: Context) => {
       requireAuth(ctx);
-      const threads = await ctx.prisma.thread.findMany({
-        orderBy: { updatedAt: 'desc' },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'desc' },
-            take: 1,
-          },
-        },
-      });
-
-      // Filter threads where user is participant or user is director
-      return threads.filter(
-        (t) => t.participants.includes(ctx.user!.id) || ctx.user!.role === 'director',
-      );
+      // Threads where user is participant (moderators see all)
+      const where = can(ctx, 'message.moderate') ? {} : { participants: { has: ctx.user!.id } };
+      return paginate(ctx.prisma.thread, { first, after }, { where, sortField: 'updatedAt' });
     },
 
     // Review request queries
-    reviewRequests: async (_: any, { status }: any, ctx: Context) => {
-      requireDirector(ctx);
+    reviewRequests: async (_, { status, first, after }, ctx: Context) => {
+      authorizeOrDelegated(ctx, 'review.decide');
       const where: any = {};
       if (status) {
         where.status = status;
       }
 
-      return ctx.prisma.reviewRequest.findMany({
-        where,
-        orderBy: { createdAt: 'desc' },
-        include: { employee: true },
-      });
+      // Own team plus the teams of managers the caller is covering for
+      const delegated = (ctx.delegations || []).filter((delegation) => delegation.permissions['review.decide']);
+      const decideScope = permissionScope(ctx, 'review.decide');
+      if (decideScope !== 'all' && !delegated.some((delegation) => delegation.permissions['review.decide'] === 'all')) {
+        const visibleEmployeeIds = new Set<number>();
+        if (decideScope === 'team') {
+          (await getReportingTeam(ctx)).employeeIds.forEach((employeeId) => visibleEmployeeIds.add(employeeId));
+        }
+        for (const delegation of delegated) {
+          delegation.team?.employeeIds.forEach((employeeId) => visibleEmployeeIds.add(employeeId));
+        }
+        where.employeeId = { in: visibleEmployeeIds.size > 0 ? Array.from(visibleEmployeeIds) : [-1] };
+      }
+
+      return paginate(ctx.prisma.reviewRequest, { first, after }, { where, include: { employee: true } });
     },
 
-    reviewRequest: async (_: any, { id }: any, ctx: Context) => {
+    reviewRequest: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
       const request = await ctx.prisma.reviewRequest.findUnique({
         where: { id },
@@ -956,12 +1480,13 @@ export const resolvers = {
       }
 
       // Check permissions
-      const isDirector = ctx.user!.role === 'director';
+      const resource = { userId: request.employee.userId, managerId: request.employee.managerId };
+      const canDecide = can(ctx, 'review.decide', resource) || findDelegation(ctx, 'review.decide', resource) !== null;
       const isRequestManager = request.requestedByManagerId === ctx.user!.id;
       const isEmployee = request.employee.userId === ctx.user!.id;
 
-      if (!isDirector && !isRequestManager && !isEmployee) {
-        throw new Error('Access denied to this review request');
+      if (!canDecide && !isRequestManager && !isEmployee) {
+        throw new ForbiddenError('Access denied to this review request');
       }
 
       // Filter what employee sees
@@ -972,8 +1497,8 @@ export const resolvers = {
       return request;
     },
 
-    myReviewRequests: async (_: any, __: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
+    myReviewRequests: async (_, __, ctx: Context) => {
+      authorizeOrDelegated(ctx, 'review.create');
       return ctx.prisma.reviewRequest.findMany({
         where: { requestedByManagerId: ctx.user!.id },
         orderBy: { createdAt: 'desc' },
@@ -982,137 +1507,704 @@ export const resolvers = {
     },
 
     // Performance & Attendance Analytics
-    employeePerformanceStats: async (_: any, { employeeId }: any, ctx: Context) => {
-      requireAdmin(ctx);
+    employeePerformanceStats: async (_, { employeeId }, ctx: Context) => {
+      authorize(ctx, 'employee.stats');
       const employee = await ctx.prisma.employee.findUnique({ where: { id: employeeId } });
-      if (!employee) throw new Error('Employee not found');
-      // Example: Calculate average attendance, review requests, notes, etc.
-      const attendance = employee.attendance;
+      if (!employee || !can(ctx, 'employee.stats', employee)) throw new NotFoundError('Employee not found');
       const notesCount = await ctx.prisma.note.count({ where: { toEmployeeId: employeeId } });
       const reviewCount = await ctx.prisma.reviewRequest.count({ where: { employeeId } });
+      const lastReview = await ctx.prisma.reviewRequest.findFirst({
+        where: { employeeId, reviewedAt: { not: null } },
+        orderBy: { reviewedAt: 'desc' },
+        select: { reviewedAt: true },
+      });
       return {
-        attendance,
+        employeeId: employee.id,
+        name: getSafeEmployeeName(employee.name, employee.email, employee.id),
+        attendance: employee.attendance,
         notesCount,
         reviewCount,
         status: employee.status,
         flagged: employee.flagged,
+        lastReviewDate: lastReview?.reviewedAt ? lastReview.reviewedAt.toISOString() : null,
+      };
+    },
+  },
+
+  Mutation: {
+    addEmployee: async (_, { input }, ctx: Context) => {
+      authorize(ctx, 'employee.create');
+      assertValidEmployeeInput(input);
+      if (await createsReportingLoop(input.userId ?? null, input.managerId ?? null)) {
+        throw new ConflictError('That manager reports to this employee - it would create a reporting loop');
+      }
+      const now = new Date().toISOString();
+      const sanitizedInput = {
+        ...input,
+        name: getSafeEmployeeName(input.name, input.email),
+        flagged: input.flagged ?? undefined,
       };
+      const employee = await ctx.prisma.employee.create({
+        data: {
+          ...sanitizedInput,
+          createdAt: new Date(now),
+          updatedAt: new Date(now),
+        },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'ADD_EMPLOYEE',
+          details: stringifyAuditDetails({
+            employeeId: employee.id,
+            createdBy: ctx.user!.email,
+            new: {
+              name: sanitizedInput.name,
+              role: sanitizedInput.role,
+              status: sanitizedInput.status,
+              managerId: sanitizedInput.managerId ?? null,
+            },
+          }),
+        },
+      });
+      return {
+        ...employee,
+        name: getSafeEmployeeName(employee.name, employee.email, employee.id),
+      };
+    },
+
+    setup2FA: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      const existing = await ctx.prisma.user.findUnique({
+        where: { id: ctx.user!.id },
+        select: { twoFAEnabled: true },
+      });
+      // Re-running setup would silently swap the secret under an enabled account
+      if (existing?.twoFAEnabled) {
+        throw new ConflictError('2FA is already enabled for this account');
+      }
+      // Generate a new 2FA secret for the user
+      const { otpauthUrl, qrCode } = await generate2FASecret(ctx.user!.id);
+      // Secret is already stored in user by util; recovery codes are shown only this once
+      const recoveryCodes = await generateRecoveryCodes(ctx.user!.id);
+      return { otpauthUrl, qrCode, recoveryCodes };
+    },
+
+    verify2FA: async (_, { code }, ctx: Context) => {
+      requireAuth(ctx);
+      // Get user's 2FA secret
+      const user = await ctx.prisma.user.findUnique({
+        where: { id: ctx.user!.id },
+        select: { twoFASecret: true, twoFAEnabled: true },
+      });
+      const twoFASecret: string | undefined = user?.twoFASecret ?? undefined;
+      if (!twoFASecret) {
+        throw new ConflictError('2FA not set up for this user');
+      }
+      // Verify code
+      const valid = await consume2FACode(ctx.user!.id, twoFASecret, code);
+      if (!valid) {
+        return false;
+      }
+      // Mark 2FA as enabled - from now on /auth/login asks for a code
+      await ctx.prisma.user.update({
+        where: { id: ctx.user!.id },
+        data: { twoFAEnabled: true },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'ENABLE_2FA',
+          details: null,
+        },
+      });
+      return true;
+    },
+
+    // Leave/review emails on or off (password reset and invitation emails always send)
+    updateEmailPreferences: async (_, { emailNotifications }, ctx: Context) => {
+      requireAuth(ctx);
+      return ctx.prisma.user.update({
+        where: { id: ctx.user!.id },
+        data: { emailNotifications },
+      });
+    },
+
+    // Log out one of my devices (user.sessions may revoke anyone's session)
+    revokeSession: async (_, { id }, ctx: Context) => {
+      requireAuth(ctx);
+      const session = await ctx.prisma.session.findUnique({ where: { id } });
+      if (!session || (session.userId !== ctx.user!.id && !can(ctx, 'user.sessions'))) {
+        throw new NotFoundError('Session not found');
+      }
+
+      const revoked = await revokeSession(id);
+      if (revoked && session.userId !== ctx.user!.id) {
+        await ctx.prisma.accessLog.create({
+          data: {
+            userId: ctx.user!.id,
+            userEmail: ctx.user!.email,
+            action: 'REVOKE_SESSION',
+            details: stringifyAuditDetails({ targetUserId: session.userId, sessionId: id }),
+          },
+        });
+      }
+      return revoked;
+    },
+
+    // Log out every device except the one making this request
+    revokeAllOtherSessions: async (_, __, ctx: Context) => {
+      requireAuth(ctx);
+      return revokeUserSessions(ctx.user!.id, ctx.sessionId);
+    },
+
+    // Log a user out of every device
+    revokeUserSessions: async (_, { userId }, ctx: Context) => {
+      authorize(ctx, 'user.sessions');
+      const count = await revokeUserSessions(userId);
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'REVOKE_USER_SESSIONS',
+          details: stringifyAuditDetails({ targetUserId: userId, revokedSessions: count }),
+        },
+      });
+      return count;
+    },
+
+    /**
+     * INVITE A NEW USER
+     * user.invite at "all" can invite with any role (other than employee only with
+     * user.changeRole) and pick the manager; at "team" only employees onto your own
+     * team. Returns the single-use link (also sent to the invitee).
+     */
+    createInvitation: async (_, { input }, ctx: Context) => {
+      authorize(ctx, 'user.invite');
+      const email = String(input.email || '').trim().toLowerCase();
+      if (!email || !email.includes('@')) {
+        throw ValidationError.forField('email', 'A valid email is required');
+      }
+
+      let role = input.role || DEFAULT_ROLE;
+      let managerId: number | null = input.managerId ?? null;
+
+      if (permissionScope(ctx, 'user.invite') === 'all') {
+        const roleExists = await ctx.prisma.role.findUnique({ where: { key: role } });
+        if (!roleExists) {
+          throw ValidationError.forField('role', `Unknown role: ${role}`);
+        }
+        if (role !== DEFAULT_ROLE && !can(ctx, 'user.changeRole')) {
+          throw new ForbiddenError('Inviting with a role other than employee requires the user.changeRole permission');
+        }
+        if (role === DIRECTOR_ROLE && !can(ctx, 'role.manage')) {
+          throw new ForbiddenError('Only someone who manages roles can invite a director');
+        }
+        if (managerId !== null) {
+          const manager = await ctx.prisma.user.findUnique({ where: { id: managerId } });
+          if (!manager || !(await loadRolePermissions(manager.role))['team.manage']) {
+            throw new NotFoundError('Manager not found');
+          }
+        }
+      } else {
+        if (role !== DEFAULT_ROLE) {
+          throw new ForbiddenError('You can only invite employees');
+        }
+        if (managerId !== null && managerId !== ctx.user!.id) {
+          throw new ForbiddenError('You can only invite employees to your own team');
+        }
+        role = DEFAULT_ROLE;
+        managerId = ctx.user!.id;
+      }
+
+      const expiresInDays = input.expiresInDays ?? INVITATION_TTL_DAYS;
+      if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 30) {
+        throw ValidationError.forField('expiresInDays', 'Invitations must expire within 1 to 30 days', 'OUT_OF_RANGE');
+      }
+
+      const existingUser = await ctx.prisma.user.findUnique({ where: { email } });
+      if (existingUser) {
+        throw new ConflictError('A user with this email already exists');
+      }
+      const pending = await ctx.prisma.invitation.findFirst({
+        where: { email, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      });
+      if (pending) {
+        throw new ConflictError('This email already has a pending invitation - resend it instead');
+      }
+
+      const { token, tokenHash } = createInvitationToken();
+      const invitation = await ctx.prisma.invitation.create({
+        data: {
+          email,
+          name: input.name?.trim() || null,
+          role,
+          managerId,
+          tokenHash,
+          invitedById: ctx.user!.id,
+          expiresAt: invitationExpiry(expiresInDays),
+        },
+      });
+
+      const inviteLink = buildInvitationLink(token);
+      await deliverInvitation(invitation, inviteLink, ctx.user!.email);
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'CREATE_INVITATION',
+          details: stringifyAuditDetails({ invitationId: invitation.id, email, role, managerId }),
+        },
+      });
+
+      return { invitation, inviteLink };
+    },
+
+    // Issue a fresh link (the old one stops working) and restart the expiry clock
+    resendInvitation: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'user.invite');
+      const existing = await findManageableInvitation(ctx, id);
+      if (existing.acceptedAt || existing.revokedAt) {
+        throw new ConflictError('Only pending or expired invitations can be resent');
+      }
+
+      const { token, tokenHash } = createInvitationToken();
+      const invitation = await ctx.prisma.invitation.update({
+        where: { id },
+        data: { tokenHash, expiresAt: invitationExpiry() },
+      });
+
+      const inviteLink = buildInvitationLink(token);
+      await deliverInvitation(invitation, inviteLink, ctx.user!.email);
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'RESEND_INVITATION',
+          details: stringifyAuditDetails({ invitationId: id, email: invitation.email }),
+        },
+      });
+
+      return { invitation, inviteLink };
+    },
+
+    revokeInvitation: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'user.invite');
+      const existing = await findManageableInvitation(ctx, id);
+      if (existing.acceptedAt) {
+        throw new ConflictError('Invitation has already been accepted');
+      }
+      if (existing.revokedAt) {
+        return existing;
+      }
+
+      const invitation = await ctx.prisma.invitation.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'REVOKE_INVITATION',
+          details: stringifyAuditDetails({ invitationId: id, email: invitation.email }),
+        },
+      });
+      return invitation;
+    },
+
+    // The full key is returned once here - only its hash is stored.
+    createApiKey: async (_, { input }, ctx: Context) => {
+      authorize(ctx, 'apiKey.manage');
+      const name = String(input.name || '').trim();
+      if (!name) {
+        throw ValidationError.forField('name', 'API key name is required', 'REQUIRED');
+      }
+
+      const scopes: string[] = Array.from(new Set(input.scopes || []));
+      if (scopes.length === 0) {
+        throw ValidationError.forField('scopes', 'Choose at least one scope', 'REQUIRED');
+      }
+      const unknownScopes = scopes.filter((scope) => !(API_KEY_SCOPES as readonly string[]).includes(scope));
+      if (unknownScopes.length > 0) {
+        throw ValidationError.forField('scopes', `Unknown scope(s): ${unknownScopes.join(', ')}`);
+      }
+
+      const expiresInDays = input.expiresInDays ?? null;
+      if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365)) {
+        throw ValidationError.forField('expiresInDays', 'API keys must expire within 1 to 365 days (or never)', 'OUT_OF_RANGE');
+      }
+      const allowedIps = normalizeAllowedIps(input.allowedIps || []);
+
+      const { key, keyHash, prefix } = createApiKeySecret();
+      const apiKey = await ctx.prisma.apiKey.create({
+        data: {
+          name,
+          prefix,
+          keyHash,
+          scopes,
+          allowedIps,
+          createdById: ctx.user!.id,
+          expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+        },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'CREATE_API_KEY',
+          details: stringifyAuditDetails({ apiKeyId: apiKey.id, name, prefix, scopes, allowedIps, expiresInDays }),
+        },
+      });
+
+      return { apiKey, key };
+    },
+
+    revokeApiKey: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'apiKey.manage');
+      const existing = await ctx.prisma.apiKey.findUnique({ where: { id } });
+      if (!existing) {
+        throw new NotFoundError('API key not found');
+      }
+      if (existing.revokedAt) {
+        return existing;
+      }
+
+      const apiKey = await ctx.prisma.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'REVOKE_API_KEY',
+          details: stringifyAuditDetails({ apiKeyId: id, name: apiKey.name, prefix: apiKey.prefix }),
+        },
+      });
+      return apiKey;
+    },
+
+    /**
+     * CREATE A CUSTOM ROLE ("HR partner", "team lead")
+     * The key is what User.role stores - made from the name unless given.
+     */
+    createRole: async (_, { input }, ctx: Context) => {
+      authorize(ctx, 'role.manage');
+      const name = String(input.name || '').trim();
+      if (!name) {
+        throw ValidationError.forField('name', 'Role name is required', 'REQUIRED');
+      }
+      const key = String(input.key || name)
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+      if (!/^[a-z][a-z0-9_]{1,39}$/.test(key)) {
+        throw ValidationError.forField('key', 'Role key must start with a letter and be 2-40 letters, digits or underscores');
+      }
+      if (await ctx.prisma.role.findUnique({ where: { key } })) {
+        throw new ConflictError(`A role with the key "${key}" already exists`);
+      }
+
+      const grants = normalizePermissionGrants(input.permissions || []);
+      const role = await ctx.prisma.role.create({
+        data: {
+          key,
+          name,
+          description: input.description?.trim() || null,
+          permissions: { create: grants },
+        },
+        include: { permissions: true },
+      });
+      invalidateRolePermissions();
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'CREATE_ROLE',
+          details: stringifyAuditDetails({ roleId: role.id, key, name, permissions: grants }),
+        },
+      });
+      return role;
+    },
+
+    // Renames a role and replaces its grants. The director role always has everything.
+    updateRole: async (_, { id, input }, ctx: Context) => {
+      authorize(ctx, 'role.manage');
+      const existing = await ctx.prisma.role.findUnique({ where: { id }, include: { permissions: true } });
+      if (!existing) {
+        throw new NotFoundError('Role not found');
+      }
+      if (existing.key === DIRECTOR_ROLE) {
+        throw new ForbiddenError('The Director role always has every permission and cannot be edited');
+      }
+      const name = String(input.name || '').trim();
+      if (!name) {
+        throw ValidationError.forField('name', 'Role name is required', 'REQUIRED');
+      }
+
+      const grants = normalizePermissionGrants(input.permissions || []);
+      const [, role] = await ctx.prisma.$transaction([
+        ctx.prisma.rolePermission.deleteMany({ where: { roleId: id } }),
+        ctx.prisma.role.update({
+          where: { id },
+          data: {
+            name,
+            description: input.description?.trim() || null,
+            permissions: { create: grants },
+          },
+          include: { permissions: true },
+        }),
+      ]);
+      invalidateRolePermissions();
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'UPDATE_ROLE',
+          details: stringifyAuditDetails({
+            roleId: id,
+            key: existing.key,
+            previous: existing.permissions.map((grant: { permissionKey: string; scope: string }) => ({
+              permissionKey: grant.permissionKey,
+              scope: grant.scope,
+            })),
+            updated: grants,
+          }),
+        },
+      });
+      return role;
+    },
+
+    // Custom roles only, and only once nobody has (or is invited with) the role
+    deleteRole: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'role.manage');
+      const role = await ctx.prisma.role.findUnique({ where: { id } });
+      if (!role) {
+        throw new NotFoundError('Role not found');
+      }
+      if (role.isSystem || SYSTEM_ROLES.includes(role.key)) {
+        throw new ForbiddenError('System roles cannot be deleted');
+      }
+      const userCount = await ctx.prisma.user.count({ where: { role: role.key } });
+      if (userCount > 0) {
+        throw new ConflictError(`Move the ${userCount} user(s) with this role to another role first`);
+      }
+      const pendingInvitations = await ctx.prisma.invitation.count({
+        where: { role: role.key, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+      });
+      if (pendingInvitations > 0) {
+        throw new ConflictError('Revoke the pending invitations for this role first');
+      }
+
+      await ctx.prisma.role.delete({ where: { id } });
+      invalidateRolePermissions();
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'DELETE_ROLE',
+          details: stringifyAuditDetails({ roleId: id, key: role.key, name: role.name }),
+        },
+      });
+      return true;
     },
 
-    attendanceTrends: async (_: any, { employeeId }: any, ctx: Context) => {
-      requireAdmin(ctx);
-      // Example: Return attendance history (stub)
-      // Replace with real attendance log model if available
-      return [
-        { date: '2025-12-01', attendance: 100 },
-        { date: '2025-12-02', attendance: 98 },
-        { date: '2025-12-03', attendance: 97 },
-      ];
+    /**
+     * ASSIGN A ROLE
+     * Bumps tokenVersion so the user's tokens (which carry the old role) stop
+     * working. Only role.manage may hand out the director role, and the last
+     * director can't be moved away from it.
+     */
+    setUserRole: async (_, { userId, role }, ctx: Context) => {
+      authorize(ctx, 'user.changeRole');
+      const target = await ctx.prisma.user.findUnique({ where: { id: userId } });
+      if (!target) {
+        throw new NotFoundError('User not found');
+      }
+      const roleExists = await ctx.prisma.role.findUnique({ where: { key: role } });
+      if (!roleExists) {
+        throw ValidationError.forField('role', `Unknown role: ${role}`);
+      }
+      return changeUserRole(ctx, target, role);
     },
-  },
 
-  Mutation: {
-    addEmployee: async (_: any, { input }: any, ctx: Context) => {
-      requireDirector(ctx);
-      const now = new Date().toISOString();
-      const sanitizedInput = {
-        ...input,
-        name: getSafeEmployeeName(input.name, input.email),
-      };
-      const employee = await ctx.prisma.employee.create({
+    /**
+     * VIEW AS USER (user.impersonate)
+     * Starts a time-boxed impersonation session and returns an access token for the
+     * target user that also names the director. Read-only unless readOnly: false.
+     * The director's own login stays as it is - the frontend switches back to it.
+     */
+    startImpersonation: async (_, { userId, reason, minutes, readOnly = true }, ctx: Context) => {
+      authorize(ctx, 'user.impersonate');
+      const trimmedReason = String(reason || '').trim();
+      if (!trimmedReason) {
+        throw ValidationError.forField('reason', 'A reason is required to view as another user', 'REQUIRED');
+      }
+      const duration = minutes ?? IMPERSONATION_DEFAULT_MINUTES;
+      if (!Number.isInteger(duration) || duration < 1 || duration > IMPERSONATION_MAX_MINUTES) {
+        throw ValidationError.forField('minutes', `View-as sessions last 1 to ${IMPERSONATION_MAX_MINUTES} minutes`, 'OUT_OF_RANGE');
+      }
+
+      const target = await ctx.prisma.user.findUnique({ where: { id: userId } });
+      if (!target) {
+        throw new NotFoundError('User not found');
+      }
+      if (!(await canBeImpersonated(target.role))) {
+        throw new ForbiddenError('Users who can view as others cannot be impersonated');
+      }
+      if (target.isActive === false) {
+        throw new ConflictError('This user is blocked and cannot sign in');
+      }
+
+      const session = await ctx.prisma.impersonationSession.create({
         data: {
-          ...sanitizedInput,
-          createdAt: new Date(now),
-          updatedAt: new Date(now),
+          actorId: ctx.user!.id,
+          targetUserId: target.id,
+          reason: trimmedReason,
+          readOnly: readOnly !== false,
+          ipAddress: ctx.ipAddress ?? null,
+          expiresAt: new Date(Date.now() + duration * 60 * 1000),
         },
-      } as any);
+      });
       await ctx.prisma.accessLog.create({
         data: {
           userId: ctx.user!.id,
           userEmail: ctx.user!.email,
-          action: 'ADD_EMPLOYEE',
+          action: 'START_IMPERSONATION',
           details: stringifyAuditDetails({
-            employeeId: employee.id,
-            createdBy: ctx.user!.email,
-            new: {
-              name: sanitizedInput.name,
-              role: sanitizedInput.role,
-              status: sanitizedInput.status,
-              managerId: sanitizedInput.managerId ?? null,
-            },
+            impersonationId: session.id,
+            targetUserId: target.id,
+            targetEmail: target.email,
+            reason: trimmedReason,
+            readOnly: session.readOnly,
+            minutes: duration,
           }),
+          ipAddress: ctx.ipAddress ?? null,
         },
       });
+
       return {
-        ...employee,
-        name: getSafeEmployeeName(employee.name, employee.email, employee.id),
+        session,
+        user: target,
+        accessToken: signImpersonationToken(target, session),
       };
     },
 
-    setup2FA: async (_: any, __: any, ctx: Context) => {
+    // Stops the current view-as session - its token stops working immediately
+    endImpersonation: async (_, __, ctx: Context) => {
       requireAuth(ctx);
-      // Generate a new 2FA secret for the user
-      const { otpauthUrl, qrCode } = await generate2FASecret(ctx.user!.id);
-      // Secret is already stored in user by util
-      return { otpauthUrl, qrCode };
-    },
+      if (!ctx.impersonation) {
+        throw new ConflictError('Not viewing as another user');
+      }
 
-    verify2FA: async (_: any, { code }: any, ctx: Context) => {
-      requireAuth(ctx);
-      // Get user's 2FA secret
-      const user = await ctx.prisma.user.findUnique({
-        where: { id: ctx.user!.id },
-        select: { twoFASecret: true, twoFAEnabled: true },
+      const { count } = await ctx.prisma.impersonationSession.updateMany({
+        where: { id: ctx.impersonation.id, endedAt: null },
+        data: { endedAt: new Date() },
       });
-      const twoFASecret: string | undefined = user?.twoFASecret ?? undefined;
-      if (!twoFASecret) {
-        throw new Error('2FA not set up for this user');
-      }
-      // Verify code
-      const valid = verify2FACode(twoFASecret, code);
-      if (!valid) {
-        return { success: false, message: 'Invalid 2FA code' };
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.impersonation.actorId,
+          userEmail: ctx.impersonation.actorEmail,
+          action: 'END_IMPERSONATION',
+          details: stringifyAuditDetails({
+            impersonationId: ctx.impersonation.id,
+            targetUserId: ctx.user!.id,
+            targetEmail: ctx.user!.email,
+          }),
+          ipAddress: ctx.ipAddress ?? null,
+        },
+      });
+      return count > 0;
+    },
+
+    // Turn off 2FA for a user who lost their authenticator and recovery codes
+    reset2FA: async (_, { userId }, ctx: Context) => {
+      authorize(ctx, 'user.reset2FA');
+      const target = await ctx.prisma.user.findUnique({ where: { id: userId } });
+      if (!target) {
+        throw new NotFoundError('User not found');
       }
-      // Mark 2FA as enabled
+
       await ctx.prisma.user.update({
-        where: { id: ctx.user!.id },
-        data: { twoFAEnabled: true },
+        where: { id: userId },
+        data: {
+          twoFAEnabled: false,
+          twoFASecret: null,
+          twoFALastUsedStep: null,
+          twoFAChallengeId: null,
+          twoFARecoveryCodes: { deleteMany: {} },
+        },
+      });
+
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'RESET_2FA',
+          details: stringifyAuditDetails({
+            targetUserId: target.id,
+            targetEmail: target.email,
+            resetBy: ctx.user!.email,
+          }),
+        },
       });
-      return { success: true, message: '2FA verified and enabled' };
+      return true;
     },
 
-    updateEmployee: async (_: any, { id, input }: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
+    updateEmployee: async (_, { id, input }, ctx: Context) => {
+      authorize(ctx, 'employee.update');
+      // Role changes can also change the linked login - keys never do that
+      if (ctx.apiKey && Object.prototype.hasOwnProperty.call(input, 'role')) {
+        throw new ForbiddenError('API keys cannot change roles');
+      }
+      assertValidEmployeeInput(input);
       const existingEmployee = await ctx.prisma.employee.findUnique({ where: { id } });
       if (!existingEmployee) {
-        throw new Error('Employee not found');
+        throw new NotFoundError('Employee not found');
       }
 
-      if (ctx.user!.role === 'manager') {
-        const managesEmployee = existingEmployee.managerId === ctx.user!.id;
-        if (!managesEmployee) {
-          throw new Error('Managers can only edit employees in their own team');
+      if (permissionScope(ctx, 'employee.update') === 'team') {
+        if (!can(ctx, 'employee.update', { managerId: existingEmployee.managerId })) {
+          throw new ForbiddenError('You can only edit employees in your own team');
         }
-        if (existingEmployee.role === 'director') {
-          throw new Error('Managers cannot edit Director records');
+        if (existingEmployee.role === DIRECTOR_ROLE) {
+          throw new ForbiddenError('You cannot edit Director records');
         }
         if (Object.prototype.hasOwnProperty.call(input, 'role') || Object.prototype.hasOwnProperty.call(input, 'managerId')) {
-          throw new Error('Managers cannot change role or team ownership');
+          throw new ForbiddenError('You cannot change role or team ownership');
         }
       }
 
-      const nextInput: Record<string, any> = { ...input };
-      if (typeof nextInput.name === 'string') {
-        nextInput.name = getSafeEmployeeName(nextInput.name, nextInput.email);
+      // Nobody may end up (indirectly) managing themselves
+      const has = (field: string) => Object.prototype.hasOwnProperty.call(input, field);
+      if (has('managerId') || has('userId')) {
+        const nextUserId = has('userId') ? input.userId ?? null : existingEmployee.userId;
+        const nextManagerId = has('managerId') ? input.managerId ?? null : existingEmployee.managerId;
+        if (await createsReportingLoop(nextUserId, nextManagerId)) {
+          throw new ConflictError('That manager reports to this employee - it would create a reporting loop');
+        }
       }
 
-      // If role is being changed, also update the User table
-      if (nextInput.role && ctx.user!.role === 'director') {
-        if (existingEmployee.userId) {
-          await ctx.prisma.user.update({
-            where: { id: existingEmployee.userId },
-            data: { role: nextInput.role },
-          });
+      const nextInput = {
+        ...input,
+        name: getSafeEmployeeName(input.name, input.email),
+        flagged: input.flagged ?? undefined,
+      };
+
+      // Employee.role doubles as a job title ("Teacher"). When it names a real role,
+      // also move the linked login - with user.changeRole only, and under the same
+      // rules as setUserRole.
+      if (nextInput.role && can(ctx, 'user.changeRole')) {
+        const roleExists = await ctx.prisma.role.findUnique({ where: { key: nextInput.role } });
+        if (roleExists && existingEmployee.userId) {
+          const linkedUser = await ctx.prisma.user.findUnique({ where: { id: existingEmployee.userId } });
+          if (linkedUser && linkedUser.role !== nextInput.role) {
+            await changeUserRole(ctx, linkedUser, nextInput.role);
+          }
         }
       }
 
@@ -1121,7 +2213,7 @@ export const resolvers = {
         data: {
           ...nextInput,
           updatedAt: new Date(),
-        } as any,
+        },
       });
       await ctx.prisma.accessLog.create({
         data: {
@@ -1151,13 +2243,68 @@ export const resolvers = {
       return updated;
     },
 
-    updateMyProfile: async (_: any, { input }: any, ctx: Context) => {
+    /**
+     * MOVE SOMEONE IN THE ORG CHART
+     * Changes one Employee.managerId. Their own reports point at their login, so
+     * they move along without their rows changing. Company-wide editors only -
+     * team editors can't change managers (see updateEmployee).
+     */
+    setEmployeeManager: async (_, { employeeId, managerUserId }, ctx: Context) => {
+      authorize(ctx, 'employee.update');
+      if (permissionScope(ctx, 'employee.update') !== 'all') {
+        throw new ForbiddenError('You cannot change team ownership');
+      }
+      const employee = await ctx.prisma.employee.findUnique({ where: { id: employeeId } });
+      if (!employee) {
+        throw new NotFoundError('Employee not found');
+      }
+      const nextManagerId: number | null = managerUserId ?? null;
+      if (nextManagerId !== null) {
+        const manager = await ctx.prisma.user.findUnique({ where: { id: nextManagerId } });
+        if (!manager) {
+          throw new NotFoundError('Manager not found');
+        }
+        if (!(await loadRolePermissions(manager.role))['team.manage']) {
+          throw ValidationError.forField('managerId', `${manager.email} can't have reports - their role lacks team.manage`);
+        }
+      }
+      if (await createsReportingLoop(employee.userId, nextManagerId)) {
+        throw new ConflictError('That manager reports to this employee - it would create a reporting loop');
+      }
+      if (employee.managerId === nextManagerId) {
+        return employee;
+      }
+
+      const updated = await ctx.prisma.employee.update({
+        where: { id: employeeId },
+        data: { managerId: nextManagerId, updatedAt: new Date() },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'CHANGE_MANAGER',
+          details: stringifyAuditDetails({
+            employeeId,
+            employeeName: employee.name,
+            previousManagerId: employee.managerId ?? null,
+            newManagerId: nextManagerId,
+          }),
+        },
+      });
+      return {
+        ...updated,
+        name: getSafeEmployeeName(updated.name, updated.email, updated.id),
+      };
+    },
+
+    updateMyProfile: async (_, { input }, ctx: Context) => {
       requireAuth(ctx);
 
       const user = await ctx.prisma.user.findUnique({
         where: { id: ctx.user!.id },
       });
-      if (!user) throw new Error('User not found');
+      if (!user) throw new NotFoundError('User not found');
 
       // Find employee record
       let employee = await ctx.prisma.employee.findFirst({
@@ -1167,7 +2314,7 @@ export const resolvers = {
       });
 
       if (!employee) {
-        throw new Error('Employee profile not found');
+        throw new NotFoundError('Employee profile not found');
       }
 
       // Update only allowed fields
@@ -1226,9 +2373,8 @@ export const resolvers = {
       return updatedProfile;
     },
 
-    deleteEmployee: async (_: any, { id }: any, ctx: Context) => {
-      // Only Director can delete employees
-      requireDirector(ctx);
+    deleteEmployee: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'employee.delete');
       await ctx.prisma.employee.delete({ where: { id } });
       await ctx.prisma.accessLog.create({
         data: {
@@ -1241,19 +2387,25 @@ export const resolvers = {
       return true;
     },
 
-    deleteUser: async (_: any, { id }: any, ctx: Context) => {
-      // Only Director can delete users (admins, managers, employees)
-      requireDirector(ctx);
+    deleteUser: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'user.delete');
+      // Log them out everywhere first
+      await revokeUserSessions(id);
       await ctx.prisma.user.delete({ where: { id } });
       return true;
     },
 
-    toggleUserAccess: async (_: any, { id, isActive, reason, blockedUntil }: any, ctx: Context) => {
-      // Only Director can grant/deny user access (Enhanced Access Control Feature)
-      requireDirector(ctx);
+    toggleUserAccess: async (_, { id, isActive, reason, blockedUntil }, ctx: Context) => {
+      // Grant/deny user access (Enhanced Access Control Feature)
+      authorize(ctx, 'user.manageAccess');
 
       const updateData: any = { isActive };
 
+      // Blocking bumps tokenVersion so access tokens already issued stop working now
+      if (!isActive) {
+        updateData.tokenVersion = { increment: 1 };
+      }
+
       // Handle temporary blocks
       if (blockedUntil && !isActive) {
         updateData.accessBlockedUntil = new Date(blockedUntil);
@@ -1271,6 +2423,11 @@ export const resolvers = {
         data: updateData,
       });
 
+      // A blocked user must not stay logged in on any device
+      if (!isActive) {
+        await revokeUserSessions(id);
+      }
+
       // Create audit log entry
       await ctx.prisma.accessControlLog.create({
         data: {
@@ -1286,8 +2443,8 @@ export const resolvers = {
     },
 
     // New: Bulk access control
-    bulkToggleAccess: async (_: any, { userIds, isActive, reason }: any, ctx: Context) => {
-      requireDirector(ctx);
+    bulkToggleAccess: async (_, { userIds, isActive, reason }, ctx: Context) => {
+      authorize(ctx, 'user.manageAccess');
 
       for (const userId of userIds) {
         await ctx.prisma.user.update({
@@ -1295,9 +2452,14 @@ export const resolvers = {
           data: {
             isActive,
             accessBlockReason: reason || null,
+            ...(isActive ? {} : { tokenVersion: { increment: 1 } }),
           },
         });
 
+        if (!isActive) {
+          await revokeUserSessions(userId);
+        }
+
         // Create audit log for each user
         await ctx.prisma.accessControlLog.create({
           data: {
@@ -1312,16 +2474,16 @@ export const resolvers = {
       return true;
     },
 
-    terminateEmployee: async (_: any, { id }: any, ctx: Context) => {
-      requireDirector(ctx);
+    terminateEmployee: async (_, { id }, ctx: Context) => {
+      authorize(ctx, 'employee.terminate');
       const before = await ctx.prisma.employee.findUnique({ where: { id } });
       if (!before) {
-        throw new Error('Employee not found');
+        throw new NotFoundError('Employee not found');
       }
       const updated = await ctx.prisma.employee.update({
         where: { id },
         data: {
-          status: 'terminated',
+          status: 'TERMINATED',
           updatedAt: new Date(),
         },
       });
@@ -1334,21 +2496,21 @@ export const resolvers = {
             employeeId: id,
             terminatedBy: ctx.user!.email,
             previousStatus: before.status,
-            newStatus: 'terminated',
+            newStatus: 'TERMINATED',
           }),
         },
       });
       return updated;
     },
 
-    flagEmployee: async (_: any, { id, flagged }: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
+    flagEmployee: async (_, { id, flagged }, ctx: Context) => {
+      authorize(ctx, 'employee.flag');
       const before = await ctx.prisma.employee.findUnique({ where: { id } });
       if (!before) {
-        throw new Error('Employee not found');
+        throw new NotFoundError('Employee not found');
       }
-      if (ctx.user!.role === 'manager' && before.managerId !== ctx.user!.id) {
-        throw new Error('Managers can only flag employees in their own team');
+      if (!can(ctx, 'employee.flag', { managerId: before.managerId })) {
+        throw new ForbiddenError('You can only flag employees in your own team');
       }
       const updated = await ctx.prisma.employee.update({
         where: { id },
@@ -1373,12 +2535,14 @@ export const resolvers = {
       return updated;
     },
 
-    generateEmployeeLogins: async (_: any, __: any, ctx: Context) => {
-      requireDirector(ctx);
+    generateEmployeeLogins: async (_, __, ctx: Context) => {
+      authorize(ctx, 'employee.generateLogins');
 
       let created = 0;
       let skipped = 0;
       let failed = 0;
+      // Each new account gets its own random password; the director sees them once
+      const credentials: { employeeId: number; email: string; temporaryPassword: string }[] = [];
 
       try {
         // Get all employees without userId
@@ -1402,8 +2566,8 @@ export const resolvers = {
               .replace(/^\.+|\.+$/g, '');
 
             const baseEmailName = normalizedName || `employee.${employee.id}`;
-            const defaultPassword = 'employee123';
-            const hashedPassword = await bcrypt.hash(defaultPassword, 10);
+            const temporaryPassword = generateCompliantPassword();
+            const hashedPassword = await bcrypt.hash(temporaryPassword, 10);
 
             let attempt = 0;
             let resolved = false;
@@ -1455,7 +2619,10 @@ export const resolvers = {
                 data: {
                   email: candidateEmail,
                   passwordHash: hashedPassword,
-                  role: 'employee',
+                  passwordHistory: nextPasswordHistory(hashedPassword),
+                  passwordChangedAt: new Date(),
+                  mustChangePassword: true, // Temporary password - replaced at first login
+                  role: DEFAULT_ROLE,
                   provider: 'local',
                 },
               });
@@ -1468,6 +2635,7 @@ export const resolvers = {
                 },
               });
 
+              credentials.push({ employeeId: employee.id, email: candidateEmail, temporaryPassword });
               created++;
               resolved = true;
             }
@@ -1487,6 +2655,7 @@ export const resolvers = {
           created,
           skipped,
           failed,
+          credentials,
         };
       } catch (error: any) {
         return {
@@ -1495,40 +2664,38 @@ export const resolvers = {
           created,
           skipped,
           failed,
+          credentials,
         };
       }
     },
 
-    sendNote: async (_: any, { input }: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
+    sendNote: async (_, { input }, ctx: Context) => {
+      authorize(ctx, 'note.send');
       const { message, toEmployeeId, toUserId, toAll } = input;
 
-      if (ctx.user!.role === 'manager') {
+      // "team" scope: notes go to directors or my own team only
+      if (permissionScope(ctx, 'note.send') === 'team') {
         if (toAll) {
-          throw new Error('Managers cannot broadcast notes to all users');
+          throw new ForbiddenError('You cannot broadcast notes to all users');
         }
 
         if (toUserId) {
           const targetUser = await ctx.prisma.user.findUnique({ where: { id: toUserId } });
           if (!targetUser) {
-            throw new Error('Recipient user not found');
+            throw new NotFoundError('Recipient user not found');
           }
-          if (targetUser.role === 'director') {
-            // manager -> director allowed
-          } else if (targetUser.role === 'employee') {
-            const teamUserIds = await getManagerTeamUserIds(ctx, ctx.user!.id);
-            if (!teamUserIds.includes(toUserId)) {
-              throw new Error('Managers can only send notes to employees in their team');
+          if (targetUser.role !== DIRECTOR_ROLE) {
+            const team = await getReportingTeam(ctx);
+            if (!team.userIds.has(toUserId)) {
+              throw new ForbiddenError('You can send notes only to your team or directors');
             }
-          } else {
-            throw new Error('Managers can send notes only to their team employees or directors');
           }
         }
 
         if (toEmployeeId) {
           const targetEmployee = await ctx.prisma.employee.findUnique({ where: { id: toEmployeeId } });
-          if (!targetEmployee || targetEmployee.managerId !== ctx.user!.id) {
-            throw new Error('Managers can only send notes to employees in their team');
+          if (!targetEmployee || !can(ctx, 'note.send', { managerId: targetEmployee.managerId })) {
+            throw new ForbiddenError('You can only send notes to employees in your team');
           }
         }
       }
@@ -1560,7 +2727,7 @@ export const resolvers = {
       return createdNote;
     },
 
-    markNoteAsRead: async (_: any, { id }: any, ctx: Context) => {
+    markNoteAsRead: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
       return ctx.prisma.note.update({
         where: { id },
@@ -1568,7 +2735,7 @@ export const resolvers = {
       });
     },
 
-    createLeaveRequest: async (_: any, { input }: any, ctx: Context) => {
+    createLeaveRequest: async (_, { input }, ctx: Context) => {
       requireAuth(ctx);
 
       // Get current user email
@@ -1576,7 +2743,7 @@ export const resolvers = {
         where: { id: ctx.user!.id },
       });
       if (!user) {
-        throw new Error('User not found');
+        throw new NotFoundError('User not found');
       }
 
       // Find employee by email or userId
@@ -1598,7 +2765,7 @@ export const resolvers = {
             subjects: [],
             attendance: 100,
             role: user.role,
-            status: 'active',
+            status: 'ACTIVE',
             location: 'N/A',
             lastLogin: new Date().toISOString(),
             createdAt: new Date(),
@@ -1613,8 +2780,8 @@ export const resolvers = {
           reason: input.reason,
           startDate: new Date(input.startDate),
           endDate: new Date(input.endDate),
-          type: input.type || 'annual', // Default to 'annual' if not provided
-          status: 'pending',
+          type: input.type || 'ANNUAL',
+          status: 'PENDING',
         },
       });
       await ctx.prisma.accessLog.create({
@@ -1625,33 +2792,68 @@ export const resolvers = {
           details: `Created leave request for employee ${employee.id}`,
         },
       });
+
+      // Whoever is covering the manager's approvals hears about it while they are away
+      if (employee.managerId) {
+        const delegates = (await findActiveDelegates(employee.managerId, 'leave.approve')).filter(
+          (delegate: { id: number }) => delegate.id !== ctx.user!.id,
+        );
+        if (delegates.length > 0) {
+          const manager = await ctx.prisma.user.findUnique({ where: { id: employee.managerId } });
+          const employeeName = getSafeEmployeeName(employee.name, employee.email, employee.id);
+          await createNotifications(
+            ctx.prisma,
+            delegates.map((delegate: { id: number; email: string }) => ({
+              userId: delegate.id,
+              userEmail: delegate.email,
+              title: `Leave request from ${employeeName}`,
+              message: `${employeeName} asked for ${leaveRequest.type} leave. You are covering approvals for ${manager?.email || 'their manager'}.`,
+              type: 'APPROVAL',
+              actionUrl: '/leaveRequests',
+              metadata: { leaveRequestId: leaveRequest.id, onBehalfOfId: employee.managerId },
+            })),
+          );
+        }
+      }
       return leaveRequest;
     },
 
-    updateLeaveRequestStatus: async (_: any, { id, status, adminNote }: any, ctx: Context) => {
-      requireAdmin(ctx);
+    updateLeaveRequestStatus: async (_, { id, status, adminNote }, ctx: Context) => {
+      authorizeOrDelegated(ctx, 'leave.approve');
       const leaveReq = await ctx.prisma.leaveRequest.findUnique({
         where: { id },
         include: { employee: true },
       });
-      if (!leaveReq) {
-        throw new Error('Leave request not found');
+      const resource = { managerId: leaveReq?.employee.managerId ?? null };
+      // Set when the caller decides as someone covering for the employee's manager
+      const delegation =
+        leaveReq && !can(ctx, 'leave.approve', resource) ? findDelegation(ctx, 'leave.approve', resource) : null;
+      if (!leaveReq || (!can(ctx, 'leave.approve', resource) && !delegation)) {
+        throw new NotFoundError('Leave request not found');
+      }
+      if (delegation && leaveReq.employee.userId === ctx.user!.id) {
+        throw new ForbiddenError('You cannot decide your own leave request on someone else\'s behalf');
       }
+      // Team approvers (managers) pass long/special leave on to someone who can approve any leave
+      const approveScope = delegation ? delegation.permissions['leave.approve'] : permissionScope(ctx, 'leave.approve');
+      const isTeamApprover = approveScope === 'team';
 
-      const requestedStatus = String(status || '').toLowerCase();
-      let normalizedStatus = requestedStatus;
+      const requestedStatus: LeaveStatus = status;
+      let normalizedStatus: LeaveStatus = requestedStatus;
 
       const leaveStart = new Date(leaveReq.startDate);
       const leaveEnd = new Date(leaveReq.endDate);
       const leaveDays = Math.max(1, Math.ceil((leaveEnd.getTime() - leaveStart.getTime()) / (1000 * 60 * 60 * 24)) + 1);
-      const leaveType = String(leaveReq.type || 'annual').toLowerCase();
-      const specialLeaveTypes = new Set(['special', 'sabbatical', 'maternity', 'paternity', 'medical-extended']);
-      const requiresDirectorApproval = leaveDays > 5 || specialLeaveTypes.has(leaveType);
+      const leaveType: string = leaveReq.type;
+      const requiresDirectorApproval = leaveDays > 5 || !TEAM_APPROVABLE_LEAVE_TYPES.includes(leaveType);
 
-      if (ctx.user!.role === 'manager' && requestedStatus === 'approved' && requiresDirectorApproval) {
-        normalizedStatus = 'pending_director';
+      if (isTeamApprover && requestedStatus === 'APPROVED' && requiresDirectorApproval) {
+        normalizedStatus = 'PENDING_DIRECTOR';
       }
 
+      const statusLabel = enumLabel(normalizedStatus);
+      const leaveTypeLabel = enumLabel(leaveType);
+
       const hasAdminNote = typeof adminNote === 'string';
       const normalizedAdminNote = hasAdminNote ? String(adminNote).trim() : null;
 
@@ -1669,8 +2871,10 @@ export const resolvers = {
           OR: [{ userId: ctx.user!.id }, { email: ctx.user!.email }],
         },
       });
-      const approverName =
-        getSafeEmployeeName(approverEmployee?.name, ctx.user!.email, ctx.user!.id) || ctx.user!.email;
+      const approverName = onBehalfOf(
+        getSafeEmployeeName(approverEmployee?.name, ctx.user!.email, ctx.user!.id) || ctx.user!.email,
+        delegation,
+      );
       const employeeName =
         leaveReq?.employee?.name || leaveReq?.employee?.email || `Employee #${leaveReq?.employeeId || 'unknown'}`;
 
@@ -1690,6 +2894,7 @@ export const resolvers = {
             leaveType,
             directorApprovalRequired: requiresDirectorApproval,
             adminNote: adminNote || null,
+            onBehalfOf: delegation?.managerEmail ?? null,
           }),
         },
       });
@@ -1697,48 +2902,67 @@ export const resolvers = {
       if (
         leaveReq &&
         leaveReq.employee &&
-        ['approved', 'rejected', 'pending_director'].includes(normalizedStatus) &&
+        ['APPROVED', 'REJECTED', 'PENDING_DIRECTOR'].includes(normalizedStatus) &&
         leaveReq.employee.userId &&
         leaveReq.employee.email
       ) {
-        let employeeMessage = `Your leave request for ${employeeName} was ${normalizedStatus} by ${approverName}.`;
-        if (normalizedStatus === 'pending_director') {
-          employeeMessage = `Manager ${approverName} submitted your leave request for Director approval (${leaveType}, ${leaveDays} day${leaveDays === 1 ? '' : 's'}).`;
+        let employeeMessage = `Your leave request for ${employeeName} was ${statusLabel} by ${approverName}.`;
+        if (normalizedStatus === 'PENDING_DIRECTOR') {
+          employeeMessage = `Manager ${approverName} submitted your leave request for Director approval (${leaveTypeLabel}, ${leaveDays} day${leaveDays === 1 ? '' : 's'}).`;
         }
 
         await ctx.prisma.notification.create({
           data: {
             userId: leaveReq.employee.userId,
             userEmail: leaveReq.employee.email,
-            title: `Leave Request ${normalizedStatus.charAt(0).toUpperCase() + normalizedStatus.slice(1)}`,
+            title: `Leave Request ${statusLabel.charAt(0).toUpperCase() + statusLabel.slice(1)}`,
             message: `${employeeMessage} ${adminNote ? 'Note: ' + adminNote : ''}`.trim(),
             type: 'LEAVE',
             actionUrl: `/leaveRequests`,
-            metadata: { leaveRequestId: leaveReq.id, status: normalizedStatus, approverName, employeeName },
+            metadata: {
+              leaveRequestId: leaveReq.id,
+              status: normalizedStatus,
+              approverName,
+              employeeName,
+              onBehalfOfId: delegation?.managerId ?? null,
+            },
           },
         });
+        await sendEmail(
+          'leaveDecision',
+          leaveReq.employee.email,
+          {
+            employeeName,
+            status: normalizedStatus,
+            leaveType: leaveTypeLabel,
+            startDate: leaveStart,
+            endDate: leaveEnd,
+            decidedBy: approverName,
+            note: normalizedAdminNote,
+            link: appLink('/leaveRequests'),
+          },
+          { userId: leaveReq.employee.userId },
+        );
         // Send Slack alert if webhook is configured
         const slackWebhook = process.env.SLACK_WEBHOOK_URL;
         if (slackWebhook) {
-          const slackText = `Leave request for ${employeeName} (${leaveReq.startDate} to ${leaveReq.endDate}) was ${normalizedStatus} by ${approverName}. ${adminNote ? 'Note: ' + adminNote : ''}`;
+          const slackText = `Leave request for ${employeeName} (${leaveReq.startDate} to ${leaveReq.endDate}) was ${statusLabel} by ${approverName}. ${adminNote ? 'Note: ' + adminNote : ''}`;
           await sendSlackMessage(slackWebhook, slackText);
         }
       }
 
-      // If a manager approves/rejects leave, notify all directors with manager + employee names.
-      if (ctx.user!.role === 'manager' && leaveReq && ['approved', 'rejected', 'pending_director'].includes(normalizedStatus)) {
-        const directors = await ctx.prisma.user.findMany({
-          where: { role: 'director', id: { not: ctx.user!.id } },
-          select: { id: true, email: true },
-        });
+      // If a manager approves/rejects leave, notify everyone who approves company-wide (directors).
+      if (isTeamApprover && leaveReq && ['APPROVED', 'REJECTED', 'PENDING_DIRECTOR'].includes(normalizedStatus)) {
+        const directors = await findUsersWithPermission('leave.approve', ctx.user!.id);
 
         if (directors.length > 0) {
-          await ctx.prisma.notification.createMany({
-            data: directors.map((director) => ({
+          await createNotifications(
+            ctx.prisma,
+            directors.map((director) => ({
               userId: director.id,
               userEmail: director.email,
-              title: `Manager ${approverName} set leave request to ${normalizedStatus}`,
-              message: `${approverName} (${ctx.user!.email}) set leave for ${employeeName} to ${normalizedStatus} (${leaveType}, ${leaveDays} day${leaveDays === 1 ? '' : 's'}). ${adminNote ? `Note: ${adminNote}` : ''}`.trim(),
+              title: `Manager ${approverName} set leave request to ${statusLabel}`,
+              message: `${approverName} (${ctx.user!.email}) set leave for ${employeeName} to ${statusLabel} (${leaveTypeLabel}, ${leaveDays} day${leaveDays === 1 ? '' : 's'}). ${adminNote ? `Note: ${adminNote}` : ''}`.trim(),
               type: 'APPROVAL',
               actionUrl: '/leaveRequests',
               metadata: {
@@ -1746,19 +2970,145 @@ export const resolvers = {
                 status: normalizedStatus,
                 approverId: ctx.user!.id,
                 approverName,
+                onBehalfOfId: delegation?.managerId ?? null,
                 employeeName,
                 leaveType,
                 leaveDays,
               },
             })),
-          });
+          );
         }
       }
 
       return updated;
     },
 
-    changePassword: async (_: any, { currentPassword, newPassword }: any, ctx: Context) => {
+    /**
+     * APPROVAL DELEGATION
+     * Hands the caller's approvals (DELEGABLE_PERMISSIONS) to someone for a date
+     * range, or - without dates - for whenever the caller's own approved leave covers today.
+     */
+    createDelegation: async (_, { input }, ctx: Context) => {
+      requireAuth(ctx);
+      if (!DELEGABLE_PERMISSIONS.some((permission) => can(ctx, permission))) {
+        throw new ForbiddenError('You have no approvals to delegate');
+      }
+      if (input.delegateId === ctx.user!.id) {
+        throw new ForbiddenError('You cannot delegate to yourself');
+      }
+      const delegate = await ctx.prisma.user.findUnique({ where: { id: input.delegateId } });
+      if (!delegate || delegate.isActive === false) {
+        throw new NotFoundError('Delegate not found');
+      }
+
+      let startDate: Date | null = null;
+      let endDate: Date | null = null;
+      if (input.startDate || input.endDate) {
+        if (!input.startDate || !input.endDate) {
+          throw ValidationError.forField('endDate', 'Give both a start and an end date, or neither to delegate while you are on leave', 'REQUIRED');
+        }
+        startDate = new Date(input.startDate);
+        endDate = new Date(input.endDate);
+        const invalidDates = [
+          ...(Number.isNaN(startDate.getTime()) ? ['startDate'] : []),
+          ...(Number.isNaN(endDate.getTime()) ? ['endDate'] : []),
+        ];
+        if (invalidDates.length > 0) {
+          throw new ValidationError(
+            'Invalid date',
+            invalidDates.map((field) => ({ field, code: 'INVALID', message: 'Invalid date' })),
+          );
+        }
+        if (endDate < startDate) {
+          throw ValidationError.forField('endDate', 'End date must be on or after the start date');
+        }
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        if (endDate < today) {
+          throw ValidationError.forField('endDate', 'End date is in the past');
+        }
+      }
+
+      const delegation = await ctx.prisma.approvalDelegation.create({
+        data: {
+          managerId: ctx.user!.id,
+          delegateId: delegate.id,
+          startDate,
+          endDate,
+          reason: input.reason ? String(input.reason).trim() || null : null,
+        },
+        include: { manager: true, delegate: true },
+      });
+
+      const window = startDate && endDate
+        ? `from ${startDate.toISOString().slice(0, 10)} to ${endDate.toISOString().slice(0, 10)}`
+        : `while ${ctx.user!.email} is on approved leave`;
+      await ctx.prisma.notification.create({
+        data: {
+          userId: delegate.id,
+          userEmail: delegate.email,
+          title: `You are covering approvals for ${ctx.user!.email}`,
+          message: `${ctx.user!.email} delegated their approvals to you ${window}.`,
+          type: 'INFO',
+          actionUrl: '/leaveRequests',
+          metadata: { delegationId: delegation.id },
+        },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'CREATE_DELEGATION',
+          details: stringifyAuditDetails({
+            delegationId: delegation.id,
+            delegateId: delegate.id,
+            delegateEmail: delegate.email,
+            startDate,
+            endDate,
+            whileOnLeave: !startDate,
+            reason: delegation.reason,
+          }),
+        },
+      });
+      return (await describeDelegations([delegation]))[0];
+    },
+
+    // The manager who gave it, the delegate handing it back, or anyone managing access
+    revokeDelegation: async (_, { id }, ctx: Context) => {
+      requireAuth(ctx);
+      const delegation = await ctx.prisma.approvalDelegation.findUnique({
+        where: { id },
+        include: { manager: true, delegate: true },
+      });
+      const isParty = delegation && (delegation.managerId === ctx.user!.id || delegation.delegateId === ctx.user!.id);
+      if (!delegation || (!isParty && !can(ctx, 'user.manageAccess'))) {
+        throw new NotFoundError('Delegation not found');
+      }
+      if (delegation.revokedAt) {
+        return (await describeDelegations([delegation]))[0];
+      }
+
+      const revoked = await ctx.prisma.approvalDelegation.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+        include: { manager: true, delegate: true },
+      });
+      await ctx.prisma.accessLog.create({
+        data: {
+          userId: ctx.user!.id,
+          userEmail: ctx.user!.email,
+          action: 'REVOKE_DELEGATION',
+          details: stringifyAuditDetails({
+            delegationId: id,
+            managerEmail: delegation.manager.email,
+            delegateEmail: delegation.delegate.email,
+          }),
+        },
+      });
+      return (await describeDelegations([revoked]))[0];
+    },
+
+    changePassword: async (_, { currentPassword, newPassword }, ctx: Context) => {
       requireAuth(ctx);
       const bcrypt = require('bcryptjs');
 
@@ -1772,19 +3122,47 @@ export const resolvers = {
 
       const validPassword = await bcrypt.compare(currentPassword, user.passwordHash);
       if (!validPassword) {
-        return { success: false, message: 'Current password is incorrect' };
+        return {
+          success: false,
+          message: 'Current password is incorrect',
+          fieldErrors: [{ field: 'currentPassword', code: 'INCORRECT', message: 'Current password is incorrect' }],
+        };
+      }
+
+      try {
+        await assertPasswordAllowed(newPassword, user, 'newPassword');
+      } catch (err) {
+        if (err instanceof PasswordPolicyError) {
+          return { success: false, message: err.message, fieldErrors: err.fieldErrors };
+        }
+        throw err;
       }
 
       const newHash = await bcrypt.hash(newPassword, 10);
-      await ctx.prisma.user.update({
+      // Bumping tokenVersion invalidates every access token issued so far,
+      // and other devices are logged out. This device gets a fresh token below -
+      // a full one, even if it signed in with a restricted "change your password" token.
+      const updatedUser = await ctx.prisma.user.update({
         where: { id: ctx.user!.id },
-        data: { passwordHash: newHash, updatedAt: new Date() },
+        data: {
+          passwordHash: newHash,
+          passwordHistory: nextPasswordHistory(newHash, user),
+          passwordChangedAt: new Date(),
+          mustChangePassword: false,
+          tokenVersion: { increment: 1 },
+          updatedAt: new Date(),
+        },
       });
+      await revokeUserSessions(ctx.user!.id, ctx.sessionId);
 
-      return { success: true, message: 'Password changed successfully' };
+      return {
+        success: true,
+        message: 'Password changed successfully',
+        accessToken: ctx.sessionId ? signAccessToken(updatedUser, ctx.sessionId) : null,
+      };
     },
 
-    logAccess: async (_: any, { action, details }: any, ctx: Context) => {
+    logAccess: async (_, { action, details }, ctx: Context) => {
       requireAuth(ctx);
       const user = await ctx.prisma.user.findUnique({
         where: { id: ctx.user!.id },
@@ -1802,24 +3180,24 @@ export const resolvers = {
     },
 
     // Messaging mutations
-    sendMessage: async (_: any, { input }: any, ctx: Context) => {
+    sendMessage: async (_, { input }, ctx: Context) => {
       requireAuth(ctx);
+      authorize(ctx, 'message.send');
       const { prisma, user } = ctx;
 
-      const senderRole = user!.role;
+      const sendScope = permissionScope(ctx, 'message.send');
       let recipient: any = null;
       let parentMsg: any = null;
       let resolvedRecipientId: number | null = input.recipientId || null;
       let resolvedRecipientRole: string | null = input.recipientRole || null;
-      const managerTeamUserIds =
-        senderRole === 'manager' ? await getManagerTeamUserIds(ctx, user!.id) : [];
+      const reportingTeam = sendScope === 'team' ? await getReportingTeam(ctx) : null;
 
       if (input.replyToId) {
         parentMsg = await prisma.message.findUnique({
           where: { id: input.replyToId },
         });
         if (!parentMsg) {
-          throw new Error('Reply target message not found');
+          throw new NotFoundError('Reply target message not found');
         }
 
         const canAccessParent =
@@ -1827,7 +3205,7 @@ export const resolvers = {
           parentMsg.recipientId === user!.id ||
           (parentMsg.recipientId === null && parentMsg.recipientRole === user!.role);
         if (!canAccessParent) {
-          throw new Error('You cannot reply to this conversation');
+          throw new ForbiddenError('You cannot reply to this conversation');
         }
 
         if (!resolvedRecipientId && !resolvedRecipientRole) {
@@ -1846,34 +3224,31 @@ export const resolvers = {
           where: { id: resolvedRecipientId },
         });
         if (!recipient) {
-          throw new Error('Recipient not found');
+          throw new NotFoundError('Recipient not found');
         }
         resolvedRecipientRole = recipient.role;
       }
 
-      // Messaging role policy:
-      // - Employee: direct to manager only
-      // - Manager: direct to team employees or directors only
-      // - Director: can direct/broadcast to anyone
-      if (senderRole === 'employee') {
-        if (!resolvedRecipientId || resolvedRecipientRole !== 'manager') {
-          throw new Error('Employees can send direct messages to Managers only.');
+      // Messaging policy (message.send scope):
+      // - own (employees): direct to a manager only (someone with team.manage, not a director)
+      // - team (managers): direct to anyone below them or directors only
+      // - all (directors): can direct/broadcast to anyone
+      if (sendScope === 'own') {
+        const recipientManagesTeams =
+          resolvedRecipientRole !== null &&
+          resolvedRecipientRole !== DIRECTOR_ROLE &&
+          Boolean((await loadRolePermissions(resolvedRecipientRole))['team.manage']);
+        if (!resolvedRecipientId || !recipientManagesTeams) {
+          throw new ForbiddenError('You can send direct messages to Managers only.');
         }
       }
 
-      if (senderRole === 'manager') {
+      if (sendScope === 'team') {
         if (!resolvedRecipientId) {
-          throw new Error('Managers can send direct messages only. Select a team employee or a Director.');
+          throw new ForbiddenError('You can send direct messages only. Select a team member or a Director.');
         }
-        if (resolvedRecipientRole === 'director') {
-          // allowed
-        } else if (resolvedRecipientRole === 'employee') {
-          const isTeamEmployee = managerTeamUserIds.includes(resolvedRecipientId);
-          if (!isTeamEmployee) {
-            throw new Error('Managers can message only employees in their own team.');
-          }
-        } else {
-          throw new Error('Managers can message team employees or Directors only.');
+        if (resolvedRecipientRole !== DIRECTOR_ROLE && !reportingTeam?.userIds.has(resolvedRecipientId)) {
+          throw new ForbiddenError('You can message only your own team or Directors.');
         }
       }
 
@@ -1886,7 +3261,7 @@ export const resolvers = {
       } else if (resolvedRecipientRole) {
         conversationId = `broadcast_${user!.id}_${Date.now()}`;
       } else {
-        throw new Error('Please select a valid recipient');
+        throw ValidationError.forField('recipientId', 'Please select a valid recipient', 'REQUIRED');
       }
 
       let recipientEmail: string | null = null;
@@ -1907,7 +3282,7 @@ export const resolvers = {
           subject: input.subject || null,
           message: input.message,
           messageType: resolvedRecipientId ? (input.replyToId ? 'reply' : 'direct') : 'broadcast',
-          priority: input.priority || 'normal',
+          priority: input.priority || 'NORMAL',
           replyToId: input.replyToId || null,
           isRead: false,
         },
@@ -1936,7 +3311,7 @@ export const resolvers = {
           },
         });
 
-        const notifications = recipients.map((recipient) => ({
+        const notifications: Prisma.NotificationCreateManyInput[] = recipients.map((recipient) => ({
           userId: recipient.id,
           userEmail: recipient.email,
           title: `Broadcast from ${user!.role}: ${user!.email}`,
@@ -1946,7 +3321,7 @@ export const resolvers = {
           metadata: { messageId: message.id, senderId: user!.id },
         }));
 
-        await prisma.notification.createMany({ data: notifications });
+        await createNotifications(prisma, notifications);
       }
 
       await prisma.accessLog.create({
@@ -1955,7 +3330,7 @@ export const resolvers = {
           userEmail: user!.email,
           action: 'SEND_MESSAGE',
           details: stringifyAuditDetails({
-            senderRole,
+            senderRole: user!.role,
             recipientId: resolvedRecipientId,
             recipientRole: resolvedRecipientRole,
             conversationId,
@@ -1966,7 +3341,7 @@ export const resolvers = {
       return message;
     },
 
-    markMessageAsRead: async (_: any, { id }: any, ctx: Context) => {
+    markMessageAsRead: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
       const message = await ctx.prisma.message.findFirst({
         where: {
@@ -1975,7 +3350,7 @@ export const resolvers = {
         },
       });
       if (!message) {
-        throw new Error('Not authorized to mark this message as read');
+        throw new ForbiddenError('Not authorized to mark this message as read');
       }
       return ctx.prisma.message.update({
         where: { id: message.id },
@@ -1986,7 +3361,7 @@ export const resolvers = {
       });
     },
 
-    markConversationAsRead: async (_: any, { conversationId }: any, ctx: Context) => {
+    markConversationAsRead: async (_, { conversationId }, ctx: Context) => {
       requireAuth(ctx);
       await ctx.prisma.message.updateMany({
         where: {
@@ -2005,22 +3380,22 @@ export const resolvers = {
       return true;
     },
 
-    deleteMessage: async (_: any, { id }: any, ctx: Context) => {
+    deleteMessage: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
-      // Only sender or director can delete
+      // Only sender or a moderator can delete
       const message = await ctx.prisma.message.findUnique({
         where: { id },
       });
 
-      if (message && (message.senderId === ctx.user!.id || ctx.user!.role === 'director')) {
+      if (message && (message.senderId === ctx.user!.id || can(ctx, 'message.moderate'))) {
         await ctx.prisma.message.delete({ where: { id } });
         return true;
       }
-      throw new Error('Not authorized to delete this message');
+      throw new ForbiddenError('Not authorized to delete this message');
     },
 
     // Notification mutations
-    markNotificationAsRead: async (_: any, { id }: any, ctx: Context) => {
+    markNotificationAsRead: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
       const notification = await ctx.prisma.notification.findFirst({
         where: {
@@ -2029,7 +3404,7 @@ export const resolvers = {
         },
       });
       if (!notification) {
-        throw new Error('Not authorized to update this notification');
+        throw new ForbiddenError('Not authorized to update this notification');
       }
       return ctx.prisma.notification.update({
         where: { id: notification.id },
@@ -2040,7 +3415,7 @@ export const resolvers = {
       });
     },
 
-    markAllNotificationsAsRead: async (_: any, __: any, ctx: Context) => {
+    markAllNotificationsAsRead: async (_, __, ctx: Context) => {
       requireAuth(ctx);
       await ctx.prisma.notification.updateMany({
         where: {
@@ -2055,7 +3430,7 @@ export const resolvers = {
       return true;
     },
 
-    deleteNotification: async (_: any, { id }: any, ctx: Context) => {
+    deleteNotification: async (_, { id }, ctx: Context) => {
       requireAuth(ctx);
       const result = await ctx.prisma.notification.deleteMany({
         where: {
@@ -2064,18 +3439,16 @@ export const resolvers = {
         },
       });
       if (result.count === 0) {
-        throw new Error('Not authorized to delete this notification');
+        throw new ForbiddenError('Not authorized to delete this notification');
       }
       return true;
     },
 
     // Create notification (Admin/Manager)
-    createNotification: async (_: any, { input }: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
+    createNotification: async (_, { input }, ctx: Context) => {
+      authorize(ctx, 'notification.create');
       const { prisma } = ctx;
-      const normalizedType = String(input.type || 'INFO')
-        .trim()
-        .toUpperCase();
+      const notificationType = input.type;
 
       // Create notifications for recipients
       const notifications = [];
@@ -2087,7 +3460,7 @@ export const resolvers = {
         });
 
         if (!recipient) {
-          throw new Error('Recipient user not found');
+          throw new NotFoundError('Recipient user not found');
         }
 
         const notification = await prisma.notification.create({
@@ -2096,7 +3469,7 @@ export const resolvers = {
             userEmail: recipient.email,
             title: input.title,
             message: input.message,
-            type: normalizedType,
+            type: notificationType,
             linkTo: input.linkTo || null,
           },
         });
@@ -2107,31 +3480,31 @@ export const resolvers = {
           where: { role: input.recipientRole },
         });
         if (recipients.length === 0) {
-          throw new Error('No recipients found for this role');
+          throw ValidationError.forField('recipientRole', 'No recipients found for this role');
         }
 
-        for (const recipient of recipients) {
-          const notification = await prisma.notification.create({
-            data: {
+        notifications.push(
+          ...(await createNotifications(
+            prisma,
+            recipients.map((recipient) => ({
               userId: recipient.id,
               userEmail: recipient.email,
               title: input.title,
               message: input.message,
-              type: normalizedType,
+              type: notificationType,
               linkTo: input.linkTo || null,
-            },
-          });
-          notifications.push(notification);
-        }
+            })),
+          )),
+        );
       } else {
-        throw new Error('Either recipientUserId or recipientRole is required');
+        throw ValidationError.forField('recipientUserId', 'Either recipientUserId or recipientRole is required', 'REQUIRED');
       }
 
       return notifications[0]; // Return first notification created
     },
 
     // Send thread message
-    sendThreadMessage: async (_: any, { input }: any, ctx: Context) => {
+    sendThreadMessage: async (_, { input }, ctx: Context) => {
       requireAuth(ctx);
       const { prisma, user } = ctx;
 
@@ -2172,40 +3545,36 @@ export const resolvers = {
       });
 
       if (thread) {
-        const otherParticipants = thread.participants.filter((p) => p !== user!.id);
-
-        for (const participantId of otherParticipants) {
-          const participant = await prisma.user.findUnique({
-            where: { id: participantId },
-          });
-
-          if (participant) {
-            await prisma.notification.create({
-              data: {
-                userId: participant.id,
-                userEmail: participant.email,
-                title: `New message from ${user!.email}`,
-                message: input.body.substring(0, 100),
-                type: 'MESSAGE',
-                linkTo: `/threads/${threadId}`,
-                metadata: { threadId, messageId: message.id },
-              },
-            });
-          }
-        }
+        const otherParticipants = thread.participants.filter((participantId: number) => participantId !== user!.id);
+        const participants = await ctx.loaders.user.loadMany(otherParticipants);
+
+        await createNotifications(
+          prisma,
+          participants
+            .filter((participant): participant is User => Boolean(participant) && !(participant instanceof Error))
+            .map((participant) => ({
+              userId: participant.id,
+              userEmail: participant.email,
+              title: `New message from ${user!.email}`,
+              message: input.body.substring(0, 100),
+              type: 'MESSAGE',
+              linkTo: `/threads/${threadId}`,
+              metadata: { threadId, messageId: message.id },
+            })),
+        );
       }
 
       return message;
     },
 
     // Create review request (Flag/Terminate)
-    createReviewRequest: async (_: any, { input }: any, ctx: Context) => {
-      requireManagerOrAbove(ctx);
+    createReviewRequest: async (_, { input }, ctx: Context) => {
+      authorizeOrDelegated(ctx, 'review.create');
       const { prisma, user } = ctx;
 
       // Validate reason text length
       if (!input.managerReasonText || input.managerReasonText.trim().length < 20) {
-        throw new Error('Reason details must be at least 20 characters');
+        throw ValidationError.forField('managerReasonText', 'Reason details must be at least 20 characters', 'TOO_SHORT');
       }
 
       // Get employee
@@ -2213,9 +3582,16 @@ export const resolvers = {
         where: { id: input.employeeId },
       });
 
-      if (!employee) {
-        throw new Error('Employee not found');
+      const resource = { managerId: employee?.managerId ?? null };
+      const delegation =
+        employee && !can(ctx, 'review.create', resource) ? findDelegation(ctx, 'review.create', resource) : null;
+      if (!employee || (!can(ctx, 'review.create', resource) && !delegation)) {
+        throw new NotFoundError('Employee not found');
       }
+      if (delegation && employee.userId === user!.id) {
+        throw new ForbiddenError('You cannot request a review of yourself on someone else\'s behalf');
+      }
+      const requester = onBehalfOf(user!.email, delegation);
 
       // Determine new status
       const newStatus = input.type === 'FLAG' ? 'UNDER_REVIEW' : 'TERMINATION_REQUESTED';
@@ -2263,35 +3639,30 @@ export const resolvers = {
           senderId: 0,
           senderEmail: 'system',
           senderRole: 'system',
-          body: `Manager ${user!.email} created ${input.type} request.\nReason Type: ${input.managerReasonType}\nReason: ${input.managerReasonText}`,
+          body: `Manager ${requester} created ${input.type} request.\nReason Type: ${input.managerReasonType}\nReason: ${input.managerReasonText}`,
           type: 'SYSTEM',
         },
       });
 
-      // Notify all directors/admins
-      const admins = await prisma.user.findMany({
-        where: { role: 'director' },
-      });
-
-      for (const admin of admins) {
-        await prisma.notification.create({
-          data: {
-            userId: admin.id,
-            userEmail: admin.email,
-            title: `${input.type} Request from ${user!.email}`,
-            message: `Review needed for employee: ${employee.name}`,
-            type: 'APPROVAL',
-            linkTo: `/review-requests/${request.id}`,
-            metadata: { requestId: request.id, employeeId: input.employeeId },
-          },
-        });
-      }
+      // Notify everyone who decides reviews (directors)
+      const admins = await findUsersWithPermission('review.decide');
+
+      await createNotifications(
+        prisma,
+        admins.map((admin) => ({
+          userId: admin.id,
+          userEmail: admin.email,
+          title: `${input.type} Request from ${requester}`,
+          message: `Review needed for employee: ${employee.name}`,
+          type: 'APPROVAL',
+          linkTo: `/review-requests/${request.id}`,
+          metadata: { requestId: request.id, employeeId: input.employeeId },
+        })),
+      );
 
       // Optionally notify employee
       if (input.visibleToEmployee && employee.userId) {
-        const empUser = await prisma.user.findUnique({
-          where: { id: employee.userId },
-        });
+        const empUser = await ctx.loaders.user.load(employee.userId);
 
         if (empUser) {
           await prisma.notification.create({
@@ -2312,15 +3683,15 @@ export const resolvers = {
           userId: user!.id,
           userEmail: ctx.user!.email,
           action: 'CREATE_REVIEW_REQUEST',
-          details: `Created ${input.type} review request for employee ${input.employeeId}`,
+          details: `${requester} created ${input.type} review request for employee ${input.employeeId}`,
         },
       });
       return request;
     },
 
     // Admin review decision
-    reviewDecision: async (_: any, { input }: any, ctx: Context) => {
-      requireDirector(ctx);
+    reviewDecision: async (_, { input }, ctx: Context) => {
+      authorizeOrDelegated(ctx, 'review.decide');
       const { prisma, user } = ctx;
 
       // Get request
@@ -2328,18 +3699,26 @@ export const resolvers = {
         where: { id: input.requestId },
         include: { employee: true },
       });
+      const resource = { userId: request?.employee.userId ?? null, managerId: request?.employee.managerId ?? null };
+      // Set when the caller decides as someone covering for the employee's manager
+      const delegation =
+        request && !can(ctx, 'review.decide', resource) ? findDelegation(ctx, 'review.decide', resource) : null;
+      if (!request || (!can(ctx, 'review.decide', resource) && !delegation)) {
+        throw new NotFoundError('Review request not found');
+      }
+      const decidedBy = onBehalfOf(user!.email, delegation);
 
-      if (!request) {
-        throw new Error('Review request not found');
+      if (delegation && request.employee.userId === user!.id) {
+        throw new ForbiddenError('You cannot decide a review of yourself on someone else\'s behalf');
       }
 
       if (request.status !== 'PENDING') {
-        throw new Error('Request has already been reviewed');
+        throw new ConflictError('Request has already been reviewed');
       }
 
       // Validate admin comment
       if (!input.adminComment || input.adminComment.trim().length < 10) {
-        throw new Error('Admin comment must be at least 10 characters');
+        throw ValidationError.forField('adminComment', 'Admin comment must be at least 10 characters', 'TOO_SHORT');
       }
 
       // Determine new employee status
@@ -2380,16 +3759,14 @@ export const resolvers = {
             senderId: 0,
             senderEmail: 'system',
             senderRole: 'system',
-            body: `Admin ${user!.email} ${input.decision.toLowerCase()} this request.\nComment: ${input.adminComment}`,
+            body: `Admin ${decidedBy} ${input.decision.toLowerCase()} this request.\nComment: ${input.adminComment}`,
             type: 'SYSTEM',
           },
         });
       }
 
       // Notify manager
-      const manager = await prisma.user.findUnique({
-        where: { id: request.requestedByManagerId },
-      });
+      const manager = await ctx.loaders.user.load(request.requestedByManagerId);
 
       if (manager) {
         await prisma.notification.create({
@@ -2403,13 +3780,44 @@ export const resolvers = {
             metadata: { requestId: request.id, decision: input.decision },
           },
         });
+        await sendEmail(
+          'reviewOutcome',
+          manager.email,
+          {
+            employeeName: request.employee.name,
+            requestType: request.type,
+            decision: input.decision,
+            newStatus: newEmployeeStatus,
+            comment: input.adminComment,
+            forEmployee: false,
+            link: appLink('/review-requests'),
+          },
+          { userId: manager.id },
+        );
+      }
+
+      // ...and whoever is covering the manager's reviews while they are away
+      const delegates = (await findActiveDelegates(request.requestedByManagerId, 'review.create')).filter(
+        (delegate: { id: number }) => delegate.id !== user!.id,
+      );
+      if (delegates.length > 0) {
+        await createNotifications(
+          prisma,
+          delegates.map((delegate: { id: number; email: string }) => ({
+            userId: delegate.id,
+            userEmail: delegate.email,
+            title: `${manager?.email || 'Manager'}'s ${request.type} request was ${input.decision.toLowerCase()}`,
+            message: `For employee: ${request.employee.name}. Comment: ${input.adminComment}`,
+            type: 'APPROVAL',
+            linkTo: `/review-requests/${request.id}`,
+            metadata: { requestId: request.id, decision: input.decision, onBehalfOfId: request.requestedByManagerId },
+          })),
+        );
       }
 
       // Notify employee if visible
       if (request.visibleToEmployee && request.employee.userId) {
-        const empUser = await prisma.user.findUnique({
-          where: { id: request.employee.userId },
-        });
+        const empUser = await ctx.loaders.user.load(request.employee.userId);
 
         if (empUser) {
           const title =
@@ -2430,6 +3838,19 @@ export const resolvers = {
               linkTo: '/my-profile',
             },
           });
+          await sendEmail(
+            'reviewOutcome',
+            empUser.email,
+            {
+              employeeName: request.employee.name,
+              requestType: request.type,
+              decision: input.decision,
+              newStatus: newEmployeeStatus,
+              forEmployee: true,
+              link: appLink('/profile'),
+            },
+            { userId: empUser.id },
+          );
         }
       }
 
@@ -2438,16 +3859,83 @@ export const resolvers = {
           userId: user!.id,
           userEmail: ctx.user!.email,
           action: 'REVIEW_DECISION',
-          details: `Review decision ${input.decision} for request ${input.requestId}`,
+          details: `${decidedBy}: review decision ${input.decision} for request ${input.requestId}`,
         },
       });
       return updatedRequest;
     },
 
-    sendSlackNotification: async (_: any, { webhookUrl, text }: any, ctx: Context) => {
-      requireAdmin(ctx);
+    sendSlackNotification: async (_, { webhookUrl, text }, ctx: Context) => {
+      authorize(ctx, 'integration.slack');
       await sendSlackMessage(webhookUrl, text);
       return { success: true };
     },
   },
+
+  /**
+   * SUBSCRIPTIONS (WebSocket, see utils/realtime.ts)
+   * Every event goes to every subscriber; the filters keep what each user sees to
+   * what the matching query would return them.
+   */
+  Subscription: {
+    notificationAdded: {
+      subscribe: subscribeWithFilter(
+        (_, __, ctx) => {
+          requireAuth(ctx);
+          return pubsub.asyncIterator(REALTIME_EVENTS.notificationAdded);
+        },
+        (payload, _, ctx) => payload.notificationAdded.userId === ctx.user!.id,
+      ),
+    },
+
+    // Same visibility as the messages query
+    messageReceived: {
+      subscribe: subscribeWithFilter<SubscriptionMessageReceivedArgs>(
+        (_, __, ctx) => {
+          requireAuth(ctx);
+          return pubsub.asyncIterator(REALTIME_EVENTS.messageReceived);
+        },
+        (payload, { conversationId }, ctx) => {
+          const message = payload.messageReceived;
+          if (conversationId && message.conversationId !== conversationId) return false;
+          return (
+            message.senderId === ctx.user!.id ||
+            message.recipientId === ctx.user!.id ||
+            (message.recipientId === null && message.recipientRole === ctx.user!.role)
+          );
+        },
+      ),
+    },
+
+    // Participants and moderators, like the thread query
+    threadMessageAdded: {
+      subscribe: subscribeWithFilter<SubscriptionThreadMessageAddedArgs>(
+        (_, __, ctx) => {
+          requireAuth(ctx);
+          return pubsub.asyncIterator(REALTIME_EVENTS.threadMessageAdded);
+        },
+        (payload, { threadId }, ctx) =>
+          payload.threadMessageAdded.threadId === threadId &&
+          (payload.participants.includes(ctx.user!.id) || can(ctx, 'message.moderate')),
+      ),
+    },
+
+    // Your own requests, plus the ones leaveRequests shows you (leave.read scope or a delegation)
+    leaveRequestUpdated: {
+      subscribe: subscribeWithFilter(
+        (_, __, ctx) => {
+          requireAuth(ctx);
+          return pubsub.asyncIterator(REALTIME_EVENTS.leaveRequestUpdated);
+        },
+        (payload, _, ctx) => {
+          const { employee } = payload;
+          return (
+            employee.userId === ctx.user!.id ||
+            can(ctx, 'leave.read', employee) ||
+            findDelegation(ctx, 'leave.read', employee) !== null
+          );
+        },
+      ),
+    },
+  },
 };
@@ -11,113 +11,371 @@
  * - Password Hashing: We never store plain passwords! Use bcrypt to encrypt
  *
  * Flow: Login → Get tokens → Use access token → When expired, use refresh token → Get new access token
+ *
+ * Refresh tokens are single-use: every /refresh returns a NEW refresh token and revokes
+ * the old one. All tokens rotated from one login form a "family". If a revoked token is
+ * ever presented again, someone copied it - so the whole family is revoked.
+ *
+ * Sign-in, sign-up, refresh and forgot-password are rate limited per IP (and per email
+ * where the body has one) - see utils/rateLimit. Limited requests get 429 + Retry-After.
  */
 
-import { Router } from 'express';
-import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { prisma } from '../utils/prisma';
 import bcrypt from 'bcryptjs'; // For password hashing (security!)
 import jwt from 'jsonwebtoken'; // For creating JWT tokens
-
-// Connect to database
-const prisma = new PrismaClient();
+import { consume2FACode, consumeRecoveryCode, openTwoFAChallenge, closeTwoFAChallenge } from '../utils/twofa';
+import { revokeSession, revokeUserSessions } from '../utils/sessions';
+import { signAccessToken } from '../utils/tokens';
+import { verifyGoogleIdToken } from '../utils/googleAuth';
+import { getInvitationStatus, hashInvitationToken } from '../utils/invitations';
+import { loadRolePermissions } from '../utils/permissions';
+import { appLink, sendEmail } from '../utils/mail';
+import {
+  PasswordPolicyError,
+  assertPasswordAllowed,
+  getPasswordChangeReason,
+  nextPasswordHistory,
+} from '../utils/passwordPolicy';
+import {
+  limitForgotPasswordByEmail,
+  limitForgotPasswordByIp,
+  limitGoogleLinkByEmail,
+  limitLoginByEmail,
+  limitLoginByIp,
+  limitRefreshByIp,
+  limitRegisterByIp,
+  limitResetPasswordByIp,
+  limitTwoFactorByUser,
+} from '../utils/rateLimit';
 
 // Create Express router - holds all our /auth routes
 export const authRouter = Router();
 
 // Secrets for signing JWT tokens (like a signature that proves tokens are real)
 // In production, these come from environment variables (.env file)
-const ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'dev-access-secret';
 const REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'dev-refresh-secret';
 const RESET_SECRET = process.env.JWT_RESET_SECRET || 'dev-reset-secret';
-
-/**
- * CREATE ACCESS TOKEN
- * Access token = short-lived (15 minutes) token for API requests
- * Contains: userId and role (director/manager/employee)
- * Frontend sends this with every GraphQL request in Authorization header
- */
-function signAccessToken(userId: number, role: string) {
-  return jwt.sign({ userId, role }, ACCESS_SECRET, { expiresIn: '15m' });
-}
+const TWO_FA_SECRET = process.env.JWT_2FA_SECRET || 'dev-2fa-secret';
 
 /**
  * CREATE REFRESH TOKEN
  * Refresh token = long-lived (7 days) token to get new access tokens
  * Only contains userId (less info = more secure)
  * Frontend stores this safely and uses it when access token expires
+ * The random jwtid keeps two tokens signed in the same second from being identical.
  */
 function signRefreshToken(userId: number) {
-  return jwt.sign({ userId }, REFRESH_SECRET, { expiresIn: '7d' });
+  return jwt.sign({ userId }, REFRESH_SECRET, { expiresIn: '7d', jwtid: crypto.randomUUID() });
+}
+
+/**
+ * CREATE 2FA CHALLENGE TOKEN
+ * Short-lived (5 minutes) token returned by /login when the user has 2FA enabled.
+ * It proves the password step passed, but can ONLY be exchanged at /login/2fa -
+ * it is signed with its own secret so it never works as an access token.
+ */
+async function signTwoFAChallengeToken(userId: number) {
+  const challengeId = await openTwoFAChallenge(userId);
+  return jwt.sign({ userId, challengeId, purpose: '2fa-challenge' }, TWO_FA_SECRET, { expiresIn: '5m' });
+}
+
+/**
+ * WHO IS LOGGING IN
+ * Device details we keep on each session so users can recognise their logins.
+ */
+type SessionClient = { userAgent: string | null; ipAddress: string | null };
+
+function getSessionClient(req: Request): SessionClient {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 512) || null,
+    ipAddress: req.ip || null,
+  };
+}
+
+/**
+ * START A SESSION
+ * Signs an access + refresh token pair and stores the refresh token in the
+ * database (so it can be revoked later). Used by every route that logs someone in.
+ * Pass the familyId when rotating, so the new token joins the old token's session
+ * instead of starting a new one.
+ *
+ * If the user still has a temporary password (or it expired) the access token is
+ * restricted to changePassword, and the response says why in user.passwordChangeRequired.
+ * Refreshing keeps handing out restricted tokens until the password is changed.
+ * user.permissions is what their role may do, so the frontend can hide what they can't.
+ */
+async function createSession(
+  user: {
+    id: number;
+    email: string;
+    role: string;
+    tokenVersion: number;
+    passwordHash: string | null;
+    mustChangePassword: boolean;
+    passwordChangedAt: Date | null;
+  },
+  client: SessionClient,
+  familyId?: string,
+) {
+  const sessionId = familyId ?? crypto.randomUUID();
+
+  if (familyId) {
+    await prisma.session.update({
+      where: { id: sessionId },
+      data: { lastUsedAt: new Date(), ...client },
+    });
+  } else {
+    await prisma.session.create({
+      data: { id: sessionId, userId: user.id, ...client },
+    });
+  }
+
+  const passwordChangeRequired = getPasswordChangeReason(user);
+  const accessToken = signAccessToken(user, sessionId, {
+    passwordChangeOnly: Boolean(passwordChangeRequired),
+  });
+  const refreshToken = signRefreshToken(user.id);
+
+  await prisma.refreshToken.create({
+    data: {
+      token: refreshToken,
+      familyId: sessionId,
+      userId: user.id,
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+    },
+  });
+
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      permissions: await loadRolePermissions(user.role),
+      passwordChangeRequired,
+    },
+    accessToken, // Frontend uses this for API requests
+    refreshToken, // Frontend stores this to get new access tokens
+  };
+}
+
+/**
+ * CHECK DIRECTOR ACCESS CONTROL
+ * Returns an error message if a Director has blocked this account, or null if
+ * they may log in. A temporary block that has run out is lifted automatically.
+ */
+async function checkAccountAccess(user: {
+  id: number;
+  isActive: boolean;
+  accessBlockedUntil: Date | null;
+  accessBlockReason: string | null;
+}) {
+  if (user.isActive !== false) {
+    return null;
+  }
+
+  // Check if it's a temporary block that has expired
+  if (user.accessBlockedUntil && new Date() > user.accessBlockedUntil) {
+    // Temporary block expired - restore access automatically
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        isActive: true,
+        accessBlockedUntil: null,
+        accessBlockReason: null,
+      },
+    });
+    return null;
+  }
+
+  const reason = user.accessBlockReason || 'Please contact your administrator.';
+  return `Account access has been denied. ${reason}`;
+}
+
+/**
+ * PASSWORD POLICY CHECK
+ * Replies 400 { error, fieldErrors } and returns false when the new password breaks
+ * the policy (see utils/passwordPolicy.ts), so the form can show what to fix.
+ */
+async function passwordAllowed(
+  res: Response,
+  password: string,
+  owner: Parameters<typeof assertPasswordAllowed>[1],
+  field = 'password',
+) {
+  try {
+    await assertPasswordAllowed(password, owner, field);
+    return true;
+  } catch (err) {
+    if (err instanceof PasswordPolicyError) {
+      res.status(400).json({ error: err.message, fieldErrors: err.fieldErrors });
+      return false;
+    }
+    throw err;
+  }
+}
+
+/**
+ * RECORD A FAILED LOGIN STEP
+ * Counts failed attempts for admins to see. Shared by the password step and the
+ * 2FA code step. The account is never locked: anyone who knows an email could
+ * lock its owner out that way. Guessing is slowed by the per-IP and per-account
+ * rate limits instead (utils/rateLimit), which lapse with their window.
+ */
+async function recordFailedLogin(user: { id: number }) {
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+  });
 }
 
 /**
- * REGISTER NEW USER
+ * LOOK UP AN INVITATION
+ * POST /auth/invitation
+ *
+ * The "accept invitation" page calls this with the token from the link so it can
+ * show who was invited and as what, before the invitee picks a password.
+ * (POST, not GET, so the token doesn't end up in URLs/access logs.)
+ */
+authRouter.post('/invitation', limitRegisterByIp, async (req, res) => {
+  try {
+    const { token } = req.body;
+    const invitation = token
+      ? await prisma.invitation.findUnique({ where: { tokenHash: hashInvitationToken(String(token)) } })
+      : null;
+
+    if (!invitation || getInvitationStatus(invitation) !== 'PENDING') {
+      return res.status(404).json({ error: 'This invitation link is invalid or has expired' });
+    }
+
+    return res.json({
+      email: invitation.email,
+      name: invitation.name,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt.toISOString(),
+    });
+  } catch (err: any) {
+    console.error('invitation lookup error', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * REGISTER NEW USER (by invitation)
  * POST /auth/register
  *
- * Creates a new user account with email and password.
+ * Registration is invite-only: nobody can sign up on their own or choose their role.
  * Steps:
- * 1. Check if email already exists (can't have duplicates!)
+ * 1. Find the invitation by its token (single use, expires)
  * 2. Hash the password with bcrypt (never store plain passwords!)
- * 3. Create user in database
- * 4. Generate access and refresh tokens
- * 5. Store refresh token in database
- * 6. Return user info and both tokens
- *
- * Frontend receives tokens and stores them for future requests.
+ * 3. Create the user with the INVITED role, plus their Employee record
+ *    (linked to the invited manager), and mark the invitation accepted
+ * 4. Log them in - return user info and both tokens
  */
-authRouter.post('/register', async (req, res) => {
+authRouter.post('/register', limitRegisterByIp, async (req, res) => {
   try {
     // Extract data from request body
-    const { email, password, role } = req.body;
+    const { token, password, name } = req.body;
 
-    // Validation: email and password are required
-    if (!email || !password) {
-      return res.status(400).json({ error: 'Email and password required' });
+    // Validation: invitation token and password are required
+    if (!token || !password) {
+      return res.status(400).json({ error: 'Invitation token and password required' });
+    }
+
+    const invitation = await prisma.invitation.findUnique({
+      where: { tokenHash: hashInvitationToken(String(token)) },
+    });
+    if (!invitation || getInvitationStatus(invitation) !== 'PENDING') {
+      return res.status(400).json({ error: 'This invitation link is invalid or has expired' });
     }
 
     // Check if user already exists
-    const existing = await prisma.user.findUnique({ where: { email } });
+    const existing = await prisma.user.findUnique({ where: { email: invitation.email } });
     if (existing) {
       return res.status(400).json({ error: 'User already exists' });
     }
 
+    if (!(await passwordAllowed(res, password, { email: invitation.email }))) {
+      return;
+    }
+
     // Hash password with bcrypt (10 = salt rounds, higher = more secure but slower)
     // This creates a one-way encrypted string - can't be reversed to get original password!
     const passwordHash = await bcrypt.hash(password, 10);
+    const displayName =
+      String(name || '').trim() || invitation.name || invitation.email.split('@')[0];
+
+    const user = await prisma.$transaction(async (tx) => {
+      // Claim the invitation first - of two simultaneous requests only one gets count 1
+      const claimed = await tx.invitation.updateMany({
+        where: { id: invitation.id, acceptedAt: null, revokedAt: null, expiresAt: { gt: new Date() } },
+        data: { acceptedAt: new Date() },
+      });
+      if (claimed.count === 0) {
+        return null;
+      }
 
-    // Allow only valid roles
-    const validRoles = ['admin', 'director', 'manager', 'employee'];
-    const userRole = validRoles.includes(role) ? role : 'employee';
+      // Create new user in database
+      const created = await tx.user.create({
+        data: {
+          email: invitation.email,
+          passwordHash, // Store encrypted password, not the real one
+          passwordHistory: nextPasswordHistory(passwordHash),
+          passwordChangedAt: new Date(),
+          role: invitation.role,
+          provider: 'local', // "local" means email/password (vs "google")
+        },
+      });
 
-    // Create new user in database
-    const user = await prisma.user.create({
-      data: {
-        email,
-        passwordHash, // Store encrypted password, not the real one
-        role: userRole,
-        provider: 'local', // "local" means email/password (vs "google")
-      },
+      // A director may have added the Employee record before inviting - link it instead
+      const employee = await tx.employee.findUnique({ where: { email: invitation.email } });
+      if (employee && !employee.userId) {
+        await tx.employee.update({
+          where: { id: employee.id },
+          data: {
+            userId: created.id,
+            ...(invitation.managerId ? { managerId: invitation.managerId } : {}),
+          },
+        });
+      } else if (!employee) {
+        await tx.employee.create({
+          data: {
+            name: displayName,
+            email: invitation.email,
+            userId: created.id,
+            age: 25,
+            className: 'N/A',
+            subjects: [],
+            attendance: 100,
+            role: invitation.role,
+            status: 'ACTIVE',
+            location: 'N/A',
+            lastLogin: new Date().toISOString(),
+            managerId: invitation.managerId,
+          },
+        });
+      }
+
+      return created;
     });
 
-    // Generate JWT tokens
-    const accessToken = signAccessToken(user.id, user.role);
-    const refreshToken = signRefreshToken(user.id);
+    if (!user) {
+      return res.status(400).json({ error: 'This invitation link is invalid or has expired' });
+    }
 
-    // Store refresh token in database (so we can check if it's revoked later)
-    await prisma.refreshToken.create({
+    await prisma.accessLog.create({
       data: {
-        token: refreshToken,
         userId: user.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days from now
+        userEmail: user.email,
+        action: 'ACCEPT_INVITATION',
+        details: JSON.stringify({ invitationId: invitation.id, role: user.role }),
+        ipAddress: req.ip || null,
       },
     });
 
-    // Return success with user data and tokens
-    return res.json({
-      user: { id: user.id, email: user.email, role: user.role },
-      accessToken, // Frontend uses this for API requests
-      refreshToken, // Frontend stores this to get new access tokens
-    });
+    // Generate JWT tokens and return success with user data and tokens
+    return res.json(await createSession(user, getSessionClient(req)));
   } catch (err: any) {
     console.error('register error', err);
     return res.status(500).json({ error: 'Internal server error' });
@@ -135,10 +393,13 @@ authRouter.post('/register', async (req, res) => {
  * 3. If match, generate new tokens
  * 4. Return user info and tokens
  *
+ * Temporary or expired password? Login still succeeds, but the access token can only
+ * call changePassword until a new one is chosen (user.passwordChangeRequired says why).
+ *
  * Security: We never say "email not found" or "wrong password" specifically
  * Just "Invalid credentials" to prevent attackers from discovering valid emails
  */
-authRouter.post('/login', async (req, res) => {
+authRouter.post('/login', limitLoginByIp, limitLoginByEmail, async (req, res) => {
   try {
     const { email, password } = req.body;
 
@@ -150,52 +411,29 @@ authRouter.post('/login', async (req, res) => {
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // 🚨 SECURITY FEATURE: Check if account is temporarily locked due to failed login attempts
-    if (user.lockedUntil && new Date() < user.lockedUntil) {
-      const minutesLeft = Math.ceil((user.lockedUntil.getTime() - Date.now()) / (1000 * 60));
-      return res.status(423).json({
-        error: `Account temporarily locked due to multiple failed login attempts. Try again in ${minutesLeft} minutes.`,
-      });
-    }
-
     // Compare submitted password with stored hash
     // bcrypt.compare() hashes the submitted password and compares with stored hash
     const ok = await bcrypt.compare(password, user.passwordHash);
     if (!ok) {
       // Password doesn't match - increment failed attempts
-      const failedAttempts = (user.failedLoginAttempts || 0) + 1;
-      const updateData: any = { failedLoginAttempts: failedAttempts };
-
-      // Lock account after 5 failed attempts (15 minutes)
-      if (failedAttempts >= 5) {
-        updateData.lockedUntil = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
-      }
-
-      await prisma.user.update({
-        where: { id: user.id },
-        data: updateData,
-      });
-
+      await recordFailedLogin(user);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
     // Check if user's access has been denied by Director (Access Control Feature)
-    if (user.isActive === false) {
-      // Check if it's a temporary block that has expired
-      if (user.accessBlockedUntil && new Date() > user.accessBlockedUntil) {
-        // Temporary block expired - restore access automatically
-        await prisma.user.update({
-          where: { id: user.id },
-          data: {
-            isActive: true,
-            accessBlockedUntil: null,
-            accessBlockReason: null,
-          },
-        });
-      } else {
-        const reason = user.accessBlockReason || 'Please contact your administrator.';
-        return res.status(403).json({ error: `Account access has been denied. ${reason}` });
-      }
+    const accessDenied = await checkAccountAccess(user);
+    if (accessDenied) {
+      return res.status(403).json({ error: accessDenied });
+    }
+
+    // 🔐 2FA enabled? The password alone is not enough - hand back a challenge
+    // token instead of real tokens. The client exchanges it at /auth/login/2fa.
+    // Failed attempts are NOT reset here, so wrong codes keep counting.
+    if (user.twoFAEnabled && user.twoFASecret) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: await signTwoFAChallengeToken(user.id),
+      });
     }
 
     // 🎉 Password is correct! Reset failed attempts and generate new tokens
@@ -203,92 +441,183 @@ authRouter.post('/login', async (req, res) => {
       where: { id: user.id },
       data: {
         failedLoginAttempts: 0,
-        lockedUntil: null,
       },
     });
 
-    const accessToken = signAccessToken(user.id, user.role);
-    const refreshToken = signRefreshToken(user.id);
+    // Return success - user is now logged in!
+    return res.json(await createSession(user, getSessionClient(req)));
+  } catch (err: any) {
+    console.error('login error', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * LOGIN STEP 2: TWO-FACTOR CODE
+ * POST /auth/login/2fa
+ *
+ * Second half of login for users with 2FA enabled.
+ * Body: { challengeToken, code } or { challengeToken, recoveryCode }
+ *
+ * Steps:
+ * 1. Verify the challenge token from /login (5 minute lifetime, usable once)
+ * 2. Check the 6-digit TOTP code from the authenticator app (each code works
+ *    once), OR burn one of the single-use recovery codes
+ * 3. If valid, close the challenge and issue the real access + refresh tokens
+ *
+ * Wrong codes are counted like wrong passwords.
+ */
+authRouter.post('/login/2fa', limitLoginByIp, limitTwoFactorByUser, async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Challenge token and code required' });
+    }
 
-    // Store refresh token in database
-    await prisma.refreshToken.create({
+    let decoded: any;
+    try {
+      decoded = jwt.verify(challengeToken, TWO_FA_SECRET);
+    } catch (err) {
+      return res.status(401).json({ error: 'Login session expired. Please sign in again.' });
+    }
+
+    if (decoded?.purpose !== '2fa-challenge' || !decoded?.userId || !decoded?.challengeId) {
+      return res.status(401).json({ error: 'Login session expired. Please sign in again.' });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+    if (!user || !user.twoFAEnabled || !user.twoFASecret) {
+      return res.status(401).json({ error: 'Invalid credentials' });
+    }
+
+    // Each challenge passes once; a newer login attempt replaces it
+    if (user.twoFAChallengeId !== decoded.challengeId) {
+      return res.status(401).json({ error: 'Login session expired. Please sign in again.' });
+    }
+
+    if (user.isActive === false) {
+      const reason = user.accessBlockReason || 'Please contact your administrator.';
+      return res.status(403).json({ error: `Account access has been denied. ${reason}` });
+    }
+
+    const ok = code
+      ? await consume2FACode(user.id, user.twoFASecret, String(code).trim())
+      : await consumeRecoveryCode(user.id, String(recoveryCode));
+    if (!ok) {
+      await recordFailedLogin(user);
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+
+    if (!(await closeTwoFAChallenge(user.id, decoded.challengeId))) {
+      return res.status(401).json({ error: 'Login session expired. Please sign in again.' });
+    }
+
+    // Both factors passed - reset failed attempts and log them in
+    await prisma.user.update({
+      where: { id: user.id },
       data: {
-        token: refreshToken,
-        userId: user.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
+        failedLoginAttempts: 0,
       },
     });
 
-    // Return success - user is now logged in!
-    return res.json({
-      user: { id: user.id, email: user.email, role: user.role },
-      accessToken,
-      refreshToken,
-    });
+    return res.json(await createSession(user, getSessionClient(req)));
   } catch (err: any) {
-    console.error('login error', err);
+    console.error('2fa login error', err);
     return res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 /**
- * GOOGLE LOGIN (Simplified POC version)
+ * GOOGLE LOGIN
  * POST /auth/google
  *
- * Simulates Google OAuth login. In a real app, this would:
- * 1. Redirect user to Google login page
- * 2. Google verifies identity and sends back token
- * 3. We verify Google token and create/login user
+ * "Sign in with Google". The frontend gets an ID token from Google Identity Services
+ * and posts it here as { idToken }. We never trust an email sent by the browser -
+ * only what is inside a Google-signed token (see utils/googleAuth.ts).
  *
- * For this POC, we just accept email and create/login user.
- * No password needed because Google verified them!
- *
- * This demonstrates "Social Login" - login with Google, Facebook, etc.
+ * Steps:
+ * 1. Verify the ID token (signature, aud, iss, exp, email_verified)
+ * 2. Find the account: first by Google `sub` (providerId), then by email
+ * 3. Email belongs to an email/password account? Only link it if the request
+ *    also carries that account's password - otherwise anyone controlling a
+ *    Google account with the same address could take the account over
+ * 4. No account at all? Refuse - accounts are created by invitation only
+ * 5. Same access-control and 2FA checks as /login, then issue tokens
  */
-authRouter.post('/google', async (req, res) => {
+authRouter.post('/google', limitLoginByIp, limitGoogleLinkByEmail, async (req, res) => {
   try {
-    const { email, name } = req.body;
+    const { idToken, password } = req.body;
 
-    // Email is required (Google always provides this)
-    if (!email) {
-      return res.status(400).json({ error: 'Email required' });
+    if (!idToken) {
+      return res.status(400).json({ error: 'Google ID token required' });
     }
 
-    // Check if user already exists
-    let user = await prisma.user.findUnique({ where: { email } });
+    let identity;
+    try {
+      identity = await verifyGoogleIdToken(idToken);
+    } catch (err: any) {
+      console.warn('google token rejected:', err?.message);
+      return res.status(401).json({ error: 'Google sign-in failed. Please try again.' });
+    }
+
+    // Already linked to this Google account?
+    let user = await prisma.user.findFirst({ where: { providerId: identity.sub } });
 
     if (!user) {
-      // First time login with Google - create new user
-      user = await prisma.user.create({
-        data: {
-          email,
-          passwordHash: '', // No password for Google users!
-          role: 'employee', // Default role
-          provider: 'google', // Mark as Google login
-          providerId: email, // Google user identifier
-        },
-      });
+      const existing = await prisma.user.findUnique({ where: { email: identity.email } });
+
+      if (existing && existing.passwordHash) {
+        // Email/password account - the owner must prove it before we link Google to it
+        if (!password) {
+          return res.status(409).json({
+            error: 'An account with this email already exists. Enter its password to link Google sign-in.',
+            linkRequired: true,
+          });
+        }
+
+        const ok = await bcrypt.compare(password, existing.passwordHash);
+        if (!ok) {
+          await recordFailedLogin(existing);
+          return res.status(401).json({ error: 'Invalid credentials' });
+        }
+
+        user = await prisma.user.update({
+          where: { id: existing.id },
+          data: { providerId: identity.sub },
+        });
+      } else if (existing) {
+        // Google account created before real verification (providerId held the email)
+        if (existing.provider === 'google' && existing.providerId && existing.providerId !== identity.email) {
+          return res.status(401).json({ error: 'Google sign-in failed. Please try again.' });
+        }
+        user = await prisma.user.update({
+          where: { id: existing.id },
+          data: { provider: 'google', providerId: identity.sub },
+        });
+      } else {
+        // Registration is invite-only - accept the invitation first, then link Google
+        return res.status(403).json({
+          error: 'No account exists for this Google email. Ask your manager or director for an invitation.',
+        });
+      }
     }
 
-    // Generate tokens (same as regular login)
-    const accessToken = signAccessToken(user.id, user.role);
-    const refreshToken = signRefreshToken(user.id);
+    const accessDenied = await checkAccountAccess(user);
+    if (accessDenied) {
+      return res.status(403).json({ error: accessDenied });
+    }
 
-    // Store refresh token
-    await prisma.refreshToken.create({
-      data: {
-        token: refreshToken,
-        userId: user.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      },
-    });
+    // Google proves the email, not the second factor - 2FA users still need a code
+    if (user.twoFAEnabled && user.twoFASecret) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: await signTwoFAChallengeToken(user.id),
+      });
+    }
 
-    // Return user and tokens - they're logged in!
-    return res.json({
-      user: { id: user.id, email: user.email, role: user.role },
-      accessToken,
-      refreshToken,
-    });
+    // Generate tokens (same as regular login) - they're logged in!
+    return res.json(await createSession(user, getSessionClient(req)));
   } catch (err: any) {
     console.error('google login error', err);
     return res.status(500).json({ error: 'Internal server error' });
@@ -308,12 +637,14 @@ authRouter.post('/google', async (req, res) => {
  * 1. Frontend makes API request
  * 2. Gets 401 error (access token expired)
  * 3. Calls /refresh with refresh token
- * 4. Gets new access token
- * 5. Retries original request with new token
+ * 4. Gets new access token AND a new refresh token (the old one is now revoked)
+ * 5. Stores both and retries original request with new token
  *
- * This keeps users logged in without exposing long-lived access tokens!
+ * Reuse detection: a revoked token from a live session coming back means it was
+ * stolen (or the real user's copy was). We can't tell who is who, so the whole family is revoked and
+ * everyone holding it has to log in again. The event goes to the audit log.
  */
-authRouter.post('/refresh', async (req, res) => {
+authRouter.post('/refresh', limitRefreshByIp, async (req, res) => {
   try {
     const { refreshToken } = req.body;
 
@@ -325,14 +656,18 @@ authRouter.post('/refresh', async (req, res) => {
     // Look up refresh token in database
     const stored = await prisma.refreshToken.findUnique({
       where: { token: refreshToken },
-      include: { user: true }, // Include user data
+      include: { user: true, session: true }, // Include user data
     });
 
-    // Check if token exists and hasn't been revoked (logout)
-    if (!stored || stored.revoked) {
+    if (!stored) {
       return res.status(401).json({ error: 'Invalid refresh token' });
     }
 
+    // Signed out (by the user, an admin or a password change) - over, but not reuse
+    if (stored.session.revokedAt) {
+      return res.status(401).json({ error: 'Session has ended. Please sign in again.' });
+    }
+
     // Verify token signature and expiration
     try {
       jwt.verify(refreshToken, REFRESH_SECRET);
@@ -341,11 +676,45 @@ authRouter.post('/refresh', async (req, res) => {
       return res.status(401).json({ error: 'Invalid refresh token' });
     }
 
-    // Everything checks out! Create new access token
-    const accessToken = signAccessToken(stored.user.id, stored.user.role);
+    // Blocked accounts can't extend their session
+    if (stored.user.isActive === false) {
+      return res.status(403).json({ error: 'Account access has been denied.' });
+    }
+
+    // Revoke the presented token. Doing it as a conditional update means two
+    // requests racing with the same token can't both get through.
+    const consumed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, revoked: false },
+      data: { revoked: true, revokedAt: new Date() },
+    });
 
-    // Return new access token (refresh token stays the same)
-    return res.json({ accessToken });
+    if (consumed.count === 0) {
+      // 🚨 Already revoked - this token has been used before. Kill the family.
+      await revokeSession(stored.familyId);
+      await prisma.accessLog.create({
+        data: {
+          userId: stored.user.id,
+          userEmail: stored.user.email,
+          action: 'REFRESH_TOKEN_REUSE',
+          details: JSON.stringify({
+            familyId: stored.familyId,
+            refreshTokenId: stored.id,
+          }),
+          ipAddress: req.ip || null,
+        },
+      });
+      return res.status(401).json({ error: 'Invalid refresh token' });
+    }
+
+    // Everything checks out! Issue a new token pair in the same family
+    const session = await createSession(stored.user, getSessionClient(req), stored.familyId);
+
+    return res.json({
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken,
+      passwordChangeRequired: session.user.passwordChangeRequired,
+      permissions: session.user.permissions,
+    });
   } catch (err: any) {
     console.error('refresh error', err);
     return res.status(500).json({ error: 'Internal server error' });
@@ -353,19 +722,18 @@ authRouter.post('/refresh', async (req, res) => {
 });
 
 /**
- * FORGOT PASSWORD (Simplified POC)
+ * FORGOT PASSWORD
  * POST /auth/forgot-password
  *
- * In a real app, this would:
- * 1. Generate a unique reset token
- * 2. Store token with expiration (30 minutes)
- * 3. Send email with reset link: yourapp.com/reset?token=abc123
- * 4. User clicks link and submits new password
+ * Steps:
+ * 1. Generate a signed reset token (expires in 30 minutes)
+ * 2. Email a reset link: yourapp.com/?reset=abc123 (see utils/mail)
+ * 3. User clicks link and submits new password to /auth/reset-password
  *
- * For POC, we just log the request. No email service configured.
  * Always return success (don't reveal if email exists - security!)
+ * The email is sent in the background so response time doesn't give it away either.
  */
-authRouter.post('/forgot-password', async (req, res) => {
+authRouter.post('/forgot-password', limitForgotPasswordByIp, limitForgotPasswordByEmail, async (req, res) => {
   const { email } = req.body;
   if (email) {
     const user = await prisma.user.findUnique({ where: { email } });
@@ -375,8 +743,12 @@ authRouter.post('/forgot-password', async (req, res) => {
         RESET_SECRET,
         { expiresIn: '30m' },
       );
-      // Replace with email provider integration in production.
-      console.log('Password reset token generated for', email, resetToken);
+      void sendEmail(
+        'passwordReset',
+        user.email,
+        { resetLink: appLink(`/?reset=${encodeURIComponent(resetToken)}`), expiresInMinutes: 30 },
+        { userId: user.id },
+      );
     }
   }
   // Always return success message (don't reveal if email exists)
@@ -384,19 +756,19 @@ authRouter.post('/forgot-password', async (req, res) => {
 });
 
 /**
- * RESET PASSWORD (Simplified POC)
+ * RESET PASSWORD
  * POST /auth/reset-password
  *
- * Allows user to set new password. In real app, would verify reset token first.
- * For POC, we just accept email + new password directly.
+ * Called from the emailed reset link with { token, newPassword }.
  *
  * Steps:
- * 1. Find user by email
- * 2. Hash new password
- * 3. Update user's passwordHash in database
- * 4. User can now login with new password
+ * 1. Verify the reset token (signature, purpose, 30 minute expiry)
+ * 2. Check the password policy (incl. not reusing a recent password)
+ * 3. Hash new password
+ * 4. Update user's passwordHash and log out every existing session
+ * 5. User can now login with new password
  */
-authRouter.post('/reset-password', async (req, res) => {
+authRouter.post('/reset-password', limitResetPasswordByIp, async (req, res) => {
   const { token, newPassword } = req.body;
 
   // Validate inputs
@@ -415,20 +787,33 @@ authRouter.post('/reset-password', async (req, res) => {
     return res.status(401).json({ error: 'Invalid or expired reset token' });
   }
 
+  const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+  if (!user) {
+    return res.status(401).json({ error: 'Invalid or expired reset token' });
+  }
+
+  if (!(await passwordAllowed(res, newPassword, user, 'newPassword'))) {
+    return;
+  }
+
   // Hash new password
   const passwordHash = await bcrypt.hash(newPassword, 10);
 
-  // Update password in database
+  // Update password in database, and bump tokenVersion so access tokens
+  // already handed out stop working immediately
   await prisma.user.update({
     where: { id: decoded.userId },
-    data: { passwordHash },
+    data: {
+      passwordHash,
+      passwordHistory: nextPasswordHistory(passwordHash, user),
+      passwordChangedAt: new Date(),
+      mustChangePassword: false, // They chose this one themselves
+      tokenVersion: { increment: 1 },
+    },
   });
 
-  // Revoke all existing refresh tokens so existing sessions cannot continue.
-  await prisma.refreshToken.updateMany({
-    where: { userId: decoded.userId, revoked: false },
-    data: { revoked: true },
-  });
+  // Revoke all existing sessions so they cannot continue.
+  await revokeUserSessions(decoded.userId);
 
   return res.json({ ok: true, message: 'Password updated.' });
 });
@@ -439,23 +824,24 @@ authRouter.post('/reset-password', async (req, res) => {
  *
  * Logs user out by revoking their refresh token.
  * Steps:
- * 1. Mark refresh token as revoked in database
+ * 1. Mark the session (and every refresh token in its family) as revoked in database
  * 2. Frontend deletes tokens from storage
  * 3. User is logged out
  *
- * Note: Access tokens can't be revoked (they're stateless).
- * They'll expire in 15 minutes anyway, so this is secure enough.
- * For ultra-secure apps, you'd maintain a blacklist of access tokens.
+ * The session's access tokens stop working at once too: they carry its id (sid) and
+ * the GraphQL context refuses tokens of a revoked session (isSessionLive). To cut off
+ * ALL access tokens of a user at once, bump User.tokenVersion (done on block, role
+ * change and password change).
  */
 authRouter.post('/logout', async (req, res) => {
   const { refreshToken } = req.body;
 
   if (refreshToken) {
-    // Mark token as revoked - can't be used to get new access tokens
-    await prisma.refreshToken.updateMany({
-      where: { token: refreshToken },
-      data: { revoked: true },
-    });
+    // Revoke the whole session - none of its tokens can be used to get new access tokens
+    const stored = await prisma.refreshToken.findUnique({ where: { token: refreshToken } });
+    if (stored) {
+      await revokeSession(stored.familyId);
+    }
   }
 
   // Return success - user is logged out
@@ -1,13 +1,21 @@
 import { Router } from 'express';
 import multer from 'multer';
 import csvParser from 'csv-parser';
-import { PrismaClient } from '@prisma/client';
+import { EmployeeStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma';
 import fs from 'fs';
 
-const prisma = new PrismaClient();
 const router = Router();
 const upload = multer({ dest: 'uploads/' });
 
+const EMPLOYEE_STATUSES: string[] = Object.values(EmployeeStatus);
+
+// CSV files carry whatever people typed ("active", "On-Leave") - null when it isn't a status
+function toEmployeeStatus(value: unknown): EmployeeStatus | null {
+  const normalized = String(value || '').trim().toUpperCase().replace(/[- ]+/g, '_');
+  return EMPLOYEE_STATUSES.includes(normalized) ? (normalized as EmployeeStatus) : null;
+}
+
 // Bulk import employees from CSV
 import { Request, Response } from 'express';
 router.post(
@@ -33,7 +41,8 @@ router.post(
                 name: row.name,
                 age: Number(row.age),
                 role: row.role,
-                status: row.status,
+                // Blank or unknown: keep the employee's current status
+                status: toEmployeeStatus(row.status) ?? undefined,
                 location: row.location,
                 attendance: Number(row.attendance),
                 className: row.className || '',
@@ -45,7 +54,7 @@ router.post(
                 email: row.email,
                 age: Number(row.age),
                 role: row.role,
-                status: row.status,
+                status: toEmployeeStatus(row.status) ?? 'ACTIVE',
                 location: row.location,
                 attendance: Number(row.attendance),
                 className: row.className || '',
@@ -13,64 +13,244 @@ export const typeDefs = gql`
     DESC
   }
 
+  # Status and type values - same names as the Prisma enums (prisma/schema.prisma)
+  enum EmployeeStatus {
+    ACTIVE
+    ON_LEAVE
+    UNDER_REVIEW
+    TERMINATION_REQUESTED
+    FLAGGED
+    TERMINATED
+  }
+
+  enum LeaveStatus {
+    PENDING
+    PENDING_DIRECTOR
+    APPROVED
+    REJECTED
+  }
+
+  enum LeaveType {
+    ANNUAL
+    SICK
+    SPECIAL
+    SABBATICAL
+    MATERNITY
+    PATERNITY
+    MEDICAL_EXTENDED
+  }
+
+  enum ReviewType {
+    FLAG
+    TERMINATE
+  }
+
+  enum ReviewStatus {
+    PENDING
+    APPROVED
+    REJECTED
+  }
+
+  # What a director decides on a review request
+  enum ReviewDecision {
+    APPROVED
+    REJECTED
+  }
+
+  enum NotificationType {
+    INFO
+    WARNING
+    CRITICAL
+    APPROVAL
+    MESSAGE
+    LEAVE
+  }
+
+  enum MessagePriority {
+    LOW
+    NORMAL
+    HIGH
+    URGENT
+  }
+
   type GenerateLoginsResult {
     success: Boolean!
     message: String!
     created: Int!
     skipped: Int!
     failed: Int!
+    # One-time passwords for the accounts created in this run - shown once, never stored
+    credentials: [GeneratedLogin!]!
+  }
+
+  type GeneratedLogin {
+    employeeId: Int!
+    email: String!
+    temporaryPassword: String!
   }
 
+  # A validation problem tied to one input field (e.g. password policy)
+  type FieldError {
+    field: String!
+    code: String!
+    message: String!
+  }
+
+  # Fields the viewer may not see are null - e.g. teammates get name, role,
+  # location and avatar only (rules in utils/fieldVisibility.ts)
   type Employee {
     id: Int!
     name: String!
     email: String
     userId: Int
-    age: Int!
-    className: String!
-    subjects: [String!]!
-    attendance: Int!
+    age: Int
+    className: String
+    subjects: [String!]
+    attendance: Int
     role: String!
-    status: String!
+    status: EmployeeStatus
     location: String!
-    lastLogin: String!
-    flagged: Boolean!
+    lastLogin: String
+    flagged: Boolean
     avatar: String
     managerId: Int
-    createdAt: String!
-    updatedAt: String!
+    createdAt: String
+    updatedAt: String
   }
 
-  type EmployeesPage {
-    items: [Employee!]!
-    total: Int!
-    page: Int!
-    pageSize: Int!
+  # A manager above an employee - level 1 is their direct manager
+  type ReportingChainLink {
+    level: Int!
+    userId: Int!
+    email: String!
+    role: String!
+    # The manager's own employee record, if they have one
+    employee: Employee
+  }
+
+  # Someone below a manager - level 1 reports to them directly
+  type Subordinate {
+    level: Int!
+    employee: Employee!
+  }
+
+  # One person in the org chart - the tree is built from parentId
+  type OrgChartNode {
+    # "user:<id>" for people with a login (only they can have reports), else "employee:<id>"
+    id: String!
+    parentId: String
+    userId: Int
+    employeeId: Int
+    # Employee.managerId as stored - what moving the node changes
+    managerId: Int
+    name: String!
+    role: String!
+    avatar: String
+    level: Int!
+    directReports: Int!
+    # Everyone below this person
+    headcount: Int!
+  }
+
+  # Cursor pagination (utils/pagination.ts): pass pageInfo.endCursor as "after" for the next page
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  type EmployeeEdge {
+    cursor: String!
+    node: Employee!
+  }
+
+  type EmployeeConnection {
+    edges: [EmployeeEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type NotificationEdge {
+    cursor: String!
+    node: Notification!
+  }
+
+  type NotificationConnection {
+    edges: [NotificationEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type MessageEdge {
+    cursor: String!
+    node: Message!
+  }
+
+  type MessageConnection {
+    edges: [MessageEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type ThreadEdge {
+    cursor: String!
+    node: Thread!
+  }
+
+  type ThreadConnection {
+    edges: [ThreadEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type ReviewRequestEdge {
+    cursor: String!
+    node: ReviewRequest!
+  }
+
+  type ReviewRequestConnection {
+    edges: [ReviewRequestEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  type AccessLogEdge {
+    cursor: String!
+    node: AccessLog!
+  }
+
+  type AccessLogConnection {
+    edges: [AccessLogEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
   }
 
   input EmployeeFilter {
     nameContains: String
     className: String
-    status: String
+    status: EmployeeStatus
     roleNot: String
+    emailContains: String
+    role: String
+    location: String
+    attendanceMin: Int
+    attendanceMax: Int
+    # true = has a login account (Employee.userId set), false = doesn't yet
+    hasLogin: Boolean
   }
 
   type EmployeePerformanceStats {
     employeeId: Int!
     name: String!
     attendance: Int!
-    performanceScore: Float!
+    notesCount: Int!
+    reviewCount: Int!
+    status: EmployeeStatus!
+    flagged: Boolean!
     lastReviewDate: String
   }
 
-  type AttendanceTrend {
-    date: String!
-    present: Int!
-    absent: Int!
-    late: Int!
-    total: Int!
-  }
-
   # All queries are now in a single type Query block below
 
   input EmployeeInput {
@@ -82,7 +262,7 @@ export const typeDefs = gql`
     subjects: [String!]!
     attendance: Int!
     role: String!
-    status: String!
+    status: EmployeeStatus!
     location: String!
     lastLogin: String!
     flagged: Boolean
@@ -114,7 +294,7 @@ export const typeDefs = gql`
     messageType: String!
     isRead: Boolean!
     readAt: String
-    priority: String!
+    priority: MessagePriority!
     replyToId: Int
     attachments: [String!]!
     createdAt: String!
@@ -127,7 +307,7 @@ export const typeDefs = gql`
     userEmail: String!
     title: String!
     message: String!
-    type: String!
+    type: NotificationType!
     isRead: Boolean!
     readAt: String
     actionUrl: String
@@ -146,6 +326,7 @@ export const typeDefs = gql`
     updatedAt: String!
     messages: [ThreadMessage!]!
     lastMessage: ThreadMessage
+    messageCount: Int!
   }
 
   type ThreadMessage {
@@ -165,8 +346,8 @@ export const typeDefs = gql`
     employee: Employee!
     requestedByManagerId: Int!
     requestedByEmail: String!
-    type: String!
-    status: String!
+    type: ReviewType!
+    status: ReviewStatus!
     managerReasonType: String!
     managerReasonText: String!
     visibleToEmployee: Boolean!
@@ -198,7 +379,7 @@ export const typeDefs = gql`
     recipientRole: String
     subject: String
     message: String!
-    priority: String
+    priority: MessagePriority
     replyToId: Int
   }
 
@@ -209,8 +390,8 @@ export const typeDefs = gql`
     reason: String!
     startDate: String!
     endDate: String!
-    type: String
-    status: String!
+    type: LeaveType
+    status: LeaveStatus!
     adminNote: String
     createdAt: String!
     updatedAt: String!
@@ -220,6 +401,9 @@ export const typeDefs = gql`
     id: Int!
     userId: Int!
     userEmail: String!
+    # Director who made the request while viewing as this user
+    impersonatorId: Int
+    impersonatorEmail: String
     action: String!
     details: String
     ipAddress: String
@@ -235,7 +419,133 @@ export const typeDefs = gql`
     accessBlockedUntil: String
     accessBlockReason: String
     failedLoginAttempts: Int
-    lockedUntil: String
+    twoFAEnabled: Boolean
+    emailNotifications: Boolean
+  }
+
+  type Session {
+    id: String!
+    userAgent: String
+    ipAddress: String
+    createdAt: String!
+    lastUsedAt: String!
+    current: Boolean!
+  }
+
+  type Invitation {
+    id: Int!
+    email: String!
+    name: String
+    role: String!
+    managerId: Int
+    invitedById: Int!
+    invitedByEmail: String
+    # PENDING, ACCEPTED, REVOKED or EXPIRED
+    status: String!
+    expiresAt: String!
+    acceptedAt: String
+    revokedAt: String
+    createdAt: String!
+  }
+
+  type InvitationResult {
+    invitation: Invitation!
+    # Single-use link for the invitee - only returned when it is (re)issued
+    inviteLink: String!
+  }
+
+  type ApiKey {
+    id: Int!
+    name: String!
+    # First characters of the key, to tell keys apart - the full key is shown only once
+    prefix: String!
+    scopes: [String!]!
+    # Addresses or CIDR ranges allowed to use the key; empty = any
+    allowedIps: [String!]!
+    createdById: Int!
+    createdByEmail: String
+    # ACTIVE, EXPIRED or REVOKED
+    status: String!
+    expiresAt: String
+    lastUsedAt: String
+    lastUsedIp: String
+    revokedAt: String
+    createdAt: String!
+  }
+
+  type ApiKeyResult {
+    apiKey: ApiKey!
+    # The full key ("pdk_...") - only returned here, it can't be looked up again
+    key: String!
+  }
+
+  type ImpersonationSession {
+    id: Int!
+    actorId: Int!
+    actorEmail: String
+    targetUserId: Int!
+    targetEmail: String
+    reason: String!
+    readOnly: Boolean!
+    expiresAt: String!
+    endedAt: String
+    createdAt: String!
+  }
+
+  type ImpersonationResult {
+    session: ImpersonationSession!
+    # The user the director is now viewing the app as
+    user: User!
+    # Access token for that user - expires with the session, there is no refresh token
+    accessToken: String!
+  }
+
+  # A manager's approvals handed to someone else while they are away
+  type ApprovalDelegation {
+    id: Int!
+    managerId: Int!
+    managerEmail: String
+    delegateId: Int!
+    delegateEmail: String
+    # Both empty: active whenever the manager's approved leave covers today
+    startDate: String
+    endDate: String
+    whileOnLeave: Boolean!
+    isActive: Boolean!
+    # What the delegate can do for the manager, e.g. "leave.approve"
+    permissions: [String!]!
+    reason: String
+    revokedAt: String
+    createdAt: String!
+  }
+
+  # A named permission from the catalog, e.g. "employee.update"
+  type Permission {
+    key: String!
+    category: String!
+    description: String!
+    # Scopes it can be granted with: "all", "team", "own"
+    scopes: [String!]!
+  }
+
+  type RolePermission {
+    permission: String!
+    # "all" records, the user's "team", or only their "own"
+    scope: String!
+  }
+
+  type Role {
+    id: Int!
+    # Stored on User.role, e.g. "hr_partner"
+    key: String!
+    name: String!
+    description: String
+    # director/manager/employee - can't be deleted (director can't be edited either)
+    isSystem: Boolean!
+    permissions: [RolePermission!]!
+    userCount: Int!
+    createdAt: String!
+    updatedAt: String!
   }
 
   type AccessControlLog {
@@ -281,6 +591,15 @@ export const typeDefs = gql`
   type PasswordChangeResult {
     success: Boolean!
     message: String!
+    # Replacement access token for the current session (the old one is invalidated)
+    accessToken: String
+    fieldErrors: [FieldError!]
+  }
+
+  type TwoFASetupResult {
+    otpauthUrl: String!
+    qrCode: String!
+    recoveryCodes: [String!]!
   }
 
   type SlackNotificationResult {
@@ -294,17 +613,54 @@ export const typeDefs = gql`
     toAll: Boolean
   }
 
+  input InvitationInput {
+    email: String!
+    name: String
+    role: String!
+    managerId: Int
+    expiresInDays: Int
+  }
+
+  input ApiKeyInput {
+    name: String!
+    scopes: [String!]!
+    expiresInDays: Int
+    allowedIps: [String!]
+  }
+
+  input RolePermissionInput {
+    permission: String!
+    # Defaults to the widest scope the permission supports
+    scope: String
+  }
+
+  input RoleInput {
+    # Only used when creating - generated from the name when left out
+    key: String
+    name: String!
+    description: String
+    permissions: [RolePermissionInput!]!
+  }
+
+  # Leave out both dates to delegate only while your own approved leave covers today
+  input ApprovalDelegationInput {
+    delegateId: Int!
+    startDate: String
+    endDate: String
+    reason: String
+  }
+
   input LeaveRequestInput {
     reason: String!
     startDate: String!
     endDate: String!
-    type: String
+    type: LeaveType
   }
 
   input CreateNotificationInput {
     recipientUserId: Int
     recipientRole: String
-    type: String!
+    type: NotificationType!
     title: String!
     message: String!
     linkTo: String
@@ -312,7 +668,7 @@ export const typeDefs = gql`
 
   input CreateReviewRequestInput {
     employeeId: Int!
-    type: String!
+    type: ReviewType!
     managerReasonType: String!
     managerReasonText: String!
     visibleToEmployee: Boolean!
@@ -320,7 +676,7 @@ export const typeDefs = gql`
 
   input ReviewDecisionInput {
     requestId: Int!
-    decision: String!
+    decision: ReviewDecision!
     adminComment: String!
   }
 
@@ -334,52 +690,69 @@ export const typeDefs = gql`
   }
 
   type Query {
+    # Lists below take first (default 20, max 100) and after (a cursor from the previous page)
     employees(
       filter: EmployeeFilter
-      page: Int = 1
-      pageSize: Int = 10
+      first: Int
+      after: String
       sortBy: EmployeeSortBy = CREATED_AT
       sortOrder: SortOrder = DESC
-    ): EmployeesPage!
+    ): EmployeeConnection!
 
     employee(id: Int!): Employee
+    reportingChain(employeeId: Int!): [ReportingChainLink!]!
+    # userId is the manager's User id (what Employee.managerId holds); depth caps the levels
+    subordinates(userId: Int!, depth: Int): [Subordinate!]!
+    # Whole company when rootUserId is left out (team readers: their own subtree)
+    orgChart(rootUserId: Int): [OrgChartNode!]!
     myProfile: Employee
 
     notes(employeeId: Int): [Note!]!
     myNotes: [Note!]!
 
     messages(conversationId: String): [Message!]!
-    myMessages: [Message!]!
+    myMessages(first: Int, after: String): MessageConnection!
     myConversations: [Conversation!]!
     messageStats: MessageStats!
 
-    notifications(type: String, isRead: Boolean): [Notification!]!
+    notifications(type: NotificationType, isRead: Boolean, first: Int, after: String): NotificationConnection!
     unreadNotifications: [Notification!]!
     notificationCount: Int!
 
     threads: [Thread!]!
     thread(id: Int!): Thread
-    myThreads: [Thread!]!
+    myThreads(first: Int, after: String): ThreadConnection!
 
-    reviewRequests(status: String): [ReviewRequest!]!
+    reviewRequests(status: ReviewStatus, first: Int, after: String): ReviewRequestConnection!
     reviewRequest(id: Int!): ReviewRequest
     myReviewRequests: [ReviewRequest!]!
 
-    leaveRequests(status: String): [LeaveRequest!]!
+    leaveRequests(status: LeaveStatus): [LeaveRequest!]!
     myLeaveRequests: [LeaveRequest!]!
+    # Delegations I have given, and the ones given to me (revoked and past ones included)
+    myDelegations: [ApprovalDelegation!]!
+    delegationsToMe: [ApprovalDelegation!]!
 
-    accessLogs(page: Int = 1, pageSize: Int = 50): [AccessLog!]!
+    accessLogs(first: Int, after: String): AccessLogConnection!
 
     adminUsers: [User!]!
     allUsers(searchTerm: String, roleFilter: String, statusFilter: String): [User!]!
     me: User
+    mySessions: [Session!]!
+    userSessions(userId: Int!): [Session!]!
+    invitations(status: String): [Invitation!]!
+    apiKeys: [ApiKey!]!
+    apiKeyScopes: [String!]!
+    roles: [Role!]!
+    permissions: [Permission!]!
+    # What the signed-in user may do (their role's grants)
+    myPermissions: [RolePermission!]!
 
     # New: Enhanced queries for features
     accessControlLogs(userId: Int, limit: Int = 50): [AccessControlLog!]!
     dashboardStats: DashboardStats!
     userStatistics(days: Int = 7): [UserStatistics!]!
     employeePerformanceStats(employeeId: Int!): EmployeePerformanceStats
-    attendanceTrends(days: Int = 30): [AttendanceTrend!]!
   }
 
   input ProfileUpdateInput {
@@ -393,6 +766,8 @@ export const typeDefs = gql`
   type Mutation {
     addEmployee(input: EmployeeInput!): Employee!
     updateEmployee(id: Int!, input: EmployeeInput!): Employee!
+    # managerUserId is a User id; null takes them off any team
+    setEmployeeManager(employeeId: Int!, managerUserId: Int): Employee!
     updateMyProfile(input: ProfileUpdateInput!): Employee!
     deleteEmployee(id: Int!): Boolean!
     deleteUser(id: Int!): Boolean!
@@ -421,12 +796,48 @@ export const typeDefs = gql`
     reviewDecision(input: ReviewDecisionInput!): ReviewRequest!
 
     createLeaveRequest(input: LeaveRequestInput!): LeaveRequest!
-    updateLeaveRequestStatus(id: Int!, status: String!, adminNote: String): LeaveRequest!
+    updateLeaveRequestStatus(id: Int!, status: LeaveStatus!, adminNote: String): LeaveRequest!
+    createDelegation(input: ApprovalDelegationInput!): ApprovalDelegation!
+    revokeDelegation(id: Int!): ApprovalDelegation!
 
     changePassword(currentPassword: String!, newPassword: String!): PasswordChangeResult!
+    updateEmailPreferences(emailNotifications: Boolean!): User!
 
     logAccess(action: String!, details: String): AccessLog!
-    setup2FA: Boolean!
+    setup2FA: TwoFASetupResult!
     verify2FA(code: String!): Boolean!
+    reset2FA(userId: Int!): Boolean!
+
+    revokeSession(id: String!): Boolean!
+    revokeAllOtherSessions: Int!
+    revokeUserSessions(userId: Int!): Int!
+
+    createInvitation(input: InvitationInput!): InvitationResult!
+    resendInvitation(id: Int!): InvitationResult!
+    revokeInvitation(id: Int!): Invitation!
+
+    createApiKey(input: ApiKeyInput!): ApiKeyResult!
+    revokeApiKey(id: Int!): ApiKey!
+
+    createRole(input: RoleInput!): Role!
+    updateRole(id: Int!, input: RoleInput!): Role!
+    deleteRole(id: Int!): Boolean!
+    # Moves a user to another role - their current tokens stop working
+    setUserRole(userId: Int!, role: String!): User!
+
+    # Director: view the app as another user for up to IMPERSONATION_MAX_MINUTES
+    startImpersonation(userId: Int!, reason: String!, minutes: Int, readOnly: Boolean = true): ImpersonationResult!
+    # Called with the impersonation token; true if the session was still running
+    endImpersonation: Boolean!
+  }
+
+  # Live updates over a WebSocket on /graphql (graphql-ws), signed in with the same JWT
+  type Subscription {
+    notificationAdded: Notification!
+    # Every conversation you can see when conversationId is left out
+    messageReceived(conversationId: String): Message!
+    threadMessageAdded(threadId: Int!): ThreadMessage!
+    # Leave requests you can see, when created or changed
+    leaveRequestUpdated: LeaveRequest!
   }
 `;
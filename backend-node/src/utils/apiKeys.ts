@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import net from 'net';
+import { prisma } from './prisma';
+import { loadRolePermissions } from './permissions';
+import { ValidationError } from './errors';
+
+/**
+ * API KEYS
+ *
+ * Scripts and integrations call /graphql with "Authorization: Bearer pdk_..."
+ * instead of borrowing someone's 15-minute access token. A director creates a key
+ * with a name, scopes, an optional expiry and an optional IP allowlist.
+ *
+ * Like invitation links, only a sha256 hash of the key is stored; the full key is
+ * shown once when it is created. The first characters (prefix) are kept in clear
+ * so keys can be told apart in the UI.
+ *
+ * A key acts as a service principal: its scopes map to a few permissions
+ * (apiKeyPermissions in permissions.ts) and it can do nothing else.
+ */
+
+export const API_KEY_PREFIX = 'pdk_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+// Writing lastUsedAt on every request would cost a query per call - once a minute is enough
+const LAST_USED_UPDATE_MS = 60 * 1000;
+
+export const API_KEY_SCOPES = ['employees:read', 'employees:write', 'leave:read', 'leave:write'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export type ApiKeyStatus = 'ACTIVE' | 'EXPIRED' | 'REVOKED';
+
+// What resolvers see in ctx.apiKey when a request is made with a key
+export type ApiKeyPrincipal = {
+  id: number;
+  name: string;
+  scopes: string[];
+};
+
+export function hashApiKey(key: string) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(token: string) {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// New random key + what we keep in the database
+export function createApiKeySecret() {
+  const key = API_KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function getApiKeyStatus(apiKey: { revokedAt: Date | null; expiresAt: Date | null }): ApiKeyStatus {
+  if (apiKey.revokedAt) return 'REVOKED';
+  if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return 'EXPIRED';
+  return 'ACTIVE';
+}
+
+/**
+ * Checks allowlist entries: single addresses ("203.0.113.7") or CIDR ranges
+ * ("10.0.0.0/8"), IPv4 or IPv6. Returns them trimmed; throws on the first bad one.
+ */
+export function normalizeAllowedIps(entries: string[]) {
+  return entries
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [address, bits] = entry.split('/');
+      const family = net.isIP(address);
+      const maxBits = family === 4 ? 32 : 128;
+      const validBits = bits === undefined || (/^\d+$/.test(bits) && Number(bits) <= maxBits);
+      if (!family || !validBits) {
+        throw ValidationError.forField('allowedIps', `Invalid IP address or range: ${entry}`);
+      }
+      return entry;
+    });
+}
+
+export function isIpAllowed(ip: string | null | undefined, allowedIps: string[]) {
+  if (allowedIps.length === 0) return true;
+  if (!ip) return false;
+  // Express reports IPv4 clients on a dual-stack socket as ::ffff:1.2.3.4
+  const address = ip.startsWith('::ffff:') && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+  const family = net.isIP(address);
+  if (!family) return false;
+
+  const list = new net.BlockList();
+  for (const entry of allowedIps) {
+    const [base, bits] = entry.split('/');
+    const type = net.isIP(base) === 6 ? 'ipv6' : 'ipv4';
+    if (bits === undefined) list.addAddress(base, type);
+    else list.addSubnet(base, Number(bits), type);
+  }
+  return list.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolves a presented key to the service principal for the GraphQL context.
+ * Returns null for unknown, revoked or expired keys, for a caller outside the
+ * allowlist, and when whoever created the key is blocked or may no longer manage keys.
+ */
+export async function authenticateApiKey(key: string, ip: string | null) {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { createdBy: true },
+  });
+  if (!apiKey || getApiKeyStatus(apiKey) !== 'ACTIVE') return null;
+  if (!isIpAllowed(ip, apiKey.allowedIps)) return null;
+  if (apiKey.createdBy.isActive === false) return null;
+  const creatorPermissions = await loadRolePermissions(apiKey.createdBy.role);
+  if (!creatorPermissions['apiKey.manage']) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date(), lastUsedIp: ip },
+    });
+  }
+
+  const principal: ApiKeyPrincipal = { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+  return {
+    apiKey: principal,
+    // Acts for the user who created it (audit rows point at them), with its own role
+    user: { id: apiKey.createdById, email: `api-key:${apiKey.name}`, role: 'service' },
+  };
+}
@@ -0,0 +1,158 @@
+import { prisma } from './prisma';
+import { loadRolePermissions, scopeCovers } from './permissions';
+import type { PermissionMap, PermissionResource } from './permissions';
+import { loadReportingTeam } from './hierarchy';
+import type { ReportingTeam } from './hierarchy';
+
+/**
+ * APPROVAL DELEGATION
+ *
+ * A manager hands their approvals to someone else while they are away
+ * (ApprovalDelegation). Two kinds:
+ * - dated: active from startDate through endDate
+ * - undated ("while I'm on leave"): active on any day the manager's own approved
+ *   leave request covers
+ *
+ * While active, the delegate holds the manager's DELEGABLE_PERMISSIONS with the
+ * manager's scope over the manager's team - on top of their own grants, never
+ * widening them for anyone else's records. They also get the notifications the
+ * manager's team generates. Everything done this way is audited as
+ * "X on behalf of Y" (onBehalfOf).
+ *
+ * index.ts loads the caller's active delegations into ctx.delegations; resolvers
+ * fall back to findDelegation() when can() says no.
+ */
+
+// What a manager can hand over - approvals, and the lists needed to make them
+export const DELEGABLE_PERMISSIONS = ['leave.read', 'leave.approve', 'review.create', 'review.decide'];
+
+// One delegation the caller is currently acting under
+export type ActiveDelegation = {
+  id: number;
+  managerId: number;
+  managerEmail: string;
+  permissions: PermissionMap; // The manager's delegable grants
+  team: ReportingTeam | null; // The manager's subtree, when any grant is "team"
+};
+
+type DelegationContext = {
+  user: { id: number } | null;
+  delegations?: ActiveDelegation[];
+};
+
+type DelegationRow = { managerId: number; startDate: Date | null; endDate: Date | null; revokedAt: Date | null };
+
+function startOfToday(now = new Date()) {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Managers (by login) whose approved leave covers today - what switches their
+ * undated delegations on.
+ */
+export async function findManagersOnLeave(managerIds: number[]): Promise<Set<number>> {
+  if (managerIds.length === 0) return new Set();
+  const now = new Date();
+  const onLeave = await prisma.employee.findMany({
+    where: {
+      userId: { in: managerIds },
+      leaveRequests: {
+        some: { status: 'APPROVED', startDate: { lte: now }, endDate: { gte: startOfToday(now) } },
+      },
+    },
+    select: { userId: true },
+  });
+  return new Set(onLeave.map((employee) => employee.userId).filter((userId): userId is number => userId !== null));
+}
+
+export function isDelegationActive(delegation: DelegationRow, managersOnLeave: Set<number>, now = new Date()) {
+  if (delegation.revokedAt) return false;
+  if (!delegation.startDate || !delegation.endDate) return managersOnLeave.has(delegation.managerId);
+  return delegation.startDate <= now && delegation.endDate >= startOfToday(now);
+}
+
+// Rows that may be active today: not revoked and not already over
+async function findCurrentDelegations(where: { delegateId?: number; managerId?: number }) {
+  const delegations = await prisma.approvalDelegation.findMany({
+    where: {
+      ...where,
+      revokedAt: null,
+      OR: [{ endDate: null }, { endDate: { gte: startOfToday() } }],
+    },
+    include: { manager: true, delegate: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  const managersOnLeave = await findManagersOnLeave(
+    Array.from(new Set(delegations.map((delegation) => delegation.managerId))),
+  );
+  return delegations.filter(
+    (delegation) =>
+      delegation.manager.isActive !== false &&
+      delegation.delegate.isActive !== false &&
+      isDelegationActive(delegation, managersOnLeave),
+  );
+}
+
+// The part of a role's grants a delegation passes on
+export async function delegablePermissions(roleKey: string): Promise<PermissionMap> {
+  const permissions = await loadRolePermissions(roleKey);
+  const delegable: PermissionMap = {};
+  for (const key of DELEGABLE_PERMISSIONS) {
+    if (permissions[key]) delegable[key] = permissions[key];
+  }
+  return delegable;
+}
+
+/**
+ * Delegations the user is acting under right now, with what each one grants.
+ * Delegations from managers who no longer hold anything delegable are left out.
+ */
+export async function loadActiveDelegations(delegateUserId: number): Promise<ActiveDelegation[]> {
+  const active: ActiveDelegation[] = [];
+  for (const delegation of await findCurrentDelegations({ delegateId: delegateUserId })) {
+    const permissions = await delegablePermissions(delegation.manager.role);
+    if (Object.keys(permissions).length === 0) continue;
+    active.push({
+      id: delegation.id,
+      managerId: delegation.managerId,
+      managerEmail: delegation.manager.email,
+      permissions,
+      team: Object.values(permissions).includes('team') ? await loadReportingTeam(delegation.managerId) : null,
+    });
+  }
+  return active;
+}
+
+/**
+ * The delegation letting the caller use a permission on a record (or at all,
+ * without one), or null. Check can() first - a delegation only matters where the
+ * caller's own grants fall short.
+ */
+export function findDelegation(ctx: DelegationContext, permission: string, resource?: PermissionResource) {
+  if (!ctx.user) return null;
+  for (const delegation of ctx.delegations || []) {
+    const scope = delegation.permissions[permission];
+    if (!scope) continue;
+    if (!resource || scopeCovers(scope, delegation.managerId, delegation.team, resource)) return delegation;
+  }
+  return null;
+}
+
+/**
+ * Who is covering a manager's approvals today - they get the team's
+ * notifications. Only delegates handed the given permission are returned.
+ */
+export async function findActiveDelegates(managerUserId: number, permission: string) {
+  const delegations = await findCurrentDelegations({ managerId: managerUserId });
+  if (delegations.length === 0) return [];
+  const permissions = await delegablePermissions(delegations[0].manager.role);
+  if (!permissions[permission]) return [];
+  return delegations.map((delegation) => ({ id: delegation.delegate.id, email: delegation.delegate.email }));
+}
+
+// "X on behalf of Y" - how actions under a delegation read in audit logs and notifications
+export function onBehalfOf(actor: string, delegation: { managerEmail: string } | null) {
+  return delegation ? `${actor} on behalf of ${delegation.managerEmail}` : actor;
+}
@@ -0,0 +1,112 @@
+import { ApolloError } from 'apollo-server-express';
+import type { GraphQLError, GraphQLFormattedError } from 'graphql';
+import type { FieldError } from './passwordPolicy';
+
+/**
+ * GRAPHQL ERRORS
+ *
+ * Resolvers throw one of these instead of a plain Error, so clients can branch on
+ * errors[].extensions.code rather than on the wording of the message:
+ *
+ *   UNAUTHENTICATED    no valid session - the client refreshes its token and retries
+ *   FORBIDDEN          signed in, but not allowed to do this
+ *   NOT_FOUND          no such record (or one you may not see - we don't say which)
+ *   VALIDATION_FAILED  bad input; extensions.fieldErrors lists { field, code, message }
+ *                      so forms can show each problem next to its input
+ *   CONFLICT           the request clashes with the current state (duplicates,
+ *                      reporting loops, the last director, ...)
+ *
+ * Anything else that escapes a resolver is a bug and goes out as
+ * INTERNAL_SERVER_ERROR. In production (NODE_ENV=production) formatGraphqlError
+ * hides its message, and stack traces are never sent.
+ */
+
+export class AuthenticationError extends ApolloError {
+  constructor(message = 'Not authenticated') {
+    super(message, 'UNAUTHENTICATED');
+  }
+}
+
+export class ForbiddenError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'FORBIDDEN');
+  }
+}
+
+export class NotFoundError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'NOT_FOUND');
+  }
+}
+
+export class ValidationError extends ApolloError {
+  readonly fieldErrors: FieldError[];
+
+  constructor(message: string, fieldErrors: FieldError[] = []) {
+    super(message, 'VALIDATION_FAILED', { fieldErrors });
+    this.fieldErrors = fieldErrors;
+  }
+
+  // One bad input - the message doubles as the field's message
+  static forField(field: string, message: string, code = 'INVALID') {
+    return new ValidationError(message, [{ field, code, message }]);
+  }
+}
+
+export class ConflictError extends ApolloError {
+  constructor(message: string) {
+    super(message, 'CONFLICT');
+  }
+}
+
+const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+
+// Codes whose message was written for the client - everything else is masked in production
+const CLIENT_CODES = new Set([
+  'UNAUTHENTICATED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'VALIDATION_FAILED',
+  'CONFLICT',
+  'GRAPHQL_PARSE_FAILED',
+  'GRAPHQL_VALIDATION_FAILED',
+  'BAD_USER_INPUT',
+  'PERSISTED_QUERY_NOT_FOUND',
+  'IMPERSONATION_FORBIDDEN',
+  'IMPERSONATION_READ_ONLY',
+  'PASSWORD_CHANGE_REQUIRED',
+]);
+
+/**
+ * ApolloServer formatError. A unique constraint hit (Prisma P2002) becomes CONFLICT
+ * - whichever resolver ran into it. Unexpected errors are logged here and, in
+ * production, sent as a bare "Internal server error".
+ */
+export function formatGraphqlError(error: GraphQLError): GraphQLFormattedError {
+  const original: any = error.originalError;
+  const base = { message: error.message, locations: error.locations, path: error.path };
+  const extensions: Record<string, any> = { ...error.extensions };
+
+  if (original?.code === 'P2002') {
+    const fields = ([] as string[]).concat(original.meta?.target ?? []);
+    return {
+      ...base,
+      message: fields.length ? `A record with this ${fields.join(', ')} already exists` : 'This record already exists',
+      extensions: { code: 'CONFLICT' },
+    };
+  }
+
+  const code = extensions.code || 'INTERNAL_SERVER_ERROR';
+  if (!CLIENT_CODES.has(code)) {
+    console.error('GraphQL error:', original || error);
+    if (IS_PRODUCTION) {
+      return { ...base, message: 'Internal server error', extensions: { code } };
+    }
+  }
+
+  // debug: false already leaves out the stack trace - don't send the raw exception either
+  if (IS_PRODUCTION) {
+    delete extensions.exception;
+  }
+  return { ...base, extensions: { ...extensions, code } };
+}
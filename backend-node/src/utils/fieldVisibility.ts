@@ -0,0 +1,108 @@
+import type { DocumentNode } from 'graphql';
+import { permissionScope, type PermissionMap } from './permissions';
+import type { ReportingTeam } from './hierarchy';
+
+/**
+ * FIELD VISIBILITY (Employee)
+ *
+ * Which employees come back at all is decided by the employee.read scope in the
+ * resolvers. This decides which fields are filled in on each of them - a teammate
+ * shows up in the list, but without their attendance or age. Hidden fields resolve
+ * to null instead of failing the query.
+ *
+ * Audiences, seen from the viewer's side of one employee record:
+ * - anyone: anybody who can see the row (e.g. teammates)
+ * - self: the record is the viewer's own
+ * - manager: the employee is below the viewer in the reporting tree
+ * - company: the viewer reads employees company-wide (employee.read at "all")
+ *
+ * A field missing from EMPLOYEE_FIELD_RULES is visible to company-wide readers
+ * only, so a new column stays private until someone adds it here.
+ */
+
+export type FieldAudience = 'anyone' | 'self' | 'manager' | 'company';
+
+export const EMPLOYEE_FIELD_RULES: Record<string, FieldAudience[]> = {
+  id: ['anyone'],
+  name: ['anyone'],
+  role: ['anyone'],
+  location: ['anyone'],
+  avatar: ['anyone'],
+  userId: ['anyone'],
+  managerId: ['anyone'],
+  email: ['self', 'manager', 'company'],
+  className: ['self', 'manager', 'company'],
+  subjects: ['self', 'manager', 'company'],
+  age: ['self', 'manager', 'company'],
+  attendance: ['self', 'manager', 'company'],
+  status: ['self', 'manager', 'company'],
+  lastLogin: ['self', 'manager', 'company'],
+  createdAt: ['self', 'manager', 'company'],
+  updatedAt: ['self', 'manager', 'company'],
+  flagged: ['manager', 'company'],
+};
+
+type VisibilityContext = {
+  user: { id: number } | null;
+  permissions?: PermissionMap;
+  team?: ReportingTeam | null;
+};
+
+type EmployeeRecord = { userId?: number | null; managerId?: number | null };
+
+type FieldResolver = (parent: any, args: any, ctx: any, info: any) => unknown;
+
+function employeeAudiences(ctx: VisibilityContext, employee: EmployeeRecord) {
+  const audiences = new Set<FieldAudience>(['anyone']);
+  if (!ctx.user) return audiences;
+  if (permissionScope(ctx, 'employee.read') === 'all') audiences.add('company');
+  if (employee.userId === ctx.user.id) audiences.add('self');
+  if (employee.managerId === ctx.user.id || (employee.managerId != null && ctx.team?.managerUserIds.has(employee.managerId))) {
+    audiences.add('manager');
+  }
+  return audiences;
+}
+
+export function canSeeEmployeeField(ctx: VisibilityContext, employee: EmployeeRecord, field: string) {
+  const allowed = EMPLOYEE_FIELD_RULES[field] || ['company'];
+  const audiences = employeeAudiences(ctx, employee);
+  return allowed.some((audience) => audiences.has(audience));
+}
+
+/**
+ * Whether the caller may filter or sort the employees list by a field. Otherwise
+ * "attendanceMax: 50" would tell a teammate what the null hides.
+ */
+export function canFilterEmployeeField(ctx: VisibilityContext, field: string) {
+  const allowed = EMPLOYEE_FIELD_RULES[field] || ['company'];
+  const scope = permissionScope(ctx, 'employee.read');
+  if (scope === 'all' || allowed.includes('anyone')) return true;
+  // Team readers only get back themselves and their reports
+  return scope === 'team' && allowed.includes('self') && allowed.includes('manager');
+}
+
+// Field names of an object type, straight from the SDL - so new fields are covered too
+export function typeFieldNames(typeDefs: DocumentNode, typeName: string) {
+  for (const definition of typeDefs.definitions) {
+    if (definition.kind === 'ObjectTypeDefinition' && definition.name.value === typeName) {
+      return (definition.fields || []).map((field) => field.name.value);
+    }
+  }
+  throw new Error(`Type ${typeName} not found in the schema`);
+}
+
+/**
+ * Resolvers for every Employee field: the field's own resolver (or the plain
+ * property) when the viewer may see it, null otherwise.
+ */
+export function restrictEmployeeFields(fieldNames: string[], resolvers: Record<string, FieldResolver> = {}) {
+  const restricted: Record<string, FieldResolver> = {};
+  for (const field of fieldNames) {
+    const resolve = resolvers[field];
+    restricted[field] = (parent, args, ctx, info) => {
+      if (!canSeeEmployeeField(ctx, parent, field)) return null;
+      return resolve ? resolve(parent, args, ctx, info) : parent[field];
+    };
+  }
+  return restricted;
+}
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { fileURLToPath } from 'url';
+import jwt from 'jsonwebtoken';
+
+/**
+ * GOOGLE ID TOKEN VERIFICATION
+ *
+ * The frontend signs in with Google Identity Services and sends us the ID token
+ * (a JWT signed by Google). We check the signature against Google's published keys
+ * (JWKS) and the standard claims before trusting the email inside it.
+ *
+ * Config:
+ * - GOOGLE_CLIENT_ID: our OAuth client id(s), comma-separated. Required - the token's
+ *   `aud` must be one of them, otherwise a token minted for ANY Google app would work.
+ * - GOOGLE_JWKS_URI: where the signing keys live. Defaults to Google's endpoint.
+ *   A file: URI (or plain path) to a local JWKS JSON works as a stand-in for tests.
+ * - GOOGLE_ISSUERS: accepted `iss` values, comma-separated (defaults to Google's two).
+ */
+
+const GOOGLE_JWKS_URI = process.env.GOOGLE_JWKS_URI || 'https://www.googleapis.com/oauth2/v3/certs';
+const GOOGLE_CLIENT_IDS = (process.env.GOOGLE_CLIENT_ID || '')
+  .split(',')
+  .map((id) => id.trim())
+  .filter(Boolean);
+const GOOGLE_ISSUERS = (process.env.GOOGLE_ISSUERS || 'accounts.google.com,https://accounts.google.com')
+  .split(',')
+  .map((iss) => iss.trim())
+  .filter(Boolean);
+
+const DEFAULT_JWKS_TTL_MS = 60 * 60 * 1000; // 1 hour when the server sends no max-age
+const MIN_JWKS_REFETCH_MS = 60 * 1000; // Unknown kid can trigger at most one refetch a minute
+
+type Jwk = crypto.JsonWebKey & { kid?: string };
+
+export type GoogleIdentity = {
+  sub: string;
+  email: string;
+  name: string | null;
+};
+
+let jwksCache: { keys: Map<string, crypto.KeyObject>; expiresAt: number; fetchedAt: number } | null = null;
+
+async function loadJwks(): Promise<{ keys: Jwk[]; maxAgeMs: number }> {
+  if (!/^https?:\/\//.test(GOOGLE_JWKS_URI)) {
+    const path = GOOGLE_JWKS_URI.startsWith('file:') ? fileURLToPath(GOOGLE_JWKS_URI) : GOOGLE_JWKS_URI;
+    const json = JSON.parse(await fs.readFile(path, 'utf8'));
+    return { keys: json.keys || [], maxAgeMs: DEFAULT_JWKS_TTL_MS };
+  }
+
+  const res = await fetch(GOOGLE_JWKS_URI);
+  if (!res.ok) throw new Error(`Failed to fetch Google JWKS: ${res.status}`);
+  const json: any = await res.json();
+  const maxAge = /max-age=(\d+)/.exec(res.headers.get('cache-control') || '');
+  return {
+    keys: json.keys || [],
+    maxAgeMs: maxAge ? Number(maxAge[1]) * 1000 : DEFAULT_JWKS_TTL_MS,
+  };
+}
+
+async function refreshJwks() {
+  const { keys, maxAgeMs } = await loadJwks();
+  const byKid = new Map<string, crypto.KeyObject>();
+  for (const jwk of keys) {
+    if (jwk.kid) {
+      byKid.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+  const now = Date.now();
+  jwksCache = { keys: byKid, expiresAt: now + maxAgeMs, fetchedAt: now };
+  return byKid;
+}
+
+/**
+ * Finds the public key for a token's `kid`. Cached until the JWKS max-age runs out;
+ * an unknown kid (Google rotated keys) forces an early refetch.
+ */
+async function getSigningKey(kid: string): Promise<crypto.KeyObject> {
+  const now = Date.now();
+  let keys = jwksCache && jwksCache.expiresAt > now ? jwksCache.keys : await refreshJwks();
+
+  if (!keys.has(kid) && jwksCache && now - jwksCache.fetchedAt > MIN_JWKS_REFETCH_MS) {
+    keys = await refreshJwks();
+  }
+
+  const key = keys.get(kid);
+  if (!key) throw new Error('Unknown Google signing key');
+  return key;
+}
+
+/**
+ * Verifies a Google ID token and returns who it belongs to.
+ * Throws if the signature, aud, iss or exp are wrong, or the email isn't verified.
+ */
+export async function verifyGoogleIdToken(idToken: string): Promise<GoogleIdentity> {
+  if (GOOGLE_CLIENT_IDS.length === 0) {
+    throw new Error('Google sign-in is not configured (GOOGLE_CLIENT_ID missing)');
+  }
+
+  const header = jwt.decode(idToken, { complete: true })?.header;
+  if (!header?.kid) throw new Error('Malformed Google ID token');
+
+  const key = await getSigningKey(header.kid);
+  // jwt.verify checks the signature and exp; aud/iss are checked against our config
+  const payload = jwt.verify(idToken, key, {
+    algorithms: ['RS256'],
+    audience: GOOGLE_CLIENT_IDS as [string, ...string[]],
+    issuer: GOOGLE_ISSUERS as [string, ...string[]],
+  }) as jwt.JwtPayload;
+
+  if (!payload.sub || typeof payload.email !== 'string') {
+    throw new Error('Google ID token is missing sub or email');
+  }
+  // Google sends email_verified as a boolean (older tokens: the string "true")
+  if (payload.email_verified !== true && payload.email_verified !== 'true') {
+    throw new Error('Google account email is not verified');
+  }
+
+  return {
+    sub: payload.sub,
+    email: payload.email,
+    name: typeof payload.name === 'string' ? payload.name : null,
+  };
+}
@@ -0,0 +1,241 @@
+import type { Employee, User } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * REPORTING HIERARCHY
+ *
+ * Employee.managerId holds the manager's User id. That manager usually has an
+ * Employee row of their own (Employee.userId) with a managerId of their own, and so
+ * on up - that chain is the reporting tree. A "team" permission (utils/permissions.ts)
+ * covers a manager's whole subtree, so a senior manager reaches people two or more
+ * levels down, not just their direct reports.
+ *
+ * Walks are breadth-first, one query per level, and skip anyone already seen - a
+ * loop that slipped into old data can't hang a request. New loops are refused on
+ * edit (createsReportingLoop).
+ *
+ * Config:
+ * - MANAGER_VISIBILITY_DEPTH: how many levels below a manager their team reaches
+ *   (default: all of them, up to MAX_HIERARCHY_DEPTH)
+ */
+
+// Deepest any walk goes, whatever is asked for
+export const MAX_HIERARCHY_DEPTH = 20;
+export const MANAGER_VISIBILITY_DEPTH = Math.min(
+  Number(process.env.MANAGER_VISIBILITY_DEPTH) || MAX_HIERARCHY_DEPTH,
+  MAX_HIERARCHY_DEPTH,
+);
+
+// Who is below the caller - what ctx.team holds for "team" permission checks
+export type ReportingTeam = {
+  employeeIds: number[];
+  // Logins of those employees
+  userIds: Set<number>;
+  // The caller and everyone below them whose own reports are still within reach
+  managerUserIds: Set<number>;
+};
+
+/**
+ * Everyone below a manager, level 1 being their direct reports, at most `depth`
+ * levels down.
+ */
+export async function findSubordinates(managerUserId: number, depth = MAX_HIERARCHY_DEPTH) {
+  const maxLevel = Math.min(Math.max(depth, 1), MAX_HIERARCHY_DEPTH);
+  const subordinates: { level: number; employee: Employee }[] = [];
+  const seenUsers = new Set<number>([managerUserId]);
+  const seenEmployees = new Set<number>();
+  let frontier = [managerUserId];
+
+  for (let level = 1; level <= maxLevel && frontier.length > 0; level++) {
+    const reports = await prisma.employee.findMany({
+      where: { managerId: { in: frontier } },
+      orderBy: { name: 'asc' },
+    });
+    frontier = [];
+    for (const employee of reports) {
+      if (seenEmployees.has(employee.id)) continue;
+      seenEmployees.add(employee.id);
+      subordinates.push({ level, employee });
+      if (employee.userId !== null && !seenUsers.has(employee.userId)) {
+        seenUsers.add(employee.userId);
+        frontier.push(employee.userId);
+      }
+    }
+  }
+  return subordinates;
+}
+
+/**
+ * The managers above an employee, nearest first. Stops at someone without a
+ * manager (or without an employee record saying who their manager is).
+ */
+export async function findReportingChain(employee: { managerId: number | null }) {
+  const chain: { level: number; user: User; employee: Employee | null }[] = [];
+  const seen = new Set<number>();
+  let managerId = employee.managerId;
+
+  while (managerId !== null && !seen.has(managerId) && chain.length < MAX_HIERARCHY_DEPTH) {
+    seen.add(managerId);
+    const [user, managerEmployee] = await Promise.all([
+      prisma.user.findUnique({ where: { id: managerId } }),
+      prisma.employee.findFirst({ where: { userId: managerId } }),
+    ]);
+    if (!user) break;
+    chain.push({ level: chain.length + 1, user, employee: managerEmployee });
+    managerId = managerEmployee?.managerId ?? null;
+  }
+  return chain;
+}
+
+/**
+ * Would reporting to managerUserId put the employee (by their login) above
+ * themselves? True when the manager is that login or anyone under it.
+ */
+export async function createsReportingLoop(employeeUserId: number | null, managerUserId: number | null) {
+  if (employeeUserId === null || managerUserId === null) return false;
+  const seen = new Set<number>();
+  let current: number | null = managerUserId;
+
+  while (current !== null && !seen.has(current)) {
+    if (current === employeeUserId) return true;
+    seen.add(current);
+    const managerEmployee: { managerId: number | null } | null = await prisma.employee.findFirst({
+      where: { userId: current },
+      select: { managerId: true },
+    });
+    current = managerEmployee?.managerId ?? null;
+  }
+  return false;
+}
+
+// The caller's subtree, as far down as MANAGER_VISIBILITY_DEPTH reaches
+export async function loadReportingTeam(managerUserId: number): Promise<ReportingTeam> {
+  const subordinates = await findSubordinates(managerUserId, MANAGER_VISIBILITY_DEPTH);
+  const team: ReportingTeam = {
+    employeeIds: [],
+    userIds: new Set(),
+    managerUserIds: new Set([managerUserId]),
+  };
+  for (const { level, employee } of subordinates) {
+    team.employeeIds.push(employee.id);
+    if (employee.userId === null) continue;
+    team.userIds.add(employee.userId);
+    if (level < MANAGER_VISIBILITY_DEPTH) team.managerUserIds.add(employee.userId);
+  }
+  return team;
+}
+
+// One person in the org chart - the client builds the tree from parentId
+export type OrgChartNode = {
+  id: string; // "user:<id>" for people with a login (they can have reports), else "employee:<id>"
+  parentId: string | null;
+  userId: number | null;
+  employeeId: number | null;
+  managerId: number | null;
+  name: string;
+  email: string | null;
+  role: string;
+  avatar: string | null;
+  level: number;
+  directReports: number;
+  headcount: number;
+};
+
+function employeeNode(employee: Employee, level = 0): OrgChartNode {
+  return {
+    id: employee.userId !== null ? `user:${employee.userId}` : `employee:${employee.id}`,
+    parentId: employee.managerId !== null ? `user:${employee.managerId}` : null,
+    userId: employee.userId,
+    employeeId: employee.id,
+    managerId: employee.managerId,
+    name: employee.name,
+    email: employee.email,
+    role: employee.role,
+    avatar: employee.avatar,
+    level,
+    directReports: 0,
+    headcount: 0,
+  };
+}
+
+// Managers without an employee record of their own still need a node
+function userNode(user: User): OrgChartNode {
+  return {
+    id: `user:${user.id}`,
+    parentId: null,
+    userId: user.id,
+    employeeId: null,
+    managerId: null,
+    name: user.email,
+    email: user.email,
+    role: user.role,
+    avatar: null,
+    level: 0,
+    directReports: 0,
+    headcount: 0,
+  };
+}
+
+/**
+ * Org chart nodes below rootUserId (the root included), or the whole company when
+ * no root is given. Fills in level, directReports and headcount. People caught in a
+ * reporting loop from old data show up as extra roots rather than vanishing.
+ */
+export async function buildOrgChart(rootUserId: number | null): Promise<OrgChartNode[] | null> {
+  let nodes: OrgChartNode[];
+
+  if (rootUserId !== null) {
+    const [rootUser, rootEmployee] = await Promise.all([
+      prisma.user.findUnique({ where: { id: rootUserId } }),
+      prisma.employee.findFirst({ where: { userId: rootUserId } }),
+    ]);
+    if (!rootUser) return null;
+    const root = rootEmployee ? employeeNode(rootEmployee) : userNode(rootUser);
+    root.parentId = null;
+    const subordinates = await findSubordinates(rootUserId);
+    nodes = [root, ...subordinates.map(({ level, employee }) => employeeNode(employee, level))];
+  } else {
+    const employees = await prisma.employee.findMany({ orderBy: { name: 'asc' } });
+    nodes = employees.map((employee) => employeeNode(employee));
+    const known = new Set(nodes.map((node) => node.id));
+    const missingManagerIds = Array.from(
+      new Set(nodes.filter((node) => node.parentId && !known.has(node.parentId)).map((node) => node.managerId as number)),
+    );
+    if (missingManagerIds.length > 0) {
+      const managers = await prisma.user.findMany({ where: { id: { in: missingManagerIds } } });
+      nodes.push(...managers.map(userNode));
+    }
+  }
+
+  // Several employee rows can share a login - keep the first
+  const byId = new Map<string, OrgChartNode>();
+  for (const node of nodes) {
+    if (!byId.has(node.id)) byId.set(node.id, node);
+  }
+  const children = new Map<string, OrgChartNode[]>();
+  for (const node of byId.values()) {
+    if (node.parentId && !byId.has(node.parentId)) node.parentId = null;
+    if (node.parentId) children.set(node.parentId, [...(children.get(node.parentId) || []), node]);
+  }
+
+  // Walk down from the roots; anything not reached sits in a loop and becomes a root
+  const placed = new Set<string>();
+  const place = (node: OrgChartNode, level: number): number => {
+    placed.add(node.id);
+    node.level = level;
+    const reports = (children.get(node.id) || []).filter((child) => !placed.has(child.id));
+    node.directReports = reports.length;
+    node.headcount = reports.reduce((total, child) => total + 1 + place(child, level + 1), 0);
+    return node.headcount;
+  };
+  for (const node of byId.values()) {
+    if (!node.parentId) place(node, 0);
+  }
+  for (const node of byId.values()) {
+    if (!placed.has(node.id)) {
+      node.parentId = null;
+      place(node, 0);
+    }
+  }
+  return Array.from(byId.values());
+}
@@ -0,0 +1,116 @@
+import { prisma } from './prisma';
+import { loadRolePermissions } from './permissions';
+
+/**
+ * IMPERSONATION ("view as user")
+ *
+ * A director starts a time-boxed ImpersonationSession for another user and gets
+ * an access token for that user that also names the director (see
+ * signImpersonationToken in tokens.ts). While it is valid the app behaves exactly
+ * as it does for that user, so role-scoped lists can be checked from the outside.
+ *
+ * - Read-only unless the director asked otherwise: mutations are refused
+ *   (index.ts), except endImpersonation
+ * - Even with writes allowed, account security (password, 2FA, sessions,
+ *   impersonating again) stays off limits
+ * - Every request is written to AccessLog with both identities
+ * - Ending the session, or the director losing access, stops the token at once
+ *
+ * Config:
+ * - IMPERSONATION_MAX_MINUTES: longest session a director can start (default 60)
+ */
+
+export const IMPERSONATION_DEFAULT_MINUTES = 15;
+export const IMPERSONATION_MAX_MINUTES = Number(process.env.IMPERSONATION_MAX_MINUTES || 60);
+
+// Root fields a read-only session may still call (on top of queries)
+export const IMPERSONATION_READ_ONLY_FIELDS = ['endImpersonation', '__typename'];
+
+// Root fields no impersonation session may call, read-only or not
+export const IMPERSONATION_BLOCKED_FIELDS = [
+  'changePassword',
+  'setup2FA',
+  'verify2FA',
+  'revokeSession',
+  'revokeAllOtherSessions',
+  'updateEmailPreferences',
+  'startImpersonation',
+  'createApiKey', // A key would outlive the session
+  'revokeApiKey',
+];
+
+// What resolvers see in ctx.impersonation during a "view as" request
+export type ImpersonationContext = {
+  id: number;
+  actorId: number;
+  actorEmail: string;
+  readOnly: boolean;
+  expiresAt: Date;
+};
+
+/**
+ * Checks an impersonation token's claims against the database. Returns null when
+ * the session was ended or has expired, or when the director who started it is
+ * blocked or has lost the user.impersonate permission.
+ */
+export async function resolveImpersonation(claims: { imp: number; act: number; userId: number }) {
+  const session = await prisma.impersonationSession.findUnique({
+    where: { id: claims.imp },
+    include: { actor: true },
+  });
+  if (!session || session.actorId !== claims.act || session.targetUserId !== claims.userId) return null;
+  if (session.endedAt || session.expiresAt.getTime() <= Date.now()) return null;
+  if (session.actor.isActive === false) return null;
+  const actorPermissions = await loadRolePermissions(session.actor.role);
+  if (!actorPermissions['user.impersonate']) return null;
+
+  const impersonation: ImpersonationContext = {
+    id: session.id,
+    actorId: session.actorId,
+    actorEmail: session.actor.email,
+    readOnly: session.readOnly,
+    expiresAt: session.expiresAt,
+  };
+  return impersonation;
+}
+
+/**
+ * Nobody may view the app as someone who can do that themselves (directors and
+ * any role with user.impersonate) - that would hand out their reach.
+ */
+export async function canBeImpersonated(role: string) {
+  const permissions = await loadRolePermissions(role);
+  return !permissions['user.impersonate'];
+}
+
+/**
+ * Audit row for one request made during an impersonation session. The row belongs
+ * to the impersonated user (userId) and names the director (impersonatorId).
+ */
+export async function logImpersonatedRequest(entry: {
+  user: { id: number; email: string };
+  impersonation: ImpersonationContext;
+  operation: string;
+  operationName: string | null;
+  fields: string[];
+  blocked: boolean;
+  ipAddress: string | null;
+}) {
+  await prisma.accessLog.create({
+    data: {
+      userId: entry.user.id,
+      userEmail: entry.user.email,
+      impersonatorId: entry.impersonation.actorId,
+      impersonatorEmail: entry.impersonation.actorEmail,
+      action: 'IMPERSONATED_REQUEST',
+      details: JSON.stringify({
+        impersonationId: entry.impersonation.id,
+        operation: entry.operation,
+        operationName: entry.operationName,
+        fields: entry.fields,
+        blocked: entry.blocked,
+      }),
+      ipAddress: entry.ipAddress,
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { appLink, sendEmail } from './mail';
+
+/**
+ * INVITATIONS
+ *
+ * Accounts are created by invitation only. Someone with user.invite (a director, or
+ * a manager for their own team) invites an email address with a role; the invitee
+ * opens a single-use link, picks a password and gets a User plus a linked Employee record.
+ *
+ * Only a sha256 hash of the link token is stored, like a password - someone who can
+ * read the database still can't accept an invitation.
+ */
+
+export const INVITATION_TTL_DAYS = 7;
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED';
+
+export function hashInvitationToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// New random link token + the hash we keep in the database
+export function createInvitationToken() {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function invitationExpiry(days = INVITATION_TTL_DAYS) {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+export function buildInvitationLink(token: string) {
+  return appLink(`/?invite=${encodeURIComponent(token)}`);
+}
+
+export function getInvitationStatus(invitation: {
+  acceptedAt: Date | null;
+  revokedAt: Date | null;
+  expiresAt: Date;
+}): InvitationStatus {
+  if (invitation.acceptedAt) return 'ACCEPTED';
+  if (invitation.revokedAt) return 'REVOKED';
+  if (invitation.expiresAt.getTime() <= Date.now()) return 'EXPIRED';
+  return 'PENDING';
+}
+
+/**
+ * Emails the invitation link to the invitee.
+ * The link is also returned to the inviter so they can share it themselves.
+ */
+export async function deliverInvitation(
+  invitation: { email: string; name: string | null; role: string; expiresAt: Date },
+  link: string,
+  invitedBy: string,
+) {
+  await sendEmail('invitation', invitation.email, {
+    inviteLink: link,
+    name: invitation.name,
+    role: invitation.role,
+    invitedBy,
+    expiresAt: invitation.expiresAt,
+  });
+}
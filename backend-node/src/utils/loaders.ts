@@ -0,0 +1,99 @@
+import type { Employee, PrismaClient, RolePermission, ThreadMessage, User } from '@prisma/client';
+import DataLoader from 'dataloader';
+
+/**
+ * PER-REQUEST LOADERS (DataLoader)
+ *
+ * Type resolvers run once per row, so a list of 50 review requests asking for
+ * .employee used to mean 50 employee queries. Each loader here collects the keys
+ * asked for in the same tick and fetches them with one query (WHERE id IN ...).
+ *
+ * index.ts builds a fresh set for every request (ctx.loaders), so rows are cached
+ * for that request only - nothing leaks between users, and a mutation's follow-up
+ * reads in a later request see fresh data. Within one request, call
+ * loader.clear(key) after writing a row you read through it.
+ *
+ * Loaders go through ctx.prisma, so the GRAPHQL_QUERY_DEBUG count
+ * (utils/queryCount.ts) includes them.
+ */
+
+// Rows in key order, null where a key matched nothing - what DataLoader expects back
+function inKeyOrder<K, V>(keys: readonly K[], rows: V[], keyOf: (row: V) => K): (V | null)[] {
+  const byKey = new Map<K, V>();
+  rows.forEach((row) => byKey.set(keyOf(row), row));
+  return keys.map((key) => byKey.get(key) ?? null);
+}
+
+// Rows grouped per key, an empty list where a key matched nothing
+function groupedByKey<K, V>(keys: readonly K[], rows: V[], keyOf: (row: V) => K): V[][] {
+  const byKey = new Map<K, V[]>();
+  rows.forEach((row) => {
+    const group = byKey.get(keyOf(row)) ?? [];
+    group.push(row);
+    byKey.set(keyOf(row), group);
+  });
+  return keys.map((key) => byKey.get(key) ?? []);
+}
+
+export function createLoaders(prisma: PrismaClient) {
+  return {
+    // User by id
+    user: new DataLoader<number, User | null>(async (ids) => {
+      const users = await prisma.user.findMany({ where: { id: { in: [...ids] } } });
+      return inKeyOrder(ids, users, (user) => user.id);
+    }),
+
+    // Employee by id
+    employee: new DataLoader<number, Employee | null>(async (ids) => {
+      const employees = await prisma.employee.findMany({ where: { id: { in: [...ids] } } });
+      return inKeyOrder(ids, employees, (employee) => employee.id);
+    }),
+
+    // A thread's messages, oldest first
+    threadMessages: new DataLoader<number, ThreadMessage[]>(async (threadIds) => {
+      const messages = await prisma.threadMessage.findMany({
+        where: { threadId: { in: [...threadIds] } },
+        orderBy: { createdAt: 'asc' },
+      });
+      return groupedByKey(threadIds, messages, (message) => message.threadId);
+    }),
+
+    // A thread's newest message (list previews)
+    threadLastMessage: new DataLoader<number, ThreadMessage | null>(async (threadIds) => {
+      const messages = await prisma.threadMessage.findMany({
+        where: { threadId: { in: [...threadIds] } },
+        orderBy: { createdAt: 'desc' },
+        distinct: ['threadId'],
+      });
+      return inKeyOrder(threadIds, messages, (message) => message.threadId);
+    }),
+
+    // How many messages a thread has
+    threadMessageCount: new DataLoader<number, number>(async (threadIds) => {
+      const counts = await prisma.threadMessage.groupBy({
+        by: ['threadId'],
+        where: { threadId: { in: [...threadIds] } },
+        _count: { _all: true },
+      });
+      return inKeyOrder(threadIds, counts, (count) => count.threadId).map((count) => count?._count._all ?? 0);
+    }),
+
+    // How many users hold a role, by role key
+    roleUserCount: new DataLoader<string, number>(async (roleKeys) => {
+      const counts = await prisma.user.groupBy({
+        by: ['role'],
+        where: { role: { in: [...roleKeys] } },
+        _count: { _all: true },
+      });
+      return inKeyOrder(roleKeys, counts, (count) => count.role).map((count) => count?._count._all ?? 0);
+    }),
+
+    // A role's grants (RolePermission rows), by role id
+    rolePermissions: new DataLoader<number, RolePermission[]>(async (roleIds) => {
+      const grants = await prisma.rolePermission.findMany({ where: { roleId: { in: [...roleIds] } } });
+      return groupedByKey(roleIds, grants, (grant) => grant.roleId);
+    }),
+  };
+}
+
+export type Loaders = ReturnType<typeof createLoaders>;
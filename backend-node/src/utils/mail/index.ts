@@ -0,0 +1,136 @@
+import { prisma } from '../prisma';
+import { createTransportFromEnv, type MailTransport } from './transports';
+import { getEmailCategory, renderEmail, type EmailTemplateData, type EmailTemplateName } from './templates';
+
+export type { EmailTemplateData, EmailTemplateName } from './templates';
+export type { MailTransport, OutgoingEmail } from './transports';
+
+/**
+ * OUTBOUND EMAIL
+ *
+ * sendEmail('passwordReset', to, { ... }) renders a template, records it in the
+ * EmailLog table and hands it to the configured transport (see transports.ts).
+ *
+ * A failed send never throws at the caller - the log row is marked FAILED and the
+ * retry worker tries again with backoff (1, 2, 4, 8 minutes) until MAX_ATTEMPTS.
+ * Bodies are dropped from the log once delivered: they can contain single-use links.
+ */
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+let transport: MailTransport | null = null;
+
+function getTransport() {
+  if (!transport) transport = createTransportFromEnv();
+  return transport;
+}
+
+// Swap the transport at runtime (scripts, local experiments)
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+// Absolute link into the frontend for use in emails, e.g. appLink('/?reset=abc')
+export function appLink(pathAndQuery: string) {
+  return `${FRONTEND_URL.replace(/\/+$/, '')}${pathAndQuery.startsWith('/') ? '' : '/'}${pathAndQuery}`;
+}
+
+type QueuedEmail = {
+  id: number;
+  to: string;
+  subject: string;
+  html: string | null;
+  text: string | null;
+  attempts: number;
+};
+
+async function deliver(log: QueuedEmail) {
+  const attempts = log.attempts + 1;
+  try {
+    const current = getTransport();
+    await current.send({ to: log.to, subject: log.subject, html: log.html || '', text: log.text || '' });
+    return prisma.emailLog.update({
+      where: { id: log.id },
+      data: {
+        status: 'SENT',
+        attempts,
+        transport: current.name,
+        sentAt: new Date(),
+        lastError: null,
+        nextAttemptAt: null,
+        html: null,
+        text: null,
+      },
+    });
+  } catch (err: any) {
+    const giveUp = attempts >= MAX_ATTEMPTS;
+    console.error(`email ${log.id} to ${log.to} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, err?.message);
+    return prisma.emailLog.update({
+      where: { id: log.id },
+      data: {
+        status: 'FAILED',
+        attempts,
+        lastError: String(err?.message || err).slice(0, 1000),
+        nextAttemptAt: giveUp ? null : new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+      },
+    });
+  }
+}
+
+/**
+ * Renders and sends one templated email.
+ * Notification emails are skipped (returns null) for users who turned email notifications off.
+ */
+export async function sendEmail<K extends EmailTemplateName>(
+  template: K,
+  to: string,
+  data: EmailTemplateData[K],
+  options: { userId?: number | null } = {},
+) {
+  try {
+    const recipient = options.userId
+      ? await prisma.user.findUnique({ where: { id: options.userId } })
+      : await prisma.user.findUnique({ where: { email: to } });
+    if (getEmailCategory(template) === 'notification' && recipient && recipient.emailNotifications === false) {
+      return null;
+    }
+
+    const { subject, html, text } = renderEmail(template, data);
+    const log = await prisma.emailLog.create({
+      data: { to, template, subject, html, text, userId: options.userId ?? recipient?.id ?? null },
+    });
+    return await deliver(log);
+  } catch (err) {
+    // Email is a side effect - never break the request that triggered it
+    console.error(`email "${template}" to ${to} could not be queued`, err);
+    return null;
+  }
+}
+
+/**
+ * Re-sends emails whose previous attempt failed and whose backoff has passed.
+ * Returns how many were retried.
+ */
+export async function retryFailedEmails() {
+  const due = await prisma.emailLog.findMany({
+    where: { status: 'FAILED', attempts: { lt: MAX_ATTEMPTS }, nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: 20,
+  });
+  for (const log of due) {
+    await deliver(log);
+  }
+  return due.length;
+}
+
+// Background retry loop - started once from index.ts
+export function startEmailRetryWorker() {
+  const timer = setInterval(() => {
+    retryFailedEmails().catch((err) => console.error('email retry worker error', err));
+  }, RETRY_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,184 @@
+/**
+ * EMAIL TEMPLATES
+ * Every email the app sends, as a typed template: the data it needs goes in,
+ * a subject plus HTML and plain-text bodies come out.
+ *
+ * "transactional" emails (password reset, invitation) always go out.
+ * "notification" emails respect the user's email notifications preference.
+ */
+
+export type EmailTemplateData = {
+  passwordReset: {
+    resetLink: string;
+    expiresInMinutes: number;
+  };
+  invitation: {
+    inviteLink: string;
+    name?: string | null;
+    role: string;
+    invitedBy: string;
+    expiresAt: Date;
+  };
+  leaveDecision: {
+    employeeName: string;
+    status: string; // APPROVED, REJECTED or PENDING_DIRECTOR (LeaveStatus)
+    leaveType: string;
+    startDate: Date;
+    endDate: Date;
+    decidedBy: string;
+    note?: string | null;
+    link: string;
+  };
+  reviewOutcome: {
+    employeeName: string;
+    requestType: string; // FLAG or TERMINATE
+    decision: string; // APPROVED or REJECTED
+    newStatus: string;
+    comment?: string | null; // Director's comment - only for the requesting manager
+    forEmployee: boolean;
+    link: string;
+  };
+};
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export type EmailCategory = 'transactional' | 'notification';
+
+type TemplateDefinition<K extends EmailTemplateName> = {
+  category: EmailCategory;
+  render: (data: EmailTemplateData[K]) => RenderedEmail;
+};
+
+const APP_NAME = 'PulseDesk';
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Shared HTML shell: heading, paragraphs and an optional call-to-action button
+function layout(heading: string, paragraphs: string[], action?: { label: string; url: string }) {
+  const body = paragraphs.map((p) => `<p style="margin:0 0 16px;color:#374151;">${escapeHtml(p)}</p>`).join('');
+  const button = action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#667eea;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;font-weight:600;">${escapeHtml(action.label)}</a></p>`
+    : '';
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f7fa;font-family:Arial,Helvetica,sans-serif;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:32px;">
+      <h1 style="margin:0 0 20px;font-size:20px;color:#111827;">${escapeHtml(heading)}</h1>
+      ${body}${button}
+      <p style="margin:24px 0 0;font-size:12px;color:#9ca3af;">${APP_NAME}</p>
+    </div>
+  </body>
+</html>`;
+}
+
+function plainText(paragraphs: string[], action?: { label: string; url: string }) {
+  return [...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : []), `— ${APP_NAME}`].join('\n\n');
+}
+
+const templates: { [K in EmailTemplateName]: TemplateDefinition<K> } = {
+  passwordReset: {
+    category: 'transactional',
+    render: ({ resetLink, expiresInMinutes }) => {
+      const paragraphs = [
+        'We received a request to reset your password.',
+        `The link below works for ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email - your password stays the same.`,
+      ];
+      const action = { label: 'Reset password', url: resetLink };
+      return {
+        subject: `Reset your ${APP_NAME} password`,
+        html: layout('Reset your password', paragraphs, action),
+        text: plainText(paragraphs, action),
+      };
+    },
+  },
+
+  invitation: {
+    category: 'transactional',
+    render: ({ inviteLink, name, role, invitedBy, expiresAt }) => {
+      const paragraphs = [
+        `Hi${name ? ` ${name}` : ''},`,
+        `${invitedBy} invited you to join ${APP_NAME} as ${role}.`,
+        `Choose a password to set up your account. The link works once and expires on ${formatDate(expiresAt)}.`,
+      ];
+      const action = { label: 'Accept invitation', url: inviteLink };
+      return {
+        subject: `You're invited to ${APP_NAME}`,
+        html: layout(`Join ${APP_NAME}`, paragraphs, action),
+        text: plainText(paragraphs, action),
+      };
+    },
+  },
+
+  leaveDecision: {
+    category: 'notification',
+    render: ({ employeeName, status, leaveType, startDate, endDate, decidedBy, note, link }) => {
+      const period = `${formatDate(startDate)} to ${formatDate(endDate)}`;
+      const outcome =
+        status === 'PENDING_DIRECTOR'
+          ? `${decidedBy} forwarded it to a director for final approval.`
+          : `It was ${status.toLowerCase()} by ${decidedBy}.`;
+      const paragraphs = [
+        `Hi ${employeeName},`,
+        `Your ${leaveType} leave request for ${period} has been reviewed. ${outcome}`,
+        ...(note ? [`Note: ${note}`] : []),
+      ];
+      const action = { label: 'View leave requests', url: link };
+      const label = status === 'PENDING_DIRECTOR' ? 'awaiting director approval' : status.toLowerCase();
+      return {
+        subject: `Leave request ${label}`,
+        html: layout(`Leave request ${label}`, paragraphs, action),
+        text: plainText(paragraphs, action),
+      };
+    },
+  },
+
+  reviewOutcome: {
+    category: 'notification',
+    render: ({ employeeName, requestType, decision, newStatus, comment, forEmployee, link }) => {
+      const kind = requestType === 'TERMINATE' ? 'termination' : 'flag';
+      const paragraphs = forEmployee
+        ? [
+            `Hi ${employeeName},`,
+            decision === 'APPROVED'
+              ? `A review of your employment has been completed. Your status is now ${newStatus}.`
+              : 'A review of your employment has been completed. Your status remains unchanged.',
+            'Please contact your manager for details.',
+          ]
+        : [
+            `Your ${kind} request for ${employeeName} was ${decision.toLowerCase()}.`,
+            `${employeeName}'s status is now ${newStatus}.`,
+            ...(comment ? [`Director's comment: ${comment}`] : []),
+          ];
+      const action = { label: 'Open PulseDesk', url: link };
+      const subject = forEmployee ? 'Your review has been completed' : `Review request ${decision.toLowerCase()}: ${employeeName}`;
+      return {
+        subject,
+        html: layout(subject, paragraphs, action),
+        text: plainText(paragraphs, action),
+      };
+    },
+  },
+};
+
+export function renderEmail<K extends EmailTemplateName>(template: K, data: EmailTemplateData[K]): RenderedEmail {
+  return (templates[template] as TemplateDefinition<K>).render(data);
+}
+
+export function getEmailCategory(template: EmailTemplateName): EmailCategory {
+  return templates[template].category;
+}
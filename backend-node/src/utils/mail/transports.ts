@@ -0,0 +1,78 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * MAIL TRANSPORTS
+ * A transport only knows how to hand one finished email to "somewhere":
+ * - smtp:    a real mail server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ * - file:    writes each email as an .eml file into MAIL_FILE_DIR (open it in any mail app)
+ * - console: prints the email to the server log (default for local development)
+ *
+ * Pick one with MAIL_TRANSPORT; if unset, smtp is used when SMTP_HOST is set, console otherwise.
+ */
+
+export type OutgoingEmail = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export interface MailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'PulseDesk <no-reply@pulsedesk.local>';
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true', // true for port 465, false = STARTTLS
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+
+  async send(email: OutgoingEmail) {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...email });
+  }
+}
+
+export class FileTransport implements MailTransport {
+  readonly name = 'file';
+  // Builds the raw MIME message without sending it anywhere
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail')) {}
+
+  async send(email: OutgoingEmail) {
+    const info = await this.transporter.sendMail({ from: MAIL_FROM, ...email });
+    const safeTo = email.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, `${Date.now()}-${safeTo}.eml`), info.message as Buffer);
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(email: OutgoingEmail) {
+    console.log(`📧 Email to ${email.to}: ${email.subject}\n${email.text}`);
+  }
+}
+
+export function createTransportFromEnv(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (kind) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected smtp, file or console)`);
+  }
+}
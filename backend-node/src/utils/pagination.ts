@@ -0,0 +1,151 @@
+import { ValidationError } from './errors';
+
+/**
+ * CURSOR PAGINATION (Relay-style connections)
+ *
+ * List queries that can grow without bound (employees, notifications, messages,
+ * threads, review requests, access logs) return a connection:
+ *
+ *   { edges { cursor node { ... } } pageInfo { hasNextPage endCursor } totalCount }
+ *
+ * Ask for the next page with first: N, after: <pageInfo.endCursor>.
+ *
+ * A cursor is the row's position in its ordering - its sort value and id - not an
+ * offset, so rows added or removed while someone scrolls don't shift the next page
+ * (no repeats, no gaps). Cursors are opaque to clients (base64 JSON) and only valid
+ * for the ordering that produced them; a cursor from another sort is refused.
+ *
+ * Only forward paging (first/after) - every list here is read newest first or in
+ * a chosen order, and the UI loads more at the bottom.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type ConnectionArgs = { first?: number | null; after?: string | null };
+
+export type Connection<T> = {
+  edges: { cursor: string; node: T }[];
+  pageInfo: { hasNextPage: boolean; hasPreviousPage: boolean; startCursor: string | null; endCursor: string | null };
+  totalCount: number;
+};
+
+type SortDirection = 'asc' | 'desc';
+
+type PaginateOptions<T, TNode, TInclude> = {
+  where?: object; // The model's WhereInput
+  include?: TInclude;
+  sortField?: keyof T & string; // Must be non-null on every row; id breaks ties
+  direction?: SortDirection;
+  toNode?: (row: T) => TNode; // Shape rows before they go out (cursors are taken first)
+};
+
+type CursorPayload = { field: string; value: string | number; isDate: boolean; id: number };
+
+// What paginate asks the model for
+type PageQuery<TInclude> = {
+  where: object;
+  include?: TInclude;
+  orderBy: Record<string, SortDirection>[];
+  take: number;
+};
+
+// The Prisma model delegate (ctx.prisma.employee, ...) - only what paging needs
+type PageableModel<T, TInclude> = {
+  findMany: (args: PageQuery<TInclude>) => Promise<T[]>;
+  count: (args: { where: object }) => Promise<number>;
+};
+
+function encodeCursor<T extends { id: number }>(field: keyof T & string, row: T) {
+  const value: unknown = row[field];
+  const payload: CursorPayload = {
+    field,
+    value: value instanceof Date ? value.toISOString() : (value as string | number),
+    isDate: value instanceof Date,
+    id: row.id,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, field: string) {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw ValidationError.forField('after', 'Invalid cursor');
+  }
+  if (!payload || payload.field !== field || typeof payload.id !== 'number') {
+    throw ValidationError.forField('after', 'Invalid cursor - it belongs to a different sort order');
+  }
+  return { value: payload.isDate ? new Date(payload.value) : payload.value, id: payload.id };
+}
+
+// Validated page size - too large a page is an error rather than a silent cut
+export function pageSizeFrom(first: number | null | undefined) {
+  const size = first ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(size) || size < 1 || size > MAX_PAGE_SIZE) {
+    throw ValidationError.forField('first', `first must be between 1 and ${MAX_PAGE_SIZE}`, 'OUT_OF_RANGE');
+  }
+  return size;
+}
+
+/**
+ * One page of a model, ordered by sortField then id, starting after the cursor.
+ * totalCount is for the whole filter, not just what is left after the cursor.
+ */
+export async function paginate<T extends { id: number }, TNode = T, TInclude = undefined>(
+  model: PageableModel<T, TInclude>,
+  args: ConnectionArgs,
+  {
+    where = {},
+    include,
+    sortField = 'createdAt' as keyof T & string,
+    direction = 'desc',
+    toNode = (row: T) => row as unknown as TNode,
+  }: PaginateOptions<T, TNode, TInclude> = {},
+): Promise<Connection<TNode>> {
+  const size = pageSizeFrom(args.first);
+
+  let pageWhere: object = where;
+  if (args.after) {
+    const cursor = decodeCursor(args.after, sortField);
+    const comparison = direction === 'desc' ? 'lt' : 'gt';
+    pageWhere = {
+      AND: [
+        where,
+        {
+          OR: [
+            { [sortField]: { [comparison]: cursor.value } },
+            { [sortField]: cursor.value, id: { [comparison]: cursor.id } },
+          ],
+        },
+      ],
+    };
+  }
+
+  const [rows, totalCount] = await Promise.all([
+    model.findMany({
+      where: pageWhere,
+      ...(include ? { include } : {}),
+      orderBy: [{ [sortField]: direction }, { id: direction }],
+      take: size + 1, // One extra says whether there is another page
+    }),
+    model.count({ where }),
+  ]);
+
+  const pageRows = rows.slice(0, size);
+  const edges = pageRows.map((row) => ({
+    cursor: encodeCursor(sortField, row),
+    node: toNode(row),
+  }));
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: rows.length > size,
+      hasPreviousPage: Boolean(args.after),
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    totalCount,
+  };
+}
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { COMMON_PASSWORDS } from './commonPasswords';
+
+/**
+ * PASSWORD POLICY
+ * One set of rules for every place a password is chosen: invitation sign-up,
+ * password reset, change password. Config (all optional):
+ * - PASSWORD_MIN_LENGTH: minimum length (default 10)
+ * - PASSWORD_MIN_CHAR_CLASSES: how many of lowercase/uppercase/digit/symbol (default 3)
+ * - PASSWORD_HISTORY_SIZE: how many previous passwords can't be reused (default 5)
+ * - PASSWORD_MAX_AGE_DAYS: passwords older than this must be changed at next login (default 0 = never)
+ *
+ * Problems come back as field errors - { field, code, message } - so forms can
+ * show them next to the right input.
+ */
+
+export const PASSWORD_POLICY = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH || 10),
+  maxLength: 72, // bcrypt ignores everything after 72 bytes
+  minCharacterClasses: Number(process.env.PASSWORD_MIN_CHAR_CLASSES || 3),
+  historySize: Number(process.env.PASSWORD_HISTORY_SIZE || 5),
+  maxAgeDays: Number(process.env.PASSWORD_MAX_AGE_DAYS || 0),
+};
+
+export type FieldError = {
+  field: string;
+  code: string;
+  message: string;
+};
+
+// Thrown by assertPasswordAllowed; REST routes and resolvers turn it into field errors
+export class PasswordPolicyError extends Error {
+  constructor(public readonly fieldErrors: FieldError[]) {
+    super(fieldErrors[0]?.message || 'Password does not meet the password policy');
+  }
+}
+
+type PasswordOwner = {
+  email: string;
+  passwordHash?: string | null; // Current password - can't "change" to the same one
+  passwordHistory?: string[] | null; // Hashes of the last N passwords (incl. current), newest first
+};
+
+// Last N password hashes, newest first. Accounts from before history existed only have the current one.
+function recentHashes(owner: PasswordOwner) {
+  const hashes = [owner.passwordHash, ...(owner.passwordHistory ?? [])].filter(
+    (hash): hash is string => Boolean(hash),
+  );
+  return Array.from(new Set(hashes)).slice(0, PASSWORD_POLICY.historySize);
+}
+
+function countCharacterClasses(password: string) {
+  return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password)).length;
+}
+
+function isCommonPassword(password: string) {
+  const lower = password.toLowerCase();
+  // "Password123!" -> "password"
+  const base = lower.replace(/[^a-z]+$/, '');
+  return COMMON_PASSWORDS.has(lower) || (base.length > 0 && COMMON_PASSWORDS.has(base));
+}
+
+function containsEmail(password: string, email: string) {
+  const lower = password.toLowerCase();
+  const normalizedEmail = email.trim().toLowerCase();
+  const localPart = normalizedEmail.split('@')[0] || '';
+  return lower.includes(normalizedEmail) || (localPart.length >= 3 && lower.includes(localPart));
+}
+
+/**
+ * Checks the rules that don't need the database. Returns every problem found.
+ */
+export function validatePassword(password: string, email: string, field = 'password'): FieldError[] {
+  const errors: FieldError[] = [];
+  const value = typeof password === 'string' ? password : '';
+
+  if (value.length < PASSWORD_POLICY.minLength) {
+    errors.push({
+      field,
+      code: 'TOO_SHORT',
+      message: `Password must be at least ${PASSWORD_POLICY.minLength} characters`,
+    });
+  }
+  if (Buffer.byteLength(value, 'utf8') > PASSWORD_POLICY.maxLength) {
+    errors.push({
+      field,
+      code: 'TOO_LONG',
+      message: `Password must be at most ${PASSWORD_POLICY.maxLength} characters`,
+    });
+  }
+  if (countCharacterClasses(value) < PASSWORD_POLICY.minCharacterClasses) {
+    errors.push({
+      field,
+      code: 'MISSING_CHARACTER_CLASSES',
+      message: `Password must use at least ${PASSWORD_POLICY.minCharacterClasses} of: lowercase letters, uppercase letters, numbers, symbols`,
+    });
+  }
+  if (value && isCommonPassword(value)) {
+    errors.push({
+      field,
+      code: 'COMMON_PASSWORD',
+      message: 'This password is too common - choose something less guessable',
+    });
+  }
+  if (value && email && containsEmail(value, email)) {
+    errors.push({
+      field,
+      code: 'CONTAINS_EMAIL',
+      message: 'Password must not contain your email address',
+    });
+  }
+
+  return errors;
+}
+
+async function isReusedPassword(password: string, owner: PasswordOwner) {
+  for (const hash of recentHashes(owner)) {
+    if (await bcrypt.compare(password, hash)) return true;
+  }
+  return false;
+}
+
+/**
+ * Full check including reuse of recent passwords. Throws PasswordPolicyError.
+ */
+export async function assertPasswordAllowed(password: string, owner: PasswordOwner, field = 'password') {
+  const errors = validatePassword(password, owner.email, field);
+  if (errors.length === 0 && (await isReusedPassword(password, owner))) {
+    errors.push({
+      field,
+      code: 'RECENTLY_USED',
+      message: `Password must not match any of your last ${PASSWORD_POLICY.historySize} passwords`,
+    });
+  }
+  if (errors.length > 0) {
+    throw new PasswordPolicyError(errors);
+  }
+}
+
+/**
+ * History to store alongside a new password hash: it goes to the front and only
+ * the last PASSWORD_HISTORY_SIZE are kept.
+ */
+export function nextPasswordHistory(newHash: string, owner?: PasswordOwner) {
+  return [newHash, ...(owner ? recentHashes(owner) : [])].slice(0, PASSWORD_POLICY.historySize);
+}
+
+/**
+ * Random password that satisfies the policy - for accounts created on someone's behalf.
+ */
+export function generateCompliantPassword(length = Math.max(PASSWORD_POLICY.minLength, 16)) {
+  const sets = ['abcdefghijkmnpqrstuvwxyz', 'ABCDEFGHJKLMNPQRSTUVWXYZ', '23456789', '!@#$%*-_'];
+  const all = sets.join('');
+  const chars = sets.map((set) => set[crypto.randomInt(set.length)]);
+  while (chars.length < length) {
+    chars.push(all[crypto.randomInt(all.length)]);
+  }
+  // Shuffle so the guaranteed characters aren't always first
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join('');
+}
+
+export type PasswordChangeReason = 'MUST_CHANGE' | 'EXPIRED';
+
+/**
+ * Why this user has to pick a new password before using the app, or null if they don't.
+ * MUST_CHANGE: temporary/default password (generated logins, seed accounts).
+ * EXPIRED: older than PASSWORD_MAX_AGE_DAYS.
+ */
+export function getPasswordChangeReason(user: {
+  passwordHash: string | null;
+  mustChangePassword: boolean;
+  passwordChangedAt: Date | null;
+}): PasswordChangeReason | null {
+  // Accounts without a password (Google sign-in only) have nothing to change
+  if (!user.passwordHash) return null;
+  if (user.mustChangePassword) return 'MUST_CHANGE';
+  if (PASSWORD_POLICY.maxAgeDays > 0 && user.passwordChangedAt) {
+    const ageMs = Date.now() - user.passwordChangedAt.getTime();
+    if (ageMs > PASSWORD_POLICY.maxAgeDays * 24 * 60 * 60 * 1000) return 'EXPIRED';
+  }
+  return null;
+}
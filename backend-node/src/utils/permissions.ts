@@ -0,0 +1,247 @@
+import { prisma } from './prisma';
+import type { ReportingTeam } from './hierarchy';
+import { AuthenticationError, ForbiddenError, ValidationError } from './errors';
+
+/**
+ * ROLES & PERMISSIONS
+ *
+ * What someone may do comes from their role's row in the database, not from role
+ * names in code. A Role grants named permissions (PERMISSIONS below), each with a scope:
+ * - all: any record
+ * - team: records of everyone below the user in the reporting tree, plus their own
+ * - own: only records about the user themselves
+ *
+ * director, manager and employee are system roles seeded by the migration. Directors
+ * add custom roles ("HR partner", "team lead") on the Roles page. The director role
+ * always holds every permission at "all", so nobody can lock the company out.
+ *
+ * Resolvers call can(ctx, 'employee.update', { managerId }) or authorize(...), which
+ * throws. Grants are cached per role for ROLE_CACHE_MS and dropped when a role changes.
+ */
+
+export const DIRECTOR_ROLE = 'director';
+export const DEFAULT_ROLE = 'employee';
+// System roles can be edited (except director) but never deleted
+export const SYSTEM_ROLES = ['director', 'manager', 'employee'];
+
+const ROLE_CACHE_MS = 30 * 1000;
+
+export type PermissionScope = 'all' | 'team' | 'own';
+// Permission key -> widest scope granted
+export type PermissionMap = Record<string, PermissionScope>;
+
+type PermissionDefinition = {
+  key: string;
+  category: string;
+  description: string;
+  scopes: PermissionScope[]; // Scopes that make sense for this permission, widest first
+};
+
+export const PERMISSIONS: PermissionDefinition[] = [
+  { key: 'employee.read', category: 'Employees', description: 'View employee records (own: self, manager and teammates)', scopes: ['all', 'team', 'own'] },
+  { key: 'employee.create', category: 'Employees', description: 'Add employee records', scopes: ['all'] },
+  { key: 'employee.update', category: 'Employees', description: 'Edit employee records', scopes: ['all', 'team'] },
+  { key: 'employee.delete', category: 'Employees', description: 'Delete employee records', scopes: ['all'] },
+  { key: 'employee.terminate', category: 'Employees', description: 'Terminate employees', scopes: ['all'] },
+  { key: 'employee.flag', category: 'Employees', description: 'Flag employees for review', scopes: ['all', 'team'] },
+  { key: 'employee.stats', category: 'Employees', description: 'View performance and attendance reports', scopes: ['all', 'team'] },
+  { key: 'employee.generateLogins', category: 'Employees', description: 'Create logins for employees without one', scopes: ['all'] },
+  { key: 'team.manage', category: 'Employees', description: 'Have direct reports (can be picked as a manager)', scopes: ['all'] },
+  { key: 'user.read', category: 'Users', description: 'View user accounts (team: own team and managers)', scopes: ['all', 'team'] },
+  { key: 'user.invite', category: 'Users', description: 'Invite new users (team: employees onto own team)', scopes: ['all', 'team'] },
+  { key: 'user.manageAccess', category: 'Users', description: 'Block and unblock user access', scopes: ['all'] },
+  { key: 'user.delete', category: 'Users', description: 'Delete user accounts', scopes: ['all'] },
+  { key: 'user.changeRole', category: 'Users', description: "Change a user's role", scopes: ['all'] },
+  { key: 'user.reset2FA', category: 'Users', description: 'Reset two-factor authentication', scopes: ['all'] },
+  { key: 'user.sessions', category: 'Users', description: "View and revoke other users' sessions", scopes: ['all'] },
+  { key: 'user.impersonate', category: 'Users', description: 'View the app as another user', scopes: ['all'] },
+  { key: 'leave.read', category: 'Leave', description: 'View leave requests', scopes: ['all', 'team'] },
+  { key: 'leave.approve', category: 'Leave', description: 'Approve or reject leave (team: long/special leave goes to a director)', scopes: ['all', 'team'] },
+  { key: 'review.create', category: 'Reviews', description: 'Ask for an employee review', scopes: ['all', 'team'] },
+  { key: 'review.decide', category: 'Reviews', description: 'See and decide review requests', scopes: ['all'] },
+  { key: 'note.read', category: 'Communication', description: 'Read the notes log', scopes: ['all'] },
+  { key: 'note.send', category: 'Communication', description: 'Send notes (team: to directors and own team)', scopes: ['all', 'team'] },
+  { key: 'message.send', category: 'Communication', description: 'Send messages (all: anyone and broadcasts, team: directors and own team, own: managers)', scopes: ['all', 'team', 'own'] },
+  { key: 'message.moderate', category: 'Communication', description: "Delete other people's messages and read every thread", scopes: ['all'] },
+  { key: 'notification.create', category: 'Communication', description: 'Create notifications', scopes: ['all'] },
+  { key: 'audit.read', category: 'Administration', description: 'View access logs', scopes: ['all'] },
+  { key: 'dashboard.view', category: 'Administration', description: 'View company dashboard and user statistics', scopes: ['all'] },
+  { key: 'apiKey.manage', category: 'Administration', description: 'Create and revoke API keys', scopes: ['all'] },
+  { key: 'role.manage', category: 'Administration', description: 'Create and edit roles and permissions', scopes: ['all'] },
+  { key: 'integration.slack', category: 'Administration', description: 'Send Slack notifications', scopes: ['all'] },
+];
+
+const PERMISSION_KEYS = PERMISSIONS.map((permission) => permission.key);
+const SCOPE_RANK: Record<PermissionScope, number> = { own: 1, team: 2, all: 3 };
+
+// What an API key may do - keys are service principals, so every grant is company-wide
+const API_KEY_SCOPE_PERMISSIONS: Record<string, string[]> = {
+  'employees:read': ['employee.read'],
+  'employees:write': ['employee.create', 'employee.update'],
+  'leave:read': ['leave.read'],
+  'leave:write': ['leave.approve'],
+};
+
+type PermissionContext = {
+  user: { id: number } | null;
+  permissions?: PermissionMap;
+  team?: ReportingTeam | null; // Loaded in index.ts when the caller holds a "team" scope
+};
+
+// Record the check is about: who it belongs to and who manages them
+export type PermissionResource = {
+  userId?: number | null;
+  managerId?: number | null;
+};
+
+function allPermissions(): PermissionMap {
+  return Object.fromEntries(PERMISSION_KEYS.map((key) => [key, 'all' as PermissionScope]));
+}
+
+const roleCache = new Map<string, { loadedAt: number; permissions: PermissionMap }>();
+
+/**
+ * Grants of one role as { permission: scope }. Unknown roles get nothing.
+ */
+export async function loadRolePermissions(roleKey: string): Promise<PermissionMap> {
+  if (roleKey === DIRECTOR_ROLE) return allPermissions();
+
+  const cached = roleCache.get(roleKey);
+  if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_MS) return cached.permissions;
+
+  const grants = await prisma.rolePermission.findMany({ where: { role: { key: roleKey } } });
+  const permissions: PermissionMap = {};
+  for (const grant of grants) {
+    permissions[grant.permissionKey] = grant.scope as PermissionScope;
+  }
+  roleCache.set(roleKey, { loadedAt: Date.now(), permissions });
+  return permissions;
+}
+
+export function invalidateRolePermissions() {
+  roleCache.clear();
+}
+
+export function apiKeyPermissions(scopes: string[]): PermissionMap {
+  const permissions: PermissionMap = {};
+  for (const scope of scopes) {
+    for (const key of API_KEY_SCOPE_PERMISSIONS[scope] || []) {
+      permissions[key] = 'all';
+    }
+  }
+  return permissions;
+}
+
+// Scope the caller holds for a permission, or null - for filtering lists
+export function permissionScope(ctx: PermissionContext, permission: string): PermissionScope | null {
+  if (!ctx.user) return null;
+  return ctx.permissions?.[permission] ?? null;
+}
+
+/**
+ * Does a scope held by userId cover a record? "team" needs that user's subtree -
+ * shared by can() and approvals made on someone else's behalf (utils/delegation.ts).
+ */
+export function scopeCovers(
+  scope: PermissionScope,
+  userId: number,
+  team: ReportingTeam | null | undefined,
+  resource: PermissionResource,
+) {
+  if (scope === 'all') return true;
+  if (scope === 'team') {
+    if (resource.managerId === userId || resource.userId === userId) return true;
+    if (!team) return false;
+    return (
+      (resource.managerId != null && team.managerUserIds.has(resource.managerId)) ||
+      (resource.userId != null && team.userIds.has(resource.userId))
+    );
+  }
+  return resource.userId === userId;
+}
+
+/**
+ * THE permission check. Without a resource: does the caller hold the permission at
+ * all? With one: does their scope cover that record?
+ */
+export function can(ctx: PermissionContext, permission: string, resource?: PermissionResource) {
+  const scope = permissionScope(ctx, permission);
+  if (!scope) return false;
+  if (!resource) return true;
+  return scopeCovers(scope, ctx.user!.id, ctx.team, resource);
+}
+
+// can() that throws - the guard resolvers start with
+export function authorize(ctx: PermissionContext, permission: string, resource?: PermissionResource) {
+  if (!ctx.user) {
+    throw new AuthenticationError();
+  }
+  if (!can(ctx, permission, resource)) {
+    throw new ForbiddenError(`Not allowed - requires the ${permission} permission`);
+  }
+}
+
+/**
+ * Checks the grants of a role being created/edited: known permissions, and a scope
+ * that permission supports. Returns them as { permissionKey, scope } rows.
+ */
+export function normalizePermissionGrants(grants: { permission: string; scope?: string | null }[]) {
+  const rows = new Map<string, PermissionScope>();
+  for (const grant of grants) {
+    const definition = PERMISSIONS.find((permission) => permission.key === grant.permission);
+    if (!definition) {
+      throw ValidationError.forField('permissions', `Unknown permission: ${grant.permission}`);
+    }
+    const scope = (grant.scope || definition.scopes[0]) as PermissionScope;
+    if (!definition.scopes.includes(scope)) {
+      throw ValidationError.forField('permissions', `${grant.permission} can't be granted with scope "${scope}"`);
+    }
+    const existing = rows.get(grant.permission);
+    if (!existing || SCOPE_RANK[scope] > SCOPE_RANK[existing]) {
+      rows.set(grant.permission, scope);
+    }
+  }
+  return Array.from(rows, ([permissionKey, scope]) => ({ permissionKey, scope }));
+}
+
+/**
+ * Users who hold a permission company-wide - who gets told about leave
+ * escalations and review requests. Directors always do.
+ */
+export async function findUsersWithPermission(permission: string, excludeUserId?: number) {
+  return prisma.user.findMany({
+    where: {
+      id: excludeUserId ? { not: excludeUserId } : undefined,
+      OR: [
+        { role: DIRECTOR_ROLE },
+        { roleDefinition: { permissions: { some: { permissionKey: permission, scope: 'all' } } } },
+      ],
+    },
+  });
+}
+
+/**
+ * Keeps the Permission table in step with PERMISSIONS and gives the director role
+ * every permission (new ones included). Runs at startup.
+ */
+export async function syncPermissionCatalog() {
+  for (const permission of PERMISSIONS) {
+    await prisma.permission.upsert({
+      where: { key: permission.key },
+      create: { key: permission.key, category: permission.category, description: permission.description },
+      update: { category: permission.category, description: permission.description },
+    });
+  }
+
+  const director = await prisma.role.upsert({
+    where: { key: DIRECTOR_ROLE },
+    create: { key: DIRECTOR_ROLE, name: 'Director', description: 'Full access to everything', isSystem: true },
+    update: {},
+  });
+  await prisma.rolePermission.deleteMany({ where: { roleId: director.id, scope: { not: 'all' } } });
+  await prisma.rolePermission.createMany({
+    data: PERMISSION_KEYS.map((permissionKey) => ({ roleId: director.id, permissionKey, scope: 'all' })),
+    skipDuplicates: true,
+  });
+  invalidateRolePermissions();
+}
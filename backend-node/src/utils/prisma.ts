@@ -0,0 +1,18 @@
+import { PrismaClient } from '@prisma/client';
+import { createChangePublisher } from './realtime';
+import { countQueries } from './queryCount';
+
+/**
+ * DATABASE CLIENT
+ *
+ * The one PrismaClient (and connection pool) of the server. index.ts hands it to
+ * every request as ctx.prisma and the utils and routes import it from here, so
+ * every query goes through the same middleware:
+ * - notifications, messages and leave requests written through it go out live (utils/realtime.ts)
+ * - queries are counted per GraphQL operation when GRAPHQL_QUERY_DEBUG is on (utils/queryCount.ts)
+ *
+ * Standalone scripts (prisma/seed.ts, scripts/) make their own client.
+ */
+export const prisma = new PrismaClient();
+prisma.$use(createChangePublisher(prisma));
+prisma.$use(countQueries);
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { NextFunction, Request, Response } from 'express';
+import type { Prisma } from '@prisma/client';
+
+/**
+ * QUERY COUNT DEBUG MODE
+ *
+ * With GRAPHQL_QUERY_DEBUG=true every GraphQL operation over HTTP logs how many
+ * database queries it ran, and returns the number in extensions.queryCount, e.g.
+ *
+ *   [query-debug] EmployeeDirectory: 4 queries in 38ms
+ *
+ * so an N+1 coming back (a resolver querying per row instead of going through
+ * ctx.loaders) shows up as a count that grows with the list.
+ *
+ * Counted: every query on the shared client (utils/prisma.ts) - ctx.prisma, the
+ * loaders, and the utils' permission and team lookups. Not counted: WebSocket
+ * subscriptions.
+ *
+ * Off by default - the bookkeeping is cheap, but the log line per request is not
+ * something production wants.
+ */
+
+const QUERY_DEBUG = process.env.GRAPHQL_QUERY_DEBUG === 'true';
+
+type QueryStats = { count: number; startedAt: number };
+
+const requestStats = new AsyncLocalStorage<QueryStats>();
+
+// Prisma middleware (prisma.$use) - counts each query against the request it runs in
+export const countQueries: Prisma.Middleware = async (params, next) => {
+  const stats = requestStats.getStore();
+  if (stats) stats.count++;
+  return next(params);
+};
+
+// Express middleware for /graphql - gives the request its own counter (debug mode only)
+export function trackQueries(_req: Request, _res: Response, next: NextFunction) {
+  if (!QUERY_DEBUG) return next();
+  requestStats.run({ count: 0, startedAt: Date.now() }, next);
+}
+
+// Queries run so far by the current request, or null outside debug mode
+export function currentQueryStats() {
+  const stats = requestStats.getStore();
+  return stats ? { count: stats.count, durationMs: Date.now() - stats.startedAt } : null;
+}
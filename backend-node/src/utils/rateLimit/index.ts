@@ -0,0 +1,209 @@
+import type { Request, Response } from 'express';
+import rateLimit, { type AugmentedRequest, type Options, type Store } from 'express-rate-limit';
+import jwt from 'jsonwebtoken';
+import { ACCESS_SECRET } from '../tokens';
+import { hashApiKey, isApiKey } from '../apiKeys';
+import { MemorySlidingWindowStore, PostgresSlidingWindowStore } from './stores';
+
+export { MemorySlidingWindowStore, PostgresSlidingWindowStore, slidingWindowInfo } from './stores';
+
+/**
+ * RATE LIMITING
+ *
+ * Sliding-window limits (see stores.ts) on the auth endpoints - per IP against
+ * password spraying, per account against guessing one account's password or 2FA
+ * code from many addresses - plus a per-user request budget on /graphql. The
+ * per-account limits only count failures and expire with their window; nothing
+ * locks the account itself.
+ *
+ * Limited requests get 429 with a Retry-After header (seconds).
+ *
+ * Config:
+ * - RATE_LIMIT_STORE: "memory" (default, per process) or "postgres" (shared by every instance)
+ * - RATE_LIMIT_GRAPHQL_PER_MINUTE: requests per signed-in user per minute (default 300)
+ */
+
+const STORE = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+const GRAPHQL_PER_MINUTE = Number(process.env.RATE_LIMIT_GRAPHQL_PER_MINUTE || 300);
+
+const MINUTE = 60 * 1000;
+
+function createStore(name: string): Store {
+  return STORE === 'postgres' ? new PostgresSlidingWindowStore(`${name}:`) : new MemorySlidingWindowStore();
+}
+
+// Seconds until the limited client may try again (same value as the Retry-After header)
+function retryAfterSeconds(req: Request) {
+  const resetTime = (req as AugmentedRequest).rateLimit?.resetTime;
+  return resetTime ? Math.max(1, Math.ceil((resetTime.getTime() - Date.now()) / 1000)) : 60;
+}
+
+function waitText(seconds: number) {
+  return seconds < 120 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+}
+
+const normalizeEmail = (value: unknown) => String(value || '').trim().toLowerCase();
+
+// A claim from a token the route verifies itself - only used to pick the bucket
+function unverifiedClaim(token: unknown, claim: string): string {
+  if (typeof token !== 'string') return '';
+  const payload = jwt.decode(token);
+  const value = payload && typeof payload === 'object' ? payload[claim] : undefined;
+  return value == null ? '' : String(value);
+}
+
+type LimiterConfig = {
+  name: string;
+  windowMs: number;
+  max: number;
+  message: string; // What was limited, e.g. "login attempts"
+  keyGenerator?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+  skipSuccessfulRequests?: boolean; // Only count requests that failed (4xx/5xx)
+};
+
+// REST limiter: { error } body like every other /auth error
+function createLimiter(config: LimiterConfig) {
+  return rateLimit({
+    windowMs: config.windowMs,
+    max: config.max,
+    store: createStore(config.name),
+    standardHeaders: true, // RateLimit-* headers, and Retry-After when limited
+    legacyHeaders: false,
+    skipSuccessfulRequests: config.skipSuccessfulRequests ?? false,
+    keyGenerator: config.keyGenerator ?? ((req: Request) => req.ip || 'unknown'),
+    skip: config.skip,
+    handler: (req: Request, res: Response, _next, options: Options) => {
+      const seconds = retryAfterSeconds(req);
+      res.status(options.statusCode).json({
+        error: `Too many ${config.message}. Try again in ${waitText(seconds)}.`,
+        retryAfter: seconds,
+      });
+    },
+  });
+}
+
+/**
+ * Sign-in attempts (password, 2FA code, Google) per IP. Only failures count, so
+ * an office behind one address isn't blocked by people logging in successfully.
+ */
+export const limitLoginByIp = createLimiter({
+  name: 'login-ip',
+  windowMs: 15 * MINUTE,
+  max: 30,
+  message: 'login attempts from this network',
+  skipSuccessfulRequests: true,
+});
+
+// Failed password attempts against one account, from anywhere
+export const limitLoginByEmail = createLimiter({
+  name: 'login-email',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  message: 'login attempts for this account',
+  keyGenerator: (req) => normalizeEmail(req.body?.email),
+  skip: (req) => !normalizeEmail(req.body?.email),
+  skipSuccessfulRequests: true,
+});
+
+// Wrong 2FA codes for one account (the user in the challenge token), from anywhere
+export const limitTwoFactorByUser = createLimiter({
+  name: 'login-2fa-user',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  message: 'authentication codes for this account',
+  keyGenerator: (req) => unverifiedClaim(req.body?.challengeToken, 'userId'),
+  skip: (req) => !unverifiedClaim(req.body?.challengeToken, 'userId'),
+  skipSuccessfulRequests: true,
+});
+
+// Linking Google to a password account takes that account's password - failures
+// count against the Google email like /login's do
+export const limitGoogleLinkByEmail = createLimiter({
+  name: 'google-link-email',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  message: 'login attempts for this account',
+  keyGenerator: (req) => normalizeEmail(unverifiedClaim(req.body?.idToken, 'email')),
+  skip: (req) => !req.body?.password || !unverifiedClaim(req.body?.idToken, 'email'),
+  skipSuccessfulRequests: true,
+});
+
+export const limitForgotPasswordByIp = createLimiter({
+  name: 'forgot-ip',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  message: 'password reset requests',
+});
+
+// Stops anyone flooding one inbox with reset emails
+export const limitForgotPasswordByEmail = createLimiter({
+  name: 'forgot-email',
+  windowMs: 60 * MINUTE,
+  max: 3,
+  message: 'password reset requests for this email',
+  keyGenerator: (req) => normalizeEmail(req.body?.email),
+  skip: (req) => !normalizeEmail(req.body?.email),
+});
+
+export const limitResetPasswordByIp = createLimiter({
+  name: 'reset-ip',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  message: 'password reset attempts',
+});
+
+export const limitRefreshByIp = createLimiter({
+  name: 'refresh-ip',
+  windowMs: 15 * MINUTE,
+  max: 120,
+  message: 'session refreshes',
+});
+
+// Registration and invitation lookups - both take an invitation token
+export const limitRegisterByIp = createLimiter({
+  name: 'register-ip',
+  windowMs: 60 * MINUTE,
+  max: 20,
+  message: 'sign-up attempts',
+});
+
+/**
+ * GraphQL budget: per signed-in user (from the access token) or API key, per IP for
+ * anonymous requests. The token is only decoded here - the real checks happen in the context.
+ * The 429 body is a GraphQL error response so clients can read it like any other.
+ */
+function graphqlClientKey(req: Request) {
+  const authHeader = req.headers.authorization || '';
+  if (authHeader.startsWith('Bearer ')) {
+    const token = authHeader.replace('Bearer ', '');
+    if (isApiKey(token)) return `apikey:${hashApiKey(token)}`;
+    try {
+      const decoded: any = jwt.verify(token, ACCESS_SECRET);
+      if (decoded?.userId) return `user:${decoded.userId}`;
+    } catch (err) {
+      // Invalid/expired token - count it against the IP
+    }
+  }
+  return `ip:${req.ip || 'unknown'}`;
+}
+
+export const limitGraphqlByUser = rateLimit({
+  windowMs: MINUTE,
+  max: GRAPHQL_PER_MINUTE,
+  store: createStore('graphql'),
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: graphqlClientKey,
+  handler: (req: Request, res: Response, _next, options: Options) => {
+    const seconds = retryAfterSeconds(req);
+    res.status(options.statusCode).json({
+      errors: [
+        {
+          message: `Too many requests. Try again in ${waitText(seconds)}.`,
+          extensions: { code: 'RATE_LIMITED', retryAfter: seconds },
+        },
+      ],
+    });
+  },
+});
@@ -0,0 +1,214 @@
+import { prisma } from '../prisma';
+import type { ClientRateLimitInfo, Options, Store } from 'express-rate-limit';
+
+/**
+ * SLIDING WINDOW COUNTERS
+ *
+ * Each key keeps a hit count for the current window and the one before it. The
+ * request count "over the last windowMs" is estimated as
+ *   previous * (share of the previous window still inside the last windowMs) + current
+ * so a client can't burst 2x the limit around a window boundary like with fixed windows.
+ *
+ * Both stores implement express-rate-limit's Store interface:
+ * - MemorySlidingWindowStore: per process (default)
+ * - PostgresSlidingWindowStore: RateLimitCounter table, shared by every instance
+ */
+
+const CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Turns the two window counts into what express-rate-limit needs: the estimated
+ * hits, and when the client may send again (sent back as Retry-After).
+ */
+export function slidingWindowInfo(
+  now: number,
+  windowMs: number,
+  limit: number | null,
+  previous: number,
+  current: number,
+): ClientRateLimitInfo {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const previousWeight = 1 - (now - windowStart) / windowMs;
+  const totalHits = Math.floor(previous * previousWeight) + current;
+
+  if (!limit || totalHits <= limit) {
+    return { totalHits, resetTime: new Date(windowStart + windowMs) };
+  }
+
+  // Over the limit: find when the estimate, with no new hits, leaves room for one more request
+  let allowedAt: number;
+  if (current < limit && previous > 0) {
+    // Still in this window, once enough of the previous window has slid out
+    allowedAt = windowStart + (1 - (limit - current) / previous) * windowMs;
+  } else {
+    // In the next window, once enough of this window has slid out
+    allowedAt = windowStart + windowMs + (1 - limit / current) * windowMs;
+  }
+  return { totalHits, resetTime: new Date(Math.max(allowedAt, now)) };
+}
+
+// Numeric `max` from the limiter options; a function (per-request limit) can't be known up front
+function numericLimit(options: Options) {
+  return typeof options.max === 'number' ? options.max : null;
+}
+
+type MemoryEntry = { windowStart: number; previous: number; current: number };
+
+export class MemorySlidingWindowStore implements Store {
+  localKeys = true;
+  private windowMs = 60 * 1000;
+  private limit: number | null = null;
+  private entries = new Map<string, MemoryEntry>();
+  private timer: NodeJS.Timeout | null = null;
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+    this.limit = numericLimit(options);
+    this.timer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  // Rolls the entry forward so current/previous line up with the window `now` is in
+  private entryFor(key: string, now: number) {
+    const windowStart = Math.floor(now / this.windowMs) * this.windowMs;
+    const entry = this.entries.get(key);
+    if (!entry) {
+      const fresh = { windowStart, previous: 0, current: 0 };
+      this.entries.set(key, fresh);
+      return fresh;
+    }
+    if (entry.windowStart !== windowStart) {
+      entry.previous = entry.windowStart === windowStart - this.windowMs ? entry.current : 0;
+      entry.current = 0;
+      entry.windowStart = windowStart;
+    }
+    return entry;
+  }
+
+  get(key: string) {
+    if (!this.entries.has(key)) return undefined;
+    const now = Date.now();
+    const entry = this.entryFor(key, now);
+    return slidingWindowInfo(now, this.windowMs, this.limit, entry.previous, entry.current);
+  }
+
+  increment(key: string) {
+    const now = Date.now();
+    const entry = this.entryFor(key, now);
+    entry.current++;
+    return slidingWindowInfo(now, this.windowMs, this.limit, entry.previous, entry.current);
+  }
+
+  decrement(key: string) {
+    const entry = this.entries.get(key);
+    if (entry && entry.current > 0) entry.current--;
+  }
+
+  resetKey(key: string) {
+    this.entries.delete(key);
+  }
+
+  resetAll() {
+    this.entries.clear();
+  }
+
+  shutdown() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  // Entries two windows old no longer affect any estimate
+  private cleanup() {
+    const cutoff = Date.now() - 2 * this.windowMs;
+    for (const [key, entry] of this.entries) {
+      if (entry.windowStart < cutoff) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Same algorithm, counts kept in Postgres. Keys are prefixed with the limiter
+ * name so several limiters can share the table.
+ */
+export class PostgresSlidingWindowStore implements Store {
+  localKeys = false;
+  private windowMs = 60 * 1000;
+  private limit: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(public prefix: string) {}
+
+  init(options: Options) {
+    this.windowMs = options.windowMs;
+    this.limit = numericLimit(options);
+    this.timer = setInterval(() => {
+      this.cleanup().catch((err) => console.error('rate limit cleanup error', err));
+    }, CLEANUP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  private windows(now: number) {
+    const current = Math.floor(now / this.windowMs) * this.windowMs;
+    return { current: new Date(current), previous: new Date(current - this.windowMs) };
+  }
+
+  private async previousHits(key: string, previousWindow: Date) {
+    const row = await prisma.rateLimitCounter.findUnique({
+      where: { key_windowStart: { key: this.prefix + key, windowStart: previousWindow } },
+    });
+    return row?.hits ?? 0;
+  }
+
+  async get(key: string) {
+    const now = Date.now();
+    const windows = this.windows(now);
+    const rows = await prisma.rateLimitCounter.findMany({
+      where: { key: this.prefix + key, windowStart: { in: [windows.current, windows.previous] } },
+    });
+    if (rows.length === 0) return undefined;
+    const hitsIn = (window: Date) =>
+      rows.find((row: { windowStart: Date; hits: number }) => row.windowStart.getTime() === window.getTime())?.hits ?? 0;
+    return slidingWindowInfo(now, this.windowMs, this.limit, hitsIn(windows.previous), hitsIn(windows.current));
+  }
+
+  async increment(key: string) {
+    const now = Date.now();
+    const windows = this.windows(now);
+    // Atomic upsert - concurrent requests on several instances all get counted
+    const [row] = await prisma.$queryRaw<{ hits: number }[]>`
+      INSERT INTO "RateLimitCounter" ("key", "windowStart", "hits")
+      VALUES (${this.prefix + key}, ${windows.current}, 1)
+      ON CONFLICT ("key", "windowStart") DO UPDATE SET "hits" = "RateLimitCounter"."hits" + 1
+      RETURNING "hits"
+    `;
+    const previous = await this.previousHits(key, windows.previous);
+    return slidingWindowInfo(now, this.windowMs, this.limit, previous, Number(row.hits));
+  }
+
+  async decrement(key: string) {
+    await prisma.rateLimitCounter.updateMany({
+      where: { key: this.prefix + key, windowStart: this.windows(Date.now()).current, hits: { gt: 0 } },
+      data: { hits: { decrement: 1 } },
+    });
+  }
+
+  async resetKey(key: string) {
+    await prisma.rateLimitCounter.deleteMany({ where: { key: this.prefix + key } });
+  }
+
+  async resetAll() {
+    await prisma.rateLimitCounter.deleteMany({ where: { key: { startsWith: this.prefix } } });
+  }
+
+  shutdown() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  private async cleanup() {
+    await prisma.rateLimitCounter.deleteMany({
+      where: {
+        key: { startsWith: this.prefix },
+        windowStart: { lt: new Date(Date.now() - 2 * this.windowMs) },
+      },
+    });
+  }
+}
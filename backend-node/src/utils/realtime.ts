@@ -0,0 +1,79 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { PubSub } from 'graphql-subscriptions';
+
+/**
+ * LIVE UPDATES (GraphQL subscriptions)
+ *
+ * Clients keep one WebSocket open at /graphql (graphql-ws protocol, see index.ts)
+ * and subscribe to notificationAdded, messageReceived, threadMessageAdded and
+ * leaveRequestUpdated. Nothing in the resolvers publishes by hand: the change
+ * publisher is a Prisma middleware on the shared client (utils/prisma.ts), so every
+ * notification, message, thread message and leave request written is pushed out.
+ *
+ * Events go to every subscriber of that kind; the Subscription resolvers filter
+ * them per user with the same rules the matching queries use.
+ *
+ * The PubSub is in memory - fine for one server process. Several instances would
+ * need a shared one (Redis) behind the same REALTIME_EVENTS.
+ */
+
+export const pubsub = new PubSub();
+
+export const REALTIME_EVENTS = {
+  notificationAdded: 'NOTIFICATION_ADDED',
+  messageReceived: 'MESSAGE_RECEIVED',
+  threadMessageAdded: 'THREAD_MESSAGE_ADDED',
+  leaveRequestUpdated: 'LEAVE_REQUEST_UPDATED',
+};
+
+// Looks up what the subscription filters need, so subscribers don't each query for it
+async function publish(prisma: PrismaClient, model: string, row: any) {
+  switch (model) {
+    case 'Notification':
+      await pubsub.publish(REALTIME_EVENTS.notificationAdded, { notificationAdded: row });
+      break;
+    case 'Message':
+      await pubsub.publish(REALTIME_EVENTS.messageReceived, { messageReceived: row });
+      break;
+    case 'ThreadMessage': {
+      const thread = await prisma.thread.findUnique({ where: { id: row.threadId }, select: { participants: true } });
+      await pubsub.publish(REALTIME_EVENTS.threadMessageAdded, {
+        threadMessageAdded: row,
+        participants: thread?.participants ?? [],
+      });
+      break;
+    }
+    case 'LeaveRequest': {
+      const employee = await prisma.employee.findUnique({ where: { id: row.employeeId } });
+      await pubsub.publish(REALTIME_EVENTS.leaveRequestUpdated, {
+        leaveRequestUpdated: { ...row, employeeName: employee?.name ?? null },
+        employee: { userId: employee?.userId ?? null, managerId: employee?.managerId ?? null },
+      });
+      break;
+    }
+  }
+}
+
+const PUBLISHED_WRITES: Record<string, string[]> = {
+  Notification: ['create'],
+  Message: ['create'],
+  ThreadMessage: ['create'],
+  LeaveRequest: ['create', 'update'],
+};
+
+/**
+ * Prisma middleware (prisma.$use) - publishes rows once they are written, looking up
+ * what the filters need through the same client. A failed publish is logged, never
+ * turned into a failed write.
+ */
+export function createChangePublisher(prisma: PrismaClient): Prisma.Middleware {
+  return async (params, next) => {
+    const result = await next(params);
+    if (params.model && PUBLISHED_WRITES[params.model]?.includes(params.action)) {
+      publish(prisma, params.model, result).catch((err) => {
+        console.error(`Failed to publish ${params.model} ${params.action}:`, err);
+      });
+    }
+    return result;
+  };
+}
@@ -0,0 +1,64 @@
+import { prisma } from './prisma';
+
+/**
+ * A session is one login on one device. Its id is the refresh token familyId,
+ * so revoking a session = revoking every refresh token rotated from that login.
+ */
+
+export async function revokeSession(sessionId: string) {
+  const now = new Date();
+  await prisma.refreshToken.updateMany({
+    where: { familyId: sessionId, revoked: false },
+    data: { revoked: true, revokedAt: now },
+  });
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: now },
+  });
+  return count > 0;
+}
+
+// Whether access tokens issued for this session still count - false once it is revoked
+export async function isSessionLive(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true },
+  });
+  return !!session && !session.revokedAt;
+}
+
+/**
+ * Revokes all live sessions of a user, optionally keeping one (the caller's own).
+ * Returns how many sessions were revoked.
+ */
+export async function revokeUserSessions(userId: number, exceptSessionId?: string | null) {
+  const now = new Date();
+  const familyFilter = exceptSessionId ? { familyId: { not: exceptSessionId } } : {};
+  await prisma.refreshToken.updateMany({
+    where: { userId, revoked: false, ...familyFilter },
+    data: { revoked: true, revokedAt: now },
+  });
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: now },
+  });
+  return count;
+}
+
+/**
+ * Live sessions for a user: not revoked and still holding an unexpired refresh token.
+ */
+export async function listActiveSessions(userId: number) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      refreshTokens: { some: { revoked: false, expiresAt: { gt: new Date() } } },
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
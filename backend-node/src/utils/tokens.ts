@@ -0,0 +1,60 @@
+import jwt from 'jsonwebtoken';
+
+// Secret for signing access tokens - shared by /auth routes (signing)
+// and the GraphQL context (verifying)
+export const ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || 'dev-access-secret';
+
+// Scope of the restricted token handed out while a password change is due:
+// it can only call the changePassword mutation (enforced in index.ts)
+export const PASSWORD_CHANGE_SCOPE = 'password-change';
+
+/**
+ * CREATE ACCESS TOKEN
+ * Access token = short-lived (15 minutes) token for API requests
+ * Contains: userId, role (a Role.key), sid (which session issued it)
+ * and tv (the user's tokenVersion when it was signed).
+ * Bumping User.tokenVersion makes every access token signed before it stop working.
+ * A restricted token also carries scope: PASSWORD_CHANGE_SCOPE.
+ * Frontend sends this with every GraphQL request in Authorization header
+ */
+export function signAccessToken(
+  user: { id: number; role: string; tokenVersion: number },
+  sessionId: string,
+  options: { passwordChangeOnly?: boolean } = {},
+) {
+  return jwt.sign(
+    {
+      userId: user.id,
+      role: user.role,
+      sid: sessionId,
+      tv: user.tokenVersion,
+      ...(options.passwordChangeOnly ? { scope: PASSWORD_CHANGE_SCOPE } : {}),
+    },
+    ACCESS_SECRET,
+    { expiresIn: '15m' },
+  );
+}
+
+/**
+ * CREATE IMPERSONATION TOKEN
+ * Access token for a director viewing the app as another user: userId/role/tv are
+ * the impersonated user's, act is the director's id and imp the ImpersonationSession.
+ * It has no login session (no refresh token) and expires with the impersonation.
+ */
+export function signImpersonationToken(
+  user: { id: number; role: string; tokenVersion: number },
+  impersonation: { id: number; actorId: number; expiresAt: Date },
+) {
+  const expiresInSeconds = Math.max(1, Math.floor((impersonation.expiresAt.getTime() - Date.now()) / 1000));
+  return jwt.sign(
+    {
+      userId: user.id,
+      role: user.role,
+      tv: user.tokenVersion,
+      act: impersonation.actorId,
+      imp: impersonation.id,
+    },
+    ACCESS_SECRET,
+    { expiresIn: expiresInSeconds },
+  );
+}
@@ -1,14 +1,17 @@
+import crypto from 'crypto';
 import speakeasy from 'speakeasy';
 import qrcode from 'qrcode';
-import { PrismaClient } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import { prisma } from './prisma';
 
-const prisma = new PrismaClient();
+const RECOVERY_CODE_COUNT = 10;
+const TOTP_STEP_SECONDS = 30;
 
 export async function generate2FASecret(userId: number) {
   const secret = speakeasy.generateSecret({ length: 20 });
   await prisma.user.update({
     where: { id: userId },
-    data: { twoFASecret: secret.base32 },
+    data: { twoFASecret: secret.base32, twoFALastUsedStep: null },
   });
   const otpauthUrl = secret.otpauth_url;
   if (!otpauthUrl) throw new Error('Failed to generate 2FA otpauth URL');
@@ -16,11 +19,88 @@ export async function generate2FASecret(userId: number) {
   return { otpauthUrl, qrCode };
 }
 
-export function verify2FACode(secret: string, token: string) {
-  return speakeasy.totp.verify({
+/**
+ * Checks a TOTP code and remembers its time step, so a code that was accepted
+ * once - or any older one - can't be used again while it is still in the window.
+ */
+export async function consume2FACode(userId: number, secret: string, token: string) {
+  const match = speakeasy.totp.verifyDelta({
     secret,
     encoding: 'base32',
     token,
     window: 1,
   });
+  if (!match) return false;
+
+  const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + match.delta;
+  // Conditional on the last step, so two requests racing with the same code can't both pass
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, OR: [{ twoFALastUsedStep: null }, { twoFALastUsedStep: { lt: step } }] },
+    data: { twoFALastUsedStep: step },
+  });
+  return count === 1;
+}
+
+/**
+ * Creates a fresh set of single-use recovery codes for a user.
+ * Only bcrypt hashes are stored; the plain codes are returned once so the
+ * user can write them down.
+ */
+export async function generateRecoveryCodes(userId: number) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map((code) => bcrypt.hash(code, 10)));
+  await prisma.$transaction([
+    prisma.twoFARecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFARecoveryCode.createMany({ data: hashes.map((codeHash) => ({ userId, codeHash })) }),
+  ]);
+  return codes;
+}
+
+/**
+ * Checks a recovery code against the user's unused ones and marks it used when
+ * it matches, so every code works exactly once.
+ */
+export async function consumeRecoveryCode(userId: number, code: string) {
+  const candidates = await prisma.twoFARecoveryCode.findMany({
+    where: { userId, usedAt: null },
+    select: { id: true, codeHash: true },
+  });
+  const normalized = code.trim().toLowerCase();
+
+  for (const candidate of candidates) {
+    if (await bcrypt.compare(normalized, candidate.codeHash)) {
+      // Conditional on usedAt, so two requests racing with the same code can't both pass
+      const { count } = await prisma.twoFARecoveryCode.updateMany({
+        where: { id: candidate.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      return count === 1;
+    }
+  }
+  return false;
+}
+
+/**
+ * Starts a 2FA login challenge and returns its id for the challenge token. Only
+ * the latest challenge a user was given is open.
+ */
+export async function openTwoFAChallenge(userId: number) {
+  const challengeId = crypto.randomUUID();
+  await prisma.user.update({
+    where: { id: userId },
+    data: { twoFAChallengeId: challengeId },
+  });
+  return challengeId;
+}
+
+// Closes the challenge once both factors passed - false when it was already used
+export async function closeTwoFAChallenge(userId: number, challengeId: string) {
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId, twoFAChallengeId: challengeId },
+    data: { twoFAChallengeId: null },
+  });
+  return count === 1;
 }
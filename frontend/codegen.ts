@@ -0,0 +1,31 @@
+import type { CodegenConfig } from "@graphql-codegen/cli";
+
+/**
+ * Types for every operation in src - run `npm run codegen` after changing a query
+ * (or the API schema) and commit src/graphql/generated with it.
+ *
+ * Operations are written as graphql(`query Name ...`); the generated graphql()
+ * returns the same string, typed with its result and variables, so
+ * graphqlRequest() and subscribe() check both. Operation names must be unique.
+ */
+const config: CodegenConfig = {
+  schema: "../backend-node/src/schema.ts",
+  documents: ["src/**/*.{ts,tsx}", "!src/graphql/generated/**"],
+  generates: {
+    "src/graphql/generated/": {
+      preset: "client",
+      presetConfig: {
+        fragmentMasking: false,
+      },
+      config: {
+        documentMode: "string",
+        enumsAsTypes: true,
+        avoidOptionals: { field: true, inputValue: false },
+        skipTypename: true,
+        useTypeImports: true,
+      },
+    },
+  },
+};
+
+export default config;
@@ -1,18 +1,24 @@
-import React, { Suspense, useEffect, useState } from "react";
+import React, { Suspense, useEffect, useRef, useState } from "react";
 import { ApolloProvider } from "@apollo/client/react";
 import { apolloClient } from "./apolloClient";
 import { HorizontalNav } from "./components/layout/HorizontalNav";
+import { IMPERSONATION_BANNER_HEIGHT } from "./components/layout/ImpersonationBanner";
 import { LoginPage } from "./auth/LoginPage";
 import { RegisterPage } from "./auth/RegisterPage";
 import { ForgotPasswordPage } from "./auth/ForgotPasswordPage";
+import { ChangePasswordRequiredPage } from "./auth/ChangePasswordRequiredPage";
 import { AuthContext, type AuthUser } from "./auth/authContext";
+import { apiLogout } from "./auth/api";
+import { hasStoredImpersonator, restoreImpersonator } from "./auth/impersonation";
+import { fetchMyPermissions } from "./lib/permissions";
+import { SESSION_REFRESHED_EVENT } from "./lib/session";
+import { broadcastSession, onSessionMessage, watchIdle } from "./lib/sessionSync";
+import { clearGraphqlCache } from "./lib/graphqlClient";
+import { IDLE_TIMEOUT_MINUTES } from "./config/api";
 import type { AppPage } from "./types/navigation";
 import { getStorageItem, removeStorageItem, setStorageItem } from "./lib/safeStorage";
 
-export type UserRole = "director" | "manager" | "employee";
-
 type View = "login" | "register" | "forgot" | "app";
-const VALID_USER_ROLES: readonly UserRole[] = ["director", "manager", "employee"];
 
 function isValidStoredUser(value: unknown): value is AuthUser {
   if (!value || typeof value !== "object") {
@@ -25,8 +31,9 @@ function isValidStoredUser(value: unknown): value is AuthUser {
     Number.isFinite(candidate.id) &&
     typeof candidate.email === "string" &&
     candidate.email.length > 3 &&
+    // Roles live in the database, so any role key is fine - the backend checks what it may do
     typeof candidate.role === "string" &&
-    VALID_USER_ROLES.includes(candidate.role as UserRole)
+    candidate.role.length > 0
   );
 }
 
@@ -109,13 +116,40 @@ const MessagingInbox = React.lazy(() => import("./pages/MessagingInbox"));
 const SlackIntegrationPage = React.lazy(() => import("./pages/SlackIntegrationPage"));
 const EmployeeSelfServicePortal = React.lazy(() => import("./pages/EmployeeSelfServicePortal"));
 const AnalyticsDashboard = React.lazy(() => import("./pages/AnalyticsDashboard"));
+const InvitationsPage = React.lazy(() =>
+  import("./pages/InvitationsPage").then((module) => ({ default: module.InvitationsPage })),
+);
+const ApiKeysPage = React.lazy(() =>
+  import("./pages/ApiKeysPage").then((module) => ({ default: module.ApiKeysPage })),
+);
+const RolesPage = React.lazy(() => import("./pages/RolesPage").then((module) => ({ default: module.RolesPage })));
+const OrgChartPage = React.lazy(() =>
+  import("./pages/OrgChartPage").then((module) => ({ default: module.OrgChartPage })),
+);
 
 const AppPageFallback = () => (
   <div style={{ padding: "2rem", textAlign: "center", color: "#64748b" }}>Loading page...</div>
 );
 
+// Emailed links carry a single-use token in the query string:
+// /?invite=<token> opens the accept-invitation form, /?reset=<token> the new password form.
+function readLinkToken(param: "invite" | "reset") {
+  if (typeof window === "undefined") return null;
+  return new URLSearchParams(window.location.search).get(param);
+}
+
+function clearLinkTokens() {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has("invite") && !url.searchParams.has("reset")) return;
+  url.searchParams.delete("invite");
+  url.searchParams.delete("reset");
+  window.history.replaceState(null, "", url.toString());
+}
+
 const App: React.FC = () => {
-  const [view, setView] = useState<View>("login");
+  const [inviteToken, setInviteToken] = useState<string | null>(() => readLinkToken("invite"));
+  const [resetToken, setResetToken] = useState<string | null>(() => readLinkToken("reset"));
+  const [view, setView] = useState<View>(inviteToken ? "register" : resetToken ? "forgot" : "login");
   const [auth, setAuth] = useState<{
     user: AuthUser | null;
     accessToken: string | null;
@@ -128,6 +162,9 @@ const App: React.FC = () => {
   const [currentPage, setCurrentPage] = useState<AppPage>("dashboard");
 
   useEffect(() => {
+    // Someone opening an invitation/reset link should see that form, not a previous login
+    if (inviteToken || resetToken) return;
+
     const accessToken = getStorageItem("accessToken");
     const refreshToken = getStorageItem("refreshToken");
     const userStr = getStorageItem("user");
@@ -141,10 +178,19 @@ const App: React.FC = () => {
 
         setAuth({ user: parsedUser, accessToken, refreshToken: refreshToken || null });
         setView("app");
+        return;
       } catch {
         clearPersistedAuth();
       }
     }
+
+    // A view-as session ended while the tab was away (or its token was rejected):
+    // go back to the director's own login
+    if (hasStoredImpersonator()) {
+      void restoreImpersonator().then((director) => {
+        if (director) handleAuthChange(director);
+      });
+    }
   }, []);
 
   useEffect(() => {
@@ -155,14 +201,71 @@ const App: React.FC = () => {
     };
 
     window.addEventListener(APP_PREFERENCES_UPDATED_EVENT, handlePreferencesChanged);
-    window.addEventListener("storage", handlePreferencesChanged);
 
     return () => {
       window.removeEventListener(APP_PREFERENCES_UPDATED_EVENT, handlePreferencesChanged);
-      window.removeEventListener("storage", handlePreferencesChanged);
     };
   }, []);
 
+  // The GraphQL clients refreshed the access token - use the new pair from here on
+  useEffect(() => {
+    const handleSessionRefreshed = () => {
+      setAuth((current) =>
+        current.user
+          ? {
+              ...current,
+              accessToken: getStorageItem("accessToken"),
+              refreshToken: getStorageItem("refreshToken"),
+            }
+          : current,
+      );
+    };
+
+    window.addEventListener(SESSION_REFRESHED_EVENT, handleSessionRefreshed);
+    return () => window.removeEventListener(SESSION_REFRESHED_EVENT, handleSessionRefreshed);
+  }, []);
+
+  // Another tab logged in or out, refreshed the tokens or saved preferences (lib/sessionSync.ts)
+  useEffect(() => {
+    return onSessionMessage((message) => {
+      if (message.type === "preferences-changed") {
+        applyUiPreferences();
+      } else if (message.type === "tokens-refreshed") {
+        window.dispatchEvent(new Event(SESSION_REFRESHED_EVENT));
+      } else if (message.type === "signed-out") {
+        // Storage is already cleared and the tokens revoked by the tab that logged out
+        clearGraphqlCache();
+        setAuth({ user: null, accessToken: null, refreshToken: null });
+        setView("login");
+      } else if (message.type === "signed-in") {
+        adoptStoredSession();
+      }
+    });
+  }, [auth.user?.id]);
+
+  // Optional: sign every tab out after VITE_IDLE_TIMEOUT_MINUTES without activity
+  useEffect(() => {
+    if (view !== "app" || !auth.user) return;
+    return watchIdle(IDLE_TIMEOUT_MINUTES, () => logoutRef.current());
+  }, [view, auth.user?.id]);
+
+  // A director may have edited this user's role since they logged in - pick up its current permissions
+  useEffect(() => {
+    if (view !== "app" || !auth.user || !auth.accessToken || auth.user.passwordChangeRequired) return;
+    let cancelled = false;
+    fetchMyPermissions(auth.accessToken)
+      .then((permissions) => {
+        if (cancelled || !auth.user) return;
+        if (JSON.stringify(permissions) !== JSON.stringify(auth.user.permissions ?? null)) {
+          handleAuthChange({ ...auth, user: { ...auth.user, permissions } });
+        }
+      })
+      .catch((error) => console.error("Failed to load permissions:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [view, auth.accessToken]);
+
   const handleAuthChange = (data: {
     user: AuthUser | null;
     accessToken: string | null;
@@ -177,19 +280,56 @@ const App: React.FC = () => {
         removeStorageItem("refreshToken");
       }
       setStorageItem("user", JSON.stringify(data.user));
-      setCurrentPage("dashboard");
+      // Invitation/reset links are single-use; don't leave them in the address bar
+      clearLinkTokens();
+      setInviteToken(null);
+      setResetToken(null);
+      // Only a fresh login lands on the dashboard; token/profile updates keep the current page.
+      if (auth.user?.id !== data.user.id) {
+        setCurrentPage("dashboard");
+      }
       setView("app");
+      broadcastSession({ type: "signed-in" });
     } else {
       clearPersistedAuth();
+      broadcastSession({ type: "signed-out" });
       setView("login");
     }
   };
 
+  // The login another tab stored - switch to it (or pick up its token/profile update)
+  const adoptStoredSession = () => {
+    const accessToken = getStorageItem("accessToken");
+    const userStr = getStorageItem("user");
+    if (!accessToken || !userStr) return;
+    try {
+      const storedUser: unknown = JSON.parse(userStr);
+      if (!isValidStoredUser(storedUser)) return;
+      clearGraphqlCache();
+      if (auth.user?.id !== storedUser.id) {
+        setCurrentPage("dashboard");
+      }
+      setAuth({ user: storedUser, accessToken, refreshToken: getStorageItem("refreshToken") });
+      setView("app");
+    } catch {
+      // Half-written by the other tab - its next message brings the rest
+    }
+  };
+
   const handleLogout = () => {
+    // Logging out while viewing as someone logs the director out too
+    if (hasStoredImpersonator()) {
+      void restoreImpersonator().then((director) => apiLogout(director?.refreshToken ?? null));
+    }
+    // Revoke the refresh token family server-side; local state is cleared regardless.
+    void apiLogout(auth.refreshToken || getStorageItem("refreshToken"));
     clearPersistedAuth();
+    broadcastSession({ type: "signed-out" });
     setAuth({ user: null, accessToken: null, refreshToken: null });
     setView("login");
   };
+  const logoutRef = useRef(handleLogout);
+  logoutRef.current = handleLogout;
 
   return (
     <ApolloProvider client={apolloClient}>
@@ -205,17 +345,45 @@ const App: React.FC = () => {
         {view !== "app" || !auth.user ? (
           <div className="auth-shell">
             {view === "login" && (
-              <LoginPage goRegister={() => setView("register")} goForgot={() => setView("forgot")} />
+              <LoginPage goForgot={() => setView("forgot")} />
             )}
-            {view === "register" && <RegisterPage goLogin={() => setView("login")} />}
-            {view === "forgot" && <ForgotPasswordPage goLogin={() => setView("login")} />}
+            {view === "register" && (
+              <RegisterPage
+                inviteToken={inviteToken}
+                goLogin={() => {
+                  clearLinkTokens();
+                  setInviteToken(null);
+                  setView("login");
+                }}
+              />
+            )}
+            {view === "forgot" && (
+              <ForgotPasswordPage
+                resetToken={resetToken}
+                goLogin={() => {
+                  clearLinkTokens();
+                  setResetToken(null);
+                  setView("login");
+                }}
+              />
+            )}
+          </div>
+        ) : auth.user.passwordChangeRequired ? (
+          // Temporary or expired password: the token can't do anything else yet
+          <div className="auth-shell">
+            <ChangePasswordRequiredPage />
           </div>
         ) : (
           <div style={{ minHeight: "100vh", background: "var(--app-shell-bg, #f5f7fa)" }}>
             <HorizontalNav currentPage={currentPage} onNavigate={setCurrentPage} onLogout={handleLogout} />
-            <main style={{ padding: "0", paddingTop: "72px" }}>
+            <main
+              style={{
+                padding: "0",
+                paddingTop: auth.user.impersonation ? `${72 + IMPERSONATION_BANNER_HEIGHT}px` : "72px",
+              }}
+            >
               <Suspense fallback={<AppPageFallback />}>
-                {currentPage === "employees" && <EmployeesPage currentRole={auth.user.role} />}
+                {currentPage === "employees" && <EmployeesPage />}
                 {currentPage === "dashboard" && <DashboardPage onNavigate={setCurrentPage} />}
                 {currentPage === "notifications" && <NotificationsPage />}
                 {currentPage === "reports" && <ReportsPage />}
@@ -239,6 +407,10 @@ const App: React.FC = () => {
                 {currentPage === "analyticsDashboard" && <AnalyticsDashboard />}
                 {currentPage === "employeeSelfServicePortal" && <EmployeeSelfServicePortal />}
                 {currentPage === "slackIntegration" && <SlackIntegrationPage />}
+                {currentPage === "invitations" && <InvitationsPage />}
+                {currentPage === "api-keys" && <ApiKeysPage />}
+                {currentPage === "roles" && <RolesPage />}
+                {currentPage === "org-chart" && <OrgChartPage />}
               </Suspense>
             </main>
           </div>
@@ -1,14 +1,18 @@
-import { ApolloClient, InMemoryCache, createHttpLink, from } from '@apollo/client';
+import { ApolloClient, InMemoryCache, createHttpLink } from '@apollo/client';
+import { CombinedGraphQLErrors } from '@apollo/client/errors';
 import { setContext } from '@apollo/client/link/context';
+import { ErrorLink } from '@apollo/client/link/error';
+import { Observable } from 'rxjs';
 import { GRAPHQL_URL } from "./config/api";
-import { getStorageItem } from "./lib/safeStorage";
+import { endSession, getFreshAccessToken, renewRejectedToken } from "./lib/session";
 
 const httpLink = createHttpLink({
   uri: GRAPHQL_URL,
 });
 
-const authLink = setContext((_, { headers }) => {
-  const token = getStorageItem("accessToken");
+// Same token handling as graphqlRequest (lib/session.ts): refreshed shortly before it expires
+const authLink = setContext(async (_, { headers }) => {
+  const token = await getFreshAccessToken();
   return {
     headers: {
       ...headers,
@@ -17,7 +21,30 @@ const authLink = setContext((_, { headers }) => {
   }
 });
 
+// UNAUTHENTICATED: refresh once and replay the operation; log out only if the refresh fails
+const refreshLink = new ErrorLink(({ error, operation, forward }) => {
+  const unauthenticated =
+    CombinedGraphQLErrors.is(error) && error.errors.some((e) => e.extensions?.code === 'UNAUTHENTICATED');
+  if (!unauthenticated || operation.getContext().retriedAfterRefresh) return;
+
+  const rejected = String(operation.getContext().headers?.authorization || '').replace(/^Bearer /, '');
+  return new Observable((observer) => {
+    let subscription: { unsubscribe: () => void } | undefined;
+    renewRejectedToken(rejected).then((token) => {
+      if (!token) {
+        endSession();
+        observer.error(error);
+        return;
+      }
+      // authLink picks up the new token from storage on the way out
+      operation.setContext({ retriedAfterRefresh: true });
+      subscription = forward(operation).subscribe(observer);
+    });
+    return () => subscription?.unsubscribe();
+  });
+});
+
 export const apolloClient = new ApolloClient({
-  link: authLink.concat(httpLink),
+  link: refreshLink.concat(authLink).concat(httpLink),
   cache: new InMemoryCache(),
 });
@@ -0,0 +1,128 @@
+import React, { useContext, useState } from "react";
+import { AuthContext } from "./authContext";
+import type { FieldError } from "./api";
+import { FieldErrorList } from "./FieldErrorList";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { graphql } from "../graphql/generated";
+
+const CHANGE_PASSWORD_MUTATION = graphql(`
+  mutation ChangeRequiredPassword($currentPassword: String!, $newPassword: String!) {
+    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {
+      success
+      message
+      accessToken
+      fieldErrors {
+        field
+        code
+        message
+      }
+    }
+  }
+`);
+
+// Shown instead of the app while the user has a temporary or expired password.
+// Until it's changed, the access token only works for the changePassword mutation.
+export const ChangePasswordRequiredPage: React.FC = () => {
+  const { user, accessToken, refreshToken, setAuth, logout } = useContext(AuthContext);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !accessToken) return;
+    if (newPassword !== confirmPassword) {
+      setError("New passwords do not match");
+      return;
+    }
+    setError(null);
+    setFieldErrors([]);
+    setLoading(true);
+    try {
+      const data = await graphqlRequest(
+        CHANGE_PASSWORD_MUTATION,
+        { currentPassword, newPassword },
+        accessToken,
+      );
+      const result = data.changePassword;
+      if (!result.success || !result.accessToken) {
+        setFieldErrors(result.fieldErrors || []);
+        if (!result.fieldErrors?.length) setError(result.message);
+        return;
+      }
+      // The new token is a full one - this opens the app
+      setAuth({
+        user: { ...user, passwordChangeRequired: null },
+        accessToken: result.accessToken,
+        refreshToken,
+      });
+    } catch (err: any) {
+      setError(err.message || "Failed to change password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="auth-card">
+      <h1>Choose a new password</h1>
+      <p className="auth-subtitle">
+        {user?.passwordChangeRequired === "EXPIRED"
+          ? "Your password has expired. Choose a new one to continue."
+          : "You signed in with a temporary password. Choose your own password to continue."}
+      </p>
+
+      <form onSubmit={onSubmit} className="auth-form">
+        <label>
+          Current password
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+          />
+        </label>
+        <FieldErrorList errors={fieldErrors} field="currentPassword" />
+
+        <label>
+          New password
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            required
+          />
+        </label>
+        <FieldErrorList errors={fieldErrors} field="newPassword" />
+
+        <label>
+          Confirm new password
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
+        </label>
+
+        {error && <div className="auth-error">{error}</div>}
+
+        <button type="submit" className="primary-btn" disabled={loading}>
+          {loading ? "Saving..." : "Change password"}
+        </button>
+      </form>
+
+      <div className="auth-footer">
+        <button type="button" className="link-btn" onClick={logout}>
+          Sign out
+        </button>
+      </div>
+    </div>
+  );
+};
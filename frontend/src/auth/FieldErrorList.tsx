@@ -0,0 +1,22 @@
+import React from "react";
+import type { FieldError } from "./api";
+
+type Props = {
+  errors: FieldError[];
+  field: string;
+};
+
+// Messages the backend returned for one input (e.g. password policy violations).
+export const FieldErrorList: React.FC<Props> = ({ errors, field }) => {
+  const messages = errors.filter((error) => error.field === field);
+  if (messages.length === 0) return null;
+  return (
+    <>
+      {messages.map((error) => (
+        <div key={error.code} className="auth-error">
+          {error.message}
+        </div>
+      ))}
+    </>
+  );
+};
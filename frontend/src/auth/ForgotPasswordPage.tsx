@@ -1,13 +1,20 @@
 import React, { useState } from "react";
-import { apiForgotPassword } from "./api";
+import { apiForgotPassword, apiResetPassword, FieldValidationError, type FieldError } from "./api";
+import { FieldErrorList } from "./FieldErrorList";
 
 type Props = {
+  // Token from the emailed reset link (?reset=...) - shows the new password form
+  resetToken?: string | null;
   goLogin: () => void;
 };
 
-export const ForgotPasswordPage: React.FC<Props> = ({ goLogin }) => {
+export const ForgotPasswordPage: React.FC<Props> = ({ resetToken, goLogin }) => {
   const [email, setEmail] = useState("admin@example.com");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [resetDone, setResetDone] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
   const [loading, setLoading] = useState(false);
 
   const onSubmit = async (e: React.FormEvent) => {
@@ -24,6 +31,81 @@ export const ForgotPasswordPage: React.FC<Props> = ({ goLogin }) => {
     }
   };
 
+  const onSubmitReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetToken) return;
+    if (newPassword !== confirmPassword) {
+      setStatus("Passwords do not match");
+      return;
+    }
+    setStatus(null);
+    setFieldErrors([]);
+    setLoading(true);
+    try {
+      await apiResetPassword(resetToken, newPassword);
+      setResetDone(true);
+      setStatus("Your password has been reset. You can now sign in.");
+    } catch (err: any) {
+      if (err instanceof FieldValidationError) {
+        setFieldErrors(err.fieldErrors);
+      } else {
+        setStatus(err.message || "Password reset failed");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (resetToken) {
+    return (
+      <div className="auth-card">
+        <h1>Choose a new password</h1>
+        <p className="auth-subtitle">You&apos;ll be signed out of every device.</p>
+
+        {!resetDone && (
+          <form onSubmit={onSubmitReset} className="auth-form">
+            <label>
+              New password
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+            </label>
+            <FieldErrorList errors={fieldErrors} field="newPassword" />
+
+            <label>
+              Confirm password
+              <input
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </label>
+
+            {status && <div className="auth-info">{status}</div>}
+
+            <button type="submit" className="primary-btn" disabled={loading}>
+              {loading ? "Saving..." : "Reset password"}
+            </button>
+          </form>
+        )}
+
+        {resetDone && status && <div className="auth-info">{status}</div>}
+
+        <div className="auth-footer">
+          <button type="button" className="link-btn" onClick={goLogin}>
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="auth-card">
       <h1>Forgot password</h1>
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef } from "react";
+import { GOOGLE_CLIENT_ID } from "../config/api";
+
+const GSI_SCRIPT_URL = "https://accounts.google.com/gsi/client";
+
+// Minimal typing for the bits of Google Identity Services we use.
+type GoogleAccountsId = {
+  initialize: (options: { client_id: string; callback: (response: { credential: string }) => void }) => void;
+  renderButton: (parent: HTMLElement, options: Record<string, unknown>) => void;
+};
+
+declare global {
+  interface Window {
+    google?: { accounts: { id: GoogleAccountsId } };
+  }
+}
+
+let gsiScriptPromise: Promise<void> | null = null;
+
+function loadGsiScript() {
+  if (window.google?.accounts?.id) return Promise.resolve();
+  if (!gsiScriptPromise) {
+    gsiScriptPromise = new Promise<void>((resolve, reject) => {
+      const script = document.createElement("script");
+      script.src = GSI_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        gsiScriptPromise = null;
+        reject(new Error("Failed to load Google sign-in"));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return gsiScriptPromise;
+}
+
+type Props = {
+  // Called with the Google ID token (a signed JWT) after the user picks an account.
+  onCredential: (idToken: string) => void;
+  onError?: (message: string) => void;
+};
+
+// Renders Google's own "Sign in with Google" button. Nothing is shown when
+// VITE_GOOGLE_CLIENT_ID isn't configured.
+export const GoogleSignInButton: React.FC<Props> = ({ onCredential, onError }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Keep the latest callbacks without re-initializing Google on every render.
+  const callbacksRef = useRef({ onCredential, onError });
+  callbacksRef.current = { onCredential, onError };
+
+  useEffect(() => {
+    if (!GOOGLE_CLIENT_ID) return;
+    let cancelled = false;
+
+    loadGsiScript()
+      .then(() => {
+        const googleId = window.google?.accounts.id;
+        if (cancelled || !googleId || !containerRef.current) return;
+        googleId.initialize({
+          client_id: GOOGLE_CLIENT_ID,
+          callback: (response) => callbacksRef.current.onCredential(response.credential),
+        });
+        googleId.renderButton(containerRef.current, {
+          theme: "outline",
+          size: "large",
+          text: "continue_with",
+          width: 320,
+        });
+      })
+      .catch((err: Error) => callbacksRef.current.onError?.(err.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!GOOGLE_CLIENT_ID) return null;
+
+  return <div ref={containerRef} style={{ display: "flex", justifyContent: "center" }} />;
+};
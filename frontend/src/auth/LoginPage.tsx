@@ -1,7 +1,14 @@
 ﻿import React, { useContext, useEffect, useState } from "react";
 import "./login-animated.css";
 import { AuthContext } from "./authContext";
-import { apiLogin, apiGoogleLogin, toFrontendRole } from "./api";
+import {
+  apiLogin,
+  apiGoogleLogin,
+  apiLoginTwoFactor,
+  GoogleLinkRequiredError,
+  isTwoFactorChallenge,
+} from "./api";
+import { GoogleSignInButton } from "./GoogleSignInButton";
 import { API_URL } from "../config/api";
 import {
   getCurrentFestivalTheme,
@@ -10,17 +17,22 @@ import {
 } from "../festivalThemes";
 
 type Props = {
-  goRegister: () => void;
   goForgot: () => void;
 };
 
-export const LoginPage: React.FC<Props> = ({ goRegister, goForgot }) => {
+export const LoginPage: React.FC<Props> = ({ goForgot }) => {
   const { setAuth } = useContext(AuthContext);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [demoFestival, setDemoFestival] = useState<string>("");
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Set when the Google email matches an email/password account that must be confirmed first
+  const [googleLinkToken, setGoogleLinkToken] = useState<string | null>(null);
+  const [linkPassword, setLinkPassword] = useState("");
   const festival = getCurrentFestivalTheme();
 
   useEffect(() => {
@@ -34,8 +46,19 @@ export const LoginPage: React.FC<Props> = ({ goRegister, goForgot }) => {
     setLoading(true);
     try {
       const res = await apiLogin(email, password);
+      if (isTwoFactorChallenge(res)) {
+        setChallengeToken(res.challengeToken);
+        setTwoFactorCode("");
+        return;
+      }
       setAuth({
-        user: { id: res.user.id, email: res.user.email, role: toFrontendRole(res.user.role) },
+        user: {
+          id: res.user.id,
+          email: res.user.email,
+          role: res.user.role,
+          permissions: res.user.permissions,
+          passwordChangeRequired: res.user.passwordChangeRequired ?? null,
+        },
         accessToken: res.accessToken,
         refreshToken: res.refreshToken,
       });
@@ -46,23 +69,86 @@ export const LoginPage: React.FC<Props> = ({ goRegister, goForgot }) => {
     }
   };
 
-  const onGoogleDemo = async () => {
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await apiLoginTwoFactor(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: twoFactorCode } : { code: twoFactorCode },
+      );
+      setAuth({
+        user: {
+          id: res.user.id,
+          email: res.user.email,
+          role: res.user.role,
+          permissions: res.user.permissions,
+          passwordChangeRequired: res.user.passwordChangeRequired ?? null,
+        },
+        accessToken: res.accessToken,
+        refreshToken: res.refreshToken,
+      });
+    } catch (err: any) {
+      setError(err.message || "Verification failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setTwoFactorCode("");
+    setUseRecoveryCode(false);
+    setError(null);
+  };
+
+  const onGoogleCredential = async (idToken: string, accountPassword?: string) => {
     setError(null);
     setLoading(true);
     try {
-      const res = await apiGoogleLogin("google-demo@example.com", "Google Demo");
+      const res = await apiGoogleLogin(idToken, accountPassword);
+      setGoogleLinkToken(null);
+      setLinkPassword("");
+      if (isTwoFactorChallenge(res)) {
+        setChallengeToken(res.challengeToken);
+        setTwoFactorCode("");
+        return;
+      }
       setAuth({
-        user: { id: res.user.id, email: res.user.email, role: toFrontendRole(res.user.role) },
+        user: {
+          id: res.user.id,
+          email: res.user.email,
+          role: res.user.role,
+          permissions: res.user.permissions,
+          passwordChangeRequired: res.user.passwordChangeRequired ?? null,
+        },
         accessToken: res.accessToken,
         refreshToken: res.refreshToken,
       });
     } catch (err: any) {
+      if (err instanceof GoogleLinkRequiredError) {
+        setGoogleLinkToken(idToken);
+      }
       setError(err.message || "Google login failed");
     } finally {
       setLoading(false);
     }
   };
 
+  const onSubmitGoogleLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!googleLinkToken) return;
+    onGoogleCredential(googleLinkToken, linkPassword);
+  };
+
+  const cancelGoogleLink = () => {
+    setGoogleLinkToken(null);
+    setLinkPassword("");
+    setError(null);
+  };
+
   const handleDemoChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const name = e.target.value;
     setDemoFestival(name);
@@ -166,53 +252,127 @@ export const LoginPage: React.FC<Props> = ({ goRegister, goForgot }) => {
           </p>
         </div>
 
-        <form onSubmit={onSubmit} className="auth-form" autoComplete="off">
-          <label>
-            Email
-            <input
-              name="loginEmail"
-              type="email"
-              autoComplete="off"
-              data-lpignore="true"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-            />
-          </label>
+        {challengeToken ? (
+          <form onSubmit={onSubmitTwoFactor} className="auth-form" autoComplete="off">
+            <p style={{ margin: "0 0 8px 0", color: "#475569", textAlign: "center" }}>
+              {useRecoveryCode
+                ? "Enter one of your saved recovery codes."
+                : "Enter the 6-digit code from your authenticator app."}
+            </p>
+            <label>
+              {useRecoveryCode ? "Recovery code" : "Authentication code"}
+              <input
+                name="twoFactorCode"
+                type="text"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                autoComplete="one-time-code"
+                autoFocus
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                required
+              />
+            </label>
 
-          <label>
-            Password
-            <input
-              name="loginPassword"
-              type="password"
-              autoComplete="off"
-              data-lpignore="true"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-            />
-          </label>
+            {error && <div className="auth-error">{error}</div>}
 
-          {error && <div className="auth-error">{error}</div>}
+            <button type="submit" className="primary-btn" disabled={loading}>
+              {loading ? "Verifying..." : "Verify"}
+            </button>
 
-          <button type="submit" className="primary-btn" disabled={loading}>
-            {loading ? "Signing in..." : "Sign in"}
-          </button>
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => {
+                setUseRecoveryCode((current) => !current);
+                setTwoFactorCode("");
+              }}
+              disabled={loading}
+            >
+              {useRecoveryCode ? "Use authenticator code instead" : "Use a recovery code"}
+            </button>
 
-          <button type="button" className="secondary-btn" onClick={onGoogleDemo} disabled={loading}>
-            Continue with Google (demo)
-          </button>
-        </form>
+            <button type="button" className="link-btn" onClick={cancelTwoFactor} disabled={loading}>
+              Back to sign in
+            </button>
+          </form>
+        ) : googleLinkToken ? (
+          <form onSubmit={onSubmitGoogleLink} className="auth-form" autoComplete="off">
+            <p style={{ margin: "0 0 8px 0", color: "#475569", textAlign: "center" }}>
+              This email already has a password sign-in. Enter that password once to link your Google
+              account.
+            </p>
+            <label>
+              Password
+              <input
+                name="linkPassword"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={linkPassword}
+                onChange={(e) => setLinkPassword(e.target.value)}
+                required
+              />
+            </label>
+
+            {error && <div className="auth-error">{error}</div>}
+
+            <button type="submit" className="primary-btn" disabled={loading}>
+              {loading ? "Linking..." : "Link Google and sign in"}
+            </button>
+
+            <button type="button" className="link-btn" onClick={cancelGoogleLink} disabled={loading}>
+              Back to sign in
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={onSubmit} className="auth-form" autoComplete="off">
+            <label>
+              Email
+              <input
+                name="loginEmail"
+                type="email"
+                autoComplete="off"
+                data-lpignore="true"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </label>
+
+            <label>
+              Password
+              <input
+                name="loginPassword"
+                type="password"
+                autoComplete="off"
+                data-lpignore="true"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </label>
+
+            {error && <div className="auth-error">{error}</div>}
+
+            <button type="submit" className="primary-btn" disabled={loading}>
+              {loading ? "Signing in..." : "Sign in"}
+            </button>
+
+            <GoogleSignInButton
+              onCredential={(idToken) => onGoogleCredential(idToken)}
+              onError={setError}
+            />
+          </form>
+        )}
 
         <div className="auth-footer">
           <button type="button" className="link-btn" onClick={goForgot}>
             Forgot password?
           </button>
-          <span> | </span>
-          <button type="button" className="link-btn" onClick={goRegister}>
-            Create account
-          </button>
         </div>
+        <p style={{ margin: "8px 0 0 0", fontSize: "13px", color: "#7f8c8d", textAlign: "center" }}>
+          New here? Accounts are created by invitation - ask your manager for an invite link.
+        </p>
       </div>
     </div>
   );
@@ -1,51 +1,108 @@
-﻿import React, { useContext, useState } from "react";
+﻿import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "./authContext";
-import { apiRegister, toFrontendRole, type BackendAuthRole } from "./api";
+import {
+  apiGetInvitation,
+  apiRegister,
+  FieldValidationError,
+  type FieldError,
+  type InvitationDetails,
+} from "./api";
+import { FieldErrorList } from "./FieldErrorList";
 
 type Props = {
+  // Token from the invitation link (?invite=...). Registration is invite-only.
+  inviteToken: string | null;
   goLogin: () => void;
 };
 
-export const RegisterPage: React.FC<Props> = ({ goLogin }) => {
+export const RegisterPage: React.FC<Props> = ({ inviteToken, goLogin }) => {
   const { setAuth } = useContext(AuthContext);
-  const [email, setEmail] = useState("director@example.com");
-  const [password, setPassword] = useState("password123");
-  const [role, setRole] = useState<BackendAuthRole>("director");
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
-  const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [loading, setLoading] = useState(Boolean(inviteToken));
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    apiGetInvitation(inviteToken)
+      .then((details) => {
+        setInvitation(details);
+        setName(details.name || "");
+      })
+      .catch((err: Error) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [inviteToken]);
 
   const onSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!inviteToken) return;
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
     setError(null);
+    setFieldErrors([]);
     setLoading(true);
     try {
-      const res = await apiRegister(email, password, role);
+      const res = await apiRegister(inviteToken, password, name);
       setAuth({
-        user: { id: res.user.id, email: res.user.email, role: toFrontendRole(res.user.role) },
+        user: { id: res.user.id, email: res.user.email, role: res.user.role, permissions: res.user.permissions },
         accessToken: res.accessToken,
         refreshToken: res.refreshToken,
       });
     } catch (err: any) {
-      setError(err.message || "Register failed");
+      if (err instanceof FieldValidationError) {
+        setFieldErrors(err.fieldErrors);
+      } else {
+        setError(err.message || "Register failed");
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  if (!inviteToken || (!invitation && !loading)) {
+    return (
+      <div className="auth-card">
+        <h1>Create account</h1>
+        <p className="auth-subtitle">
+          {error || "Accounts are created by invitation. Ask your manager or director to send you an invite link."}
+        </p>
+
+        <div className="auth-footer">
+          <button type="button" className="link-btn" onClick={goLogin}>
+            Back to sign in
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="auth-card">
-      <h1>Create account</h1>
-      <p className="auth-subtitle">Set up a director, manager, or employee profile.</p>
+      <h1>Accept invitation</h1>
+      <p className="auth-subtitle">
+        {invitation
+          ? `You've been invited as ${invitation.role}. Choose a password to finish setting up your account.`
+          : "Checking your invitation..."}
+      </p>
 
       <form onSubmit={onSubmit} className="auth-form">
         <label>
           Email
+          <input type="email" value={invitation?.email || ""} readOnly disabled />
+        </label>
+
+        <label>
+          Full name
           <input
-            type="email"
-            autoComplete="email"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
+            type="text"
+            autoComplete="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
           />
         </label>
 
@@ -59,19 +116,22 @@ export const RegisterPage: React.FC<Props> = ({ goLogin }) => {
             required
           />
         </label>
+        <FieldErrorList errors={fieldErrors} field="password" />
 
         <label>
-          Role
-          <select value={role} onChange={(e) => setRole(e.target.value as BackendAuthRole)}>
-            <option value="director">Director</option>
-            <option value="manager">Manager</option>
-            <option value="employee">Employee</option>
-          </select>
+          Confirm password
+          <input
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+          />
         </label>
 
         {error && <div className="auth-error">{error}</div>}
 
-        <button type="submit" className="primary-btn" disabled={loading}>
+        <button type="submit" className="primary-btn" disabled={loading || !invitation}>
           {loading ? "Creating..." : "Create account"}
         </button>
       </form>
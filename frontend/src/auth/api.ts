@@ -1,14 +1,32 @@
 ﻿import { API_URL } from "../config/api";
-
-export type BackendAuthRole = "admin" | "director" | "manager" | "employee";
-export type FrontendAuthRole = "director" | "manager" | "employee";
+import { setStorageItem } from "../lib/safeStorage";
+import type { PasswordChangeReason, PermissionMap } from "./authContext";
 
 type AuthResponse = {
-  user: { id: number; email: string; role: BackendAuthRole };
+  // passwordChangeRequired set = the access token only works for changePassword
+  user: {
+    id: number;
+    email: string;
+    role: string;
+    permissions: PermissionMap;
+    passwordChangeRequired?: PasswordChangeReason | null;
+  };
   accessToken: string;
   refreshToken: string;
 };
 
+// Returned by /auth/login instead of tokens when the account has 2FA enabled.
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
+};
+
+export function isTwoFactorChallenge(
+  res: AuthResponse | TwoFactorChallenge,
+): res is TwoFactorChallenge {
+  return (res as TwoFactorChallenge).twoFactorRequired === true;
+}
+
 const LOGIN_TIMEOUT_MS = 25000;
 
 async function fetchWithTimeout(
@@ -29,12 +47,6 @@ async function fetchWithTimeout(
   }
 }
 
-export function toFrontendRole(role: BackendAuthRole): FrontendAuthRole {
-  // Keep backwards compatibility with older "admin" accounts.
-  if (role === "admin") return "director";
-  return role;
-}
-
 export async function apiLogin(email: string, password: string) {
   let res: Response;
   try {
@@ -59,27 +71,124 @@ export async function apiLogin(email: string, password: string) {
     throw new Error(error?.error || "Login failed");
   }
 
+  return (await res.json()) as AuthResponse | TwoFactorChallenge;
+}
+
+export async function apiLoginTwoFactor(
+  challengeToken: string,
+  credentials: { code: string } | { recoveryCode: string },
+) {
+  const res = await fetch(`${API_URL}/auth/login/2fa`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ challengeToken, ...credentials }),
+  });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => null);
+    throw new Error(error?.error || "Verification failed");
+  }
+
   return (await res.json()) as AuthResponse;
 }
 
-export async function apiRegister(email: string, password: string, role: BackendAuthRole) {
+export type InvitationDetails = {
+  email: string;
+  name: string | null;
+  role: string;
+  expiresAt: string;
+};
+
+// One problem with one form field, e.g. a password that breaks the password policy.
+export type FieldError = {
+  field: string;
+  code: string;
+  message: string;
+};
+
+// Thrown when the backend rejects input with per-field errors (400 { error, fieldErrors }).
+export class FieldValidationError extends Error {
+  constructor(message: string, public readonly fieldErrors: FieldError[]) {
+    super(message);
+  }
+}
+
+// Who an invitation link is for - shown before the invitee picks a password.
+export async function apiGetInvitation(token: string) {
+  const res = await fetch(`${API_URL}/auth/invitation`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token }),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => null);
+    throw new Error(error?.error || "Invitation not found");
+  }
+  return (await res.json()) as InvitationDetails;
+}
+
+// Registration is invite-only: the role comes from the invitation, not the form.
+export async function apiRegister(token: string, password: string, name?: string) {
   const res = await fetch(`${API_URL}/auth/register`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ email, password, role }),
+    body: JSON.stringify({ token, password, name }),
   });
-  if (!res.ok) throw new Error("Register failed");
+  if (!res.ok) {
+    const error = await res.json().catch(() => null);
+    if (error?.fieldErrors) throw new FieldValidationError(error.error, error.fieldErrors);
+    throw new Error(error?.error || "Register failed");
+  }
   return (await res.json()) as AuthResponse;
 }
 
-export async function apiGoogleLogin(email: string, name: string) {
+// Thrown by apiGoogleLogin when the Google email belongs to an email/password
+// account: retry with that account's password to link the two.
+export class GoogleLinkRequiredError extends Error {}
+
+export async function apiGoogleLogin(idToken: string, password?: string) {
   const res = await fetch(`${API_URL}/auth/google`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ email, name }),
+    body: JSON.stringify({ idToken, password }),
   });
-  if (!res.ok) throw new Error("Google login failed");
-  return (await res.json()) as AuthResponse;
+  if (!res.ok) {
+    const error = await res.json().catch(() => null);
+    if (error?.linkRequired) {
+      throw new GoogleLinkRequiredError(error.error);
+    }
+    throw new Error(error?.error || "Google login failed");
+  }
+  return (await res.json()) as AuthResponse | TwoFactorChallenge;
+}
+
+// Refresh tokens are single-use: the backend revokes the one we send and returns a
+// new one. Both tokens must be persisted, or the next refresh presents a revoked
+// token and the server logs every session from this login out.
+export async function apiRefreshSession(refreshToken: string) {
+  const res = await fetch(`${API_URL}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (!res.ok) throw new Error("Session expired");
+
+  const tokens = (await res.json()) as Pick<AuthResponse, "accessToken" | "refreshToken"> & {
+    passwordChangeRequired?: PasswordChangeReason | null;
+    permissions?: PermissionMap;
+  };
+  setStorageItem("accessToken", tokens.accessToken);
+  setStorageItem("refreshToken", tokens.refreshToken);
+  return tokens;
+}
+
+export async function apiLogout(refreshToken: string | null) {
+  if (!refreshToken) return;
+  await fetch(`${API_URL}/auth/logout`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  }).catch(() => {});
 }
 
 export async function apiForgotPassword(email: string) {
@@ -92,6 +201,21 @@ export async function apiForgotPassword(email: string) {
   return await res.json();
 }
 
+// Second half of the reset flow: token comes from the emailed link (?reset=...).
+export async function apiResetPassword(token: string, newPassword: string) {
+  const res = await fetch(`${API_URL}/auth/reset-password`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, newPassword }),
+  });
+  if (!res.ok) {
+    const error = await res.json().catch(() => null);
+    if (error?.fieldErrors) throw new FieldValidationError(error.error, error.fieldErrors);
+    throw new Error(error?.error || "Password reset failed");
+  }
+  return await res.json();
+}
+
 // Messaging API
 export async function fetchMessages(conversationId?: string) {
   const url = conversationId
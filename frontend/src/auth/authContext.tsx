@@ -1,9 +1,27 @@
 import React, { createContext, useContext } from "react";
 
+// Why the user has to pick a new password before using the app (see ChangePasswordRequiredPage)
+export type PasswordChangeReason = "MUST_CHANGE" | "EXPIRED";
+
+// Set while a director is viewing the app as this user (see ImpersonationBanner)
+export type Impersonation = {
+  id: number;
+  actorEmail: string;
+  expiresAt: string;
+  readOnly: boolean;
+};
+
+// What the user may do: permission key -> scope (see lib/permissions.ts)
+export type PermissionScope = "all" | "team" | "own";
+export type PermissionMap = Record<string, PermissionScope>;
+
 export type AuthUser = {
   id: number;
   email: string;
-  role: "director" | "manager" | "employee";
+  role: string; // Role key: "director", "manager", "employee" or a custom role
+  permissions?: PermissionMap;
+  passwordChangeRequired?: PasswordChangeReason | null;
+  impersonation?: Impersonation | null;
 };
 
 export type AuthContextType = {
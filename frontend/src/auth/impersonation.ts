@@ -0,0 +1,103 @@
+import { graphqlRequest } from "../lib/graphqlClient";
+import { getStorageItem, removeStorageItem, setStorageItem } from "../lib/safeStorage";
+import { fetchMyPermissions } from "../lib/permissions";
+import { apiRefreshSession } from "./api";
+import type { AuthUser } from "./authContext";
+import { graphql } from "../graphql/generated";
+
+/**
+ * "View as user" for directors. Starting swaps the app over to a short-lived token
+ * for the other user; the director's own tokens wait in storage until they stop
+ * (or the session runs out) and are then put back.
+ */
+
+type StoredAuth = {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string | null;
+};
+
+const IMPERSONATOR_STORAGE_KEY = "impersonatorAuth";
+
+const START_IMPERSONATION_MUTATION = graphql(`
+  mutation StartImpersonation($userId: Int!, $reason: String!, $minutes: Int) {
+    startImpersonation(userId: $userId, reason: $reason, minutes: $minutes) {
+      accessToken
+      user {
+        id
+        email
+        role
+      }
+      session {
+        id
+        actorEmail
+        expiresAt
+        readOnly
+      }
+    }
+  }
+`);
+
+const END_IMPERSONATION_MUTATION = graphql(`
+  mutation EndImpersonation {
+    endImpersonation
+  }
+`);
+
+export async function startImpersonation(director: StoredAuth, userId: number, reason: string, minutes?: number) {
+  const data: any = await graphqlRequest(
+    START_IMPERSONATION_MUTATION,
+    { userId, reason, minutes: minutes ?? null },
+    director.accessToken,
+  );
+  const { accessToken, user, session } = data.startImpersonation;
+
+  setStorageItem(IMPERSONATOR_STORAGE_KEY, JSON.stringify(director));
+  const impersonated: AuthUser = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: await fetchMyPermissions(accessToken),
+    impersonation: {
+      id: session.id,
+      actorEmail: session.actorEmail,
+      expiresAt: session.expiresAt,
+      readOnly: session.readOnly,
+    },
+  };
+  return { user: impersonated, accessToken: accessToken as string, refreshToken: null };
+}
+
+export function hasStoredImpersonator() {
+  return Boolean(getStorageItem(IMPERSONATOR_STORAGE_KEY));
+}
+
+/**
+ * Gives the director's own login back. Their stored access token has most likely
+ * expired by now, so it is refreshed first. Returns null when that login is gone too.
+ */
+export async function restoreImpersonator(): Promise<StoredAuth | null> {
+  const stored = getStorageItem(IMPERSONATOR_STORAGE_KEY);
+  removeStorageItem(IMPERSONATOR_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const director = JSON.parse(stored) as StoredAuth;
+    if (!director.refreshToken) return director;
+    const tokens = await apiRefreshSession(director.refreshToken);
+    const user = { ...director.user, permissions: tokens.permissions ?? director.user.permissions };
+    return { user, accessToken: tokens.accessToken, refreshToken: tokens.refreshToken };
+  } catch {
+    return null;
+  }
+}
+
+// Ends the session server-side (best effort - it also expires on its own)
+export async function stopImpersonation(accessToken: string | null) {
+  try {
+    await graphqlRequest(END_IMPERSONATION_MUTATION, {}, accessToken);
+  } catch (error) {
+    console.error("Failed to end view-as session:", error);
+  }
+  return restoreImpersonator();
+}
@@ -0,0 +1,269 @@
+import React, { useCallback, useContext, useEffect, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { graphql } from "../graphql/generated";
+
+export type ApprovalDelegation = {
+  id: number;
+  managerId: number;
+  managerEmail: string | null;
+  delegateId: number;
+  delegateEmail: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  whileOnLeave: boolean;
+  isActive: boolean;
+  permissions: string[];
+  reason: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+type UserOption = {
+  id: number;
+  email: string;
+  role: string;
+};
+
+const DELEGATION_FIELDS = graphql(`
+  fragment DelegationFields on ApprovalDelegation {
+    id
+    managerId
+    managerEmail
+    delegateId
+    delegateEmail
+    startDate
+    endDate
+    whileOnLeave
+    isActive
+    permissions
+    reason
+    revokedAt
+    createdAt
+  }
+`);
+
+export const DELEGATIONS_TO_ME_QUERY = graphql(`
+  query DelegationsToMe {
+    delegationsToMe {
+      ...DelegationFields
+    }
+  }
+`);
+
+const MY_DELEGATIONS_QUERY = graphql(`
+  query MyDelegations {
+    myDelegations {
+      ...DelegationFields
+    }
+  }
+`);
+
+const DELEGATE_OPTIONS_QUERY = graphql(`
+  query DelegateOptions {
+    allUsers(statusFilter: "active") {
+      id
+      email
+      role
+    }
+  }
+`);
+
+const CREATE_DELEGATION_MUTATION = graphql(`
+  mutation CreateDelegation($input: ApprovalDelegationInput!) {
+    createDelegation(input: $input) {
+      id
+    }
+  }
+`);
+
+const REVOKE_DELEGATION_MUTATION = graphql(`
+  mutation RevokeDelegation($id: Int!) {
+    revokeDelegation(id: $id) {
+      id
+    }
+  }
+`);
+
+export const describeDelegationWindow = (delegation: ApprovalDelegation) => {
+  if (delegation.whileOnLeave || !delegation.startDate || !delegation.endDate) {
+    return "While on approved leave";
+  }
+  return `${delegation.startDate.slice(0, 10)} to ${delegation.endDate.slice(0, 10)}`;
+};
+
+const inputStyle: React.CSSProperties = { width: "100%", padding: "0.6rem", border: "1px solid #d1d5db", borderRadius: "8px" };
+
+// Lets a manager hand their approvals to someone while they are away
+export const DelegationPanel: React.FC = () => {
+  const { accessToken, user } = useContext(AuthContext);
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [delegateId, setDelegateId] = useState("");
+  const [whileOnLeave, setWhileOnLeave] = useState(true);
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const fetchDelegations = useCallback(async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    try {
+      const [delegationData, userData] = await Promise.all([
+        graphqlRequest(MY_DELEGATIONS_QUERY, {}, accessToken, { bypassCache: true }),
+        graphqlRequest(DELEGATE_OPTIONS_QUERY, {}, accessToken),
+      ]);
+      setDelegations(delegationData.myDelegations || []);
+      setUsers((userData.allUsers || []).filter((option) => option.id !== user?.id));
+    } catch (error) {
+      console.error("Failed to load delegations:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, user?.id]);
+
+  useEffect(() => {
+    void fetchDelegations();
+  }, [fetchDelegations]);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!delegateId) return;
+
+    try {
+      await graphqlRequest(
+        CREATE_DELEGATION_MUTATION,
+        {
+          input: {
+            delegateId: Number(delegateId),
+            startDate: whileOnLeave ? null : startDate,
+            endDate: whileOnLeave ? null : endDate,
+            reason: reason || null,
+          },
+        },
+        accessToken,
+      );
+      setDelegateId("");
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      await fetchDelegations();
+    } catch (error: any) {
+      alert(error?.message || "Failed to create delegation.");
+    }
+  };
+
+  const handleRevoke = async (delegation: ApprovalDelegation) => {
+    if (!window.confirm(`Stop ${delegation.delegateEmail || "this user"} approving on your behalf?`)) return;
+    try {
+      await graphqlRequest(REVOKE_DELEGATION_MUTATION, { id: delegation.id }, accessToken);
+      await fetchDelegations();
+    } catch (error: any) {
+      alert(error?.message || "Failed to revoke delegation.");
+    }
+  };
+
+  // Revoked and finished delegations drop off the list
+  const today = new Date().toISOString().slice(0, 10);
+  const current = delegations.filter(
+    (delegation) => !delegation.revokedAt && (!delegation.endDate || delegation.endDate.slice(0, 10) >= today),
+  );
+
+  return (
+    <div style={{ padding: "1.2rem", background: "white", borderRadius: "10px", border: "1px solid #e2e8f0", marginBottom: "1.2rem" }}>
+      <h3 style={{ marginTop: 0 }}>Approval Delegation</h3>
+      <p style={{ margin: "0 0 0.9rem", fontSize: "0.85rem", color: "#6b7280" }}>
+        While you are away, your delegate approves leave and reviews for your team and gets its notifications.
+        Everything they do is logged as done on your behalf.
+      </p>
+
+      <form onSubmit={handleCreate} style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: "0.7rem", alignItems: "end" }}>
+        <div>
+          <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>Delegate</label>
+          <select value={delegateId} onChange={(event) => setDelegateId(event.target.value)} required style={inputStyle}>
+            <option value="">Choose someone...</option>
+            {users.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.email} ({option.role})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>When</label>
+          <select value={whileOnLeave ? "leave" : "dates"} onChange={(event) => setWhileOnLeave(event.target.value === "leave")} style={inputStyle}>
+            <option value="leave">While I'm on approved leave</option>
+            <option value="dates">Between dates</option>
+          </select>
+        </div>
+        {!whileOnLeave && (
+          <>
+            <div>
+              <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>From</label>
+              <input type="date" value={startDate} onChange={(event) => setStartDate(event.target.value)} required style={inputStyle} />
+            </div>
+            <div>
+              <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>To</label>
+              <input type="date" value={endDate} onChange={(event) => setEndDate(event.target.value)} required style={inputStyle} />
+            </div>
+          </>
+        )}
+        <div>
+          <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>Reason (optional)</label>
+          <input value={reason} onChange={(event) => setReason(event.target.value)} style={inputStyle} placeholder="e.g. Conference trip" />
+        </div>
+        <button
+          type="submit"
+          style={{ padding: "0.65rem 1rem", background: "#1d4ed8", color: "white", border: "none", borderRadius: "8px", cursor: "pointer", fontWeight: 700 }}
+        >
+          Delegate
+        </button>
+      </form>
+
+      {loading ? (
+        <p style={{ color: "#6b7280", margin: "0.9rem 0 0" }}>Loading delegations...</p>
+      ) : current.length === 0 ? (
+        <p style={{ color: "#6b7280", margin: "0.9rem 0 0" }}>You have not delegated your approvals.</p>
+      ) : (
+        <div style={{ marginTop: "0.9rem" }}>
+          {current.map((delegation) => (
+            <div
+              key={delegation.id}
+              style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: "1rem", padding: "0.6rem 0.9rem", background: "#f9fafb", borderRadius: "6px", marginBottom: "0.5rem" }}
+            >
+              <div>
+                <div style={{ fontWeight: 600, color: "#374151" }}>
+                  {delegation.delegateEmail}
+                  <span
+                    style={{
+                      marginLeft: "0.5rem",
+                      fontSize: "0.75rem",
+                      padding: "0.125rem 0.5rem",
+                      borderRadius: "4px",
+                      background: delegation.isActive ? "#d1fae5" : "#e5e7eb",
+                      color: delegation.isActive ? "#065f46" : "#374151",
+                    }}
+                  >
+                    {delegation.isActive ? "Active now" : "Not active"}
+                  </span>
+                </div>
+                <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>
+                  {describeDelegationWindow(delegation)}
+                  {delegation.reason ? ` · ${delegation.reason}` : ""}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(delegation)}
+                style={{ padding: "0.4rem 0.8rem", background: "#ef4444", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", fontWeight: 600 }}
+              >
+                Revoke
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
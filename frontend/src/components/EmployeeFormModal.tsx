@@ -1,21 +1,53 @@
 import React, { useState, useEffect } from "react";
 import type { Employee } from "../pages/EmployeesPage";
+import type { FieldError } from "../auth/api";
+import { EMPLOYEE_STATUS, optionsOf, type EmployeeStatus } from "../lib/statuses";
+
+export type EmployeeFormValues = {
+  name: string;
+  age: number;
+  className: string;
+  subjects: string[];
+  attendance: number;
+  role: string;
+  status: EmployeeStatus;
+  location: string;
+};
 
 type Props = {
   employee?: Employee | null;
-  onSave: (data: Partial<Employee>) => void;
+  onSave: (data: EmployeeFormValues) => void;
   onCancel: () => void;
+  // From a VALIDATION_FAILED response to the last save
+  fieldErrors?: FieldError[];
 };
 
-export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel }) => {
+const FORM_FIELDS = ["name", "age", "className", "subjects", "attendance", "role", "status", "location"];
+
+const FieldMessages: React.FC<{ errors: FieldError[]; field: string }> = ({ errors, field }) => (
+  <>
+    {errors
+      .filter((error) => error.field === field)
+      .map((error) => (
+        <div key={error.code} style={{ color: "#dc2626", fontSize: "0.85rem", marginTop: "0.25rem" }}>
+          {error.message}
+        </div>
+      ))}
+  </>
+);
+
+export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel, fieldErrors = [] }) => {
+  // Problems with inputs the form doesn't show (e.g. the manager) go above the form
+  const otherErrors = fieldErrors.filter((error) => !FORM_FIELDS.includes(error.field));
+
   const [formData, setFormData] = useState({
     name: employee?.name || "",
     age: employee?.age || 18,
     className: employee?.className || "",
     subjects: employee?.subjects?.join(", ") || "",
     attendance: employee?.attendance || 0,
-    role: employee?.role || ("employee" as "director" | "manager" | "employee"),
-    status: employee?.status || "active" as "active" | "terminated" | "flagged",
+    role: employee?.role || "employee",
+    status: employee?.status || ("ACTIVE" as EmployeeStatus),
     location: employee?.location || "",
   });
 
@@ -36,6 +68,13 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
         </div>
         <div className="employee-modal-body">
           <form onSubmit={handleSubmit}>
+            {otherErrors.length > 0 && (
+              <div style={{ marginBottom: "1rem", padding: "0.75rem", background: "#fef2f2", color: "#b91c1c", borderRadius: "6px" }}>
+                {otherErrors.map((error) => (
+                  <div key={`${error.field}-${error.code}`}>{error.message}</div>
+                ))}
+              </div>
+            )}
             <div style={{ marginBottom: "1rem" }}>
               <label style={{ display: "block", marginBottom: "0.5rem" }}>
                 Name:
@@ -47,6 +86,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 />
               </label>
+              <FieldMessages errors={fieldErrors} field="name" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -62,6 +102,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 />
               </label>
+              <FieldMessages errors={fieldErrors} field="age" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -75,6 +116,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 />
               </label>
+              <FieldMessages errors={fieldErrors} field="className" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -89,6 +131,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 />
               </label>
+              <FieldMessages errors={fieldErrors} field="subjects" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -104,6 +147,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 />
               </label>
+              <FieldMessages errors={fieldErrors} field="attendance" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -111,7 +155,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                 Role:
                 <select
                   value={formData.role}
-                  onChange={(e) => setFormData({ ...formData, role: e.target.value as "director" | "manager" | "employee" })}
+                  onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 >
                   <option value="employee">Employee</option>
@@ -119,6 +163,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   <option value="director">Director</option>
                 </select>
               </label>
+              <FieldMessages errors={fieldErrors} field="role" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -126,14 +171,17 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                 Status:
                 <select
                   value={formData.status}
-                  onChange={(e) => setFormData({ ...formData, status: e.target.value as "active" | "terminated" | "flagged" })}
+                  onChange={(e) => setFormData({ ...formData, status: e.target.value as EmployeeStatus })}
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 >
-                  <option value="active">Active</option>
-                  <option value="terminated">Terminated</option>
-                  <option value="flagged">Flagged</option>
+                  {optionsOf(EMPLOYEE_STATUS).map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
                 </select>
               </label>
+              <FieldMessages errors={fieldErrors} field="status" />
             </div>
             
             <div style={{ marginBottom: "1rem" }}>
@@ -147,6 +195,7 @@ export const EmployeeFormModal: React.FC<Props> = ({ employee, onSave, onCancel
                   style={{ display: "block", width: "100%", padding: "0.5rem", marginTop: "0.25rem" }}
                 />
               </label>
+              <FieldMessages errors={fieldErrors} field="location" />
             </div>
             
             <div style={{ display: "flex", gap: "1rem", marginTop: "1.5rem" }}>
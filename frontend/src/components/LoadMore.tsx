@@ -0,0 +1,47 @@
+import React, { useEffect, useRef } from "react";
+
+type LoadMoreProps = {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+  // e.g. "Showing 20 of 134"
+  summary?: string;
+};
+
+// Footer for cursor-paginated lists: loads the next page when it scrolls into view, or on click
+export const LoadMore: React.FC<LoadMoreProps> = ({ hasMore, loading, onLoadMore, summary }) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  return (
+    <div
+      ref={sentinelRef}
+      style={{ display: "flex", justifyContent: "center", alignItems: "center", gap: "1rem", padding: "1rem 0", color: "#6b7280", fontSize: "0.85rem" }}
+    >
+      {summary && <span>{summary}</span>}
+      {hasMore && (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          disabled={loading}
+          style={{ padding: "0.45rem 1rem", background: "#eef2ff", color: "#3730a3", border: "1px solid #c7d2fe", borderRadius: "6px", cursor: loading ? "wait" : "pointer", fontWeight: 600 }}
+        >
+          {loading ? "Loading..." : "Load more"}
+        </button>
+      )}
+    </div>
+  );
+};
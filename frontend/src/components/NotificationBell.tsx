@@ -1,10 +1,13 @@
 import React, { useEffect, useState } from "react";
 import { useAuth } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { subscribe } from "../lib/subscriptions";
 import { resolveAppPageFromLink } from "../lib/navigationLinks";
 import type { AppPage } from "../types/navigation";
+import { NOTIFICATION_TYPE, styleOf, type NotificationType } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
 
-const NOTIFICATIONS_QUERY = `
+const NOTIFICATIONS_QUERY = graphql(`
   query GetNotifications {
     unreadNotifications {
       id
@@ -16,22 +19,35 @@ const NOTIFICATIONS_QUERY = `
     }
     notificationCount
   }
-`;
+`);
 
-const MARK_READ_MUTATION = `
-  mutation MarkNotificationAsRead($id: Int!) {
+const NOTIFICATION_ADDED_SUBSCRIPTION = graphql(`
+  subscription NotificationAdded {
+    notificationAdded {
+      id
+      title
+      message
+      type
+      linkTo
+      createdAt
+    }
+  }
+`);
+
+const MARK_READ_MUTATION = graphql(`
+  mutation NotificationBellMarkAsRead($id: Int!) {
     markNotificationAsRead(id: $id) {
       id
     }
   }
-`;
+`);
 
 type Notification = {
   id: number;
   title: string;
   message: string;
-  type: string;
-  linkTo?: string;
+  type: NotificationType;
+  linkTo: string | null;
   createdAt: string;
 };
 
@@ -39,8 +55,6 @@ type Props = {
   onNavigate: (page: AppPage) => void;
 };
 
-const toNotificationType = (type: string) => type.toUpperCase();
-
 const BellIcon: React.FC = () => (
   <svg viewBox="0 0 24 24" width="20" height="20" aria-hidden="true">
     <path
@@ -64,7 +78,7 @@ export const NotificationBell: React.FC<Props> = ({ onNavigate }) => {
 
     const fetchNotifications = async () => {
       try {
-        const data = await graphqlRequest<{ unreadNotifications: Notification[]; notificationCount: number }>(
+        const data = await graphqlRequest(
           NOTIFICATIONS_QUERY,
           {},
           accessToken,
@@ -79,9 +93,15 @@ export const NotificationBell: React.FC<Props> = ({ onNavigate }) => {
     };
 
     void fetchNotifications();
-    const interval = window.setInterval(fetchNotifications, 30000);
-
-    return () => window.clearInterval(interval);
+    return subscribe(NOTIFICATION_ADDED_SUBSCRIPTION, {}, accessToken, {
+      next: ({ notificationAdded }) => {
+        setNotifications((previous) =>
+          previous.some((item) => item.id === notificationAdded.id) ? previous : [notificationAdded, ...previous],
+        );
+        setUnreadCount((previous) => previous + 1);
+      },
+      onReconnect: () => void fetchNotifications(),
+    });
   }, [accessToken]);
 
   const handleNotificationClick = async (notification: Notification) => {
@@ -106,35 +126,9 @@ export const NotificationBell: React.FC<Props> = ({ onNavigate }) => {
     }
   };
 
-  const getNotificationLabel = (type: string) => {
-    switch (toNotificationType(type)) {
-      case "CRITICAL":
-        return "Critical";
-      case "WARNING":
-        return "Warning";
-      case "APPROVAL":
-        return "Approval";
-      case "MESSAGE":
-        return "Message";
-      default:
-        return "Info";
-    }
-  };
+  const getNotificationLabel = (type: string) => styleOf(NOTIFICATION_TYPE, type).label;
 
-  const getNotificationColor = (type: string) => {
-    switch (toNotificationType(type)) {
-      case "CRITICAL":
-        return "#dc2626";
-      case "WARNING":
-        return "#f59e0b";
-      case "APPROVAL":
-        return "#059669";
-      case "MESSAGE":
-        return "#2563eb";
-      default:
-        return "#6b7280";
-    }
-  };
+  const getNotificationColor = (type: string) => styleOf(NOTIFICATION_TYPE, type).color;
 
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
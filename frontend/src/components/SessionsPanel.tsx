@@ -0,0 +1,236 @@
+import React, { useCallback, useContext, useEffect, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { graphql } from "../graphql/generated";
+
+type Session = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+const MY_SESSIONS_QUERY = graphql(`
+  query MySessions {
+    mySessions {
+      id
+      userAgent
+      ipAddress
+      createdAt
+      lastUsedAt
+      current
+    }
+  }
+`);
+
+const USER_SESSIONS_QUERY = graphql(`
+  query UserSessions($userId: Int!) {
+    userSessions(userId: $userId) {
+      id
+      userAgent
+      ipAddress
+      createdAt
+      lastUsedAt
+      current
+    }
+  }
+`);
+
+const REVOKE_SESSION_MUTATION = graphql(`
+  mutation RevokeSession($id: String!) {
+    revokeSession(id: $id)
+  }
+`);
+
+const REVOKE_ALL_OTHER_SESSIONS_MUTATION = graphql(`
+  mutation RevokeAllOtherSessions {
+    revokeAllOtherSessions
+  }
+`);
+
+const REVOKE_USER_SESSIONS_MUTATION = graphql(`
+  mutation RevokeUserSessions($userId: Int!) {
+    revokeUserSessions(userId: $userId)
+  }
+`);
+
+// Good-enough "Chrome on Windows" label from a user agent string.
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /OPR\//.test(userAgent)
+      ? "Opera"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Firefox\//.test(userAgent)
+          ? "Firefox"
+          : /Safari\//.test(userAgent)
+            ? "Safari"
+            : "Browser";
+  const os = /Windows/.test(userAgent)
+    ? "Windows"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /iPhone|iPad/.test(userAgent)
+        ? "iOS"
+        : /Mac OS X/.test(userAgent)
+          ? "macOS"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : "Unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "N/A" : date.toLocaleString();
+};
+
+type Props = {
+  // When set, a director is looking at another user's sessions.
+  userId?: number;
+};
+
+export const SessionsPanel: React.FC<Props> = ({ userId }) => {
+  const { accessToken } = useContext(AuthContext);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwnSessions = typeof userId !== "number";
+
+  const fetchSessions = useCallback(async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data: any = isOwnSessions
+        ? await graphqlRequest(MY_SESSIONS_QUERY, {}, accessToken, { bypassCache: true })
+        : await graphqlRequest(USER_SESSIONS_QUERY, { userId }, accessToken, { bypassCache: true });
+      setSessions(isOwnSessions ? data.mySessions : data.userSessions);
+    } catch (err: any) {
+      setError(err.message || "Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, isOwnSessions, userId]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await graphqlRequest(REVOKE_SESSION_MUTATION, { id }, accessToken);
+      fetchSessions();
+    } catch (err: any) {
+      alert("Failed to revoke session: " + err.message);
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    const prompt = isOwnSessions
+      ? "Log out of all other devices?"
+      : "Log this user out of every device?";
+    if (!window.confirm(prompt)) return;
+
+    try {
+      if (isOwnSessions) {
+        await graphqlRequest(REVOKE_ALL_OTHER_SESSIONS_MUTATION, {}, accessToken);
+      } else {
+        await graphqlRequest(REVOKE_USER_SESSIONS_MUTATION, { userId }, accessToken);
+      }
+      fetchSessions();
+    } catch (err: any) {
+      alert("Failed to revoke sessions: " + err.message);
+    }
+  };
+
+  if (loading) {
+    return <p style={{ color: "#6b7280", margin: 0 }}>Loading sessions...</p>;
+  }
+
+  if (error) {
+    return <p style={{ color: "#991b1b", margin: 0 }}>{error}</p>;
+  }
+
+  const revocable = sessions.filter((session) => !session.current);
+
+  return (
+    <div>
+      {sessions.length === 0 && <p style={{ color: "#6b7280", margin: 0 }}>No active sessions.</p>}
+
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "1rem",
+            padding: "0.75rem 1rem",
+            background: "#f9fafb",
+            borderRadius: "6px",
+            marginBottom: "0.5rem",
+          }}
+        >
+          <div>
+            <div style={{ fontWeight: 600, color: "#374151" }}>
+              {describeUserAgent(session.userAgent)}
+              {session.current && (
+                <span style={{ marginLeft: "0.5rem", fontSize: "0.75rem", color: "#065f46", background: "#d1fae5", padding: "0.125rem 0.5rem", borderRadius: "4px" }}>
+                  This device
+                </span>
+              )}
+            </div>
+            <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>
+              {session.ipAddress || "Unknown IP"} · Signed in {formatDateTime(session.createdAt)} · Last active{" "}
+              {formatDateTime(session.lastUsedAt)}
+            </div>
+          </div>
+          {!session.current && (
+            <button
+              onClick={() => handleRevoke(session.id)}
+              style={{
+                padding: "0.4rem 0.8rem",
+                background: "#ef4444",
+                color: "white",
+                border: "none",
+                borderRadius: "6px",
+                cursor: "pointer",
+                fontSize: "0.875rem",
+                fontWeight: "600",
+                whiteSpace: "nowrap",
+              }}
+            >
+              Revoke
+            </button>
+          )}
+        </div>
+      ))}
+
+      {revocable.length > 0 && (
+        <button
+          onClick={handleRevokeAll}
+          style={{
+            marginTop: "0.5rem",
+            padding: "0.5rem 1rem",
+            background: "white",
+            color: "#b91c1c",
+            border: "1px solid #fca5a5",
+            borderRadius: "6px",
+            cursor: "pointer",
+            fontWeight: "600",
+          }}
+        >
+          {isOwnSessions ? "Log out all other devices" : "Revoke all sessions"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,12 @@
 import React, { useEffect, useState } from "react";
 import { useAuth } from "../../auth/authContext";
 import { graphqlRequest } from "../../lib/graphqlClient";
+import { subscribe } from "../../lib/subscriptions";
+import { hasPermission, portalRole } from "../../lib/permissions";
 import { NotificationBell } from "../NotificationBell";
+import { ImpersonationBanner } from "./ImpersonationBanner";
 import type { AppPage } from "../../types/navigation";
+import { graphql } from "../../graphql/generated";
 
 type Props = {
   currentPage: AppPage;
@@ -17,22 +21,32 @@ type DrawerItem = {
   badge?: number;
 };
 
-const UNREAD_MESSAGE_COUNT_QUERY = `
+const UNREAD_MESSAGE_COUNT_QUERY = graphql(`
   query GetUnreadMessageCount {
     messageStats {
       unread
     }
   }
-`;
+`);
+
+// Only who sent it - the count itself is refetched
+const MESSAGE_RECEIVED_SUBSCRIPTION = graphql(`
+  subscription MessageReceivedForCount {
+    messageReceived {
+      id
+      senderId
+    }
+  }
+`);
 
-const MY_PROFILE_MINI_QUERY = `
+const MY_PROFILE_MINI_QUERY = graphql(`
   query MyProfileMini {
     myProfile {
       name
       avatar
     }
   }
-`;
+`);
 
 export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogout }) => {
   const { user, accessToken } = useAuth();
@@ -41,9 +55,8 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
   const [profileAvatar, setProfileAvatar] = useState<string | null>(null);
   const [profileName, setProfileName] = useState<string | null>(null);
 
-  const isDirector = user?.role === "director";
-  const isManager = user?.role === "manager";
-  const isManagerOrAbove = isDirector || isManager;
+  // Menu entries follow the user's permissions, so custom roles get the right pages
+  const can = (permission: string, scope?: "all" | "team") => hasPermission(user, permission, scope);
 
   useEffect(() => {
     const fetchUnreadCount = async () => {
@@ -52,7 +65,7 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
       }
 
       try {
-        const data = await graphqlRequest<{ messageStats: { unread: number } }>(
+        const data = await graphqlRequest(
           UNREAD_MESSAGE_COUNT_QUERY,
           {},
           accessToken,
@@ -65,10 +78,18 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
     };
 
     void fetchUnreadCount();
-    const interval = window.setInterval(fetchUnreadCount, 30000);
-
-    return () => window.clearInterval(interval);
-  }, [accessToken]);
+    return subscribe(
+      MESSAGE_RECEIVED_SUBSCRIPTION,
+      {},
+      accessToken,
+      {
+        next: ({ messageReceived }) => {
+          if (messageReceived.senderId !== user?.id) void fetchUnreadCount();
+        },
+        onReconnect: () => void fetchUnreadCount(),
+      },
+    );
+  }, [accessToken, user?.id]);
 
   useEffect(() => {
     const fetchProfileMini = async () => {
@@ -77,7 +98,7 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
       }
 
       try {
-        const data = await graphqlRequest<{ myProfile: { name: string; avatar: string | null } }>(
+        const data = await graphqlRequest(
           MY_PROFILE_MINI_QUERY,
           {},
           accessToken,
@@ -102,8 +123,9 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
   }, [accessToken]);
 
   const getPortalTitle = () => {
-    if (isDirector) return "Director Portal";
-    if (isManager) return "Manager Portal";
+    const role = portalRole(user);
+    if (role === "director") return "Director Portal";
+    if (role === "manager") return "Manager Portal";
     return "Employee Portal";
   };
 
@@ -114,12 +136,13 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
 
   const drawerMainItems: DrawerItem[] = [
     { page: "dashboard", label: "Dashboard", visible: true },
-    { page: "employees", label: isManagerOrAbove ? "Manage Employees" : "Team", visible: true },
+    { page: "employees", label: can("employee.read", "team") ? "Manage Employees" : "Team", visible: true },
     { page: "messages", label: "Messages", visible: true, badge: unreadMessageCount },
     { page: "notifications", label: "Notifications", visible: true },
-    { page: "leaveRequests", label: isManagerOrAbove ? "Leave Requests" : "My Leave", visible: true },
-    { page: "reports", label: "Reports", visible: isManagerOrAbove },
-    { page: "sendNote", label: "Send Note", visible: isManagerOrAbove },
+    { page: "org-chart", label: "Org Chart", visible: can("employee.read", "team") },
+    { page: "leaveRequests", label: can("leave.read") ? "Leave Requests" : "My Leave", visible: true },
+    { page: "reports", label: "Reports", visible: can("employee.stats") },
+    { page: "sendNote", label: "Send Note", visible: can("note.send") },
   ];
 
   const drawerAccountItems: DrawerItem[] = [
@@ -130,14 +153,17 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
   ];
 
   const drawerAdminItems: DrawerItem[] = [
-    { page: "review-requests", label: "Review Requests", visible: isDirector },
-    { page: "admins", label: "User Management", visible: isDirector },
-    { page: "accessLogs", label: "Access Logs", visible: isDirector },
-    { page: "employeeLogins", label: "Employee Logins", visible: isDirector },
-    { page: "analyticsDashboard", label: "Analytics", visible: isDirector },
-    { page: "bulkActions", label: "Bulk Actions", visible: isDirector },
-    { page: "auditLogs", label: "Audit Logs", visible: isDirector },
-    { page: "slackIntegration", label: "Slack Integration", visible: isDirector },
+    { page: "review-requests", label: "Review Requests", visible: can("review.decide") },
+    { page: "admins", label: "User Management", visible: can("user.manageAccess") },
+    { page: "roles", label: "Roles & Permissions", visible: can("role.manage") },
+    { page: "invitations", label: "Invitations", visible: can("user.invite") },
+    { page: "api-keys", label: "API Keys", visible: can("apiKey.manage") },
+    { page: "accessLogs", label: "Access Logs", visible: can("audit.read") },
+    { page: "employeeLogins", label: "Employee Logins", visible: can("employee.generateLogins") },
+    { page: "analyticsDashboard", label: "Analytics", visible: can("dashboard.view") },
+    { page: "bulkActions", label: "Bulk Actions", visible: can("employee.update", "all") },
+    { page: "auditLogs", label: "Audit Logs", visible: can("audit.read") },
+    { page: "slackIntegration", label: "Slack Integration", visible: can("integration.slack") },
   ];
 
   const initials = (profileName || user?.email || "U")
@@ -166,6 +192,7 @@ export const HorizontalNav: React.FC<Props> = ({ currentPage, onNavigate, onLogo
           WebkitBackdropFilter: "blur(10px)",
         }}
       >
+        <ImpersonationBanner />
         <div
           className="horizontal-nav-inner"
           style={{
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from "react";
+import { useAuth } from "../../auth/authContext";
+import { restoreImpersonator, stopImpersonation } from "../../auth/impersonation";
+
+export const IMPERSONATION_BANNER_HEIGHT = 40;
+
+function minutesLeft(expiresAt: string) {
+  return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 60000));
+}
+
+/**
+ * Shown on every page while a director is viewing the app as another user.
+ * Switches back to the director when they stop or the session runs out.
+ */
+export const ImpersonationBanner: React.FC = () => {
+  const { user, accessToken, setAuth, logout } = useAuth();
+  const impersonation = user?.impersonation;
+  const [remaining, setRemaining] = useState(() => (impersonation ? minutesLeft(impersonation.expiresAt) : 0));
+  const [stopping, setStopping] = useState(false);
+
+  const switchBack = async (expired: boolean) => {
+    setStopping(true);
+    const director = expired ? await restoreImpersonator() : await stopImpersonation(accessToken);
+    if (director) {
+      setAuth(director);
+    } else {
+      logout();
+    }
+  };
+
+  useEffect(() => {
+    if (!impersonation) return;
+    const tick = () => {
+      const left = minutesLeft(impersonation.expiresAt);
+      setRemaining(left);
+      if (new Date(impersonation.expiresAt).getTime() <= Date.now()) {
+        void switchBack(true);
+      }
+    };
+    tick();
+    const interval = window.setInterval(tick, 15000);
+    return () => window.clearInterval(interval);
+  }, [impersonation?.id]);
+
+  if (!user || !impersonation) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      style={{
+        height: `${IMPERSONATION_BANNER_HEIGHT}px`,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: "1rem",
+        padding: "0 1rem",
+        background: "#f59e0b",
+        color: "#1f2937",
+        fontSize: "0.875rem",
+        fontWeight: 600,
+      }}
+    >
+      <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+        👁️ Viewing as {user.email} ({user.role}){impersonation.readOnly ? " · read-only" : ""} · {impersonation.actorEmail} ·{" "}
+        {remaining} min left
+      </span>
+      <button
+        type="button"
+        onClick={() => switchBack(false)}
+        disabled={stopping}
+        style={{
+          padding: "0.3rem 0.8rem",
+          background: "#1f2937",
+          color: "white",
+          border: "none",
+          borderRadius: "6px",
+          cursor: "pointer",
+          fontWeight: 600,
+          whiteSpace: "nowrap",
+        }}
+      >
+        {stopping ? "Switching back..." : "Stop viewing"}
+      </button>
+    </div>
+  );
+};
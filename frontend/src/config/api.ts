@@ -5,3 +5,9 @@ export const API_URL =
   import.meta.env.VITE_API_URL || (import.meta.env.DEV ? LOCAL_API_URL : PROD_API_URL);
 
 export const GRAPHQL_URL = `${API_URL}/graphql`;
+
+// OAuth client id for "Sign in with Google". Unset = the Google button is hidden.
+export const GOOGLE_CLIENT_ID: string = import.meta.env.VITE_GOOGLE_CLIENT_ID || "";
+
+// Sign every open tab out after this many minutes without activity. Unset or 0 = never.
+export const IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES || 0);
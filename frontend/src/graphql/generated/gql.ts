@@ -0,0 +1,602 @@
+/* eslint-disable */
+import * as types from './graphql';
+
+
+
+/**
+ * Map of all GraphQL operations in the project.
+ *
+ * This map has several performance disadvantages:
+ * 1. It is not tree-shakeable, so it will include all operations in the project.
+ * 2. It is not minifiable, so the string of a GraphQL query will be multiple times inside the bundle.
+ * 3. It does not support dead code elimination, so it will add unused operations.
+ *
+ * Therefore it is highly recommended to use the babel or swc plugin for production.
+ * Learn more about it here: https://the-guild.dev/graphql/codegen/plugins/presets/preset-client#reducing-bundle-size
+ */
+type Documents = {
+    "\n  mutation ChangeRequiredPassword($currentPassword: String!, $newPassword: String!) {\n    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {\n      success\n      message\n      accessToken\n      fieldErrors {\n        field\n        code\n        message\n      }\n    }\n  }\n": typeof types.ChangeRequiredPasswordDocument,
+    "\n  mutation StartImpersonation($userId: Int!, $reason: String!, $minutes: Int) {\n    startImpersonation(userId: $userId, reason: $reason, minutes: $minutes) {\n      accessToken\n      user {\n        id\n        email\n        role\n      }\n      session {\n        id\n        actorEmail\n        expiresAt\n        readOnly\n      }\n    }\n  }\n": typeof types.StartImpersonationDocument,
+    "\n  mutation EndImpersonation {\n    endImpersonation\n  }\n": typeof types.EndImpersonationDocument,
+    "\n  fragment DelegationFields on ApprovalDelegation {\n    id\n    managerId\n    managerEmail\n    delegateId\n    delegateEmail\n    startDate\n    endDate\n    whileOnLeave\n    isActive\n    permissions\n    reason\n    revokedAt\n    createdAt\n  }\n": typeof types.DelegationFieldsFragmentDoc,
+    "\n  query DelegationsToMe {\n    delegationsToMe {\n      ...DelegationFields\n    }\n  }\n": typeof types.DelegationsToMeDocument,
+    "\n  query MyDelegations {\n    myDelegations {\n      ...DelegationFields\n    }\n  }\n": typeof types.MyDelegationsDocument,
+    "\n  query DelegateOptions {\n    allUsers(statusFilter: \"active\") {\n      id\n      email\n      role\n    }\n  }\n": typeof types.DelegateOptionsDocument,
+    "\n  mutation CreateDelegation($input: ApprovalDelegationInput!) {\n    createDelegation(input: $input) {\n      id\n    }\n  }\n": typeof types.CreateDelegationDocument,
+    "\n  mutation RevokeDelegation($id: Int!) {\n    revokeDelegation(id: $id) {\n      id\n    }\n  }\n": typeof types.RevokeDelegationDocument,
+    "\n  query GetNotifications {\n    unreadNotifications {\n      id\n      title\n      message\n      type\n      linkTo\n      createdAt\n    }\n    notificationCount\n  }\n": typeof types.GetNotificationsDocument,
+    "\n  subscription NotificationAdded {\n    notificationAdded {\n      id\n      title\n      message\n      type\n      linkTo\n      createdAt\n    }\n  }\n": typeof types.NotificationAddedDocument,
+    "\n  mutation NotificationBellMarkAsRead($id: Int!) {\n    markNotificationAsRead(id: $id) {\n      id\n    }\n  }\n": typeof types.NotificationBellMarkAsReadDocument,
+    "\n  query MySessions {\n    mySessions {\n      id\n      userAgent\n      ipAddress\n      createdAt\n      lastUsedAt\n      current\n    }\n  }\n": typeof types.MySessionsDocument,
+    "\n  query UserSessions($userId: Int!) {\n    userSessions(userId: $userId) {\n      id\n      userAgent\n      ipAddress\n      createdAt\n      lastUsedAt\n      current\n    }\n  }\n": typeof types.UserSessionsDocument,
+    "\n  mutation RevokeSession($id: String!) {\n    revokeSession(id: $id)\n  }\n": typeof types.RevokeSessionDocument,
+    "\n  mutation RevokeAllOtherSessions {\n    revokeAllOtherSessions\n  }\n": typeof types.RevokeAllOtherSessionsDocument,
+    "\n  mutation RevokeUserSessions($userId: Int!) {\n    revokeUserSessions(userId: $userId)\n  }\n": typeof types.RevokeUserSessionsDocument,
+    "\n  query GetUnreadMessageCount {\n    messageStats {\n      unread\n    }\n  }\n": typeof types.GetUnreadMessageCountDocument,
+    "\n  subscription MessageReceivedForCount {\n    messageReceived {\n      id\n      senderId\n    }\n  }\n": typeof types.MessageReceivedForCountDocument,
+    "\n  query MyProfileMini {\n    myProfile {\n      name\n      avatar\n    }\n  }\n": typeof types.MyProfileMiniDocument,
+    "\n  query MyPermissions {\n    myPermissions {\n      permission\n      scope\n    }\n  }\n": typeof types.MyPermissionsDocument,
+    "\n  query AccessLogs($first: Int, $after: String) {\n    accessLogs(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          userId\n          userEmail\n          impersonatorEmail\n          action\n          details\n          ipAddress\n          createdAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.AccessLogsDocument,
+    "\n  query AdminUsers {\n    adminUsers {\n      id\n      email\n      role\n      createdAt\n    }\n  }\n": typeof types.AdminUsersDocument,
+    "\n  query SearchEmployees($filter: EmployeeFilter, $first: Int, $after: String, $sortBy: EmployeeSortBy, $sortOrder: SortOrder) {\n    employees(filter: $filter, first: $first, after: $after, sortBy: $sortBy, sortOrder: $sortOrder) {\n      edges {\n        node {\n          id\n          name\n          email\n          role\n          status\n          location\n          attendance\n          age\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.SearchEmployeesDocument,
+    "\n  query EmployeeAnalytics($employeeId: Int!) {\n    employeePerformanceStats(employeeId: $employeeId) {\n      attendance\n      notesCount\n      reviewCount\n      status\n      flagged\n    }\n  }\n": typeof types.EmployeeAnalyticsDocument,
+    "\n  fragment ApiKeyFields on ApiKey {\n    id\n    name\n    prefix\n    scopes\n    allowedIps\n    createdByEmail\n    status\n    expiresAt\n    lastUsedAt\n    lastUsedIp\n    createdAt\n  }\n": typeof types.ApiKeyFieldsFragmentDoc,
+    "\n  query ApiKeys {\n    apiKeys {\n      ...ApiKeyFields\n    }\n    apiKeyScopes\n  }\n": typeof types.ApiKeysDocument,
+    "\n  mutation CreateApiKey($input: ApiKeyInput!) {\n    createApiKey(input: $input) {\n      key\n      apiKey {\n        ...ApiKeyFields\n      }\n    }\n  }\n": typeof types.CreateApiKeyDocument,
+    "\n  mutation RevokeApiKey($id: Int!) {\n    revokeApiKey(id: $id) {\n      id\n      status\n    }\n  }\n": typeof types.RevokeApiKeyDocument,
+    "\n  query AuditLogs($first: Int, $after: String) {\n    accessLogs(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          userId\n          userEmail\n          impersonatorEmail\n          action\n          details\n          ipAddress\n          createdAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.AuditLogsDocument,
+    "\n  query DashboardEmployees($first: Int, $after: String) {\n    employees(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          name\n          email\n          attendance\n          status\n          role\n          flagged\n          className\n          location\n          managerId\n          createdAt\n          updatedAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.DashboardEmployeesDocument,
+    "\n  query DashboardLeaveRequests {\n    leaveRequests {\n      id\n      employeeId\n      startDate\n      endDate\n      reason\n      status\n    }\n  }\n": typeof types.DashboardLeaveRequestsDocument,
+    "\n  query DashboardMyLeaveRequests {\n    myLeaveRequests {\n      id\n      employeeId\n      startDate\n      endDate\n      reason\n      status\n    }\n  }\n": typeof types.DashboardMyLeaveRequestsDocument,
+    "\n  query RecentActivities {\n    accessLogs(first: 10) {\n      edges {\n        node {\n          id\n          action\n          details\n          createdAt\n        }\n      }\n    }\n  }\n": typeof types.RecentActivitiesDocument,
+    "\n  query MyNotifications {\n    notifications(first: 8) {\n      edges {\n        node {\n          id\n          title\n          message\n          type\n          createdAt\n        }\n      }\n    }\n  }\n": typeof types.MyNotificationsDocument,
+    "\n  mutation DashboardUpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {\n    updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {\n      id\n      status\n      updatedAt\n    }\n  }\n": typeof types.DashboardUpdateLeaveRequestStatusDocument,
+    "\n  query EmployeeLoginCandidates($after: String) {\n    employees(first: 50, after: $after) {\n      edges {\n        node {\n          id\n          name\n          email\n          userId\n          role\n          status\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n    withoutLogin: employees(filter: { hasLogin: false }, first: 1) {\n      totalCount\n    }\n  }\n": typeof types.EmployeeLoginCandidatesDocument,
+    "\n  mutation GenerateEmployeeLogins {\n    generateEmployeeLogins {\n      success\n      message\n      created\n      skipped\n      failed\n      credentials {\n        employeeId\n        email\n        temporaryPassword\n      }\n    }\n  }\n": typeof types.GenerateEmployeeLoginsDocument,
+    "\n  query Employees(\n    $filter: EmployeeFilter\n    $first: Int\n    $after: String\n    $sortBy: EmployeeSortBy\n    $sortOrder: SortOrder\n  ) {\n    employees(\n      filter: $filter\n      first: $first\n      after: $after\n      sortBy: $sortBy\n      sortOrder: $sortOrder\n    ) {\n      edges {\n        node {\n          id\n          name\n          age\n          className\n          subjects\n          attendance\n          role\n          status\n          location\n          lastLogin\n          createdAt\n          updatedAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.EmployeesDocument,
+    "\n  mutation TerminateEmployee($id: Int!) {\n    terminateEmployee(id: $id) {\n      id\n      status\n      updatedAt\n    }\n  }\n": typeof types.TerminateEmployeeDocument,
+    "\n  mutation DeleteEmployee($id: Int!) {\n    deleteEmployee(id: $id)\n  }\n": typeof types.DeleteEmployeeDocument,
+    "\n  mutation AddEmployee($input: EmployeeInput!) {\n    addEmployee(input: $input) {\n      id\n      name\n      age\n      className\n      subjects\n      attendance\n      role\n      status\n      location\n      lastLogin\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.AddEmployeeDocument,
+    "\n  mutation UpdateEmployee($id: Int!, $input: EmployeeInput!) {\n    updateEmployee(id: $id, input: $input) {\n      id\n      name\n      age\n      className\n      subjects\n      attendance\n      role\n      status\n      location\n      lastLogin\n      createdAt\n      updatedAt\n    }\n  }\n": typeof types.UpdateEmployeeDocument,
+    "\n  fragment InvitationFields on Invitation {\n    id\n    email\n    name\n    role\n    managerId\n    invitedByEmail\n    status\n    expiresAt\n    acceptedAt\n    createdAt\n  }\n": typeof types.InvitationFieldsFragmentDoc,
+    "\n  query Invitations($status: String) {\n    invitations(status: $status) {\n      ...InvitationFields\n    }\n  }\n": typeof types.InvitationsDocument,
+    "\n  query InvitationManagers {\n    allUsers(roleFilter: \"manager\") {\n      id\n      email\n    }\n  }\n": typeof types.InvitationManagersDocument,
+    "\n  query InvitationRoles {\n    roles {\n      key\n      name\n    }\n  }\n": typeof types.InvitationRolesDocument,
+    "\n  mutation CreateInvitation($input: InvitationInput!) {\n    createInvitation(input: $input) {\n      inviteLink\n      invitation {\n        ...InvitationFields\n      }\n    }\n  }\n": typeof types.CreateInvitationDocument,
+    "\n  mutation ResendInvitation($id: Int!) {\n    resendInvitation(id: $id) {\n      inviteLink\n      invitation {\n        ...InvitationFields\n      }\n    }\n  }\n": typeof types.ResendInvitationDocument,
+    "\n  mutation RevokeInvitation($id: Int!) {\n    revokeInvitation(id: $id) {\n      id\n      status\n    }\n  }\n": typeof types.RevokeInvitationDocument,
+    "\n  query MyLeaveRequests {\n    myLeaveRequests {\n      id\n      employeeId\n      reason\n      startDate\n      endDate\n      type\n      status\n      adminNote\n      createdAt\n    }\n  }\n": typeof types.MyLeaveRequestsDocument,
+    "\n  query LeaveRequests($status: LeaveStatus) {\n    leaveRequests(status: $status) {\n      id\n      employeeId\n      employeeName\n      reason\n      startDate\n      endDate\n      type\n      status\n      adminNote\n      createdAt\n    }\n  }\n": typeof types.LeaveRequestsDocument,
+    "\n  mutation CreateLeaveRequest($input: LeaveRequestInput!) {\n    createLeaveRequest(input: $input) {\n      id\n      reason\n      startDate\n      endDate\n      type\n      status\n    }\n  }\n": typeof types.CreateLeaveRequestDocument,
+    "\n  subscription LeaveRequestUpdated {\n    leaveRequestUpdated {\n      id\n    }\n  }\n": typeof types.LeaveRequestUpdatedDocument,
+    "\n  mutation UpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {\n    updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {\n      id\n      status\n      adminNote\n    }\n  }\n": typeof types.UpdateLeaveRequestStatusDocument,
+    "\n  query MyConversations {\n    myConversations {\n      conversationId\n      participant\n      participantRole\n      lastMessage\n      lastMessageTime\n      unreadCount\n    }\n  }\n": typeof types.MyConversationsDocument,
+    "\n  query Messages($conversationId: String!) {\n    messages(conversationId: $conversationId) {\n      id\n      conversationId\n      senderId\n      senderEmail\n      senderRole\n      recipientId\n      recipientEmail\n      recipientRole\n      subject\n      message\n      messageType\n      isRead\n      createdAt\n    }\n  }\n": typeof types.MessagesDocument,
+    "\n  subscription MessageReceived {\n    messageReceived {\n      id\n      conversationId\n      senderId\n    }\n  }\n": typeof types.MessageReceivedDocument,
+    "\n  mutation SendMessage($input: SendMessageInput!) {\n    sendMessage(input: $input) {\n      id\n      conversationId\n      message\n      createdAt\n    }\n  }\n": typeof types.SendMessageDocument,
+    "\n  mutation MarkConversationAsRead($conversationId: String!) {\n    markConversationAsRead(conversationId: $conversationId)\n  }\n": typeof types.MarkConversationAsReadDocument,
+    "\n  query MessageRecipients {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n": typeof types.MessageRecipientsDocument,
+    "\n  query Notifications($type: NotificationType, $isRead: Boolean, $first: Int, $after: String) {\n    notifications(type: $type, isRead: $isRead, first: $first, after: $after) {\n      edges {\n        node {\n          id\n          title\n          message\n          type\n          isRead\n          createdAt\n          linkTo\n          actionUrl\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n    notificationCount\n  }\n": typeof types.NotificationsDocument,
+    "\n  mutation MarkNotificationAsRead($id: Int!) {\n    markNotificationAsRead(id: $id) {\n      id\n      isRead\n    }\n  }\n": typeof types.MarkNotificationAsReadDocument,
+    "\n  mutation MarkAllNotificationsAsRead {\n    markAllNotificationsAsRead\n  }\n": typeof types.MarkAllNotificationsAsReadDocument,
+    "\n  query MyNotes {\n    myNotes {\n      id\n      message\n      fromUserId\n      toEmployeeId\n      toAll\n      isRead\n      createdAt\n    }\n  }\n": typeof types.MyNotesDocument,
+    "\n  mutation MarkNoteAsRead($id: Int!) {\n    markNoteAsRead(id: $id) {\n      id\n      isRead\n    }\n  }\n": typeof types.MarkNoteAsReadDocument,
+    "\n  query OrgChart($rootUserId: Int) {\n    orgChart(rootUserId: $rootUserId) {\n      id\n      parentId\n      userId\n      employeeId\n      managerId\n      name\n      role\n      avatar\n      level\n      directReports\n      headcount\n    }\n  }\n": typeof types.OrgChartDocument,
+    "\n  mutation SetEmployeeManager($employeeId: Int!, $managerUserId: Int) {\n    setEmployeeManager(employeeId: $employeeId, managerUserId: $managerUserId) {\n      id\n      managerId\n    }\n  }\n": typeof types.SetEmployeeManagerDocument,
+    "\n  query EmailPreferences {\n    me {\n      id\n      emailNotifications\n    }\n  }\n": typeof types.EmailPreferencesDocument,
+    "\n  mutation UpdateEmailPreferences($emailNotifications: Boolean!) {\n    updateEmailPreferences(emailNotifications: $emailNotifications) {\n      id\n      emailNotifications\n    }\n  }\n": typeof types.UpdateEmailPreferencesDocument,
+    "\n  query MyEditableProfile {\n    myProfile {\n      id\n      name\n      email\n      age\n      className\n      attendance\n      role\n      status\n      location\n      lastLogin\n      avatar\n    }\n  }\n": typeof types.MyEditableProfileDocument,
+    "\n  mutation UpdateMyProfile($input: ProfileUpdateInput!) {\n    updateMyProfile(input: $input) {\n      id\n      name\n      email\n      age\n      location\n      avatar\n    }\n  }\n": typeof types.UpdateMyProfileDocument,
+    "\n  query MyProfile {\n    myProfile {\n      id\n      name\n      email\n      age\n      className\n      attendance\n      role\n      status\n      location\n      lastLogin\n      avatar\n    }\n  }\n": typeof types.MyProfileDocument,
+    "\n  query ReportEmployees($first: Int, $after: String) {\n    employees(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          name\n          age\n          className\n          subjects\n          attendance\n          role\n          status\n          location\n          lastLogin\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.ReportEmployeesDocument,
+    "\n  query GetReviewRequests($status: ReviewStatus, $first: Int, $after: String) {\n    reviewRequests(status: $status, first: $first, after: $after) {\n      edges {\n        node {\n          id\n          type\n          status\n          requestedByEmail\n          managerReasonType\n          managerReasonText\n          visibleToEmployee\n          adminComment\n          reviewedAt\n          createdAt\n          employee {\n            id\n            name\n            email\n            role\n            status\n            attendance\n            avatar\n          }\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": typeof types.GetReviewRequestsDocument,
+    "\n  mutation ReviewDecision($input: ReviewDecisionInput!) {\n    reviewDecision(input: $input) {\n      id\n      status\n    }\n  }\n": typeof types.ReviewDecisionDocument,
+    "\n  fragment RoleFields on Role {\n    id\n    key\n    name\n    description\n    isSystem\n    permissions {\n      permission\n      scope\n    }\n    userCount\n  }\n": typeof types.RoleFieldsFragmentDoc,
+    "\n  query RolesAndPermissions {\n    roles {\n      ...RoleFields\n    }\n    permissions {\n      key\n      category\n      description\n      scopes\n    }\n  }\n": typeof types.RolesAndPermissionsDocument,
+    "\n  query RoleAssignmentUsers {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n": typeof types.RoleAssignmentUsersDocument,
+    "\n  mutation CreateRole($input: RoleInput!) {\n    createRole(input: $input) {\n      ...RoleFields\n    }\n  }\n": typeof types.CreateRoleDocument,
+    "\n  mutation UpdateRole($id: Int!, $input: RoleInput!) {\n    updateRole(id: $id, input: $input) {\n      ...RoleFields\n    }\n  }\n": typeof types.UpdateRoleDocument,
+    "\n  mutation DeleteRole($id: Int!) {\n    deleteRole(id: $id)\n  }\n": typeof types.DeleteRoleDocument,
+    "\n  mutation SetUserRole($userId: Int!, $role: String!) {\n    setUserRole(userId: $userId, role: $role) {\n      id\n      role\n    }\n  }\n": typeof types.SetUserRoleDocument,
+    "\n  query NoteRecipients {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n": typeof types.NoteRecipientsDocument,
+    "\n  mutation SendNote($input: NoteInput!) {\n    sendNote(input: $input) {\n      id\n      message\n      toAll\n    }\n  }\n": typeof types.SendNoteDocument,
+    "\n  mutation ChangePassword($currentPassword: String!, $newPassword: String!) {\n    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {\n      success\n      message\n      accessToken\n      fieldErrors {\n        field\n        code\n        message\n      }\n    }\n  }\n": typeof types.ChangePasswordDocument,
+    "\n  query MyTwoFactorStatus {\n    me {\n      id\n      twoFAEnabled\n    }\n  }\n": typeof types.MyTwoFactorStatusDocument,
+    "\n  mutation Setup2FA {\n    setup2FA {\n      otpauthUrl\n      qrCode\n      recoveryCodes\n    }\n  }\n": typeof types.Setup2FaDocument,
+    "\n  mutation Verify2FA($code: String!) {\n    verify2FA(code: $code)\n  }\n": typeof types.Verify2FaDocument,
+    "\n  mutation SendSlackNotification($webhookUrl: String!, $text: String!) {\n    sendSlackNotification(webhookUrl: $webhookUrl, text: $text) { success }\n  }\n": typeof types.SendSlackNotificationDocument,
+    "\n  query DashboardStats {\n    dashboardStats {\n      totalUsers\n      activeUsers\n      blockedUsers\n      recentLogins\n      roleDistribution {\n        directors\n        managers\n        employees\n      }\n      recentActions {\n        id\n        action\n        reason\n        blockedUntil\n        createdAt\n        user {\n          email\n        }\n        admin {\n          email\n        }\n      }\n    }\n  }\n": typeof types.DashboardStatsDocument,
+    "\n  query AllUsers($searchTerm: String, $roleFilter: String, $statusFilter: String) {\n    allUsers(searchTerm: $searchTerm, roleFilter: $roleFilter, statusFilter: $statusFilter) {\n      id\n      email\n      role\n      createdAt\n      isActive\n      twoFAEnabled\n    }\n  }\n": typeof types.AllUsersDocument,
+    "\n  mutation DeleteUser($id: Int!) {\n    deleteUser(id: $id)\n  }\n": typeof types.DeleteUserDocument,
+    "\n  mutation ToggleUserAccess($id: Int!, $isActive: Boolean!, $reason: String, $blockedUntil: String) {\n    toggleUserAccess(id: $id, isActive: $isActive, reason: $reason, blockedUntil: $blockedUntil)\n  }\n": typeof types.ToggleUserAccessDocument,
+    "\n  mutation Reset2FA($userId: Int!) {\n    reset2FA(userId: $userId)\n  }\n": typeof types.Reset2FaDocument,
+    "\n  mutation BulkToggleAccess($userIds: [Int!]!, $isActive: Boolean!, $reason: String) {\n    bulkToggleAccess(userIds: $userIds, isActive: $isActive, reason: $reason)\n  }\n": typeof types.BulkToggleAccessDocument,
+};
+const documents: Documents = {
+    "\n  mutation ChangeRequiredPassword($currentPassword: String!, $newPassword: String!) {\n    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {\n      success\n      message\n      accessToken\n      fieldErrors {\n        field\n        code\n        message\n      }\n    }\n  }\n": types.ChangeRequiredPasswordDocument,
+    "\n  mutation StartImpersonation($userId: Int!, $reason: String!, $minutes: Int) {\n    startImpersonation(userId: $userId, reason: $reason, minutes: $minutes) {\n      accessToken\n      user {\n        id\n        email\n        role\n      }\n      session {\n        id\n        actorEmail\n        expiresAt\n        readOnly\n      }\n    }\n  }\n": types.StartImpersonationDocument,
+    "\n  mutation EndImpersonation {\n    endImpersonation\n  }\n": types.EndImpersonationDocument,
+    "\n  fragment DelegationFields on ApprovalDelegation {\n    id\n    managerId\n    managerEmail\n    delegateId\n    delegateEmail\n    startDate\n    endDate\n    whileOnLeave\n    isActive\n    permissions\n    reason\n    revokedAt\n    createdAt\n  }\n": types.DelegationFieldsFragmentDoc,
+    "\n  query DelegationsToMe {\n    delegationsToMe {\n      ...DelegationFields\n    }\n  }\n": types.DelegationsToMeDocument,
+    "\n  query MyDelegations {\n    myDelegations {\n      ...DelegationFields\n    }\n  }\n": types.MyDelegationsDocument,
+    "\n  query DelegateOptions {\n    allUsers(statusFilter: \"active\") {\n      id\n      email\n      role\n    }\n  }\n": types.DelegateOptionsDocument,
+    "\n  mutation CreateDelegation($input: ApprovalDelegationInput!) {\n    createDelegation(input: $input) {\n      id\n    }\n  }\n": types.CreateDelegationDocument,
+    "\n  mutation RevokeDelegation($id: Int!) {\n    revokeDelegation(id: $id) {\n      id\n    }\n  }\n": types.RevokeDelegationDocument,
+    "\n  query GetNotifications {\n    unreadNotifications {\n      id\n      title\n      message\n      type\n      linkTo\n      createdAt\n    }\n    notificationCount\n  }\n": types.GetNotificationsDocument,
+    "\n  subscription NotificationAdded {\n    notificationAdded {\n      id\n      title\n      message\n      type\n      linkTo\n      createdAt\n    }\n  }\n": types.NotificationAddedDocument,
+    "\n  mutation NotificationBellMarkAsRead($id: Int!) {\n    markNotificationAsRead(id: $id) {\n      id\n    }\n  }\n": types.NotificationBellMarkAsReadDocument,
+    "\n  query MySessions {\n    mySessions {\n      id\n      userAgent\n      ipAddress\n      createdAt\n      lastUsedAt\n      current\n    }\n  }\n": types.MySessionsDocument,
+    "\n  query UserSessions($userId: Int!) {\n    userSessions(userId: $userId) {\n      id\n      userAgent\n      ipAddress\n      createdAt\n      lastUsedAt\n      current\n    }\n  }\n": types.UserSessionsDocument,
+    "\n  mutation RevokeSession($id: String!) {\n    revokeSession(id: $id)\n  }\n": types.RevokeSessionDocument,
+    "\n  mutation RevokeAllOtherSessions {\n    revokeAllOtherSessions\n  }\n": types.RevokeAllOtherSessionsDocument,
+    "\n  mutation RevokeUserSessions($userId: Int!) {\n    revokeUserSessions(userId: $userId)\n  }\n": types.RevokeUserSessionsDocument,
+    "\n  query GetUnreadMessageCount {\n    messageStats {\n      unread\n    }\n  }\n": types.GetUnreadMessageCountDocument,
+    "\n  subscription MessageReceivedForCount {\n    messageReceived {\n      id\n      senderId\n    }\n  }\n": types.MessageReceivedForCountDocument,
+    "\n  query MyProfileMini {\n    myProfile {\n      name\n      avatar\n    }\n  }\n": types.MyProfileMiniDocument,
+    "\n  query MyPermissions {\n    myPermissions {\n      permission\n      scope\n    }\n  }\n": types.MyPermissionsDocument,
+    "\n  query AccessLogs($first: Int, $after: String) {\n    accessLogs(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          userId\n          userEmail\n          impersonatorEmail\n          action\n          details\n          ipAddress\n          createdAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.AccessLogsDocument,
+    "\n  query AdminUsers {\n    adminUsers {\n      id\n      email\n      role\n      createdAt\n    }\n  }\n": types.AdminUsersDocument,
+    "\n  query SearchEmployees($filter: EmployeeFilter, $first: Int, $after: String, $sortBy: EmployeeSortBy, $sortOrder: SortOrder) {\n    employees(filter: $filter, first: $first, after: $after, sortBy: $sortBy, sortOrder: $sortOrder) {\n      edges {\n        node {\n          id\n          name\n          email\n          role\n          status\n          location\n          attendance\n          age\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.SearchEmployeesDocument,
+    "\n  query EmployeeAnalytics($employeeId: Int!) {\n    employeePerformanceStats(employeeId: $employeeId) {\n      attendance\n      notesCount\n      reviewCount\n      status\n      flagged\n    }\n  }\n": types.EmployeeAnalyticsDocument,
+    "\n  fragment ApiKeyFields on ApiKey {\n    id\n    name\n    prefix\n    scopes\n    allowedIps\n    createdByEmail\n    status\n    expiresAt\n    lastUsedAt\n    lastUsedIp\n    createdAt\n  }\n": types.ApiKeyFieldsFragmentDoc,
+    "\n  query ApiKeys {\n    apiKeys {\n      ...ApiKeyFields\n    }\n    apiKeyScopes\n  }\n": types.ApiKeysDocument,
+    "\n  mutation CreateApiKey($input: ApiKeyInput!) {\n    createApiKey(input: $input) {\n      key\n      apiKey {\n        ...ApiKeyFields\n      }\n    }\n  }\n": types.CreateApiKeyDocument,
+    "\n  mutation RevokeApiKey($id: Int!) {\n    revokeApiKey(id: $id) {\n      id\n      status\n    }\n  }\n": types.RevokeApiKeyDocument,
+    "\n  query AuditLogs($first: Int, $after: String) {\n    accessLogs(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          userId\n          userEmail\n          impersonatorEmail\n          action\n          details\n          ipAddress\n          createdAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.AuditLogsDocument,
+    "\n  query DashboardEmployees($first: Int, $after: String) {\n    employees(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          name\n          email\n          attendance\n          status\n          role\n          flagged\n          className\n          location\n          managerId\n          createdAt\n          updatedAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.DashboardEmployeesDocument,
+    "\n  query DashboardLeaveRequests {\n    leaveRequests {\n      id\n      employeeId\n      startDate\n      endDate\n      reason\n      status\n    }\n  }\n": types.DashboardLeaveRequestsDocument,
+    "\n  query DashboardMyLeaveRequests {\n    myLeaveRequests {\n      id\n      employeeId\n      startDate\n      endDate\n      reason\n      status\n    }\n  }\n": types.DashboardMyLeaveRequestsDocument,
+    "\n  query RecentActivities {\n    accessLogs(first: 10) {\n      edges {\n        node {\n          id\n          action\n          details\n          createdAt\n        }\n      }\n    }\n  }\n": types.RecentActivitiesDocument,
+    "\n  query MyNotifications {\n    notifications(first: 8) {\n      edges {\n        node {\n          id\n          title\n          message\n          type\n          createdAt\n        }\n      }\n    }\n  }\n": types.MyNotificationsDocument,
+    "\n  mutation DashboardUpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {\n    updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {\n      id\n      status\n      updatedAt\n    }\n  }\n": types.DashboardUpdateLeaveRequestStatusDocument,
+    "\n  query EmployeeLoginCandidates($after: String) {\n    employees(first: 50, after: $after) {\n      edges {\n        node {\n          id\n          name\n          email\n          userId\n          role\n          status\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n    withoutLogin: employees(filter: { hasLogin: false }, first: 1) {\n      totalCount\n    }\n  }\n": types.EmployeeLoginCandidatesDocument,
+    "\n  mutation GenerateEmployeeLogins {\n    generateEmployeeLogins {\n      success\n      message\n      created\n      skipped\n      failed\n      credentials {\n        employeeId\n        email\n        temporaryPassword\n      }\n    }\n  }\n": types.GenerateEmployeeLoginsDocument,
+    "\n  query Employees(\n    $filter: EmployeeFilter\n    $first: Int\n    $after: String\n    $sortBy: EmployeeSortBy\n    $sortOrder: SortOrder\n  ) {\n    employees(\n      filter: $filter\n      first: $first\n      after: $after\n      sortBy: $sortBy\n      sortOrder: $sortOrder\n    ) {\n      edges {\n        node {\n          id\n          name\n          age\n          className\n          subjects\n          attendance\n          role\n          status\n          location\n          lastLogin\n          createdAt\n          updatedAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.EmployeesDocument,
+    "\n  mutation TerminateEmployee($id: Int!) {\n    terminateEmployee(id: $id) {\n      id\n      status\n      updatedAt\n    }\n  }\n": types.TerminateEmployeeDocument,
+    "\n  mutation DeleteEmployee($id: Int!) {\n    deleteEmployee(id: $id)\n  }\n": types.DeleteEmployeeDocument,
+    "\n  mutation AddEmployee($input: EmployeeInput!) {\n    addEmployee(input: $input) {\n      id\n      name\n      age\n      className\n      subjects\n      attendance\n      role\n      status\n      location\n      lastLogin\n      createdAt\n      updatedAt\n    }\n  }\n": types.AddEmployeeDocument,
+    "\n  mutation UpdateEmployee($id: Int!, $input: EmployeeInput!) {\n    updateEmployee(id: $id, input: $input) {\n      id\n      name\n      age\n      className\n      subjects\n      attendance\n      role\n      status\n      location\n      lastLogin\n      createdAt\n      updatedAt\n    }\n  }\n": types.UpdateEmployeeDocument,
+    "\n  fragment InvitationFields on Invitation {\n    id\n    email\n    name\n    role\n    managerId\n    invitedByEmail\n    status\n    expiresAt\n    acceptedAt\n    createdAt\n  }\n": types.InvitationFieldsFragmentDoc,
+    "\n  query Invitations($status: String) {\n    invitations(status: $status) {\n      ...InvitationFields\n    }\n  }\n": types.InvitationsDocument,
+    "\n  query InvitationManagers {\n    allUsers(roleFilter: \"manager\") {\n      id\n      email\n    }\n  }\n": types.InvitationManagersDocument,
+    "\n  query InvitationRoles {\n    roles {\n      key\n      name\n    }\n  }\n": types.InvitationRolesDocument,
+    "\n  mutation CreateInvitation($input: InvitationInput!) {\n    createInvitation(input: $input) {\n      inviteLink\n      invitation {\n        ...InvitationFields\n      }\n    }\n  }\n": types.CreateInvitationDocument,
+    "\n  mutation ResendInvitation($id: Int!) {\n    resendInvitation(id: $id) {\n      inviteLink\n      invitation {\n        ...InvitationFields\n      }\n    }\n  }\n": types.ResendInvitationDocument,
+    "\n  mutation RevokeInvitation($id: Int!) {\n    revokeInvitation(id: $id) {\n      id\n      status\n    }\n  }\n": types.RevokeInvitationDocument,
+    "\n  query MyLeaveRequests {\n    myLeaveRequests {\n      id\n      employeeId\n      reason\n      startDate\n      endDate\n      type\n      status\n      adminNote\n      createdAt\n    }\n  }\n": types.MyLeaveRequestsDocument,
+    "\n  query LeaveRequests($status: LeaveStatus) {\n    leaveRequests(status: $status) {\n      id\n      employeeId\n      employeeName\n      reason\n      startDate\n      endDate\n      type\n      status\n      adminNote\n      createdAt\n    }\n  }\n": types.LeaveRequestsDocument,
+    "\n  mutation CreateLeaveRequest($input: LeaveRequestInput!) {\n    createLeaveRequest(input: $input) {\n      id\n      reason\n      startDate\n      endDate\n      type\n      status\n    }\n  }\n": types.CreateLeaveRequestDocument,
+    "\n  subscription LeaveRequestUpdated {\n    leaveRequestUpdated {\n      id\n    }\n  }\n": types.LeaveRequestUpdatedDocument,
+    "\n  mutation UpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {\n    updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {\n      id\n      status\n      adminNote\n    }\n  }\n": types.UpdateLeaveRequestStatusDocument,
+    "\n  query MyConversations {\n    myConversations {\n      conversationId\n      participant\n      participantRole\n      lastMessage\n      lastMessageTime\n      unreadCount\n    }\n  }\n": types.MyConversationsDocument,
+    "\n  query Messages($conversationId: String!) {\n    messages(conversationId: $conversationId) {\n      id\n      conversationId\n      senderId\n      senderEmail\n      senderRole\n      recipientId\n      recipientEmail\n      recipientRole\n      subject\n      message\n      messageType\n      isRead\n      createdAt\n    }\n  }\n": types.MessagesDocument,
+    "\n  subscription MessageReceived {\n    messageReceived {\n      id\n      conversationId\n      senderId\n    }\n  }\n": types.MessageReceivedDocument,
+    "\n  mutation SendMessage($input: SendMessageInput!) {\n    sendMessage(input: $input) {\n      id\n      conversationId\n      message\n      createdAt\n    }\n  }\n": types.SendMessageDocument,
+    "\n  mutation MarkConversationAsRead($conversationId: String!) {\n    markConversationAsRead(conversationId: $conversationId)\n  }\n": types.MarkConversationAsReadDocument,
+    "\n  query MessageRecipients {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n": types.MessageRecipientsDocument,
+    "\n  query Notifications($type: NotificationType, $isRead: Boolean, $first: Int, $after: String) {\n    notifications(type: $type, isRead: $isRead, first: $first, after: $after) {\n      edges {\n        node {\n          id\n          title\n          message\n          type\n          isRead\n          createdAt\n          linkTo\n          actionUrl\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n    notificationCount\n  }\n": types.NotificationsDocument,
+    "\n  mutation MarkNotificationAsRead($id: Int!) {\n    markNotificationAsRead(id: $id) {\n      id\n      isRead\n    }\n  }\n": types.MarkNotificationAsReadDocument,
+    "\n  mutation MarkAllNotificationsAsRead {\n    markAllNotificationsAsRead\n  }\n": types.MarkAllNotificationsAsReadDocument,
+    "\n  query MyNotes {\n    myNotes {\n      id\n      message\n      fromUserId\n      toEmployeeId\n      toAll\n      isRead\n      createdAt\n    }\n  }\n": types.MyNotesDocument,
+    "\n  mutation MarkNoteAsRead($id: Int!) {\n    markNoteAsRead(id: $id) {\n      id\n      isRead\n    }\n  }\n": types.MarkNoteAsReadDocument,
+    "\n  query OrgChart($rootUserId: Int) {\n    orgChart(rootUserId: $rootUserId) {\n      id\n      parentId\n      userId\n      employeeId\n      managerId\n      name\n      role\n      avatar\n      level\n      directReports\n      headcount\n    }\n  }\n": types.OrgChartDocument,
+    "\n  mutation SetEmployeeManager($employeeId: Int!, $managerUserId: Int) {\n    setEmployeeManager(employeeId: $employeeId, managerUserId: $managerUserId) {\n      id\n      managerId\n    }\n  }\n": types.SetEmployeeManagerDocument,
+    "\n  query EmailPreferences {\n    me {\n      id\n      emailNotifications\n    }\n  }\n": types.EmailPreferencesDocument,
+    "\n  mutation UpdateEmailPreferences($emailNotifications: Boolean!) {\n    updateEmailPreferences(emailNotifications: $emailNotifications) {\n      id\n      emailNotifications\n    }\n  }\n": types.UpdateEmailPreferencesDocument,
+    "\n  query MyEditableProfile {\n    myProfile {\n      id\n      name\n      email\n      age\n      className\n      attendance\n      role\n      status\n      location\n      lastLogin\n      avatar\n    }\n  }\n": types.MyEditableProfileDocument,
+    "\n  mutation UpdateMyProfile($input: ProfileUpdateInput!) {\n    updateMyProfile(input: $input) {\n      id\n      name\n      email\n      age\n      location\n      avatar\n    }\n  }\n": types.UpdateMyProfileDocument,
+    "\n  query MyProfile {\n    myProfile {\n      id\n      name\n      email\n      age\n      className\n      attendance\n      role\n      status\n      location\n      lastLogin\n      avatar\n    }\n  }\n": types.MyProfileDocument,
+    "\n  query ReportEmployees($first: Int, $after: String) {\n    employees(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          name\n          age\n          className\n          subjects\n          attendance\n          role\n          status\n          location\n          lastLogin\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.ReportEmployeesDocument,
+    "\n  query GetReviewRequests($status: ReviewStatus, $first: Int, $after: String) {\n    reviewRequests(status: $status, first: $first, after: $after) {\n      edges {\n        node {\n          id\n          type\n          status\n          requestedByEmail\n          managerReasonType\n          managerReasonText\n          visibleToEmployee\n          adminComment\n          reviewedAt\n          createdAt\n          employee {\n            id\n            name\n            email\n            role\n            status\n            attendance\n            avatar\n          }\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n": types.GetReviewRequestsDocument,
+    "\n  mutation ReviewDecision($input: ReviewDecisionInput!) {\n    reviewDecision(input: $input) {\n      id\n      status\n    }\n  }\n": types.ReviewDecisionDocument,
+    "\n  fragment RoleFields on Role {\n    id\n    key\n    name\n    description\n    isSystem\n    permissions {\n      permission\n      scope\n    }\n    userCount\n  }\n": types.RoleFieldsFragmentDoc,
+    "\n  query RolesAndPermissions {\n    roles {\n      ...RoleFields\n    }\n    permissions {\n      key\n      category\n      description\n      scopes\n    }\n  }\n": types.RolesAndPermissionsDocument,
+    "\n  query RoleAssignmentUsers {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n": types.RoleAssignmentUsersDocument,
+    "\n  mutation CreateRole($input: RoleInput!) {\n    createRole(input: $input) {\n      ...RoleFields\n    }\n  }\n": types.CreateRoleDocument,
+    "\n  mutation UpdateRole($id: Int!, $input: RoleInput!) {\n    updateRole(id: $id, input: $input) {\n      ...RoleFields\n    }\n  }\n": types.UpdateRoleDocument,
+    "\n  mutation DeleteRole($id: Int!) {\n    deleteRole(id: $id)\n  }\n": types.DeleteRoleDocument,
+    "\n  mutation SetUserRole($userId: Int!, $role: String!) {\n    setUserRole(userId: $userId, role: $role) {\n      id\n      role\n    }\n  }\n": types.SetUserRoleDocument,
+    "\n  query NoteRecipients {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n": types.NoteRecipientsDocument,
+    "\n  mutation SendNote($input: NoteInput!) {\n    sendNote(input: $input) {\n      id\n      message\n      toAll\n    }\n  }\n": types.SendNoteDocument,
+    "\n  mutation ChangePassword($currentPassword: String!, $newPassword: String!) {\n    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {\n      success\n      message\n      accessToken\n      fieldErrors {\n        field\n        code\n        message\n      }\n    }\n  }\n": types.ChangePasswordDocument,
+    "\n  query MyTwoFactorStatus {\n    me {\n      id\n      twoFAEnabled\n    }\n  }\n": types.MyTwoFactorStatusDocument,
+    "\n  mutation Setup2FA {\n    setup2FA {\n      otpauthUrl\n      qrCode\n      recoveryCodes\n    }\n  }\n": types.Setup2FaDocument,
+    "\n  mutation Verify2FA($code: String!) {\n    verify2FA(code: $code)\n  }\n": types.Verify2FaDocument,
+    "\n  mutation SendSlackNotification($webhookUrl: String!, $text: String!) {\n    sendSlackNotification(webhookUrl: $webhookUrl, text: $text) { success }\n  }\n": types.SendSlackNotificationDocument,
+    "\n  query DashboardStats {\n    dashboardStats {\n      totalUsers\n      activeUsers\n      blockedUsers\n      recentLogins\n      roleDistribution {\n        directors\n        managers\n        employees\n      }\n      recentActions {\n        id\n        action\n        reason\n        blockedUntil\n        createdAt\n        user {\n          email\n        }\n        admin {\n          email\n        }\n      }\n    }\n  }\n": types.DashboardStatsDocument,
+    "\n  query AllUsers($searchTerm: String, $roleFilter: String, $statusFilter: String) {\n    allUsers(searchTerm: $searchTerm, roleFilter: $roleFilter, statusFilter: $statusFilter) {\n      id\n      email\n      role\n      createdAt\n      isActive\n      twoFAEnabled\n    }\n  }\n": types.AllUsersDocument,
+    "\n  mutation DeleteUser($id: Int!) {\n    deleteUser(id: $id)\n  }\n": types.DeleteUserDocument,
+    "\n  mutation ToggleUserAccess($id: Int!, $isActive: Boolean!, $reason: String, $blockedUntil: String) {\n    toggleUserAccess(id: $id, isActive: $isActive, reason: $reason, blockedUntil: $blockedUntil)\n  }\n": types.ToggleUserAccessDocument,
+    "\n  mutation Reset2FA($userId: Int!) {\n    reset2FA(userId: $userId)\n  }\n": types.Reset2FaDocument,
+    "\n  mutation BulkToggleAccess($userIds: [Int!]!, $isActive: Boolean!, $reason: String) {\n    bulkToggleAccess(userIds: $userIds, isActive: $isActive, reason: $reason)\n  }\n": types.BulkToggleAccessDocument,
+};
+
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ChangeRequiredPassword($currentPassword: String!, $newPassword: String!) {\n    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {\n      success\n      message\n      accessToken\n      fieldErrors {\n        field\n        code\n        message\n      }\n    }\n  }\n"): typeof import('./graphql').ChangeRequiredPasswordDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation StartImpersonation($userId: Int!, $reason: String!, $minutes: Int) {\n    startImpersonation(userId: $userId, reason: $reason, minutes: $minutes) {\n      accessToken\n      user {\n        id\n        email\n        role\n      }\n      session {\n        id\n        actorEmail\n        expiresAt\n        readOnly\n      }\n    }\n  }\n"): typeof import('./graphql').StartImpersonationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation EndImpersonation {\n    endImpersonation\n  }\n"): typeof import('./graphql').EndImpersonationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment DelegationFields on ApprovalDelegation {\n    id\n    managerId\n    managerEmail\n    delegateId\n    delegateEmail\n    startDate\n    endDate\n    whileOnLeave\n    isActive\n    permissions\n    reason\n    revokedAt\n    createdAt\n  }\n"): typeof import('./graphql').DelegationFieldsFragmentDoc;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query DelegationsToMe {\n    delegationsToMe {\n      ...DelegationFields\n    }\n  }\n"): typeof import('./graphql').DelegationsToMeDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyDelegations {\n    myDelegations {\n      ...DelegationFields\n    }\n  }\n"): typeof import('./graphql').MyDelegationsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query DelegateOptions {\n    allUsers(statusFilter: \"active\") {\n      id\n      email\n      role\n    }\n  }\n"): typeof import('./graphql').DelegateOptionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation CreateDelegation($input: ApprovalDelegationInput!) {\n    createDelegation(input: $input) {\n      id\n    }\n  }\n"): typeof import('./graphql').CreateDelegationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RevokeDelegation($id: Int!) {\n    revokeDelegation(id: $id) {\n      id\n    }\n  }\n"): typeof import('./graphql').RevokeDelegationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetNotifications {\n    unreadNotifications {\n      id\n      title\n      message\n      type\n      linkTo\n      createdAt\n    }\n    notificationCount\n  }\n"): typeof import('./graphql').GetNotificationsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  subscription NotificationAdded {\n    notificationAdded {\n      id\n      title\n      message\n      type\n      linkTo\n      createdAt\n    }\n  }\n"): typeof import('./graphql').NotificationAddedDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation NotificationBellMarkAsRead($id: Int!) {\n    markNotificationAsRead(id: $id) {\n      id\n    }\n  }\n"): typeof import('./graphql').NotificationBellMarkAsReadDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MySessions {\n    mySessions {\n      id\n      userAgent\n      ipAddress\n      createdAt\n      lastUsedAt\n      current\n    }\n  }\n"): typeof import('./graphql').MySessionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query UserSessions($userId: Int!) {\n    userSessions(userId: $userId) {\n      id\n      userAgent\n      ipAddress\n      createdAt\n      lastUsedAt\n      current\n    }\n  }\n"): typeof import('./graphql').UserSessionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RevokeSession($id: String!) {\n    revokeSession(id: $id)\n  }\n"): typeof import('./graphql').RevokeSessionDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RevokeAllOtherSessions {\n    revokeAllOtherSessions\n  }\n"): typeof import('./graphql').RevokeAllOtherSessionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RevokeUserSessions($userId: Int!) {\n    revokeUserSessions(userId: $userId)\n  }\n"): typeof import('./graphql').RevokeUserSessionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetUnreadMessageCount {\n    messageStats {\n      unread\n    }\n  }\n"): typeof import('./graphql').GetUnreadMessageCountDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  subscription MessageReceivedForCount {\n    messageReceived {\n      id\n      senderId\n    }\n  }\n"): typeof import('./graphql').MessageReceivedForCountDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyProfileMini {\n    myProfile {\n      name\n      avatar\n    }\n  }\n"): typeof import('./graphql').MyProfileMiniDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyPermissions {\n    myPermissions {\n      permission\n      scope\n    }\n  }\n"): typeof import('./graphql').MyPermissionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query AccessLogs($first: Int, $after: String) {\n    accessLogs(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          userId\n          userEmail\n          impersonatorEmail\n          action\n          details\n          ipAddress\n          createdAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').AccessLogsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query AdminUsers {\n    adminUsers {\n      id\n      email\n      role\n      createdAt\n    }\n  }\n"): typeof import('./graphql').AdminUsersDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query SearchEmployees($filter: EmployeeFilter, $first: Int, $after: String, $sortBy: EmployeeSortBy, $sortOrder: SortOrder) {\n    employees(filter: $filter, first: $first, after: $after, sortBy: $sortBy, sortOrder: $sortOrder) {\n      edges {\n        node {\n          id\n          name\n          email\n          role\n          status\n          location\n          attendance\n          age\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').SearchEmployeesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query EmployeeAnalytics($employeeId: Int!) {\n    employeePerformanceStats(employeeId: $employeeId) {\n      attendance\n      notesCount\n      reviewCount\n      status\n      flagged\n    }\n  }\n"): typeof import('./graphql').EmployeeAnalyticsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment ApiKeyFields on ApiKey {\n    id\n    name\n    prefix\n    scopes\n    allowedIps\n    createdByEmail\n    status\n    expiresAt\n    lastUsedAt\n    lastUsedIp\n    createdAt\n  }\n"): typeof import('./graphql').ApiKeyFieldsFragmentDoc;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ApiKeys {\n    apiKeys {\n      ...ApiKeyFields\n    }\n    apiKeyScopes\n  }\n"): typeof import('./graphql').ApiKeysDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation CreateApiKey($input: ApiKeyInput!) {\n    createApiKey(input: $input) {\n      key\n      apiKey {\n        ...ApiKeyFields\n      }\n    }\n  }\n"): typeof import('./graphql').CreateApiKeyDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RevokeApiKey($id: Int!) {\n    revokeApiKey(id: $id) {\n      id\n      status\n    }\n  }\n"): typeof import('./graphql').RevokeApiKeyDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query AuditLogs($first: Int, $after: String) {\n    accessLogs(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          userId\n          userEmail\n          impersonatorEmail\n          action\n          details\n          ipAddress\n          createdAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').AuditLogsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query DashboardEmployees($first: Int, $after: String) {\n    employees(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          name\n          email\n          attendance\n          status\n          role\n          flagged\n          className\n          location\n          managerId\n          createdAt\n          updatedAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').DashboardEmployeesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query DashboardLeaveRequests {\n    leaveRequests {\n      id\n      employeeId\n      startDate\n      endDate\n      reason\n      status\n    }\n  }\n"): typeof import('./graphql').DashboardLeaveRequestsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query DashboardMyLeaveRequests {\n    myLeaveRequests {\n      id\n      employeeId\n      startDate\n      endDate\n      reason\n      status\n    }\n  }\n"): typeof import('./graphql').DashboardMyLeaveRequestsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query RecentActivities {\n    accessLogs(first: 10) {\n      edges {\n        node {\n          id\n          action\n          details\n          createdAt\n        }\n      }\n    }\n  }\n"): typeof import('./graphql').RecentActivitiesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyNotifications {\n    notifications(first: 8) {\n      edges {\n        node {\n          id\n          title\n          message\n          type\n          createdAt\n        }\n      }\n    }\n  }\n"): typeof import('./graphql').MyNotificationsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation DashboardUpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {\n    updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {\n      id\n      status\n      updatedAt\n    }\n  }\n"): typeof import('./graphql').DashboardUpdateLeaveRequestStatusDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query EmployeeLoginCandidates($after: String) {\n    employees(first: 50, after: $after) {\n      edges {\n        node {\n          id\n          name\n          email\n          userId\n          role\n          status\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n    withoutLogin: employees(filter: { hasLogin: false }, first: 1) {\n      totalCount\n    }\n  }\n"): typeof import('./graphql').EmployeeLoginCandidatesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation GenerateEmployeeLogins {\n    generateEmployeeLogins {\n      success\n      message\n      created\n      skipped\n      failed\n      credentials {\n        employeeId\n        email\n        temporaryPassword\n      }\n    }\n  }\n"): typeof import('./graphql').GenerateEmployeeLoginsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query Employees(\n    $filter: EmployeeFilter\n    $first: Int\n    $after: String\n    $sortBy: EmployeeSortBy\n    $sortOrder: SortOrder\n  ) {\n    employees(\n      filter: $filter\n      first: $first\n      after: $after\n      sortBy: $sortBy\n      sortOrder: $sortOrder\n    ) {\n      edges {\n        node {\n          id\n          name\n          age\n          className\n          subjects\n          attendance\n          role\n          status\n          location\n          lastLogin\n          createdAt\n          updatedAt\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').EmployeesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation TerminateEmployee($id: Int!) {\n    terminateEmployee(id: $id) {\n      id\n      status\n      updatedAt\n    }\n  }\n"): typeof import('./graphql').TerminateEmployeeDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation DeleteEmployee($id: Int!) {\n    deleteEmployee(id: $id)\n  }\n"): typeof import('./graphql').DeleteEmployeeDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation AddEmployee($input: EmployeeInput!) {\n    addEmployee(input: $input) {\n      id\n      name\n      age\n      className\n      subjects\n      attendance\n      role\n      status\n      location\n      lastLogin\n      createdAt\n      updatedAt\n    }\n  }\n"): typeof import('./graphql').AddEmployeeDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation UpdateEmployee($id: Int!, $input: EmployeeInput!) {\n    updateEmployee(id: $id, input: $input) {\n      id\n      name\n      age\n      className\n      subjects\n      attendance\n      role\n      status\n      location\n      lastLogin\n      createdAt\n      updatedAt\n    }\n  }\n"): typeof import('./graphql').UpdateEmployeeDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment InvitationFields on Invitation {\n    id\n    email\n    name\n    role\n    managerId\n    invitedByEmail\n    status\n    expiresAt\n    acceptedAt\n    createdAt\n  }\n"): typeof import('./graphql').InvitationFieldsFragmentDoc;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query Invitations($status: String) {\n    invitations(status: $status) {\n      ...InvitationFields\n    }\n  }\n"): typeof import('./graphql').InvitationsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query InvitationManagers {\n    allUsers(roleFilter: \"manager\") {\n      id\n      email\n    }\n  }\n"): typeof import('./graphql').InvitationManagersDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query InvitationRoles {\n    roles {\n      key\n      name\n    }\n  }\n"): typeof import('./graphql').InvitationRolesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation CreateInvitation($input: InvitationInput!) {\n    createInvitation(input: $input) {\n      inviteLink\n      invitation {\n        ...InvitationFields\n      }\n    }\n  }\n"): typeof import('./graphql').CreateInvitationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ResendInvitation($id: Int!) {\n    resendInvitation(id: $id) {\n      inviteLink\n      invitation {\n        ...InvitationFields\n      }\n    }\n  }\n"): typeof import('./graphql').ResendInvitationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation RevokeInvitation($id: Int!) {\n    revokeInvitation(id: $id) {\n      id\n      status\n    }\n  }\n"): typeof import('./graphql').RevokeInvitationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyLeaveRequests {\n    myLeaveRequests {\n      id\n      employeeId\n      reason\n      startDate\n      endDate\n      type\n      status\n      adminNote\n      createdAt\n    }\n  }\n"): typeof import('./graphql').MyLeaveRequestsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query LeaveRequests($status: LeaveStatus) {\n    leaveRequests(status: $status) {\n      id\n      employeeId\n      employeeName\n      reason\n      startDate\n      endDate\n      type\n      status\n      adminNote\n      createdAt\n    }\n  }\n"): typeof import('./graphql').LeaveRequestsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation CreateLeaveRequest($input: LeaveRequestInput!) {\n    createLeaveRequest(input: $input) {\n      id\n      reason\n      startDate\n      endDate\n      type\n      status\n    }\n  }\n"): typeof import('./graphql').CreateLeaveRequestDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  subscription LeaveRequestUpdated {\n    leaveRequestUpdated {\n      id\n    }\n  }\n"): typeof import('./graphql').LeaveRequestUpdatedDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation UpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {\n    updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {\n      id\n      status\n      adminNote\n    }\n  }\n"): typeof import('./graphql').UpdateLeaveRequestStatusDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyConversations {\n    myConversations {\n      conversationId\n      participant\n      participantRole\n      lastMessage\n      lastMessageTime\n      unreadCount\n    }\n  }\n"): typeof import('./graphql').MyConversationsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query Messages($conversationId: String!) {\n    messages(conversationId: $conversationId) {\n      id\n      conversationId\n      senderId\n      senderEmail\n      senderRole\n      recipientId\n      recipientEmail\n      recipientRole\n      subject\n      message\n      messageType\n      isRead\n      createdAt\n    }\n  }\n"): typeof import('./graphql').MessagesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  subscription MessageReceived {\n    messageReceived {\n      id\n      conversationId\n      senderId\n    }\n  }\n"): typeof import('./graphql').MessageReceivedDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SendMessage($input: SendMessageInput!) {\n    sendMessage(input: $input) {\n      id\n      conversationId\n      message\n      createdAt\n    }\n  }\n"): typeof import('./graphql').SendMessageDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation MarkConversationAsRead($conversationId: String!) {\n    markConversationAsRead(conversationId: $conversationId)\n  }\n"): typeof import('./graphql').MarkConversationAsReadDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MessageRecipients {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n"): typeof import('./graphql').MessageRecipientsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query Notifications($type: NotificationType, $isRead: Boolean, $first: Int, $after: String) {\n    notifications(type: $type, isRead: $isRead, first: $first, after: $after) {\n      edges {\n        node {\n          id\n          title\n          message\n          type\n          isRead\n          createdAt\n          linkTo\n          actionUrl\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n    notificationCount\n  }\n"): typeof import('./graphql').NotificationsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation MarkNotificationAsRead($id: Int!) {\n    markNotificationAsRead(id: $id) {\n      id\n      isRead\n    }\n  }\n"): typeof import('./graphql').MarkNotificationAsReadDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation MarkAllNotificationsAsRead {\n    markAllNotificationsAsRead\n  }\n"): typeof import('./graphql').MarkAllNotificationsAsReadDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyNotes {\n    myNotes {\n      id\n      message\n      fromUserId\n      toEmployeeId\n      toAll\n      isRead\n      createdAt\n    }\n  }\n"): typeof import('./graphql').MyNotesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation MarkNoteAsRead($id: Int!) {\n    markNoteAsRead(id: $id) {\n      id\n      isRead\n    }\n  }\n"): typeof import('./graphql').MarkNoteAsReadDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query OrgChart($rootUserId: Int) {\n    orgChart(rootUserId: $rootUserId) {\n      id\n      parentId\n      userId\n      employeeId\n      managerId\n      name\n      role\n      avatar\n      level\n      directReports\n      headcount\n    }\n  }\n"): typeof import('./graphql').OrgChartDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SetEmployeeManager($employeeId: Int!, $managerUserId: Int) {\n    setEmployeeManager(employeeId: $employeeId, managerUserId: $managerUserId) {\n      id\n      managerId\n    }\n  }\n"): typeof import('./graphql').SetEmployeeManagerDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query EmailPreferences {\n    me {\n      id\n      emailNotifications\n    }\n  }\n"): typeof import('./graphql').EmailPreferencesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation UpdateEmailPreferences($emailNotifications: Boolean!) {\n    updateEmailPreferences(emailNotifications: $emailNotifications) {\n      id\n      emailNotifications\n    }\n  }\n"): typeof import('./graphql').UpdateEmailPreferencesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyEditableProfile {\n    myProfile {\n      id\n      name\n      email\n      age\n      className\n      attendance\n      role\n      status\n      location\n      lastLogin\n      avatar\n    }\n  }\n"): typeof import('./graphql').MyEditableProfileDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation UpdateMyProfile($input: ProfileUpdateInput!) {\n    updateMyProfile(input: $input) {\n      id\n      name\n      email\n      age\n      location\n      avatar\n    }\n  }\n"): typeof import('./graphql').UpdateMyProfileDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyProfile {\n    myProfile {\n      id\n      name\n      email\n      age\n      className\n      attendance\n      role\n      status\n      location\n      lastLogin\n      avatar\n    }\n  }\n"): typeof import('./graphql').MyProfileDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query ReportEmployees($first: Int, $after: String) {\n    employees(first: $first, after: $after) {\n      edges {\n        node {\n          id\n          name\n          age\n          className\n          subjects\n          attendance\n          role\n          status\n          location\n          lastLogin\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').ReportEmployeesDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query GetReviewRequests($status: ReviewStatus, $first: Int, $after: String) {\n    reviewRequests(status: $status, first: $first, after: $after) {\n      edges {\n        node {\n          id\n          type\n          status\n          requestedByEmail\n          managerReasonType\n          managerReasonText\n          visibleToEmployee\n          adminComment\n          reviewedAt\n          createdAt\n          employee {\n            id\n            name\n            email\n            role\n            status\n            attendance\n            avatar\n          }\n        }\n      }\n      pageInfo {\n        hasNextPage\n        endCursor\n      }\n      totalCount\n    }\n  }\n"): typeof import('./graphql').GetReviewRequestsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ReviewDecision($input: ReviewDecisionInput!) {\n    reviewDecision(input: $input) {\n      id\n      status\n    }\n  }\n"): typeof import('./graphql').ReviewDecisionDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  fragment RoleFields on Role {\n    id\n    key\n    name\n    description\n    isSystem\n    permissions {\n      permission\n      scope\n    }\n    userCount\n  }\n"): typeof import('./graphql').RoleFieldsFragmentDoc;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query RolesAndPermissions {\n    roles {\n      ...RoleFields\n    }\n    permissions {\n      key\n      category\n      description\n      scopes\n    }\n  }\n"): typeof import('./graphql').RolesAndPermissionsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query RoleAssignmentUsers {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n"): typeof import('./graphql').RoleAssignmentUsersDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation CreateRole($input: RoleInput!) {\n    createRole(input: $input) {\n      ...RoleFields\n    }\n  }\n"): typeof import('./graphql').CreateRoleDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation UpdateRole($id: Int!, $input: RoleInput!) {\n    updateRole(id: $id, input: $input) {\n      ...RoleFields\n    }\n  }\n"): typeof import('./graphql').UpdateRoleDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation DeleteRole($id: Int!) {\n    deleteRole(id: $id)\n  }\n"): typeof import('./graphql').DeleteRoleDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SetUserRole($userId: Int!, $role: String!) {\n    setUserRole(userId: $userId, role: $role) {\n      id\n      role\n    }\n  }\n"): typeof import('./graphql').SetUserRoleDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query NoteRecipients {\n    allUsers {\n      id\n      email\n      role\n    }\n  }\n"): typeof import('./graphql').NoteRecipientsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SendNote($input: NoteInput!) {\n    sendNote(input: $input) {\n      id\n      message\n      toAll\n    }\n  }\n"): typeof import('./graphql').SendNoteDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ChangePassword($currentPassword: String!, $newPassword: String!) {\n    changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {\n      success\n      message\n      accessToken\n      fieldErrors {\n        field\n        code\n        message\n      }\n    }\n  }\n"): typeof import('./graphql').ChangePasswordDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query MyTwoFactorStatus {\n    me {\n      id\n      twoFAEnabled\n    }\n  }\n"): typeof import('./graphql').MyTwoFactorStatusDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation Setup2FA {\n    setup2FA {\n      otpauthUrl\n      qrCode\n      recoveryCodes\n    }\n  }\n"): typeof import('./graphql').Setup2FaDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation Verify2FA($code: String!) {\n    verify2FA(code: $code)\n  }\n"): typeof import('./graphql').Verify2FaDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation SendSlackNotification($webhookUrl: String!, $text: String!) {\n    sendSlackNotification(webhookUrl: $webhookUrl, text: $text) { success }\n  }\n"): typeof import('./graphql').SendSlackNotificationDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query DashboardStats {\n    dashboardStats {\n      totalUsers\n      activeUsers\n      blockedUsers\n      recentLogins\n      roleDistribution {\n        directors\n        managers\n        employees\n      }\n      recentActions {\n        id\n        action\n        reason\n        blockedUntil\n        createdAt\n        user {\n          email\n        }\n        admin {\n          email\n        }\n      }\n    }\n  }\n"): typeof import('./graphql').DashboardStatsDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  query AllUsers($searchTerm: String, $roleFilter: String, $statusFilter: String) {\n    allUsers(searchTerm: $searchTerm, roleFilter: $roleFilter, statusFilter: $statusFilter) {\n      id\n      email\n      role\n      createdAt\n      isActive\n      twoFAEnabled\n    }\n  }\n"): typeof import('./graphql').AllUsersDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation DeleteUser($id: Int!) {\n    deleteUser(id: $id)\n  }\n"): typeof import('./graphql').DeleteUserDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation ToggleUserAccess($id: Int!, $isActive: Boolean!, $reason: String, $blockedUntil: String) {\n    toggleUserAccess(id: $id, isActive: $isActive, reason: $reason, blockedUntil: $blockedUntil)\n  }\n"): typeof import('./graphql').ToggleUserAccessDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation Reset2FA($userId: Int!) {\n    reset2FA(userId: $userId)\n  }\n"): typeof import('./graphql').Reset2FaDocument;
+/**
+ * The graphql function is used to parse GraphQL queries into a document that can be used by GraphQL clients.
+ */
+export function graphql(source: "\n  mutation BulkToggleAccess($userIds: [Int!]!, $isActive: Boolean!, $reason: String) {\n    bulkToggleAccess(userIds: $userIds, isActive: $isActive, reason: $reason)\n  }\n"): typeof import('./graphql').BulkToggleAccessDocument;
+
+
+export function graphql(source: string) {
+  return (documents as any)[source] ?? {};
+}
@@ -0,0 +1,3024 @@
+/* eslint-disable */
+import type { DocumentTypeDecoration } from '@graphql-typed-document-node/core';
+export type Maybe<T> = T | null;
+export type InputMaybe<T> = Maybe<T>;
+export type Exact<T extends { [key: string]: unknown }> = { [K in keyof T]: T[K] };
+export type MakeOptional<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]?: Maybe<T[SubKey]> };
+export type MakeMaybe<T, K extends keyof T> = Omit<T, K> & { [SubKey in K]: Maybe<T[SubKey]> };
+export type MakeEmpty<T extends { [key: string]: unknown }, K extends keyof T> = { [_ in K]?: never };
+export type Incremental<T> = T | { [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never };
+/** All built-in and custom scalars, mapped to their actual values */
+export type Scalars = {
+  ID: { input: string; output: string; }
+  String: { input: string; output: string; }
+  Boolean: { input: boolean; output: boolean; }
+  Int: { input: number; output: number; }
+  Float: { input: number; output: number; }
+};
+
+export type AccessControlLog = {
+  action: Scalars['String']['output'];
+  admin: User;
+  adminId: Scalars['Int']['output'];
+  blockedUntil: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  reason: Maybe<Scalars['String']['output']>;
+  user: User;
+  userId: Scalars['Int']['output'];
+};
+
+export type AccessLog = {
+  action: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  details: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  impersonatorEmail: Maybe<Scalars['String']['output']>;
+  impersonatorId: Maybe<Scalars['Int']['output']>;
+  ipAddress: Maybe<Scalars['String']['output']>;
+  userEmail: Scalars['String']['output'];
+  userId: Scalars['Int']['output'];
+};
+
+export type AccessLogConnection = {
+  edges: Array<AccessLogEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type AccessLogEdge = {
+  cursor: Scalars['String']['output'];
+  node: AccessLog;
+};
+
+export type ApiKey = {
+  allowedIps: Array<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  createdByEmail: Maybe<Scalars['String']['output']>;
+  createdById: Scalars['Int']['output'];
+  expiresAt: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  lastUsedAt: Maybe<Scalars['String']['output']>;
+  lastUsedIp: Maybe<Scalars['String']['output']>;
+  name: Scalars['String']['output'];
+  prefix: Scalars['String']['output'];
+  revokedAt: Maybe<Scalars['String']['output']>;
+  scopes: Array<Scalars['String']['output']>;
+  status: Scalars['String']['output'];
+};
+
+export type ApiKeyInput = {
+  allowedIps?: InputMaybe<Array<Scalars['String']['input']>>;
+  expiresInDays?: InputMaybe<Scalars['Int']['input']>;
+  name: Scalars['String']['input'];
+  scopes: Array<Scalars['String']['input']>;
+};
+
+export type ApiKeyResult = {
+  apiKey: ApiKey;
+  key: Scalars['String']['output'];
+};
+
+export type ApprovalDelegation = {
+  createdAt: Scalars['String']['output'];
+  delegateEmail: Maybe<Scalars['String']['output']>;
+  delegateId: Scalars['Int']['output'];
+  endDate: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  isActive: Scalars['Boolean']['output'];
+  managerEmail: Maybe<Scalars['String']['output']>;
+  managerId: Scalars['Int']['output'];
+  permissions: Array<Scalars['String']['output']>;
+  reason: Maybe<Scalars['String']['output']>;
+  revokedAt: Maybe<Scalars['String']['output']>;
+  startDate: Maybe<Scalars['String']['output']>;
+  whileOnLeave: Scalars['Boolean']['output'];
+};
+
+export type ApprovalDelegationInput = {
+  delegateId: Scalars['Int']['input'];
+  endDate?: InputMaybe<Scalars['String']['input']>;
+  reason?: InputMaybe<Scalars['String']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type Conversation = {
+  conversationId: Scalars['String']['output'];
+  lastMessage: Scalars['String']['output'];
+  lastMessageTime: Scalars['String']['output'];
+  participant: Scalars['String']['output'];
+  participantRole: Scalars['String']['output'];
+  unreadCount: Scalars['Int']['output'];
+};
+
+export type CreateNotificationInput = {
+  linkTo?: InputMaybe<Scalars['String']['input']>;
+  message: Scalars['String']['input'];
+  recipientRole?: InputMaybe<Scalars['String']['input']>;
+  recipientUserId?: InputMaybe<Scalars['Int']['input']>;
+  title: Scalars['String']['input'];
+  type: NotificationType;
+};
+
+export type CreateReviewRequestInput = {
+  employeeId: Scalars['Int']['input'];
+  managerReasonText: Scalars['String']['input'];
+  managerReasonType: Scalars['String']['input'];
+  type: ReviewType;
+  visibleToEmployee: Scalars['Boolean']['input'];
+};
+
+export type DashboardStats = {
+  activeUsers: Scalars['Int']['output'];
+  blockedUsers: Scalars['Int']['output'];
+  recentActions: Array<AccessControlLog>;
+  recentLogins: Scalars['Int']['output'];
+  roleDistribution: RoleDistribution;
+  totalUsers: Scalars['Int']['output'];
+};
+
+export type Employee = {
+  age: Maybe<Scalars['Int']['output']>;
+  attendance: Maybe<Scalars['Int']['output']>;
+  avatar: Maybe<Scalars['String']['output']>;
+  className: Maybe<Scalars['String']['output']>;
+  createdAt: Maybe<Scalars['String']['output']>;
+  email: Maybe<Scalars['String']['output']>;
+  flagged: Maybe<Scalars['Boolean']['output']>;
+  id: Scalars['Int']['output'];
+  lastLogin: Maybe<Scalars['String']['output']>;
+  location: Scalars['String']['output'];
+  managerId: Maybe<Scalars['Int']['output']>;
+  name: Scalars['String']['output'];
+  role: Scalars['String']['output'];
+  status: Maybe<EmployeeStatus>;
+  subjects: Maybe<Array<Scalars['String']['output']>>;
+  updatedAt: Maybe<Scalars['String']['output']>;
+  userId: Maybe<Scalars['Int']['output']>;
+};
+
+export type EmployeeConnection = {
+  edges: Array<EmployeeEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type EmployeeEdge = {
+  cursor: Scalars['String']['output'];
+  node: Employee;
+};
+
+export type EmployeeFilter = {
+  attendanceMax?: InputMaybe<Scalars['Int']['input']>;
+  attendanceMin?: InputMaybe<Scalars['Int']['input']>;
+  className?: InputMaybe<Scalars['String']['input']>;
+  emailContains?: InputMaybe<Scalars['String']['input']>;
+  hasLogin?: InputMaybe<Scalars['Boolean']['input']>;
+  location?: InputMaybe<Scalars['String']['input']>;
+  nameContains?: InputMaybe<Scalars['String']['input']>;
+  role?: InputMaybe<Scalars['String']['input']>;
+  roleNot?: InputMaybe<Scalars['String']['input']>;
+  status?: InputMaybe<EmployeeStatus>;
+};
+
+export type EmployeeInput = {
+  age: Scalars['Int']['input'];
+  attendance: Scalars['Int']['input'];
+  avatar?: InputMaybe<Scalars['String']['input']>;
+  className: Scalars['String']['input'];
+  email?: InputMaybe<Scalars['String']['input']>;
+  flagged?: InputMaybe<Scalars['Boolean']['input']>;
+  lastLogin: Scalars['String']['input'];
+  location: Scalars['String']['input'];
+  managerId?: InputMaybe<Scalars['Int']['input']>;
+  name: Scalars['String']['input'];
+  role: Scalars['String']['input'];
+  status: EmployeeStatus;
+  subjects: Array<Scalars['String']['input']>;
+  userId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type EmployeePerformanceStats = {
+  attendance: Scalars['Int']['output'];
+  employeeId: Scalars['Int']['output'];
+  flagged: Scalars['Boolean']['output'];
+  lastReviewDate: Maybe<Scalars['String']['output']>;
+  name: Scalars['String']['output'];
+  notesCount: Scalars['Int']['output'];
+  reviewCount: Scalars['Int']['output'];
+  status: EmployeeStatus;
+};
+
+export type EmployeeSortBy =
+  | 'AGE'
+  | 'ATTENDANCE'
+  | 'CREATED_AT'
+  | 'NAME';
+
+export type EmployeeStatus =
+  | 'ACTIVE'
+  | 'FLAGGED'
+  | 'ON_LEAVE'
+  | 'TERMINATED'
+  | 'TERMINATION_REQUESTED'
+  | 'UNDER_REVIEW';
+
+export type FieldError = {
+  code: Scalars['String']['output'];
+  field: Scalars['String']['output'];
+  message: Scalars['String']['output'];
+};
+
+export type GenerateLoginsResult = {
+  created: Scalars['Int']['output'];
+  credentials: Array<GeneratedLogin>;
+  failed: Scalars['Int']['output'];
+  message: Scalars['String']['output'];
+  skipped: Scalars['Int']['output'];
+  success: Scalars['Boolean']['output'];
+};
+
+export type GeneratedLogin = {
+  email: Scalars['String']['output'];
+  employeeId: Scalars['Int']['output'];
+  temporaryPassword: Scalars['String']['output'];
+};
+
+export type ImpersonationResult = {
+  accessToken: Scalars['String']['output'];
+  session: ImpersonationSession;
+  user: User;
+};
+
+export type ImpersonationSession = {
+  actorEmail: Maybe<Scalars['String']['output']>;
+  actorId: Scalars['Int']['output'];
+  createdAt: Scalars['String']['output'];
+  endedAt: Maybe<Scalars['String']['output']>;
+  expiresAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  readOnly: Scalars['Boolean']['output'];
+  reason: Scalars['String']['output'];
+  targetEmail: Maybe<Scalars['String']['output']>;
+  targetUserId: Scalars['Int']['output'];
+};
+
+export type Invitation = {
+  acceptedAt: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  email: Scalars['String']['output'];
+  expiresAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  invitedByEmail: Maybe<Scalars['String']['output']>;
+  invitedById: Scalars['Int']['output'];
+  managerId: Maybe<Scalars['Int']['output']>;
+  name: Maybe<Scalars['String']['output']>;
+  revokedAt: Maybe<Scalars['String']['output']>;
+  role: Scalars['String']['output'];
+  status: Scalars['String']['output'];
+};
+
+export type InvitationInput = {
+  email: Scalars['String']['input'];
+  expiresInDays?: InputMaybe<Scalars['Int']['input']>;
+  managerId?: InputMaybe<Scalars['Int']['input']>;
+  name?: InputMaybe<Scalars['String']['input']>;
+  role: Scalars['String']['input'];
+};
+
+export type InvitationResult = {
+  invitation: Invitation;
+  inviteLink: Scalars['String']['output'];
+};
+
+export type LeaveRequest = {
+  adminNote: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  employeeId: Scalars['Int']['output'];
+  employeeName: Maybe<Scalars['String']['output']>;
+  endDate: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  reason: Scalars['String']['output'];
+  startDate: Scalars['String']['output'];
+  status: LeaveStatus;
+  type: Maybe<LeaveType>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type LeaveRequestInput = {
+  endDate: Scalars['String']['input'];
+  reason: Scalars['String']['input'];
+  startDate: Scalars['String']['input'];
+  type?: InputMaybe<LeaveType>;
+};
+
+export type LeaveStatus =
+  | 'APPROVED'
+  | 'PENDING'
+  | 'PENDING_DIRECTOR'
+  | 'REJECTED';
+
+export type LeaveType =
+  | 'ANNUAL'
+  | 'MATERNITY'
+  | 'MEDICAL_EXTENDED'
+  | 'PATERNITY'
+  | 'SABBATICAL'
+  | 'SICK'
+  | 'SPECIAL';
+
+export type Message = {
+  attachments: Array<Scalars['String']['output']>;
+  conversationId: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  isRead: Scalars['Boolean']['output'];
+  message: Scalars['String']['output'];
+  messageType: Scalars['String']['output'];
+  priority: MessagePriority;
+  readAt: Maybe<Scalars['String']['output']>;
+  recipientEmail: Maybe<Scalars['String']['output']>;
+  recipientId: Maybe<Scalars['Int']['output']>;
+  recipientRole: Maybe<Scalars['String']['output']>;
+  replyToId: Maybe<Scalars['Int']['output']>;
+  senderEmail: Scalars['String']['output'];
+  senderId: Scalars['Int']['output'];
+  senderRole: Scalars['String']['output'];
+  subject: Maybe<Scalars['String']['output']>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type MessageConnection = {
+  edges: Array<MessageEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type MessageEdge = {
+  cursor: Scalars['String']['output'];
+  node: Message;
+};
+
+export type MessagePriority =
+  | 'HIGH'
+  | 'LOW'
+  | 'NORMAL'
+  | 'URGENT';
+
+export type MessageStats = {
+  conversations: Scalars['Int']['output'];
+  total: Scalars['Int']['output'];
+  unread: Scalars['Int']['output'];
+};
+
+export type Mutation = {
+  addEmployee: Employee;
+  bulkToggleAccess: Scalars['Boolean']['output'];
+  changePassword: PasswordChangeResult;
+  createApiKey: ApiKeyResult;
+  createDelegation: ApprovalDelegation;
+  createInvitation: InvitationResult;
+  createLeaveRequest: LeaveRequest;
+  createNotification: Notification;
+  createReviewRequest: ReviewRequest;
+  createRole: Role;
+  deleteEmployee: Scalars['Boolean']['output'];
+  deleteMessage: Scalars['Boolean']['output'];
+  deleteNotification: Scalars['Boolean']['output'];
+  deleteRole: Scalars['Boolean']['output'];
+  deleteUser: Scalars['Boolean']['output'];
+  endImpersonation: Scalars['Boolean']['output'];
+  flagEmployee: Employee;
+  generateEmployeeLogins: GenerateLoginsResult;
+  logAccess: AccessLog;
+  markAllNotificationsAsRead: Scalars['Boolean']['output'];
+  markConversationAsRead: Scalars['Boolean']['output'];
+  markMessageAsRead: Message;
+  markNoteAsRead: Note;
+  markNotificationAsRead: Notification;
+  resendInvitation: InvitationResult;
+  reset2FA: Scalars['Boolean']['output'];
+  reviewDecision: ReviewRequest;
+  revokeAllOtherSessions: Scalars['Int']['output'];
+  revokeApiKey: ApiKey;
+  revokeDelegation: ApprovalDelegation;
+  revokeInvitation: Invitation;
+  revokeSession: Scalars['Boolean']['output'];
+  revokeUserSessions: Scalars['Int']['output'];
+  sendMessage: Message;
+  sendNote: Note;
+  sendSlackNotification: SlackNotificationResult;
+  sendThreadMessage: ThreadMessage;
+  setEmployeeManager: Employee;
+  setUserRole: User;
+  setup2FA: TwoFaSetupResult;
+  startImpersonation: ImpersonationResult;
+  terminateEmployee: Employee;
+  toggleUserAccess: Scalars['Boolean']['output'];
+  updateEmailPreferences: User;
+  updateEmployee: Employee;
+  updateLeaveRequestStatus: LeaveRequest;
+  updateMyProfile: Employee;
+  updateRole: Role;
+  verify2FA: Scalars['Boolean']['output'];
+};
+
+
+export type MutationAddEmployeeArgs = {
+  input: EmployeeInput;
+};
+
+
+export type MutationBulkToggleAccessArgs = {
+  isActive: Scalars['Boolean']['input'];
+  reason?: InputMaybe<Scalars['String']['input']>;
+  userIds: Array<Scalars['Int']['input']>;
+};
+
+
+export type MutationChangePasswordArgs = {
+  currentPassword: Scalars['String']['input'];
+  newPassword: Scalars['String']['input'];
+};
+
+
+export type MutationCreateApiKeyArgs = {
+  input: ApiKeyInput;
+};
+
+
+export type MutationCreateDelegationArgs = {
+  input: ApprovalDelegationInput;
+};
+
+
+export type MutationCreateInvitationArgs = {
+  input: InvitationInput;
+};
+
+
+export type MutationCreateLeaveRequestArgs = {
+  input: LeaveRequestInput;
+};
+
+
+export type MutationCreateNotificationArgs = {
+  input: CreateNotificationInput;
+};
+
+
+export type MutationCreateReviewRequestArgs = {
+  input: CreateReviewRequestInput;
+};
+
+
+export type MutationCreateRoleArgs = {
+  input: RoleInput;
+};
+
+
+export type MutationDeleteEmployeeArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteMessageArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteNotificationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteRoleArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationDeleteUserArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationFlagEmployeeArgs = {
+  flagged: Scalars['Boolean']['input'];
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationLogAccessArgs = {
+  action: Scalars['String']['input'];
+  details?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type MutationMarkConversationAsReadArgs = {
+  conversationId: Scalars['String']['input'];
+};
+
+
+export type MutationMarkMessageAsReadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationMarkNoteAsReadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationMarkNotificationAsReadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationResendInvitationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationReset2FaArgs = {
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationReviewDecisionArgs = {
+  input: ReviewDecisionInput;
+};
+
+
+export type MutationRevokeApiKeyArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationRevokeDelegationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationRevokeInvitationArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationRevokeSessionArgs = {
+  id: Scalars['String']['input'];
+};
+
+
+export type MutationRevokeUserSessionsArgs = {
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationSendMessageArgs = {
+  input: SendMessageInput;
+};
+
+
+export type MutationSendNoteArgs = {
+  input: NoteInput;
+};
+
+
+export type MutationSendSlackNotificationArgs = {
+  text: Scalars['String']['input'];
+  webhookUrl: Scalars['String']['input'];
+};
+
+
+export type MutationSendThreadMessageArgs = {
+  input: SendThreadMessageInput;
+};
+
+
+export type MutationSetEmployeeManagerArgs = {
+  employeeId: Scalars['Int']['input'];
+  managerUserId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type MutationSetUserRoleArgs = {
+  role: Scalars['String']['input'];
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationStartImpersonationArgs = {
+  minutes?: InputMaybe<Scalars['Int']['input']>;
+  readOnly?: InputMaybe<Scalars['Boolean']['input']>;
+  reason: Scalars['String']['input'];
+  userId: Scalars['Int']['input'];
+};
+
+
+export type MutationTerminateEmployeeArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type MutationToggleUserAccessArgs = {
+  blockedUntil?: InputMaybe<Scalars['String']['input']>;
+  id: Scalars['Int']['input'];
+  isActive: Scalars['Boolean']['input'];
+  reason?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type MutationUpdateEmailPreferencesArgs = {
+  emailNotifications: Scalars['Boolean']['input'];
+};
+
+
+export type MutationUpdateEmployeeArgs = {
+  id: Scalars['Int']['input'];
+  input: EmployeeInput;
+};
+
+
+export type MutationUpdateLeaveRequestStatusArgs = {
+  adminNote?: InputMaybe<Scalars['String']['input']>;
+  id: Scalars['Int']['input'];
+  status: LeaveStatus;
+};
+
+
+export type MutationUpdateMyProfileArgs = {
+  input: ProfileUpdateInput;
+};
+
+
+export type MutationUpdateRoleArgs = {
+  id: Scalars['Int']['input'];
+  input: RoleInput;
+};
+
+
+export type MutationVerify2FaArgs = {
+  code: Scalars['String']['input'];
+};
+
+export type Note = {
+  createdAt: Scalars['String']['output'];
+  fromUserId: Scalars['Int']['output'];
+  id: Scalars['Int']['output'];
+  isRead: Scalars['Boolean']['output'];
+  message: Scalars['String']['output'];
+  toAll: Scalars['Boolean']['output'];
+  toEmployeeId: Maybe<Scalars['Int']['output']>;
+};
+
+export type NoteInput = {
+  message: Scalars['String']['input'];
+  toAll?: InputMaybe<Scalars['Boolean']['input']>;
+  toEmployeeId?: InputMaybe<Scalars['Int']['input']>;
+  toUserId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type Notification = {
+  actionUrl: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  isRead: Scalars['Boolean']['output'];
+  linkTo: Maybe<Scalars['String']['output']>;
+  message: Scalars['String']['output'];
+  readAt: Maybe<Scalars['String']['output']>;
+  title: Scalars['String']['output'];
+  type: NotificationType;
+  updatedAt: Scalars['String']['output'];
+  userEmail: Scalars['String']['output'];
+  userId: Scalars['Int']['output'];
+};
+
+export type NotificationConnection = {
+  edges: Array<NotificationEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type NotificationEdge = {
+  cursor: Scalars['String']['output'];
+  node: Notification;
+};
+
+export type NotificationType =
+  | 'APPROVAL'
+  | 'CRITICAL'
+  | 'INFO'
+  | 'LEAVE'
+  | 'MESSAGE'
+  | 'WARNING';
+
+export type OrgChartNode = {
+  avatar: Maybe<Scalars['String']['output']>;
+  directReports: Scalars['Int']['output'];
+  employeeId: Maybe<Scalars['Int']['output']>;
+  headcount: Scalars['Int']['output'];
+  id: Scalars['String']['output'];
+  level: Scalars['Int']['output'];
+  managerId: Maybe<Scalars['Int']['output']>;
+  name: Scalars['String']['output'];
+  parentId: Maybe<Scalars['String']['output']>;
+  role: Scalars['String']['output'];
+  userId: Maybe<Scalars['Int']['output']>;
+};
+
+export type PageInfo = {
+  endCursor: Maybe<Scalars['String']['output']>;
+  hasNextPage: Scalars['Boolean']['output'];
+  hasPreviousPage: Scalars['Boolean']['output'];
+  startCursor: Maybe<Scalars['String']['output']>;
+};
+
+export type PasswordChangeResult = {
+  accessToken: Maybe<Scalars['String']['output']>;
+  fieldErrors: Maybe<Array<FieldError>>;
+  message: Scalars['String']['output'];
+  success: Scalars['Boolean']['output'];
+};
+
+export type Permission = {
+  category: Scalars['String']['output'];
+  description: Scalars['String']['output'];
+  key: Scalars['String']['output'];
+  scopes: Array<Scalars['String']['output']>;
+};
+
+export type ProfileUpdateInput = {
+  age?: InputMaybe<Scalars['Int']['input']>;
+  avatar?: InputMaybe<Scalars['String']['input']>;
+  email?: InputMaybe<Scalars['String']['input']>;
+  location?: InputMaybe<Scalars['String']['input']>;
+  name?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type Query = {
+  accessControlLogs: Array<AccessControlLog>;
+  accessLogs: AccessLogConnection;
+  adminUsers: Array<User>;
+  allUsers: Array<User>;
+  apiKeyScopes: Array<Scalars['String']['output']>;
+  apiKeys: Array<ApiKey>;
+  dashboardStats: DashboardStats;
+  delegationsToMe: Array<ApprovalDelegation>;
+  employee: Maybe<Employee>;
+  employeePerformanceStats: Maybe<EmployeePerformanceStats>;
+  employees: EmployeeConnection;
+  invitations: Array<Invitation>;
+  leaveRequests: Array<LeaveRequest>;
+  me: Maybe<User>;
+  messageStats: MessageStats;
+  messages: Array<Message>;
+  myConversations: Array<Conversation>;
+  myDelegations: Array<ApprovalDelegation>;
+  myLeaveRequests: Array<LeaveRequest>;
+  myMessages: MessageConnection;
+  myNotes: Array<Note>;
+  myPermissions: Array<RolePermission>;
+  myProfile: Maybe<Employee>;
+  myReviewRequests: Array<ReviewRequest>;
+  mySessions: Array<Session>;
+  myThreads: ThreadConnection;
+  notes: Array<Note>;
+  notificationCount: Scalars['Int']['output'];
+  notifications: NotificationConnection;
+  orgChart: Array<OrgChartNode>;
+  permissions: Array<Permission>;
+  reportingChain: Array<ReportingChainLink>;
+  reviewRequest: Maybe<ReviewRequest>;
+  reviewRequests: ReviewRequestConnection;
+  roles: Array<Role>;
+  subordinates: Array<Subordinate>;
+  thread: Maybe<Thread>;
+  threads: Array<Thread>;
+  unreadNotifications: Array<Notification>;
+  userSessions: Array<Session>;
+  userStatistics: Array<UserStatistics>;
+};
+
+
+export type QueryAccessControlLogsArgs = {
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  userId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryAccessLogsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryAllUsersArgs = {
+  roleFilter?: InputMaybe<Scalars['String']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  statusFilter?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryEmployeeArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type QueryEmployeePerformanceStatsArgs = {
+  employeeId: Scalars['Int']['input'];
+};
+
+
+export type QueryEmployeesArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  filter?: InputMaybe<EmployeeFilter>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  sortBy?: InputMaybe<EmployeeSortBy>;
+  sortOrder?: InputMaybe<SortOrder>;
+};
+
+
+export type QueryInvitationsArgs = {
+  status?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryLeaveRequestsArgs = {
+  status?: InputMaybe<LeaveStatus>;
+};
+
+
+export type QueryMessagesArgs = {
+  conversationId?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryMyMessagesArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryMyThreadsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryNotesArgs = {
+  employeeId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryNotificationsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  isRead?: InputMaybe<Scalars['Boolean']['input']>;
+  type?: InputMaybe<NotificationType>;
+};
+
+
+export type QueryOrgChartArgs = {
+  rootUserId?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryReportingChainArgs = {
+  employeeId: Scalars['Int']['input'];
+};
+
+
+export type QueryReviewRequestArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type QueryReviewRequestsArgs = {
+  after?: InputMaybe<Scalars['String']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  status?: InputMaybe<ReviewStatus>;
+};
+
+
+export type QuerySubordinatesArgs = {
+  depth?: InputMaybe<Scalars['Int']['input']>;
+  userId: Scalars['Int']['input'];
+};
+
+
+export type QueryThreadArgs = {
+  id: Scalars['Int']['input'];
+};
+
+
+export type QueryUserSessionsArgs = {
+  userId: Scalars['Int']['input'];
+};
+
+
+export type QueryUserStatisticsArgs = {
+  days?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type ReportingChainLink = {
+  email: Scalars['String']['output'];
+  employee: Maybe<Employee>;
+  level: Scalars['Int']['output'];
+  role: Scalars['String']['output'];
+  userId: Scalars['Int']['output'];
+};
+
+export type ReviewDecision =
+  | 'APPROVED'
+  | 'REJECTED';
+
+export type ReviewDecisionInput = {
+  adminComment: Scalars['String']['input'];
+  decision: ReviewDecision;
+  requestId: Scalars['Int']['input'];
+};
+
+export type ReviewRequest = {
+  adminComment: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  employee: Employee;
+  employeeId: Scalars['Int']['output'];
+  id: Scalars['Int']['output'];
+  managerReasonText: Scalars['String']['output'];
+  managerReasonType: Scalars['String']['output'];
+  requestedByEmail: Scalars['String']['output'];
+  requestedByManagerId: Scalars['Int']['output'];
+  reviewedAt: Maybe<Scalars['String']['output']>;
+  reviewedByAdminId: Maybe<Scalars['Int']['output']>;
+  status: ReviewStatus;
+  threadId: Maybe<Scalars['Int']['output']>;
+  type: ReviewType;
+  updatedAt: Scalars['String']['output'];
+  visibleToEmployee: Scalars['Boolean']['output'];
+};
+
+export type ReviewRequestConnection = {
+  edges: Array<ReviewRequestEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type ReviewRequestEdge = {
+  cursor: Scalars['String']['output'];
+  node: ReviewRequest;
+};
+
+export type ReviewStatus =
+  | 'APPROVED'
+  | 'PENDING'
+  | 'REJECTED';
+
+export type ReviewType =
+  | 'FLAG'
+  | 'TERMINATE';
+
+export type Role = {
+  createdAt: Scalars['String']['output'];
+  description: Maybe<Scalars['String']['output']>;
+  id: Scalars['Int']['output'];
+  isSystem: Scalars['Boolean']['output'];
+  key: Scalars['String']['output'];
+  name: Scalars['String']['output'];
+  permissions: Array<RolePermission>;
+  updatedAt: Scalars['String']['output'];
+  userCount: Scalars['Int']['output'];
+};
+
+export type RoleDistribution = {
+  directors: Scalars['Int']['output'];
+  employees: Scalars['Int']['output'];
+  managers: Scalars['Int']['output'];
+};
+
+export type RoleInput = {
+  description?: InputMaybe<Scalars['String']['input']>;
+  key?: InputMaybe<Scalars['String']['input']>;
+  name: Scalars['String']['input'];
+  permissions: Array<RolePermissionInput>;
+};
+
+export type RolePermission = {
+  permission: Scalars['String']['output'];
+  scope: Scalars['String']['output'];
+};
+
+export type RolePermissionInput = {
+  permission: Scalars['String']['input'];
+  scope?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type SendMessageInput = {
+  message: Scalars['String']['input'];
+  priority?: InputMaybe<MessagePriority>;
+  recipientId?: InputMaybe<Scalars['Int']['input']>;
+  recipientRole?: InputMaybe<Scalars['String']['input']>;
+  replyToId?: InputMaybe<Scalars['Int']['input']>;
+  subject?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type SendThreadMessageInput = {
+  body: Scalars['String']['input'];
+  linkedEmployeeId?: InputMaybe<Scalars['Int']['input']>;
+  linkedRequestId?: InputMaybe<Scalars['Int']['input']>;
+  recipientUserIds?: InputMaybe<Array<Scalars['Int']['input']>>;
+  threadId?: InputMaybe<Scalars['Int']['input']>;
+  title?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type Session = {
+  createdAt: Scalars['String']['output'];
+  current: Scalars['Boolean']['output'];
+  id: Scalars['String']['output'];
+  ipAddress: Maybe<Scalars['String']['output']>;
+  lastUsedAt: Scalars['String']['output'];
+  userAgent: Maybe<Scalars['String']['output']>;
+};
+
+export type SlackNotificationResult = {
+  success: Scalars['Boolean']['output'];
+};
+
+export type SortOrder =
+  | 'ASC'
+  | 'DESC';
+
+export type Subordinate = {
+  employee: Employee;
+  level: Scalars['Int']['output'];
+};
+
+export type Subscription = {
+  leaveRequestUpdated: LeaveRequest;
+  messageReceived: Message;
+  notificationAdded: Notification;
+  threadMessageAdded: ThreadMessage;
+};
+
+
+export type SubscriptionMessageReceivedArgs = {
+  conversationId?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type SubscriptionThreadMessageAddedArgs = {
+  threadId: Scalars['Int']['input'];
+};
+
+export type Thread = {
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  lastMessage: Maybe<ThreadMessage>;
+  linkedEmployeeId: Maybe<Scalars['Int']['output']>;
+  linkedRequestId: Maybe<Scalars['Int']['output']>;
+  messageCount: Scalars['Int']['output'];
+  messages: Array<ThreadMessage>;
+  participants: Array<Scalars['Int']['output']>;
+  title: Maybe<Scalars['String']['output']>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type ThreadConnection = {
+  edges: Array<ThreadEdge>;
+  pageInfo: PageInfo;
+  totalCount: Scalars['Int']['output'];
+};
+
+export type ThreadEdge = {
+  cursor: Scalars['String']['output'];
+  node: Thread;
+};
+
+export type ThreadMessage = {
+  body: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  id: Scalars['Int']['output'];
+  senderEmail: Scalars['String']['output'];
+  senderId: Scalars['Int']['output'];
+  senderRole: Scalars['String']['output'];
+  threadId: Scalars['Int']['output'];
+  type: Scalars['String']['output'];
+};
+
+export type TwoFaSetupResult = {
+  otpauthUrl: Scalars['String']['output'];
+  qrCode: Scalars['String']['output'];
+  recoveryCodes: Array<Scalars['String']['output']>;
+};
+
+export type User = {
+  accessBlockReason: Maybe<Scalars['String']['output']>;
+  accessBlockedUntil: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  email: Scalars['String']['output'];
+  emailNotifications: Maybe<Scalars['Boolean']['output']>;
+  failedLoginAttempts: Maybe<Scalars['Int']['output']>;
+  id: Scalars['Int']['output'];
+  isActive: Maybe<Scalars['Boolean']['output']>;
+  role: Scalars['String']['output'];
+  twoFAEnabled: Maybe<Scalars['Boolean']['output']>;
+};
+
+export type UserStatistics = {
+  activeUsers: Scalars['Int']['output'];
+  blockedUsers: Scalars['Int']['output'];
+  date: Scalars['String']['output'];
+  directors: Scalars['Int']['output'];
+  employees: Scalars['Int']['output'];
+  failedLoginAttempts: Scalars['Int']['output'];
+  id: Scalars['Int']['output'];
+  loginAttempts: Scalars['Int']['output'];
+  managers: Scalars['Int']['output'];
+  totalUsers: Scalars['Int']['output'];
+};
+
+export type ChangeRequiredPasswordMutationVariables = Exact<{
+  currentPassword: Scalars['String']['input'];
+  newPassword: Scalars['String']['input'];
+}>;
+
+
+export type ChangeRequiredPasswordMutation = { changePassword: { success: boolean, message: string, accessToken: string | null, fieldErrors: Array<{ field: string, code: string, message: string }> | null } };
+
+export type StartImpersonationMutationVariables = Exact<{
+  userId: Scalars['Int']['input'];
+  reason: Scalars['String']['input'];
+  minutes?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type StartImpersonationMutation = { startImpersonation: { accessToken: string, user: { id: number, email: string, role: string }, session: { id: number, actorEmail: string | null, expiresAt: string, readOnly: boolean } } };
+
+export type EndImpersonationMutationVariables = Exact<{ [key: string]: never; }>;
+
+
+export type EndImpersonationMutation = { endImpersonation: boolean };
+
+export type DelegationFieldsFragment = { id: number, managerId: number, managerEmail: string | null, delegateId: number, delegateEmail: string | null, startDate: string | null, endDate: string | null, whileOnLeave: boolean, isActive: boolean, permissions: Array<string>, reason: string | null, revokedAt: string | null, createdAt: string };
+
+export type DelegationsToMeQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type DelegationsToMeQuery = { delegationsToMe: Array<{ id: number, managerId: number, managerEmail: string | null, delegateId: number, delegateEmail: string | null, startDate: string | null, endDate: string | null, whileOnLeave: boolean, isActive: boolean, permissions: Array<string>, reason: string | null, revokedAt: string | null, createdAt: string }> };
+
+export type MyDelegationsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyDelegationsQuery = { myDelegations: Array<{ id: number, managerId: number, managerEmail: string | null, delegateId: number, delegateEmail: string | null, startDate: string | null, endDate: string | null, whileOnLeave: boolean, isActive: boolean, permissions: Array<string>, reason: string | null, revokedAt: string | null, createdAt: string }> };
+
+export type DelegateOptionsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type DelegateOptionsQuery = { allUsers: Array<{ id: number, email: string, role: string }> };
+
+export type CreateDelegationMutationVariables = Exact<{
+  input: ApprovalDelegationInput;
+}>;
+
+
+export type CreateDelegationMutation = { createDelegation: { id: number } };
+
+export type RevokeDelegationMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type RevokeDelegationMutation = { revokeDelegation: { id: number } };
+
+export type GetNotificationsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetNotificationsQuery = { notificationCount: number, unreadNotifications: Array<{ id: number, title: string, message: string, type: NotificationType, linkTo: string | null, createdAt: string }> };
+
+export type NotificationAddedSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type NotificationAddedSubscription = { notificationAdded: { id: number, title: string, message: string, type: NotificationType, linkTo: string | null, createdAt: string } };
+
+export type NotificationBellMarkAsReadMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type NotificationBellMarkAsReadMutation = { markNotificationAsRead: { id: number } };
+
+export type MySessionsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MySessionsQuery = { mySessions: Array<{ id: string, userAgent: string | null, ipAddress: string | null, createdAt: string, lastUsedAt: string, current: boolean }> };
+
+export type UserSessionsQueryVariables = Exact<{
+  userId: Scalars['Int']['input'];
+}>;
+
+
+export type UserSessionsQuery = { userSessions: Array<{ id: string, userAgent: string | null, ipAddress: string | null, createdAt: string, lastUsedAt: string, current: boolean }> };
+
+export type RevokeSessionMutationVariables = Exact<{
+  id: Scalars['String']['input'];
+}>;
+
+
+export type RevokeSessionMutation = { revokeSession: boolean };
+
+export type RevokeAllOtherSessionsMutationVariables = Exact<{ [key: string]: never; }>;
+
+
+export type RevokeAllOtherSessionsMutation = { revokeAllOtherSessions: number };
+
+export type RevokeUserSessionsMutationVariables = Exact<{
+  userId: Scalars['Int']['input'];
+}>;
+
+
+export type RevokeUserSessionsMutation = { revokeUserSessions: number };
+
+export type GetUnreadMessageCountQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetUnreadMessageCountQuery = { messageStats: { unread: number } };
+
+export type MessageReceivedForCountSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MessageReceivedForCountSubscription = { messageReceived: { id: number, senderId: number } };
+
+export type MyProfileMiniQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyProfileMiniQuery = { myProfile: { name: string, avatar: string | null } | null };
+
+export type MyPermissionsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyPermissionsQuery = { myPermissions: Array<{ permission: string, scope: string }> };
+
+export type AccessLogsQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type AccessLogsQuery = { accessLogs: { totalCount: number, edges: Array<{ node: { id: number, userId: number, userEmail: string, impersonatorEmail: string | null, action: string, details: string | null, ipAddress: string | null, createdAt: string } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type AdminUsersQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type AdminUsersQuery = { adminUsers: Array<{ id: number, email: string, role: string, createdAt: string }> };
+
+export type SearchEmployeesQueryVariables = Exact<{
+  filter?: InputMaybe<EmployeeFilter>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+  sortBy?: InputMaybe<EmployeeSortBy>;
+  sortOrder?: InputMaybe<SortOrder>;
+}>;
+
+
+export type SearchEmployeesQuery = { employees: { totalCount: number, edges: Array<{ node: { id: number, name: string, email: string | null, role: string, status: EmployeeStatus | null, location: string, attendance: number | null, age: number | null } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type EmployeeAnalyticsQueryVariables = Exact<{
+  employeeId: Scalars['Int']['input'];
+}>;
+
+
+export type EmployeeAnalyticsQuery = { employeePerformanceStats: { attendance: number, notesCount: number, reviewCount: number, status: EmployeeStatus, flagged: boolean } | null };
+
+export type ApiKeyFieldsFragment = { id: number, name: string, prefix: string, scopes: Array<string>, allowedIps: Array<string>, createdByEmail: string | null, status: string, expiresAt: string | null, lastUsedAt: string | null, lastUsedIp: string | null, createdAt: string };
+
+export type ApiKeysQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type ApiKeysQuery = { apiKeyScopes: Array<string>, apiKeys: Array<{ id: number, name: string, prefix: string, scopes: Array<string>, allowedIps: Array<string>, createdByEmail: string | null, status: string, expiresAt: string | null, lastUsedAt: string | null, lastUsedIp: string | null, createdAt: string }> };
+
+export type CreateApiKeyMutationVariables = Exact<{
+  input: ApiKeyInput;
+}>;
+
+
+export type CreateApiKeyMutation = { createApiKey: { key: string, apiKey: { id: number, name: string, prefix: string, scopes: Array<string>, allowedIps: Array<string>, createdByEmail: string | null, status: string, expiresAt: string | null, lastUsedAt: string | null, lastUsedIp: string | null, createdAt: string } } };
+
+export type RevokeApiKeyMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type RevokeApiKeyMutation = { revokeApiKey: { id: number, status: string } };
+
+export type AuditLogsQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type AuditLogsQuery = { accessLogs: { totalCount: number, edges: Array<{ node: { id: number, userId: number, userEmail: string, impersonatorEmail: string | null, action: string, details: string | null, ipAddress: string | null, createdAt: string } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type DashboardEmployeesQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type DashboardEmployeesQuery = { employees: { totalCount: number, edges: Array<{ node: { id: number, name: string, email: string | null, attendance: number | null, status: EmployeeStatus | null, role: string, flagged: boolean | null, className: string | null, location: string, managerId: number | null, createdAt: string | null, updatedAt: string | null } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type DashboardLeaveRequestsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type DashboardLeaveRequestsQuery = { leaveRequests: Array<{ id: number, employeeId: number, startDate: string, endDate: string, reason: string, status: LeaveStatus }> };
+
+export type DashboardMyLeaveRequestsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type DashboardMyLeaveRequestsQuery = { myLeaveRequests: Array<{ id: number, employeeId: number, startDate: string, endDate: string, reason: string, status: LeaveStatus }> };
+
+export type RecentActivitiesQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type RecentActivitiesQuery = { accessLogs: { edges: Array<{ node: { id: number, action: string, details: string | null, createdAt: string } }> } };
+
+export type MyNotificationsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyNotificationsQuery = { notifications: { edges: Array<{ node: { id: number, title: string, message: string, type: NotificationType, createdAt: string } }> } };
+
+export type DashboardUpdateLeaveRequestStatusMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  status: LeaveStatus;
+  adminNote?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type DashboardUpdateLeaveRequestStatusMutation = { updateLeaveRequestStatus: { id: number, status: LeaveStatus, updatedAt: string } };
+
+export type EmployeeLoginCandidatesQueryVariables = Exact<{
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type EmployeeLoginCandidatesQuery = { employees: { totalCount: number, edges: Array<{ node: { id: number, name: string, email: string | null, userId: number | null, role: string, status: EmployeeStatus | null } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } }, withoutLogin: { totalCount: number } };
+
+export type GenerateEmployeeLoginsMutationVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GenerateEmployeeLoginsMutation = { generateEmployeeLogins: { success: boolean, message: string, created: number, skipped: number, failed: number, credentials: Array<{ employeeId: number, email: string, temporaryPassword: string }> } };
+
+export type EmployeesQueryVariables = Exact<{
+  filter?: InputMaybe<EmployeeFilter>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+  sortBy?: InputMaybe<EmployeeSortBy>;
+  sortOrder?: InputMaybe<SortOrder>;
+}>;
+
+
+export type EmployeesQuery = { employees: { totalCount: number, edges: Array<{ node: { id: number, name: string, age: number | null, className: string | null, subjects: Array<string> | null, attendance: number | null, role: string, status: EmployeeStatus | null, location: string, lastLogin: string | null, createdAt: string | null, updatedAt: string | null } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type TerminateEmployeeMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type TerminateEmployeeMutation = { terminateEmployee: { id: number, status: EmployeeStatus | null, updatedAt: string | null } };
+
+export type DeleteEmployeeMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type DeleteEmployeeMutation = { deleteEmployee: boolean };
+
+export type AddEmployeeMutationVariables = Exact<{
+  input: EmployeeInput;
+}>;
+
+
+export type AddEmployeeMutation = { addEmployee: { id: number, name: string, age: number | null, className: string | null, subjects: Array<string> | null, attendance: number | null, role: string, status: EmployeeStatus | null, location: string, lastLogin: string | null, createdAt: string | null, updatedAt: string | null } };
+
+export type UpdateEmployeeMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  input: EmployeeInput;
+}>;
+
+
+export type UpdateEmployeeMutation = { updateEmployee: { id: number, name: string, age: number | null, className: string | null, subjects: Array<string> | null, attendance: number | null, role: string, status: EmployeeStatus | null, location: string, lastLogin: string | null, createdAt: string | null, updatedAt: string | null } };
+
+export type InvitationFieldsFragment = { id: number, email: string, name: string | null, role: string, managerId: number | null, invitedByEmail: string | null, status: string, expiresAt: string, acceptedAt: string | null, createdAt: string };
+
+export type InvitationsQueryVariables = Exact<{
+  status?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type InvitationsQuery = { invitations: Array<{ id: number, email: string, name: string | null, role: string, managerId: number | null, invitedByEmail: string | null, status: string, expiresAt: string, acceptedAt: string | null, createdAt: string }> };
+
+export type InvitationManagersQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type InvitationManagersQuery = { allUsers: Array<{ id: number, email: string }> };
+
+export type InvitationRolesQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type InvitationRolesQuery = { roles: Array<{ key: string, name: string }> };
+
+export type CreateInvitationMutationVariables = Exact<{
+  input: InvitationInput;
+}>;
+
+
+export type CreateInvitationMutation = { createInvitation: { inviteLink: string, invitation: { id: number, email: string, name: string | null, role: string, managerId: number | null, invitedByEmail: string | null, status: string, expiresAt: string, acceptedAt: string | null, createdAt: string } } };
+
+export type ResendInvitationMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type ResendInvitationMutation = { resendInvitation: { inviteLink: string, invitation: { id: number, email: string, name: string | null, role: string, managerId: number | null, invitedByEmail: string | null, status: string, expiresAt: string, acceptedAt: string | null, createdAt: string } } };
+
+export type RevokeInvitationMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type RevokeInvitationMutation = { revokeInvitation: { id: number, status: string } };
+
+export type MyLeaveRequestsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyLeaveRequestsQuery = { myLeaveRequests: Array<{ id: number, employeeId: number, reason: string, startDate: string, endDate: string, type: LeaveType | null, status: LeaveStatus, adminNote: string | null, createdAt: string }> };
+
+export type LeaveRequestsQueryVariables = Exact<{
+  status?: InputMaybe<LeaveStatus>;
+}>;
+
+
+export type LeaveRequestsQuery = { leaveRequests: Array<{ id: number, employeeId: number, employeeName: string | null, reason: string, startDate: string, endDate: string, type: LeaveType | null, status: LeaveStatus, adminNote: string | null, createdAt: string }> };
+
+export type CreateLeaveRequestMutationVariables = Exact<{
+  input: LeaveRequestInput;
+}>;
+
+
+export type CreateLeaveRequestMutation = { createLeaveRequest: { id: number, reason: string, startDate: string, endDate: string, type: LeaveType | null, status: LeaveStatus } };
+
+export type LeaveRequestUpdatedSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type LeaveRequestUpdatedSubscription = { leaveRequestUpdated: { id: number } };
+
+export type UpdateLeaveRequestStatusMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  status: LeaveStatus;
+  adminNote?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type UpdateLeaveRequestStatusMutation = { updateLeaveRequestStatus: { id: number, status: LeaveStatus, adminNote: string | null } };
+
+export type MyConversationsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyConversationsQuery = { myConversations: Array<{ conversationId: string, participant: string, participantRole: string, lastMessage: string, lastMessageTime: string, unreadCount: number }> };
+
+export type MessagesQueryVariables = Exact<{
+  conversationId: Scalars['String']['input'];
+}>;
+
+
+export type MessagesQuery = { messages: Array<{ id: number, conversationId: string, senderId: number, senderEmail: string, senderRole: string, recipientId: number | null, recipientEmail: string | null, recipientRole: string | null, subject: string | null, message: string, messageType: string, isRead: boolean, createdAt: string }> };
+
+export type MessageReceivedSubscriptionVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MessageReceivedSubscription = { messageReceived: { id: number, conversationId: string, senderId: number } };
+
+export type SendMessageMutationVariables = Exact<{
+  input: SendMessageInput;
+}>;
+
+
+export type SendMessageMutation = { sendMessage: { id: number, conversationId: string, message: string, createdAt: string } };
+
+export type MarkConversationAsReadMutationVariables = Exact<{
+  conversationId: Scalars['String']['input'];
+}>;
+
+
+export type MarkConversationAsReadMutation = { markConversationAsRead: boolean };
+
+export type MessageRecipientsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MessageRecipientsQuery = { allUsers: Array<{ id: number, email: string, role: string }> };
+
+export type NotificationsQueryVariables = Exact<{
+  type?: InputMaybe<NotificationType>;
+  isRead?: InputMaybe<Scalars['Boolean']['input']>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type NotificationsQuery = { notificationCount: number, notifications: { totalCount: number, edges: Array<{ node: { id: number, title: string, message: string, type: NotificationType, isRead: boolean, createdAt: string, linkTo: string | null, actionUrl: string | null } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type MarkNotificationAsReadMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type MarkNotificationAsReadMutation = { markNotificationAsRead: { id: number, isRead: boolean } };
+
+export type MarkAllNotificationsAsReadMutationVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MarkAllNotificationsAsReadMutation = { markAllNotificationsAsRead: boolean };
+
+export type MyNotesQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyNotesQuery = { myNotes: Array<{ id: number, message: string, fromUserId: number, toEmployeeId: number | null, toAll: boolean, isRead: boolean, createdAt: string }> };
+
+export type MarkNoteAsReadMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type MarkNoteAsReadMutation = { markNoteAsRead: { id: number, isRead: boolean } };
+
+export type OrgChartQueryVariables = Exact<{
+  rootUserId?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type OrgChartQuery = { orgChart: Array<{ id: string, parentId: string | null, userId: number | null, employeeId: number | null, managerId: number | null, name: string, role: string, avatar: string | null, level: number, directReports: number, headcount: number }> };
+
+export type SetEmployeeManagerMutationVariables = Exact<{
+  employeeId: Scalars['Int']['input'];
+  managerUserId?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type SetEmployeeManagerMutation = { setEmployeeManager: { id: number, managerId: number | null } };
+
+export type EmailPreferencesQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type EmailPreferencesQuery = { me: { id: number, emailNotifications: boolean | null } | null };
+
+export type UpdateEmailPreferencesMutationVariables = Exact<{
+  emailNotifications: Scalars['Boolean']['input'];
+}>;
+
+
+export type UpdateEmailPreferencesMutation = { updateEmailPreferences: { id: number, emailNotifications: boolean | null } };
+
+export type MyEditableProfileQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyEditableProfileQuery = { myProfile: { id: number, name: string, email: string | null, age: number | null, className: string | null, attendance: number | null, role: string, status: EmployeeStatus | null, location: string, lastLogin: string | null, avatar: string | null } | null };
+
+export type UpdateMyProfileMutationVariables = Exact<{
+  input: ProfileUpdateInput;
+}>;
+
+
+export type UpdateMyProfileMutation = { updateMyProfile: { id: number, name: string, email: string | null, age: number | null, location: string, avatar: string | null } };
+
+export type MyProfileQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyProfileQuery = { myProfile: { id: number, name: string, email: string | null, age: number | null, className: string | null, attendance: number | null, role: string, status: EmployeeStatus | null, location: string, lastLogin: string | null, avatar: string | null } | null };
+
+export type ReportEmployeesQueryVariables = Exact<{
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type ReportEmployeesQuery = { employees: { totalCount: number, edges: Array<{ node: { id: number, name: string, age: number | null, className: string | null, subjects: Array<string> | null, attendance: number | null, role: string, status: EmployeeStatus | null, location: string, lastLogin: string | null } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type GetReviewRequestsQueryVariables = Exact<{
+  status?: InputMaybe<ReviewStatus>;
+  first?: InputMaybe<Scalars['Int']['input']>;
+  after?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetReviewRequestsQuery = { reviewRequests: { totalCount: number, edges: Array<{ node: { id: number, type: ReviewType, status: ReviewStatus, requestedByEmail: string, managerReasonType: string, managerReasonText: string, visibleToEmployee: boolean, adminComment: string | null, reviewedAt: string | null, createdAt: string, employee: { id: number, name: string, email: string | null, role: string, status: EmployeeStatus | null, attendance: number | null, avatar: string | null } } }>, pageInfo: { hasNextPage: boolean, endCursor: string | null } } };
+
+export type ReviewDecisionMutationVariables = Exact<{
+  input: ReviewDecisionInput;
+}>;
+
+
+export type ReviewDecisionMutation = { reviewDecision: { id: number, status: ReviewStatus } };
+
+export type RoleFieldsFragment = { id: number, key: string, name: string, description: string | null, isSystem: boolean, userCount: number, permissions: Array<{ permission: string, scope: string }> };
+
+export type RolesAndPermissionsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type RolesAndPermissionsQuery = { roles: Array<{ id: number, key: string, name: string, description: string | null, isSystem: boolean, userCount: number, permissions: Array<{ permission: string, scope: string }> }>, permissions: Array<{ key: string, category: string, description: string, scopes: Array<string> }> };
+
+export type RoleAssignmentUsersQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type RoleAssignmentUsersQuery = { allUsers: Array<{ id: number, email: string, role: string }> };
+
+export type CreateRoleMutationVariables = Exact<{
+  input: RoleInput;
+}>;
+
+
+export type CreateRoleMutation = { createRole: { id: number, key: string, name: string, description: string | null, isSystem: boolean, userCount: number, permissions: Array<{ permission: string, scope: string }> } };
+
+export type UpdateRoleMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  input: RoleInput;
+}>;
+
+
+export type UpdateRoleMutation = { updateRole: { id: number, key: string, name: string, description: string | null, isSystem: boolean, userCount: number, permissions: Array<{ permission: string, scope: string }> } };
+
+export type DeleteRoleMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type DeleteRoleMutation = { deleteRole: boolean };
+
+export type SetUserRoleMutationVariables = Exact<{
+  userId: Scalars['Int']['input'];
+  role: Scalars['String']['input'];
+}>;
+
+
+export type SetUserRoleMutation = { setUserRole: { id: number, role: string } };
+
+export type NoteRecipientsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type NoteRecipientsQuery = { allUsers: Array<{ id: number, email: string, role: string }> };
+
+export type SendNoteMutationVariables = Exact<{
+  input: NoteInput;
+}>;
+
+
+export type SendNoteMutation = { sendNote: { id: number, message: string, toAll: boolean } };
+
+export type ChangePasswordMutationVariables = Exact<{
+  currentPassword: Scalars['String']['input'];
+  newPassword: Scalars['String']['input'];
+}>;
+
+
+export type ChangePasswordMutation = { changePassword: { success: boolean, message: string, accessToken: string | null, fieldErrors: Array<{ field: string, code: string, message: string }> | null } };
+
+export type MyTwoFactorStatusQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type MyTwoFactorStatusQuery = { me: { id: number, twoFAEnabled: boolean | null } | null };
+
+export type Setup2FaMutationVariables = Exact<{ [key: string]: never; }>;
+
+
+export type Setup2FaMutation = { setup2FA: { otpauthUrl: string, qrCode: string, recoveryCodes: Array<string> } };
+
+export type Verify2FaMutationVariables = Exact<{
+  code: Scalars['String']['input'];
+}>;
+
+
+export type Verify2FaMutation = { verify2FA: boolean };
+
+export type SendSlackNotificationMutationVariables = Exact<{
+  webhookUrl: Scalars['String']['input'];
+  text: Scalars['String']['input'];
+}>;
+
+
+export type SendSlackNotificationMutation = { sendSlackNotification: { success: boolean } };
+
+export type DashboardStatsQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type DashboardStatsQuery = { dashboardStats: { totalUsers: number, activeUsers: number, blockedUsers: number, recentLogins: number, roleDistribution: { directors: number, managers: number, employees: number }, recentActions: Array<{ id: number, action: string, reason: string | null, blockedUntil: string | null, createdAt: string, user: { email: string }, admin: { email: string } }> } };
+
+export type AllUsersQueryVariables = Exact<{
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  roleFilter?: InputMaybe<Scalars['String']['input']>;
+  statusFilter?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type AllUsersQuery = { allUsers: Array<{ id: number, email: string, role: string, createdAt: string, isActive: boolean | null, twoFAEnabled: boolean | null }> };
+
+export type DeleteUserMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+}>;
+
+
+export type DeleteUserMutation = { deleteUser: boolean };
+
+export type ToggleUserAccessMutationVariables = Exact<{
+  id: Scalars['Int']['input'];
+  isActive: Scalars['Boolean']['input'];
+  reason?: InputMaybe<Scalars['String']['input']>;
+  blockedUntil?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type ToggleUserAccessMutation = { toggleUserAccess: boolean };
+
+export type Reset2FaMutationVariables = Exact<{
+  userId: Scalars['Int']['input'];
+}>;
+
+
+export type Reset2FaMutation = { reset2FA: boolean };
+
+export type BulkToggleAccessMutationVariables = Exact<{
+  userIds: Array<Scalars['Int']['input']> | Scalars['Int']['input'];
+  isActive: Scalars['Boolean']['input'];
+  reason?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type BulkToggleAccessMutation = { bulkToggleAccess: boolean };
+
+export class TypedDocumentString<TResult, TVariables>
+  extends String
+  implements DocumentTypeDecoration<TResult, TVariables>
+{
+  __apiType?: NonNullable<DocumentTypeDecoration<TResult, TVariables>['__apiType']>;
+  private value: string;
+  public __meta__?: Record<string, any> | undefined;
+
+  constructor(value: string, __meta__?: Record<string, any> | undefined) {
+    super(value);
+    this.value = value;
+    this.__meta__ = __meta__;
+  }
+
+  override toString(): string & DocumentTypeDecoration<TResult, TVariables> {
+    return this.value;
+  }
+}
+export const DelegationFieldsFragmentDoc = new TypedDocumentString(`
+    fragment DelegationFields on ApprovalDelegation {
+  id
+  managerId
+  managerEmail
+  delegateId
+  delegateEmail
+  startDate
+  endDate
+  whileOnLeave
+  isActive
+  permissions
+  reason
+  revokedAt
+  createdAt
+}
+    `, {"fragmentName":"DelegationFields"}) as unknown as TypedDocumentString<DelegationFieldsFragment, unknown>;
+export const ApiKeyFieldsFragmentDoc = new TypedDocumentString(`
+    fragment ApiKeyFields on ApiKey {
+  id
+  name
+  prefix
+  scopes
+  allowedIps
+  createdByEmail
+  status
+  expiresAt
+  lastUsedAt
+  lastUsedIp
+  createdAt
+}
+    `, {"fragmentName":"ApiKeyFields"}) as unknown as TypedDocumentString<ApiKeyFieldsFragment, unknown>;
+export const InvitationFieldsFragmentDoc = new TypedDocumentString(`
+    fragment InvitationFields on Invitation {
+  id
+  email
+  name
+  role
+  managerId
+  invitedByEmail
+  status
+  expiresAt
+  acceptedAt
+  createdAt
+}
+    `, {"fragmentName":"InvitationFields"}) as unknown as TypedDocumentString<InvitationFieldsFragment, unknown>;
+export const RoleFieldsFragmentDoc = new TypedDocumentString(`
+    fragment RoleFields on Role {
+  id
+  key
+  name
+  description
+  isSystem
+  permissions {
+    permission
+    scope
+  }
+  userCount
+}
+    `, {"fragmentName":"RoleFields"}) as unknown as TypedDocumentString<RoleFieldsFragment, unknown>;
+export const ChangeRequiredPasswordDocument = new TypedDocumentString(`
+    mutation ChangeRequiredPassword($currentPassword: String!, $newPassword: String!) {
+  changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {
+    success
+    message
+    accessToken
+    fieldErrors {
+      field
+      code
+      message
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<ChangeRequiredPasswordMutation, ChangeRequiredPasswordMutationVariables>;
+export const StartImpersonationDocument = new TypedDocumentString(`
+    mutation StartImpersonation($userId: Int!, $reason: String!, $minutes: Int) {
+  startImpersonation(userId: $userId, reason: $reason, minutes: $minutes) {
+    accessToken
+    user {
+      id
+      email
+      role
+    }
+    session {
+      id
+      actorEmail
+      expiresAt
+      readOnly
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<StartImpersonationMutation, StartImpersonationMutationVariables>;
+export const EndImpersonationDocument = new TypedDocumentString(`
+    mutation EndImpersonation {
+  endImpersonation
+}
+    `) as unknown as TypedDocumentString<EndImpersonationMutation, EndImpersonationMutationVariables>;
+export const DelegationsToMeDocument = new TypedDocumentString(`
+    query DelegationsToMe {
+  delegationsToMe {
+    ...DelegationFields
+  }
+}
+    fragment DelegationFields on ApprovalDelegation {
+  id
+  managerId
+  managerEmail
+  delegateId
+  delegateEmail
+  startDate
+  endDate
+  whileOnLeave
+  isActive
+  permissions
+  reason
+  revokedAt
+  createdAt
+}`) as unknown as TypedDocumentString<DelegationsToMeQuery, DelegationsToMeQueryVariables>;
+export const MyDelegationsDocument = new TypedDocumentString(`
+    query MyDelegations {
+  myDelegations {
+    ...DelegationFields
+  }
+}
+    fragment DelegationFields on ApprovalDelegation {
+  id
+  managerId
+  managerEmail
+  delegateId
+  delegateEmail
+  startDate
+  endDate
+  whileOnLeave
+  isActive
+  permissions
+  reason
+  revokedAt
+  createdAt
+}`) as unknown as TypedDocumentString<MyDelegationsQuery, MyDelegationsQueryVariables>;
+export const DelegateOptionsDocument = new TypedDocumentString(`
+    query DelegateOptions {
+  allUsers(statusFilter: "active") {
+    id
+    email
+    role
+  }
+}
+    `) as unknown as TypedDocumentString<DelegateOptionsQuery, DelegateOptionsQueryVariables>;
+export const CreateDelegationDocument = new TypedDocumentString(`
+    mutation CreateDelegation($input: ApprovalDelegationInput!) {
+  createDelegation(input: $input) {
+    id
+  }
+}
+    `) as unknown as TypedDocumentString<CreateDelegationMutation, CreateDelegationMutationVariables>;
+export const RevokeDelegationDocument = new TypedDocumentString(`
+    mutation RevokeDelegation($id: Int!) {
+  revokeDelegation(id: $id) {
+    id
+  }
+}
+    `) as unknown as TypedDocumentString<RevokeDelegationMutation, RevokeDelegationMutationVariables>;
+export const GetNotificationsDocument = new TypedDocumentString(`
+    query GetNotifications {
+  unreadNotifications {
+    id
+    title
+    message
+    type
+    linkTo
+    createdAt
+  }
+  notificationCount
+}
+    `) as unknown as TypedDocumentString<GetNotificationsQuery, GetNotificationsQueryVariables>;
+export const NotificationAddedDocument = new TypedDocumentString(`
+    subscription NotificationAdded {
+  notificationAdded {
+    id
+    title
+    message
+    type
+    linkTo
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<NotificationAddedSubscription, NotificationAddedSubscriptionVariables>;
+export const NotificationBellMarkAsReadDocument = new TypedDocumentString(`
+    mutation NotificationBellMarkAsRead($id: Int!) {
+  markNotificationAsRead(id: $id) {
+    id
+  }
+}
+    `) as unknown as TypedDocumentString<NotificationBellMarkAsReadMutation, NotificationBellMarkAsReadMutationVariables>;
+export const MySessionsDocument = new TypedDocumentString(`
+    query MySessions {
+  mySessions {
+    id
+    userAgent
+    ipAddress
+    createdAt
+    lastUsedAt
+    current
+  }
+}
+    `) as unknown as TypedDocumentString<MySessionsQuery, MySessionsQueryVariables>;
+export const UserSessionsDocument = new TypedDocumentString(`
+    query UserSessions($userId: Int!) {
+  userSessions(userId: $userId) {
+    id
+    userAgent
+    ipAddress
+    createdAt
+    lastUsedAt
+    current
+  }
+}
+    `) as unknown as TypedDocumentString<UserSessionsQuery, UserSessionsQueryVariables>;
+export const RevokeSessionDocument = new TypedDocumentString(`
+    mutation RevokeSession($id: String!) {
+  revokeSession(id: $id)
+}
+    `) as unknown as TypedDocumentString<RevokeSessionMutation, RevokeSessionMutationVariables>;
+export const RevokeAllOtherSessionsDocument = new TypedDocumentString(`
+    mutation RevokeAllOtherSessions {
+  revokeAllOtherSessions
+}
+    `) as unknown as TypedDocumentString<RevokeAllOtherSessionsMutation, RevokeAllOtherSessionsMutationVariables>;
+export const RevokeUserSessionsDocument = new TypedDocumentString(`
+    mutation RevokeUserSessions($userId: Int!) {
+  revokeUserSessions(userId: $userId)
+}
+    `) as unknown as TypedDocumentString<RevokeUserSessionsMutation, RevokeUserSessionsMutationVariables>;
+export const GetUnreadMessageCountDocument = new TypedDocumentString(`
+    query GetUnreadMessageCount {
+  messageStats {
+    unread
+  }
+}
+    `) as unknown as TypedDocumentString<GetUnreadMessageCountQuery, GetUnreadMessageCountQueryVariables>;
+export const MessageReceivedForCountDocument = new TypedDocumentString(`
+    subscription MessageReceivedForCount {
+  messageReceived {
+    id
+    senderId
+  }
+}
+    `) as unknown as TypedDocumentString<MessageReceivedForCountSubscription, MessageReceivedForCountSubscriptionVariables>;
+export const MyProfileMiniDocument = new TypedDocumentString(`
+    query MyProfileMini {
+  myProfile {
+    name
+    avatar
+  }
+}
+    `) as unknown as TypedDocumentString<MyProfileMiniQuery, MyProfileMiniQueryVariables>;
+export const MyPermissionsDocument = new TypedDocumentString(`
+    query MyPermissions {
+  myPermissions {
+    permission
+    scope
+  }
+}
+    `) as unknown as TypedDocumentString<MyPermissionsQuery, MyPermissionsQueryVariables>;
+export const AccessLogsDocument = new TypedDocumentString(`
+    query AccessLogs($first: Int, $after: String) {
+  accessLogs(first: $first, after: $after) {
+    edges {
+      node {
+        id
+        userId
+        userEmail
+        impersonatorEmail
+        action
+        details
+        ipAddress
+        createdAt
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<AccessLogsQuery, AccessLogsQueryVariables>;
+export const AdminUsersDocument = new TypedDocumentString(`
+    query AdminUsers {
+  adminUsers {
+    id
+    email
+    role
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<AdminUsersQuery, AdminUsersQueryVariables>;
+export const SearchEmployeesDocument = new TypedDocumentString(`
+    query SearchEmployees($filter: EmployeeFilter, $first: Int, $after: String, $sortBy: EmployeeSortBy, $sortOrder: SortOrder) {
+  employees(
+    filter: $filter
+    first: $first
+    after: $after
+    sortBy: $sortBy
+    sortOrder: $sortOrder
+  ) {
+    edges {
+      node {
+        id
+        name
+        email
+        role
+        status
+        location
+        attendance
+        age
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<SearchEmployeesQuery, SearchEmployeesQueryVariables>;
+export const EmployeeAnalyticsDocument = new TypedDocumentString(`
+    query EmployeeAnalytics($employeeId: Int!) {
+  employeePerformanceStats(employeeId: $employeeId) {
+    attendance
+    notesCount
+    reviewCount
+    status
+    flagged
+  }
+}
+    `) as unknown as TypedDocumentString<EmployeeAnalyticsQuery, EmployeeAnalyticsQueryVariables>;
+export const ApiKeysDocument = new TypedDocumentString(`
+    query ApiKeys {
+  apiKeys {
+    ...ApiKeyFields
+  }
+  apiKeyScopes
+}
+    fragment ApiKeyFields on ApiKey {
+  id
+  name
+  prefix
+  scopes
+  allowedIps
+  createdByEmail
+  status
+  expiresAt
+  lastUsedAt
+  lastUsedIp
+  createdAt
+}`) as unknown as TypedDocumentString<ApiKeysQuery, ApiKeysQueryVariables>;
+export const CreateApiKeyDocument = new TypedDocumentString(`
+    mutation CreateApiKey($input: ApiKeyInput!) {
+  createApiKey(input: $input) {
+    key
+    apiKey {
+      ...ApiKeyFields
+    }
+  }
+}
+    fragment ApiKeyFields on ApiKey {
+  id
+  name
+  prefix
+  scopes
+  allowedIps
+  createdByEmail
+  status
+  expiresAt
+  lastUsedAt
+  lastUsedIp
+  createdAt
+}`) as unknown as TypedDocumentString<CreateApiKeyMutation, CreateApiKeyMutationVariables>;
+export const RevokeApiKeyDocument = new TypedDocumentString(`
+    mutation RevokeApiKey($id: Int!) {
+  revokeApiKey(id: $id) {
+    id
+    status
+  }
+}
+    `) as unknown as TypedDocumentString<RevokeApiKeyMutation, RevokeApiKeyMutationVariables>;
+export const AuditLogsDocument = new TypedDocumentString(`
+    query AuditLogs($first: Int, $after: String) {
+  accessLogs(first: $first, after: $after) {
+    edges {
+      node {
+        id
+        userId
+        userEmail
+        impersonatorEmail
+        action
+        details
+        ipAddress
+        createdAt
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<AuditLogsQuery, AuditLogsQueryVariables>;
+export const DashboardEmployeesDocument = new TypedDocumentString(`
+    query DashboardEmployees($first: Int, $after: String) {
+  employees(first: $first, after: $after) {
+    edges {
+      node {
+        id
+        name
+        email
+        attendance
+        status
+        role
+        flagged
+        className
+        location
+        managerId
+        createdAt
+        updatedAt
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<DashboardEmployeesQuery, DashboardEmployeesQueryVariables>;
+export const DashboardLeaveRequestsDocument = new TypedDocumentString(`
+    query DashboardLeaveRequests {
+  leaveRequests {
+    id
+    employeeId
+    startDate
+    endDate
+    reason
+    status
+  }
+}
+    `) as unknown as TypedDocumentString<DashboardLeaveRequestsQuery, DashboardLeaveRequestsQueryVariables>;
+export const DashboardMyLeaveRequestsDocument = new TypedDocumentString(`
+    query DashboardMyLeaveRequests {
+  myLeaveRequests {
+    id
+    employeeId
+    startDate
+    endDate
+    reason
+    status
+  }
+}
+    `) as unknown as TypedDocumentString<DashboardMyLeaveRequestsQuery, DashboardMyLeaveRequestsQueryVariables>;
+export const RecentActivitiesDocument = new TypedDocumentString(`
+    query RecentActivities {
+  accessLogs(first: 10) {
+    edges {
+      node {
+        id
+        action
+        details
+        createdAt
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<RecentActivitiesQuery, RecentActivitiesQueryVariables>;
+export const MyNotificationsDocument = new TypedDocumentString(`
+    query MyNotifications {
+  notifications(first: 8) {
+    edges {
+      node {
+        id
+        title
+        message
+        type
+        createdAt
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<MyNotificationsQuery, MyNotificationsQueryVariables>;
+export const DashboardUpdateLeaveRequestStatusDocument = new TypedDocumentString(`
+    mutation DashboardUpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {
+  updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {
+    id
+    status
+    updatedAt
+  }
+}
+    `) as unknown as TypedDocumentString<DashboardUpdateLeaveRequestStatusMutation, DashboardUpdateLeaveRequestStatusMutationVariables>;
+export const EmployeeLoginCandidatesDocument = new TypedDocumentString(`
+    query EmployeeLoginCandidates($after: String) {
+  employees(first: 50, after: $after) {
+    edges {
+      node {
+        id
+        name
+        email
+        userId
+        role
+        status
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+  withoutLogin: employees(filter: {hasLogin: false}, first: 1) {
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<EmployeeLoginCandidatesQuery, EmployeeLoginCandidatesQueryVariables>;
+export const GenerateEmployeeLoginsDocument = new TypedDocumentString(`
+    mutation GenerateEmployeeLogins {
+  generateEmployeeLogins {
+    success
+    message
+    created
+    skipped
+    failed
+    credentials {
+      employeeId
+      email
+      temporaryPassword
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<GenerateEmployeeLoginsMutation, GenerateEmployeeLoginsMutationVariables>;
+export const EmployeesDocument = new TypedDocumentString(`
+    query Employees($filter: EmployeeFilter, $first: Int, $after: String, $sortBy: EmployeeSortBy, $sortOrder: SortOrder) {
+  employees(
+    filter: $filter
+    first: $first
+    after: $after
+    sortBy: $sortBy
+    sortOrder: $sortOrder
+  ) {
+    edges {
+      node {
+        id
+        name
+        age
+        className
+        subjects
+        attendance
+        role
+        status
+        location
+        lastLogin
+        createdAt
+        updatedAt
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<EmployeesQuery, EmployeesQueryVariables>;
+export const TerminateEmployeeDocument = new TypedDocumentString(`
+    mutation TerminateEmployee($id: Int!) {
+  terminateEmployee(id: $id) {
+    id
+    status
+    updatedAt
+  }
+}
+    `) as unknown as TypedDocumentString<TerminateEmployeeMutation, TerminateEmployeeMutationVariables>;
+export const DeleteEmployeeDocument = new TypedDocumentString(`
+    mutation DeleteEmployee($id: Int!) {
+  deleteEmployee(id: $id)
+}
+    `) as unknown as TypedDocumentString<DeleteEmployeeMutation, DeleteEmployeeMutationVariables>;
+export const AddEmployeeDocument = new TypedDocumentString(`
+    mutation AddEmployee($input: EmployeeInput!) {
+  addEmployee(input: $input) {
+    id
+    name
+    age
+    className
+    subjects
+    attendance
+    role
+    status
+    location
+    lastLogin
+    createdAt
+    updatedAt
+  }
+}
+    `) as unknown as TypedDocumentString<AddEmployeeMutation, AddEmployeeMutationVariables>;
+export const UpdateEmployeeDocument = new TypedDocumentString(`
+    mutation UpdateEmployee($id: Int!, $input: EmployeeInput!) {
+  updateEmployee(id: $id, input: $input) {
+    id
+    name
+    age
+    className
+    subjects
+    attendance
+    role
+    status
+    location
+    lastLogin
+    createdAt
+    updatedAt
+  }
+}
+    `) as unknown as TypedDocumentString<UpdateEmployeeMutation, UpdateEmployeeMutationVariables>;
+export const InvitationsDocument = new TypedDocumentString(`
+    query Invitations($status: String) {
+  invitations(status: $status) {
+    ...InvitationFields
+  }
+}
+    fragment InvitationFields on Invitation {
+  id
+  email
+  name
+  role
+  managerId
+  invitedByEmail
+  status
+  expiresAt
+  acceptedAt
+  createdAt
+}`) as unknown as TypedDocumentString<InvitationsQuery, InvitationsQueryVariables>;
+export const InvitationManagersDocument = new TypedDocumentString(`
+    query InvitationManagers {
+  allUsers(roleFilter: "manager") {
+    id
+    email
+  }
+}
+    `) as unknown as TypedDocumentString<InvitationManagersQuery, InvitationManagersQueryVariables>;
+export const InvitationRolesDocument = new TypedDocumentString(`
+    query InvitationRoles {
+  roles {
+    key
+    name
+  }
+}
+    `) as unknown as TypedDocumentString<InvitationRolesQuery, InvitationRolesQueryVariables>;
+export const CreateInvitationDocument = new TypedDocumentString(`
+    mutation CreateInvitation($input: InvitationInput!) {
+  createInvitation(input: $input) {
+    inviteLink
+    invitation {
+      ...InvitationFields
+    }
+  }
+}
+    fragment InvitationFields on Invitation {
+  id
+  email
+  name
+  role
+  managerId
+  invitedByEmail
+  status
+  expiresAt
+  acceptedAt
+  createdAt
+}`) as unknown as TypedDocumentString<CreateInvitationMutation, CreateInvitationMutationVariables>;
+export const ResendInvitationDocument = new TypedDocumentString(`
+    mutation ResendInvitation($id: Int!) {
+  resendInvitation(id: $id) {
+    inviteLink
+    invitation {
+      ...InvitationFields
+    }
+  }
+}
+    fragment InvitationFields on Invitation {
+  id
+  email
+  name
+  role
+  managerId
+  invitedByEmail
+  status
+  expiresAt
+  acceptedAt
+  createdAt
+}`) as unknown as TypedDocumentString<ResendInvitationMutation, ResendInvitationMutationVariables>;
+export const RevokeInvitationDocument = new TypedDocumentString(`
+    mutation RevokeInvitation($id: Int!) {
+  revokeInvitation(id: $id) {
+    id
+    status
+  }
+}
+    `) as unknown as TypedDocumentString<RevokeInvitationMutation, RevokeInvitationMutationVariables>;
+export const MyLeaveRequestsDocument = new TypedDocumentString(`
+    query MyLeaveRequests {
+  myLeaveRequests {
+    id
+    employeeId
+    reason
+    startDate
+    endDate
+    type
+    status
+    adminNote
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<MyLeaveRequestsQuery, MyLeaveRequestsQueryVariables>;
+export const LeaveRequestsDocument = new TypedDocumentString(`
+    query LeaveRequests($status: LeaveStatus) {
+  leaveRequests(status: $status) {
+    id
+    employeeId
+    employeeName
+    reason
+    startDate
+    endDate
+    type
+    status
+    adminNote
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<LeaveRequestsQuery, LeaveRequestsQueryVariables>;
+export const CreateLeaveRequestDocument = new TypedDocumentString(`
+    mutation CreateLeaveRequest($input: LeaveRequestInput!) {
+  createLeaveRequest(input: $input) {
+    id
+    reason
+    startDate
+    endDate
+    type
+    status
+  }
+}
+    `) as unknown as TypedDocumentString<CreateLeaveRequestMutation, CreateLeaveRequestMutationVariables>;
+export const LeaveRequestUpdatedDocument = new TypedDocumentString(`
+    subscription LeaveRequestUpdated {
+  leaveRequestUpdated {
+    id
+  }
+}
+    `) as unknown as TypedDocumentString<LeaveRequestUpdatedSubscription, LeaveRequestUpdatedSubscriptionVariables>;
+export const UpdateLeaveRequestStatusDocument = new TypedDocumentString(`
+    mutation UpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {
+  updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {
+    id
+    status
+    adminNote
+  }
+}
+    `) as unknown as TypedDocumentString<UpdateLeaveRequestStatusMutation, UpdateLeaveRequestStatusMutationVariables>;
+export const MyConversationsDocument = new TypedDocumentString(`
+    query MyConversations {
+  myConversations {
+    conversationId
+    participant
+    participantRole
+    lastMessage
+    lastMessageTime
+    unreadCount
+  }
+}
+    `) as unknown as TypedDocumentString<MyConversationsQuery, MyConversationsQueryVariables>;
+export const MessagesDocument = new TypedDocumentString(`
+    query Messages($conversationId: String!) {
+  messages(conversationId: $conversationId) {
+    id
+    conversationId
+    senderId
+    senderEmail
+    senderRole
+    recipientId
+    recipientEmail
+    recipientRole
+    subject
+    message
+    messageType
+    isRead
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<MessagesQuery, MessagesQueryVariables>;
+export const MessageReceivedDocument = new TypedDocumentString(`
+    subscription MessageReceived {
+  messageReceived {
+    id
+    conversationId
+    senderId
+  }
+}
+    `) as unknown as TypedDocumentString<MessageReceivedSubscription, MessageReceivedSubscriptionVariables>;
+export const SendMessageDocument = new TypedDocumentString(`
+    mutation SendMessage($input: SendMessageInput!) {
+  sendMessage(input: $input) {
+    id
+    conversationId
+    message
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<SendMessageMutation, SendMessageMutationVariables>;
+export const MarkConversationAsReadDocument = new TypedDocumentString(`
+    mutation MarkConversationAsRead($conversationId: String!) {
+  markConversationAsRead(conversationId: $conversationId)
+}
+    `) as unknown as TypedDocumentString<MarkConversationAsReadMutation, MarkConversationAsReadMutationVariables>;
+export const MessageRecipientsDocument = new TypedDocumentString(`
+    query MessageRecipients {
+  allUsers {
+    id
+    email
+    role
+  }
+}
+    `) as unknown as TypedDocumentString<MessageRecipientsQuery, MessageRecipientsQueryVariables>;
+export const NotificationsDocument = new TypedDocumentString(`
+    query Notifications($type: NotificationType, $isRead: Boolean, $first: Int, $after: String) {
+  notifications(type: $type, isRead: $isRead, first: $first, after: $after) {
+    edges {
+      node {
+        id
+        title
+        message
+        type
+        isRead
+        createdAt
+        linkTo
+        actionUrl
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+  notificationCount
+}
+    `) as unknown as TypedDocumentString<NotificationsQuery, NotificationsQueryVariables>;
+export const MarkNotificationAsReadDocument = new TypedDocumentString(`
+    mutation MarkNotificationAsRead($id: Int!) {
+  markNotificationAsRead(id: $id) {
+    id
+    isRead
+  }
+}
+    `) as unknown as TypedDocumentString<MarkNotificationAsReadMutation, MarkNotificationAsReadMutationVariables>;
+export const MarkAllNotificationsAsReadDocument = new TypedDocumentString(`
+    mutation MarkAllNotificationsAsRead {
+  markAllNotificationsAsRead
+}
+    `) as unknown as TypedDocumentString<MarkAllNotificationsAsReadMutation, MarkAllNotificationsAsReadMutationVariables>;
+export const MyNotesDocument = new TypedDocumentString(`
+    query MyNotes {
+  myNotes {
+    id
+    message
+    fromUserId
+    toEmployeeId
+    toAll
+    isRead
+    createdAt
+  }
+}
+    `) as unknown as TypedDocumentString<MyNotesQuery, MyNotesQueryVariables>;
+export const MarkNoteAsReadDocument = new TypedDocumentString(`
+    mutation MarkNoteAsRead($id: Int!) {
+  markNoteAsRead(id: $id) {
+    id
+    isRead
+  }
+}
+    `) as unknown as TypedDocumentString<MarkNoteAsReadMutation, MarkNoteAsReadMutationVariables>;
+export const OrgChartDocument = new TypedDocumentString(`
+    query OrgChart($rootUserId: Int) {
+  orgChart(rootUserId: $rootUserId) {
+    id
+    parentId
+    userId
+    employeeId
+    managerId
+    name
+    role
+    avatar
+    level
+    directReports
+    headcount
+  }
+}
+    `) as unknown as TypedDocumentString<OrgChartQuery, OrgChartQueryVariables>;
+export const SetEmployeeManagerDocument = new TypedDocumentString(`
+    mutation SetEmployeeManager($employeeId: Int!, $managerUserId: Int) {
+  setEmployeeManager(employeeId: $employeeId, managerUserId: $managerUserId) {
+    id
+    managerId
+  }
+}
+    `) as unknown as TypedDocumentString<SetEmployeeManagerMutation, SetEmployeeManagerMutationVariables>;
+export const EmailPreferencesDocument = new TypedDocumentString(`
+    query EmailPreferences {
+  me {
+    id
+    emailNotifications
+  }
+}
+    `) as unknown as TypedDocumentString<EmailPreferencesQuery, EmailPreferencesQueryVariables>;
+export const UpdateEmailPreferencesDocument = new TypedDocumentString(`
+    mutation UpdateEmailPreferences($emailNotifications: Boolean!) {
+  updateEmailPreferences(emailNotifications: $emailNotifications) {
+    id
+    emailNotifications
+  }
+}
+    `) as unknown as TypedDocumentString<UpdateEmailPreferencesMutation, UpdateEmailPreferencesMutationVariables>;
+export const MyEditableProfileDocument = new TypedDocumentString(`
+    query MyEditableProfile {
+  myProfile {
+    id
+    name
+    email
+    age
+    className
+    attendance
+    role
+    status
+    location
+    lastLogin
+    avatar
+  }
+}
+    `) as unknown as TypedDocumentString<MyEditableProfileQuery, MyEditableProfileQueryVariables>;
+export const UpdateMyProfileDocument = new TypedDocumentString(`
+    mutation UpdateMyProfile($input: ProfileUpdateInput!) {
+  updateMyProfile(input: $input) {
+    id
+    name
+    email
+    age
+    location
+    avatar
+  }
+}
+    `) as unknown as TypedDocumentString<UpdateMyProfileMutation, UpdateMyProfileMutationVariables>;
+export const MyProfileDocument = new TypedDocumentString(`
+    query MyProfile {
+  myProfile {
+    id
+    name
+    email
+    age
+    className
+    attendance
+    role
+    status
+    location
+    lastLogin
+    avatar
+  }
+}
+    `) as unknown as TypedDocumentString<MyProfileQuery, MyProfileQueryVariables>;
+export const ReportEmployeesDocument = new TypedDocumentString(`
+    query ReportEmployees($first: Int, $after: String) {
+  employees(first: $first, after: $after) {
+    edges {
+      node {
+        id
+        name
+        age
+        className
+        subjects
+        attendance
+        role
+        status
+        location
+        lastLogin
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<ReportEmployeesQuery, ReportEmployeesQueryVariables>;
+export const GetReviewRequestsDocument = new TypedDocumentString(`
+    query GetReviewRequests($status: ReviewStatus, $first: Int, $after: String) {
+  reviewRequests(status: $status, first: $first, after: $after) {
+    edges {
+      node {
+        id
+        type
+        status
+        requestedByEmail
+        managerReasonType
+        managerReasonText
+        visibleToEmployee
+        adminComment
+        reviewedAt
+        createdAt
+        employee {
+          id
+          name
+          email
+          role
+          status
+          attendance
+          avatar
+        }
+      }
+    }
+    pageInfo {
+      hasNextPage
+      endCursor
+    }
+    totalCount
+  }
+}
+    `) as unknown as TypedDocumentString<GetReviewRequestsQuery, GetReviewRequestsQueryVariables>;
+export const ReviewDecisionDocument = new TypedDocumentString(`
+    mutation ReviewDecision($input: ReviewDecisionInput!) {
+  reviewDecision(input: $input) {
+    id
+    status
+  }
+}
+    `) as unknown as TypedDocumentString<ReviewDecisionMutation, ReviewDecisionMutationVariables>;
+export const RolesAndPermissionsDocument = new TypedDocumentString(`
+    query RolesAndPermissions {
+  roles {
+    ...RoleFields
+  }
+  permissions {
+    key
+    category
+    description
+    scopes
+  }
+}
+    fragment RoleFields on Role {
+  id
+  key
+  name
+  description
+  isSystem
+  permissions {
+    permission
+    scope
+  }
+  userCount
+}`) as unknown as TypedDocumentString<RolesAndPermissionsQuery, RolesAndPermissionsQueryVariables>;
+export const RoleAssignmentUsersDocument = new TypedDocumentString(`
+    query RoleAssignmentUsers {
+  allUsers {
+    id
+    email
+    role
+  }
+}
+    `) as unknown as TypedDocumentString<RoleAssignmentUsersQuery, RoleAssignmentUsersQueryVariables>;
+export const CreateRoleDocument = new TypedDocumentString(`
+    mutation CreateRole($input: RoleInput!) {
+  createRole(input: $input) {
+    ...RoleFields
+  }
+}
+    fragment RoleFields on Role {
+  id
+  key
+  name
+  description
+  isSystem
+  permissions {
+    permission
+    scope
+  }
+  userCount
+}`) as unknown as TypedDocumentString<CreateRoleMutation, CreateRoleMutationVariables>;
+export const UpdateRoleDocument = new TypedDocumentString(`
+    mutation UpdateRole($id: Int!, $input: RoleInput!) {
+  updateRole(id: $id, input: $input) {
+    ...RoleFields
+  }
+}
+    fragment RoleFields on Role {
+  id
+  key
+  name
+  description
+  isSystem
+  permissions {
+    permission
+    scope
+  }
+  userCount
+}`) as unknown as TypedDocumentString<UpdateRoleMutation, UpdateRoleMutationVariables>;
+export const DeleteRoleDocument = new TypedDocumentString(`
+    mutation DeleteRole($id: Int!) {
+  deleteRole(id: $id)
+}
+    `) as unknown as TypedDocumentString<DeleteRoleMutation, DeleteRoleMutationVariables>;
+export const SetUserRoleDocument = new TypedDocumentString(`
+    mutation SetUserRole($userId: Int!, $role: String!) {
+  setUserRole(userId: $userId, role: $role) {
+    id
+    role
+  }
+}
+    `) as unknown as TypedDocumentString<SetUserRoleMutation, SetUserRoleMutationVariables>;
+export const NoteRecipientsDocument = new TypedDocumentString(`
+    query NoteRecipients {
+  allUsers {
+    id
+    email
+    role
+  }
+}
+    `) as unknown as TypedDocumentString<NoteRecipientsQuery, NoteRecipientsQueryVariables>;
+export const SendNoteDocument = new TypedDocumentString(`
+    mutation SendNote($input: NoteInput!) {
+  sendNote(input: $input) {
+    id
+    message
+    toAll
+  }
+}
+    `) as unknown as TypedDocumentString<SendNoteMutation, SendNoteMutationVariables>;
+export const ChangePasswordDocument = new TypedDocumentString(`
+    mutation ChangePassword($currentPassword: String!, $newPassword: String!) {
+  changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {
+    success
+    message
+    accessToken
+    fieldErrors {
+      field
+      code
+      message
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<ChangePasswordMutation, ChangePasswordMutationVariables>;
+export const MyTwoFactorStatusDocument = new TypedDocumentString(`
+    query MyTwoFactorStatus {
+  me {
+    id
+    twoFAEnabled
+  }
+}
+    `) as unknown as TypedDocumentString<MyTwoFactorStatusQuery, MyTwoFactorStatusQueryVariables>;
+export const Setup2FaDocument = new TypedDocumentString(`
+    mutation Setup2FA {
+  setup2FA {
+    otpauthUrl
+    qrCode
+    recoveryCodes
+  }
+}
+    `) as unknown as TypedDocumentString<Setup2FaMutation, Setup2FaMutationVariables>;
+export const Verify2FaDocument = new TypedDocumentString(`
+    mutation Verify2FA($code: String!) {
+  verify2FA(code: $code)
+}
+    `) as unknown as TypedDocumentString<Verify2FaMutation, Verify2FaMutationVariables>;
+export const SendSlackNotificationDocument = new TypedDocumentString(`
+    mutation SendSlackNotification($webhookUrl: String!, $text: String!) {
+  sendSlackNotification(webhookUrl: $webhookUrl, text: $text) {
+    success
+  }
+}
+    `) as unknown as TypedDocumentString<SendSlackNotificationMutation, SendSlackNotificationMutationVariables>;
+export const DashboardStatsDocument = new TypedDocumentString(`
+    query DashboardStats {
+  dashboardStats {
+    totalUsers
+    activeUsers
+    blockedUsers
+    recentLogins
+    roleDistribution {
+      directors
+      managers
+      employees
+    }
+    recentActions {
+      id
+      action
+      reason
+      blockedUntil
+      createdAt
+      user {
+        email
+      }
+      admin {
+        email
+      }
+    }
+  }
+}
+    `) as unknown as TypedDocumentString<DashboardStatsQuery, DashboardStatsQueryVariables>;
+export const AllUsersDocument = new TypedDocumentString(`
+    query AllUsers($searchTerm: String, $roleFilter: String, $statusFilter: String) {
+  allUsers(
+    searchTerm: $searchTerm
+    roleFilter: $roleFilter
+    statusFilter: $statusFilter
+  ) {
+    id
+    email
+    role
+    createdAt
+    isActive
+    twoFAEnabled
+  }
+}
+    `) as unknown as TypedDocumentString<AllUsersQuery, AllUsersQueryVariables>;
+export const DeleteUserDocument = new TypedDocumentString(`
+    mutation DeleteUser($id: Int!) {
+  deleteUser(id: $id)
+}
+    `) as unknown as TypedDocumentString<DeleteUserMutation, DeleteUserMutationVariables>;
+export const ToggleUserAccessDocument = new TypedDocumentString(`
+    mutation ToggleUserAccess($id: Int!, $isActive: Boolean!, $reason: String, $blockedUntil: String) {
+  toggleUserAccess(
+    id: $id
+    isActive: $isActive
+    reason: $reason
+    blockedUntil: $blockedUntil
+  )
+}
+    `) as unknown as TypedDocumentString<ToggleUserAccessMutation, ToggleUserAccessMutationVariables>;
+export const Reset2FaDocument = new TypedDocumentString(`
+    mutation Reset2FA($userId: Int!) {
+  reset2FA(userId: $userId)
+}
+    `) as unknown as TypedDocumentString<Reset2FaMutation, Reset2FaMutationVariables>;
+export const BulkToggleAccessDocument = new TypedDocumentString(`
+    mutation BulkToggleAccess($userIds: [Int!]!, $isActive: Boolean!, $reason: String) {
+  bulkToggleAccess(userIds: $userIds, isActive: $isActive, reason: $reason)
+}
+    `) as unknown as TypedDocumentString<BulkToggleAccessMutation, BulkToggleAccessMutationVariables>;
\ No newline at end of file
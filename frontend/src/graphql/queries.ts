@@ -1,66 +0,0 @@
-import { gql } from '@apollo/client';
-
-export const GET_EMPLOYEES = gql`
-  query GetEmployees {
-    employees {
-      id
-      name
-      age
-      className
-      subjects
-      attendance
-      role
-      status
-      location
-      lastLogin
-      createdAt
-      updatedAt
-    }
-  }
-`;
-
-export const CREATE_EMPLOYEE = gql`
-  mutation CreateEmployee($input: CreateEmployeeInput!) {
-    createEmployee(input: $input) {
-      id
-      name
-      age
-      className
-      subjects
-      attendance
-      role
-      status
-      location
-      lastLogin
-      createdAt
-      updatedAt
-    }
-  }
-`;
-
-export const UPDATE_EMPLOYEE = gql`
-  mutation UpdateEmployee($id: Int!, $input: UpdateEmployeeInput!) {
-    updateEmployee(id: $id, input: $input) {
-      id
-      name
-      age
-      className
-      subjects
-      attendance
-      role
-      status
-      location
-      lastLogin
-      createdAt
-      updatedAt
-    }
-  }
-`;
-
-export const DELETE_EMPLOYEE = gql`
-  mutation DeleteEmployee($id: Int!) {
-    deleteEmployee(id: $id) {
-      id
-    }
-  }
-`;
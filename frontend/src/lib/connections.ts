@@ -0,0 +1,46 @@
+/**
+ * Cursor-paginated lists (Relay-style connections) from the GraphQL API.
+ *
+ * employees, notifications, myMessages, myThreads, reviewRequests and accessLogs
+ * return { edges { cursor node }, pageInfo, totalCount }. Ask for the next page
+ * with first/after: pageInfo.endCursor - lists load more as you scroll
+ * (components/LoadMore.tsx). Select after the edges:
+ *
+ *   pageInfo { hasNextPage endCursor }
+ *   totalCount
+ */
+
+export type PageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+export type Connection<T> = {
+  edges: { node: T }[];
+  pageInfo: PageInfo;
+  totalCount: number;
+};
+
+// Largest page the API serves
+export const MAX_PAGE_SIZE = 100;
+
+export function nodesOf<T>(connection: { edges: { node: T }[] } | null | undefined): T[] {
+  return (connection?.edges || []).map((edge) => edge.node);
+}
+
+/**
+ * Every node, page after page - only for screens that need the whole list at once
+ * (charts and exports). Lists people read should load more on scroll instead.
+ */
+export async function fetchAllNodes<T>(
+  fetchPage: (after: string | null) => Promise<Connection<T>>,
+): Promise<T[]> {
+  const nodes: T[] = [];
+  let after: string | null = null;
+  for (;;) {
+    const page: Connection<T> = await fetchPage(after);
+    nodes.push(...nodesOf(page));
+    if (!page.pageInfo.hasNextPage || !page.pageInfo.endCursor) return nodes;
+    after = page.pageInfo.endCursor;
+  }
+}
@@ -1,6 +1,8 @@
 import { GRAPHQL_URL } from "../config/api";
 import { trackClientError } from "./errorTracking";
-import { getStorageItem, removeStorageItem } from "./safeStorage";
+import { endSession, getFreshAccessToken, renewRejectedToken } from "./session";
+import type { FieldError } from "../auth/api";
+import type { TypedDocumentString } from "../graphql/generated/graphql";
 
 type GraphqlRequestOptions = {
   bypassCache?: boolean;
@@ -18,6 +20,33 @@ const REQUEST_TIMEOUT_MS = 12000;
 const responseCache = new Map<string, CacheEntry>();
 const inflightRequests = new Map<string, Promise<unknown>>();
 
+// Codes the API sends in errors[].extensions.code (backend-node/src/utils/errors.ts)
+export type GraphqlErrorCode =
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "VALIDATION_FAILED"
+  | "CONFLICT"
+  | "INTERNAL_SERVER_ERROR"
+  | (string & {});
+
+type GraphqlResponseError = {
+  message?: string;
+  extensions?: { code?: GraphqlErrorCode; fieldErrors?: FieldError[] };
+};
+
+// An error the API answered with. Branch on code, not on the message text;
+// fieldErrors is filled for VALIDATION_FAILED so forms can mark each input.
+export class GraphqlRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code: GraphqlErrorCode,
+    public readonly fieldErrors: FieldError[] = [],
+  ) {
+    super(message);
+  }
+}
+
 function normalizeQuery(query: string): string {
   return query.replace(/\s+/g, " ").trim();
 }
@@ -35,17 +64,95 @@ export function clearGraphqlCache() {
   inflightRequests.clear();
 }
 
-export async function graphqlRequest<T = any>(
+async function sendRequest<T>(
   query: string,
-  variables: Record<string, any> = {},
+  variables: Record<string, any>,
+  token: string | null | undefined,
+  options: GraphqlRequestOptions,
+): Promise<T> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(GRAPHQL_URL, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ query, variables }),
+      signal: controller.signal,
+    });
+  } catch (error: any) {
+    if (error?.name === "AbortError") {
+      throw new Error("Request timed out. Please try again.");
+    }
+    trackClientError(error, "graphql.network", { query: normalizeQuery(query) });
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  // Request budget used up - the body is a GraphQL error saying how long to wait
+  if (response.status === 429) {
+    const limited = await response.json().catch(() => null);
+    throw new Error(limited?.errors?.[0]?.message || "Too many requests. Please wait a moment and try again.");
+  }
+
+  if (!response.ok) {
+    throw new Error(`GraphQL request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  const payload = result as { data?: unknown; errors?: GraphqlResponseError[] };
+
+  if (payload.errors) {
+    const message = payload.errors.map((e) => e.message).join(", ");
+    const code = payload.errors[0]?.extensions?.code || "INTERNAL_SERVER_ERROR";
+    const fieldErrors = payload.errors.flatMap((e) => e.extensions?.fieldErrors || []);
+    trackClientError(new Error(message), "graphql.response", {
+      query: normalizeQuery(query),
+      code,
+    });
+    throw new GraphqlRequestError(message, code, fieldErrors);
+  }
+
+  if (typeof payload.data === "undefined") {
+    throw new Error("Invalid GraphQL response: missing data");
+  }
+
+  if (options.validate && !options.validate(payload.data)) {
+    const validationError = new Error("Invalid GraphQL response shape");
+    trackClientError(validationError, "graphql.validation", {
+      query: normalizeQuery(query),
+    });
+    throw validationError;
+  }
+
+  return payload.data as T;
+}
+
+/**
+ * Runs an operation written with graphql() (src/graphql/generated): the result and
+ * the variables are typed from the operation, so a field or argument the API
+ * doesn't have fails the build once `npm run codegen` has run.
+ */
+export async function graphqlRequest<T, TVariables extends Record<string, any>>(
+  document: TypedDocumentString<T, TVariables>,
+  variables: TVariables = {} as TVariables,
   accessToken?: string | null,
   options: GraphqlRequestOptions = {}
 ): Promise<T> {
-  // Ensure a token is sent even if the caller forgot to pass it.
-  let token = accessToken;
-  if (!token) {
-    token = getStorageItem("accessToken") || undefined;
-  }
+  const query = document.toString();
+  // Falls back to the stored token if the caller didn't pass one, and waits for
+  // (or starts) a refresh when the token is about to expire - see lib/session.ts
+  const token = await getFreshAccessToken(accessToken);
 
   const isMutation = isMutationOperation(query);
   const useCache = !isMutation && !options.bypassCache;
@@ -64,78 +171,20 @@ export async function graphqlRequest<T = any>(
     }
   }
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
-  }
-
   const requestPromise = (async () => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-
-    let response: Response;
     try {
-      response = await fetch(GRAPHQL_URL, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ query, variables }),
-        signal: controller.signal,
-      });
-    } catch (error: any) {
-      if (error?.name === "AbortError") {
-        throw new Error("Request timed out. Please try again.");
-      }
-      trackClientError(error, "graphql.network", { query: normalizeQuery(query) });
-      throw error;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-
-    if (!response.ok) {
-      throw new Error(`GraphQL request failed: ${response.status} ${response.statusText}`);
-    }
-
-    const result = await response.json();
-    const payload = result as { data?: unknown; errors?: Array<{ message?: string }> };
-
-    if (payload.errors) {
-      const message = payload.errors.map((e: any) => e.message).join(", ");
-      trackClientError(new Error(message), "graphql.response", {
-        query: normalizeQuery(query),
-      });
-
-      // Auto-logout if backend says token is invalid/expired
-      if (message.toLowerCase().includes("not authenticated") || message.toLowerCase().includes("unauthorized")) {
-        if (typeof window !== "undefined") {
-          console.warn("[graphqlClient] Auth failed, clearing tokens and reloading to login");
-          removeStorageItem("accessToken");
-          removeStorageItem("refreshToken");
-          removeStorageItem("user");
-          // Do a soft reload to force login view
-          window.location.href = "/";
-        }
+      return await sendRequest<T>(query, variables, token, options);
+    } catch (error) {
+      if (!(error instanceof GraphqlRequestError) || error.code !== "UNAUTHENTICATED") throw error;
+      // The access token expired or was revoked: refresh once and replay the request
+      const refreshedToken = await renewRejectedToken(token);
+      if (!refreshedToken) {
+        endSession();
+        throw error;
       }
-
-      throw new Error(message);
+      return sendRequest<T>(query, variables, refreshedToken, options);
     }
-
-    if (typeof payload.data === "undefined") {
-      throw new Error("Invalid GraphQL response: missing data");
-    }
-
-    if (options.validate && !options.validate(payload.data)) {
-      const validationError = new Error("Invalid GraphQL response shape");
-      trackClientError(validationError, "graphql.validation", {
-        query: normalizeQuery(query),
-      });
-      throw validationError;
-    }
-
-    const data = payload.data as T;
-
+  })().then((data) => {
     if (isMutation) {
       // Mutations can change list/query responses, so invalidate stale cache.
       clearGraphqlCache();
@@ -145,9 +194,8 @@ export async function graphqlRequest<T = any>(
         data,
       });
     }
-
     return data;
-  })();
+  });
 
   if (!useCache) {
     return requestPromise;
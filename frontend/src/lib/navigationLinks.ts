@@ -21,6 +21,10 @@ export const ROUTE_TO_PAGE_MAP: Record<string, AppPage> = {
   analyticsDashboard: "analyticsDashboard",
   employeeSelfServicePortal: "employeeSelfServicePortal",
   slackIntegration: "slackIntegration",
+  invitations: "invitations",
+  "api-keys": "api-keys",
+  roles: "roles",
+  "org-chart": "org-chart",
   notificationInbox: "notificationInbox",
   messagingInbox: "messages",
 };
@@ -0,0 +1,53 @@
+import type { AuthUser, PermissionMap, PermissionScope } from "../auth/authContext";
+import { graphqlRequest } from "./graphqlClient";
+import { graphql } from "../graphql/generated";
+
+/**
+ * What the signed-in user may do comes from their role's permissions (Roles page),
+ * sent with the login response as { "employee.update": "team", ... }. Use
+ * hasPermission() to show or hide things; the backend checks again either way.
+ */
+
+const SCOPE_RANK: Record<PermissionScope, number> = { own: 1, team: 2, all: 3 };
+
+const MY_PERMISSIONS_QUERY = graphql(`
+  query MyPermissions {
+    myPermissions {
+      permission
+      scope
+    }
+  }
+`);
+
+// Held at all, or at least at `scope` ("team" is also satisfied by "all")
+export function hasPermission(user: AuthUser | null | undefined, permission: string, scope?: PermissionScope) {
+  const granted = user?.permissions?.[permission];
+  if (!granted) return false;
+  return !scope || SCOPE_RANK[granted] >= SCOPE_RANK[scope];
+}
+
+export function permissionScope(user: AuthUser | null | undefined, permission: string): PermissionScope | null {
+  return user?.permissions?.[permission] ?? null;
+}
+
+/**
+ * Which of the three built-in layouts (dashboard, nav labels) fits this user. Custom
+ * roles get the closest one by what they may do - only for presentation, never for access.
+ */
+export function portalRole(user: AuthUser | null | undefined): "director" | "manager" | "employee" {
+  if (!user) return "employee";
+  if (user.role === "director" || user.role === "manager" || user.role === "employee") return user.role;
+  if (hasPermission(user, "dashboard.view")) return "director";
+  if (hasPermission(user, "employee.read", "team")) return "manager";
+  return "employee";
+}
+
+// Re-reads the grants - roles can be edited while someone is logged in
+export async function fetchMyPermissions(accessToken: string | null): Promise<PermissionMap> {
+  const data: any = await graphqlRequest(MY_PERMISSIONS_QUERY, {}, accessToken, { bypassCache: true });
+  const permissions: PermissionMap = {};
+  for (const grant of data.myPermissions || []) {
+    permissions[grant.permission] = grant.scope;
+  }
+  return permissions;
+}
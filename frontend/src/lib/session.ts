@@ -0,0 +1,130 @@
+import { apiRefreshSession } from "../auth/api";
+import { getStorageItem, removeStorageItem } from "./safeStorage";
+import { broadcastSession } from "./sessionSync";
+
+/**
+ * Keeps the access token fresh for the GraphQL clients (graphqlClient.ts and
+ * apolloClient.ts).
+ *
+ * Access tokens live 15 minutes. A token that expires within REFRESH_MARGIN_MS is
+ * swapped for a new one before the request goes out. If the API still answers
+ * UNAUTHENTICATED (revoked token, clock skew), the client refreshes and retries
+ * once. Only one refresh runs at a time: requests made meanwhile wait for it and
+ * then go out with the new token - refresh tokens are single-use, so two parallel
+ * refreshes would revoke each other.
+ *
+ * The user is logged out only when the refresh itself fails. Refreshes and
+ * log-outs reach the other open tabs through lib/sessionSync.ts.
+ */
+
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Fired on window after the access token was swapped for a refreshed one
+export const SESSION_REFRESHED_EVENT = "session-refreshed";
+
+const REFRESH_LOCK_NAME = "employee-app-token-refresh";
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+// The JWT's payload (unverified - the API checks the signature), or null if it can't be read
+export function tokenClaims(token: string): Record<string, unknown> | null {
+  try {
+    const payload = token.split(".")[1];
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const claims = JSON.parse(json);
+    return claims && typeof claims === "object" ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// When the JWT expires (ms since epoch), or null if it can't be read
+function tokenExpiresAt(token: string): number | null {
+  const exp = tokenClaims(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+function expiresSoon(token: string) {
+  const expiresAt = tokenExpiresAt(token);
+  return expiresAt !== null && expiresAt - Date.now() < REFRESH_MARGIN_MS;
+}
+
+/**
+ * Swaps the stored refresh token for a new pair and returns the new access token,
+ * or null when the session can't be renewed. Callers during a refresh share it.
+ *
+ * Other tabs hold the same refresh token, so the swap runs under a Web Lock: a
+ * tab that gets the lock after another tab refreshed finds a fresh access token
+ * in storage and uses that instead of presenting the now-revoked refresh token.
+ */
+function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    const staleToken = getStorageItem("accessToken");
+    const refresh = async () => {
+      const stored = getStorageItem("accessToken");
+      if (stored && stored !== staleToken && !expiresSoon(stored)) return stored;
+
+      const refreshToken = getStorageItem("refreshToken");
+      if (!refreshToken) return null;
+      try {
+        const tokens = await apiRefreshSession(refreshToken);
+        if (typeof window !== "undefined") {
+          window.dispatchEvent(new Event(SESSION_REFRESHED_EVENT));
+        }
+        broadcastSession({ type: "tokens-refreshed" });
+        return tokens.accessToken;
+      } catch {
+        return null;
+      }
+    };
+    const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+    const running = async () => (locks ? await locks.request(REFRESH_LOCK_NAME, refresh) : refresh());
+    refreshInFlight = running().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * The token to send: waits for a running refresh, and refreshes a token that is
+ * about to expire. A caller holding an older token than storage gets the stored one.
+ */
+export async function getFreshAccessToken(token?: string | null): Promise<string | null> {
+  if (refreshInFlight) {
+    return (await refreshInFlight) ?? token ?? null;
+  }
+
+  const current = token || getStorageItem("accessToken");
+  if (!current || !expiresSoon(current)) return current;
+
+  const stored = getStorageItem("accessToken");
+  if (stored && stored !== current && !expiresSoon(stored)) return stored;
+
+  // No refresh token (e.g. viewing as another user): send what we have, the API decides
+  return (await refreshAccessToken()) ?? current;
+}
+
+/**
+ * After the API answered UNAUTHENTICATED to `rejectedToken`: the token to retry
+ * with, or null when the user has to log in again. Requests that failed with an
+ * old token while another one refreshed reuse that refresh.
+ */
+export async function renewRejectedToken(rejectedToken?: string | null): Promise<string | null> {
+  if (refreshInFlight) return refreshInFlight;
+  const stored = getStorageItem("accessToken");
+  if (stored && stored !== rejectedToken && !expiresSoon(stored)) return stored;
+  return refreshAccessToken();
+}
+
+// The session is gone for good - clear it and show the login page
+export function endSession() {
+  if (typeof window === "undefined") return;
+  console.warn("[session] Session expired, clearing tokens and reloading to login");
+  removeStorageItem("accessToken");
+  removeStorageItem("refreshToken");
+  removeStorageItem("user");
+  broadcastSession({ type: "signed-out" });
+  // Do a soft reload to force login view
+  window.location.href = "/";
+}
@@ -0,0 +1,119 @@
+import { getStorageItem, removeStorageItem, setStorageItem } from "./safeStorage";
+
+/**
+ * Keeps every open tab on the same session. Tokens and preferences live in
+ * localStorage, which all tabs share, but each tab only reads them on load - so a
+ * tab announces what it changed and the others re-read storage:
+ *
+ *   signed-in            someone logged in (or the user/view-as changed) - adopt it
+ *   signed-out           logged out, or the session ended - show the login page
+ *   tokens-refreshed     the access token was refreshed - use the new pair
+ *   preferences-changed  theme/language/... saved - apply them
+ *
+ * Messages go over a BroadcastChannel; browsers without one get them through a
+ * storage event instead. A tab never receives its own messages.
+ *
+ * The idle timeout (VITE_IDLE_TIMEOUT_MINUTES) is shared too: activity in any tab
+ * keeps every tab signed in, and when it runs out all of them sign out.
+ */
+
+export type SessionMessage =
+  | { type: "signed-in" }
+  | { type: "signed-out"; reason?: "idle" }
+  | { type: "tokens-refreshed" }
+  | { type: "preferences-changed" };
+
+const CHANNEL_NAME = "employee-app-session";
+const FALLBACK_STORAGE_KEY = "sessionSyncMessage";
+const LAST_ACTIVITY_STORAGE_KEY = "lastActivityAt";
+
+const ACTIVITY_EVENTS = ["mousedown", "keydown", "scroll", "touchstart", "visibilitychange"];
+// How often activity is written to storage, and how often tabs check for idleness
+const ACTIVITY_WRITE_INTERVAL_MS = 15 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 30 * 1000;
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel() {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+// Tell the other tabs
+export function broadcastSession(message: SessionMessage) {
+  if (typeof window === "undefined") return;
+  const activeChannel = getChannel();
+  if (activeChannel) {
+    activeChannel.postMessage(message);
+    return;
+  }
+  // Writing fires a storage event in the other tabs; the timestamp makes repeats a change
+  setStorageItem(FALLBACK_STORAGE_KEY, JSON.stringify({ ...message, sentAt: Date.now() }));
+  removeStorageItem(FALLBACK_STORAGE_KEY);
+}
+
+/**
+ * Calls listener for every message from another tab. Returns the function that
+ * stops listening (use it as the useEffect cleanup).
+ */
+export function onSessionMessage(listener: (message: SessionMessage) => void) {
+  if (typeof window === "undefined") return () => undefined;
+
+  const activeChannel = getChannel();
+  if (activeChannel) {
+    const handleMessage = (event: MessageEvent<SessionMessage>) => listener(event.data);
+    activeChannel.addEventListener("message", handleMessage);
+    return () => activeChannel.removeEventListener("message", handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_STORAGE_KEY || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue) as SessionMessage);
+    } catch {
+      // Not one of ours
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+}
+
+/**
+ * Calls onIdle once nobody has used any tab for `minutes`. Returns the function
+ * that stops watching. Every tab runs its own check against the shared
+ * last-activity time, so the first one to notice signs everyone out.
+ */
+export function watchIdle(minutes: number, onIdle: () => void) {
+  if (typeof window === "undefined" || minutes <= 0) return () => undefined;
+
+  const timeoutMs = minutes * 60 * 1000;
+  let lastWrite = 0;
+
+  const recordActivity = () => {
+    const now = Date.now();
+    if (now - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+    lastWrite = now;
+    setStorageItem(LAST_ACTIVITY_STORAGE_KEY, String(now));
+  };
+
+  const checkIdle = () => {
+    const lastActivity = Number(getStorageItem(LAST_ACTIVITY_STORAGE_KEY) || 0);
+    if (lastActivity && Date.now() - lastActivity >= timeoutMs) {
+      stop();
+      removeStorageItem(LAST_ACTIVITY_STORAGE_KEY);
+      onIdle();
+    }
+  };
+
+  recordActivity();
+  ACTIVITY_EVENTS.forEach((eventName) => window.addEventListener(eventName, recordActivity, { passive: true }));
+  const intervalId = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+  function stop() {
+    ACTIVITY_EVENTS.forEach((eventName) => window.removeEventListener(eventName, recordActivity));
+    window.clearInterval(intervalId);
+  }
+  return stop;
+}
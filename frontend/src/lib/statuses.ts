@@ -0,0 +1,98 @@
+/**
+ * Status and type values from the API - the GraphQL enums in
+ * backend-node/src/schema.ts - with the label and colours each one is shown with.
+ *
+ * Compare against these values (employee.status === "TERMINATED") and render
+ * through the maps below rather than spelling labels and colours out per page.
+ */
+
+export type EmployeeStatus = "ACTIVE" | "ON_LEAVE" | "UNDER_REVIEW" | "TERMINATION_REQUESTED" | "FLAGGED" | "TERMINATED";
+export type LeaveStatus = "PENDING" | "PENDING_DIRECTOR" | "APPROVED" | "REJECTED";
+export type LeaveType = "ANNUAL" | "SICK" | "SPECIAL" | "SABBATICAL" | "MATERNITY" | "PATERNITY" | "MEDICAL_EXTENDED";
+export type ReviewType = "FLAG" | "TERMINATE";
+export type ReviewStatus = "PENDING" | "APPROVED" | "REJECTED";
+export type NotificationType = "INFO" | "WARNING" | "CRITICAL" | "APPROVAL" | "MESSAGE" | "LEAVE";
+export type MessagePriority = "LOW" | "NORMAL" | "HIGH" | "URGENT";
+
+export type StatusStyle = {
+  label: string;
+  color: string; // Text, icons, borders
+  background: string; // Badge fill
+};
+
+const GREEN = { color: "#065f46", background: "#d1fae5" };
+const AMBER = { color: "#92400e", background: "#fef3c7" };
+const RED = { color: "#991b1b", background: "#fee2e2" };
+const BLUE = { color: "#1e40af", background: "#dbeafe" };
+const PURPLE = { color: "#5b21b6", background: "#ede9fe" };
+const GREY = { color: "#374151", background: "#f3f4f6" };
+
+export const EMPLOYEE_STATUS: Record<EmployeeStatus, StatusStyle> = {
+  ACTIVE: { label: "Active", ...GREEN },
+  ON_LEAVE: { label: "On leave", ...BLUE },
+  UNDER_REVIEW: { label: "Under review", ...AMBER },
+  TERMINATION_REQUESTED: { label: "Termination requested", ...AMBER },
+  FLAGGED: { label: "Flagged", ...RED },
+  TERMINATED: { label: "Terminated", ...GREY },
+};
+
+export const LEAVE_STATUS: Record<LeaveStatus, StatusStyle> = {
+  PENDING: { label: "Pending", ...AMBER },
+  PENDING_DIRECTOR: { label: "Pending director", ...PURPLE },
+  APPROVED: { label: "Approved", ...GREEN },
+  REJECTED: { label: "Rejected", ...RED },
+};
+
+export const LEAVE_TYPE: Record<LeaveType, StatusStyle> = {
+  ANNUAL: { label: "Annual", ...BLUE },
+  SICK: { label: "Sick", ...AMBER },
+  SPECIAL: { label: "Special", ...PURPLE },
+  SABBATICAL: { label: "Sabbatical", ...PURPLE },
+  MATERNITY: { label: "Maternity", ...PURPLE },
+  PATERNITY: { label: "Paternity", ...PURPLE },
+  MEDICAL_EXTENDED: { label: "Extended medical", ...PURPLE },
+};
+
+export const REVIEW_TYPE: Record<ReviewType, StatusStyle> = {
+  FLAG: { label: "Flag", ...AMBER },
+  TERMINATE: { label: "Terminate", ...RED },
+};
+
+export const REVIEW_STATUS: Record<ReviewStatus, StatusStyle> = {
+  PENDING: { label: "Pending", ...AMBER },
+  APPROVED: { label: "Approved", ...GREEN },
+  REJECTED: { label: "Rejected", ...RED },
+};
+
+export const NOTIFICATION_TYPE: Record<NotificationType, StatusStyle & { icon: string }> = {
+  INFO: { label: "Info", icon: "INFO", ...GREY },
+  WARNING: { label: "Warning", icon: "WARN", ...AMBER },
+  CRITICAL: { label: "Critical", icon: "ALERT", ...RED },
+  APPROVAL: { label: "Approval", icon: "OK", ...GREEN },
+  MESSAGE: { label: "Message", icon: "MSG", ...BLUE },
+  LEAVE: { label: "Leave", icon: "LEAVE", ...PURPLE },
+};
+
+export const MESSAGE_PRIORITY: Record<MessagePriority, StatusStyle> = {
+  LOW: { label: "Low", ...GREY },
+  NORMAL: { label: "Normal", ...BLUE },
+  HIGH: { label: "High", ...AMBER },
+  URGENT: { label: "Urgent", ...RED },
+};
+
+const UNKNOWN: StatusStyle = { label: "Unknown", ...GREY };
+
+/**
+ * The style for a value, e.g. styleOf(LEAVE_STATUS, request.status). Values the
+ * map doesn't know (an API newer than this build) still get a readable label.
+ */
+export function styleOf<T extends string, S extends StatusStyle>(map: Record<T, S>, value: string | null | undefined): S {
+  if (value && value in map) return map[value as T];
+  const label = value ? value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, " ") : UNKNOWN.label;
+  return { ...UNKNOWN, icon: "INFO", label } as StatusStyle as S; // icon: for NOTIFICATION_TYPE
+}
+
+// The map's values in declaration order - for <select> options and filters
+export function optionsOf<T extends string>(map: Record<T, StatusStyle>): { value: T; label: string }[] {
+  return (Object.keys(map) as T[]).map((value) => ({ value, label: map[value].label }));
+}
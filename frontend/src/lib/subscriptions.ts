@@ -0,0 +1,103 @@
+import { createClient, type Client } from "graphql-ws";
+import { GRAPHQL_URL } from "../config/api";
+import { getFreshAccessToken, tokenClaims } from "./session";
+import type { TypedDocumentString } from "../graphql/generated/graphql";
+
+/**
+ * Live updates (GraphQL subscriptions) over one shared WebSocket, graphql-ws protocol.
+ *
+ * The socket opens with the first subscription and signs in with the stored access
+ * token. It reconnects on its own (with backoff) after network drops, server
+ * restarts and token expiry, reading the current token each time - a silent
+ * refresh never drops it. Events sent while it was down are not replayed, so
+ * each subscriber passes onReconnect to refetch what it shows.
+ */
+
+const GRAPHQL_WS_URL = GRAPHQL_URL.replace(/^http/, "ws");
+
+let client: Client | null = null;
+let connectedIdentity: string | null = null;
+let hasConnected = false;
+const reconnectListeners = new Set<() => void>();
+
+// Who a token signs in as: the user, and the view-as session if there is one
+function tokenIdentity(token: string | null | undefined) {
+  const claims = token ? tokenClaims(token) : null;
+  return claims?.userId ? `${claims.userId}:${claims.imp ?? ""}` : null;
+}
+
+function getClient() {
+  if (!client) {
+    client = createClient({
+      url: GRAPHQL_WS_URL,
+      retryAttempts: Infinity,
+      shouldRetry: () => true,
+      // Read on every (re)connect, so a refreshed token is picked up (and one about
+      // to expire is refreshed first - lib/session.ts)
+      connectionParams: async () => {
+        const token = await getFreshAccessToken();
+        connectedIdentity = tokenIdentity(token);
+        return token ? { authorization: `Bearer ${token}` } : {};
+      },
+      on: {
+        connected: () => {
+          if (hasConnected) {
+            reconnectListeners.forEach((listener) => listener());
+          }
+          hasConnected = true;
+        },
+      },
+    });
+  }
+  return client;
+}
+
+type SubscriptionHandlers<T> = {
+  next: (data: T) => void;
+  // Called after the socket comes back - refetch to catch up on missed events
+  onReconnect?: () => void;
+};
+
+/**
+ * Starts a subscription and returns the function that stops it (use it as the
+ * useEffect cleanup).
+ */
+export function subscribe<T, TVariables extends Record<string, any>>(
+  document: TypedDocumentString<T, TVariables>,
+  variables: TVariables,
+  accessToken: string | null | undefined,
+  handlers: SubscriptionHandlers<T>,
+) {
+  const activeClient = getClient();
+  // Signed in as someone else since the socket opened (login, view-as) - reconnect as
+  // them. A refreshed token for the same person is picked up on the next reconnect.
+  const identity = tokenIdentity(accessToken);
+  if (identity && connectedIdentity && identity !== connectedIdentity) {
+    connectedIdentity = null;
+    activeClient.terminate();
+  }
+
+  if (handlers.onReconnect) {
+    reconnectListeners.add(handlers.onReconnect);
+  }
+
+  const unsubscribe = activeClient.subscribe<T>(
+    { query: document.toString(), variables },
+    {
+      next: (result) => {
+        if (result.data) {
+          handlers.next(result.data as T);
+        }
+      },
+      error: (error) => console.error("Subscription error:", error),
+      complete: () => undefined,
+    },
+  );
+
+  return () => {
+    if (handlers.onReconnect) {
+      reconnectListeners.delete(handlers.onReconnect);
+    }
+    unsubscribe();
+  };
+}
@@ -1,62 +1,85 @@
 import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
 import { formatRelativeTime } from "../lib/dateUtils";
+import { nodesOf } from "../lib/connections";
+import { LoadMore } from "../components/LoadMore";
+import { graphql } from "../graphql/generated";
+import type { AccessLogsQuery } from "../graphql/generated/graphql";
 
-type AccessLog = {
-  id: number;
-  userId: number;
-  userEmail: string;
-  action: string;
-  details?: string;
-  ipAddress?: string;
-  createdAt: string;
-};
+type AccessLog = AccessLogsQuery["accessLogs"]["edges"][number]["node"];
 
-const ACCESS_LOGS_QUERY = `
-  query AccessLogs($page: Int, $pageSize: Int) {
-    accessLogs(page: $page, pageSize: $pageSize) {
-      id
-      userId
-      userEmail
-      action
-      details
-      ipAddress
-      createdAt
+const ACCESS_LOGS_QUERY = graphql(`
+  query AccessLogs($first: Int, $after: String) {
+    accessLogs(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          userId
+          userEmail
+          impersonatorEmail
+          action
+          details
+          ipAddress
+          createdAt
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
     }
   }
-`;
+`);
 
 export const AccessLogsPage: React.FC = () => {
   const { accessToken, user } = useContext(AuthContext);
   const [logs, setLogs] = useState<AccessLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     fetchLogs();
   }, []);
 
-  const fetchLogs = async () => {
+  // Newest logs first; loading more continues after nextCursor
+  const fetchLogs = async (loadMore = false) => {
     if (!accessToken) return;
-    setLoading(true);
+    if (loadMore) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     try {
-      const data: any = await graphqlRequest(ACCESS_LOGS_QUERY, { page: 1, pageSize: 50 }, accessToken);
-      setLogs(data.accessLogs);
+      const data = await graphqlRequest(
+        ACCESS_LOGS_QUERY,
+        { first: 50, after: loadMore ? nextCursor : null },
+        accessToken,
+      );
+      const page = nodesOf(data.accessLogs);
+      setLogs((current) => (loadMore ? [...current, ...page] : page));
+      setTotal(data.accessLogs.totalCount);
+      setNextCursor(data.accessLogs.pageInfo.hasNextPage ? data.accessLogs.pageInfo.endCursor : null);
     } catch (err) {
       console.error("Failed to fetch access logs:", err);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  if (user?.role !== "director") {
+  if (!hasPermission(user, "audit.read")) {
     return (
       <div style={{ padding: "2rem" }}>
         <h1>Access Logs</h1>
         <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
           <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>Access Denied</h2>
           <p style={{ color: "#7f1d1d", margin: 0 }}>
-            Only directors can view access logs.
+            Your role doesn't include the audit.read permission.
           </p>
         </div>
       </div>
@@ -79,7 +102,7 @@ export const AccessLogsPage: React.FC = () => {
           <h1 style={{ margin: 0 }}>Access Logs</h1>
           <p style={{ margin: "0.5rem 0 0 0", color: "#6b7280" }}>Monitor system access and security events</p>
         </div>
-        <button onClick={fetchLogs} style={{ padding: "0.5rem 1rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer" }}>
+        <button onClick={() => fetchLogs()} style={{ padding: "0.5rem 1rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer" }}>
           Refresh
         </button>
       </div>
@@ -104,7 +127,12 @@ export const AccessLogsPage: React.FC = () => {
               {logs.map(log => (
                 <tr key={log.id}>
                   <td style={{ padding: "1rem", borderBottom: "1px solid #e5e7eb" }}>{log.id}</td>
-                  <td style={{ padding: "1rem", borderBottom: "1px solid #e5e7eb" }}>{log.userEmail}</td>
+                  <td style={{ padding: "1rem", borderBottom: "1px solid #e5e7eb" }}>
+                    {log.userEmail}
+                    {log.impersonatorEmail && (
+                      <div style={{ fontSize: "0.8rem", color: "#b45309" }}>by {log.impersonatorEmail} (view as)</div>
+                    )}
+                  </td>
                   <td style={{ padding: "1rem", borderBottom: "1px solid #e5e7eb" }}>
                     <span style={{ padding: "0.25rem 0.75rem", background: "#dbeafe", color: "#1e40af", borderRadius: "12px", fontSize: "0.875rem" }}>
                       {log.action}
@@ -117,6 +145,12 @@ export const AccessLogsPage: React.FC = () => {
             </tbody>
           </table>
         )}
+        <LoadMore
+          hasMore={nextCursor !== null}
+          loading={loadingMore}
+          onLoadMore={() => fetchLogs(true)}
+          summary={`Showing ${logs.length} of ${total}`}
+        />
       </div>
     </div>
   );
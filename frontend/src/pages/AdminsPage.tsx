@@ -1,7 +1,9 @@
 import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
 import { UsersManagementPage } from "./UsersManagementPage";
+import { graphql } from "../graphql/generated";
 
 type AdminUser = {
   id: number;
@@ -22,7 +24,7 @@ const formatDate = (dateString: string): string => {
   }
 };
 
-const ADMIN_USERS_QUERY = `
+const ADMIN_USERS_QUERY = graphql(`
   query AdminUsers {
     adminUsers {
       id
@@ -31,18 +33,17 @@ const ADMIN_USERS_QUERY = `
       createdAt
     }
   }
-`;
+`);
 
 export const AdminsPage: React.FC = () => {
   const { user } = useContext(AuthContext);
-  const role = user?.role || "employee";
 
-  // RBAC: Only directors see full admin management
-  if (role === "director") {
+  // Full admin management needs user.manageAccess (directors)
+  if (hasPermission(user, "user.manageAccess")) {
     return <UsersManagementPage />;
   }
-  // Managers see a limited view (e.g., list of managers/employees)
-  if (role === "manager") {
+  // Team-level user access (managers) gets a limited view
+  if (hasPermission(user, "user.read")) {
     return <div>Manager view: You can see and manage your team.</div>;
   }
   // Employees see nothing
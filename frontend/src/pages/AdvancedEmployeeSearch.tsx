@@ -1,35 +1,38 @@
 import React, { useState, useEffect } from "react";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { nodesOf } from "../lib/connections";
+import { LoadMore } from "../components/LoadMore";
+import { EMPLOYEE_STATUS, optionsOf, styleOf } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { EmployeeFilter, EmployeeSortBy, SearchEmployeesQuery, SortOrder } from "../graphql/generated/graphql";
 
-const EMPLOYEES_QUERY = `
-  query Employees($filter: EmployeeFilter, $page: Int, $pageSize: Int, $sortBy: String, $sortOrder: String) {
-    employees(filter: $filter, page: $page, pageSize: $pageSize, sortBy: $sortBy, sortOrder: $sortOrder) {
-      items {
-        id
-        name
-        email
-        role
-        status
-        location
-        attendance
-        age
+const EMPLOYEES_QUERY = graphql(`
+  query SearchEmployees($filter: EmployeeFilter, $first: Int, $after: String, $sortBy: EmployeeSortBy, $sortOrder: SortOrder) {
+    employees(filter: $filter, first: $first, after: $after, sortBy: $sortBy, sortOrder: $sortOrder) {
+      edges {
+        node {
+          id
+          name
+          email
+          role
+          status
+          location
+          attendance
+          age
+        }
       }
-      total
-      page
-      pageSize
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
     }
   }
-`;
+`);
 
 const roles = ["director", "manager", "employee"];
-const statuses = ["ACTIVE", "UNDER_REVIEW", "FLAGGED", "TERMINATION_REQUESTED", "TERMINATED"];
 
-type EmployeeSearchResult = {
-  employees: {
-    items: any[];
-    total: number;
-  };
-};
+type EmployeeSearchResult = SearchEmployeesQuery["employees"]["edges"][number]["node"];
 
 export const AdvancedEmployeeSearch: React.FC = () => {
   const [filters, setFilters] = useState({
@@ -41,42 +44,50 @@ export const AdvancedEmployeeSearch: React.FC = () => {
     attendanceMin: "",
     attendanceMax: "",
   });
-  const [sortBy, setSortBy] = useState("NAME");
-  const [sortOrder, setSortOrder] = useState("ASC");
-  const [page, setPage] = useState(1);
+  const [sortBy, setSortBy] = useState<EmployeeSortBy>("NAME");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("ASC");
   const [pageSize, setPageSize] = useState(10);
-  const [results, setResults] = useState<any[]>([]);
+  const [results, setResults] = useState<EmployeeSearchResult[]>([]);
   const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     fetchEmployees();
     // eslint-disable-next-line
-  }, [filters, sortBy, sortOrder, page, pageSize]);
+  }, [filters, sortBy, sortOrder, pageSize]);
 
-  const fetchEmployees = async () => {
-    setLoading(true);
-    const filterObj: any = {};
+  // First page, or the next one after nextCursor when loading more
+  const fetchEmployees = async (loadMore = false) => {
+    if (loadMore) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    const filterObj: Record<string, string | number> = {};
     Object.entries(filters).forEach(([key, value]) => {
       if (value !== "" && value !== null) {
         filterObj[key] = key.includes("attendance") ? Number(value) : value;
       }
     });
-    const result = await graphqlRequest<EmployeeSearchResult>(EMPLOYEES_QUERY, {
-      filter: filterObj,
-      page,
-      pageSize,
+    const result = await graphqlRequest(EMPLOYEES_QUERY, {
+      filter: filterObj as EmployeeFilter,
+      first: pageSize,
+      after: loadMore ? nextCursor : null,
       sortBy,
       sortOrder,
     });
-    setResults(result.employees.items);
-    setTotal(result.employees.total);
+    const page = nodesOf(result.employees);
+    setResults((current) => (loadMore ? [...current, ...page] : page));
+    setTotal(result.employees.totalCount);
+    setNextCursor(result.employees.pageInfo.hasNextPage ? result.employees.pageInfo.endCursor : null);
     setLoading(false);
+    setLoadingMore(false);
   };
 
   const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFilters({ ...filters, [e.target.name]: e.target.value });
-    setPage(1);
   };
 
   return (
@@ -94,7 +105,7 @@ export const AdvancedEmployeeSearch: React.FC = () => {
             </select>
             <select name="status" value={filters.status} onChange={handleFilterChange} style={{ padding: "0.5rem" }}>
               <option value="">Any Status</option>
-              {statuses.map(s => <option key={s} value={s}>{s}</option>)}
+              {optionsOf(EMPLOYEE_STATUS).map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
             </select>
             <input name="location" value={filters.location} onChange={handleFilterChange} placeholder="Location contains" style={{ padding: "0.5rem" }} />
             <input name="attendanceMin" value={filters.attendanceMin} onChange={handleFilterChange} placeholder="Attendance min" type="number" style={{ padding: "0.5rem" }} />
@@ -104,13 +115,13 @@ export const AdvancedEmployeeSearch: React.FC = () => {
         <div style={{ flex: 1 }}>
           <h2>Sort & Page</h2>
           <div style={{ display: "flex", gap: "1rem", alignItems: "center" }}>
-            <select value={sortBy} onChange={e => setSortBy(e.target.value)} style={{ padding: "0.5rem" }}>
+            <select value={sortBy} onChange={e => setSortBy(e.target.value as EmployeeSortBy)} style={{ padding: "0.5rem" }}>
               <option value="NAME">Name</option>
               <option value="AGE">Age</option>
               <option value="ATTENDANCE">Attendance</option>
               <option value="CREATED_AT">Created At</option>
             </select>
-            <select value={sortOrder} onChange={e => setSortOrder(e.target.value)} style={{ padding: "0.5rem" }}>
+            <select value={sortOrder} onChange={e => setSortOrder(e.target.value as SortOrder)} style={{ padding: "0.5rem" }}>
               <option value="ASC">Ascending</option>
               <option value="DESC">Descending</option>
             </select>
@@ -148,7 +159,7 @@ export const AdvancedEmployeeSearch: React.FC = () => {
                     <td style={{ padding: "0.75rem" }}>{emp.name}</td>
                     <td style={{ padding: "0.75rem" }}>{emp.email}</td>
                     <td style={{ padding: "0.75rem" }}>{emp.role}</td>
-                    <td style={{ padding: "0.75rem" }}>{emp.status}</td>
+                    <td style={{ padding: "0.75rem" }}>{styleOf(EMPLOYEE_STATUS, emp.status).label}</td>
                     <td style={{ padding: "0.75rem" }}>{emp.location}</td>
                     <td style={{ padding: "0.75rem" }}>{emp.attendance}</td>
                     <td style={{ padding: "0.75rem" }}>{emp.age}</td>
@@ -158,23 +169,14 @@ export const AdvancedEmployeeSearch: React.FC = () => {
             </tbody>
           </table>
         )}
-        <div style={{ marginTop: "2rem", display: "flex", justifyContent: "center", gap: "1rem" }}>
-          <button
-            onClick={() => setPage(p => Math.max(1, p - 1))}
-            disabled={page === 1}
-            style={{ padding: "0.5rem 1rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: page === 1 ? "not-allowed" : "pointer" }}
-          >
-            Previous
-          </button>
-          <span>Page {page}</span>
-          <button
-            onClick={() => setPage(p => p + 1)}
-            disabled={results.length < pageSize}
-            style={{ padding: "0.5rem 1rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: results.length < pageSize ? "not-allowed" : "pointer" }}
-          >
-            Next
-          </button>
-        </div>
+        {!loading && (
+          <LoadMore
+            hasMore={nextCursor !== null}
+            loading={loadingMore}
+            onLoadMore={() => fetchEmployees(true)}
+            summary={`Showing ${results.length} of ${total}`}
+          />
+        )}
       </div>
     </div>
   );
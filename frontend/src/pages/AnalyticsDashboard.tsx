@@ -1,36 +1,33 @@
 import React, { useEffect, useState } from "react";
 import { graphqlRequest } from "../lib/graphqlClient";
-import { Bar, Line } from "react-chartjs-2";
-import "chart.js/auto";
+import { graphql } from "../graphql/generated";
+import type { EmployeeAnalyticsQuery } from "../graphql/generated/graphql";
+import { EMPLOYEE_STATUS, styleOf } from "../lib/statuses";
 
-interface PerformanceStats {
-  attendance: number;
-  notesCount: number;
-  reviewCount: number;
-  status: string;
-  flagged: boolean;
-}
+type PerformanceStats = NonNullable<EmployeeAnalyticsQuery["employeePerformanceStats"]>;
 
-interface AttendanceTrend {
-  date: string;
-  attendance: number;
-}
+const EMPLOYEE_ANALYTICS_QUERY = graphql(`
+  query EmployeeAnalytics($employeeId: Int!) {
+    employeePerformanceStats(employeeId: $employeeId) {
+      attendance
+      notesCount
+      reviewCount
+      status
+      flagged
+    }
+  }
+`);
 
 const AnalyticsDashboard: React.FC = () => {
   const [employeeId, setEmployeeId] = useState<string>("");
   const [stats, setStats] = useState<PerformanceStats | null>(null);
-  const [trends, setTrends] = useState<AttendanceTrend[]>([]);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (!employeeId) return;
     setLoading(true);
-    graphqlRequest(
-      `query($employeeId: Int!) { employeePerformanceStats(employeeId: $employeeId) { attendance notesCount reviewCount status flagged } attendanceTrends(employeeId: $employeeId) { date attendance } }`,
-      { employeeId: Number(employeeId) }
-    ).then((data) => {
+    graphqlRequest(EMPLOYEE_ANALYTICS_QUERY, { employeeId: Number(employeeId) }).then((data) => {
       setStats(data.employeePerformanceStats);
-      setTrends(data.attendanceTrends);
     }).finally(() => setLoading(false));
   }, [employeeId]);
 
@@ -54,29 +51,11 @@ const AnalyticsDashboard: React.FC = () => {
             <li>Attendance: {stats.attendance}%</li>
             <li>Notes Received: {stats.notesCount}</li>
             <li>Review Requests: {stats.reviewCount}</li>
-            <li>Status: {stats.status}</li>
+            <li>Status: {styleOf(EMPLOYEE_STATUS, stats.status).label}</li>
             <li>Flagged: {stats.flagged ? "Yes" : "No"}</li>
           </ul>
         </div>
       )}
-      {trends.length > 0 && (
-        <div>
-          <h2>Attendance Trends</h2>
-          <Line
-            data={{
-              labels: trends.map(t => t.date),
-              datasets: [{
-                label: "Attendance %",
-                data: trends.map(t => t.attendance),
-                backgroundColor: "#3b82f6",
-                borderColor: "#3b82f6",
-                fill: false,
-              }],
-            }}
-            options={{ responsive: true, plugins: { legend: { display: true } } }}
-          />
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,377 @@
+import React, { useCallback, useContext, useEffect, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { formatRelativeTime } from "../lib/dateUtils";
+import { graphql } from "../graphql/generated";
+
+type ApiKey = {
+  id: number;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  allowedIps: string[];
+  createdByEmail: string | null;
+  status: "ACTIVE" | "EXPIRED" | "REVOKED";
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+};
+
+const API_KEY_FIELDS = graphql(`
+  fragment ApiKeyFields on ApiKey {
+    id
+    name
+    prefix
+    scopes
+    allowedIps
+    createdByEmail
+    status
+    expiresAt
+    lastUsedAt
+    lastUsedIp
+    createdAt
+  }
+`);
+
+const API_KEYS_QUERY = graphql(`
+  query ApiKeys {
+    apiKeys {
+      ...ApiKeyFields
+    }
+    apiKeyScopes
+  }
+`);
+
+const CREATE_API_KEY_MUTATION = graphql(`
+  mutation CreateApiKey($input: ApiKeyInput!) {
+    createApiKey(input: $input) {
+      key
+      apiKey {
+        ...ApiKeyFields
+      }
+    }
+  }
+`);
+
+const REVOKE_API_KEY_MUTATION = graphql(`
+  mutation RevokeApiKey($id: Int!) {
+    revokeApiKey(id: $id) {
+      id
+      status
+    }
+  }
+`);
+
+const STATUS_COLORS: Record<ApiKey["status"], { background: string; color: string }> = {
+  ACTIVE: { background: "#d1fae5", color: "#065f46" },
+  REVOKED: { background: "#fee2e2", color: "#991b1b" },
+  EXPIRED: { background: "#f3f4f6", color: "#4b5563" },
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "0.5rem 0.75rem",
+  border: "1px solid #d1d5db",
+  borderRadius: "6px",
+  fontSize: "0.9rem",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "0.25rem",
+  fontSize: "0.85rem",
+  color: "#374151",
+};
+
+const cellStyle: React.CSSProperties = { padding: "1rem", borderBottom: "1px solid #e5e7eb" };
+
+export const ApiKeysPage: React.FC = () => {
+  const { accessToken, user } = useContext(AuthContext);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("90");
+  const [allowedIps, setAllowedIps] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  // Full key of the one just created - it can't be fetched again
+  const [createdKey, setCreatedKey] = useState<{ name: string; key: string } | null>(null);
+
+  const fetchApiKeys = useCallback(async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data: any = await graphqlRequest(API_KEYS_QUERY, {}, accessToken, { bypassCache: true });
+      setApiKeys(data.apiKeys);
+      setAvailableScopes(data.apiKeyScopes);
+    } catch (err: any) {
+      setError(err.message || "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (hasPermission(user, "apiKey.manage")) fetchApiKeys();
+  }, [fetchApiKeys, user?.permissions]);
+
+  const toggleScope = (scope: string) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scopes.length === 0) {
+      alert("Choose at least one scope");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const data: any = await graphqlRequest(
+        CREATE_API_KEY_MUTATION,
+        {
+          input: {
+            name,
+            scopes,
+            expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+            allowedIps: allowedIps
+              .split(/[\s,]+/)
+              .map((entry) => entry.trim())
+              .filter(Boolean),
+          },
+        },
+        accessToken,
+      );
+      setCreatedKey({ name: data.createApiKey.apiKey.name, key: data.createApiKey.key });
+      setName("");
+      setScopes([]);
+      setAllowedIps("");
+      fetchApiKeys();
+    } catch (err: any) {
+      alert("Failed to create API key: " + err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke "${apiKey.name}"? Anything using this key stops working immediately.`)) return;
+    try {
+      await graphqlRequest(REVOKE_API_KEY_MUTATION, { id: apiKey.id }, accessToken);
+      fetchApiKeys();
+    } catch (err: any) {
+      alert("Failed to revoke API key: " + err.message);
+    }
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey.key);
+    } catch {
+      window.prompt("Copy the API key:", createdKey.key);
+    }
+  };
+
+  if (!hasPermission(user, "apiKey.manage")) {
+    return (
+      <div style={{ padding: "2rem" }}>
+        <h1>API Keys</h1>
+        <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
+          <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>Access Denied</h2>
+          <p style={{ color: "#7f1d1d", margin: 0 }}>Your role doesn't include the apiKey.manage permission.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: "2rem" }}>
+      <div style={{ marginBottom: "1.5rem" }}>
+        <h1 style={{ margin: 0 }}>API Keys</h1>
+        <p style={{ margin: "0.5rem 0 0 0", color: "#6b7280" }}>
+          Keys let scripts and integrations call the API without a user login. Send them as{" "}
+          <code>Authorization: Bearer &lt;key&gt;</code>.
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.75rem",
+          alignItems: "flex-end",
+          padding: "1.25rem",
+          background: "white",
+          border: "1px solid #e5e7eb",
+          borderRadius: "8px",
+          marginBottom: "1rem",
+        }}
+      >
+        <label style={labelStyle}>
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Payroll sync"
+            required
+            style={inputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Expires
+          <select value={expiresInDays} onChange={(e) => setExpiresInDays(e.target.value)} style={inputStyle}>
+            <option value="30">In 30 days</option>
+            <option value="90">In 90 days</option>
+            <option value="365">In 1 year</option>
+            <option value="">Never</option>
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Allowed IPs (optional)
+          <input
+            type="text"
+            value={allowedIps}
+            onChange={(e) => setAllowedIps(e.target.value)}
+            placeholder="203.0.113.7, 10.0.0.0/8"
+            style={{ ...inputStyle, width: "16rem" }}
+          />
+        </label>
+        <fieldset style={{ ...labelStyle, border: "none", padding: 0, margin: 0 }}>
+          <legend style={{ marginBottom: "0.25rem" }}>Scopes</legend>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+            {availableScopes.map((scope) => (
+              <label key={scope} style={{ display: "flex", alignItems: "center", gap: "0.3rem" }}>
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                <code>{scope}</code>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <button
+          type="submit"
+          disabled={submitting}
+          style={{ padding: "0.6rem 1.2rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", fontWeight: 600 }}
+        >
+          {submitting ? "Creating..." : "Create key"}
+        </button>
+      </form>
+
+      {createdKey && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "1rem",
+            padding: "1rem",
+            background: "#ecfdf5",
+            border: "1px solid #a7f3d0",
+            borderRadius: "8px",
+            marginBottom: "1rem",
+          }}
+        >
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 600, color: "#065f46" }}>
+              Key for "{createdKey.name}" - copy it now, it won't be shown again
+            </div>
+            <div style={{ fontSize: "0.8rem", color: "#047857", wordBreak: "break-all", fontFamily: "monospace" }}>
+              {createdKey.key}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={copyCreatedKey}
+            style={{ padding: "0.4rem 0.8rem", background: "#10b981", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", whiteSpace: "nowrap" }}
+          >
+            Copy key
+          </button>
+        </div>
+      )}
+
+      {error && <p style={{ color: "#991b1b" }}>{error}</p>}
+
+      {loading ? (
+        <p>Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <div style={{ padding: "3rem", textAlign: "center", background: "white", borderRadius: "8px", border: "1px solid #e5e7eb" }}>
+          <p style={{ color: "#6b7280", margin: 0 }}>No API keys yet</p>
+        </div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", background: "white", borderRadius: "8px", overflow: "hidden", border: "1px solid #e5e7eb" }}>
+            <thead style={{ background: "#f9fafb" }}>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Name</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Scopes</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Status</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Last used</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Expires</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Created</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.map((apiKey) => (
+                <tr key={apiKey.id}>
+                  <td style={cellStyle}>
+                    <div>{apiKey.name}</div>
+                    <div style={{ fontSize: "0.8rem", color: "#6b7280", fontFamily: "monospace" }}>{apiKey.prefix}...</div>
+                    {apiKey.allowedIps.length > 0 && (
+                      <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>Only from {apiKey.allowedIps.join(", ")}</div>
+                    )}
+                  </td>
+                  <td style={cellStyle}>
+                    {apiKey.scopes.map((scope) => (
+                      <div key={scope}>
+                        <code style={{ fontSize: "0.8rem" }}>{scope}</code>
+                      </div>
+                    ))}
+                  </td>
+                  <td style={cellStyle}>
+                    <span style={{ padding: "0.25rem 0.75rem", borderRadius: "12px", fontSize: "0.8rem", ...STATUS_COLORS[apiKey.status] }}>
+                      {apiKey.status}
+                    </span>
+                  </td>
+                  <td style={cellStyle}>
+                    {apiKey.lastUsedAt ? (
+                      <>
+                        <div>{formatRelativeTime(apiKey.lastUsedAt)}</div>
+                        {apiKey.lastUsedIp && <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>{apiKey.lastUsedIp}</div>}
+                      </>
+                    ) : (
+                      <span style={{ color: "#6b7280" }}>Never</span>
+                    )}
+                  </td>
+                  <td style={cellStyle}>{apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleDateString() : "Never"}</td>
+                  <td style={cellStyle}>
+                    <div>{formatRelativeTime(apiKey.createdAt)}</div>
+                    <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>{apiKey.createdByEmail || "-"}</div>
+                  </td>
+                  <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                    {apiKey.status === "ACTIVE" && (
+                      <button
+                        onClick={() => handleRevoke(apiKey)}
+                        style={{ padding: "0.4rem 0.8rem", background: "#ef4444", color: "white", border: "none", borderRadius: "6px", cursor: "pointer" }}
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
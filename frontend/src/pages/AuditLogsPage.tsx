@@ -1,33 +1,37 @@
 ﻿import React, { useEffect, useState, useContext } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { nodesOf } from "../lib/connections";
+import { LoadMore } from "../components/LoadMore";
+import { graphql } from "../graphql/generated";
+import type { AuditLogsQuery } from "../graphql/generated/graphql";
 
-type AccessLog = {
-  id: number;
-  userEmail: string;
-  action: string;
-  details: string | null;
-  ipAddress: string | null;
-  createdAt: string;
-};
-
-type AuditLogsQueryResult = {
-  accessLogs: AccessLog[];
-};
+type AccessLog = AuditLogsQuery["accessLogs"]["edges"][number]["node"];
 
-const AUDIT_LOGS_QUERY = `
-  query AuditLogs($page: Int, $pageSize: Int) {
-    accessLogs(page: $page, pageSize: $pageSize) {
-      id
-      userId
-      userEmail
-      action
-      details
-      ipAddress
-      createdAt
+const AUDIT_LOGS_QUERY = graphql(`
+  query AuditLogs($first: Int, $after: String) {
+    accessLogs(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          userId
+          userEmail
+          impersonatorEmail
+          action
+          details
+          ipAddress
+          createdAt
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
     }
   }
-`;
+`);
 
 const formatDetails = (details: string | null): string => {
   if (!details) return "-";
@@ -44,30 +48,41 @@ export const AuditLogsPage: React.FC = () => {
   const [logs, setLogs] = useState<AccessLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
-  const [page, setPage] = useState(1);
   const [pageSize] = useState(50);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     void fetchLogs();
-  }, [page]);
+  }, []);
 
-  const fetchLogs = async () => {
+  // Newest logs first; loading more continues after nextCursor
+  const fetchLogs = async (loadMore = false) => {
     if (!accessToken) {
       setLogs([]);
       setLoading(false);
       return;
     }
 
-    setLoading(true);
+    if (loadMore) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     try {
-      const result = await graphqlRequest<AuditLogsQueryResult>(
+      const result = await graphqlRequest(
         AUDIT_LOGS_QUERY,
-        { page, pageSize },
+        { first: pageSize, after: loadMore ? nextCursor : null },
         accessToken,
       );
-      setLogs(result.accessLogs || []);
+      const page = nodesOf(result.accessLogs);
+      setLogs((current) => (loadMore ? [...current, ...page] : page));
+      setTotal(result.accessLogs.totalCount);
+      setNextCursor(result.accessLogs.pageInfo.hasNextPage ? result.accessLogs.pageInfo.endCursor : null);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
@@ -75,15 +90,16 @@ export const AuditLogsPage: React.FC = () => {
   const filteredLogs = logs.filter(
     (log) =>
       log.userEmail.toLowerCase().includes(normalizedSearch) ||
+      (log.impersonatorEmail && log.impersonatorEmail.toLowerCase().includes(normalizedSearch)) ||
       log.action.toLowerCase().includes(normalizedSearch) ||
       (log.details && log.details.toLowerCase().includes(normalizedSearch)),
   );
 
-  if (!user || (user.role !== "director" && user.role !== "manager")) {
+  if (!hasPermission(user, "audit.read")) {
     return (
       <div style={{ padding: "2rem", textAlign: "center" }}>
         <h2>Access Denied</h2>
-        <p>Only Directors and Managers can view audit logs.</p>
+        <p>Your role doesn't include the audit.read permission.</p>
       </div>
     );
   }
@@ -125,7 +141,12 @@ export const AuditLogsPage: React.FC = () => {
               filteredLogs.map((log) => (
                 <tr key={log.id} style={{ borderBottom: "1px solid #e5e7eb" }}>
                   <td style={{ padding: "0.75rem", color: "#6b7280" }}>{new Date(log.createdAt).toLocaleString()}</td>
-                  <td style={{ padding: "0.75rem" }}>{log.userEmail}</td>
+                  <td style={{ padding: "0.75rem" }}>
+                    {log.userEmail}
+                    {log.impersonatorEmail && (
+                      <div style={{ fontSize: "0.8rem", color: "#b45309" }}>by {log.impersonatorEmail} (view as)</div>
+                    )}
+                  </td>
                   <td style={{ padding: "0.75rem", fontWeight: "bold" }}>{log.action}</td>
                   <td style={{ padding: "0.75rem", maxWidth: "420px" }}>
                     <details>
@@ -153,36 +174,14 @@ export const AuditLogsPage: React.FC = () => {
           </tbody>
         </table>
       )}
-      <div style={{ marginTop: "2rem", display: "flex", justifyContent: "center", gap: "1rem" }}>
-        <button
-          onClick={() => setPage((p) => Math.max(1, p - 1))}
-          disabled={page === 1}
-          style={{
-            padding: "0.5rem 1rem",
-            background: "#3b82f6",
-            color: "white",
-            border: "none",
-            borderRadius: "6px",
-            cursor: page === 1 ? "not-allowed" : "pointer",
-          }}
-        >
-          Previous
-        </button>
-        <span>Page {page}</span>
-        <button
-          onClick={() => setPage((p) => p + 1)}
-          style={{
-            padding: "0.5rem 1rem",
-            background: "#3b82f6",
-            color: "white",
-            border: "none",
-            borderRadius: "6px",
-            cursor: "pointer",
-          }}
-        >
-          Next
-        </button>
-      </div>
+      {!loading && (
+        <LoadMore
+          hasMore={nextCursor !== null}
+          loading={loadingMore}
+          onLoadMore={() => void fetchLogs(true)}
+          summary={`Showing ${logs.length} of ${total}`}
+        />
+      )}
     </div>
   );
 };
@@ -1,14 +1,19 @@
 import React, { useContext, useEffect, useMemo, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { portalRole } from "../lib/permissions";
 import { sanitizeAndDedupeEmployees } from "../lib/employeeUtils";
 import { trackClientError } from "../lib/errorTracking";
 import { getStorageItem, setStorageItem } from "../lib/safeStorage";
 import { formatRelativeTime } from "../lib/dateUtils";
+import { MAX_PAGE_SIZE, fetchAllNodes, nodesOf, type Connection } from "../lib/connections";
 import { useCurrentTime } from "../hooks/useCurrentTime";
 import { getCurrentFestivalTheme } from "../festivalThemes";
 import { WeatherTimeWidget } from "../components/dashboard/WeatherTimeWidget";
 import type { AppPage } from "../types/navigation";
+import { EMPLOYEE_STATUS, NOTIFICATION_TYPE, styleOf, type EmployeeStatus, type LeaveStatus, type NotificationType } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { DashboardEmployeesQuery } from "../graphql/generated/graphql";
 
 // Add Props type for navigation
 type DashboardPageProps = {
@@ -20,7 +25,7 @@ type Employee = {
   name: string;
   email: string;
   attendance: number;
-  status: string;
+  status: EmployeeStatus;
   role: string;
   flagged: boolean;
   className: string;
@@ -36,33 +41,40 @@ type LeaveRequest = {
   startDate: string;
   endDate: string;
   reason: string;
-  status: string;
+  status: LeaveStatus;
 };
 
-const EMPLOYEES_QUERY = `
-  query Employees {
-    employees(page: 1, pageSize: 300) {
-      items {
-        id
-        name
-        email
-        attendance
-        status
-        role
-        flagged
-        className
-        location
-        managerId
-        createdAt
-        updatedAt
+// Dashboard stats cover everyone the caller can see, so every page is fetched
+const EMPLOYEES_QUERY = graphql(`
+  query DashboardEmployees($first: Int, $after: String) {
+    employees(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          name
+          email
+          attendance
+          status
+          role
+          flagged
+          className
+          location
+          managerId
+          createdAt
+          updatedAt
+        }
       }
-      total
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
     }
   }
-`;
+`);
 
-const LEAVE_REQUESTS_QUERY = `
-  query LeaveRequests {
+const LEAVE_REQUESTS_QUERY = graphql(`
+  query DashboardLeaveRequests {
     leaveRequests {
       id
       employeeId
@@ -72,10 +84,10 @@ const LEAVE_REQUESTS_QUERY = `
       status
     }
   }
-`;
+`);
 
-const MY_LEAVE_REQUESTS_QUERY = `
-  query MyLeaveRequests {
+const MY_LEAVE_REQUESTS_QUERY = graphql(`
+  query DashboardMyLeaveRequests {
     myLeaveRequests {
       id
       employeeId
@@ -85,40 +97,48 @@ const MY_LEAVE_REQUESTS_QUERY = `
       status
     }
   }
-`;
+`);
 
-const RECENT_ACTIVITIES_QUERY = `
+const RECENT_ACTIVITIES_QUERY = graphql(`
   query RecentActivities {
-    accessLogs(page: 1, pageSize: 10) {
-      id
-      action
-      details
-      createdAt
+    accessLogs(first: 10) {
+      edges {
+        node {
+          id
+          action
+          details
+          createdAt
+        }
+      }
     }
   }
-`;
+`);
 
-const MY_NOTIFICATIONS_QUERY = `
+const MY_NOTIFICATIONS_QUERY = graphql(`
   query MyNotifications {
-    notifications {
-      id
-      title
-      message
-      type
-      createdAt
+    notifications(first: 8) {
+      edges {
+        node {
+          id
+          title
+          message
+          type
+          createdAt
+        }
+      }
     }
   }
-`;
+`);
 
-const UPDATE_LEAVE_STATUS_MUTATION = `
-  mutation UpdateLeaveRequestStatus($id: Int!, $status: String!, $adminNote: String) {
+const UPDATE_LEAVE_STATUS_MUTATION = graphql(`
+  mutation DashboardUpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {
     updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {
       id
       status
       updatedAt
     }
   }
-`;
+`);
 
 type Activity = {
   id: string;
@@ -140,15 +160,11 @@ type Notification = {
   id: number;
   title: string;
   message: string;
-  type: string;
+  type: NotificationType;
   createdAt: string;
 };
 
-type EmployeesResponse = {
-  employees: {
-    items: Employee[];
-  };
-};
+type EmployeesResponse = DashboardEmployeesQuery;
 
 type LeaveRequestsResponse = {
   leaveRequests: LeaveRequest[];
@@ -159,11 +175,11 @@ type MyLeaveRequestsResponse = {
 };
 
 type LogsResponse = {
-  accessLogs: AccessLog[];
+  accessLogs: Connection<AccessLog>;
 };
 
 type NotificationsResponse = {
-  notifications: Notification[];
+  notifications: Connection<Notification>;
 };
 
 type Coordinates = {
@@ -197,7 +213,21 @@ function isEmployeesResponse(value: unknown): value is EmployeesResponse {
   if (!isObject(value) || !isObject(value.employees)) {
     return false;
   }
-  return Array.isArray(value.employees.items);
+  return Array.isArray(value.employees.edges);
+}
+
+// Fields the caller may not see come back null - count them as zero/empty in the stats
+function toDashboardEmployee(node: DashboardEmployeesQuery["employees"]["edges"][number]["node"]): Employee {
+  return {
+    ...node,
+    email: node.email ?? "",
+    attendance: node.attendance ?? 0,
+    status: node.status ?? "ACTIVE",
+    flagged: node.flagged ?? false,
+    className: node.className ?? "",
+    createdAt: node.createdAt ?? "",
+    updatedAt: node.updatedAt ?? "",
+  };
 }
 
 function isLeaveRequestsResponse(value: unknown): value is LeaveRequestsResponse {
@@ -209,11 +239,11 @@ function isMyLeaveRequestsResponse(value: unknown): value is MyLeaveRequestsResp
 }
 
 function isLogsResponse(value: unknown): value is LogsResponse {
-  return isObject(value) && Array.isArray(value.accessLogs);
+  return isObject(value) && isObject(value.accessLogs) && Array.isArray(value.accessLogs.edges);
 }
 
 function isNotificationsResponse(value: unknown): value is NotificationsResponse {
-  return isObject(value) && Array.isArray(value.notifications);
+  return isObject(value) && isObject(value.notifications) && Array.isArray(value.notifications.edges);
 }
 
 function isWeatherData(value: unknown): value is WeatherData {
@@ -275,9 +305,11 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
   
   const currentTime = useCurrentTime();
 
-  const isDirector = user?.role === 'director';
-  const isManager = user?.role === 'manager';
-  const isEmployee = user?.role === 'employee';
+  // Which dashboard layout to show - custom roles get the closest built-in one
+  const dashboardRole = portalRole(user);
+  const isDirector = dashboardRole === 'director';
+  const isManager = dashboardRole === 'manager';
+  const isEmployee = dashboardRole === 'employee';
   const festival = getCurrentFestivalTheme();
 
   useEffect(() => {
@@ -564,21 +596,20 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
     return '#34495e';
   };
 
-  const getNotificationIcon = (type: string): string => {
-    if (type === 'MESSAGE') return 'MSG';
-    if (type === 'APPROVAL') return 'OK';
-    if (type === 'WARNING') return 'WARN';
-    if (type === 'CRITICAL') return 'ALERT';
-    return 'INFO';
-  };
+  const getNotificationIcon = (type: string): string => styleOf(NOTIFICATION_TYPE, type).icon;
 
-  const getNotificationColor = (type: string): string => {
-    if (type === 'MESSAGE') return '#3498db';
-    if (type === 'APPROVAL') return '#27ae60';
-    if (type === 'WARNING') return '#f39c12';
-    if (type === 'CRITICAL') return '#e74c3c';
-    return '#95a5a6';
-  };
+  const getNotificationColor = (type: string): string => styleOf(NOTIFICATION_TYPE, type).color;
+
+  const fetchAllEmployees = () =>
+    fetchAllNodes(async (after) => {
+      const data = await graphqlRequest(
+        EMPLOYEES_QUERY,
+        { first: MAX_PAGE_SIZE, after },
+        accessToken,
+        { validate: isEmployeesResponse },
+      );
+      return data.employees;
+    }).then((nodes) => nodes.map(toDashboardEmployee));
 
   const fetchData = async () => {
     if (!accessToken) {
@@ -589,23 +620,21 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
     setLoading(true);
     try {
       if (isEmployee) {
-        const [employeesData, leaveData, notificationsData] = await Promise.all([
-          graphqlRequest<EmployeesResponse>(EMPLOYEES_QUERY, {}, accessToken, {
-            validate: isEmployeesResponse,
-          }),
-          graphqlRequest<MyLeaveRequestsResponse>(MY_LEAVE_REQUESTS_QUERY, {}, accessToken, {
+        const [allEmployees, leaveData, notificationsData] = await Promise.all([
+          fetchAllEmployees(),
+          graphqlRequest(MY_LEAVE_REQUESTS_QUERY, {}, accessToken, {
             validate: isMyLeaveRequestsResponse,
           }).catch(() => ({ myLeaveRequests: [] })),
-          graphqlRequest<NotificationsResponse>(MY_NOTIFICATIONS_QUERY, {}, accessToken, {
+          graphqlRequest(MY_NOTIFICATIONS_QUERY, {}, accessToken, {
             validate: isNotificationsResponse,
-          }).catch(() => ({ notifications: [] })),
+          }).catch(() => null),
         ]);
 
-        setEmployees(sanitizeAndDedupeEmployees(employeesData.employees.items || []));
+        setEmployees(sanitizeAndDedupeEmployees(allEmployees));
         setLeaveRequests(leaveData.myLeaveRequests || []);
 
         const recentActivities: Activity[] = [];
-        (notificationsData.notifications || []).slice(0, 8).forEach((notif: Notification) => {
+        nodesOf(notificationsData?.notifications).slice(0, 8).forEach((notif: Notification) => {
           recentActivities.push({
             id: `notif-${notif.id}`,
             icon: getNotificationIcon(notif.type),
@@ -619,23 +648,21 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
         return;
       }
 
-      const logsPromise = graphqlRequest<LogsResponse>(RECENT_ACTIVITIES_QUERY, {}, accessToken, {
+      const logsPromise = graphqlRequest(RECENT_ACTIVITIES_QUERY, {}, accessToken, {
         validate: isLogsResponse,
-      }).catch(() => ({ accessLogs: [] as AccessLog[] }));
-      const notificationsPromise = graphqlRequest<NotificationsResponse>(MY_NOTIFICATIONS_QUERY, {}, accessToken, {
+      }).catch(() => null);
+      const notificationsPromise = graphqlRequest(MY_NOTIFICATIONS_QUERY, {}, accessToken, {
         validate: isNotificationsResponse,
-      }).catch(() => ({ notifications: [] as Notification[] }));
+      }).catch(() => null);
 
-      const [employeesData, leaveData] = await Promise.all([
-        graphqlRequest<EmployeesResponse>(EMPLOYEES_QUERY, {}, accessToken, {
-          validate: isEmployeesResponse,
-        }),
-        graphqlRequest<LeaveRequestsResponse>(LEAVE_REQUESTS_QUERY, {}, accessToken, {
+      const [allEmployees, leaveData] = await Promise.all([
+        fetchAllEmployees(),
+        graphqlRequest(LEAVE_REQUESTS_QUERY, {}, accessToken, {
           validate: isLeaveRequestsResponse,
         }).catch(() => ({ leaveRequests: [] })),
       ]);
       
-      setEmployees(sanitizeAndDedupeEmployees(employeesData.employees.items || []));
+      setEmployees(sanitizeAndDedupeEmployees(allEmployees));
       setLeaveRequests(leaveData.leaveRequests || []);
 
       const [logsData, notificationsData] = await Promise.all([logsPromise, notificationsPromise]);
@@ -644,7 +671,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
       const recentActivities: Activity[] = [];
       
       // Add access logs
-      (logsData.accessLogs || []).forEach((log: AccessLog) => {
+      nodesOf(logsData?.accessLogs).forEach((log: AccessLog) => {
         recentActivities.push({
           id: `log-${log.id}`,
           icon: getActivityIcon(log.action),
@@ -656,7 +683,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
       });
       
       // Add notifications
-      (notificationsData.notifications || []).slice(0, 5).forEach((notif: Notification) => {
+      nodesOf(notificationsData?.notifications).slice(0, 5).forEach((notif: Notification) => {
         recentActivities.push({
           id: `notif-${notif.id}`,
           icon: getNotificationIcon(notif.type),
@@ -679,7 +706,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
     }
   };
 
-  const handleLeaveDecision = async (requestId: number, status: "approved" | "rejected") => {
+  const handleLeaveDecision = async (requestId: number, status: Extract<LeaveStatus, "APPROVED" | "REJECTED">) => {
     if (!accessToken) {
       return;
     }
@@ -691,7 +718,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
         {
           id: requestId,
           status,
-          adminNote: status === "approved" ? "Approved from dashboard" : "Rejected from dashboard",
+          adminNote: status === "APPROVED" ? "Approved from dashboard" : "Rejected from dashboard",
         },
         accessToken,
       );
@@ -722,8 +749,8 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
 
   // Calculate stats based on filtered employees
   const totalEmployees = filteredEmployees.length;
-  const activeEmployees = filteredEmployees.filter(e => e.status === 'active').length;
-  const inactiveEmployees = filteredEmployees.filter(e => e.status !== 'active').length;
+  const activeEmployees = filteredEmployees.filter(e => e.status === 'ACTIVE').length;
+  const inactiveEmployees = filteredEmployees.filter(e => e.status !== 'ACTIVE').length;
   const flaggedEmployees = filteredEmployees.filter(e => e.flagged).length;
   const avgAttendance = filteredEmployees.length > 0 
     ? Math.round(filteredEmployees.reduce((sum, e) => sum + e.attendance, 0) / filteredEmployees.length) 
@@ -737,10 +764,10 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
   ).length;
 
   // Leave requests
-  const pendingLeaves = leaveRequests.filter(lr => lr.status === 'pending').length;
+  const pendingLeaves = leaveRequests.filter(lr => lr.status === 'PENDING').length;
   const todayStr = now.toISOString().split('T')[0];
   const onLeaveToday = leaveRequests.filter(lr => 
-    lr.status === 'approved' && 
+    lr.status === 'APPROVED' && 
     lr.startDate <= todayStr && 
     lr.endDate >= todayStr
   ).length;
@@ -780,7 +807,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
   );
   const myLeaveBalance = 20; // TODO: Calculate from leave requests
   const myNextLeave = leaveRequests
-    .filter(lr => lr.status === 'approved' && lr.startDate > todayStr)
+    .filter(lr => lr.status === 'APPROVED' && lr.startDate > todayStr)
     .sort((a, b) => a.startDate.localeCompare(b.startDate))[0];
 
   const weatherWidget = weather ? (
@@ -890,12 +917,12 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
                     <div style={{
                       padding: '8px 16px',
                       borderRadius: '20px',
-                      background: emp.status === 'active' ? '#27ae60' : '#e74c3c',
+                      background: emp.status === 'ACTIVE' ? '#27ae60' : '#e74c3c',
                       color: 'white',
                       fontSize: '12px',
                       fontWeight: 'bold'
                     }}>
-                      {emp.status === 'active' ? 'Active' : 'Inactive'}
+                      {emp.status === 'ACTIVE' ? 'Active' : 'Inactive'}
                     </div>
                   </div>
                 ))}
@@ -1277,7 +1304,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
             clickable={true}
             onClick={() => {
               setModalType('active-inactive');
-              setModalData({ active: filteredEmployees.filter(e => e.status === 'active'), inactive: filteredEmployees.filter(e => e.status !== 'active') });
+              setModalData({ active: filteredEmployees.filter(e => e.status === 'ACTIVE'), inactive: filteredEmployees.filter(e => e.status !== 'ACTIVE') });
               setShowModal(true);
             }}
           />
@@ -1320,7 +1347,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
             onClick={() => {
               const todayStr = new Date().toISOString().split('T')[0];
               const onLeave = leaveRequests.filter(lr => 
-                lr.status === 'approved' && 
+                lr.status === 'APPROVED' && 
                 lr.startDate <= todayStr && 
                 lr.endDate >= todayStr
               );
@@ -1471,7 +1498,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
                   </div>
                 ))}
                 {/* Terminated/Inactive Employees */}
-                {filteredEmployees.filter(e => e.status !== 'active' && !e.flagged).map(emp => (
+                {filteredEmployees.filter(e => e.status !== 'ACTIVE' && !e.flagged).map(emp => (
                   <div key={`inactive-${emp.id}`} style={{
                     padding: '15px',
                     background: '#f8f9fa',
@@ -1481,7 +1508,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
                     <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'start', marginBottom: '10px' }}>
                       <div style={{ flex: 1 }}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '5px' }}>
-                          <span style={{ fontSize: '20px' }}>{emp.status.toUpperCase()}</span>
+                          <span style={{ fontSize: '20px' }}>{styleOf(EMPLOYEE_STATUS, emp.status).label.toUpperCase()}</span>
                           <div style={{ fontWeight: '700', color: '#6c757d', fontSize: '16px', textDecoration: 'line-through' }}>{emp.name}</div>
                         </div>
                         <div style={{ fontSize: '13px', color: '#95a5a6', marginLeft: '28px' }}>{emp.role} | {emp.className}</div>
@@ -1493,7 +1520,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
                         borderRadius: '12px',
                         fontSize: '11px',
                         fontWeight: '700'
-                      }}>{emp.status.toUpperCase()}</span>
+                      }}>{styleOf(EMPLOYEE_STATUS, emp.status).label.toUpperCase()}</span>
                     </div>
                     <div style={{
                       marginLeft: '28px',
@@ -1567,7 +1594,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
     const upcomingLeaves = leaveRequests.filter(lr => {
       const sevenDaysFromNow = new Date();
       sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7);
-      return lr.status === 'approved' && 
+      return lr.status === 'APPROVED' && 
              lr.startDate > todayStr && 
              lr.startDate <= sevenDaysFromNow.toISOString().split('T')[0];
     }).length;
@@ -1737,7 +1764,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
               </p>
             ) : (
               <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-                {leaveRequests.filter(lr => lr.status === 'pending').slice(0, 5).map(req => (
+                {leaveRequests.filter(lr => lr.status === 'PENDING').slice(0, 5).map(req => (
                   <div key={req.id} style={{
                     padding: '15px',
                     background: '#fffbf0',
@@ -1753,7 +1780,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
                     <div style={{ display: 'flex', gap: '10px' }}>
                       <button
                         onClick={() => {
-                          void handleLeaveDecision(req.id, 'approved');
+                          void handleLeaveDecision(req.id, 'APPROVED');
                         }}
                         disabled={updatingLeaveId === req.id}
                         style={{
@@ -1772,7 +1799,7 @@ export const DashboardPage: React.FC<DashboardPageProps> = ({ onNavigate }) => {
                       </button>
                       <button
                         onClick={() => {
-                          void handleLeaveDecision(req.id, 'rejected');
+                          void handleLeaveDecision(req.id, 'REJECTED');
                         }}
                         disabled={updatingLeaveId === req.id}
                         style={{
@@ -1,49 +1,49 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { graphqlRequest } from '../lib/graphqlClient';
+import { hasPermission } from '../lib/permissions';
 import { useAuth } from '../auth/authContext';
 import { sanitizeAndDedupeEmployees } from '../lib/employeeUtils';
-
-type Employee = {
-  id: number;
-  name: string;
-  email: string | null;
-  userId: number | null;
-  role: string;
-  status: string;
-};
-
-type EmployeesQueryResult = {
-  employees: {
-    items: Employee[];
-  };
-};
-
-type GenerateLoginsResult = {
-  generateEmployeeLogins: {
-    success: boolean;
-    message: string;
-    created: number;
-    skipped: number;
-    failed: number;
-  };
+import { nodesOf } from '../lib/connections';
+import { LoadMore } from '../components/LoadMore';
+import { EMPLOYEE_STATUS, styleOf } from '../lib/statuses';
+import { graphql } from '../graphql/generated';
+import type { EmployeeLoginCandidatesQuery } from '../graphql/generated/graphql';
+
+type Employee = EmployeeLoginCandidatesQuery['employees']['edges'][number]['node'];
+
+type GeneratedLogin = {
+  employeeId: number;
+  email: string;
+  temporaryPassword: string;
 };
 
-const EMPLOYEES_QUERY = `
-  query Employees {
-    employees(pageSize: 1000) {
-      items {
-        id
-        name
-        email
-        userId
-        role
-        status
+// The counts come from totalCount, so they cover everyone, not just the rows loaded so far
+const EMPLOYEES_QUERY = graphql(`
+  query EmployeeLoginCandidates($after: String) {
+    employees(first: 50, after: $after) {
+      edges {
+        node {
+          id
+          name
+          email
+          userId
+          role
+          status
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
       }
+      totalCount
+    }
+    withoutLogin: employees(filter: { hasLogin: false }, first: 1) {
+      totalCount
     }
   }
-`;
+`);
 
-const GENERATE_LOGINS_MUTATION = `
+const GENERATE_LOGINS_MUTATION = graphql(`
   mutation GenerateEmployeeLogins {
     generateEmployeeLogins {
       success
@@ -51,28 +51,29 @@ const GENERATE_LOGINS_MUTATION = `
       created
       skipped
       failed
+      credentials {
+        employeeId
+        email
+        temporaryPassword
+      }
     }
   }
-`;
+`);
 
 export default function EmployeeLoginsPage() {
   const { user, accessToken } = useAuth();
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [total, setTotal] = useState(0);
+  const [withoutLoginCount, setWithoutLoginCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [generating, setGenerating] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info'; text: string } | null>(null);
+  // Temporary passwords are only returned by the mutation - they are gone once this page is left
+  const [credentials, setCredentials] = useState<GeneratedLogin[]>([]);
 
-  const isDirector = user?.role === 'director';
-
-  const employeesWithLogins = useMemo(
-    () => employees.filter((employee) => employee.userId !== null),
-    [employees],
-  );
-
-  const employeesWithoutLogins = useMemo(
-    () => employees.filter((employee) => employee.userId === null),
-    [employees],
-  );
+  const canGenerate = hasPermission(user, 'employee.generateLogins');
 
   useEffect(() => {
     if (!accessToken) {
@@ -83,29 +84,39 @@ export default function EmployeeLoginsPage() {
     void fetchEmployees();
   }, [accessToken]);
 
-  const fetchEmployees = async () => {
+  // First page, or the next one after nextCursor when loading more
+  const fetchEmployees = async (loadMore = false) => {
     if (!accessToken) return;
 
-    setLoading(true);
+    if (loadMore) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     try {
-      const data = await graphqlRequest<EmployeesQueryResult>(
+      const data = await graphqlRequest(
         EMPLOYEES_QUERY,
-        {},
+        { after: loadMore ? nextCursor : null },
         accessToken,
         { bypassCache: true },
       );
 
-      setEmployees(sanitizeAndDedupeEmployees(data.employees.items || []));
+      const page = nodesOf(data.employees);
+      setEmployees((current) => sanitizeAndDedupeEmployees(loadMore ? [...current, ...page] : page));
+      setTotal(data.employees.totalCount);
+      setWithoutLoginCount(data.withoutLogin.totalCount);
+      setNextCursor(data.employees.pageInfo.hasNextPage ? data.employees.pageInfo.endCursor : null);
     } catch (error: any) {
       setMessage({ type: 'error', text: error?.message || 'Failed to load employees.' });
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
   const handleGenerateLogins = async () => {
     const confirmed = window.confirm(
-      'Generate login credentials for employees without accounts?\n\nDefault password: employee123',
+      'Generate login credentials for employees without accounts?\n\nEach new account gets a random temporary password that is shown only once.',
     );
     if (!confirmed) {
       return;
@@ -118,15 +129,17 @@ export default function EmployeeLoginsPage() {
 
     setGenerating(true);
     setMessage(null);
+    setCredentials([]);
 
     try {
-      const data = await graphqlRequest<GenerateLoginsResult>(
+      const data = await graphqlRequest(
         GENERATE_LOGINS_MUTATION,
         {},
         accessToken,
       );
 
       const result = data.generateEmployeeLogins;
+      setCredentials(result.credentials || []);
       if (!result.success) {
         setMessage({ type: 'error', text: result.message || 'Unable to generate logins.' });
         return;
@@ -145,7 +158,17 @@ export default function EmployeeLoginsPage() {
     }
   };
 
-  if (!isDirector) {
+  const handleCopyCredentials = async () => {
+    const text = credentials.map((credential) => `${credential.email}\t${credential.temporaryPassword}`).join('\n');
+    try {
+      await navigator.clipboard.writeText(text);
+      setMessage({ type: 'info', text: `Copied ${credentials.length} credential(s) to the clipboard.` });
+    } catch {
+      setMessage({ type: 'error', text: 'Could not copy to the clipboard.' });
+    }
+  };
+
+  if (!canGenerate) {
     return (
       <div style={{ padding: '2rem', textAlign: 'center' }}>
         <h2 style={{ marginBottom: '0.5rem' }}>Access denied</h2>
@@ -179,18 +202,18 @@ export default function EmployeeLoginsPage() {
         <button
           type="button"
           onClick={handleGenerateLogins}
-          disabled={generating || employeesWithoutLogins.length === 0}
+          disabled={generating || withoutLoginCount === 0}
           style={{
             border: 'none',
             borderRadius: 10,
             padding: '0.7rem 1rem',
-            background: generating || employeesWithoutLogins.length === 0 ? '#cbd5e1' : '#2563eb',
+            background: generating || withoutLoginCount === 0 ? '#cbd5e1' : '#2563eb',
             color: 'white',
             fontWeight: 600,
-            cursor: generating || employeesWithoutLogins.length === 0 ? 'not-allowed' : 'pointer',
+            cursor: generating || withoutLoginCount === 0 ? 'not-allowed' : 'pointer',
           }}
         >
-          {generating ? 'Generating...' : `Generate Missing Logins (${employeesWithoutLogins.length})`}
+          {generating ? 'Generating...' : `Generate Missing Logins (${withoutLoginCount})`}
         </button>
       </div>
 
@@ -217,24 +240,76 @@ export default function EmployeeLoginsPage() {
           marginBottom: '1rem',
         }}
       >
-        <StatCard label="Total Employees" value={employees.length} />
-        <StatCard label="With Login" value={employeesWithLogins.length} tone="ok" />
-        <StatCard label="Without Login" value={employeesWithoutLogins.length} tone="warn" />
+        <StatCard label="Total Employees" value={total} />
+        <StatCard label="With Login" value={total - withoutLoginCount} tone="ok" />
+        <StatCard label="Without Login" value={withoutLoginCount} tone="warn" />
       </div>
 
-      <div
-        style={{
-          background: '#fff7ed',
-          border: '1px solid #fdba74',
-          borderRadius: 10,
-          padding: '0.85rem 1rem',
-          marginBottom: '1rem',
-          color: '#7c2d12',
-          fontSize: '0.9rem',
-        }}
-      >
-        New accounts are generated with password: <strong>employee123</strong>
-      </div>
+      {credentials.length > 0 ? (
+        <div
+          style={{
+            background: '#fff7ed',
+            border: '1px solid #fdba74',
+            borderRadius: 10,
+            padding: '0.85rem 1rem',
+            marginBottom: '1rem',
+            color: '#7c2d12',
+            fontSize: '0.9rem',
+          }}
+        >
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: '1rem',
+              marginBottom: '0.6rem',
+            }}
+          >
+            <strong>Temporary passwords - copy them now, they won&apos;t be shown again.</strong>
+            <button
+              type="button"
+              onClick={handleCopyCredentials}
+              style={{
+                border: '1px solid #fdba74',
+                borderRadius: 8,
+                padding: '0.35rem 0.75rem',
+                background: 'white',
+                color: '#7c2d12',
+                fontWeight: 600,
+                cursor: 'pointer',
+              }}
+            >
+              Copy all
+            </button>
+          </div>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <tbody>
+              {credentials.map((credential) => (
+                <tr key={credential.employeeId}>
+                  <td style={{ padding: '0.25rem 0.5rem 0.25rem 0' }}>{credential.email}</td>
+                  <td style={{ padding: '0.25rem 0', fontFamily: 'monospace' }}>{credential.temporaryPassword}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div
+          style={{
+            background: '#fff7ed',
+            border: '1px solid #fdba74',
+            borderRadius: 10,
+            padding: '0.85rem 1rem',
+            marginBottom: '1rem',
+            color: '#7c2d12',
+            fontSize: '0.9rem',
+          }}
+        >
+          New accounts get a random temporary password, shown here once right after generating. Employees
+          must choose their own password the first time they sign in.
+        </div>
+      )}
 
       {loading ? (
         <div style={{ textAlign: 'center', padding: '1.5rem', color: '#6b7280' }}>Loading employees...</div>
@@ -268,7 +343,7 @@ export default function EmployeeLoginsPage() {
                   <tr key={employee.id} style={{ borderTop: '1px solid #f1f5f9' }}>
                     <Td>#{employee.id}</Td>
                     <Td>{employee.name}</Td>
-                    <Td>{employee.status}</Td>
+                    <Td>{styleOf(EMPLOYEE_STATUS, employee.status).label}</Td>
                     <Td>{employee.role}</Td>
                     <Td>{employee.email || '-'}</Td>
                     <Td>
@@ -283,6 +358,12 @@ export default function EmployeeLoginsPage() {
               </tbody>
             </table>
           </div>
+          <LoadMore
+            hasMore={nextCursor !== null}
+            loading={loadingMore}
+            onLoadMore={() => void fetchEmployees(true)}
+            summary={`Showing ${employees.length} of ${total}`}
+          />
         </div>
       )}
     </div>
@@ -1,78 +1,63 @@
 ﻿import React, { useContext, useEffect, useState } from "react";
-import type { UserRole } from "../App";
 import "./employees.css";
 import { AuthContext } from "../auth/authContext";
-import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { GraphqlRequestError, graphqlRequest } from "../lib/graphqlClient";
+import type { FieldError } from "../auth/api";
 import { sanitizeAndDedupeEmployees } from "../lib/employeeUtils";
 import { getStorageItem } from "../lib/safeStorage";
-import { EmployeeFormModal } from "../components/EmployeeFormModal";
+import { EmployeeFormModal, type EmployeeFormValues } from "../components/EmployeeFormModal";
 import { formatFullDateTime, formatRelativeTime } from "../lib/dateUtils";
+import { nodesOf } from "../lib/connections";
+import { LoadMore } from "../components/LoadMore";
+import { EMPLOYEE_STATUS, optionsOf, styleOf, type EmployeeStatus } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { EmployeeInput, EmployeesQuery } from "../graphql/generated/graphql";
 
-export type Employee = {
-  id: number;
-  name: string;
-  age: number;
-  className: string;
-  subjects: string[];
-  attendance: number;
-  role: "director" | "manager" | "employee";
-  status: "active" | "terminated" | "flagged";
-  location: string;
-  lastLogin: string;
-  createdAt: string;
-  updatedAt: string;
-};
-
-type EmployeesPageProps = {
-  currentRole: UserRole;
-};
-
-type EmployeesResponse = {
-  employees: {
-    items: Employee[];
-    total: number;
-    page: number;
-    pageSize: number;
-  };
-};
+// Fields the viewer may not see come back null (backend utils/fieldVisibility.ts)
+export type Employee = EmployeesQuery["employees"]["edges"][number]["node"];
 
-const EMPLOYEES_QUERY = `
+const EMPLOYEES_QUERY = graphql(`
   query Employees(
     $filter: EmployeeFilter
-    $page: Int
-    $pageSize: Int
+    $first: Int
+    $after: String
     $sortBy: EmployeeSortBy
     $sortOrder: SortOrder
   ) {
     employees(
       filter: $filter
-      page: $page
-      pageSize: $pageSize
+      first: $first
+      after: $after
       sortBy: $sortBy
       sortOrder: $sortOrder
     ) {
-      items {
-        id
-        name
-        age
-        className
-        subjects
-        attendance
-        role
-        status
-        location
-        lastLogin
-        createdAt
-        updatedAt
+      edges {
+        node {
+          id
+          name
+          age
+          className
+          subjects
+          attendance
+          role
+          status
+          location
+          lastLogin
+          createdAt
+          updatedAt
+        }
       }
-      total
-      page
-      pageSize
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
     }
   }
-`;
+`);
 
-const TERMINATE_MUTATION = `
+const TERMINATE_MUTATION = graphql(`
   mutation TerminateEmployee($id: Int!) {
     terminateEmployee(id: $id) {
       id
@@ -80,15 +65,15 @@ const TERMINATE_MUTATION = `
       updatedAt
     }
   }
-`;
+`);
 
-const DELETE_MUTATION = `
+const DELETE_MUTATION = graphql(`
   mutation DeleteEmployee($id: Int!) {
     deleteEmployee(id: $id)
   }
-`;
+`);
 
-const CREATE_MUTATION = `
+const CREATE_MUTATION = graphql(`
   mutation AddEmployee($input: EmployeeInput!) {
     addEmployee(input: $input) {
       id
@@ -105,9 +90,9 @@ const CREATE_MUTATION = `
       updatedAt
     }
   }
-`;
+`);
 
-const UPDATE_MUTATION = `
+const UPDATE_MUTATION = graphql(`
   mutation UpdateEmployee($id: Int!, $input: EmployeeInput!) {
     updateEmployee(id: $id, input: $input) {
       id
@@ -124,11 +109,12 @@ const UPDATE_MUTATION = `
       updatedAt
     }
   }
-`;
+`);
 
-const PAGE_SIZE = 6;
+const PAGE_SIZE = 24;
 
-export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) => {
+export const EmployeesPage: React.FC = () => {
+  const { user: currentUser } = useContext(AuthContext);
   let { accessToken } = useContext(AuthContext);
   
   // Fallback: if token is not in context, try to get it from localStorage
@@ -143,10 +129,13 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
 
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [total, setTotal] = useState(0);
-  const [page, setPage] = useState(1);
+  // Where the next page starts (null = no more pages)
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   const [showModal, setShowModal] = useState(false);
   const [modalEmployee, setModalEmployee] = useState<Employee | null>(null);
+  const [modalFieldErrors, setModalFieldErrors] = useState<FieldError[]>([]);
 
   const [sortBy, setSortBy] = useState<
     "NAME" | "AGE" | "ATTENDANCE" | "CREATED_AT"
@@ -154,7 +143,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
   const [sortOrder, setSortOrder] = useState<"ASC" | "DESC">("ASC");
 
   const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"" | "active" | "flagged" | "terminated">("");
+  const [statusFilter, setStatusFilter] = useState<"" | EmployeeStatus>("");
 
   const [selected, setSelected] = useState<Employee | null>(null);
   const [openMenuId, setOpenMenuId] = useState<number | null>(null);
@@ -162,16 +151,19 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
-
-  const fetchEmployees = async () => {
+  // First page, or the next one after nextCursor when loading more
+  const fetchEmployees = async (loadMore = false) => {
     if (!accessToken) {
       setError("Not authenticated. Please log in again.");
       setLoading(false);
       return;
     }
 
-    setLoading(true);
+    if (loadMore) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     setError(null);
     try {
       const filter: any = {};
@@ -184,34 +176,37 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
       // Exclude admin users from the list
       filter.roleNot = "admin";
 
-      const data = await graphqlRequest<EmployeesResponse>(
+      const data = await graphqlRequest(
         EMPLOYEES_QUERY,
         {
           filter: Object.keys(filter).length ? filter : undefined,
-          page,
-          pageSize: PAGE_SIZE,
+          first: PAGE_SIZE,
+          after: loadMore ? nextCursor : null,
           sortBy,
           sortOrder,
         },
         accessToken
       );
 
-      setEmployees(sanitizeAndDedupeEmployees(data.employees.items || []));
-      setTotal(data.employees.total);
+      const page = nodesOf(data.employees);
+      setEmployees((current) => sanitizeAndDedupeEmployees(loadMore ? [...current, ...page] : page));
+      setTotal(data.employees.totalCount);
+      setNextCursor(data.employees.pageInfo.hasNextPage ? data.employees.pageInfo.endCursor : null);
     } catch (err: any) {
       setError(err.message || "Failed to load employees.");
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
   useEffect(() => {
     fetchEmployees();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [page, sortBy, sortOrder, search, statusFilter, accessToken]);
+  }, [sortBy, sortOrder, search, statusFilter, accessToken]);
 
   const handleTerminate = async (id: number) => {
-    if (currentRole !== "director" || !accessToken) return;
+    if (!canPerform("terminate") || !accessToken) return;
     try {
       await graphqlRequest(
         TERMINATE_MUTATION,
@@ -226,7 +221,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
   };
 
   const handleDelete = async (id: number) => {
-    if (currentRole !== "director" || !accessToken) return;
+    if (!canPerform("delete") || !accessToken) return;
     if (!window.confirm("Delete this employee permanently?")) return;
     try {
       await graphqlRequest(
@@ -234,37 +229,35 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
         { id },
         accessToken
       );
-      // If last item on page deleted, move to previous page if needed
-      if (employees.length === 1 && page > 1) {
-        setPage(page - 1);
-      } else {
-        fetchEmployees();
-      }
+      fetchEmployees();
       setOpenMenuId(null);
     } catch (err) {
       console.error(err);
     }
   };
 
+  // updateEmployee takes the whole record - the row as loaded, with a new status
+  const toEmployeeInput = (emp: Employee, status: EmployeeStatus): EmployeeInput => ({
+    name: emp.name,
+    age: emp.age ?? 0,
+    className: emp.className ?? "",
+    subjects: emp.subjects ?? [],
+    attendance: emp.attendance ?? 0,
+    role: emp.role,
+    status,
+    location: emp.location,
+    lastLogin: emp.lastLogin ?? new Date().toISOString(),
+  });
+
   const handleFlag = async (emp: Employee) => {
-    if ((currentRole !== "director" && currentRole !== "manager") || !accessToken) return;
-    const newStatus = emp.status === "flagged" ? "active" : "flagged";
+    if (!canPerform("flag") || !accessToken) return;
+    const newStatus: EmployeeStatus = emp.status === "FLAGGED" ? "ACTIVE" : "FLAGGED";
     try {
       await graphqlRequest(
         UPDATE_MUTATION,
         {
           id: emp.id,
-          input: {
-            name: emp.name,
-            age: emp.age,
-            className: emp.className,
-            subjects: emp.subjects,
-            attendance: emp.attendance,
-            role: emp.role,
-            status: newStatus,
-            location: emp.location,
-            lastLogin: emp.lastLogin,
-          },
+          input: toEmployeeInput(emp, newStatus),
         },
         accessToken
       );
@@ -276,23 +269,13 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
   };
 
   const handleUnterminate = async (emp: Employee) => {
-    if (currentRole !== "director" || !accessToken) return;
+    if (!canPerform("terminate") || !accessToken) return;
     try {
       await graphqlRequest(
         UPDATE_MUTATION,
         {
           id: emp.id,
-          input: {
-            name: emp.name,
-            age: emp.age,
-            className: emp.className,
-            subjects: emp.subjects,
-            attendance: emp.attendance,
-            role: emp.role,
-            status: "active",
-            location: emp.location,
-            lastLogin: emp.lastLogin,
-          },
+          input: toEmployeeInput(emp, "ACTIVE"),
         },
         accessToken
       );
@@ -310,16 +293,19 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
 
   const handleEdit = (emp: Employee) => {
     setModalEmployee(emp);
+    setModalFieldErrors([]);
     setShowModal(true);
     setOpenMenuId(null);
   };
 
   const handleAddNew = () => {
     setModalEmployee(null);
+    setModalFieldErrors([]);
     setShowModal(true);
   };
 
-  const handleSaveEmployee = async (data: Partial<Employee>) => {
+  const handleSaveEmployee = async (data: EmployeeFormValues) => {
+    setModalFieldErrors([]);
     try {
       if (modalEmployee) {
         // Update existing
@@ -336,7 +322,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
               role: data.role,
               status: data.status,
               location: data.location,
-              lastLogin: modalEmployee.lastLogin, // Preserve existing lastLogin
+              lastLogin: modalEmployee.lastLogin ?? new Date().toISOString(), // Preserve existing lastLogin
             },
           },
           accessToken
@@ -352,8 +338,8 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
               className: data.className,
               subjects: data.subjects,
               attendance: data.attendance,
-              role: data.role || "employee",
-              status: data.status || "active",
+              role: data.role,
+              status: data.status,
               location: data.location,
               lastLogin: new Date().toISOString(),
             },
@@ -365,24 +351,22 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
       setModalEmployee(null);
       fetchEmployees();
     } catch (err: any) {
+      // Bad input: keep the form open and show each problem next to its field
+      if (err instanceof GraphqlRequestError && err.code === "VALIDATION_FAILED" && err.fieldErrors.length > 0) {
+        setModalFieldErrors(err.fieldErrors);
+        return;
+      }
       alert(err.message || "Failed to save employee");
     }
   };
 
-  const canPrev = page > 1;
-  const canNext = page < totalPages;
-
-  // RBAC helper for frontend
-  function canPerform(action: string, role: UserRole) {
-    if (action === "add" || action === "terminate" || action === "delete") {
-      return role === "director";
-    }
-    if (action === "edit") {
-      return role === "director" || role === "manager";
-    }
-    if (action === "view") {
-      return ["director", "manager", "employee"].includes(role);
-    }
+  // Permission helper for frontend (the backend checks the record's team too)
+  function canPerform(action: string) {
+    if (action === "add") return hasPermission(currentUser, "employee.create");
+    if (action === "terminate") return hasPermission(currentUser, "employee.terminate");
+    if (action === "delete") return hasPermission(currentUser, "employee.delete");
+    if (action === "edit" || action === "flag") return hasPermission(currentUser, "employee.update");
+    if (action === "view") return hasPermission(currentUser, "employee.read");
     return false;
   }
 
@@ -412,7 +396,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
             </button>
           </div>
 
-          {canPerform("add", currentRole) && (
+          {canPerform("add") && (
             <button
               className="primary-btn"
               onClick={handleAddNew}
@@ -429,23 +413,19 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
           type="text"
           placeholder="Search by name..."
           value={search}
-          onChange={(e) => {
-            setPage(1);
-            setSearch(e.target.value);
-          }}
+          onChange={(e) => setSearch(e.target.value)}
         />
 
         <select
           value={statusFilter}
-          onChange={(e) => {
-            setPage(1);
-            setStatusFilter(e.target.value as any);
-          }}
+          onChange={(e) => setStatusFilter(e.target.value as any)}
         >
           <option value="">All statuses</option>
-          <option value="active">Active</option>
-          <option value="flagged">Flagged</option>
-          <option value="terminated">Terminated</option>
+          {optionsOf(EMPLOYEE_STATUS).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
         </select>
 
         <select
@@ -501,10 +481,10 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
                   <td>{e.name}</td>
                   <td>{e.age}</td>
                   <td>{e.className}</td>
-                  <td>{e.subjects.join(", ")}</td>
+                  <td>{(e.subjects ?? []).join(", ")}</td>
                   <td>{e.attendance}%</td>
                   <td>{e.role}</td>
-                  <td>{e.status}</td>
+                  <td>{styleOf(EMPLOYEE_STATUS, e.status).label}</td>
                   <td>{e.location}</td>
                   <td>{e.lastLogin}</td>
                   <td>
@@ -523,20 +503,20 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
                           <button onClick={() => handleViewDetails(e)}>
                             View details
                           </button>
-                          {(canPerform("edit", currentRole)) && (
+                          {(canPerform("edit")) && (
                             <button onClick={() => handleEdit(e)}>Edit</button>
                           )}
-                          {(canPerform("terminate", currentRole)) && (
+                          {(canPerform("flag")) && (
                             <button onClick={() => handleFlag(e)}>
-                              {e.status === "flagged" ? "Unflag" : "Flag"}
+                              {e.status === "FLAGGED" ? "Unflag" : "Flag"}
                             </button>
                           )}
-                          {e.status === "terminated" ? (
+                          {e.status === "TERMINATED" ? (
                             <button onClick={() => handleUnterminate(e)}>
                               Unterminate
                             </button>
                           ) : (
-                            (canPerform("terminate", currentRole)) && (
+                            (canPerform("terminate")) && (
                               <button
                                 className="danger-btn"
                                 onClick={() => handleTerminate(e.id)}
@@ -545,7 +525,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
                               </button>
                             )
                           )}
-                          {(canPerform("delete", currentRole)) && (
+                          {(canPerform("delete")) && (
                             <button
                               className="danger-btn"
                               onClick={() => handleDelete(e.id)}
@@ -568,7 +548,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
             <div
               key={e.id}
               className={
-                e.status !== "active"
+                e.status !== "ACTIVE"
                   ? "employee-tile employee-tile--inactive"
                   : "employee-tile"
               }
@@ -599,26 +579,26 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
                       <button onClick={() => setSelected(e)}>
                         View details
                       </button>
-                      {(canPerform("edit", currentRole)) && (
+                      {(canPerform("edit")) && (
                         <button onClick={() => handleEdit(e)}>Edit</button>
                       )}
-                      {(canPerform("terminate", currentRole)) && (
+                      {(canPerform("flag")) && (
                         <button onClick={() => handleFlag(e)}>
-                          {e.status === "flagged" ? "Unflag" : "Flag"}
+                          {e.status === "FLAGGED" ? "Unflag" : "Flag"}
                         </button>
                       )}
-                      {e.status === "terminated" ? (
+                      {e.status === "TERMINATED" ? (
                         <button onClick={() => handleUnterminate(e)}>
                           Unterminate
                         </button>
                       ) : (
-                        (canPerform("terminate", currentRole)) && (
+                        (canPerform("terminate")) && (
                           <button onClick={() => handleTerminate(e.id)}>
                             Terminate
                           </button>
                         )
                       )}
-                      {(canPerform("delete", currentRole)) && (
+                      {(canPerform("delete")) && (
                         <button
                           className="danger"
                           onClick={() => handleDelete(e.id)}
@@ -633,34 +613,26 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
 
               <div className="employee-tile-bottom">
                 <div>Attendance: {e.attendance}%</div>
-                <div>Subjects: {e.subjects.join(", ")}</div>
-                <div className="employee-status-pill">{e.status}</div>
+                <div>Subjects: {(e.subjects ?? []).join(", ")}</div>
+                <div
+                  className="employee-status-pill"
+                  style={{ color: styleOf(EMPLOYEE_STATUS, e.status).color, backgroundColor: styleOf(EMPLOYEE_STATUS, e.status).background }}
+                >
+                  {styleOf(EMPLOYEE_STATUS, e.status).label}
+                </div>
               </div>
             </div>
           ))}
         </div>
       )}
 
-      {/* Pagination footer */}
-      <div className="employees-pagination">
-        <span>
-          Page {page} of {totalPages} | Total {total}
-        </span>
-        <div className="employees-pagination-buttons">
-          <button
-            disabled={!canPrev}
-            onClick={() => canPrev && setPage((p) => p - 1)}
-          >
-            Prev
-          </button>
-          <button
-            disabled={!canNext}
-            onClick={() => canNext && setPage((p) => p + 1)}
-          >
-            Next
-          </button>
-        </div>
-      </div>
+      {/* More employees load as you scroll */}
+      <LoadMore
+        hasMore={nextCursor !== null}
+        loading={loadingMore}
+        onLoadMore={() => fetchEmployees(true)}
+        summary={`Showing ${employees.length} of ${total}`}
+      />
 
       {selected && (
         <div
@@ -686,7 +658,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
                 <strong>Class:</strong> {selected.className}
               </p>
               <p>
-                <strong>Subjects:</strong> {selected.subjects.join(", ")}
+                <strong>Subjects:</strong> {(selected.subjects ?? []).join(", ")}
               </p>
               <p>
                 <strong>Attendance:</strong> {selected.attendance}%
@@ -694,7 +666,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
               <p>
                 <strong>Role:</strong> {selected.role}</p>
               <p>
-                <strong>Status:</strong> {selected.status}</p>
+                <strong>Status:</strong> {styleOf(EMPLOYEE_STATUS, selected.status).label}</p>
               <p>
                 <strong>Location:</strong> {selected.location}</p>
               <p>
@@ -712,6 +684,7 @@ export const EmployeesPage: React.FC<EmployeesPageProps> = ({ currentRole }) =>
         <EmployeeFormModal
           employee={modalEmployee}
           onSave={handleSaveEmployee}
+          fieldErrors={modalFieldErrors}
           onCancel={() => {
             setShowModal(false);
             setModalEmployee(null);
@@ -0,0 +1,430 @@
+import React, { useCallback, useContext, useEffect, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { formatRelativeTime } from "../lib/dateUtils";
+import { graphql } from "../graphql/generated";
+
+type Invitation = {
+  id: number;
+  email: string;
+  name: string | null;
+  role: string;
+  managerId: number | null;
+  invitedByEmail: string | null;
+  status: "PENDING" | "ACCEPTED" | "REVOKED" | "EXPIRED";
+  expiresAt: string;
+  acceptedAt: string | null;
+  createdAt: string;
+};
+
+type ManagerOption = { id: number; email: string };
+type RoleOption = { key: string; name: string };
+
+const INVITATION_FIELDS = graphql(`
+  fragment InvitationFields on Invitation {
+    id
+    email
+    name
+    role
+    managerId
+    invitedByEmail
+    status
+    expiresAt
+    acceptedAt
+    createdAt
+  }
+`);
+
+const INVITATIONS_QUERY = graphql(`
+  query Invitations($status: String) {
+    invitations(status: $status) {
+      ...InvitationFields
+    }
+  }
+`);
+
+const MANAGERS_QUERY = graphql(`
+  query InvitationManagers {
+    allUsers(roleFilter: "manager") {
+      id
+      email
+    }
+  }
+`);
+
+const ROLES_QUERY = graphql(`
+  query InvitationRoles {
+    roles {
+      key
+      name
+    }
+  }
+`);
+
+const CREATE_INVITATION_MUTATION = graphql(`
+  mutation CreateInvitation($input: InvitationInput!) {
+    createInvitation(input: $input) {
+      inviteLink
+      invitation {
+        ...InvitationFields
+      }
+    }
+  }
+`);
+
+const RESEND_INVITATION_MUTATION = graphql(`
+  mutation ResendInvitation($id: Int!) {
+    resendInvitation(id: $id) {
+      inviteLink
+      invitation {
+        ...InvitationFields
+      }
+    }
+  }
+`);
+
+const REVOKE_INVITATION_MUTATION = graphql(`
+  mutation RevokeInvitation($id: Int!) {
+    revokeInvitation(id: $id) {
+      id
+      status
+    }
+  }
+`);
+
+const STATUS_COLORS: Record<Invitation["status"], { background: string; color: string }> = {
+  PENDING: { background: "#dbeafe", color: "#1e40af" },
+  ACCEPTED: { background: "#d1fae5", color: "#065f46" },
+  REVOKED: { background: "#fee2e2", color: "#991b1b" },
+  EXPIRED: { background: "#f3f4f6", color: "#4b5563" },
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "0.5rem 0.75rem",
+  border: "1px solid #d1d5db",
+  borderRadius: "6px",
+  fontSize: "0.9rem",
+};
+
+const cellStyle: React.CSSProperties = { padding: "1rem", borderBottom: "1px solid #e5e7eb" };
+
+export const InvitationsPage: React.FC = () => {
+  const { accessToken, user } = useContext(AuthContext);
+  // Team-scoped inviters (managers) can only add employees to their own team
+  const isDirector = hasPermission(user, "user.invite", "all");
+  const canPickRole = isDirector && hasPermission(user, "user.changeRole");
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [managers, setManagers] = useState<ManagerOption[]>([]);
+  const [roles, setRoles] = useState<RoleOption[]>([]);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("employee");
+  const [managerId, setManagerId] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [submitting, setSubmitting] = useState(false);
+  // Link of the invitation just created/resent, so it can be copied and shared
+  const [latestLink, setLatestLink] = useState<{ email: string; link: string } | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data: any = await graphqlRequest(
+        INVITATIONS_QUERY,
+        { status: statusFilter || null },
+        accessToken,
+        { bypassCache: true },
+      );
+      setInvitations(data.invitations);
+    } catch (err: any) {
+      setError(err.message || "Failed to load invitations");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, statusFilter]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  useEffect(() => {
+    if (!accessToken || !isDirector) return;
+    graphqlRequest(MANAGERS_QUERY, {}, accessToken)
+      .then((data: any) => setManagers(data.allUsers))
+      .catch((err) => console.error("Failed to load managers:", err));
+  }, [accessToken, isDirector]);
+
+  useEffect(() => {
+    if (!accessToken || !canPickRole) return;
+    graphqlRequest(ROLES_QUERY, {}, accessToken)
+      .then((data: any) => setRoles(data.roles))
+      .catch((err) => console.error("Failed to load roles:", err));
+  }, [accessToken, canPickRole]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const data: any = await graphqlRequest(
+        CREATE_INVITATION_MUTATION,
+        {
+          input: {
+            email,
+            name: name || null,
+            role: canPickRole ? role : "employee",
+            managerId: isDirector && managerId ? Number(managerId) : null,
+            expiresInDays,
+          },
+        },
+        accessToken,
+      );
+      setLatestLink({ email: data.createInvitation.invitation.email, link: data.createInvitation.inviteLink });
+      setEmail("");
+      setName("");
+      setManagerId("");
+      fetchInvitations();
+    } catch (err: any) {
+      alert("Failed to create invitation: " + err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    try {
+      const data: any = await graphqlRequest(RESEND_INVITATION_MUTATION, { id: invitation.id }, accessToken);
+      setLatestLink({ email: invitation.email, link: data.resendInvitation.inviteLink });
+      fetchInvitations();
+    } catch (err: any) {
+      alert("Failed to resend invitation: " + err.message);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}? The link will stop working.`)) return;
+    try {
+      await graphqlRequest(REVOKE_INVITATION_MUTATION, { id: invitation.id }, accessToken);
+      fetchInvitations();
+    } catch (err: any) {
+      alert("Failed to revoke invitation: " + err.message);
+    }
+  };
+
+  const copyLatestLink = async () => {
+    if (!latestLink) return;
+    try {
+      await navigator.clipboard.writeText(latestLink.link);
+    } catch {
+      window.prompt("Copy the invitation link:", latestLink.link);
+    }
+  };
+
+  if (!hasPermission(user, "user.invite")) {
+    return (
+      <div style={{ padding: "2rem" }}>
+        <h1>Invitations</h1>
+        <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
+          <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>Access Denied</h2>
+          <p style={{ color: "#7f1d1d", margin: 0 }}>You don't have permission to invite new users.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: "2rem" }}>
+      <div style={{ marginBottom: "1.5rem" }}>
+        <h1 style={{ margin: 0 }}>Invitations</h1>
+        <p style={{ margin: "0.5rem 0 0 0", color: "#6b7280" }}>
+          {isDirector
+            ? "Invite new directors, managers and employees. Each link works once."
+            : "Invite new employees to your team. Each link works once."}
+        </p>
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        style={{
+          display: "flex",
+          flexWrap: "wrap",
+          gap: "0.75rem",
+          alignItems: "flex-end",
+          padding: "1.25rem",
+          background: "white",
+          border: "1px solid #e5e7eb",
+          borderRadius: "8px",
+          marginBottom: "1rem",
+        }}
+      >
+        <label style={{ display: "flex", flexDirection: "column", gap: "0.25rem", fontSize: "0.85rem", color: "#374151" }}>
+          Email
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required style={inputStyle} />
+        </label>
+        <label style={{ display: "flex", flexDirection: "column", gap: "0.25rem", fontSize: "0.85rem", color: "#374151" }}>
+          Name (optional)
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} style={inputStyle} />
+        </label>
+        {isDirector && (
+          <>
+            {canPickRole && (
+              <label style={{ display: "flex", flexDirection: "column", gap: "0.25rem", fontSize: "0.85rem", color: "#374151" }}>
+                Role
+                <select value={role} onChange={(e) => setRole(e.target.value)} style={inputStyle}>
+                  {roles.length === 0 && <option value="employee">Employee</option>}
+                  {roles.map((option) => (
+                    <option key={option.key} value={option.key}>
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label style={{ display: "flex", flexDirection: "column", gap: "0.25rem", fontSize: "0.85rem", color: "#374151" }}>
+              Manager
+              <select value={managerId} onChange={(e) => setManagerId(e.target.value)} style={inputStyle}>
+                <option value="">No manager</option>
+                {managers.map((manager) => (
+                  <option key={manager.id} value={manager.id}>
+                    {manager.email}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        <label style={{ display: "flex", flexDirection: "column", gap: "0.25rem", fontSize: "0.85rem", color: "#374151" }}>
+          Expires in (days)
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            style={{ ...inputStyle, width: "6rem" }}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={submitting}
+          style={{ padding: "0.6rem 1.2rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", fontWeight: 600 }}
+        >
+          {submitting ? "Sending..." : "Send invitation"}
+        </button>
+      </form>
+
+      {latestLink && (
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            gap: "1rem",
+            padding: "1rem",
+            background: "#ecfdf5",
+            border: "1px solid #a7f3d0",
+            borderRadius: "8px",
+            marginBottom: "1rem",
+          }}
+        >
+          <div style={{ minWidth: 0 }}>
+            <div style={{ fontWeight: 600, color: "#065f46" }}>Invitation link for {latestLink.email}</div>
+            <div style={{ fontSize: "0.8rem", color: "#047857", wordBreak: "break-all" }}>{latestLink.link}</div>
+          </div>
+          <button
+            type="button"
+            onClick={copyLatestLink}
+            style={{ padding: "0.4rem 0.8rem", background: "#10b981", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", whiteSpace: "nowrap" }}
+          >
+            Copy link
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: "0.75rem" }}>
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value)} style={inputStyle}>
+          <option value="">All invitations</option>
+          <option value="PENDING">Pending</option>
+          <option value="ACCEPTED">Accepted</option>
+          <option value="EXPIRED">Expired</option>
+          <option value="REVOKED">Revoked</option>
+        </select>
+        <button onClick={fetchInvitations} style={{ padding: "0.5rem 1rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer" }}>
+          Refresh
+        </button>
+      </div>
+
+      {error && <p style={{ color: "#991b1b" }}>{error}</p>}
+
+      {loading ? (
+        <p>Loading invitations...</p>
+      ) : invitations.length === 0 ? (
+        <div style={{ padding: "3rem", textAlign: "center", background: "white", borderRadius: "8px", border: "1px solid #e5e7eb" }}>
+          <p style={{ color: "#6b7280", margin: 0 }}>No invitations found</p>
+        </div>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", background: "white", borderRadius: "8px", overflow: "hidden", border: "1px solid #e5e7eb" }}>
+            <thead style={{ background: "#f9fafb" }}>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Email</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Role</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Status</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Invited by</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Sent</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Expires</th>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map((invitation) => (
+                <tr key={invitation.id}>
+                  <td style={cellStyle}>
+                    <div>{invitation.email}</div>
+                    {invitation.name && <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>{invitation.name}</div>}
+                  </td>
+                  <td style={{ ...cellStyle, textTransform: "capitalize" }}>{invitation.role}</td>
+                  <td style={cellStyle}>
+                    <span style={{ padding: "0.25rem 0.75rem", borderRadius: "12px", fontSize: "0.8rem", ...STATUS_COLORS[invitation.status] }}>
+                      {invitation.status}
+                    </span>
+                  </td>
+                  <td style={{ ...cellStyle, color: "#6b7280" }}>{invitation.invitedByEmail || "-"}</td>
+                  <td style={cellStyle}>{formatRelativeTime(invitation.createdAt)}</td>
+                  <td style={cellStyle}>
+                    {invitation.status === "ACCEPTED" && invitation.acceptedAt
+                      ? `Accepted ${formatRelativeTime(invitation.acceptedAt)}`
+                      : new Date(invitation.expiresAt).toLocaleDateString()}
+                  </td>
+                  <td style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                    {(invitation.status === "PENDING" || invitation.status === "EXPIRED") && (
+                      <button
+                        onClick={() => handleResend(invitation)}
+                        style={{ padding: "0.4rem 0.8rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", marginRight: "0.5rem" }}
+                      >
+                        Resend
+                      </button>
+                    )}
+                    {invitation.status === "PENDING" && (
+                      <button
+                        onClick={() => handleRevoke(invitation)}
+                        style={{ padding: "0.4rem 0.8rem", background: "#ef4444", color: "white", border: "none", borderRadius: "6px", cursor: "pointer" }}
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,23 +1,28 @@
 import React, { useContext, useEffect, useMemo, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { subscribe } from "../lib/subscriptions";
+import { hasPermission, permissionScope } from "../lib/permissions";
 import { formatRelativeTime } from "../lib/dateUtils";
+import { DELEGATIONS_TO_ME_QUERY, DelegationPanel, type ApprovalDelegation } from "../components/DelegationPanel";
 import type { AppPage } from "../types/navigation";
+import { LEAVE_STATUS, LEAVE_TYPE, optionsOf, styleOf, type LeaveStatus, type LeaveType } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
 
 type LeaveRequest = {
   id: number;
   employeeId: number;
-  employeeName?: string;
+  employeeName?: string | null; // Only in the admin list
   reason: string;
   startDate: string;
   endDate: string;
-  type?: string;
-  status: string;
-  adminNote?: string;
+  type: LeaveType | null;
+  status: LeaveStatus;
+  adminNote: string | null;
   createdAt: string;
 };
 
-const MY_LEAVE_REQUESTS_QUERY = `
+const MY_LEAVE_REQUESTS_QUERY = graphql(`
   query MyLeaveRequests {
     myLeaveRequests {
       id
@@ -31,10 +36,10 @@ const MY_LEAVE_REQUESTS_QUERY = `
       createdAt
     }
   }
-`;
+`);
 
-const ALL_LEAVE_REQUESTS_QUERY = `
-  query LeaveRequests($status: String) {
+const ALL_LEAVE_REQUESTS_QUERY = graphql(`
+  query LeaveRequests($status: LeaveStatus) {
     leaveRequests(status: $status) {
       id
       employeeId
@@ -48,9 +53,9 @@ const ALL_LEAVE_REQUESTS_QUERY = `
       createdAt
     }
   }
-`;
+`);
 
-const CREATE_LEAVE_REQUEST_MUTATION = `
+const CREATE_LEAVE_REQUEST_MUTATION = graphql(`
   mutation CreateLeaveRequest($input: LeaveRequestInput!) {
     createLeaveRequest(input: $input) {
       id
@@ -61,95 +66,115 @@ const CREATE_LEAVE_REQUEST_MUTATION = `
       status
     }
   }
-`;
+`);
 
-const UPDATE_LEAVE_STATUS_MUTATION = `
-  mutation UpdateLeaveRequestStatus($id: Int!, $status: String!, $adminNote: String) {
+const LEAVE_REQUEST_UPDATED_SUBSCRIPTION = graphql(`
+  subscription LeaveRequestUpdated {
+    leaveRequestUpdated {
+      id
+    }
+  }
+`);
+
+const UPDATE_LEAVE_STATUS_MUTATION = graphql(`
+  mutation UpdateLeaveRequestStatus($id: Int!, $status: LeaveStatus!, $adminNote: String) {
     updateLeaveRequestStatus(id: $id, status: $status, adminNote: $adminNote) {
       id
       status
       adminNote
     }
   }
-`;
+`);
 
 type LeaveRequestsPageProps = {
   onNavigate?: (page: AppPage) => void;
 };
 
-const isManagerOrDirector = (role: string) => role === "director" || role === "manager";
-
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case "approved":
-      return { bg: "#dcfce7", color: "#166534" };
-    case "rejected":
-      return { bg: "#fee2e2", color: "#991b1b" };
-    case "pending_director":
-      return { bg: "#e0e7ff", color: "#3730a3" };
-    default:
-      return { bg: "#fef3c7", color: "#92400e" };
-  }
-};
-
-const normalizeLabel = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, (char) => char.toUpperCase());
-
 export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate }) => {
   const { accessToken, user } = useContext(AuthContext);
-  const role = user?.role || "employee";
+  const approveScope = permissionScope(user, "leave.approve");
 
   const [requests, setRequests] = useState<LeaveRequest[]>([]);
   const [loading, setLoading] = useState(true);
-  const [statusFilter, setStatusFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus | "">("");
   const [showForm, setShowForm] = useState(false);
 
   const [reason, setReason] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
-  const [leaveType, setLeaveType] = useState("annual");
+  const [leaveType, setLeaveType] = useState<LeaveType>("ANNUAL");
 
   const [selectedRequest, setSelectedRequest] = useState<LeaveRequest | null>(null);
   const [adminNote, setAdminNote] = useState("");
 
-  const isAdmin = isManagerOrDirector(role);
+  // Managers whose approvals this user is covering today
+  const [coveringFor, setCoveringFor] = useState<ApprovalDelegation[]>([]);
+  const canDelegate = hasPermission(user, "leave.approve") || hasPermission(user, "review.create");
+
+  const isAdmin =
+    hasPermission(user, "leave.read") || coveringFor.some((delegation) => delegation.permissions.includes("leave.read"));
+  const approvesForOthers = coveringFor.some((delegation) => delegation.permissions.includes("leave.approve"));
 
+  // Team approvers (and delegates) pass long/special leave on to someone who approves company-wide
   const canReviewRequest = (request: LeaveRequest) => {
-    if (role === "director") {
-      return request.status === "pending" || request.status === "pending_director";
+    if (approveScope === "all") {
+      return request.status === "PENDING" || request.status === "PENDING_DIRECTOR";
     }
-    if (role === "manager") {
-      return request.status === "pending";
+    if (approveScope === "team" || approvesForOthers) {
+      return request.status === "PENDING";
     }
     return false;
   };
 
+  useEffect(() => {
+    if (!accessToken) return;
+    graphqlRequest(DELEGATIONS_TO_ME_QUERY, {}, accessToken, { bypassCache: true })
+      .then((data) => setCoveringFor((data.delegationsToMe || []).filter((delegation) => delegation.isActive)))
+      .catch((error) => console.error("Failed to load delegations:", error));
+  }, [accessToken]);
+
   const pendingCount = useMemo(
-    () => requests.filter((request) => request.status === "pending" || request.status === "pending_director").length,
+    () => requests.filter((request) => request.status === "PENDING" || request.status === "PENDING_DIRECTOR").length,
     [requests],
   );
 
   useEffect(() => {
     void fetchRequests();
-  }, [accessToken, role, statusFilter]);
-
-  const fetchRequests = async () => {
+    if (!accessToken) {
+      return;
+    }
+    // Someone decided (or filed) a request this user can see - reload the list
+    return subscribe(LEAVE_REQUEST_UPDATED_SUBSCRIPTION, {}, accessToken, {
+      next: () => void fetchRequests(true),
+      onReconnect: () => void fetchRequests(true),
+    });
+  }, [accessToken, isAdmin, statusFilter]);
+
+  // refresh: live update - skip the cache and the loading state
+  const fetchRequests = async (refresh = false) => {
     if (!accessToken) {
       setRequests([]);
       setLoading(false);
       return;
     }
 
-    setLoading(true);
+    if (!refresh) setLoading(true);
     try {
       if (isAdmin) {
-        const data = await graphqlRequest<{ leaveRequests: LeaveRequest[] }>(
+        const data = await graphqlRequest(
           ALL_LEAVE_REQUESTS_QUERY,
           { status: statusFilter || null },
           accessToken,
+          { bypassCache: refresh },
         );
         setRequests(data.leaveRequests || []);
       } else {
-        const data = await graphqlRequest<{ myLeaveRequests: LeaveRequest[] }>(MY_LEAVE_REQUESTS_QUERY, {}, accessToken);
+        const data = await graphqlRequest(
+          MY_LEAVE_REQUESTS_QUERY,
+          {},
+          accessToken,
+          { bypassCache: refresh },
+        );
         setRequests(data.myLeaveRequests || []);
       }
     } catch (error) {
@@ -177,7 +202,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
       setReason("");
       setStartDate("");
       setEndDate("");
-      setLeaveType("annual");
+      setLeaveType("ANNUAL");
       setShowForm(false);
       alert("Leave request submitted.");
       await fetchRequests();
@@ -186,7 +211,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
     }
   };
 
-  const handleUpdateStatus = async (id: number, status: "approved" | "rejected") => {
+  const handleUpdateStatus = async (id: number, status: Extract<LeaveStatus, "APPROVED" | "REJECTED">) => {
     if (!accessToken) {
       alert("Please sign in again.");
       return;
@@ -249,6 +274,15 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
         </button>
       </div>
 
+      {coveringFor.length > 0 && (
+        <div style={{ padding: "0.8rem 1rem", background: "#eff6ff", border: "1px solid #bfdbfe", borderRadius: "10px", marginBottom: "1.2rem", color: "#1e3a8a" }}>
+          Approving on behalf of <strong>{coveringFor.map((delegation) => delegation.managerEmail).join(", ")}</strong> while they are away.
+          Your decisions are logged as made on their behalf.
+        </div>
+      )}
+
+      {canDelegate && <DelegationPanel />}
+
       {!isAdmin && showForm && (
         <div style={{ padding: "1.4rem", background: "white", borderRadius: "10px", border: "1px solid #e2e8f0", marginBottom: "1.2rem" }}>
           <h3 style={{ marginTop: 0 }}>Submit Leave Request</h3>
@@ -269,12 +303,14 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
               <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>Leave Type</label>
               <select
                 value={leaveType}
-                onChange={(event) => setLeaveType(event.target.value)}
+                onChange={(event) => setLeaveType(event.target.value as LeaveType)}
                 style={{ width: "100%", padding: "0.7rem", border: "1px solid #d1d5db", borderRadius: "8px" }}
               >
-                <option value="annual">Annual</option>
-                <option value="sick">Sick</option>
-                <option value="special">Special</option>
+                {optionsOf(LEAVE_TYPE).map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -327,14 +363,15 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
         <div style={{ marginBottom: "1rem" }}>
           <select
             value={statusFilter}
-            onChange={(event) => setStatusFilter(event.target.value)}
+            onChange={(event) => setStatusFilter(event.target.value as LeaveStatus | "")}
             style={{ padding: "0.7rem", border: "1px solid #d1d5db", borderRadius: "8px", minWidth: "230px" }}
           >
             <option value="">All Requests</option>
-            <option value="pending">Pending</option>
-            <option value="pending_director">Pending Director</option>
-            <option value="approved">Approved</option>
-            <option value="rejected">Rejected</option>
+            {optionsOf(LEAVE_STATUS).map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
           </select>
         </div>
       )}
@@ -347,7 +384,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
         </div>
       ) : (
         requests.map((request) => {
-          const statusStyle = getStatusColor(request.status);
+          const statusStyle = styleOf(LEAVE_STATUS, request.status);
           return (
             <div key={request.id} style={{ padding: "1rem", background: "white", borderRadius: "10px", border: "1px solid #e5e7eb", marginBottom: "0.8rem" }}>
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "start", gap: "0.8rem" }}>
@@ -361,7 +398,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
                     <strong>Dates:</strong> {request.startDate} to {request.endDate}
                   </p>
                   <p style={{ margin: "0 0 0.35rem 0", color: "#374151" }}>
-                    <strong>Type:</strong> {normalizeLabel(request.type || "annual")}
+                    <strong>Type:</strong> {styleOf(LEAVE_TYPE, request.type || "ANNUAL").label}
                   </p>
                   <p style={{ margin: "0 0 0.35rem 0", color: "#6b7280" }}>
                     <strong>Reason:</strong> {request.reason}
@@ -377,8 +414,8 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
                 </div>
 
                 <div style={{ display: "flex", flexDirection: "column", alignItems: "flex-end", gap: "0.45rem" }}>
-                  <span style={{ padding: "0.45rem 0.7rem", background: statusStyle.bg, color: statusStyle.color, borderRadius: "8px", fontSize: "0.78rem", fontWeight: 800 }}>
-                    {normalizeLabel(request.status)}
+                  <span style={{ padding: "0.45rem 0.7rem", background: statusStyle.background, color: statusStyle.color, borderRadius: "8px", fontSize: "0.78rem", fontWeight: 800 }}>
+                    {statusStyle.label}
                   </span>
 
                   {isAdmin && canReviewRequest(request) && (
@@ -414,7 +451,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
               Employee: <strong>{selectedRequest.employeeName || `ID ${selectedRequest.employeeId}`}</strong>
             </p>
             <p style={{ margin: "0 0 0.8rem", color: "#6b7280" }}>
-              Type: <strong>{normalizeLabel(selectedRequest.type || "annual")}</strong>
+              Type: <strong>{styleOf(LEAVE_TYPE, selectedRequest.type || "ANNUAL").label}</strong>
             </p>
 
             <label style={{ display: "block", fontWeight: 700, marginBottom: "0.35rem" }}>Admin Note (optional)</label>
@@ -430,7 +467,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
               <button
                 type="button"
                 onClick={() => {
-                  void handleUpdateStatus(selectedRequest.id, "approved");
+                  void handleUpdateStatus(selectedRequest.id, "APPROVED");
                 }}
                 style={{ border: "none", background: "#059669", color: "#fff", borderRadius: "8px", padding: "0.65rem 1rem", fontWeight: 700, cursor: "pointer" }}
               >
@@ -439,7 +476,7 @@ export const LeaveRequestsPage: React.FC<LeaveRequestsPageProps> = ({ onNavigate
               <button
                 type="button"
                 onClick={() => {
-                  void handleUpdateStatus(selectedRequest.id, "rejected");
+                  void handleUpdateStatus(selectedRequest.id, "REJECTED");
                 }}
                 style={{ border: "none", background: "#dc2626", color: "#fff", borderRadius: "8px", padding: "0.65rem 1rem", fontWeight: 700, cursor: "pointer" }}
               >
@@ -1,7 +1,11 @@
 import React, { useContext, useEffect, useRef, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { subscribe } from "../lib/subscriptions";
+import { hasPermission } from "../lib/permissions";
 import { formatConversationTime, formatMessageTime } from "../lib/dateUtils";
+import { graphql } from "../graphql/generated";
+import type { SendMessageInput } from "../graphql/generated/graphql";
 
 type Message = {
   id: number;
@@ -34,7 +38,7 @@ type User = {
   role: string;
 };
 
-const CONVERSATIONS_QUERY = `
+const CONVERSATIONS_QUERY = graphql(`
   query MyConversations {
     myConversations {
       conversationId
@@ -45,9 +49,9 @@ const CONVERSATIONS_QUERY = `
       unreadCount
     }
   }
-`;
+`);
 
-const MESSAGES_QUERY = `
+const MESSAGES_QUERY = graphql(`
   query Messages($conversationId: String!) {
     messages(conversationId: $conversationId) {
       id
@@ -65,9 +69,19 @@ const MESSAGES_QUERY = `
       createdAt
     }
   }
-`;
+`);
 
-const SEND_MESSAGE_MUTATION = `
+const MESSAGE_RECEIVED_SUBSCRIPTION = graphql(`
+  subscription MessageReceived {
+    messageReceived {
+      id
+      conversationId
+      senderId
+    }
+  }
+`);
+
+const SEND_MESSAGE_MUTATION = graphql(`
   mutation SendMessage($input: SendMessageInput!) {
     sendMessage(input: $input) {
       id
@@ -76,23 +90,23 @@ const SEND_MESSAGE_MUTATION = `
       createdAt
     }
   }
-`;
+`);
 
-const MARK_CONVERSATION_READ_MUTATION = `
+const MARK_CONVERSATION_READ_MUTATION = graphql(`
   mutation MarkConversationAsRead($conversationId: String!) {
     markConversationAsRead(conversationId: $conversationId)
   }
-`;
+`);
 
-const ALL_USERS_QUERY = `
-  query AllUsers {
+const ALL_USERS_QUERY = graphql(`
+  query MessageRecipients {
     allUsers {
       id
       email
       role
     }
   }
-`;
+`);
 
 export const MessagesPage: React.FC = () => {
   const { accessToken, user } = useContext(AuthContext);
@@ -110,9 +124,11 @@ export const MessagesPage: React.FC = () => {
   const [errorText, setErrorText] = useState<string | null>(null);
   const [infoText, setInfoText] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Read by the subscription handler, which outlives a single render
+  const openConversationRef = useRef<string | null>(null);
+  openConversationRef.current = showNewMessage ? null : selectedConversation;
 
-  const isDirector = user?.role === "director";
-  const canBroadcast = isDirector;
+  const canBroadcast = hasPermission(user, "message.send", "all");
 
   useEffect(() => {
     if (!accessToken) {
@@ -122,7 +138,7 @@ export const MessagesPage: React.FC = () => {
 
     void fetchConversations();
     void fetchAllUsers();
-  }, [accessToken, user?.id, user?.role]);
+  }, [accessToken, user?.id, user?.permissions]);
 
   useEffect(() => {
     if (!accessToken || !selectedConversation || showNewMessage) {
@@ -132,6 +148,33 @@ export const MessagesPage: React.FC = () => {
     void fetchMessages(selectedConversation);
   }, [accessToken, selectedConversation, showNewMessage]);
 
+  // New messages: refresh the list, and the open conversation if it is the one that changed
+  useEffect(() => {
+    if (!accessToken) {
+      return;
+    }
+
+    return subscribe(
+      MESSAGE_RECEIVED_SUBSCRIPTION,
+      {},
+      accessToken,
+      {
+        next: ({ messageReceived }) => {
+          void fetchConversations(true);
+          if (messageReceived.conversationId === openConversationRef.current) {
+            void fetchMessages(messageReceived.conversationId, true);
+          }
+        },
+        onReconnect: () => {
+          void fetchConversations(true);
+          if (openConversationRef.current) {
+            void fetchMessages(openConversationRef.current, true);
+          }
+        },
+      },
+    );
+  }, [accessToken]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
@@ -141,17 +184,19 @@ export const MessagesPage: React.FC = () => {
     setInfoText(null);
   };
 
-  const fetchConversations = async () => {
+  // refresh: live update - skip the cache and the loading state
+  const fetchConversations = async (refresh = false) => {
     if (!accessToken) {
       return;
     }
 
     try {
-      setLoading(true);
-      const data = await graphqlRequest<{ myConversations: Conversation[] }>(
+      if (!refresh) setLoading(true);
+      const data = await graphqlRequest(
         CONVERSATIONS_QUERY,
         {},
         accessToken,
+        { bypassCache: refresh },
       );
       setConversations(data.myConversations || []);
     } catch (error) {
@@ -162,16 +207,17 @@ export const MessagesPage: React.FC = () => {
     }
   };
 
-  const fetchMessages = async (conversationId: string) => {
+  const fetchMessages = async (conversationId: string, refresh = false) => {
     if (!accessToken) {
       return;
     }
 
     try {
-      const data = await graphqlRequest<{ messages: Message[] }>(
+      const data = await graphqlRequest(
         MESSAGES_QUERY,
         { conversationId },
         accessToken,
+        { bypassCache: refresh },
       );
       setMessages(data.messages || []);
 
@@ -196,17 +242,9 @@ export const MessagesPage: React.FC = () => {
     }
 
     try {
-      const data = await graphqlRequest<{ allUsers: User[] }>(ALL_USERS_QUERY, {}, accessToken);
-      const filtered = (data.allUsers || []).filter((account) => account.id !== user?.id);
-      let recipients = filtered;
-
-      if (user?.role === "employee") {
-        recipients = filtered.filter((account) => account.role === "manager");
-      } else if (user?.role === "manager") {
-        recipients = filtered.filter((account) => account.role === "employee" || account.role === "director");
-      }
-
-      setAllUsers(recipients);
+      const data = await graphqlRequest(ALL_USERS_QUERY, {}, accessToken);
+      // allUsers is already narrowed to the people this user may message
+      setAllUsers((data.allUsers || []).filter((account) => account.id !== user?.id));
     } catch (error) {
       console.error("Failed to load user directory:", error);
       setAllUsers([]);
@@ -259,7 +297,7 @@ export const MessagesPage: React.FC = () => {
       return;
     }
 
-    const input: Record<string, unknown> = {
+    const input: SendMessageInput = {
       message: trimmedMessage,
     };
 
@@ -298,7 +336,7 @@ export const MessagesPage: React.FC = () => {
     try {
       setSending(true);
 
-      const result = await graphqlRequest<{ sendMessage: { conversationId: string } }>(
+      const result = await graphqlRequest(
         SEND_MESSAGE_MUTATION,
         { input },
         accessToken,
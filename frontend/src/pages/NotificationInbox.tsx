@@ -3,98 +3,75 @@ import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
 import { resolveAppPageFromLink } from "../lib/navigationLinks";
 import type { AppPage } from "../types/navigation";
-
-const NOTIFICATIONS_QUERY = `
-  query Notifications($type: String, $isRead: Boolean) {
-    notifications(type: $type, isRead: $isRead) {
-      id
-      title
-      message
-      type
-      isRead
-      createdAt
-      linkTo
-      actionUrl
+import { nodesOf } from "../lib/connections";
+import { LoadMore } from "../components/LoadMore";
+import { NOTIFICATION_TYPE, optionsOf, styleOf, type NotificationType } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { NotificationsQuery } from "../graphql/generated/graphql";
+
+const NOTIFICATIONS_QUERY = graphql(`
+  query Notifications($type: NotificationType, $isRead: Boolean, $first: Int, $after: String) {
+    notifications(type: $type, isRead: $isRead, first: $first, after: $after) {
+      edges {
+        node {
+          id
+          title
+          message
+          type
+          isRead
+          createdAt
+          linkTo
+          actionUrl
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      totalCount
     }
+    notificationCount
   }
-`;
+`);
 
-const MARK_READ_MUTATION = `
+const MARK_READ_MUTATION = graphql(`
   mutation MarkNotificationAsRead($id: Int!) {
     markNotificationAsRead(id: $id) {
       id
       isRead
     }
   }
-`;
+`);
 
-const MARK_ALL_READ_MUTATION = `
+const MARK_ALL_READ_MUTATION = graphql(`
   mutation MarkAllNotificationsAsRead {
     markAllNotificationsAsRead
   }
-`;
+`);
 
-type Notification = {
-  id: number;
-  title: string;
-  message: string;
-  type?: string;
-  isRead: boolean;
-  createdAt: string;
-  linkTo?: string;
-  actionUrl?: string;
-};
+type Notification = NotificationsQuery["notifications"]["edges"][number]["node"];
 
-type NotificationsQueryResult = {
-  notifications: Notification[];
-};
+const PAGE_SIZE = 30;
 
 type NotificationInboxProps = {
   onNavigate?: (page: AppPage) => void;
 };
 
-const FILTER_TYPES = ["ALL", "INFO", "WARNING", "CRITICAL", "MESSAGE", "APPROVAL", "LEAVE"];
+const FILTER_TYPES = ["ALL", ...optionsOf(NOTIFICATION_TYPE).map((option) => option.value)];
 
-const typeLabel = (type?: string) => {
-  const normalized = (type || "INFO").toUpperCase();
-  switch (normalized) {
-    case "CRITICAL":
-      return "Critical";
-    case "WARNING":
-      return "Warning";
-    case "APPROVAL":
-      return "Approval";
-    case "MESSAGE":
-      return "Message";
-    case "LEAVE":
-      return "Leave";
-    default:
-      return "Info";
-  }
-};
+const typeLabel = (type?: string) => styleOf(NOTIFICATION_TYPE, type || "INFO").label;
 
-const typeColor = (type?: string) => {
-  const normalized = (type || "INFO").toUpperCase();
-  switch (normalized) {
-    case "CRITICAL":
-      return "#dc2626";
-    case "WARNING":
-      return "#f59e0b";
-    case "APPROVAL":
-      return "#059669";
-    case "MESSAGE":
-      return "#2563eb";
-    case "LEAVE":
-      return "#7c3aed";
-    default:
-      return "#64748b";
-  }
-};
+const typeColor = (type?: string) => styleOf(NOTIFICATION_TYPE, type || "INFO").color;
 
 export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onNavigate }) => {
   const { accessToken } = useContext(AuthContext);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
+  const [total, setTotal] = useState(0);
+  // All unread, not just the loaded ones
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [filterType, setFilterType] = useState("ALL");
   const [filterRead, setFilterRead] = useState<"all" | "read" | "unread">("all");
   const [errorText, setErrorText] = useState<string | null>(null);
@@ -103,31 +80,44 @@ export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onNavigate
     void fetchNotifications();
   }, [filterType, filterRead, accessToken]);
 
-  const fetchNotifications = async () => {
+  // Newest first; loading more continues after nextCursor
+  const fetchNotifications = async (loadMore = false) => {
     if (!accessToken) {
       setNotifications([]);
       setLoading(false);
       return;
     }
 
-    setLoading(true);
+    if (loadMore) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     setErrorText(null);
 
     try {
-      const type = filterType === "ALL" ? undefined : filterType;
+      const type = filterType === "ALL" ? undefined : (filterType as NotificationType);
       const isRead = filterRead === "all" ? undefined : filterRead === "read";
-      const result = await graphqlRequest<NotificationsQueryResult>(NOTIFICATIONS_QUERY, { type, isRead }, accessToken);
-      setNotifications(result.notifications || []);
+      const result = await graphqlRequest(
+        NOTIFICATIONS_QUERY,
+        { type, isRead, first: PAGE_SIZE, after: loadMore ? nextCursor : null },
+        accessToken,
+        { bypassCache: true },
+      );
+      const page = nodesOf(result.notifications);
+      setNotifications((current) => (loadMore ? [...current, ...page] : page));
+      setTotal(result.notifications.totalCount);
+      setUnreadCount(result.notificationCount);
+      setNextCursor(result.notifications.pageInfo.hasNextPage ? result.notifications.pageInfo.endCursor : null);
     } catch (error: any) {
       setErrorText(error?.message || "Failed to load notifications.");
-      setNotifications([]);
+      if (!loadMore) setNotifications([]);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
-  const unreadCount = useMemo(() => notifications.filter((note) => !note.isRead).length, [notifications]);
-
   const groupedCounts = useMemo(() => {
     const counts: Record<string, number> = {};
     for (const note of notifications) {
@@ -149,6 +139,7 @@ export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onNavigate
     try {
       await graphqlRequest(MARK_READ_MUTATION, { id }, accessToken);
       setNotifications((previous) => previous.map((item) => (item.id === id ? { ...item, isRead: true } : item)));
+      setUnreadCount((count) => Math.max(count - 1, 0));
     } catch (error) {
       console.error("Failed to mark notification as read:", error);
     }
@@ -162,6 +153,7 @@ export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onNavigate
     try {
       await graphqlRequest(MARK_ALL_READ_MUTATION, {}, accessToken);
       setNotifications((previous) => previous.map((item) => ({ ...item, isRead: true })));
+      setUnreadCount(0);
     } catch (error) {
       console.error("Failed to mark all notifications as read:", error);
     }
@@ -227,7 +219,7 @@ export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onNavigate
           >
             {FILTER_TYPES.map((value) => (
               <option key={value} value={value}>
-                {value}
+                {value === "ALL" ? "All" : typeLabel(value)}
               </option>
             ))}
           </select>
@@ -361,6 +353,12 @@ export const NotificationInbox: React.FC<NotificationInboxProps> = ({ onNavigate
               </div>
             );
           })}
+          <LoadMore
+            hasMore={nextCursor !== null}
+            loading={loadingMore}
+            onLoadMore={() => void fetchNotifications(true)}
+            summary={`Showing ${notifications.length} of ${total}`}
+          />
         </div>
       )}
     </div>
@@ -2,6 +2,7 @@ import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
 import { formatRelativeTime } from "../lib/dateUtils";
+import { graphql } from "../graphql/generated";
 
 type Note = {
   id: number;
@@ -13,7 +14,7 @@ type Note = {
   createdAt: string;
 };
 
-const MY_NOTES_QUERY = `
+const MY_NOTES_QUERY = graphql(`
   query MyNotes {
     myNotes {
       id
@@ -25,16 +26,16 @@ const MY_NOTES_QUERY = `
       createdAt
     }
   }
-`;
+`);
 
-const MARK_READ_MUTATION = `
+const MARK_READ_MUTATION = graphql(`
   mutation MarkNoteAsRead($id: Int!) {
     markNoteAsRead(id: $id) {
       id
       isRead
     }
   }
-`;
+`);
 
 export const NotificationsPage: React.FC = () => {
   const { accessToken, user } = useContext(AuthContext);
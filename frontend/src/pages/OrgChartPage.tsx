@@ -0,0 +1,487 @@
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { graphql } from "../graphql/generated";
+
+type OrgNode = {
+  id: string;
+  parentId: string | null;
+  userId: number | null;
+  employeeId: number | null;
+  managerId: number | null;
+  name: string;
+  role: string;
+  avatar: string | null;
+  level: number;
+  directReports: number;
+  headcount: number;
+};
+
+// A drop waiting for confirmation - target null means "no manager"
+type PendingMove = { node: OrgNode; target: OrgNode | null };
+
+const ORG_CHART_QUERY = graphql(`
+  query OrgChart($rootUserId: Int) {
+    orgChart(rootUserId: $rootUserId) {
+      id
+      parentId
+      userId
+      employeeId
+      managerId
+      name
+      role
+      avatar
+      level
+      directReports
+      headcount
+    }
+  }
+`);
+
+const SET_EMPLOYEE_MANAGER_MUTATION = graphql(`
+  mutation SetEmployeeManager($employeeId: Int!, $managerUserId: Int) {
+    setEmployeeManager(employeeId: $employeeId, managerUserId: $managerUserId) {
+      id
+      managerId
+    }
+  }
+`);
+
+const MIN_ZOOM = 0.4;
+const MAX_ZOOM = 1.6;
+// Levels below this start collapsed, so big companies don't open as a wall of cards
+const INITIALLY_OPEN_LEVELS = 2;
+
+const buttonStyle: React.CSSProperties = {
+  padding: "0.4rem 0.8rem",
+  background: "white",
+  border: "1px solid #d1d5db",
+  borderRadius: "6px",
+  cursor: "pointer",
+};
+
+const cellStyle: React.CSSProperties = { padding: "0.6rem 0.75rem", borderBottom: "1px solid #e5e7eb", textAlign: "left" };
+
+function initials(name: string) {
+  return name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("");
+}
+
+/**
+ * Who reports to whom. Cards show each person's team size; directors can drag a
+ * card onto someone else to change their manager (after confirming the change).
+ */
+export const OrgChartPage: React.FC = () => {
+  const { accessToken, user } = useContext(AuthContext);
+  const [nodes, setNodes] = useState<OrgNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [zoom, setZoom] = useState(1);
+  const [search, setSearch] = useState("");
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+  const [saving, setSaving] = useState(false);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const canView = hasPermission(user, "employee.read", "team");
+  // Moving people between teams is a company-wide edit
+  const canReassign = hasPermission(user, "employee.update", "all");
+
+  const fetchChart = useCallback(
+    async (keepCollapsed = false) => {
+      if (!accessToken) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const data: any = await graphqlRequest(ORG_CHART_QUERY, { rootUserId: null }, accessToken, { bypassCache: true });
+        const loaded: OrgNode[] = data.orgChart;
+        setNodes(loaded);
+        if (!keepCollapsed) {
+          setCollapsed(new Set(loaded.filter((node) => node.level >= INITIALLY_OPEN_LEVELS - 1 && node.directReports > 0).map((node) => node.id)));
+        }
+      } catch (err: any) {
+        setError(err.message || "Failed to load the org chart");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [accessToken],
+  );
+
+  useEffect(() => {
+    if (canView) fetchChart();
+  }, [fetchChart, canView]);
+
+  const byId = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes]);
+  const childrenOf = useMemo(() => {
+    const children = new Map<string, OrgNode[]>();
+    for (const node of nodes) {
+      if (!node.parentId) continue;
+      children.set(node.parentId, [...(children.get(node.parentId) || []), node]);
+    }
+    return children;
+  }, [nodes]);
+  const roots = useMemo(() => nodes.filter((node) => !node.parentId), [nodes]);
+
+  const isBelow = (nodeId: string, ancestorId: string) => {
+    let current = byId.get(nodeId);
+    while (current?.parentId) {
+      if (current.parentId === ancestorId) return true;
+      current = byId.get(current.parentId);
+    }
+    return false;
+  };
+
+  useEffect(() => {
+    if (!focusedId) return;
+    cardRefs.current.get(focusedId)?.scrollIntoView({ behavior: "smooth", block: "center", inline: "center" });
+  }, [focusedId, collapsed]);
+
+  const toggle = (id: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const term = search.trim().toLowerCase();
+    if (!term) return;
+    const match = nodes.find((node) => node.name.toLowerCase().includes(term));
+    if (!match) {
+      alert(`Nobody called "${search.trim()}" in this chart`);
+      return;
+    }
+    // Open every manager above the match so its card is on screen
+    setCollapsed((current) => {
+      const next = new Set(current);
+      let parentId = match.parentId;
+      while (parentId) {
+        next.delete(parentId);
+        parentId = byId.get(parentId)?.parentId ?? null;
+      }
+      return next;
+    });
+    setFocusedId(match.id);
+  };
+
+  const canDrop = (target: OrgNode | null) => {
+    const dragged = draggedId ? byId.get(draggedId) : null;
+    if (!dragged) return false;
+    if (!target) return dragged.managerId !== null;
+    // Only people with a login can have reports; nobody may end up below themselves
+    return (
+      target.userId !== null &&
+      target.id !== dragged.id &&
+      target.userId !== dragged.managerId &&
+      !isBelow(target.id, dragged.id)
+    );
+  };
+
+  const handleDrop = (target: OrgNode | null) => {
+    const dragged = draggedId ? byId.get(draggedId) : null;
+    setDropTargetId(null);
+    setDraggedId(null);
+    if (dragged && canDrop(target)) {
+      setPendingMove({ node: dragged, target });
+    }
+  };
+
+  const confirmMove = async () => {
+    if (!pendingMove?.node.employeeId) return;
+    setSaving(true);
+    try {
+      await graphqlRequest(
+        SET_EMPLOYEE_MANAGER_MUTATION,
+        { employeeId: pendingMove.node.employeeId, managerUserId: pendingMove.target?.userId ?? null },
+        accessToken,
+      );
+      setPendingMove(null);
+      await fetchChart(true);
+      setFocusedId(pendingMove.node.id);
+    } catch (err: any) {
+      alert("Failed to change manager: " + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!e.ctrlKey) return;
+    e.preventDefault();
+    setZoom((current) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current - e.deltaY * 0.001)));
+  };
+
+  const managerLabel = (managerId: number | null) => {
+    if (managerId === null) return "No manager";
+    const manager = byId.get(`user:${managerId}`);
+    return manager ? `${managerId} (${manager.name})` : String(managerId);
+  };
+
+  const renderNode = (node: OrgNode): React.ReactNode => {
+    const children = childrenOf.get(node.id) || [];
+    const isCollapsed = collapsed.has(node.id);
+    const draggable = canReassign && node.employeeId !== null;
+    const highlighted = focusedId === node.id;
+    const isDropTarget = dropTargetId === node.id;
+
+    return (
+      <div key={node.id} style={{ display: "flex", flexDirection: "column", alignItems: "center" }}>
+        <div
+          ref={(element) => {
+            if (element) cardRefs.current.set(node.id, element);
+            else cardRefs.current.delete(node.id);
+          }}
+          draggable={draggable}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            setDraggedId(node.id);
+          }}
+          onDragEnd={() => {
+            setDraggedId(null);
+            setDropTargetId(null);
+          }}
+          onDragOver={(e) => {
+            if (!canDrop(node)) return;
+            e.preventDefault();
+            setDropTargetId(node.id);
+          }}
+          onDragLeave={() => setDropTargetId((current) => (current === node.id ? null : current))}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(node);
+          }}
+          style={{
+            width: "180px",
+            padding: "0.75rem",
+            background: isDropTarget ? "#dbeafe" : "white",
+            border: highlighted ? "2px solid #f59e0b" : isDropTarget ? "2px dashed #3b82f6" : "1px solid #e5e7eb",
+            borderRadius: "10px",
+            boxShadow: "0 1px 3px rgba(0,0,0,0.08)",
+            textAlign: "center",
+            cursor: draggable ? "grab" : "default",
+            opacity: draggedId === node.id ? 0.5 : 1,
+          }}
+        >
+          {node.avatar ? (
+            <img src={node.avatar} alt="" style={{ width: "44px", height: "44px", borderRadius: "50%", objectFit: "cover" }} />
+          ) : (
+            <div
+              style={{
+                width: "44px",
+                height: "44px",
+                margin: "0 auto",
+                borderRadius: "50%",
+                background: "#e0e7ff",
+                color: "#3730a3",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+                fontWeight: 600,
+              }}
+            >
+              {initials(node.name)}
+            </div>
+          )}
+          <div style={{ marginTop: "0.4rem", fontWeight: 600, fontSize: "0.9rem", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+            {node.name}
+          </div>
+          <div style={{ fontSize: "0.8rem", color: "#6b7280", textTransform: "capitalize" }}>{node.role}</div>
+          {node.headcount > 0 && (
+            <button
+              type="button"
+              onClick={() => toggle(node.id)}
+              style={{ ...buttonStyle, marginTop: "0.5rem", padding: "0.2rem 0.6rem", fontSize: "0.75rem" }}
+              title={`${node.directReports} direct, ${node.headcount} in total`}
+            >
+              {isCollapsed ? "▸" : "▾"} {node.headcount} {node.headcount === 1 ? "person" : "people"}
+            </button>
+          )}
+        </div>
+        {!isCollapsed && children.length > 0 && (
+          <>
+            <div style={{ width: "2px", height: "16px", background: "#cbd5e1" }} />
+            <div style={{ display: "flex", gap: "1rem", alignItems: "flex-start", paddingTop: "16px", borderTop: "2px solid #cbd5e1" }}>
+              {children.map(renderNode)}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  if (!canView) {
+    return (
+      <div style={{ padding: "2rem" }}>
+        <h1>Org Chart</h1>
+        <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
+          <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>Access Denied</h2>
+          <p style={{ color: "#7f1d1d", margin: 0 }}>The org chart is for managers and directors.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: "2rem" }}>
+      <div style={{ marginBottom: "1rem" }}>
+        <h1 style={{ margin: 0 }}>Org Chart</h1>
+        <p style={{ margin: "0.5rem 0 0 0", color: "#6b7280" }}>
+          Who reports to whom.{canReassign && " Drag someone onto their new manager to move them - their team moves with them."}
+        </p>
+      </div>
+
+      <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", alignItems: "center", marginBottom: "1rem" }}>
+        <form onSubmit={handleSearch} style={{ display: "flex", gap: "0.5rem" }}>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Find a person"
+            list="org-chart-names"
+            style={{ padding: "0.5rem 0.75rem", border: "1px solid #d1d5db", borderRadius: "6px" }}
+          />
+          <datalist id="org-chart-names">
+            {nodes.map((node) => (
+              <option key={node.id} value={node.name} />
+            ))}
+          </datalist>
+          <button type="submit" style={buttonStyle}>
+            Find
+          </button>
+        </form>
+        <div style={{ display: "flex", gap: "0.25rem", alignItems: "center" }}>
+          <button type="button" onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z - 0.1))} style={buttonStyle} aria-label="Zoom out">
+            −
+          </button>
+          <span style={{ minWidth: "3.5rem", textAlign: "center", fontSize: "0.85rem" }}>{Math.round(zoom * 100)}%</span>
+          <button type="button" onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + 0.1))} style={buttonStyle} aria-label="Zoom in">
+            +
+          </button>
+          <button type="button" onClick={() => setZoom(1)} style={buttonStyle}>
+            Reset
+          </button>
+        </div>
+        <button type="button" onClick={() => setCollapsed(new Set())} style={buttonStyle}>
+          Expand all
+        </button>
+        <button
+          type="button"
+          onClick={() => setCollapsed(new Set(nodes.filter((node) => node.directReports > 0).map((node) => node.id)))}
+          style={buttonStyle}
+        >
+          Collapse all
+        </button>
+      </div>
+
+      {canReassign && draggedId && (
+        <div
+          onDragOver={(e) => {
+            if (!canDrop(null)) return;
+            e.preventDefault();
+            setDropTargetId("none");
+          }}
+          onDragLeave={() => setDropTargetId(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(null);
+          }}
+          style={{
+            padding: "0.75rem",
+            marginBottom: "1rem",
+            border: "2px dashed #9ca3af",
+            borderRadius: "8px",
+            textAlign: "center",
+            color: "#4b5563",
+            background: dropTargetId === "none" ? "#f3f4f6" : "transparent",
+          }}
+        >
+          Drop here to remove their manager
+        </div>
+      )}
+
+      {error && <p style={{ color: "#991b1b" }}>{error}</p>}
+
+      {loading && nodes.length === 0 ? (
+        <p>Loading org chart...</p>
+      ) : nodes.length === 0 ? (
+        <div style={{ padding: "3rem", textAlign: "center", background: "white", borderRadius: "8px", border: "1px solid #e5e7eb" }}>
+          <p style={{ color: "#6b7280", margin: 0 }}>Nobody to show yet</p>
+        </div>
+      ) : (
+        <div
+          onWheel={handleWheel}
+          style={{ overflow: "auto", maxHeight: "75vh", background: "#f8fafc", border: "1px solid #e5e7eb", borderRadius: "8px", padding: "1.5rem" }}
+        >
+          <div style={{ transform: `scale(${zoom})`, transformOrigin: "top left", display: "flex", gap: "2rem", alignItems: "flex-start", width: "max-content" }}>
+            {roots.map(renderNode)}
+          </div>
+        </div>
+      )}
+
+      {pendingMove && (
+        <div
+          style={{ position: "fixed", inset: 0, background: "rgba(15, 23, 42, 0.45)", display: "flex", alignItems: "center", justifyContent: "center", zIndex: 1000 }}
+        >
+          <div style={{ background: "white", borderRadius: "10px", padding: "1.5rem", width: "min(560px, 92vw)" }}>
+            <h2 style={{ marginTop: 0 }}>Change manager?</h2>
+            <p style={{ color: "#374151" }}>
+              {pendingMove.target
+                ? `${pendingMove.node.name} will report to ${pendingMove.target.name}.`
+                : `${pendingMove.node.name} will no longer have a manager.`}{" "}
+              This row changes:
+            </p>
+            <table style={{ width: "100%", borderCollapse: "collapse", marginBottom: "1rem" }}>
+              <thead style={{ background: "#f9fafb" }}>
+                <tr>
+                  <th style={cellStyle}>Employee</th>
+                  <th style={cellStyle}>managerId now</th>
+                  <th style={cellStyle}>managerId after</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td style={cellStyle}>
+                    #{pendingMove.node.employeeId} {pendingMove.node.name}
+                  </td>
+                  <td style={cellStyle}>{managerLabel(pendingMove.node.managerId)}</td>
+                  <td style={cellStyle}>{managerLabel(pendingMove.target?.userId ?? null)}</td>
+                </tr>
+              </tbody>
+            </table>
+            {pendingMove.node.headcount > 0 && (
+              <p style={{ fontSize: "0.85rem", color: "#6b7280" }}>
+                The {pendingMove.node.headcount} {pendingMove.node.headcount === 1 ? "person" : "people"} below {pendingMove.node.name} move
+                along - their rows stay as they are.
+              </p>
+            )}
+            <div style={{ display: "flex", justifyContent: "flex-end", gap: "0.5rem" }}>
+              <button type="button" onClick={() => setPendingMove(null)} disabled={saving} style={buttonStyle}>
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={confirmMove}
+                disabled={saving}
+                style={{ ...buttonStyle, background: "#3b82f6", color: "white", border: "none", fontWeight: 600 }}
+              >
+                {saving ? "Saving..." : "Change manager"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,9 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useContext, useEffect, useMemo, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
 import { getStorageItem, setStorageItem } from "../lib/safeStorage";
+import { broadcastSession } from "../lib/sessionSync";
+import { graphql } from "../graphql/generated";
 
 type Props = {
   onBack?: () => void;
@@ -14,6 +18,25 @@ const STORAGE_KEYS = {
 };
 const APP_PREFERENCES_UPDATED_EVENT = "app-preferences-updated";
 
+// Email notifications live on the server - it decides whether leave/review emails go out.
+const EMAIL_PREFERENCES_QUERY = graphql(`
+  query EmailPreferences {
+    me {
+      id
+      emailNotifications
+    }
+  }
+`);
+
+const UPDATE_EMAIL_PREFERENCES_MUTATION = graphql(`
+  mutation UpdateEmailPreferences($emailNotifications: Boolean!) {
+    updateEmailPreferences(emailNotifications: $emailNotifications) {
+      id
+      emailNotifications
+    }
+  }
+`);
+
 const TIMEZONE_OPTIONS = [
   { value: "auto", label: "Auto-detect (recommended)" },
   { value: "America/New_York", label: "Eastern Time (New York)" },
@@ -38,6 +61,7 @@ const resolveSystemTimezone = () => {
 };
 
 export const PreferencesPage: React.FC<Props> = ({ onBack }) => {
+  const { accessToken } = useContext(AuthContext);
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [pushNotifications, setPushNotifications] = useState(false);
   const [theme, setTheme] = useState("light");
@@ -58,6 +82,17 @@ export const PreferencesPage: React.FC<Props> = ({ onBack }) => {
     setPushNotifications(parseBoolean(getStorageItem(STORAGE_KEYS.pushNotifications), false));
   }, []);
 
+  useEffect(() => {
+    if (!accessToken) return;
+    graphqlRequest(EMAIL_PREFERENCES_QUERY, {}, accessToken, { bypassCache: true })
+      .then((data: any) => {
+        if (typeof data.me?.emailNotifications === "boolean") {
+          setEmailNotifications(data.me.emailNotifications);
+        }
+      })
+      .catch((err) => console.error("Failed to load email preferences:", err));
+  }, [accessToken]);
+
   const activeTimezone = useMemo(() => {
     if (timezone === "auto") {
       return detectedTimezone || "UTC";
@@ -80,13 +115,21 @@ export const PreferencesPage: React.FC<Props> = ({ onBack }) => {
     }
   }, [activeTimezone]);
 
-  const handleSavePreferences = () => {
+  const handleSavePreferences = async () => {
     setStorageItem(STORAGE_KEYS.theme, theme);
     setStorageItem(STORAGE_KEYS.language, language);
     setStorageItem(STORAGE_KEYS.timezone, timezone);
     setStorageItem(STORAGE_KEYS.emailNotifications, String(emailNotifications));
     setStorageItem(STORAGE_KEYS.pushNotifications, String(pushNotifications));
     window.dispatchEvent(new Event(APP_PREFERENCES_UPDATED_EVENT));
+    broadcastSession({ type: "preferences-changed" });
+
+    try {
+      await graphqlRequest(UPDATE_EMAIL_PREFERENCES_MUTATION, { emailNotifications }, accessToken);
+    } catch (err: any) {
+      setSaveMessage("Saved on this device, but email preferences could not be updated: " + err.message);
+      return;
+    }
 
     setSaveMessage("Preferences saved successfully.");
     window.setTimeout(() => setSaveMessage(null), 3000);
@@ -151,7 +194,7 @@ export const PreferencesPage: React.FC<Props> = ({ onBack }) => {
 
           <PreferenceToggle
             label="Email notifications"
-            description="Receive updates about messages and approvals in email."
+            description="Receive emails about leave decisions and review outcomes."
             checked={emailNotifications}
             onChange={setEmailNotifications}
           />
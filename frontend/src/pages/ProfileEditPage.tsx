@@ -1,23 +1,13 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { graphqlRequest } from "../lib/graphqlClient";
 import { useAuth } from "../auth/authContext";
+import { graphql } from "../graphql/generated";
+import type { MyEditableProfileQuery } from "../graphql/generated/graphql";
 
-type EmployeeProfile = {
-  id: number;
-  name: string;
-  email: string | null;
-  age: number;
-  className: string;
-  attendance: number;
-  role: string;
-  status: string;
-  location: string;
-  lastLogin: string;
-  avatar?: string | null;
-};
+type EmployeeProfile = NonNullable<MyEditableProfileQuery["myProfile"]>;
 
-const MY_PROFILE_QUERY = `
-  query MyProfile {
+const MY_PROFILE_QUERY = graphql(`
+  query MyEditableProfile {
     myProfile {
       id
       name
@@ -32,9 +22,9 @@ const MY_PROFILE_QUERY = `
       avatar
     }
   }
-`;
+`);
 
-const UPDATE_MY_PROFILE_MUTATION = `
+const UPDATE_MY_PROFILE_MUTATION = graphql(`
   mutation UpdateMyProfile($input: ProfileUpdateInput!) {
     updateMyProfile(input: $input) {
       id
@@ -45,7 +35,7 @@ const UPDATE_MY_PROFILE_MUTATION = `
       avatar
     }
   }
-`;
+`);
 
 export default function ProfileEditPage() {
   const { user, accessToken, refreshToken, setAuth } = useAuth();
@@ -79,14 +69,16 @@ export default function ProfileEditPage() {
 
     try {
       setLoading(true);
-      const data = await graphqlRequest<{ myProfile: EmployeeProfile }>(MY_PROFILE_QUERY, {}, accessToken);
-      setProfile(data.myProfile);
+      const data = await graphqlRequest(MY_PROFILE_QUERY, {}, accessToken);
+      const myProfile = data.myProfile;
+      setProfile(myProfile);
+      if (!myProfile) return;
       setFormData({
-        name: data.myProfile.name,
-        email: data.myProfile.email || "",
-        age: data.myProfile.age,
-        location: data.myProfile.location,
-        avatar: data.myProfile.avatar || "",
+        name: myProfile.name,
+        email: myProfile.email || "",
+        age: myProfile.age ?? 25,
+        location: myProfile.location,
+        avatar: myProfile.avatar || "",
       });
     } catch (error: any) {
       console.error("Failed to fetch profile:", error);
@@ -116,14 +108,14 @@ export default function ProfileEditPage() {
         avatar: formData.avatar.trim() || null,
       };
 
-      const response = await graphqlRequest<{ updateMyProfile: EmployeeProfile }>(
+      const response = await graphqlRequest(
         UPDATE_MY_PROFILE_MUTATION,
         { input: payload },
         accessToken,
       );
 
       const updatedProfile = response.updateMyProfile;
-      setProfile((previous) => (previous ? { ...previous, ...updatedProfile } : updatedProfile));
+      setProfile((previous) => (previous ? { ...previous, ...updatedProfile } : previous));
 
       if (updatedProfile.email && updatedProfile.email !== user.email) {
         setAuth({
@@ -2,26 +2,17 @@ import React, { useEffect, useMemo, useState } from "react";
 import { useAuth } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
 import type { AppPage } from "../types/navigation";
+import { EMPLOYEE_STATUS, styleOf } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { MyProfileQuery } from "../graphql/generated/graphql";
 
-type ProfileRecord = {
-  id: number;
-  name: string;
-  email: string | null;
-  age: number;
-  className: string;
-  attendance: number;
-  role: string;
-  status: string;
-  location: string;
-  lastLogin: string;
-  avatar?: string | null;
-};
+type ProfileRecord = NonNullable<MyProfileQuery["myProfile"]>;
 
 type Props = {
   onNavigate?: (page: AppPage) => void;
 };
 
-const MY_PROFILE_QUERY = `
+const MY_PROFILE_QUERY = graphql(`
   query MyProfile {
     myProfile {
       id
@@ -37,7 +28,7 @@ const MY_PROFILE_QUERY = `
       avatar
     }
   }
-`;
+`);
 
 export const ProfilePage: React.FC<Props> = ({ onNavigate }) => {
   const { accessToken, user } = useAuth();
@@ -54,7 +45,7 @@ export const ProfilePage: React.FC<Props> = ({ onNavigate }) => {
 
       try {
         setLoading(true);
-        const data = await graphqlRequest<{ myProfile: ProfileRecord }>(MY_PROFILE_QUERY, {}, accessToken);
+        const data = await graphqlRequest(MY_PROFILE_QUERY, {}, accessToken);
         setProfile(data.myProfile);
       } catch (err: any) {
         console.error("Failed to load profile:", err);
@@ -165,9 +156,9 @@ export const ProfilePage: React.FC<Props> = ({ onNavigate }) => {
         </InfoCard>
 
         <InfoCard title="Work Details">
-          <InfoRow label="Department" value={profile.className} />
-          <InfoRow label="Attendance" value={`${profile.attendance}%`} />
-          <InfoRow label="Status" value={profile.status} />
+          <InfoRow label="Department" value={profile.className || "-"} />
+          <InfoRow label="Attendance" value={profile.attendance == null ? "-" : `${profile.attendance}%`} />
+          <InfoRow label="Status" value={styleOf(EMPLOYEE_STATUS, profile.status).label} />
         </InfoCard>
       </div>
 
@@ -183,7 +174,7 @@ export const ProfilePage: React.FC<Props> = ({ onNavigate }) => {
       >
         <h3 style={{ marginTop: 0, color: "#0f172a" }}>Recent Access</h3>
         <p style={{ marginBottom: 0, color: "#475569" }}>
-          Last login: {new Date(profile.lastLogin).toLocaleString("en-US")}
+          Last login: {profile.lastLogin ? new Date(profile.lastLogin).toLocaleString("en-US") : "-"}
         </p>
       </div>
     </div>
@@ -1,6 +1,11 @@
 import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { MAX_PAGE_SIZE, fetchAllNodes } from "../lib/connections";
+import { EMPLOYEE_STATUS, styleOf, type EmployeeStatus } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { ReportEmployeesQuery } from "../graphql/generated/graphql";
 
 type Employee = {
   id: number;
@@ -10,36 +15,56 @@ type Employee = {
   subjects: string[];
   attendance: number;
   role: string;
-  status: string;
+  status: EmployeeStatus;
   location: string;
   lastLogin: string;
 };
 
-const EMPLOYEES_QUERY = `
-  query Employees {
-    employees(page: 1, pageSize: 1000) {
-      items {
-        id
-        name
-        age
-        className
-        subjects
-        attendance
-        role
-        status
-        location
-        lastLogin
+// Fields the caller may not see come back null - report them as zero/empty
+function toReportEmployee(node: ReportEmployeesQuery["employees"]["edges"][number]["node"]): Employee {
+  return {
+    ...node,
+    age: node.age ?? 0,
+    className: node.className ?? "",
+    subjects: node.subjects ?? [],
+    attendance: node.attendance ?? 0,
+    status: node.status ?? "ACTIVE",
+    lastLogin: node.lastLogin ?? "",
+  };
+}
+
+const EMPLOYEES_QUERY = graphql(`
+  query ReportEmployees($first: Int, $after: String) {
+    employees(first: $first, after: $after) {
+      edges {
+        node {
+          id
+          name
+          age
+          className
+          subjects
+          attendance
+          role
+          status
+          location
+          lastLogin
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
       }
+      totalCount
     }
   }
-`;
+`);
 
 export const ReportsPage: React.FC = () => {
   const { accessToken, user } = useContext(AuthContext);
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [loading, setLoading] = useState(false);
   
-  const isManagerOrAbove = user?.role === "director" || user?.role === "manager";
+  const canViewReports = hasPermission(user, "employee.stats");
 
   useEffect(() => {
     fetchEmployees();
@@ -48,8 +73,16 @@ export const ReportsPage: React.FC = () => {
   const fetchEmployees = async () => {
     if (!accessToken) return;
     try {
-      const data: any = await graphqlRequest(EMPLOYEES_QUERY, {}, accessToken);
-      setEmployees(data.employees.items);
+      // Reports cover everyone, so walk all the pages
+      const allEmployees = await fetchAllNodes(async (after) => {
+        const data = await graphqlRequest(
+          EMPLOYEES_QUERY,
+          { first: MAX_PAGE_SIZE, after },
+          accessToken,
+        );
+        return data.employees;
+      });
+      setEmployees(allEmployees.map(toReportEmployee));
     } catch (err) {
       console.error("Failed to fetch employees:", err);
     }
@@ -63,7 +96,7 @@ export const ReportsPage: React.FC = () => {
         `Average Attendance: ${(employees.reduce((sum, e) => sum + e.attendance, 0) / employees.length).toFixed(1)}%\n\n` +
         `Employee Details:\n` +
         employees.map(e => 
-          `${e.name} (${e.className}): ${e.attendance}% - ${e.status}`
+          `${e.name} (${e.className}): ${e.attendance}% - ${styleOf(EMPLOYEE_STATUS, e.status).label}`
         ).join('\n');
       
       downloadTextFile(report, `attendance-report-${Date.now()}.txt`);
@@ -84,7 +117,7 @@ export const ReportsPage: React.FC = () => {
         employees
           .sort((a, b) => b.attendance - a.attendance)
           .map(e => 
-            `${e.name} (${e.role}): ${e.attendance}% - Status: ${e.status}`
+            `${e.name} (${e.role}): ${e.attendance}% - Status: ${styleOf(EMPLOYEE_STATUS, e.status).label}`
           ).join('\n');
       
       downloadTextFile(report, `performance-report-${Date.now()}.txt`);
@@ -97,12 +130,12 @@ export const ReportsPage: React.FC = () => {
     setLoading(true);
     setTimeout(() => {
       const report = `LEAVE REPORT - ${new Date().toLocaleDateString()}\n\n` +
-        `Employees on Leave: ${employees.filter(e => e.status === 'on-leave').length}\n` +
-        `Active Employees: ${employees.filter(e => e.status === 'active').length}\n` +
-        `Terminated: ${employees.filter(e => e.status === 'terminated').length}\n\n` +
+        `Employees on Leave: ${employees.filter(e => e.status === 'ON_LEAVE').length}\n` +
+        `Active Employees: ${employees.filter(e => e.status === 'ACTIVE').length}\n` +
+        `Terminated: ${employees.filter(e => e.status === 'TERMINATED').length}\n\n` +
         `Status Details:\n` +
         employees.map(e => 
-          `${e.name} - ${e.status} (Last Login: ${new Date(e.lastLogin).toLocaleDateString()})`
+          `${e.name} - ${styleOf(EMPLOYEE_STATUS, e.status).label} (Last Login: ${new Date(e.lastLogin).toLocaleDateString()})`
         ).join('\n');
       
       downloadTextFile(report, `leave-report-${Date.now()}.txt`);
@@ -155,14 +188,14 @@ export const ReportsPage: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  if (!isManagerOrAbove) {
+  if (!canViewReports) {
     return (
       <div style={{ padding: "2rem" }}>
         <h1>Reports</h1>
         <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
           <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>Access Denied</h2>
           <p style={{ color: "#7f1d1d", margin: 0 }}>
-            Only Managers and Directors have permission to generate and download reports. 
+            You don't have permission to generate and download reports. 
             Please contact your manager or system administrator if you need access to report data.
           </p>
         </div>
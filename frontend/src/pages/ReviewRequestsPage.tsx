@@ -1,90 +1,95 @@
 import React, { useState, useEffect } from "react";
 import { useAuth } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { nodesOf } from "../lib/connections";
+import { LoadMore } from "../components/LoadMore";
+import { EMPLOYEE_STATUS, REVIEW_STATUS, styleOf, type ReviewStatus } from "../lib/statuses";
+import { graphql } from "../graphql/generated";
+import type { GetReviewRequestsQuery, ReviewDecision } from "../graphql/generated/graphql";
 
-const REVIEW_REQUESTS_QUERY = `
-  query GetReviewRequests($status: String) {
-    reviewRequests(status: $status) {
-      id
-      type
-      status
-      requestedByEmail
-      managerReasonType
-      managerReasonText
-      visibleToEmployee
-      adminComment
-      reviewedAt
-      createdAt
-      employee {
-        id
-        name
-        email
-        role
-        status
-        attendance
-        avatar
+const REVIEW_REQUESTS_QUERY = graphql(`
+  query GetReviewRequests($status: ReviewStatus, $first: Int, $after: String) {
+    reviewRequests(status: $status, first: $first, after: $after) {
+      edges {
+        node {
+          id
+          type
+          status
+          requestedByEmail
+          managerReasonType
+          managerReasonText
+          visibleToEmployee
+          adminComment
+          reviewedAt
+          createdAt
+          employee {
+            id
+            name
+            email
+            role
+            status
+            attendance
+            avatar
+          }
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
       }
+      totalCount
     }
   }
-`;
+`);
 
-const REVIEW_DECISION_MUTATION = `
+const REVIEW_DECISION_MUTATION = graphql(`
   mutation ReviewDecision($input: ReviewDecisionInput!) {
     reviewDecision(input: $input) {
       id
       status
     }
   }
-`;
+`);
 
-type ReviewRequest = {
-  id: number;
-  type: string;
-  status: string;
-  requestedByEmail: string;
-  managerReasonType: string;
-  managerReasonText: string;
-  visibleToEmployee: boolean;
-  adminComment?: string;
-  reviewedAt?: string;
-  createdAt: string;
-  employee: {
-    id: number;
-    name: string;
-    email: string;
-    role: string;
-    status: string;
-    attendance: number;
-    avatar?: string;
-  };
-};
+type ReviewRequest = GetReviewRequestsQuery["reviewRequests"]["edges"][number]["node"];
 
 export const ReviewRequestsPage: React.FC = () => {
   const { user, accessToken } = useAuth();
   const [requests, setRequests] = useState<ReviewRequest[]>([]);
-  const [filter, setFilter] = useState<string>("PENDING");
+  const [filter, setFilter] = useState<ReviewStatus | "ALL">("PENDING");
   const [selectedRequest, setSelectedRequest] = useState<ReviewRequest | null>(null);
   const [showDecisionModal, setShowDecisionModal] = useState(false);
-  const [decision, setDecision] = useState<string>("");
+  const [decision, setDecision] = useState<ReviewDecision | "">("");
   const [adminComment, setAdminComment] = useState("");
   const [loading, setLoading] = useState(false);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     fetchRequests();
   }, [filter, accessToken]);
 
-  const fetchRequests = async () => {
+  // Newest first; loading more continues after nextCursor
+  const fetchRequests = async (loadMore = false) => {
     if (!accessToken) return;
 
+    if (loadMore) setLoadingMore(true);
     try {
-      const data = await graphqlRequest<{ reviewRequests: ReviewRequest[] }>(
+      const data = await graphqlRequest(
         REVIEW_REQUESTS_QUERY,
-        { status: filter === "ALL" ? undefined : filter },
+        { status: filter === "ALL" ? undefined : filter, first: 25, after: loadMore ? nextCursor : null },
         accessToken
       );
-      setRequests(data.reviewRequests);
+      const page = nodesOf(data.reviewRequests);
+      setRequests((current) => (loadMore ? [...current, ...page] : page));
+      setTotal(data.reviewRequests.totalCount);
+      setNextCursor(data.reviewRequests.pageInfo.hasNextPage ? data.reviewRequests.pageInfo.endCursor : null);
     } catch (error) {
       console.error("Error fetching review requests:", error);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
@@ -133,19 +138,6 @@ export const ReviewRequestsPage: React.FC = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "PENDING":
-        return "#f59e0b";
-      case "APPROVED":
-        return "#059669";
-      case "REJECTED":
-        return "#dc2626";
-      default:
-        return "#6b7280";
-    }
-  };
-
   const getTypeIcon = (type: string) => {
     return type === "FLAG" ? "🚩" : "🚫";
   };
@@ -161,11 +153,11 @@ export const ReviewRequestsPage: React.FC = () => {
     });
   };
 
-  if (user?.role !== "director") {
+  if (!hasPermission(user, "review.decide")) {
     return (
       <div style={{ padding: "2rem", textAlign: "center" }}>
         <h2>⛔ Access Denied</h2>
-        <p>Only Directors can access review requests.</p>
+        <p>You don't have permission to decide review requests.</p>
       </div>
     );
   }
@@ -184,7 +176,7 @@ export const ReviewRequestsPage: React.FC = () => {
 
       {/* Filter Tabs */}
       <div style={{ marginBottom: "2rem", display: "flex", gap: "1rem" }}>
-        {["PENDING", "APPROVED", "REJECTED", "ALL"].map((status) => (
+        {(["PENDING", "APPROVED", "REJECTED", "ALL"] as const).map((status) => (
           <button
             key={status}
             onClick={() => setFilter(status)}
@@ -199,7 +191,7 @@ export const ReviewRequestsPage: React.FC = () => {
               transition: "all 0.2s",
             }}
           >
-            {status}
+            {status === "ALL" ? "All" : styleOf(REVIEW_STATUS, status).label}
           </button>
         ))}
       </div>
@@ -316,11 +308,11 @@ export const ReviewRequestsPage: React.FC = () => {
                         borderRadius: "12px",
                         fontSize: "12px",
                         fontWeight: "600",
-                        background: `${getStatusColor(request.status)}20`,
-                        color: getStatusColor(request.status),
+                        background: styleOf(REVIEW_STATUS, request.status).background,
+                        color: styleOf(REVIEW_STATUS, request.status).color,
                       }}
                     >
-                      {request.status}
+                      {styleOf(REVIEW_STATUS, request.status).label}
                     </span>
                   </td>
                   <td style={{ padding: "1rem", textAlign: "center" }}>
@@ -354,6 +346,14 @@ export const ReviewRequestsPage: React.FC = () => {
             )}
           </tbody>
         </table>
+        {requests.length > 0 && (
+          <LoadMore
+            hasMore={nextCursor !== null}
+            loading={loadingMore}
+            onLoadMore={() => fetchRequests(true)}
+            summary={`Showing ${requests.length} of ${total}`}
+          />
+        )}
       </div>
 
       {/* Decision Modal */}
@@ -438,7 +438,7 @@ export const ReviewRequestsPage: React.FC = () => {
                       Current Status
                     </div>
                     <div style={{ fontWeight: "600", color: "#111827" }}>
-                      {selectedRequest.employee.status}
+                      {styleOf(EMPLOYEE_STATUS, selectedRequest.employee.status).label}
                     </div>
                   </div>
                   <div>
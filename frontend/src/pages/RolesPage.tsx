@@ -0,0 +1,487 @@
+import React, { useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { AuthContext } from "../auth/authContext";
+import type { PermissionScope } from "../auth/authContext";
+import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { graphql } from "../graphql/generated";
+
+type Permission = {
+  key: string;
+  category: string;
+  description: string;
+  scopes: PermissionScope[];
+};
+
+type Role = {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  isSystem: boolean;
+  permissions: { permission: string; scope: PermissionScope }[];
+  userCount: number;
+};
+
+type UserOption = { id: number; email: string; role: string };
+
+// Permission key -> scope ("" = not granted), per role id
+type Grants = Record<string, PermissionScope | "">;
+
+const ROLE_FIELDS = graphql(`
+  fragment RoleFields on Role {
+    id
+    key
+    name
+    description
+    isSystem
+    permissions {
+      permission
+      scope
+    }
+    userCount
+  }
+`);
+
+const ROLES_QUERY = graphql(`
+  query RolesAndPermissions {
+    roles {
+      ...RoleFields
+    }
+    permissions {
+      key
+      category
+      description
+      scopes
+    }
+  }
+`);
+
+const USERS_QUERY = graphql(`
+  query RoleAssignmentUsers {
+    allUsers {
+      id
+      email
+      role
+    }
+  }
+`);
+
+const CREATE_ROLE_MUTATION = graphql(`
+  mutation CreateRole($input: RoleInput!) {
+    createRole(input: $input) {
+      ...RoleFields
+    }
+  }
+`);
+
+const UPDATE_ROLE_MUTATION = graphql(`
+  mutation UpdateRole($id: Int!, $input: RoleInput!) {
+    updateRole(id: $id, input: $input) {
+      ...RoleFields
+    }
+  }
+`);
+
+const DELETE_ROLE_MUTATION = graphql(`
+  mutation DeleteRole($id: Int!) {
+    deleteRole(id: $id)
+  }
+`);
+
+const SET_USER_ROLE_MUTATION = graphql(`
+  mutation SetUserRole($userId: Int!, $role: String!) {
+    setUserRole(userId: $userId, role: $role) {
+      id
+      role
+    }
+  }
+`);
+
+const SCOPE_LABELS: Record<PermissionScope, string> = { all: "All", team: "Team", own: "Own" };
+
+const inputStyle: React.CSSProperties = {
+  padding: "0.5rem 0.75rem",
+  border: "1px solid #d1d5db",
+  borderRadius: "6px",
+  fontSize: "0.9rem",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "0.25rem",
+  fontSize: "0.85rem",
+  color: "#374151",
+};
+
+const formStyle: React.CSSProperties = {
+  display: "flex",
+  flexWrap: "wrap",
+  gap: "0.75rem",
+  alignItems: "flex-end",
+  padding: "1.25rem",
+  background: "white",
+  border: "1px solid #e5e7eb",
+  borderRadius: "8px",
+  marginBottom: "1rem",
+};
+
+const cellStyle: React.CSSProperties = { padding: "0.6rem 0.75rem", borderBottom: "1px solid #e5e7eb" };
+
+const buttonStyle: React.CSSProperties = {
+  padding: "0.4rem 0.8rem",
+  color: "white",
+  border: "none",
+  borderRadius: "6px",
+  cursor: "pointer",
+  whiteSpace: "nowrap",
+};
+
+function toGrants(role: Role): Grants {
+  const grants: Grants = {};
+  for (const grant of role.permissions) {
+    grants[grant.permission] = grant.scope;
+  }
+  return grants;
+}
+
+function sameGrants(a: Grants, b: Grants) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every((key) => (a[key] || "") === (b[key] || ""));
+}
+
+/**
+ * Roles & Permissions: which role may do what, as a matrix of permissions by role.
+ * The Director column is read-only - that role always has everything.
+ */
+export const RolesPage: React.FC = () => {
+  const { accessToken, user } = useContext(AuthContext);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [catalog, setCatalog] = useState<Permission[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Unsaved edits, by role id
+  const [drafts, setDrafts] = useState<Record<number, Grants>>({});
+  const [savingRoleId, setSavingRoleId] = useState<number | null>(null);
+
+  const [newName, setNewName] = useState("");
+  const [newDescription, setNewDescription] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const [assignUserId, setAssignUserId] = useState("");
+  const [assignRole, setAssignRole] = useState("");
+  const [assigning, setAssigning] = useState(false);
+
+  const canManageRoles = hasPermission(user, "role.manage");
+  const canChangeRoles = hasPermission(user, "user.changeRole");
+
+  const fetchRoles = useCallback(async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const data: any = await graphqlRequest(ROLES_QUERY, {}, accessToken, { bypassCache: true });
+      setRoles(data.roles);
+      setCatalog(data.permissions);
+      setDrafts({});
+    } catch (err: any) {
+      setError(err.message || "Failed to load roles");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  const fetchUsers = useCallback(async () => {
+    if (!accessToken) return;
+    try {
+      const data: any = await graphqlRequest(USERS_QUERY, {}, accessToken, { bypassCache: true });
+      setUsers(data.allUsers);
+    } catch (err) {
+      console.error("Failed to load users:", err);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    if (canManageRoles) fetchRoles();
+  }, [fetchRoles, canManageRoles]);
+
+  useEffect(() => {
+    if (canManageRoles && canChangeRoles) fetchUsers();
+  }, [fetchUsers, canManageRoles, canChangeRoles]);
+
+  const categories = useMemo(() => {
+    const grouped = new Map<string, Permission[]>();
+    for (const permission of catalog) {
+      grouped.set(permission.category, [...(grouped.get(permission.category) || []), permission]);
+    }
+    return Array.from(grouped);
+  }, [catalog]);
+
+  const grantsFor = (role: Role) => drafts[role.id] || toGrants(role);
+  const isDirty = (role: Role) => Boolean(drafts[role.id]) && !sameGrants(drafts[role.id], toGrants(role));
+
+  const setScope = (role: Role, permission: string, scope: PermissionScope | "") => {
+    setDrafts((current) => ({ ...current, [role.id]: { ...grantsFor(role), [permission]: scope } }));
+  };
+
+  const handleSave = async (role: Role) => {
+    const grants = grantsFor(role);
+    setSavingRoleId(role.id);
+    try {
+      const data: any = await graphqlRequest(
+        UPDATE_ROLE_MUTATION,
+        {
+          id: role.id,
+          input: {
+            name: role.name,
+            description: role.description,
+            permissions: Object.entries(grants)
+              .filter(([, scope]) => scope)
+              .map(([permission, scope]) => ({ permission, scope })),
+          },
+        },
+        accessToken,
+      );
+      setRoles((current) => current.map((r) => (r.id === role.id ? data.updateRole : r)));
+      setDrafts((current) => {
+        const { [role.id]: _saved, ...rest } = current;
+        return rest;
+      });
+    } catch (err: any) {
+      alert("Failed to save role: " + err.message);
+    } finally {
+      setSavingRoleId(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const data: any = await graphqlRequest(
+        CREATE_ROLE_MUTATION,
+        { input: { name: newName, description: newDescription || null, permissions: [] } },
+        accessToken,
+      );
+      setRoles((current) => [...current, data.createRole]);
+      setNewName("");
+      setNewDescription("");
+    } catch (err: any) {
+      alert("Failed to create role: " + err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!window.confirm(`Delete the "${role.name}" role?`)) return;
+    try {
+      await graphqlRequest(DELETE_ROLE_MUTATION, { id: role.id }, accessToken);
+      setRoles((current) => current.filter((r) => r.id !== role.id));
+    } catch (err: any) {
+      alert("Failed to delete role: " + err.message);
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!assignUserId || !assignRole) return;
+    setAssigning(true);
+    try {
+      await graphqlRequest(SET_USER_ROLE_MUTATION, { userId: Number(assignUserId), role: assignRole }, accessToken);
+      setAssignUserId("");
+      setAssignRole("");
+      fetchRoles();
+      fetchUsers();
+    } catch (err: any) {
+      alert("Failed to change role: " + err.message);
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  if (!canManageRoles) {
+    return (
+      <div style={{ padding: "2rem" }}>
+        <h1>Roles & Permissions</h1>
+        <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
+          <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>Access Denied</h2>
+          <p style={{ color: "#7f1d1d", margin: 0 }}>Your role doesn't include the role.manage permission.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ padding: "2rem" }}>
+      <div style={{ marginBottom: "1.5rem" }}>
+        <h1 style={{ margin: 0 }}>Roles & Permissions</h1>
+        <p style={{ margin: "0.5rem 0 0 0", color: "#6b7280" }}>
+          Choose what each role may do. <strong>Team</strong> covers the employees someone manages,{" "}
+          <strong>Own</strong> only their own records. Changes apply within a minute.
+        </p>
+      </div>
+
+      <form onSubmit={handleCreate} style={formStyle}>
+        <label style={labelStyle}>
+          New role
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="e.g. HR partner"
+            required
+            style={inputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          Description (optional)
+          <input
+            type="text"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            style={{ ...inputStyle, width: "20rem" }}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={creating}
+          style={{ padding: "0.6rem 1.2rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", fontWeight: 600 }}
+        >
+          {creating ? "Creating..." : "Create role"}
+        </button>
+      </form>
+
+      {canChangeRoles && (
+        <form onSubmit={handleAssign} style={formStyle}>
+          <label style={labelStyle}>
+            User
+            <select value={assignUserId} onChange={(e) => setAssignUserId(e.target.value)} required style={inputStyle}>
+              <option value="">Choose a user</option>
+              {users
+                .filter((account) => account.id !== user?.id)
+                .map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.email} ({account.role})
+                  </option>
+                ))}
+            </select>
+          </label>
+          <label style={labelStyle}>
+            New role
+            <select value={assignRole} onChange={(e) => setAssignRole(e.target.value)} required style={inputStyle}>
+              <option value="">Choose a role</option>
+              {roles.map((role) => (
+                <option key={role.key} value={role.key}>
+                  {role.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={assigning}
+            style={{ padding: "0.6rem 1.2rem", background: "#3b82f6", color: "white", border: "none", borderRadius: "6px", cursor: "pointer", fontWeight: 600 }}
+          >
+            {assigning ? "Saving..." : "Change role"}
+          </button>
+          <span style={{ fontSize: "0.8rem", color: "#6b7280" }}>The user is signed out everywhere and logs in again with the new role.</span>
+        </form>
+      )}
+
+      {error && <p style={{ color: "#991b1b" }}>{error}</p>}
+
+      {loading ? (
+        <p>Loading roles...</p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", background: "white", borderRadius: "8px", overflow: "hidden", border: "1px solid #e5e7eb" }}>
+            <thead style={{ background: "#f9fafb" }}>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Permission</th>
+                {roles.map((role) => (
+                  <th key={role.id} style={{ ...cellStyle, textAlign: "left", verticalAlign: "top" }}>
+                    <div>{role.name}</div>
+                    <div style={{ fontSize: "0.75rem", color: "#6b7280", fontWeight: 400 }}>
+                      <code>{role.key}</code> · {role.userCount} user{role.userCount === 1 ? "" : "s"}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {categories.map(([category, permissions]) => (
+                <React.Fragment key={category}>
+                  <tr>
+                    <td colSpan={roles.length + 1} style={{ ...cellStyle, background: "#f3f4f6", fontWeight: 600 }}>
+                      {category}
+                    </td>
+                  </tr>
+                  {permissions.map((permission) => (
+                    <tr key={permission.key}>
+                      <td style={cellStyle}>
+                        <code style={{ fontSize: "0.8rem" }}>{permission.key}</code>
+                        <div style={{ fontSize: "0.8rem", color: "#6b7280" }}>{permission.description}</div>
+                      </td>
+                      {roles.map((role) => {
+                        const locked = role.key === "director";
+                        return (
+                          <td key={role.id} style={cellStyle}>
+                            <select
+                              value={grantsFor(role)[permission.key] || ""}
+                              onChange={(e) => setScope(role, permission.key, e.target.value as PermissionScope | "")}
+                              disabled={locked}
+                              style={{ ...inputStyle, padding: "0.3rem 0.5rem", fontSize: "0.8rem" }}
+                            >
+                              <option value="">-</option>
+                              {permission.scopes.map((scope) => (
+                                <option key={scope} value={scope}>
+                                  {SCOPE_LABELS[scope]}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+              <tr>
+                <td style={cellStyle} />
+                {roles.map((role) => (
+                  <td key={role.id} style={{ ...cellStyle, whiteSpace: "nowrap" }}>
+                    {role.key === "director" ? (
+                      <span style={{ fontSize: "0.8rem", color: "#6b7280" }}>Always everything</span>
+                    ) : (
+                      <div style={{ display: "flex", gap: "0.4rem" }}>
+                        <button
+                          onClick={() => handleSave(role)}
+                          disabled={!isDirty(role) || savingRoleId === role.id}
+                          style={{ ...buttonStyle, background: isDirty(role) ? "#10b981" : "#9ca3af" }}
+                        >
+                          {savingRoleId === role.id ? "Saving..." : "Save"}
+                        </button>
+                        {!role.isSystem && (
+                          <button
+                            onClick={() => handleDelete(role)}
+                            disabled={role.userCount > 0}
+                            title={role.userCount > 0 ? "Move its users to another role first" : undefined}
+                            style={{ ...buttonStyle, background: role.userCount > 0 ? "#fca5a5" : "#ef4444" }}
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
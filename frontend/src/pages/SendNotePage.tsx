@@ -1,6 +1,8 @@
 import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { graphql } from "../graphql/generated";
 
 type User = {
   id: number;
@@ -8,17 +10,17 @@ type User = {
   role: string;
 };
 
-const USERS_QUERY = `
-  query AllUsers {
+const USERS_QUERY = graphql(`
+  query NoteRecipients {
     allUsers {
       id
       email
       role
     }
   }
-`;
+`);
 
-const SEND_NOTE_MUTATION = `
+const SEND_NOTE_MUTATION = graphql(`
   mutation SendNote($input: NoteInput!) {
     sendNote(input: $input) {
       id
@@ -26,7 +28,7 @@ const SEND_NOTE_MUTATION = `
       toAll
     }
   }
-`;
+`);
 
 export const SendNotePage: React.FC = () => {
   const { accessToken, user } = useContext(AuthContext);
@@ -48,7 +50,7 @@ export const SendNotePage: React.FC = () => {
     }
 
     try {
-      const data = await graphqlRequest<{ allUsers: User[] }>(USERS_QUERY, {}, accessToken);
+      const data = await graphqlRequest(USERS_QUERY, {}, accessToken);
       const filtered = (data.allUsers || []).filter((account) => account.id !== user?.id);
       setUsersList(filtered);
     } catch (error) {
@@ -108,7 +110,7 @@ export const SendNotePage: React.FC = () => {
     }
   };
 
-  if (user?.role !== "director" && user?.role !== "manager") {
+  if (!hasPermission(user, "note.send")) {
     return (
       <div style={{ padding: "2rem" }}>
         <h1>Send Note</h1>
@@ -122,7 +124,7 @@ export const SendNotePage: React.FC = () => {
             color: "#991b1b",
           }}
         >
-          Only directors and managers can send notes.
+          You don't have permission to send notes.
         </div>
       </div>
     );
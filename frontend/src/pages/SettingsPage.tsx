@@ -1,24 +1,122 @@
-import React, { useContext, useState } from "react";
+import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { SessionsPanel } from "../components/SessionsPanel";
+import { graphql } from "../graphql/generated";
 
-const CHANGE_PASSWORD_MUTATION = `
+const CHANGE_PASSWORD_MUTATION = graphql(`
   mutation ChangePassword($currentPassword: String!, $newPassword: String!) {
     changePassword(currentPassword: $currentPassword, newPassword: $newPassword) {
       success
       message
+      accessToken
+      fieldErrors {
+        field
+        code
+        message
+      }
     }
   }
-`;
+`);
+
+const ME_2FA_QUERY = graphql(`
+  query MyTwoFactorStatus {
+    me {
+      id
+      twoFAEnabled
+    }
+  }
+`);
+
+const SETUP_2FA_MUTATION = graphql(`
+  mutation Setup2FA {
+    setup2FA {
+      otpauthUrl
+      qrCode
+      recoveryCodes
+    }
+  }
+`);
+
+const VERIFY_2FA_MUTATION = graphql(`
+  mutation Verify2FA($code: String!) {
+    verify2FA(code: $code)
+  }
+`);
+
+type FieldError = {
+  field: string;
+  code: string;
+  message: string;
+};
+
+type TwoFASetup = {
+  otpauthUrl: string;
+  qrCode: string;
+  recoveryCodes: string[];
+};
 
 export const SettingsPage: React.FC = () => {
-  const { accessToken, user } = useContext(AuthContext);
+  const { accessToken, refreshToken, user, setAuth } = useContext(AuthContext);
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [message, setMessage] = useState("");
   const [messageType, setMessageType] = useState<"success" | "error">("success");
   const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [twoFAEnabled, setTwoFAEnabled] = useState(false);
+  const [twoFASetup, setTwoFASetup] = useState<TwoFASetup | null>(null);
+  const [twoFACode, setTwoFACode] = useState("");
+  const [twoFAMessage, setTwoFAMessage] = useState("");
+  const [twoFAMessageType, setTwoFAMessageType] = useState<"success" | "error">("success");
+  const [twoFALoading, setTwoFALoading] = useState(false);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    graphqlRequest(ME_2FA_QUERY, {}, accessToken, { bypassCache: true })
+      .then((data: any) => setTwoFAEnabled(Boolean(data.me?.twoFAEnabled)))
+      .catch((err) => console.error("Failed to load 2FA status:", err));
+  }, [accessToken]);
+
+  const handleStart2FASetup = async () => {
+    setTwoFALoading(true);
+    setTwoFAMessage("");
+    try {
+      const data: any = await graphqlRequest(SETUP_2FA_MUTATION, {}, accessToken!);
+      setTwoFASetup(data.setup2FA);
+      setTwoFACode("");
+    } catch (err: any) {
+      setTwoFAMessageType("error");
+      setTwoFAMessage(err.message || "Failed to start 2FA setup");
+    } finally {
+      setTwoFALoading(false);
+    }
+  };
+
+  const handleVerify2FA = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setTwoFALoading(true);
+    setTwoFAMessage("");
+    try {
+      const data: any = await graphqlRequest(VERIFY_2FA_MUTATION, { code: twoFACode.trim() }, accessToken!);
+      if (data.verify2FA) {
+        setTwoFAEnabled(true);
+        setTwoFASetup(null);
+        setTwoFACode("");
+        setTwoFAMessageType("success");
+        setTwoFAMessage("Two-factor authentication is now enabled.");
+      } else {
+        setTwoFAMessageType("error");
+        setTwoFAMessage("Invalid code. Check your authenticator app and try again.");
+      }
+    } catch (err: any) {
+      setTwoFAMessageType("error");
+      setTwoFAMessage(err.message || "Failed to verify code");
+    } finally {
+      setTwoFALoading(false);
+    }
+  };
 
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,14 +127,10 @@ export const SettingsPage: React.FC = () => {
       return;
     }
 
-    if (newPassword.length < 6) {
-      setMessageType("error");
-      setMessage("New password must be at least 6 characters");
-      return;
-    }
-
+    // Length, complexity and reuse rules are checked by the server (password policy)
     setLoading(true);
     setMessage("");
+    setFieldErrors([]);
 
     try {
       const data: any = await graphqlRequest(
@@ -46,6 +140,10 @@ export const SettingsPage: React.FC = () => {
       );
 
       if (data.changePassword.success) {
+        // The old access token stops working once the password changes - swap in the new one.
+        if (data.changePassword.accessToken) {
+          setAuth({ user, accessToken: data.changePassword.accessToken, refreshToken });
+        }
         setMessageType("success");
         setMessage(data.changePassword.message);
         setCurrentPassword("");
@@ -54,6 +152,7 @@ export const SettingsPage: React.FC = () => {
       } else {
         setMessageType("error");
         setMessage(data.changePassword.message);
+        setFieldErrors(data.changePassword.fieldErrors || []);
       }
     } catch (err: any) {
       setMessageType("error");
@@ -63,6 +162,15 @@ export const SettingsPage: React.FC = () => {
     }
   };
 
+  const renderFieldErrors = (field: string) =>
+    fieldErrors
+      .filter((error) => error.field === field)
+      .map((error) => (
+        <div key={error.code} style={{ marginTop: "0.375rem", fontSize: "0.875rem", color: "#991b1b" }}>
+          {error.message}
+        </div>
+      ));
+
   return (
     <div style={{ padding: "2rem" }}>
       <h1>Account Settings</h1>
@@ -89,6 +197,108 @@ export const SettingsPage: React.FC = () => {
           </div>
         </div>
 
+        <div style={{ padding: "2rem", background: "white", borderRadius: "8px", border: "1px solid #e5e7eb", marginBottom: "1.5rem" }}>
+          <h3 style={{ margin: "0 0 0.5rem 0" }}>Two-Factor Authentication</h3>
+          <p style={{ color: "#6b7280", marginBottom: "1rem" }}>
+            {twoFAEnabled
+              ? "Enabled - you will be asked for a code from your authenticator app when you sign in."
+              : "Add a second step to sign-in using an authenticator app."}
+          </p>
+
+          {twoFAMessage && (
+            <div style={{ 
+              padding: "1rem", 
+              marginBottom: "1rem", 
+              background: twoFAMessageType === "success" ? "#d1fae5" : "#fee2e2",
+              border: `1px solid ${twoFAMessageType === "success" ? "#10b981" : "#ef4444"}`,
+              borderRadius: "6px",
+              color: twoFAMessageType === "success" ? "#065f46" : "#991b1b"
+            }}>
+              {twoFAMessage}
+            </div>
+          )}
+
+          {!twoFAEnabled && !twoFASetup && (
+            <button
+              type="button"
+              onClick={handleStart2FASetup}
+              disabled={twoFALoading}
+              style={{ 
+                padding: "0.75rem 1.5rem", 
+                background: twoFALoading ? "#9ca3af" : "#3b82f6", 
+                color: "white", 
+                border: "none", 
+                borderRadius: "6px", 
+                cursor: twoFALoading ? "not-allowed" : "pointer",
+                fontWeight: "600"
+              }}
+            >
+              {twoFALoading ? "Preparing..." : "Enable 2FA"}
+            </button>
+          )}
+
+          {!twoFAEnabled && twoFASetup && (
+            <form onSubmit={handleVerify2FA}>
+              <p style={{ color: "#374151", margin: "0 0 0.75rem 0" }}>
+                1. Scan this QR code with your authenticator app.
+              </p>
+              <img src={twoFASetup.qrCode} alt="2FA QR code" style={{ width: "180px", height: "180px", marginBottom: "1rem" }} />
+
+              <p style={{ color: "#374151", margin: "0 0 0.5rem 0" }}>
+                2. Save these recovery codes somewhere safe. Each works once if you lose your device - they will not be shown again.
+              </p>
+              <div style={{ 
+                display: "grid", 
+                gridTemplateColumns: "repeat(2, 1fr)", 
+                gap: "0.25rem", 
+                padding: "1rem", 
+                background: "#f9fafb", 
+                borderRadius: "6px", 
+                fontFamily: "monospace", 
+                marginBottom: "1rem" 
+              }}>
+                {twoFASetup.recoveryCodes.map((code) => (
+                  <span key={code}>{code}</span>
+                ))}
+              </div>
+
+              <label style={{ display: "block", fontWeight: "600", marginBottom: "0.5rem", color: "#374151" }}>
+                3. Enter the 6-digit code to confirm
+              </label>
+              <input 
+                type="text"
+                inputMode="numeric"
+                value={twoFACode}
+                onChange={(e) => setTwoFACode(e.target.value)}
+                required
+                disabled={twoFALoading}
+                style={{ width: "100%", padding: "0.75rem", border: "1px solid #d1d5db", borderRadius: "6px", marginBottom: "1rem" }}
+              />
+              <button 
+                type="submit"
+                disabled={twoFALoading}
+                style={{ 
+                  padding: "0.75rem 1.5rem", 
+                  background: twoFALoading ? "#9ca3af" : "#3b82f6", 
+                  color: "white", 
+                  border: "none", 
+                  borderRadius: "6px", 
+                  cursor: twoFALoading ? "not-allowed" : "pointer",
+                  fontWeight: "600"
+                }}
+              >
+                {twoFALoading ? "Verifying..." : "Verify & Enable"}
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div style={{ padding: "2rem", background: "white", borderRadius: "8px", border: "1px solid #e5e7eb", marginBottom: "1.5rem" }}>
+          <h3 style={{ margin: "0 0 0.5rem 0" }}>Active Sessions</h3>
+          <p style={{ color: "#6b7280", marginBottom: "1rem" }}>Devices and browsers currently signed in to your account</p>
+          <SessionsPanel />
+        </div>
+
         <div style={{ padding: "2rem", background: "white", borderRadius: "8px", border: "1px solid #e5e7eb" }}>
           <h3 style={{ margin: "0 0 0.5rem 0" }}>Change Password</h3>
           <p style={{ color: "#6b7280", marginBottom: "1.5rem" }}>Update your password to keep your account secure</p>
@@ -119,6 +329,7 @@ export const SettingsPage: React.FC = () => {
                 disabled={loading}
                 style={{ width: "100%", padding: "0.75rem", border: "1px solid #d1d5db", borderRadius: "6px" }}
               />
+              {renderFieldErrors("currentPassword")}
             </div>
 
             <div style={{ marginBottom: "1rem" }}>
@@ -130,10 +341,10 @@ export const SettingsPage: React.FC = () => {
                 value={newPassword}
                 onChange={(e) => setNewPassword(e.target.value)}
                 required
-                minLength={6}
                 disabled={loading}
                 style={{ width: "100%", padding: "0.75rem", border: "1px solid #d1d5db", borderRadius: "6px" }}
               />
+              {renderFieldErrors("newPassword")}
             </div>
 
             <div style={{ marginBottom: "1.5rem" }}>
@@ -145,7 +356,6 @@ export const SettingsPage: React.FC = () => {
                 value={confirmPassword}
                 onChange={(e) => setConfirmPassword(e.target.value)}
                 required
-                minLength={6}
                 disabled={loading}
                 style={{ width: "100%", padding: "0.75rem", border: "1px solid #d1d5db", borderRadius: "6px" }}
               />
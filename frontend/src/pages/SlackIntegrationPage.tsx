@@ -1,11 +1,12 @@
 import React, { useState } from "react";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { graphql } from "../graphql/generated";
 
-const SLACK_MUTATION = `
+const SLACK_MUTATION = graphql(`
   mutation SendSlackNotification($webhookUrl: String!, $text: String!) {
     sendSlackNotification(webhookUrl: $webhookUrl, text: $text) { success }
   }
-`;
+`);
 
 const SlackIntegrationPage: React.FC = () => {
   const [webhookUrl, setWebhookUrl] = useState("");
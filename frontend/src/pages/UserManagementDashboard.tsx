@@ -1,35 +1,12 @@
 import React, { useState, useEffect, useContext } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { graphql } from "../graphql/generated";
+import type { DashboardStatsQuery } from "../graphql/generated/graphql";
 
-interface DashboardStats {
-  totalUsers: number;
-  activeUsers: number;
-  blockedUsers: number;
-  recentLogins: number;
-  roleDistribution: {
-    directors: number;
-    managers: number;
-    employees: number;
-  };
-  recentActions: AccessControlLog[];
-}
-
-interface AccessControlLog {
-  id: number;
-  action: string;
-  reason?: string;
-  blockedUntil?: string;
-  createdAt: string;
-  user: {
-    email: string;
-  };
-  admin: {
-    email: string;
-  };
-}
+type DashboardStats = DashboardStatsQuery["dashboardStats"];
 
-const DASHBOARD_QUERY = `
+const DASHBOARD_QUERY = graphql(`
   query DashboardStats {
     dashboardStats {
       totalUsers
@@ -56,7 +33,7 @@ const DASHBOARD_QUERY = `
       }
     }
   }
-`;
+`);
 
 export const UserManagementDashboard: React.FC = () => {
   const { accessToken, user } = useContext(AuthContext);
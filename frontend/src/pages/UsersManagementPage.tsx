@@ -1,6 +1,10 @@
 import React, { useContext, useEffect, useState } from "react";
 import { AuthContext } from "../auth/authContext";
 import { graphqlRequest } from "../lib/graphqlClient";
+import { hasPermission } from "../lib/permissions";
+import { SessionsPanel } from "../components/SessionsPanel";
+import { startImpersonation } from "../auth/impersonation";
+import { graphql } from "../graphql/generated";
 
 type User = {
   id: number;
@@ -8,6 +12,7 @@ type User = {
   role: string;
   createdAt: string;
   isActive?: boolean;
+  twoFAEnabled?: boolean;
 };
 
 // Utility to format date safely
@@ -22,7 +27,7 @@ const formatDate = (dateString: string): string => {
   }
 };
 
-const ALL_USERS_QUERY = `
+const ALL_USERS_QUERY = graphql(`
   query AllUsers($searchTerm: String, $roleFilter: String, $statusFilter: String) {
     allUsers(searchTerm: $searchTerm, roleFilter: $roleFilter, statusFilter: $statusFilter) {
       id
@@ -30,30 +35,37 @@ const ALL_USERS_QUERY = `
       role
       createdAt
       isActive
+      twoFAEnabled
     }
   }
-`;
+`);
 
-const DELETE_USER_MUTATION = `
+const DELETE_USER_MUTATION = graphql(`
   mutation DeleteUser($id: Int!) {
     deleteUser(id: $id)
   }
-`;
+`);
 
-const TOGGLE_USER_ACCESS_MUTATION = `
+const TOGGLE_USER_ACCESS_MUTATION = graphql(`
   mutation ToggleUserAccess($id: Int!, $isActive: Boolean!, $reason: String, $blockedUntil: String) {
     toggleUserAccess(id: $id, isActive: $isActive, reason: $reason, blockedUntil: $blockedUntil)
   }
-`;
+`);
 
-const BULK_TOGGLE_ACCESS_MUTATION = `
+const RESET_2FA_MUTATION = graphql(`
+  mutation Reset2FA($userId: Int!) {
+    reset2FA(userId: $userId)
+  }
+`);
+
+const BULK_TOGGLE_ACCESS_MUTATION = graphql(`
   mutation BulkToggleAccess($userIds: [Int!]!, $isActive: Boolean!, $reason: String) {
     bulkToggleAccess(userIds: $userIds, isActive: $isActive, reason: $reason)
   }
-`;
+`);
 
 export const UsersManagementPage: React.FC = () => {
-  const { accessToken, user } = useContext(AuthContext);
+  const { accessToken, refreshToken, user, setAuth } = useContext(AuthContext);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
@@ -64,6 +76,7 @@ export const UsersManagementPage: React.FC = () => {
   const [actionUser, setActionUser] = useState<{id: number, email: string, currentStatus: boolean} | null>(null);
   const [accessReason, setAccessReason] = useState("");
   const [blockDuration, setBlockDuration] = useState("");
+  const [sessionsUser, setSessionsUser] = useState<{ id: number; email: string } | null>(null);
 
   useEffect(() => {
     fetchUsers();
@@ -180,6 +193,36 @@ export const UsersManagementPage: React.FC = () => {
     }
   };
 
+  const handleReset2FA = async (id: number, email: string) => {
+    if (!window.confirm(`Reset two-factor authentication for ${email}?\n\nThey will be able to sign in with just their password until they set it up again.`)) {
+      return;
+    }
+
+    try {
+      await graphqlRequest(RESET_2FA_MUTATION, { userId: id }, accessToken);
+      alert("2FA reset successfully");
+      fetchUsers();
+    } catch (err: any) {
+      alert("Failed to reset 2FA: " + err.message);
+    }
+  };
+
+  const handleViewAs = async (id: number, email: string) => {
+    const reason = window.prompt(
+      `View the app as ${email}?\n\nThe session is read-only, ends after 15 minutes and every request is audit logged.\nReason (required):`,
+    );
+    if (!reason || !reason.trim() || !user || !accessToken) {
+      return;
+    }
+
+    try {
+      const impersonated = await startImpersonation({ user, accessToken, refreshToken }, id, reason.trim());
+      setAuth(impersonated);
+    } catch (err: any) {
+      alert("Failed to view as user: " + err.message);
+    }
+  };
+
   const getRoleBadgeStyle = (role: string) => {
     if (role === "director") {
       return {
@@ -213,14 +256,14 @@ export const UsersManagementPage: React.FC = () => {
     }
   };
 
-  if (user?.role !== "director") {
+  if (!hasPermission(user, "user.manageAccess")) {
     return (
       <div style={{ padding: "2rem" }}>
         <h1>👑 System Administration</h1>
         <div style={{ marginTop: "2rem", padding: "2rem", background: "#fee2e2", border: "1px solid #fecaca", borderRadius: "8px" }}>
-          <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>🔒 Director Access Only</h2>
+          <h2 style={{ margin: "0 0 1rem 0", color: "#991b1b" }}>🔒 Access Denied</h2>
           <p style={{ color: "#7f1d1d", margin: 0 }}>
-            Only Directors have access to manage all system users. This includes creating, editing, and deleting Director, Manager, and Employee accounts.
+            You don't have permission to manage system users. This includes creating, editing, and deleting Director, Manager, and Employee accounts.
           </p>
         </div>
       </div>
@@ -238,10 +281,59 @@ export const UsersManagementPage: React.FC = () => {
 
   const directors = users.filter(u => u.role === "director");
   const managers = users.filter(u => u.role === "manager");
-  const employees = users.filter(u => u.role === "employee");
+  // Custom roles are listed with the employees - the badge shows the actual role
+  const employees = users.filter(u => u.role !== "director" && u.role !== "manager");
 
   return (
     <div style={{ padding: "2rem" }}>
+      {/* Sessions Modal */}
+      {sessionsUser && (
+        <div style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          background: "rgba(0,0,0,0.5)",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          zIndex: 1000
+        }}>
+          <div style={{
+            background: "white",
+            padding: "2rem",
+            borderRadius: "12px",
+            maxWidth: "640px",
+            width: "90%",
+            maxHeight: "80vh",
+            overflowY: "auto"
+          }}>
+            <h2 style={{ marginTop: 0 }}>💻 Active Sessions</h2>
+            <p style={{ color: "#6b7280" }}>
+              User: <strong>{sessionsUser.email}</strong>
+            </p>
+            <SessionsPanel userId={sessionsUser.id} />
+            <div style={{ display: "flex", justifyContent: "flex-end", marginTop: "1.5rem" }}>
+              <button
+                onClick={() => setSessionsUser(null)}
+                style={{
+                  padding: "0.75rem 1.5rem",
+                  background: "#e5e7eb",
+                  color: "#374151",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                  fontWeight: "600"
+                }}
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Reason Modal */}
       {showReasonModal && actionUser && (
         <div style={{
@@ -613,6 +705,38 @@ export const UsersManagementPage: React.FC = () => {
                         >
                           🗑️ Delete
                         </button>
+                        <button
+                          onClick={() => setSessionsUser({ id: usr.id, email: usr.email })}
+                          style={{
+                            padding: "0.4rem 0.8rem",
+                            background: "#0ea5e9",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "6px",
+                            cursor: "pointer",
+                            fontSize: "0.875rem",
+                            fontWeight: "600"
+                          }}
+                        >
+                          💻 Sessions
+                        </button>
+                        {usr.twoFAEnabled && (
+                          <button
+                            onClick={() => handleReset2FA(usr.id, usr.email)}
+                            style={{
+                              padding: "0.4rem 0.8rem",
+                              background: "#6366f1",
+                              color: "white",
+                              border: "none",
+                              borderRadius: "6px",
+                              cursor: "pointer",
+                              fontSize: "0.875rem",
+                              fontWeight: "600"
+                            }}
+                          >
+                            🔑 Reset 2FA
+                          </button>
+                        )}
                         {usr.isActive === false && (
                           <span style={{ 
                             fontSize: "0.75rem", 
@@ -727,6 +851,55 @@ export const UsersManagementPage: React.FC = () => {
                         >
                           🗑️ Delete
                         </button>
+                        <button
+                          onClick={() => setSessionsUser({ id: usr.id, email: usr.email })}
+                          style={{
+                            padding: "0.4rem 0.8rem",
+                            background: "#0ea5e9",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "6px",
+                            cursor: "pointer",
+                            fontSize: "0.875rem",
+                            fontWeight: "600"
+                          }}
+                        >
+                          💻 Sessions
+                        </button>
+                        {usr.isActive !== false && (
+                          <button
+                            onClick={() => handleViewAs(usr.id, usr.email)}
+                            style={{
+                              padding: "0.4rem 0.8rem",
+                              background: "#64748b",
+                              color: "white",
+                              border: "none",
+                              borderRadius: "6px",
+                              cursor: "pointer",
+                              fontSize: "0.875rem",
+                              fontWeight: "600"
+                            }}
+                          >
+                            👁️ View as
+                          </button>
+                        )}
+                        {usr.twoFAEnabled && (
+                          <button
+                            onClick={() => handleReset2FA(usr.id, usr.email)}
+                            style={{
+                              padding: "0.4rem 0.8rem",
+                              background: "#6366f1",
+                              color: "white",
+                              border: "none",
+                              borderRadius: "6px",
+                              cursor: "pointer",
+                              fontSize: "0.875rem",
+                              fontWeight: "600"
+                            }}
+                          >
+                            🔑 Reset 2FA
+                          </button>
+                        )}
                         {usr.isActive === false && (
                           <span style={{ 
                             fontSize: "0.75rem", 
@@ -841,6 +1014,55 @@ export const UsersManagementPage: React.FC = () => {
                         >
                           🗑️ Delete
                         </button>
+                        <button
+                          onClick={() => setSessionsUser({ id: usr.id, email: usr.email })}
+                          style={{
+                            padding: "0.4rem 0.8rem",
+                            background: "#0ea5e9",
+                            color: "white",
+                            border: "none",
+                            borderRadius: "6px",
+                            cursor: "pointer",
+                            fontSize: "0.875rem",
+                            fontWeight: "600"
+                          }}
+                        >
+                          💻 Sessions
+                        </button>
+                        {usr.isActive !== false && (
+                          <button
+                            onClick={() => handleViewAs(usr.id, usr.email)}
+                            style={{
+                              padding: "0.4rem 0.8rem",
+                              background: "#64748b",
+                              color: "white",
+                              border: "none",
+                              borderRadius: "6px",
+                              cursor: "pointer",
+                              fontSize: "0.875rem",
+                              fontWeight: "600"
+                            }}
+                          >
+                            👁️ View as
+                          </button>
+                        )}
+                        {usr.twoFAEnabled && (
+                          <button
+                            onClick={() => handleReset2FA(usr.id, usr.email)}
+                            style={{
+                              padding: "0.4rem 0.8rem",
+                              background: "#6366f1",
+                              color: "white",
+                              border: "none",
+                              borderRadius: "6px",
+                              cursor: "pointer",
+                              fontSize: "0.875rem",
+                              fontWeight: "600"
+                            }}
+                          >
+                            🔑 Reset 2FA
+                          </button>
+                        )}
                         {usr.isActive === false && (
                           <span style={{ 
                             fontSize: "0.75rem", 
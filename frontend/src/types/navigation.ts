@@ -23,4 +23,8 @@ export type AppPage =
   | "messagingInbox"
   | "analyticsDashboard"
   | "employeeSelfServicePortal"
-  | "slackIntegration";
+  | "slackIntegration"
+  | "invitations"
+  | "api-keys"
+  | "roles"
+  | "org-chart";
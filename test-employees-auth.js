@@ -7,15 +7,17 @@ const AUTH_URL = `${BACKEND_URL}/auth/login`;
 
 const employeesQuery = `
   query {
-    employees(page: 1, pageSize: 10) {
-      items {
-        id
-        name
-        age
-        className
-        attendance
+    employees(first: 10) {
+      edges {
+        node {
+          id
+          name
+          age
+          className
+          attendance
+        }
       }
-      total
+      totalCount
     }
   }
 `;
@@ -84,10 +86,10 @@ async function testEmployeesAPI() {
       return;
     }
 
-    console.log(`✅ Found ${employees.total} employees in database:`);
+    console.log(`✅ Found ${employees.totalCount} employees in database:`);
     console.log("");
 
-    if (employees.items.length === 0) {
+    if (employees.edges.length === 0) {
       console.log("⚠️  NO EMPLOYEES FOUND!");
       console.log("");
       console.log("SOLUTION:");
@@ -102,7 +104,7 @@ async function testEmployeesAPI() {
       return;
     }
 
-    employees.items.forEach((emp, idx) => {
+    employees.edges.forEach(({ node: emp }, idx) => {
       console.log(`${idx + 1}. ${emp.name} (ID: ${emp.id})`);
       console.log(`   Age: ${emp.age}, Class: ${emp.className}, Attendance: ${emp.attendance}%`);
     });
@@ -1,19 +1,22 @@
 // Quick test to check if employees API is returning data
-// Usage: node test-employees.js
+// Usage: API_KEY=pdk_... node test-employees.js
+// (create a key with the employees:read scope on the API Keys page)
 
 const API_URL = "https://employee-poc-full-auth.onrender.com/graphql";
 
 const query = `
   query {
-    employees(page: 1, pageSize: 10) {
-      items {
-        id
-        name
-        age
-        className
-        attendance
+    employees(first: 10) {
+      edges {
+        node {
+          id
+          name
+          age
+          className
+          attendance
+        }
       }
-      total
+      totalCount
     }
   }
 `;
@@ -28,6 +31,7 @@ async function testEmployeesAPI() {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        ...(process.env.API_KEY ? { Authorization: `Bearer ${process.env.API_KEY}` } : {}),
       },
       body: JSON.stringify({ query }),
     });
@@ -47,16 +51,16 @@ async function testEmployeesAPI() {
     }
 
     const employees = data.data.employees;
-    console.log(`✅ Found ${employees.total} employees (showing ${employees.items.length}):`);
+    console.log(`✅ Found ${employees.totalCount} employees (showing ${employees.edges.length}):`);
     console.log("");
 
-    if (employees.items.length === 0) {
+    if (employees.edges.length === 0) {
       console.log("⚠️  No employees in database!");
       console.log("   → Run: npx prisma db seed");
       return;
     }
 
-    employees.items.forEach((emp, idx) => {
+    employees.edges.forEach(({ node: emp }, idx) => {
       console.log(`${idx + 1}. ${emp.name} (ID: ${emp.id})`);
       console.log(`   Age: ${emp.age}, Class: ${emp.className}, Attendance: ${emp.attendance}%`);
     });